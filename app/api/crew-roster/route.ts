@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { generateMockCrew, generateMockProjects } from '@/lib/orchestration/mock-data';
+import { CrewMemberInput, parseCrewMember, planRoster, validateRoster } from '@/lib/orchestration/roster';
+import { CrewAssignment, CrewMember, Project } from '@/lib/orchestration/types';
+
+/**
+ * Crew Roster API - competency, certificate and rest-hour checks for project crews
+ *
+ * GET /api/crew-roster - Plan the demo crew pool onto the demo projects
+ *   - horizonDays: how far ahead to roster (default 90)
+ * POST /api/crew-roster
+ *   {
+ *     projects: Project[],          // with requirements.competencies
+ *     crew: CrewMember[],           // rotation as { onDays, offDays, cycleStart }
+ *                                   // or "28/28" with rotationStart
+ *     assignments?: CrewAssignment[],
+ *     mode?: 'validate' | 'plan',   // default: validate when assignments are given
+ *     now?, horizonDays?
+ *   }
+ *
+ * Dates may be ISO strings. Planning keeps the supplied assignments and fills
+ * the remaining gaps. Problems come back as crew_shortage conflicts.
+ */
+
+interface ProjectInput extends Omit<Project, 'schedule'> {
+  schedule: { startDate: string | Date; endDate: string | Date };
+}
+
+function toDate(value: string | Date | undefined): Date {
+  const date = new Date(value ?? NaN);
+  if (isNaN(date.getTime())) throw new Error(`Invalid date: ${String(value)}`);
+  return date;
+}
+
+// ============================================================================
+// GET - Demo roster
+// ============================================================================
+
+export async function GET(request: NextRequest) {
+  const horizonParam = new URL(request.url).searchParams.get('horizonDays');
+  const horizonDays = horizonParam !== null ? parseInt(horizonParam, 10) : undefined;
+  if (horizonDays !== undefined && (!Number.isFinite(horizonDays) || horizonDays <= 0)) {
+    return NextResponse.json(
+      { success: false, error: 'horizonDays must be a positive integer' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const crew = generateMockCrew();
+    const plan = planRoster(generateMockProjects(), crew, { horizonDays });
+
+    return NextResponse.json({
+      success: true,
+      plan,
+      crew,
+      generatedAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Crew roster error:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to plan crew roster' },
+      { status: 500 }
+    );
+  }
+}
+
+// ============================================================================
+// POST - Validate or plan a supplied roster
+// ============================================================================
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    if (!Array.isArray(body.projects) || !Array.isArray(body.crew)) {
+      return NextResponse.json(
+        { success: false, error: 'projects and crew arrays are required' },
+        { status: 400 }
+      );
+    }
+    if (body.assignments !== undefined && !Array.isArray(body.assignments)) {
+      return NextResponse.json(
+        { success: false, error: 'assignments must be an array' },
+        { status: 400 }
+      );
+    }
+
+    let projects: Project[];
+    let crew: CrewMember[];
+    let assignments: CrewAssignment[] | undefined;
+    let now: Date | undefined;
+    try {
+      projects = (body.projects as ProjectInput[]).map(p => ({
+        ...p,
+        schedule: { ...p.schedule, startDate: toDate(p.schedule?.startDate), endDate: toDate(p.schedule?.endDate) },
+      }));
+      crew = (body.crew as CrewMemberInput[]).map(parseCrewMember);
+      assignments = (body.assignments as Array<Omit<CrewAssignment, 'startDate' | 'endDate'> & {
+        startDate: string | Date;
+        endDate: string | Date;
+      }> | undefined)?.map(a => ({
+        ...a,
+        startDate: toDate(a.startDate),
+        endDate: toDate(a.endDate),
+      }));
+      now = body.now !== undefined ? toDate(body.now) : undefined;
+    } catch (error) {
+      return NextResponse.json(
+        { success: false, error: error instanceof Error ? error.message : 'Invalid roster input' },
+        { status: 400 }
+      );
+    }
+
+    const mode = body.mode ?? (assignments ? 'validate' : 'plan');
+    if (mode !== 'validate' && mode !== 'plan') {
+      return NextResponse.json(
+        { success: false, error: `Unknown mode: ${mode}` },
+        { status: 400 }
+      );
+    }
+
+    const options = { now, horizonDays: typeof body.horizonDays === 'number' ? body.horizonDays : undefined };
+    const plan = mode === 'validate'
+      ? validateRoster(projects, crew, assignments ?? [], options)
+      : planRoster(projects, crew, { ...options, existing: assignments });
+
+    return NextResponse.json({
+      success: true,
+      mode,
+      plan,
+      generatedAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Crew roster error:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to check crew roster' },
+      { status: 500 }
+    );
+  }
+}
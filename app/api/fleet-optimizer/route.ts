@@ -15,6 +15,10 @@ interface RequestBody {
     lat: number;
     lng: number;
     speed?: number;
+    selfPropelled?: boolean;
+    crewCount?: number;
+    dayRateUSD?: number;
+    base?: { name: string; lat: number; lng: number };
   }>;
   projects: Array<{
     id: string;
@@ -53,6 +57,10 @@ export async function POST(request: NextRequest) {
       lng: v.lng,
       speed: v.speed || 10,
       fuelConsumptionRate: getFuelRate(v.type),
+      selfPropelled: v.selfPropelled,
+      crewCount: v.crewCount,
+      dayRateUSD: v.dayRateUSD,
+      base: v.base,
     }));
 
     const projectLocations: ProjectLocation[] = projects.map((p) => ({
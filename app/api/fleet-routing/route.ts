@@ -0,0 +1,189 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { NMDC_FLEET } from '@/lib/nmdc/fleet';
+import { Stop } from '@/lib/routes/optimizer';
+import { routePlanner, RouteStrategyId } from '@/lib/routes/planner';
+import {
+  CargoCapacity,
+  defaultCapacity,
+  FleetVessel,
+  fleetVesselFromNMDC,
+  getSupplyFleet,
+  optimizeFleetRouting,
+} from '@/lib/routes/fleet-routing';
+
+/**
+ * Fleet Routing API - supply runs across several vessels
+ *
+ * GET /api/fleet-routing - Supply vessels and their default capacities
+ * POST /api/fleet-routing - Assign and sequence stops across vessels
+ *   {
+ *     depot: { lat, lng, name? },
+ *     stops: [{ id?, name, lat, lng, deckCargoTonnes?, fuelDeliveryM3?, waterDeliveryM3?,
+ *               serviceTimeHours?, timeWindowStart?, timeWindowEnd? }],
+ *     vessels?: Array<mmsi | { id, name, type, capacity?, start?, availableFrom? }>,
+ *     departureTime?, returnToDepot?, latenessCostPerHour?, strategy?, planLegs?
+ *   }
+ *
+ * Vessels default to the NMDC supply fleet; MMSIs are looked up in NMDC_FLEET.
+ */
+
+interface StopInput {
+  id?: string;
+  name: string;
+  lat: number;
+  lng: number;
+  priority?: number;
+  deckCargoTonnes?: number;
+  fuelDeliveryM3?: number;
+  waterDeliveryM3?: number;
+  serviceTimeHours?: number;
+  timeWindowStart?: string;
+  timeWindowEnd?: string;
+}
+
+interface VesselInput {
+  id: string;
+  name?: string;
+  type?: string;
+  capacity?: Partial<CargoCapacity>;
+  start?: { lat: number; lng: number; name?: string };
+  availableFrom?: string;
+}
+
+// ============================================================================
+// GET - Supply fleet
+// ============================================================================
+
+export async function GET() {
+  const vessels = getSupplyFleet();
+  return NextResponse.json({
+    success: true,
+    vessels,
+    count: vessels.length,
+  });
+}
+
+// ============================================================================
+// POST - Solve fleet routing
+// ============================================================================
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const depot = body.depot;
+    const stopsInput: StopInput[] = body.stops;
+
+    if (body.strategy !== undefined && !routePlanner.hasStrategy(body.strategy)) {
+      return NextResponse.json(
+        { success: false, error: `Unknown route strategy: ${body.strategy}` },
+        { status: 400 }
+      );
+    }
+
+    if (typeof depot?.lat !== 'number' || typeof depot?.lng !== 'number') {
+      return NextResponse.json(
+        { success: false, error: 'depot with lat/lng is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(stopsInput) || stopsInput.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'At least one stop is required for fleet routing' },
+        { status: 400 }
+      );
+    }
+
+    const departureTime = body.departureTime ? new Date(body.departureTime) : undefined;
+    if (departureTime && isNaN(departureTime.getTime())) {
+      return NextResponse.json(
+        { success: false, error: 'departureTime must be an ISO date' },
+        { status: 400 }
+      );
+    }
+
+    const stops: Stop[] = stopsInput.map((s, index) => ({
+      id: s.id || `stop-${index}`,
+      name: s.name || `Stop ${index + 1}`,
+      lat: s.lat,
+      lng: s.lng,
+      priority: s.priority,
+      deckCargoTonnes: s.deckCargoTonnes,
+      fuelDeliveryM3: s.fuelDeliveryM3,
+      waterDeliveryM3: s.waterDeliveryM3,
+      serviceTimeHours: s.serviceTimeHours,
+      timeWindowStart: s.timeWindowStart ? new Date(s.timeWindowStart) : undefined,
+      timeWindowEnd: s.timeWindowEnd ? new Date(s.timeWindowEnd) : undefined,
+    }));
+
+    const invalidStop = stops.find(s =>
+      typeof s.lat !== 'number' || typeof s.lng !== 'number' ||
+      (s.timeWindowStart && isNaN(s.timeWindowStart.getTime())) ||
+      (s.timeWindowEnd && isNaN(s.timeWindowEnd.getTime()))
+    );
+    if (invalidStop) {
+      return NextResponse.json(
+        { success: false, error: `Stop ${invalidStop.name} needs numeric lat/lng and ISO time windows` },
+        { status: 400 }
+      );
+    }
+
+    // Resolve vessels: MMSIs from the NMDC fleet, or explicit vessel objects
+    let vessels: FleetVessel[];
+    if (Array.isArray(body.vessels) && body.vessels.length > 0) {
+      vessels = [];
+      for (const input of body.vessels as Array<string | VesselInput>) {
+        const id = typeof input === 'string' ? input : input.id;
+        const fleetVessel = NMDC_FLEET.find(v => v.mmsi === id);
+        if (typeof input === 'string') {
+          if (!fleetVessel) {
+            return NextResponse.json(
+              { success: false, error: `Vessel ${input} is not in the NMDC fleet` },
+              { status: 400 }
+            );
+          }
+          vessels.push(fleetVesselFromNMDC(fleetVessel));
+          continue;
+        }
+
+        const defaults: FleetVessel = fleetVessel
+          ? fleetVesselFromNMDC(fleetVessel)
+          : { id: input.id, name: input.id, type: input.type || 'supply', capacity: defaultCapacity(input.type || 'supply') };
+        vessels.push({
+          ...defaults,
+          name: input.name || defaults.name,
+          type: input.type || defaults.type,
+          capacity: { ...defaults.capacity, ...input.capacity },
+          start: input.start,
+          availableFrom: input.availableFrom ? new Date(input.availableFrom) : undefined,
+        });
+      }
+    } else {
+      vessels = getSupplyFleet();
+    }
+
+    const result = await optimizeFleetRouting({
+      depot: { id: 'depot', name: depot.name || 'Depot', lat: depot.lat, lng: depot.lng },
+      stops,
+      vessels,
+      departureTime,
+      returnToDepot: body.returnToDepot,
+      latenessCostPerHour: body.latenessCostPerHour,
+      strategy: body.strategy as RouteStrategyId | undefined,
+      planLegs: body.planLegs,
+    });
+
+    return NextResponse.json({
+      success: true,
+      mode: 'fleet',
+      result,
+      generatedAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Fleet routing error:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to optimize fleet routing' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,195 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { NMDC_FLEET } from '@/lib/nmdc/fleet';
+import {
+  generateMockAssignments,
+  generateMockCrew,
+  generateMockMetocean,
+  generateMockProjects,
+} from '@/lib/orchestration/mock-data';
+import { optimizeSchedule, scheduleVesselFromNMDC } from '@/lib/orchestration/optimizer';
+import { CrewMemberInput, parseCrewMember, planRoster } from '@/lib/orchestration/roster';
+import { resolveOperation } from '@/lib/orchestration/weather-window';
+import {
+  CrewAssignment,
+  CrewMember,
+  MetoceanSample,
+  Project,
+  ScheduleVessel,
+  VesselAssignment,
+} from '@/lib/orchestration/types';
+
+/**
+ * Fleet Schedule API - constraint-based re-planning of vessel assignments
+ *
+ * GET /api/fleet-schedule - Optimize the demo plan for the NMDC fleet
+ * POST /api/fleet-schedule
+ *   {
+ *     projects: Project[],
+ *     assignments: VesselAssignment[],
+ *     vessels: Array<mmsi | ScheduleVessel>,
+ *     metocean?: { [projectId]: MetoceanSample[] },
+ *     crew?: CrewMember[],             // as for /api/crew-roster
+ *     crewAssignments?: CrewAssignment[],
+ *     now?
+ *   }
+ *
+ * Dates may be ISO strings. Vessels given as MMSIs are looked up in NMDC_FLEET;
+ * vessel objects with a matching MMSI are filled in from the fleet record.
+ * With metocean for a project, its weatherTasks are placed in workable weather
+ * windows and its expected weather downtime is reported; the demo plan uses a
+ * synthetic hindcast for every project site. With a crew roster, its gaps and
+ * breaches come back as crew_shortage conflicts; the demo plan rosters the
+ * demo crew pool.
+ */
+
+type Dated<T> = { [K in keyof T]: T[K] extends Date ? string | Date : T[K] extends Date | undefined ? string | Date | undefined : T[K] };
+
+interface ProjectInput extends Omit<Project, 'schedule'> {
+  schedule: { startDate: string | Date; endDate: string | Date };
+}
+
+interface VesselInput extends Omit<Dated<ScheduleVessel>, 'maintenanceWindows'> {
+  maintenanceWindows?: Array<{ start: string | Date; end: string | Date; reason?: string }>;
+}
+
+function toDate(value: string | Date | undefined): Date {
+  const date = new Date(value ?? NaN);
+  if (isNaN(date.getTime())) throw new Error(`Invalid date: ${String(value)}`);
+  return date;
+}
+
+// ============================================================================
+// GET - Demo plan
+// ============================================================================
+
+export async function GET() {
+  try {
+    const vessels = NMDC_FLEET.map(scheduleVesselFromNMDC);
+    const projects = generateMockProjects();
+    const assignments = generateMockAssignments(projects, vessels);
+
+    const members = generateMockCrew();
+    const crew = { members, assignments: planRoster(projects, members).assignments };
+
+    const result = optimizeSchedule(assignments, vessels, projects, { metocean: generateMockMetocean(projects), crew });
+
+    return NextResponse.json({
+      success: true,
+      result,
+      generatedAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Fleet schedule error:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to optimize fleet schedule' },
+      { status: 500 }
+    );
+  }
+}
+
+// ============================================================================
+// POST - Optimize a supplied plan
+// ============================================================================
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    if (!Array.isArray(body.projects) || !Array.isArray(body.assignments) || !Array.isArray(body.vessels)) {
+      return NextResponse.json(
+        { success: false, error: 'projects, assignments and vessels arrays are required' },
+        { status: 400 }
+      );
+    }
+
+    let projects: Project[];
+    let assignments: VesselAssignment[];
+    let vessels: ScheduleVessel[];
+    let metocean: Record<string, MetoceanSample[]> | undefined;
+    let crew: { members: CrewMember[]; assignments: CrewAssignment[] } | undefined;
+    let now: Date | undefined;
+    try {
+      projects = (body.projects as ProjectInput[]).map(p => ({
+        ...p,
+        schedule: { ...p.schedule, startDate: toDate(p.schedule?.startDate), endDate: toDate(p.schedule?.endDate) },
+      }));
+      projects.forEach(p => p.weatherTasks?.forEach(task => resolveOperation(task.operation)));
+      assignments = (body.assignments as Dated<VesselAssignment>[]).map(a => ({
+        ...a,
+        startDate: toDate(a.startDate),
+        endDate: toDate(a.endDate),
+      }));
+      vessels = [];
+      for (const input of body.vessels as Array<string | VesselInput>) {
+        const id = typeof input === 'string' ? input : input.id;
+        const fleetVessel = NMDC_FLEET.find(v => v.mmsi === id);
+        if (typeof input === 'string') {
+          if (!fleetVessel) throw new Error(`Vessel ${input} is not in the NMDC fleet`);
+          vessels.push(scheduleVesselFromNMDC(fleetVessel));
+          continue;
+        }
+        vessels.push({
+          ...(fleetVessel && scheduleVesselFromNMDC(fleetVessel)),
+          ...input,
+          type: input.type || fleetVessel?.type || '',
+          name: input.name || fleetVessel?.name || input.id,
+          availableFrom: input.availableFrom !== undefined ? toDate(input.availableFrom) : undefined,
+          maintenanceWindows: input.maintenanceWindows?.map(w => ({
+            start: toDate(w.start),
+            end: toDate(w.end),
+            reason: w.reason,
+          })),
+        });
+      }
+      if (body.metocean !== undefined) {
+        metocean = {};
+        for (const [projectId, series] of Object.entries(body.metocean as Record<string, Dated<MetoceanSample>[]>)) {
+          if (!Array.isArray(series)) throw new Error(`metocean.${projectId} must be an array of samples`);
+          metocean[projectId] = series.map(s => ({ ...s, time: toDate(s.time) }));
+        }
+      }
+      if (body.crew !== undefined || body.crewAssignments !== undefined) {
+        if (!Array.isArray(body.crew)) throw new Error('crew must be an array of crew members');
+        if (body.crewAssignments !== undefined && !Array.isArray(body.crewAssignments)) {
+          throw new Error('crewAssignments must be an array');
+        }
+        crew = {
+          members: (body.crew as CrewMemberInput[]).map(parseCrewMember),
+          assignments: ((body.crewAssignments ?? []) as Dated<CrewAssignment>[]).map(a => ({
+            ...a,
+            startDate: toDate(a.startDate),
+            endDate: toDate(a.endDate),
+          })),
+        };
+      }
+      now = body.now !== undefined ? toDate(body.now) : undefined;
+    } catch (error) {
+      return NextResponse.json(
+        { success: false, error: error instanceof Error ? error.message : 'Invalid schedule input' },
+        { status: 400 }
+      );
+    }
+
+    const untyped = vessels.find(v => !v.type);
+    if (untyped) {
+      return NextResponse.json(
+        { success: false, error: `Vessel ${untyped.id} needs a type` },
+        { status: 400 }
+      );
+    }
+
+    const result = optimizeSchedule(assignments, vessels, projects, { now, metocean, crew });
+
+    return NextResponse.json({
+      success: true,
+      result,
+      generatedAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Fleet schedule error:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to optimize fleet schedule' },
+      { status: 500 }
+    );
+  }
+}
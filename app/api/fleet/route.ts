@@ -15,8 +15,8 @@ import {
   convertToSimplifiedVessel,
   SimplifiedVessel,
   DatalasticVessel,
-  calculateDistanceNm,
 } from '@/lib/datalastic';
+import { calculateDistanceNm } from '@/lib/geodesy';
 import { 
   NMDC_FLEET, 
   NMDC_ENERGY_FLEET, 
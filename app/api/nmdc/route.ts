@@ -4,8 +4,8 @@ import {
   isDatalasticConfigured, 
   convertToSimplifiedVessel,
   SimplifiedVessel,
-  calculateDistanceNm,
 } from '@/lib/datalastic';
+import { calculateDistanceNm } from '@/lib/geodesy';
 import { 
   NMDC_FLEET, 
   getNMDCVesselByMMSI,
@@ -0,0 +1,246 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { NMDC_FLEET } from '@/lib/nmdc/fleet';
+import { OptimizationChange } from '@/lib/orchestration/fleet-optimizer';
+import { generateMockAssignments, generateMockProjects } from '@/lib/orchestration/mock-data';
+import { scheduleVesselFromNMDC } from '@/lib/orchestration/optimizer';
+import {
+  applyChangeSet,
+  createScenario,
+  deleteScenario,
+  diffVersions,
+  editsBetween,
+  editsFromOptimizationChange,
+  ensureLiveSchedule,
+  getScenario,
+  listScenarios,
+  publishVersion,
+  redo,
+  undo,
+} from '@/lib/orchestration/sandbox';
+import { PlanningScenario, ScheduleChangeSet, ScheduleEdit, VesselAssignment } from '@/lib/orchestration/types';
+
+/**
+ * Planning Sandbox API - versioned draft schedules with undo/redo and publish
+ *
+ * GET /api/planning-sandbox - Live schedule and scenario list
+ *   - scenarioId: one scenario with all its versions
+ *   - from, to: diff two version ids
+ * POST /api/planning-sandbox
+ *   { action: 'create', name, fromVersionId? }
+ *   { action: 'edit', scenarioId, label?, source?, author?,
+ *     edits?: ScheduleEdit[],                  // e.g. a dragged Gantt bar
+ *     optimizationChange?: OptimizationChange, // an accepted fleet optimizer suggestion
+ *     optimizedSchedule?: VesselAssignment[] } // a whole schedule optimizer plan
+ *   { action: 'undo' | 'redo', scenarioId }
+ *   { action: 'publish', scenarioId, versionId?, publishedBy? }
+ *   { action: 'delete', scenarioId }
+ *
+ * Dates may be ISO strings. The live schedule starts as the demo plan.
+ */
+
+type Dated<T> = { [K in keyof T]: T[K] extends Date ? string | Date : T[K] };
+
+function toDate(value: string | Date | undefined): Date {
+  const date = new Date(value ?? NaN);
+  if (isNaN(date.getTime())) throw new Error(`Invalid date: ${String(value)}`);
+  return date;
+}
+
+function toAssignment(input: Dated<VesselAssignment>): VesselAssignment {
+  return { ...input, startDate: toDate(input.startDate), endDate: toDate(input.endDate) };
+}
+
+function toEdit(input: ScheduleEdit | Dated<Extract<ScheduleEdit, { kind: 'move' }>> | { kind: 'add'; assignment: Dated<VesselAssignment> }): ScheduleEdit {
+  switch (input.kind) {
+    case 'move':
+      return { ...input, startDate: toDate(input.startDate), endDate: toDate(input.endDate) };
+    case 'add':
+      return { kind: 'add', assignment: toAssignment(input.assignment) };
+    case 'reassign':
+    case 'status':
+    case 'remove':
+      return input;
+    default:
+      throw new Error(`Unknown edit kind: ${String((input as { kind?: unknown }).kind)}`);
+  }
+}
+
+function summarize(scenario: PlanningScenario) {
+  return {
+    id: scenario.id,
+    name: scenario.name,
+    baseVersionId: scenario.baseVersionId,
+    currentVersionId: scenario.versions[scenario.head].id,
+    currentVersion: scenario.versions[scenario.head].number,
+    canUndo: scenario.head > 0,
+    canRedo: scenario.head < scenario.versions.length - 1,
+    updatedAt: scenario.updatedAt,
+  };
+}
+
+function liveSchedule() {
+  return ensureLiveSchedule(
+    generateMockAssignments(generateMockProjects(), NMDC_FLEET.map(scheduleVesselFromNMDC))
+  );
+}
+
+function notFound(what: string) {
+  return NextResponse.json({ success: false, error: `${what} not found` }, { status: 404 });
+}
+
+// ============================================================================
+// GET - Live schedule, scenarios and diffs
+// ============================================================================
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const scenarioId = searchParams.get('scenarioId');
+  const from = searchParams.get('from');
+  const to = searchParams.get('to');
+
+  try {
+    const live = liveSchedule();
+
+    if (from || to) {
+      if (!from || !to) {
+        return NextResponse.json(
+          { success: false, error: 'from and to version ids are both required' },
+          { status: 400 }
+        );
+      }
+      const diff = diffVersions(from, to);
+      if (!diff) return notFound('Version');
+      return NextResponse.json({ success: true, diff });
+    }
+
+    if (scenarioId) {
+      const scenario = getScenario(scenarioId);
+      if (!scenario) return notFound(`Scenario ${scenarioId}`);
+      return NextResponse.json({ success: true, scenario: { ...summarize(scenario), versions: scenario.versions } });
+    }
+
+    return NextResponse.json({
+      success: true,
+      live,
+      scenarios: listScenarios().map(summarize),
+    });
+  } catch (error) {
+    console.error('Planning sandbox error:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to load planning sandbox' },
+      { status: 500 }
+    );
+  }
+}
+
+// ============================================================================
+// POST - Scenario actions
+// ============================================================================
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    liveSchedule();
+
+    if (body.action === 'create') {
+      if (typeof body.name !== 'string' || !body.name.trim()) {
+        return NextResponse.json({ success: false, error: 'name is required' }, { status: 400 });
+      }
+      try {
+        const scenario = createScenario(body.name, { versionId: body.fromVersionId });
+        return NextResponse.json({ success: true, scenario: summarize(scenario) });
+      } catch (error) {
+        return NextResponse.json(
+          { success: false, error: error instanceof Error ? error.message : 'Invalid scenario' },
+          { status: 409 }
+        );
+      }
+    }
+
+    if (typeof body.scenarioId !== 'string') {
+      return NextResponse.json({ success: false, error: 'scenarioId is required' }, { status: 400 });
+    }
+    const scenario = getScenario(body.scenarioId);
+    if (!scenario) return notFound(`Scenario ${body.scenarioId}`);
+
+    switch (body.action) {
+      case 'edit': {
+        let changeSet: ScheduleChangeSet;
+        try {
+          const base = scenario.versions[scenario.head].assignments;
+          let edits: ScheduleEdit[];
+          let label: string;
+          if (body.optimizationChange) {
+            const change = body.optimizationChange as OptimizationChange;
+            edits = editsFromOptimizationChange(change, base);
+            label = change.description;
+            if (edits.length === 0) throw new Error(`A ${change.type} suggestion has no schedule edits`);
+          } else if (Array.isArray(body.optimizedSchedule)) {
+            edits = editsBetween(base, (body.optimizedSchedule as Dated<VesselAssignment>[]).map(toAssignment));
+            label = 'Optimized schedule';
+          } else if (Array.isArray(body.edits)) {
+            edits = body.edits.map(toEdit);
+            label = `${edits.length} schedule edit${edits.length === 1 ? '' : 's'}`;
+          } else {
+            throw new Error('edits, optimizationChange or optimizedSchedule is required');
+          }
+          changeSet = {
+            label: typeof body.label === 'string' && body.label ? body.label : label,
+            source: body.source ?? (Array.isArray(body.edits) ? 'manual' : 'optimizer'),
+            edits,
+            author: body.author,
+          };
+          applyChangeSet(scenario.id, changeSet);
+        } catch (error) {
+          return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Invalid schedule edit' },
+            { status: 400 }
+          );
+        }
+        return NextResponse.json({ success: true, scenario: summarize(scenario), version: scenario.versions[scenario.head] });
+      }
+
+      case 'undo':
+      case 'redo': {
+        (body.action === 'undo' ? undo : redo)(scenario.id);
+        return NextResponse.json({ success: true, scenario: summarize(scenario), version: scenario.versions[scenario.head] });
+      }
+
+      case 'publish': {
+        try {
+          const live = publishVersion(scenario.id, body.versionId, body.publishedBy);
+          return NextResponse.json({ success: true, live });
+        } catch (error) {
+          return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Invalid version' },
+            { status: 404 }
+          );
+        }
+      }
+
+      case 'delete': {
+        try {
+          deleteScenario(scenario.id);
+          return NextResponse.json({ success: true });
+        } catch (error) {
+          return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Cannot delete scenario' },
+            { status: 409 }
+          );
+        }
+      }
+
+      default:
+        return NextResponse.json(
+          { success: false, error: `Unknown action: ${String(body.action)}` },
+          { status: 400 }
+        );
+    }
+  } catch (error) {
+    console.error('Planning sandbox error:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to update planning sandbox' },
+      { status: 500 }
+    );
+  }
+}
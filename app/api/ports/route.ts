@@ -3,10 +3,10 @@ import {
   getDatalasticClient, 
   isDatalasticConfigured, 
   convertToSimplifiedPort,
-  calculateDistanceNm,
   estimateVoyageDuration,
   SimplifiedPort,
 } from '@/lib/datalastic';
+import { calculateDistanceNm } from '@/lib/geodesy';
 
 export const dynamic = 'force-dynamic';
 
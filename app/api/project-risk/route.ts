@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { NMDC_FLEET } from '@/lib/nmdc/fleet';
+import { PROJECT_SITES } from '@/lib/nmdc/projects';
+import { generateMockProjects } from '@/lib/orchestration/mock-data';
+import { scheduleVesselFromNMDC } from '@/lib/orchestration/optimizer';
+import { analyzeProjectRisk, projectFromSite } from '@/lib/orchestration/risk';
+import { Project } from '@/lib/orchestration/types';
+
+/**
+ * Project Risk API - Monte Carlo completion and cost ranges
+ *
+ * GET /api/project-risk?projectId=proj-001
+ *   - iterations: runs to sample (default 2000, max 20000)
+ *   - seed: random seed; defaults to the project id so repeat calls agree
+ *
+ * Projects are looked up in the NMDC project sites first, then in the
+ * orchestration plan. Returns P50/P80/P90 completion dates and cost, histograms
+ * for the distribution chart, and the ranked drivers for a tornado chart.
+ */
+
+function findProject(id: string): Project | null {
+  const site = PROJECT_SITES.find(p => p.id === id);
+  if (site) return projectFromSite(site);
+  return generateMockProjects().find(p => p.id === id) ?? null;
+}
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const projectId = searchParams.get('projectId');
+  const iterationsParam = searchParams.get('iterations');
+  const seed = searchParams.get('seed');
+
+  if (!projectId) {
+    return NextResponse.json(
+      { success: false, error: 'projectId is required' },
+      { status: 400 }
+    );
+  }
+
+  const iterations = iterationsParam !== null ? parseInt(iterationsParam, 10) : undefined;
+  if (iterations !== undefined && (!Number.isFinite(iterations) || iterations <= 0)) {
+    return NextResponse.json(
+      { success: false, error: 'iterations must be a positive integer' },
+      { status: 400 }
+    );
+  }
+
+  const project = findProject(projectId);
+  if (!project) {
+    return NextResponse.json(
+      { success: false, error: `Project not found: ${projectId}` },
+      { status: 404 }
+    );
+  }
+
+  try {
+    const vessels = NMDC_FLEET.map(scheduleVesselFromNMDC);
+    const analysis = analyzeProjectRisk(project, vessels, {
+      iterations,
+      seed: seed ?? undefined,
+    });
+
+    return NextResponse.json({ success: true, analysis });
+  } catch (error) {
+    console.error('Project risk error:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to analyze project risk' },
+      { status: 500 }
+    );
+  }
+}
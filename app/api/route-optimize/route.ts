@@ -1,24 +1,36 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { RouteOptimizationRequest } from '@/lib/routes/types';
 import { optimizeSingleRoute, optimizeMultiStopRoute, Stop } from '@/lib/routes/optimizer';
-import { generateRoute } from '@/lib/routes/engine';
+import { routePlanner, RouteStrategyId } from '@/lib/routes/planner';
 import { smartOptimizeRoute, SmartOptimizationRequest } from '@/lib/routes/smart-optimizer';
+import { createVirtualArrivalPlan } from '@/lib/routes/virtual-arrival';
+import { FuelType } from '@/lib/types/maritime';
 
 /**
  * Route Optimization API
  * 
  * POST /api/route-optimize
  * 
- * Supports three modes:
+ * Supports four modes:
  * 1. Single route optimization: origin + destination with priority-based route selection
  * 2. Multi-stop optimization: origin + multiple stops with sequence optimization
  * 3. Smart optimization: advanced optimization with speed profiles, weather routing, 
- *    virtual arrival, ETA windows, and environmental factors
+ *    virtual arrival, ETA windows, regulated zones (ECA, exercise areas, pipelines,
+ *    exclusion zones) and environmental factors
+ * 4. Virtual Arrival (mode: 'virtual-arrival'): just-in-time speed plan against
+ *    an agreed berth time; post slot changes to /api/virtual-arrival to re-plan
+ * 
+ * All modes plan geometry through the shared RoutePlanner; pass `strategy`
+ * ('network' | 'sea-route' | 'weather' | ...) to choose the planner strategy.
  */
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
     
+    if (body.strategy !== undefined && !routePlanner.hasStrategy(body.strategy)) {
+      return unknownStrategyResponse(body.strategy);
+    }
+    
     // Determine optimization mode
     const isSmartMode = body.mode === 'smart';
     const isMultiStop = body.stops && Array.isArray(body.stops) && body.stops.length > 0;
@@ -26,6 +38,9 @@ export async function POST(request: NextRequest) {
     if (isSmartMode) {
       // Smart route optimization with advanced features
       return handleSmartOptimization(body);
+    } else if (body.mode === 'virtual-arrival') {
+      // Just-in-time speed plan against the agreed berth slot
+      return handleVirtualArrival(body);
     } else if (isMultiStop) {
       // Multi-stop route optimization
       return handleMultiStopOptimization(body);
@@ -54,6 +69,7 @@ async function handleSmartOptimization(body: {
   vesselType?: string;
   origin: { lat: number; lng: number; name?: string };
   destination: { lat: number; lng: number; name?: string };
+  strategy?: RouteStrategyId;
   departureTime?: string;
   arrivalWindow?: {
     earliest: string;
@@ -73,6 +89,7 @@ async function handleSmartOptimization(body: {
     maxFuel: number;
     cargoLoad: number;
     draftMeters: number;
+    fuelType?: FuelType;
   };
   portConditions?: {
     berthAvailable: boolean;
@@ -132,6 +149,7 @@ async function handleSmartOptimization(body: {
       lng: destination.lng,
       name: destination.name,
     },
+    strategy: body.strategy,
     departureTime: body.departureTime ? new Date(body.departureTime) : undefined,
     arrivalWindow: body.arrivalWindow ? {
       earliest: new Date(body.arrivalWindow.earliest),
@@ -170,6 +188,83 @@ async function handleSmartOptimization(body: {
       withinWindow: result.timing.withinWindow,
       recommendationsCount: result.recommendations.length,
       virtualArrivalRecommended: result.timing.virtualArrivalRecommended,
+      zonesEntered: result.zones.entered.length,
+      zoneViolations: result.zones.violations.length,
+    },
+    generatedAt: new Date().toISOString(),
+  });
+}
+
+/**
+ * Handle Virtual Arrival planning against an agreed berth time
+ */
+async function handleVirtualArrival(body: {
+  vesselId: string;
+  vesselName?: string;
+  vesselType?: string;
+  origin: { lat: number; lng: number; name?: string };
+  destination: { lat: number; lng: number; name?: string };
+  strategy?: RouteStrategyId;
+  departureTime?: string;
+  berthTime: string;
+  slotReference?: string;
+}) {
+  const { vesselId, origin, destination } = body;
+  const departureTime = body.departureTime ? new Date(body.departureTime) : new Date();
+  const berthTime = new Date(body.berthTime);
+
+  if (!vesselId) {
+    return NextResponse.json(
+      { success: false, error: 'vesselId is required' },
+      { status: 400 }
+    );
+  }
+
+  if (!origin?.lat || !origin?.lng || !destination?.lat || !destination?.lng) {
+    return NextResponse.json(
+      { success: false, error: 'origin and destination with lat/lng are required' },
+      { status: 400 }
+    );
+  }
+
+  if (isNaN(berthTime.getTime()) || isNaN(departureTime.getTime())) {
+    return NextResponse.json(
+      { success: false, error: 'berthTime (and departureTime if given) must be ISO dates' },
+      { status: 400 }
+    );
+  }
+
+  if (berthTime <= departureTime) {
+    return NextResponse.json(
+      { success: false, error: 'berthTime must be after departureTime' },
+      { status: 400 }
+    );
+  }
+
+  const plan = await createVirtualArrivalPlan({
+    vesselId,
+    vesselName: body.vesselName || 'Unknown Vessel',
+    vesselType: body.vesselType || 'supply_vessel',
+    origin,
+    destination,
+    strategy: body.strategy,
+    departureTime,
+    berthTime,
+    reference: body.slotReference,
+  });
+
+  return NextResponse.json({
+    success: true,
+    mode: 'virtual-arrival',
+    plan,
+    summary: {
+      recommendedSpeed: (plan.speedPlan[0]?.speedKnots ?? 0).toFixed(1) + ' knots',
+      arrivalTime: plan.virtualArrival.arrivalTime.toISOString(),
+      berthTime: plan.agreedSlot.berthTime.toISOString(),
+      anchorWaitAvoided: plan.savings.anchorWaitAvoidedHours.toFixed(1) + ' hours',
+      fuelSaved: plan.savings.fuelLiters.toFixed(0) + ' L',
+      co2Saved: plan.savings.co2Kg.toFixed(0) + ' kg',
+      latenessHours: plan.latenessHours,
     },
     generatedAt: new Date().toISOString(),
   });
@@ -184,6 +279,7 @@ async function handleSingleRouteOptimization(body: {
   vesselType?: string;
   origin: { lat: number; lng: number; name?: string };
   destination: { lat: number; lng: number; name?: string };
+  strategy?: RouteStrategyId;
   priorities?: {
     time: number;
     fuel: number;
@@ -253,7 +349,8 @@ async function handleSingleRouteOptimization(body: {
   const result = await optimizeSingleRoute(
     optimizationRequest,
     vesselName,
-    vesselType
+    vesselType,
+    body.strategy
   );
 
   return NextResponse.json({
@@ -280,6 +377,7 @@ async function handleMultiStopOptimization(body: {
     priority?: number;
   }>;
   returnToOrigin?: boolean;
+  strategy?: RouteStrategyId;
   priorities?: {
     distance: number;
     time: number;
@@ -343,6 +441,7 @@ async function handleMultiStopOptimization(body: {
     stops: stopsList,
     returnToOrigin,
     priorities,
+    strategy: body.strategy,
   });
 
   return NextResponse.json({
@@ -358,17 +457,27 @@ async function handleMultiStopOptimization(body: {
  * 
  * Quick route calculation without full optimization
  * Used for previewing routes on the map
+ * 
+ * GET /api/route-optimize?action=strategies lists the available planner strategies
  */
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     
+    if (searchParams.get('action') === 'strategies') {
+      return NextResponse.json({
+        success: true,
+        strategies: routePlanner.getStrategies().map(({ id, name, description }) => ({ id, name, description })),
+      });
+    }
+    
     const fromLat = parseFloat(searchParams.get('from_lat') || '');
     const fromLng = parseFloat(searchParams.get('from_lng') || '');
     const toLat = parseFloat(searchParams.get('to_lat') || '');
     const toLng = parseFloat(searchParams.get('to_lng') || '');
     const vesselId = searchParams.get('vessel_id') || 'preview';
     const vesselType = searchParams.get('vessel_type') || 'supply_vessel';
+    const strategy = searchParams.get('strategy') || undefined;
     
     // Validate coordinates
     if (isNaN(fromLat) || isNaN(fromLng) || isNaN(toLat) || isNaN(toLng)) {
@@ -378,18 +487,24 @@ export async function GET(request: NextRequest) {
       );
     }
     
+    if (strategy !== undefined && !routePlanner.hasStrategy(strategy)) {
+      return unknownStrategyResponse(strategy);
+    }
+    
     // Generate a quick route preview
-    const route = await generateRoute(
+    const { route, source } = await routePlanner.plan({
       vesselId,
-      'Preview',
+      vesselName: 'Preview',
       vesselType,
-      { lat: fromLat, lng: fromLng, name: searchParams.get('from_name') || undefined },
-      { lat: toLat, lng: toLng, name: searchParams.get('to_name') || undefined }
-    );
+      origin: { lat: fromLat, lng: fromLng, name: searchParams.get('from_name') || undefined },
+      destination: { lat: toLat, lng: toLng, name: searchParams.get('to_name') || undefined },
+      strategy,
+    });
     
     return NextResponse.json({
       success: true,
       route,
+      source,
       // Return simplified waypoints for map rendering
       waypoints: [
         { lat: route.origin.lat, lng: route.origin.lng },
@@ -410,3 +525,13 @@ export async function GET(request: NextRequest) {
   }
 }
 
+function unknownStrategyResponse(strategy: string) {
+  return NextResponse.json(
+    {
+      success: false,
+      error: `Unknown route strategy: ${strategy}`,
+      strategies: routePlanner.getStrategies().map(s => s.id),
+    },
+    { status: 400 }
+  );
+}
@@ -1,10 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { fetchSeaRoute, generateRoute } from '@/lib/routes/engine';
-import { fetchRealWeatherZones } from '@/lib/route-optimization/marine-weather';
-import { generateMockWeatherZones } from '@/lib/route-optimization/optimizer';
-
-// Set to true to use real Open-Meteo marine weather data
-const USE_REAL_WEATHER = true;
+import { resolveVesselProfile } from '@/lib/routes/engine';
+import { routePlanner, toVoyageRoute, RouteStrategyId } from '@/lib/routes/planner';
 
 interface RequestBody {
   vessel: {
@@ -14,6 +10,7 @@ interface RequestBody {
     currentLat: number;
     currentLng: number;
     speed?: number;
+    draftMeters?: number; // Enables the under-keel clearance check
   };
   origin: {
     lat: number;
@@ -25,157 +22,106 @@ interface RequestBody {
     lng: number;
     name: string;
   };
+  strategy?: RouteStrategyId;
+  departureTime?: string; // ISO; defaults to now
   preferences?: {
     prioritize: 'time' | 'fuel' | 'safety' | 'balanced';
   };
 }
 
-// Fuel consumption rates by vessel type (liters per nautical mile)
-const FUEL_RATES: Record<string, number> = {
-  dredger: 85,
-  hopper_dredger: 90,
-  csd: 80,
-  crane_barge: 45,
-  supply_vessel: 35,
-  supply: 35,
-  tugboat: 25,
-  tug: 25,
-  survey_vessel: 20,
-  survey: 20,
-  jack_up: 0,
-  pipelay_barge: 50,
-  derrick_barge: 55,
-  default: 40,
-};
-
-const FUEL_COST_USD_PER_LITER = 0.85;
-
+/**
+ * Route Optimizer API - direct vs optimized voyage comparison
+ * 
+ * POST /api/route-optimizer
+ * 
+ * Both routes are planned by the shared RoutePlanner: the optimized route uses
+ * the weather-aware strategy (over sea routes) unless `strategy` is given, and
+ * the direct route is the straight-line baseline with the same vessel profile.
+ * Weather is read from the forecast valid at each segment's predicted time of
+ * passage; the result lists the forecast time used for every segment.
+ * When `vessel.draftMeters` is given, shallow segments are rerouted for
+ * under-keel clearance and the tightest clearance point is returned.
+ */
 export async function POST(request: NextRequest) {
   try {
     const body: RequestBody = await request.json();
-    const { vessel, origin, destination, preferences } = body;
-
-    console.log('[Route Optimizer] Request:', {
-      vessel: vessel.name,
-      from: origin.name,
-      to: destination.name,
-    });
-
-    // Step 1: Get the sea route using the hybrid approach (Datalastic API + land correction)
-    const seaRouteResult = await fetchSeaRoute(
-      origin.lat,
-      origin.lng,
-      destination.lat,
-      destination.lng
-    );
+    const { vessel, origin, destination } = body;
+    const strategy = body.strategy ?? 'weather';
+    const departureTime = body.departureTime ? new Date(body.departureTime) : new Date();
+
+    if (!vessel?.id) {
+      return NextResponse.json(
+        { success: false, error: 'vessel with id is required' },
+        { status: 400 }
+      );
+    }
 
-    console.log('[Route Optimizer] Sea route fetched:', {
-      source: seaRouteResult.source,
-      waypoints: seaRouteResult.waypoints.length,
-      distance: seaRouteResult.distance.toFixed(1) + ' nm',
-    });
+    if (!origin?.lat || !origin?.lng || !destination?.lat || !destination?.lng) {
+      return NextResponse.json(
+        { success: false, error: 'origin and destination with lat/lng are required' },
+        { status: 400 }
+      );
+    }
 
-    // Step 2: Fetch weather zones along the route
-    let weatherZones: { id: string; type: string; severity: string; center: { lat: number; lng: number }; radiusNm: number; name?: string }[] = [];
-    if (USE_REAL_WEATHER) {
-      try {
-        weatherZones = await fetchRealWeatherZones(
-          { lat: origin.lat, lng: origin.lng },
-          { lat: destination.lat, lng: destination.lng },
-          5
-        );
-        console.log(`[Route Optimizer] Found ${weatherZones.length} weather zones`);
-      } catch (error) {
-        console.warn('[Route Optimizer] Weather fetch failed:', error);
-        weatherZones = generateMockWeatherZones(
-          { lat: origin.lat, lng: origin.lng },
-          { lat: destination.lat, lng: destination.lng }
-        );
-      }
+    if (isNaN(departureTime.getTime())) {
+      return NextResponse.json(
+        { success: false, error: 'departureTime must be an ISO date' },
+        { status: 400 }
+      );
     }
 
-    // Step 3: Calculate route metrics
-    const speed = vessel.speed || 10;
-    const fuelRate = FUEL_RATES[vessel.type.toLowerCase().replace(/ /g, '_')] || FUEL_RATES.default;
-    const totalDistance = seaRouteResult.distance;
-    const estimatedTime = totalDistance / speed; // hours
-    const fuelConsumption = totalDistance * fuelRate;
-    const fuelCost = fuelConsumption * FUEL_COST_USD_PER_LITER;
+    if (!routePlanner.hasStrategy(strategy)) {
+      return NextResponse.json(
+        { success: false, error: `Unknown route strategy: ${strategy}` },
+        { status: 400 }
+      );
+    }
 
-    // Build waypoints for the response with meaningful names and notes
-    const waypoints = seaRouteResult.waypoints.map((wp, index) => {
-      const isOrigin = index === 0;
-      const isDestination = index === seaRouteResult.waypoints.length - 1;
-      
-      // Use the network node name if available, otherwise fallback to generic
-      let name: string;
-      if (isOrigin) {
-        name = origin.name;
-      } else if (isDestination) {
-        name = destination.name;
-      } else if (wp.name) {
-        name = wp.name;
-      } else {
-        name = `Waypoint ${index}`;
-      }
-      
-      return {
-        id: `wp-${index}`,
-        lat: wp.lat,
-        lng: wp.lon,
-        name,
-        type: isOrigin ? 'origin' : isDestination ? 'destination' : 'waypoint',
-        notes: wp.note || undefined,
-      };
+    console.log('[Route Optimizer] Request:', {
+      vessel: vessel.name,
+      from: origin.name,
+      to: destination.name,
+      strategy,
     });
 
-    // Step 4: Build the response in the expected format
-    const optimizedRoute = {
-      id: `route-optimized-${Date.now()}`,
+    const planRequest = {
       vesselId: vessel.id,
       vesselName: vessel.name,
-      origin: {
-        id: 'origin',
-        lat: origin.lat,
-        lng: origin.lng,
-        name: origin.name,
-        type: 'origin',
-      },
-      destination: {
-        id: 'destination',
-        lat: destination.lat,
-        lng: destination.lng,
-        name: destination.name,
-        type: 'destination',
-      },
-      waypoints,
-      totalDistanceNm: totalDistance,
-      estimatedDurationHours: estimatedTime,
-      estimatedFuelLiters: fuelConsumption,
-      estimatedCostUSD: fuelCost,
-      createdAt: new Date(),
-      routeType: seaRouteResult.source === 'api' ? 'sea_route' : seaRouteResult.source === 'hybrid' ? 'hybrid_corrected' : 'network_fallback',
+      vesselType: vessel.type,
+      origin,
+      destination,
+      speed: vessel.speed,
+      departureTime,
+      clearance: vessel.draftMeters ? { draftMeters: vessel.draftMeters } : undefined,
     };
 
-    // Also create a "direct" route for comparison (straight line, for reference only)
-    const directDistance = calculateDistanceNm(origin.lat, origin.lng, destination.lat, destination.lng);
-    const directTime = directDistance / speed;
-    const directFuel = directDistance * fuelRate;
+    // Step 1: Plan the optimized route and the straight-line baseline
+    const planned = await routePlanner.plan({ ...planRequest, strategy });
+    const direct = await routePlanner.plan({ ...planRequest, strategy: 'direct' });
 
-    const originalRoute = {
-      id: `route-direct-${Date.now()}`,
-      vesselId: vessel.id,
-      vesselName: vessel.name,
-      origin: optimizedRoute.origin,
-      destination: optimizedRoute.destination,
-      waypoints: [optimizedRoute.origin, optimizedRoute.destination],
-      totalDistanceNm: directDistance,
-      estimatedDurationHours: directTime,
-      estimatedFuelLiters: directFuel,
-      estimatedCostUSD: directFuel * FUEL_COST_USD_PER_LITER,
-      createdAt: new Date(),
-      routeType: 'direct',
-    };
+    console.log('[Route Optimizer] Route planned:', {
+      source: planned.source,
+      waypoints: planned.route.waypoints.length + 2,
+      distance: planned.route.totalDistance.toFixed(1) + ' nm',
+      weatherZonesAvoided: planned.weatherZonesAvoided.length,
+    });
+
+    // Step 2: Convert to the comparison format
+    const optimizedRoute = toVoyageRoute(
+      planned.route,
+      planned.weatherZonesAvoided.length > 0 ? 'weather_routed' : 'optimized'
+    );
+    const originalRoute = toVoyageRoute(direct.route, 'direct');
+    const waypoints = optimizedRoute.waypoints;
+
+    const speed = planned.route.averageSpeed;
+    const fuelRate = resolveVesselProfile(vessel.type).fuelConsumptionRate;
+    const totalDistance = optimizedRoute.totalDistanceNm;
+    const estimatedTime = optimizedRoute.estimatedDurationHours;
+    const fuelConsumption = optimizedRoute.estimatedFuelLiters;
+    const directDistance = originalRoute.totalDistanceNm;
+    const directTime = originalRoute.estimatedDurationHours;
+    const directFuel = originalRoute.estimatedFuelLiters;
 
     // Generate safety analysis based on route characteristics
     const safetyFeatures: string[] = [];
@@ -204,6 +150,19 @@ export async function POST(request: NextRequest) {
       }
     }
     
+    if (planned.weatherZonesAvoided.length > 0) {
+      safetyFeatures.push(`Detours around ${planned.weatherZonesAvoided.length} weather zone(s)`);
+    }
+    
+    if (planned.clearance && planned.clearance.reroutedSegments > 0) {
+      safetyFeatures.push(`Keeps ${planned.clearance.requiredClearance.toFixed(1)}m under-keel clearance at ${planned.clearance.draftMeters}m draft`);
+      hazardsAvoided.push({
+        type: 'shallow_water',
+        name: 'Shallow water',
+        description: `${planned.clearance.reroutedSegments} segment(s) rerouted over deeper lanes for the vessel's draft`
+      });
+    }
+    
     // Check if direct route would cross land
     const directRouteCrossesLand = totalDistance > directDistance * 1.1; // If optimized is significantly longer, land was avoided
     if (directRouteCrossesLand) {
@@ -251,25 +210,29 @@ export async function POST(request: NextRequest) {
       destination: optimizedRoute.destination,
       originalRoute,
       optimizedRoute,
-      weatherZonesAvoided: weatherZones.filter(z => z.severity === 'severe' || z.severity === 'moderate'),
+      weatherZonesAvoided: planned.weatherZonesAvoided,
       hazardsAvoided,
       optimizations: uniqueSafetyFeatures,
       summary: {
         distanceDeltaNm: directDistance - totalDistance,
         timeDeltaHours: directTime - estimatedTime,
         fuelDeltaLiters: directFuel - fuelConsumption,
-        costDeltaUSD: (directFuel - fuelConsumption) * FUEL_COST_USD_PER_LITER,
+        costDeltaUSD: originalRoute.estimatedCostUSD - optimizedRoute.estimatedCostUSD,
         safetyImprovement,
         safetyReasoning,
       },
-      recommendation: 'use_optimized' as const,
-      reasoningText: seaRouteResult.source === 'network' 
+      recommendation: planned.clearance?.feasible === false ? 'review_required' as const : 'use_optimized' as const,
+      reasoningText: planned.source === 'network' 
         ? `Route calculated using verified maritime network. ${safetyReasoning}`
-        : seaRouteResult.source === 'hybrid'
+        : planned.source === 'hybrid'
         ? `Sea route corrected for land crossings. ${safetyReasoning}`
         : `Sea route via Datalastic API. ${safetyReasoning}`,
-      confidence: seaRouteResult.source === 'network' ? 95 : seaRouteResult.source === 'hybrid' ? 90 : 85,
-      routeSource: seaRouteResult.source,
+      confidence: planned.source === 'network' ? 95 : planned.source === 'hybrid' ? 90 : 85,
+      routeSource: planned.source,
+      strategy: planned.strategy,
+      departureTime,
+      segmentForecasts: planned.segmentForecasts,
+      clearance: planned.clearance,
     };
 
     return NextResponse.json({
@@ -284,18 +247,3 @@ export async function POST(request: NextRequest) {
     );
   }
 }
-
-// Helper: Calculate distance between two points (Haversine)
-function calculateDistanceNm(lat1: number, lng1: number, lat2: number, lng2: number): number {
-  const EARTH_RADIUS_NM = 3440.065;
-  const toRad = (deg: number) => deg * (Math.PI / 180);
-  
-  const dLat = toRad(lat2 - lat1);
-  const dLng = toRad(lng2 - lng1);
-  const a =
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) *
-    Math.sin(dLng / 2) * Math.sin(dLng / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  return EARTH_RADIUS_NM * c;
-}
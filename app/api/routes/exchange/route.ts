@@ -0,0 +1,229 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Route } from '@/lib/routes/types';
+import { getRoute, saveRoute } from '@/lib/routes/store';
+import {
+  evaluateImportedRoute,
+  exportRouteToGpx,
+  exportRouteToRtz,
+  importRouteFile,
+  RouteFileFormat,
+} from '@/lib/routes/exchange';
+
+/**
+ * Route Exchange API - RTZ (IEC 61174) and GPX files for bridge ECDIS
+ *
+ * GET /api/routes/exchange?id=&format=rtz|gpx - Download a saved route
+ * POST /api/routes/exchange
+ *   { mode: 'export', routeId | route, format, speedProfile?, departureTime?, vesselMmsi? }
+ *     Download a route, with leg speeds from a smart optimization speed profile
+ *   { mode: 'import', content, format?, vesselId, vesselName?, vesselType?, save?, evaluate?, departureTime?, draftMeters? }
+ *     Read an amended plan back into a Route; evaluate checks the file's route
+ *     as given for zones, clearance and ETA
+ */
+
+const CONTENT_TYPES: Record<RouteFileFormat, string> = {
+  rtz: 'application/xml',
+  gpx: 'application/gpx+xml',
+};
+
+function isFormat(value: unknown): value is RouteFileFormat {
+  return value === 'rtz' || value === 'gpx';
+}
+
+// Absent is fine; present must parse
+function parseDepartureTime(value: unknown): Date | undefined | null {
+  if (value === undefined || value === null || value === '') return undefined;
+  const date = new Date(value as string);
+  return typeof value === 'string' && !isNaN(date.getTime()) ? date : null;
+}
+
+function fileResponse(route: Route, format: RouteFileFormat, content: string) {
+  const fileName = route.name.replace(/[^A-Za-z0-9_-]+/g, '_').replace(/^_+|_+$/g, '') || route.id;
+  return new NextResponse(content, {
+    headers: {
+      'Content-Type': `${CONTENT_TYPES[format]}; charset=utf-8`,
+      'Content-Disposition': `attachment; filename="${fileName}.${format}"`,
+    },
+  });
+}
+
+// ============================================================================
+// GET - Download a saved route
+// ============================================================================
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const routeId = searchParams.get('id');
+    const format = searchParams.get('format') || 'rtz';
+
+    if (!routeId) {
+      return NextResponse.json(
+        { success: false, error: 'Route id is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!isFormat(format)) {
+      return NextResponse.json(
+        { success: false, error: 'format must be rtz or gpx' },
+        { status: 400 }
+      );
+    }
+
+    const route = await getRoute(routeId);
+    if (!route) {
+      return NextResponse.json(
+        { success: false, error: 'Route not found' },
+        { status: 404 }
+      );
+    }
+
+    const content = format === 'rtz' ? exportRouteToRtz(route) : exportRouteToGpx(route);
+    return fileResponse(route, format, content);
+  } catch (error) {
+    console.error('Route export error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to export route' },
+      { status: 500 }
+    );
+  }
+}
+
+// ============================================================================
+// POST - Export with a speed profile, or import a file
+// ============================================================================
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    if (body.mode === 'import') {
+      return await handleImport(body);
+    }
+
+    if (body.mode !== 'export') {
+      return NextResponse.json(
+        { success: false, error: "mode must be 'export' or 'import'" },
+        { status: 400 }
+      );
+    }
+
+    const format = body.format || 'rtz';
+    if (!isFormat(format)) {
+      return NextResponse.json(
+        { success: false, error: 'format must be rtz or gpx' },
+        { status: 400 }
+      );
+    }
+
+    const route: Route | null = body.route ?? (body.routeId ? await getRoute(body.routeId) : null);
+    if (!route) {
+      return NextResponse.json(
+        { success: false, error: body.routeId ? 'Route not found' : 'routeId or route is required' },
+        { status: body.routeId ? 404 : 400 }
+      );
+    }
+
+    const departureTime = parseDepartureTime(body.departureTime);
+    if (departureTime === null) {
+      return NextResponse.json(
+        { success: false, error: 'departureTime must be a valid date' },
+        { status: 400 }
+      );
+    }
+
+    const content = format === 'rtz'
+      ? exportRouteToRtz(route, {
+          speedProfile: body.speedProfile,
+          departureTime,
+          vesselMmsi: body.vesselMmsi,
+        })
+      : exportRouteToGpx(route);
+
+    return fileResponse(route, format, content);
+  } catch (error) {
+    console.error('Route exchange error:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to process route file' },
+      { status: 500 }
+    );
+  }
+}
+
+async function handleImport(body: {
+  content?: string;
+  format?: string;
+  vesselId?: string;
+  vesselName?: string;
+  vesselType?: string;
+  save?: boolean;
+  evaluate?: boolean;
+  departureTime?: string;
+  draftMeters?: number;
+}) {
+  const { content, vesselId, vesselType = 'supply_vessel' } = body;
+
+  if (!content || typeof content !== 'string') {
+    return NextResponse.json(
+      { success: false, error: 'content (RTZ or GPX file text) is required' },
+      { status: 400 }
+    );
+  }
+
+  if (!vesselId) {
+    return NextResponse.json(
+      { success: false, error: 'vesselId is required' },
+      { status: 400 }
+    );
+  }
+
+  if (body.format !== undefined && !isFormat(body.format)) {
+    return NextResponse.json(
+      { success: false, error: 'format must be rtz or gpx' },
+      { status: 400 }
+    );
+  }
+
+  const departureTime = parseDepartureTime(body.departureTime);
+  if (departureTime === null) {
+    return NextResponse.json(
+      { success: false, error: 'departureTime must be a valid date' },
+      { status: 400 }
+    );
+  }
+
+  if (body.draftMeters !== undefined && !(typeof body.draftMeters === 'number' && body.draftMeters > 0)) {
+    return NextResponse.json(
+      { success: false, error: 'draftMeters must be a positive number' },
+      { status: 400 }
+    );
+  }
+
+  let imported;
+  try {
+    imported = importRouteFile(content, { vesselId, vesselName: body.vesselName, vesselType }, body.format);
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Invalid route file' },
+      { status: 400 }
+    );
+  }
+
+  const route = body.save ? await saveRoute(imported.route) : imported.route;
+
+  // Evaluate the amended plan as the bridge laid it out
+  const evaluation = body.evaluate
+    ? evaluateImportedRoute(imported, { departureTime, draftMeters: body.draftMeters })
+    : undefined;
+
+  return NextResponse.json({
+    success: true,
+    format: imported.format,
+    route,
+    waypoints: imported.waypoints,
+    departureTime: imported.departureTime,
+    ...(evaluation && { evaluation }),
+    saved: Boolean(body.save),
+  });
+}
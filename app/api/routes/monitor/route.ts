@@ -0,0 +1,180 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Route } from '@/lib/routes/types';
+import { getRoute } from '@/lib/routes/store';
+import {
+  loadPositionHistory,
+  monitorVoyage,
+  MonitorOptions,
+  raiseDeviationAlerts,
+  TrackPoint,
+} from '@/lib/routes/monitoring';
+
+/**
+ * Voyage Monitor API - plan versus actual for saved routes
+ *
+ * GET /api/routes/monitor?route_id=&since=&mmsi=&vessel_type=
+ *   Compare a saved route with the vessel's position history (or AIS history by MMSI)
+ * POST /api/routes/monitor
+ *   { routeId | route, track?: [{ lat, lng, timestamp, speed? }], since?, mmsi?,
+ *     departureTime?, vesselType?, fuelUsedLiters?, thresholds?, raiseAlerts? }
+ *
+ * Deviations beyond the thresholds are raised as alerts unless raiseAlerts is false.
+ */
+
+async function runMonitor(
+  route: Route,
+  track: TrackPoint[],
+  options: MonitorOptions,
+  raiseAlerts: boolean
+) {
+  if (track.length === 0) {
+    return NextResponse.json(
+      { success: false, error: 'No track positions available for this vessel' },
+      { status: 400 }
+    );
+  }
+
+  let report;
+  try {
+    report = monitorVoyage(route, track, options);
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Cannot monitor route' },
+      { status: 400 }
+    );
+  }
+
+  const alerts = raiseAlerts ? await raiseDeviationAlerts(report) : [];
+
+  return NextResponse.json({ success: true, report, alerts });
+}
+
+// ============================================================================
+// GET - Monitor a saved route
+// ============================================================================
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const routeId = searchParams.get('route_id');
+    const since = searchParams.get('since');
+
+    if (!routeId) {
+      return NextResponse.json(
+        { success: false, error: 'route_id is required' },
+        { status: 400 }
+      );
+    }
+
+    const sinceDate = since ? new Date(since) : undefined;
+    if (sinceDate && isNaN(sinceDate.getTime())) {
+      return NextResponse.json(
+        { success: false, error: 'since must be an ISO date' },
+        { status: 400 }
+      );
+    }
+
+    const route = await getRoute(routeId);
+    if (!route) {
+      return NextResponse.json(
+        { success: false, error: 'Route not found' },
+        { status: 404 }
+      );
+    }
+
+    const track = await loadPositionHistory(route.vesselId, {
+      since: sinceDate,
+      mmsi: searchParams.get('mmsi') || undefined,
+    });
+
+    return runMonitor(
+      route,
+      track,
+      {
+        departureTime: sinceDate,
+        vesselType: searchParams.get('vessel_type') || undefined,
+      },
+      searchParams.get('raise_alerts') !== 'false'
+    );
+  } catch (error) {
+    console.error('Route monitor GET error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to monitor route' },
+      { status: 500 }
+    );
+  }
+}
+
+// ============================================================================
+// POST - Monitor a route against a supplied or stored track
+// ============================================================================
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const departureTime = body.departureTime ? new Date(body.departureTime) : undefined;
+
+    if (departureTime && isNaN(departureTime.getTime())) {
+      return NextResponse.json(
+        { success: false, error: 'departureTime must be an ISO date' },
+        { status: 400 }
+      );
+    }
+
+    let route: Route | null = body.route ?? null;
+    if (!route) {
+      if (!body.routeId) {
+        return NextResponse.json(
+          { success: false, error: 'routeId or route is required' },
+          { status: 400 }
+        );
+      }
+      route = await getRoute(body.routeId);
+      if (!route) {
+        return NextResponse.json(
+          { success: false, error: 'Route not found' },
+          { status: 404 }
+        );
+      }
+    }
+
+    let track: TrackPoint[];
+    if (Array.isArray(body.track)) {
+      track = body.track.map((p: { lat: number; lng: number; timestamp: string; speed?: number }) => ({
+        lat: p.lat,
+        lng: p.lng,
+        timestamp: new Date(p.timestamp),
+        speed: p.speed,
+      }));
+      if (track.some(p => typeof p.lat !== 'number' || typeof p.lng !== 'number' || isNaN(p.timestamp.getTime()))) {
+        return NextResponse.json(
+          { success: false, error: 'track points need numeric lat, lng and an ISO timestamp' },
+          { status: 400 }
+        );
+      }
+    } else {
+      track = await loadPositionHistory(route.vesselId, {
+        since: body.since ? new Date(body.since) : departureTime,
+        mmsi: body.mmsi,
+      });
+    }
+
+    return runMonitor(
+      route,
+      track,
+      {
+        departureTime,
+        vesselType: body.vesselType,
+        fuelUsedLiters: typeof body.fuelUsedLiters === 'number' ? body.fuelUsedLiters : undefined,
+        thresholds: body.thresholds,
+      },
+      body.raiseAlerts !== false
+    );
+  } catch (error) {
+    console.error('Route monitor POST error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to monitor route' },
+      { status: 500 }
+    );
+  }
+}
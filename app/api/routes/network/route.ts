@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getActiveNetwork, getNetworkGeoJSON } from '@/lib/routes/network';
+
+/**
+ * Maritime Network API - the shipping-lane graph used by the route engine
+ * 
+ * GET /api/routes/network - Active network as GeoJSON (nodes, edges, land and restricted areas)
+ * GET /api/routes/network?summary=true - Version, counts and validation warnings only
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const network = getActiveNetwork();
+
+    const summary = {
+      version: network.version,
+      nodes: network.nodes.length,
+      edges: network.edges.length,
+      closedEdges: network.edges.filter(e => e.closed).length,
+      landAreas: network.landAreas.length,
+      restrictedAreas: network.restrictedAreas.length,
+      warnings: network.warnings,
+    };
+
+    if (searchParams.get('summary') === 'true') {
+      return NextResponse.json({ success: true, summary });
+    }
+
+    const { network: graph, land } = getNetworkGeoJSON();
+
+    return NextResponse.json({
+      success: true,
+      summary,
+      network: graph,
+      land,
+    });
+  } catch (error) {
+    console.error('Route network GET error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to load route network' },
+      { status: 500 }
+    );
+  }
+}
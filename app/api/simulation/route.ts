@@ -6,9 +6,22 @@ import {
   startSimulation,
   stopSimulation,
   getPendingInsights,
+  getSimulationModels,
+  getSimulationWorld,
   clearInsights,
   resetSimulation,
+  startRecording,
+  stopRecording,
+  startReplay,
+  stopReplay,
+  seekReplay,
+  setReplaySpeed,
 } from '@/lib/simulation/orchestrator';
+import { listRecordings } from '@/lib/simulation/recorder';
+import { DEFAULT_ANOMALY_SENSITIVITY, getAnomalySensitivity, setAnomalySensitivity } from '@/lib/simulation/anomaly';
+import { AnomalySensitivity } from '@/lib/simulation/types';
+import { OEM_EQUIPMENT_PROFILES } from '@/lib/predictive-maintenance/oem-specs';
+import { PMEquipmentType } from '@/lib/predictive-maintenance/types';
 
 export const dynamic = 'force-dynamic';
 
@@ -17,12 +30,27 @@ export const dynamic = 'force-dynamic';
  * 
  * Query parameters:
  * - action: 'status' | 'tick' | 'setSpeed' | 'insights' | 'clearInsights' | 'reset'
- * - speed: number (for setSpeed action)
+ *         | 'world' | 'models'
+ *         | 'record' | 'stopRecording' | 'recordings' | 'replay' | 'stopReplay' | 'seek'
+ *         | 'anomalySensitivity'
+ * - speed: number (for setSpeed, tick, and replay speed)
+ * - seed, startTime, tickMs: reset onto a reproducible run (for reset)
+ * - name: recording name (for record)
+ * - id: recording id (for replay)
+ * - tick: tick to jump to (for seek)
+ * - equipmentType and any of zScore, ewmaLambda, ewmaLimit, seasonalLimit,
+ *   mahalanobisZ, window, warmup, clearAfter (for anomalySensitivity; without
+ *   limits it reads them, without equipmentType it lists every type)
+ *
+ * While replaying, 'tick' plays back the recorded log instead of running the models.
+ * Persistence is chosen at startup by SIMULATION_SINK (memory | supabase | file);
+ * 'world' returns the current vessels, weather and offshore assets from it.
  */
 export async function GET(request: Request) {
   const { searchParams } = new URL(request.url);
   const action = searchParams.get('action') || 'status';
-  const speed = parseInt(searchParams.get('speed') || '60', 10);
+  const speedParam = searchParams.get('speed');
+  const speed = parseInt(speedParam || '60', 10);
 
   try {
     switch (action) {
@@ -37,13 +65,23 @@ export async function GET(request: Request) {
       }
 
       case 'tick': {
-        // Set speed before running tick
-        setSimulationSpeed(speed);
+        // Set speed before running tick (replays keep their own pace)
+        if (getSimulationState().mode === 'live') {
+          setSimulationSpeed(speed);
+        }
         const result = await runSimulationTick();
         return NextResponse.json(result);
       }
 
       case 'setSpeed': {
+        if (getSimulationState().mode === 'replay') {
+          const replay = setReplaySpeed(speed);
+          return NextResponse.json({
+            success: true,
+            message: `Replay speed set to ${replay.speed}x`,
+            speed: replay.speed,
+          });
+        }
         setSimulationSpeed(speed);
         return NextResponse.json({
           success: true,
@@ -61,6 +99,24 @@ export async function GET(request: Request) {
         });
       }
 
+      case 'world': {
+        const world = await getSimulationWorld();
+        return NextResponse.json({
+          success: true,
+          sink: getSimulationState().sink,
+          ...world,
+        });
+      }
+
+      case 'models': {
+        const models = getSimulationModels();
+        return NextResponse.json({
+          success: true,
+          models,
+          count: models.length,
+        });
+      }
+
       case 'clearInsights': {
         clearInsights();
         return NextResponse.json({
@@ -70,13 +126,133 @@ export async function GET(request: Request) {
       }
 
       case 'reset': {
-        resetSimulation();
+        const seed = searchParams.get('seed');
+        const startTime = searchParams.get('startTime');
+        const tickMs = searchParams.get('tickMs');
+        if (startTime && isNaN(new Date(startTime).getTime())) {
+          return NextResponse.json(
+            { success: false, error: 'startTime must be an ISO date' },
+            { status: 400 }
+          );
+        }
+        if (tickMs && !(parseInt(tickMs, 10) > 0)) {
+          return NextResponse.json(
+            { success: false, error: 'tickMs must be a positive number' },
+            { status: 400 }
+          );
+        }
+
+        const reproducible = seed !== null || startTime !== null || tickMs !== null;
+        resetSimulation(reproducible ? {
+          seed: seed === null ? undefined : /^\d+$/.test(seed) ? Number(seed) : seed,
+          startTime: startTime ? new Date(startTime) : undefined,
+          tickMs: tickMs ? parseInt(tickMs, 10) : undefined,
+        } : undefined);
         return NextResponse.json({
           success: true,
           message: 'Simulation reset',
+          state: getSimulationState(),
+        });
+      }
+
+      case 'record': {
+        const recording = startRecording(searchParams.get('name') || undefined);
+        return NextResponse.json({
+          success: true,
+          message: `Recording ${recording.id}`,
+          recordingId: recording.id,
+        });
+      }
+
+      case 'stopRecording': {
+        const saved = await stopRecording();
+        return NextResponse.json({
+          success: true,
+          message: `Saved ${saved.ticks} ticks`,
+          recordingId: saved.id,
+          ticks: saved.ticks,
         });
       }
 
+      case 'recordings': {
+        const recordings = await listRecordings();
+        return NextResponse.json({
+          success: true,
+          recordings,
+          count: recordings.length,
+        });
+      }
+
+      case 'replay': {
+        const id = searchParams.get('id');
+        if (!id) {
+          return NextResponse.json(
+            { success: false, error: 'Recording id is required' },
+            { status: 400 }
+          );
+        }
+        const replay = await startReplay(id, speedParam ? speed : undefined);
+        return NextResponse.json({
+          success: true,
+          message: `Replaying ${id}`,
+          replay,
+        });
+      }
+
+      case 'stopReplay': {
+        stopReplay();
+        return NextResponse.json({
+          success: true,
+          message: 'Replay stopped',
+        });
+      }
+
+      case 'seek': {
+        const tick = parseInt(searchParams.get('tick') || '', 10);
+        if (isNaN(tick)) {
+          return NextResponse.json(
+            { success: false, error: 'tick is required' },
+            { status: 400 }
+          );
+        }
+        const result = await seekReplay(tick);
+        return NextResponse.json(result);
+      }
+
+      case 'anomalySensitivity': {
+        const equipmentType = searchParams.get('equipmentType');
+        if (!equipmentType) {
+          const types = Object.keys(OEM_EQUIPMENT_PROFILES) as PMEquipmentType[];
+          return NextResponse.json({
+            success: true,
+            sensitivity: Object.fromEntries(types.map(type => [type, getAnomalySensitivity(type)])),
+          });
+        }
+        if (!(equipmentType in OEM_EQUIPMENT_PROFILES)) {
+          return NextResponse.json(
+            { success: false, error: `Unknown equipmentType: ${equipmentType}` },
+            { status: 400 }
+          );
+        }
+
+        const overrides: Partial<AnomalySensitivity> = {};
+        for (const key of Object.keys(DEFAULT_ANOMALY_SENSITIVITY) as (keyof AnomalySensitivity)[]) {
+          const value = searchParams.get(key);
+          if (value !== null) overrides[key] = Number(value);
+        }
+        try {
+          const sensitivity = Object.keys(overrides).length > 0
+            ? setAnomalySensitivity(equipmentType as PMEquipmentType, overrides)
+            : getAnomalySensitivity(equipmentType as PMEquipmentType);
+          return NextResponse.json({ success: true, equipmentType, sensitivity });
+        } catch (error) {
+          return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Invalid sensitivity' },
+            { status: 400 }
+          );
+        }
+      }
+
       default:
         return NextResponse.json(
           { success: false, error: `Unknown action: ${action}` },
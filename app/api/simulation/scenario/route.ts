@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getScenarioStatus,
+  getSimulationState,
+  startScenario,
+  stopScenario,
+} from '@/lib/simulation/orchestrator';
+import { parseScenario, ScenarioDefinition } from '@/lib/simulation/scenario';
+import { BUILT_IN_SCENARIOS, getBuiltInScenario } from '@/lib/simulation/scenario-library';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Simulation Scenarios API - scripted disruptions against the live engine
+ *
+ * GET /api/simulation/scenario - The running scenario and the built-in library
+ * POST /api/simulation/scenario - Start one: { id } for a built-in, or
+ *   { scenario } with a scenario document (see lib/simulation/scenario);
+ *   reset: true starts it from a fresh world
+ * DELETE /api/simulation/scenario - Stop the running scenario
+ */
+
+// ============================================================================
+// GET - Status and library
+// ============================================================================
+
+export async function GET() {
+  return NextResponse.json({
+    success: true,
+    active: getScenarioStatus(),
+    library: BUILT_IN_SCENARIOS,
+  });
+}
+
+// ============================================================================
+// POST - Start a scenario
+// ============================================================================
+
+export async function POST(request: NextRequest) {
+  let body: { id?: string; scenario?: unknown; reset?: boolean };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Request body must be JSON' },
+      { status: 400 }
+    );
+  }
+
+  let definition: ScenarioDefinition | undefined;
+  if (body.scenario !== undefined) {
+    try {
+      definition = parseScenario(body.scenario);
+    } catch (error) {
+      return NextResponse.json(
+        { success: false, error: error instanceof Error ? error.message : 'Invalid scenario' },
+        { status: 400 }
+      );
+    }
+  } else if (body.id) {
+    definition = getBuiltInScenario(body.id);
+    if (!definition) {
+      return NextResponse.json(
+        { success: false, error: `Unknown scenario: ${body.id}` },
+        { status: 404 }
+      );
+    }
+  } else {
+    return NextResponse.json(
+      { success: false, error: 'id or scenario is required' },
+      { status: 400 }
+    );
+  }
+
+  if (getSimulationState().mode === 'replay') {
+    return NextResponse.json(
+      { success: false, error: 'Stop the replay before starting a scenario' },
+      { status: 409 }
+    );
+  }
+
+  try {
+    const scenario = startScenario(definition, { reset: body.reset === true });
+    return NextResponse.json({
+      success: true,
+      message: `Scenario ${definition.name} started`,
+      scenario,
+      state: getSimulationState(),
+    });
+  } catch (error) {
+    console.error('Scenario POST error:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to start scenario' },
+      { status: 500 }
+    );
+  }
+}
+
+// ============================================================================
+// DELETE - Stop the running scenario
+// ============================================================================
+
+export async function DELETE() {
+  const scenario = stopScenario();
+  return NextResponse.json({
+    success: true,
+    message: scenario ? `Scenario ${scenario.name} stopped` : 'No scenario running',
+    scenario,
+  });
+}
@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ensureStreamTicker } from '@/lib/simulation/orchestrator';
+import {
+  eventsSince,
+  FleetStreamEvent,
+  getStreamSnapshot,
+  subscribe,
+} from '@/lib/simulation/stream';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/simulation/stream - Live fleet state as server-sent events
+ *
+ * Events:
+ * - snapshot: { vessels, weather, insights } on first connect, when a
+ *   resume is not possible, and after a simulation reset
+ * - vessels: { tick, simulatedTime, vessels } with only changed fields per vessel
+ * - alert: a SimulationEvent
+ * - weather: fleet-area weather when it changes
+ * - insight: an AIInsight
+ *
+ * Resume: EventSource resends the Last-Event-ID header on reconnect;
+ * ?lastEventId= does the same for a fresh connection.
+ *
+ * The simulation ticks on the server while at least one client is connected.
+ */
+
+const HEARTBEAT_MS = 15000;
+const RETRY_MS = 3000;
+
+function formatEvent(id: string, type: string, data: unknown): string {
+  return `id: ${id}\nevent: ${type}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+export async function GET(request: NextRequest) {
+  const lastEventId = request.headers.get('last-event-id')
+    || request.nextUrl.searchParams.get('lastEventId');
+
+  try {
+    await ensureStreamTicker();
+  } catch (error) {
+    console.error('Fleet stream error:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Simulation unavailable' },
+      { status: 503 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+
+      send(`retry: ${RETRY_MS}\n\n`);
+
+      const missed = eventsSince(lastEventId);
+      if (missed) {
+        missed.forEach(event => send(formatEvent(event.id, event.type, event.data)));
+      } else {
+        const { id, snapshot } = getStreamSnapshot();
+        send(formatEvent(id, 'snapshot', snapshot));
+      }
+
+      const unsubscribe = subscribe((event: FleetStreamEvent) => {
+        send(formatEvent(event.id, event.type, event.data));
+      });
+      const heartbeat = setInterval(() => send(': heartbeat\n\n'), HEARTBEAT_MS);
+
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+        cleanup = () => {};
+      };
+      request.signal.addEventListener('abort', () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      });
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
@@ -0,0 +1,162 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parseCsv, parseDuration, parseJsonLines, parseJsonRecords, parseTimestamp, ParsedReadings } from '@/lib/telemetry/ingest';
+import {
+  aggregateTelemetry,
+  ingestReadings,
+  listTelemetrySeries,
+  queryTelemetry,
+  TELEMETRY_TIERS,
+} from '@/lib/telemetry/store';
+import { TelemetryAggregate, TelemetryQuery, TelemetryResolution } from '@/lib/telemetry/types';
+
+/**
+ * Telemetry API - Sensor time series ingestion and queries
+ *
+ * POST /api/telemetry - Ingest a batch of readings
+ *   Content-Type text/csv: CSV with a header row
+ *   Content-Type application/x-ndjson (or jsonl, text/plain): JSON lines
+ *   Content-Type application/json: an array of readings or { readings: [...] }
+ *
+ * GET /api/telemetry - Stored series and retention tiers
+ *   - assetId, equipmentId: narrow the list
+ * GET /api/telemetry?assetId=... - Query series
+ *   - equipmentId, metric (comma separated)
+ *   - from, to: ISO or epoch ms (default: the last day of each series)
+ *   - resolution: raw | 1m | 1h | 1d (default: finest tier covering the range)
+ *   - step: resample into buckets, e.g. 15m, 1h
+ *   - aggregate: avg | min | max | sum | count | first | last (default avg)
+ *   - mode: range (default), or aggregate for one value per series
+ */
+
+const RESOLUTIONS: TelemetryResolution[] = ['raw', '1m', '1h', '1d'];
+const AGGREGATES: TelemetryAggregate[] = ['avg', 'min', 'max', 'sum', 'count', 'first', 'last'];
+const MAX_REPORTED_ERRORS = 50;
+
+function badRequest(error: string) {
+  return NextResponse.json({ success: false, error }, { status: 400 });
+}
+
+// ============================================================================
+// GET - Series list and queries
+// ============================================================================
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const assetId = searchParams.get('assetId');
+  const equipmentId = searchParams.get('equipmentId') ?? undefined;
+  const mode = searchParams.get('mode') ?? 'range';
+
+  try {
+    if (!assetId || mode === 'series') {
+      return NextResponse.json({
+        success: true,
+        tiers: TELEMETRY_TIERS,
+        series: listTelemetrySeries({ assetId: assetId ?? undefined, equipmentId }),
+      });
+    }
+
+    const query: TelemetryQuery = { assetId, equipmentId };
+
+    const metric = searchParams.get('metric');
+    if (metric) query.metrics = metric.split(',').map(m => m.trim()).filter(Boolean);
+
+    for (const bound of ['from', 'to'] as const) {
+      const value = searchParams.get(bound);
+      if (!value) continue;
+      const date = parseTimestamp(value);
+      if (!date) return badRequest(`Invalid ${bound}: ${value}`);
+      query[bound] = date;
+    }
+    if (query.from && query.to && query.from > query.to) return badRequest('from must be before to');
+
+    const resolution = searchParams.get('resolution');
+    if (resolution) {
+      if (!RESOLUTIONS.includes(resolution as TelemetryResolution)) {
+        return badRequest(`resolution must be one of ${RESOLUTIONS.join(', ')}`);
+      }
+      query.resolution = resolution as TelemetryResolution;
+    }
+
+    const step = searchParams.get('step');
+    if (step) {
+      const stepMs = parseDuration(step);
+      if (!stepMs) return badRequest(`Invalid step: ${step}`);
+      query.stepMs = stepMs;
+    }
+
+    const aggregate = searchParams.get('aggregate');
+    if (aggregate) {
+      if (!AGGREGATES.includes(aggregate as TelemetryAggregate)) {
+        return badRequest(`aggregate must be one of ${AGGREGATES.join(', ')}`);
+      }
+      query.aggregate = aggregate as TelemetryAggregate;
+    }
+
+    if (mode === 'aggregate') {
+      return NextResponse.json({ success: true, summaries: aggregateTelemetry(query) });
+    }
+    if (mode !== 'range') return badRequest(`Unknown mode: ${mode}`);
+
+    return NextResponse.json({ success: true, series: queryTelemetry(query) });
+  } catch (error) {
+    console.error('Telemetry query error:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to query telemetry' },
+      { status: 500 }
+    );
+  }
+}
+
+// ============================================================================
+// POST - Batched ingestion
+// ============================================================================
+
+export async function POST(request: NextRequest) {
+  try {
+    const contentType = request.headers.get('content-type') ?? '';
+    const text = await request.text();
+    if (!text.trim()) return badRequest('Request body is empty');
+
+    let parsed: ParsedReadings;
+    if (contentType.includes('csv')) {
+      parsed = parseCsv(text);
+    } else if (contentType.includes('application/json')) {
+      let body: unknown;
+      try {
+        body = JSON.parse(text);
+      } catch {
+        return badRequest('Invalid JSON body');
+      }
+      const records = Array.isArray(body) ? body : (body as { readings?: unknown })?.readings;
+      if (!Array.isArray(records)) return badRequest('Expected an array of readings or { readings: [...] }');
+      parsed = parseJsonRecords(records);
+    } else {
+      parsed = parseJsonLines(text);
+    }
+
+    if (parsed.readings.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'No valid readings in the batch', errors: parsed.errors.slice(0, MAX_REPORTED_ERRORS) },
+        { status: 400 }
+      );
+    }
+
+    const result = ingestReadings(parsed.readings);
+    const errors = [...parsed.errors, ...result.errors];
+    console.log(`[Telemetry] Ingested ${result.accepted} readings into ${result.series} series (${errors.length} rejected)`);
+
+    return NextResponse.json({
+      success: true,
+      accepted: result.accepted,
+      rejected: errors.length,
+      series: result.series,
+      errors: errors.slice(0, MAX_REPORTED_ERRORS),
+    });
+  } catch (error) {
+    console.error('Telemetry ingestion error:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to ingest telemetry' },
+      { status: 500 }
+    );
+  }
+}
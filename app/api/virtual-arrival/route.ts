@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getVirtualArrivalPlan,
+  listVirtualArrivalPlans,
+  updateBerthTime,
+} from '@/lib/routes/virtual-arrival';
+
+/**
+ * Virtual Arrival API - agreed berth slots and mid-voyage re-planning
+ *
+ * GET /api/virtual-arrival - List plans (?vessel_id=) or get one (?id=)
+ * POST /api/virtual-arrival - Post a new berth time for a plan and re-plan
+ *   { planId, berthTime, postedAt?, position?: { lat, lng }, reference?, notes? }
+ *
+ * Plans are created with POST /api/route-optimize { mode: 'virtual-arrival' }.
+ */
+
+// ============================================================================
+// GET - List plans
+// ============================================================================
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const planId = searchParams.get('id');
+
+    if (planId) {
+      const plan = getVirtualArrivalPlan(planId);
+      if (!plan) {
+        return NextResponse.json(
+          { success: false, error: 'Plan not found' },
+          { status: 404 }
+        );
+      }
+      return NextResponse.json({ success: true, plan });
+    }
+
+    const plans = listVirtualArrivalPlans(searchParams.get('vessel_id') || undefined);
+    return NextResponse.json({
+      success: true,
+      plans,
+      count: plans.length,
+    });
+  } catch (error) {
+    console.error('Virtual arrival GET error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch virtual arrival plans' },
+      { status: 500 }
+    );
+  }
+}
+
+// ============================================================================
+// POST - New berth time
+// ============================================================================
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { planId, position } = body;
+    const berthTime = new Date(body.berthTime);
+    const postedAt = body.postedAt ? new Date(body.postedAt) : new Date();
+
+    if (!planId) {
+      return NextResponse.json(
+        { success: false, error: 'planId is required' },
+        { status: 400 }
+      );
+    }
+
+    if (isNaN(berthTime.getTime()) || isNaN(postedAt.getTime())) {
+      return NextResponse.json(
+        { success: false, error: 'berthTime (and postedAt if given) must be ISO dates' },
+        { status: 400 }
+      );
+    }
+
+    if (position && (typeof position.lat !== 'number' || typeof position.lng !== 'number')) {
+      return NextResponse.json(
+        { success: false, error: 'position must have numeric lat and lng' },
+        { status: 400 }
+      );
+    }
+
+    const existing = getVirtualArrivalPlan(planId);
+    if (!existing) {
+      return NextResponse.json(
+        { success: false, error: 'Plan not found' },
+        { status: 404 }
+      );
+    }
+
+    const previous = {
+      berthTime: existing.agreedSlot.berthTime,
+      recommendedSpeed: existing.speedPlan[0]?.speedKnots ?? 0,
+      fuelSaved: existing.savings.fuelLiters,
+      co2Saved: existing.savings.co2Kg,
+    };
+
+    let plan;
+    try {
+      plan = updateBerthTime(planId, {
+        berthTime,
+        postedAt,
+        position,
+        reference: body.reference,
+        notes: body.notes,
+      });
+    } catch (error) {
+      // Berth time in the past or voyage already completed
+      return NextResponse.json(
+        { success: false, error: error instanceof Error ? error.message : 'Invalid berth time' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      plan,
+      change: {
+        previousBerthTime: previous.berthTime,
+        berthTime: plan.agreedSlot.berthTime,
+        previousSpeed: previous.recommendedSpeed,
+        recommendedSpeed: plan.speedPlan[0]?.speedKnots ?? 0,
+        fuelSavedDelta: plan.savings.fuelLiters - previous.fuelSaved,
+        co2SavedDelta: plan.savings.co2Kg - previous.co2Saved,
+      },
+      message: plan.latenessHours > 0
+        ? `Berth time cannot be met - arriving ${plan.latenessHours.toFixed(1)}h late at maximum speed`
+        : 'Speed plan updated for new berth time',
+    });
+  } catch (error) {
+    console.error('Virtual arrival POST error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update berth time' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,145 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { generateMockProjects } from '@/lib/orchestration/mock-data';
+import { MetoceanSample, OperationLimits } from '@/lib/orchestration/types';
+import {
+  analyzeOperability,
+  fetchMetoceanSeries,
+  generateHindcastSeries,
+  governingOperation,
+  MARINE_OPERATIONS,
+  resolveOperation,
+} from '@/lib/orchestration/weather-window';
+import { getForecastSource } from '@/lib/route-optimization/forecast';
+
+/**
+ * Weather Windows API - workable windows for marine operations at a site
+ *
+ * GET /api/weather-windows?projectId=proj-zakum or ?lat=24.85&lng=53.45
+ *   - operation: operation id (default: the project's governing operation, else crane_lift)
+ *   - days: how far ahead to look (default 7, max 180)
+ *   - source: forecast (default, falls back to hindcast past its horizon) or hindcast
+ * POST /api/weather-windows
+ *   { series: MetoceanSample[], operation?: string, limits?: OperationLimits }
+ *
+ * Returns the workable windows, operability and hours lost to each limit.
+ */
+
+const MAX_DAYS = 180;
+const HOUR_MS = 60 * 60 * 1000;
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const projectId = searchParams.get('projectId');
+  const days = parseInt(searchParams.get('days') ?? '7', 10);
+  const source = searchParams.get('source') ?? 'forecast';
+
+  if (!Number.isFinite(days) || days <= 0 || days > MAX_DAYS) {
+    return NextResponse.json(
+      { success: false, error: `days must be between 1 and ${MAX_DAYS}` },
+      { status: 400 }
+    );
+  }
+  if (source !== 'forecast' && source !== 'hindcast') {
+    return NextResponse.json(
+      { success: false, error: 'source must be forecast or hindcast' },
+      { status: 400 }
+    );
+  }
+
+  const project = projectId ? generateMockProjects().find(p => p.id === projectId) : undefined;
+  if (projectId && !project) {
+    return NextResponse.json(
+      { success: false, error: `Project not found: ${projectId}` },
+      { status: 404 }
+    );
+  }
+  const location = project?.location ?? { lat: parseFloat(searchParams.get('lat') ?? ''), lng: parseFloat(searchParams.get('lng') ?? '') };
+  if (!Number.isFinite(location.lat) || !Number.isFinite(location.lng)) {
+    return NextResponse.json(
+      { success: false, error: 'projectId or lat and lng are required' },
+      { status: 400 }
+    );
+  }
+
+  let limits: OperationLimits;
+  try {
+    const operation = searchParams.get('operation');
+    limits = operation ? resolveOperation(operation) : project ? governingOperation(project) : MARINE_OPERATIONS.crane_lift;
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Invalid operation' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const from = new Date();
+    const hours = days * 24;
+    let series: MetoceanSample[] = [];
+    if (source === 'forecast') {
+      series = await fetchMetoceanSeries(await getForecastSource(), location, from, hours);
+    }
+    // Past the forecast horizon, the hindcast stands in
+    const covered = series.length;
+    if (covered < hours) {
+      const start = new Date(Math.floor(from.getTime() / HOUR_MS) * HOUR_MS + covered * HOUR_MS);
+      series = [...series, ...generateHindcastSeries(location, start, hours - covered)];
+    }
+
+    return NextResponse.json({
+      success: true,
+      location: { ...location, name: project?.location.name },
+      operation: limits,
+      forecastHours: covered,
+      analysis: analyzeOperability(series, limits),
+    });
+  } catch (error) {
+    console.error('Weather windows error:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to analyze weather windows' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    if (!Array.isArray(body.series) || body.series.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'series must be a non-empty array of metocean samples' },
+        { status: 400 }
+      );
+    }
+
+    let series: MetoceanSample[];
+    let limits: OperationLimits;
+    try {
+      series = (body.series as Array<Omit<MetoceanSample, 'time'> & { time: string }>).map(s => {
+        const time = new Date(s.time);
+        if (isNaN(time.getTime())) throw new Error(`Invalid date: ${String(s.time)}`);
+        if (typeof s.waveHeightM !== 'number') throw new Error('Every sample needs waveHeightM');
+        return { ...s, time };
+      });
+      limits = body.limits ? { id: 'custom', label: 'Custom limits', ...body.limits } : resolveOperation(body.operation ?? 'crane_lift');
+    } catch (error) {
+      return NextResponse.json(
+        { success: false, error: error instanceof Error ? error.message : 'Invalid weather window input' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      operation: limits,
+      analysis: analyzeOperability(series, limits),
+    });
+  } catch (error) {
+    console.error('Weather windows error:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to analyze weather windows' },
+      { status: 500 }
+    );
+  }
+}
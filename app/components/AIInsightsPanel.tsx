@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import {
   Compass,
   AlertTriangle,
@@ -15,6 +15,7 @@ import {
   Target,
   Shield,
 } from 'lucide-react';
+import { useFleetStream } from '@/app/hooks/useFleetStream';
 
 interface AIInsight {
   id: string;
@@ -156,7 +157,7 @@ function InsightCard({ insight }: { insight: AIInsight }) {
 }
 
 export function AIInsightsPanel() {
-  const [insights, setInsights] = useState<AIInsight[]>([]);
+  const [fetchedInsights, setFetchedInsights] = useState<AIInsight[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [lastUpdate, setLastUpdate] = useState<Date | null>(null);
 
@@ -166,7 +167,7 @@ export function AIInsightsPanel() {
       const response = await fetch('/api/simulation?action=insights');
       const data = await response.json();
       if (data.success && data.insights) {
-        setInsights(data.insights);
+        setFetchedInsights(data.insights);
         setLastUpdate(new Date());
       }
     } catch (error) {
@@ -176,12 +177,20 @@ export function AIInsightsPanel() {
     }
   }, []);
 
+  // Fetch once; new insights are pushed over the fleet stream
   useEffect(() => {
     fetchInsights();
-    const interval = setInterval(fetchInsights, 15000);
-    return () => clearInterval(interval);
   }, [fetchInsights]);
 
+  const { insights: streamedInsights } = useFleetStream();
+  const insights = useMemo(() => {
+    const byId = new Map<string, AIInsight>();
+    [...fetchedInsights, ...streamedInsights].forEach(insight => byId.set(insight.id, insight));
+    return [...byId.values()]
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, 10);
+  }, [fetchedInsights, streamedInsights]);
+
   const criticalCount = insights.filter(i => i.severity === 'critical').length;
   const warningCount = insights.filter(i => i.severity === 'warning').length;
 
@@ -4,6 +4,8 @@ import { useRef, useState } from 'react';
 import { useFrame } from '@react-three/fiber';
 import { Html, Sphere } from '@react-three/drei';
 import * as THREE from 'three';
+import { EquipmentSignal, vesselStandIn } from '@/lib/telemetry/equipment';
+import type { TelemetrySummary } from '@/lib/telemetry/types';
 
 export interface SensorData {
   id: string;
@@ -152,6 +154,33 @@ export function SensorOverlay({
   );
 }
 
+// Overlay the latest stored sensor readings on the equipment snapshot; the
+// vessel-level reading standing in for the equipment's type when it has none
+export function withLatestReadings<T extends {
+  id: string;
+  type: string;
+  health_score?: number | null;
+  temperature?: number | null;
+  vibration?: number | null;
+}>(equipment: T[], readings: TelemetrySummary[]): T[] {
+  if (readings.length === 0) return equipment;
+
+  return equipment.map((eq) => {
+    const latest = (metric: EquipmentSignal) => {
+      const standIn = vesselStandIn(eq.type, metric);
+      const reading = readings.find(r => r.equipmentId === eq.id && r.metric === metric && r.value != null)
+        ?? readings.find(r => !r.equipmentId && standIn !== undefined && r.metric === standIn && r.value != null);
+      return reading?.value ?? undefined;
+    };
+    return {
+      ...eq,
+      temperature: latest('temperature') ?? eq.temperature,
+      vibration: latest('vibration') ?? eq.vibration,
+      health_score: latest('health') ?? eq.health_score,
+    };
+  });
+}
+
 // Generate sensor positions based on equipment data
 export function generateSensorsFromEquipment(equipment: Array<{
   id: string;
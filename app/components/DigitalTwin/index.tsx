@@ -1,18 +1,23 @@
 'use client';
 
-import { Suspense, useRef, useState, useCallback, useEffect } from 'react';
+import { Suspense, useRef, useState, useCallback, useEffect, useMemo } from 'react';
 import { Canvas } from '@react-three/fiber';
 import { OrbitControls, Environment, ContactShadows, PerspectiveCamera } from '@react-three/drei';
 import { OrbitControls as OrbitControlsImpl } from 'three-stdlib';
 import { VesselModelSelector } from './VesselModels';
-import { SensorOverlay, SensorData, generateSensorsFromEquipment } from './SensorOverlay';
+import { SensorOverlay, SensorData, generateSensorsFromEquipment, withLatestReadings } from './SensorOverlay';
 import { getSensorTroubleshooting } from '@/lib/troubleshooting';
 import { HeatmapLayer, HeatmapMode, generateHeatmapData, HeatmapLegend } from './HeatmapLayer';
 import { ControlPanel } from './ControlPanel';
 import { Vessel, Equipment } from '@/lib/supabase';
+import { fetchTelemetrySummary } from '@/lib/telemetry/client';
+import { VESSEL_STAND_IN_METRICS } from '@/lib/telemetry/equipment';
+import type { TelemetrySummary } from '@/lib/telemetry/types';
 import { AlertCircle, Loader2 } from 'lucide-react';
 import Link from 'next/link';
 
+const TELEMETRY_REFRESH_MS = 30000;
+
 interface DigitalTwinProps {
   vessel: Vessel;
   equipment: Equipment[];
@@ -161,6 +166,31 @@ export function DigitalTwin({ vessel, equipment, vesselSubType }: DigitalTwinPro
   const [isPlaying, setIsPlaying] = useState(false);
   const [timelinePosition, setTimelinePosition] = useState(100);
   const [hasError, setHasError] = useState(false);
+  const [readings, setReadings] = useState<TelemetrySummary[]>([]);
+
+  // Latest readings from the telemetry store, refreshed while the twin is open
+  useEffect(() => {
+    let cancelled = false;
+    const load = () => {
+      fetchTelemetrySummary({
+        assetId: vessel.id,
+        metrics: ['temperature', 'vibration', 'health', ...VESSEL_STAND_IN_METRICS],
+        aggregate: 'last',
+      })
+        .then(summaries => {
+          if (!cancelled) setReadings(summaries);
+        })
+        .catch(err => console.error('[DigitalTwin] Failed to load telemetry:', err));
+    };
+    load();
+    const interval = setInterval(load, TELEMETRY_REFRESH_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [vessel.id]);
+
+  const liveEquipment = useMemo(() => withLatestReadings(equipment, readings), [equipment, readings]);
 
   const handleSensorClick = useCallback((sensor: SensorData) => {
     setSelectedSensor(sensor.id === selectedSensor ? null : sensor.id);
@@ -219,7 +249,7 @@ export function DigitalTwin({ vessel, equipment, vesselSubType }: DigitalTwinPro
         >
           <Scene
             vessel={vessel}
-            equipment={equipment}
+            equipment={liveEquipment}
             showSensors={showSensors}
             heatmapMode={heatmapMode}
             selectedSensor={selectedSensor}
@@ -4,6 +4,7 @@ import { useState, useEffect, useCallback, useRef } from 'react';
 import { Radio, Ship, RefreshCw, ExternalLink } from 'lucide-react';
 import Link from 'next/link';
 import type { FleetVessel } from '@/app/api/fleet/route';
+import { useLiveFleetVessels } from '@/app/hooks/useFleetStream';
 import 'leaflet/dist/leaflet.css';
 
 interface FleetMeta {
@@ -54,6 +55,7 @@ export function LiveVesselsPanel({
   const leafletRef = useRef<any>(null);
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const markersRef = useRef<Map<string, any>>(new Map());
+  const fittedKeyRef = useRef('');
   
   // Use external data if provided, otherwise manage internal state
   const [internalVessels, setInternalVessels] = useState<FleetVessel[]>([]);
@@ -64,8 +66,8 @@ export function LiveVesselsPanel({
   const [internalMeta, setInternalMeta] = useState<FleetMeta | null>(null);
   const [creditsRemaining, setCreditsRemaining] = useState<number | null>(null);
 
-  // Determine which data to use
-  const vessels = fleetData ?? internalVessels;
+  // Determine which data to use, with live simulation updates from the fleet stream
+  const vessels = useLiveFleetVessels(fleetData ?? internalVessels);
   const meta = fleetMeta ?? internalMeta;
   const isLoading = externalLoading ?? internalLoading;
 
@@ -242,8 +244,10 @@ export function LiveVesselsPanel({
       bounds.push([vessel.position.lat, vessel.position.lng]);
     });
 
-    // Fit to bounds if we have vessels
-    if (bounds.length > 0) {
+    // Fit to bounds when the set of vessels changes, not on every live update
+    const fittedKey = [...markersRef.current.keys()].join(',');
+    if (bounds.length > 0 && fittedKey !== fittedKeyRef.current) {
+      fittedKeyRef.current = fittedKey;
       try {
         map.fitBounds(bounds, { padding: [40, 40], maxZoom: 10 });
       } catch (e) {
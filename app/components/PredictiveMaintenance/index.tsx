@@ -60,10 +60,14 @@ import {
   PMFleetPattern,
   PMInspectionRecord,
   PMOilAnalysis,
+  PMSystemContext,
 } from '@/lib/predictive-maintenance/types'
 import { analyzeEquipment, DATA_SOURCES } from '@/lib/predictive-maintenance/analyzer'
 import { getOEMProfile, getWearPercentage } from '@/lib/predictive-maintenance/oem-specs'
 import { getWorkOrderHistory, getFleetPatterns, getInspectionRecords, getOilAnalysisRecords } from '@/lib/predictive-maintenance/history'
+import { fetchEquipmentTelemetry } from '@/lib/predictive-maintenance/telemetry'
+import { getEquipmentProfile } from '@/lib/predictive-maintenance/vessel-systems'
+import type { SystemComponent } from '@/lib/vessel-profiles'
 
 const SOURCE_ICONS: Record<string, React.ReactNode> = {
   Activity: <Activity className="w-4 h-4" />,
@@ -517,7 +521,7 @@ function OilAnalysisCard({ analysis }: { analysis: PMOilAnalysis }) {
         </span>
       </div>
       <div className="grid grid-cols-2 gap-2">
-        {analysis.results.slice(0, 4).map((result, idx) => (
+        {analysis.results.map((result, idx) => (
           <div key={idx} className="p-2 rounded bg-black/30">
             <span className="text-[9px] text-white/40 block">{result.parameter}</span>
             <div className="flex items-baseline gap-1">
@@ -528,10 +532,25 @@ function OilAnalysisCard({ analysis }: { analysis: PMOilAnalysis }) {
                 {result.value}
               </span>
               <span className="text-[9px] text-white/30">{result.unit}</span>
+              {result.trend === 'increasing' && <TrendingUp className="w-3 h-3 text-amber-400/70" />}
             </div>
           </div>
         ))}
       </div>
+      {analysis.diagnoses && analysis.diagnoses.length > 0 && (
+        <div className="mt-2 space-y-1.5">
+          {analysis.diagnoses.map(d => (
+            <div key={d.id} className={`p-2 rounded border ${
+              d.severity === 'critical' ? 'bg-rose-500/10 border-rose-500/20' : 'bg-amber-500/10 border-amber-500/20'
+            }`}>
+              <p className={`text-[11px] font-medium ${d.severity === 'critical' ? 'text-rose-400' : 'text-amber-400'}`}>
+                {d.cause} <span className="text-white/40 font-normal">· {d.confidence}%</span>
+              </p>
+              <p className="text-[9px] text-white/50">{d.evidence.join(' · ')}</p>
+            </div>
+          ))}
+        </div>
+      )}
       <p className="text-[10px] text-white/50 mt-2 pt-2 border-t border-white/5">
         {analysis.recommendation}
       </p>
@@ -568,7 +587,7 @@ function FleetPatternCard({ pattern }: { pattern: PMFleetPattern }) {
 interface PredictionDetailPanelProps {
   prediction: PMPrediction
   analysis: PMAnalysis
-  equipment: { currentHealth?: number; operatingHours?: number; cycleCount?: number }
+  equipment: { currentHealth?: number; operatingHours?: number; cycleCount?: number; system?: PMSystemContext; component?: SystemComponent }
   onClose: () => void
   onResolve?: (query: string) => void
 }
@@ -588,7 +607,7 @@ function PredictionDetailPanel({ prediction, analysis, equipment, onClose, onRes
     setWorkOrders(getWorkOrderHistory(prediction.assetId, prediction.equipmentId))
     setFleetPatterns(getFleetPatterns(prediction.equipmentType))
     setInspections(getInspectionRecords(prediction.assetId, prediction.equipmentId))
-    setOilAnalysis(getOilAnalysisRecords(prediction.assetId, prediction.equipmentId))
+    setOilAnalysis(getOilAnalysisRecords(prediction.assetId, prediction.equipmentId, prediction.equipmentType))
   }, [prediction, equipment])
 
   useEffect(() => {
@@ -602,7 +621,7 @@ function PredictionDetailPanel({ prediction, analysis, equipment, onClose, onRes
     return () => clearInterval(interval)
   }, [])
 
-  const profile = getOEMProfile(prediction.equipmentType)
+  const profile = getEquipmentProfile({ type: prediction.equipmentType, system: equipment.system, component: equipment.component })
   const relevantReasoning = analysis.reasoningChain.filter(
     step => step.text.toLowerCase().includes(prediction.equipmentName.toLowerCase().split(' ')[0]) ||
             step.text.toLowerCase().includes(prediction.equipmentType.replace('_', ' '))
@@ -629,7 +648,7 @@ function PredictionDetailPanel({ prediction, analysis, equipment, onClose, onRes
               <div>
                 <h2 className="text-lg font-semibold text-white">{prediction.equipmentName}</h2>
                 <p className="text-xs text-white/50 capitalize">
-                  {prediction.equipmentType.replace('_', ' ')} • {prediction.assetName}
+                  {prediction.componentType ?? prediction.equipmentType.replace('_', ' ')} • {prediction.system ? `${prediction.system.name} • ` : ''}{prediction.assetName}
                 </p>
               </div>
             </div>
@@ -656,7 +675,11 @@ function PredictionDetailPanel({ prediction, analysis, equipment, onClose, onRes
               <p className={`text-lg font-bold ${priorityColors[prediction.priority].split(' ')[0]}`}>
                 {prediction.remainingLife.value}
               </p>
-              <p className="text-[9px] text-white/30">{prediction.remainingLife.unit}</p>
+              <p className="text-[9px] text-white/30">
+                {prediction.remainingLife.interval
+                  ? `${prediction.remainingLife.interval.lower}-${prediction.remainingLife.interval.upper} ${prediction.remainingLife.unit}`
+                  : prediction.remainingLife.unit}
+              </p>
             </div>
             <div className="p-2 rounded-lg bg-black/30 text-center">
               <p className="text-[10px] text-white/40">Confidence</p>
@@ -1684,7 +1707,9 @@ function PredictionCard({ prediction, onOpenDetail }: PredictionCardProps) {
             )}
             <div>
               <h3 className="text-sm font-medium text-white">{prediction.equipmentName}</h3>
-              <p className="text-[10px] text-white/40 capitalize">{prediction.equipmentType.replace('_', ' ')}</p>
+              <p className="text-[10px] text-white/40 capitalize">
+                {prediction.system ? `${prediction.system.name} · ` : ''}{prediction.componentType ?? prediction.equipmentType.replace('_', ' ')}
+              </p>
             </div>
           </div>
           <div className="flex items-center gap-2">
@@ -1733,6 +1758,8 @@ interface AIPredictiveMaintenanceProps {
     cycleCount?: number
     temperature?: number
     vibration?: number
+    system?: PMSystemContext
+    component?: SystemComponent
   }[]
   compact?: boolean
   onPredictionSelect?: (prediction: PMPrediction) => void
@@ -1760,12 +1787,11 @@ export function AIPredictiveMaintenance({
     setActiveSourceIndex(0)
     setAnalysis(null)
 
-    const request: PMAnalysisRequest = {
-      assetType,
-      assetId,
-      assetName,
-      equipmentList: equipment,
-    }
+    // Sensor history from the telemetry store; the snapshot alone when there is none
+    const telemetry = fetchEquipmentTelemetry(assetId, { equipment }).catch(error => {
+      console.error('[PredictiveMaintenance] Failed to load telemetry:', error)
+      return {} as Awaited<ReturnType<typeof fetchEquipmentTelemetry>>
+    })
 
     const sourceAnimationInterval = setInterval(() => {
       setActiveSourceIndex(prev => {
@@ -1777,7 +1803,14 @@ export function AIPredictiveMaintenance({
       })
     }, 350)
 
-    setTimeout(() => {
+    setTimeout(async () => {
+      const history = await telemetry
+      const request: PMAnalysisRequest = {
+        assetType,
+        assetId,
+        assetName,
+        equipmentList: equipment.map(eq => ({ ...eq, telemetry: history[eq.id] })),
+      }
       const result = analyzeEquipment(request)
       setAnalysis(result)
       setIsAnalyzing(false)
@@ -8,6 +8,7 @@ interface RouteComparisonMapProps {
   showOriginal?: boolean;
   showOptimized?: boolean;
   showWeatherZones?: boolean;
+  showNetwork?: boolean;
   height?: string;
 }
 
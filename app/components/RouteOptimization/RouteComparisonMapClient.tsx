@@ -1,6 +1,6 @@
 'use client';
 
-import { useEffect, useRef } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
 import { RouteOptimizationResult } from '@/lib/route-optimization/types';
@@ -10,18 +10,42 @@ interface RouteComparisonMapClientProps {
   showOriginal?: boolean;
   showOptimized?: boolean;
   showWeatherZones?: boolean;
+  showNetwork?: boolean;
   height?: string;
 }
 
+// GeoJSON overlay returned by /api/routes/network
+interface NetworkOverlay {
+  version: string;
+  network: GeoJSON.FeatureCollection;
+  land: GeoJSON.FeatureCollection;
+}
+
 export function RouteComparisonMapClient({
   result,
   showOriginal = true,
   showOptimized = true,
   showWeatherZones = true,
+  showNetwork = false,
   height = '400px',
 }: RouteComparisonMapClientProps) {
   const mapRef = useRef<L.Map | null>(null);
   const mapContainerRef = useRef<HTMLDivElement>(null);
+  const [networkOverlay, setNetworkOverlay] = useState<NetworkOverlay | null>(null);
+
+  // Load the active shipping-lane network the first time the overlay is enabled
+  useEffect(() => {
+    if (!showNetwork || networkOverlay) return;
+
+    fetch('/api/routes/network')
+      .then(res => res.json())
+      .then(data => {
+        if (data.success) {
+          setNetworkOverlay({ version: data.summary.version, network: data.network, land: data.land });
+        }
+      })
+      .catch(err => console.error('Failed to load route network:', err));
+  }, [showNetwork, networkOverlay]);
 
   useEffect(() => {
     if (!mapContainerRef.current || mapRef.current) return;
@@ -76,6 +100,56 @@ export function RouteComparisonMapClient({
       }
     });
 
+    // Add shipping-lane network overlay (below the routes)
+    if (showNetwork && networkOverlay) {
+      L.geoJSON(networkOverlay.land, {
+        style: (feature) => {
+          const restricted = feature?.properties?.kind === 'restricted';
+          return {
+            color: restricted ? '#f97316' : '#64748b',
+            fillColor: restricted ? '#f97316' : '#64748b',
+            fillOpacity: restricted ? 0.25 : 0.15,
+            weight: 1,
+            dashArray: restricted ? '4, 4' : undefined,
+          };
+        },
+        onEachFeature: (feature, layer) => {
+          layer.bindPopup(`
+            <div style="color: #000; font-size: 12px;">
+              <strong>${feature.properties?.name}</strong><br/>
+              ${feature.properties?.kind === 'restricted' ? 'Restricted area' : 'Land'}
+              ${feature.properties?.restriction ? `<br/><em>${feature.properties.restriction}</em>` : ''}
+            </div>
+          `);
+        },
+      }).addTo(map);
+
+      L.geoJSON(networkOverlay.network, {
+        style: (feature) => ({
+          color: feature?.properties?.closed ? '#ef4444' : '#22d3ee',
+          weight: 1.5,
+          opacity: 0.5,
+          dashArray: feature?.properties?.closed ? '2, 6' : undefined,
+        }),
+        pointToLayer: (_feature, latlng) => L.circleMarker(latlng, {
+          radius: 3,
+          color: '#22d3ee',
+          fillColor: '#0e7490',
+          fillOpacity: 1,
+          weight: 1,
+        }),
+        onEachFeature: (feature, layer) => {
+          if (feature.geometry.type !== 'Point') return;
+          layer.bindPopup(`
+            <div style="color: #000; font-size: 12px;">
+              <strong>${feature.properties?.name}</strong><br/>
+              ${feature.id}${feature.properties?.region ? ` • ${feature.properties.region}` : ''}
+            </div>
+          `);
+        },
+      }).addTo(map);
+    }
+
     // Add weather zones
     if (showWeatherZones && result.weatherZonesAvoided.length > 0) {
       result.weatherZonesAvoided.forEach((zone) => {
@@ -154,7 +228,7 @@ export function RouteComparisonMapClient({
       });
     }
 
-  }, [result, showOriginal, showOptimized, showWeatherZones]);
+  }, [result, showOriginal, showOptimized, showWeatherZones, showNetwork, networkOverlay]);
 
   return (
     <div className="relative rounded-xl overflow-hidden border border-white/10">
@@ -182,6 +256,12 @@ export function RouteComparisonMapClient({
               <span className="text-xs text-white/70">Weather Hazard</span>
             </div>
           )}
+          {showNetwork && networkOverlay && (
+            <div className="flex items-center gap-2">
+              <div className="w-6 h-0.5 bg-cyan-400/60" />
+              <span className="text-xs text-white/70">Shipping Lanes v{networkOverlay.version}</span>
+            </div>
+          )}
         </div>
       </div>
 
@@ -1,7 +1,7 @@
 'use client';
 
 import { useState } from 'react';
-import { RouteOptimizationResult } from '@/lib/route-optimization/types';
+import { RouteOptimizationResult, SegmentForecast } from '@/lib/route-optimization/types';
 import { formatDistance, formatDuration, formatFuel, formatCurrency } from '@/lib/route-optimization/optimizer';
 import { RouteComparisonMap } from './RouteComparisonMap';
 import {
@@ -67,6 +67,7 @@ export function RouteOptimizationPanel({ result, onApplyRoute, onDismiss }: Rout
   const [showOriginalRoute, setShowOriginalRoute] = useState(true);
   const [showOptimizedRoute, setShowOptimizedRoute] = useState(true);
   const [showWeatherZones, setShowWeatherZones] = useState(true);
+  const [showNetwork, setShowNetwork] = useState(false);
 
   const recStyle = recommendationStyles[result.recommendation];
   const RecIcon = recStyle.icon;
@@ -92,6 +93,11 @@ export function RouteOptimizationPanel({ result, onApplyRoute, onDismiss }: Rout
             </div>
           </div>
           <div className="flex items-center gap-2">
+            {result.strategy && (
+              <span className="px-2 py-0.5 rounded bg-white/5 border border-white/10 text-[10px] text-white/50">
+                {result.strategy}{result.routeSource ? ` · ${result.routeSource}` : ''}
+              </span>
+            )}
             <span className="text-xs text-white/40">{result.confidence}% confidence</span>
           </div>
         </div>
@@ -104,6 +110,7 @@ export function RouteOptimizationPanel({ result, onApplyRoute, onDismiss }: Rout
           showOriginal={showOriginalRoute}
           showOptimized={showOptimizedRoute}
           showWeatherZones={showWeatherZones}
+          showNetwork={showNetwork}
           height="320px"
         />
 
@@ -136,6 +143,15 @@ export function RouteOptimizationPanel({ result, onApplyRoute, onDismiss }: Rout
             {showWeatherZones ? <Eye className="w-3 h-3" /> : <EyeOff className="w-3 h-3" />}
             Weather
           </button>
+          <button
+            onClick={() => setShowNetwork(!showNetwork)}
+            className={`flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg text-xs transition-colors ${
+              showNetwork ? 'bg-cyan-500/20 text-cyan-400' : 'bg-white/5 text-white/40'
+            }`}
+          >
+            {showNetwork ? <Eye className="w-3 h-3" /> : <EyeOff className="w-3 h-3" />}
+            Network
+          </button>
         </div>
       </div>
 
@@ -221,6 +237,12 @@ export function RouteOptimizationPanel({ result, onApplyRoute, onDismiss }: Rout
                   {result.summary.safetyReasoning}
                 </p>
               )}
+              {result.clearance?.tightest && (
+                <p className={`mt-2 text-[10px] ${result.clearance.feasible ? 'text-white/50' : 'text-rose-400'}`}>
+                  Min UKC {result.clearance.tightest.clearance.toFixed(1)}m
+                  {' '}(req. {result.clearance.requiredClearance.toFixed(1)}m at {result.clearance.draftMeters}m draft)
+                </p>
+              )}
             </div>
           </div>
         </div>
@@ -291,6 +313,9 @@ export function RouteOptimizationPanel({ result, onApplyRoute, onDismiss }: Rout
                   {waypoint.notes && (
                     <div className="text-[10px] text-emerald-400/70 mt-0.5">{waypoint.notes}</div>
                   )}
+                  {index > 0 && result.segmentForecasts?.[index - 1] && (
+                    <SegmentForecastLine forecast={result.segmentForecasts[index - 1]} />
+                  )}
                 </div>
                 {index < result.optimizedRoute.waypoints.length - 1 && (
                   <ArrowRight className="w-4 h-4 text-white/20" />
@@ -404,3 +429,19 @@ function MetricRow({ icon: Icon, label, value, delta, invertDelta, formatDelta }
   );
 }
 
+function SegmentForecastLine({ forecast }: { forecast: SegmentForecast }) {
+  // Dates arrive as ISO strings from the API
+  const formatTime = (time: Date | string) =>
+    new Date(time).toLocaleString('en-GB', { day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+  const color = forecast.severity === 'severe' ? 'text-rose-400/80' :
+                forecast.severity === 'moderate' ? 'text-amber-400/80' : 'text-white/40';
+
+  return (
+    <div className={`text-[10px] mt-0.5 ${color}`}>
+      Passage {formatTime(forecast.passageTime)}
+      {forecast.forecastTime && <> • forecast valid {formatTime(forecast.forecastTime)}</>}
+      {forecast.waveHeightM !== undefined && <> • {forecast.waveHeightM.toFixed(1)}m waves</>}
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { CartesianGrid, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Activity, AlertTriangle, Loader2 } from 'lucide-react';
+import { fetchTelemetry } from '@/lib/telemetry/client';
+import type { TelemetrySeries } from '@/lib/telemetry/types';
+
+interface TelemetryTrendsPanelProps {
+  assetId: string;
+  equipmentId?: string;
+  metrics?: string[];
+  equipmentNames?: Record<string, string>;
+}
+
+const RANGES = [
+  { id: '24h', label: '24h', ms: 24 * 60 * 60 * 1000, step: '15m' },
+  { id: '7d', label: '7d', ms: 7 * 24 * 60 * 60 * 1000, step: '2h' },
+  { id: '30d', label: '30d', ms: 30 * 24 * 60 * 60 * 1000, step: '6h' },
+] as const;
+
+const tooltipStyle = {
+  backgroundColor: '#1a1a1a',
+  border: '1px solid #333',
+  borderRadius: '8px',
+  fontSize: 11,
+};
+
+function metricLabel(metric: string): string {
+  return metric.replace(/_/g, ' ').replace(/^\w/, c => c.toUpperCase());
+}
+
+/**
+ * Sensor history for a vessel or one of its machines, from the telemetry store
+ */
+export function TelemetryTrendsPanel({ assetId, equipmentId, metrics, equipmentNames = {} }: TelemetryTrendsPanelProps) {
+  const [rangeId, setRangeId] = useState<(typeof RANGES)[number]['id']>('24h');
+  const [loaded, setLoaded] = useState<{ key: string; series: TelemetrySeries[]; error?: string } | null>(null);
+
+  const range = RANGES.find(r => r.id === rangeId)!;
+  const metricList = metrics?.join(',') ?? '';
+  const key = [assetId, equipmentId ?? '', metricList, rangeId].join('|');
+
+  useEffect(() => {
+    let cancelled = false;
+    const { ms, step } = RANGES.find(r => r.id === rangeId)!;
+    fetchTelemetry({
+      assetId,
+      equipmentId,
+      metrics: metricList ? metricList.split(',') : undefined,
+      from: new Date(Date.now() - ms),
+      step,
+    })
+      .then(series => {
+        if (!cancelled) setLoaded({ key, series: series.filter(s => s.points.length > 0) });
+      })
+      .catch(err => {
+        if (cancelled) return;
+        console.error('[TelemetryTrends] Failed to load:', err);
+        setLoaded({ key, series: [], error: err instanceof Error ? err.message : 'Failed to load telemetry' });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [assetId, equipmentId, metricList, rangeId, key]);
+
+  return (
+    <div className="rounded-lg bg-white/[0.02] border border-white/8 p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-medium text-white flex items-center gap-2">
+          <Activity className="w-4 h-4 text-cyan-400" />
+          Sensor Trends
+        </h3>
+        <div className="flex gap-1">
+          {RANGES.map(r => (
+            <button
+              key={r.id}
+              onClick={() => setRangeId(r.id)}
+              className={`px-2 py-0.5 rounded text-[10px] transition-colors ${
+                r.id === rangeId ? 'bg-white/15 text-white' : 'text-white/40 hover:bg-white/5'
+              }`}
+            >
+              {r.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {!loaded || loaded.key !== key ? (
+        <div className="flex items-center gap-2 text-xs text-white/40">
+          <Loader2 className="h-3 w-3 animate-spin" />
+          Loading telemetry...
+        </div>
+      ) : loaded.error ? (
+        <div className="flex items-center gap-2 text-xs text-rose-400">
+          <AlertTriangle className="h-3 w-3" />
+          {loaded.error}
+        </div>
+      ) : loaded.series.length === 0 ? (
+        <p className="text-xs text-white/30">No sensor readings in the last {range.label}</p>
+      ) : (
+        <div className="grid grid-cols-2 gap-3">
+          {loaded.series.map(s => {
+            const data = s.points.map(p => ({ t: p.timestamp.getTime(), value: p.value }));
+            const latest = s.points[s.points.length - 1];
+            return (
+              <div key={`${s.equipmentId ?? ''}-${s.metric}`} className="p-2 rounded-lg bg-white/[0.02] border border-white/5">
+                <div className="flex items-baseline justify-between mb-1">
+                  <span className="text-[10px] text-white/50 truncate">
+                    {s.equipmentId ? `${equipmentNames[s.equipmentId] ?? s.equipmentId} · ` : ''}{metricLabel(s.metric)}
+                  </span>
+                  <span className="text-xs font-mono text-white">
+                    {latest.value.toFixed(1)} <span className="text-white/40">{s.unit ?? ''}</span>
+                  </span>
+                </div>
+                <div className="h-20">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={data}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="#333" vertical={false} />
+                      <XAxis dataKey="t" type="number" domain={['dataMin', 'dataMax']} hide />
+                      <YAxis domain={['auto', 'auto']} stroke="#666" tick={{ fill: '#888', fontSize: 9 }} width={30} />
+                      <Tooltip
+                        contentStyle={tooltipStyle}
+                        labelStyle={{ color: '#fff' }}
+                        labelFormatter={t => new Date(Number(t)).toLocaleString()}
+                        formatter={value => [`${Number(value).toFixed(2)} ${s.unit ?? ''}`, metricLabel(s.metric)]}
+                      />
+                      <Line type="monotone" dataKey="value" stroke="#06b6d4" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -14,6 +14,7 @@ export { VesselWeatherPanel } from './VesselWeatherPanel';
 export { VesselAlertsPanel } from './VesselAlertsPanel';
 export { LiveVesselsPanel } from './LiveVesselsPanel';
 export { NewsPanel } from './NewsPanel';
+export { TelemetryTrendsPanel } from './TelemetryTrendsPanel';
 
 // Route components
 export { RoutePlanningPanel, RouteCard } from './routes';
@@ -1,6 +1,6 @@
 'use client';
 
-import { useMemo, useState } from 'react';
+import { useMemo, useRef, useState } from 'react';
 import { VesselAssignment, Project } from '@/lib/orchestration/types';
 import { ChevronLeft, ChevronRight, Calendar, AlertTriangle } from 'lucide-react';
 
@@ -9,6 +9,7 @@ interface GanttChartProps {
   projects: Project[];
   vessels: Array<{ id: string; name: string; type: string }>;
   onAssignmentClick?: (assignment: VesselAssignment) => void;
+  onAssignmentMove?: (assignment: VesselAssignment, startDate: Date, endDate: Date) => void; // Bars drag by whole days when set
   startDate?: Date;
   daysToShow?: number;
   // Optimization overlay support
@@ -46,6 +47,7 @@ export function GanttChart({
   projects,
   vessels,
   onAssignmentClick,
+  onAssignmentMove,
   startDate: initialStartDate,
   daysToShow = 60,
   highlightedVessels = [],
@@ -55,6 +57,8 @@ export function GanttChart({
     initialStartDate || new Date(Date.now() - 15 * 24 * 60 * 60 * 1000)
   );
   const [hoveredAssignment, setHoveredAssignment] = useState<string | null>(null);
+  const [drag, setDrag] = useState<{ assignmentId: string; days: number; dayWidth: number } | null>(null);
+  const dragOrigin = useRef<{ x: number; moved: boolean } | null>(null);
 
   const endDate = useMemo(() => {
     return new Date(startDate.getTime() + daysToShow * 24 * 60 * 60 * 1000);
@@ -106,6 +110,45 @@ export function GanttChart({
     return { left: `${left}%`, width: `${width}%` };
   };
 
+  // Dragging a bar moves the assignment by whole days
+  const handleDragStart = (e: React.PointerEvent<HTMLDivElement>, assignment: VesselAssignment) => {
+    if (!onAssignmentMove || e.button !== 0) return;
+    const timeline = e.currentTarget.parentElement;
+    if (!timeline) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragOrigin.current = { x: e.clientX, moved: false };
+    setDrag({ assignmentId: assignment.id, days: 0, dayWidth: timeline.getBoundingClientRect().width / daysToShow });
+  };
+
+  const handleDragMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!drag || !dragOrigin.current) return;
+    const days = Math.round((e.clientX - dragOrigin.current.x) / drag.dayWidth);
+    if (days !== 0) dragOrigin.current.moved = true;
+    if (days !== drag.days) setDrag({ ...drag, days });
+  };
+
+  const handleDragEnd = (assignment: VesselAssignment) => {
+    if (!drag) return;
+    if (drag.days !== 0) {
+      const shift = drag.days * 24 * 60 * 60 * 1000;
+      onAssignmentMove?.(
+        assignment,
+        new Date(new Date(assignment.startDate).getTime() + shift),
+        new Date(new Date(assignment.endDate).getTime() + shift)
+      );
+    }
+    setDrag(null);
+  };
+
+  const handleClick = (assignment: VesselAssignment) => {
+    // A drag ends in a click too; only a click that didn't move selects
+    if (dragOrigin.current?.moved) {
+      dragOrigin.current = null;
+      return;
+    }
+    onAssignmentClick?.(assignment);
+  };
+
   // Navigation
   const scrollLeft = () => {
     setStartDate(new Date(startDate.getTime() - 14 * 24 * 60 * 60 * 1000));
@@ -291,6 +334,7 @@ export function GanttChart({
                   const project = projects.find(p => p.id === assignment.projectId);
                   const isHovered = hoveredAssignment === assignment.id;
                   const isAffected = hasImpact;
+                  const dragDays = drag?.assignmentId === assignment.id ? drag.days : 0;
                   
                   // Get color - use project color or fallback
                   const colorClass = projectColors[assignment.projectId] || fallbackColors[idx % fallbackColors.length];
@@ -298,11 +342,17 @@ export function GanttChart({
                   return (
                     <div
                       key={assignment.id}
-                      className={`absolute top-2 h-10 rounded-lg cursor-pointer transition-all ${colorClass} ${
+                      className={`absolute top-2 h-10 rounded-lg ${onAssignmentMove ? 'cursor-grab touch-none' : 'cursor-pointer'} ${
+                        dragDays !== 0 ? 'cursor-grabbing ring-2 ring-primary-400/60 z-20' : 'transition-all'
+                      } ${colorClass} ${
                         isHovered ? 'ring-2 ring-white/50 z-10' : ''
                       } ${isAffected ? 'ring-1 ring-dashed ring-white/40' : ''}`}
-                      style={style}
-                      onClick={() => onAssignmentClick?.(assignment)}
+                      style={drag && dragDays !== 0 ? { ...style, transform: `translateX(${dragDays * drag.dayWidth}px)` } : style}
+                      onClick={() => handleClick(assignment)}
+                      onPointerDown={(e) => handleDragStart(e, assignment)}
+                      onPointerMove={handleDragMove}
+                      onPointerUp={() => handleDragEnd(assignment)}
+                      onPointerCancel={() => setDrag(null)}
                       onMouseEnter={() => setHoveredAssignment(assignment.id)}
                       onMouseLeave={() => setHoveredAssignment(null)}
                     >
@@ -313,7 +363,12 @@ export function GanttChart({
                       </div>
 
                       {/* Tooltip */}
-                      {isHovered && (
+                      {isHovered && dragDays !== 0 && (
+                        <div className="absolute left-1/2 -translate-x-1/2 bottom-full mb-2 bg-black/95 border border-primary-400/40 rounded-lg px-2 py-1 z-20 text-[11px] text-primary-300 whitespace-nowrap">
+                          {dragDays > 0 ? '+' : ''}{dragDays} day{Math.abs(dragDays) === 1 ? '' : 's'}
+                        </div>
+                      )}
+                      {isHovered && dragDays === 0 && (
                         <div className="absolute left-1/2 -translate-x-1/2 bottom-full mb-2 bg-black/95 border border-white/20 rounded-lg p-3 min-w-[200px] z-20 shadow-xl">
                           <div className="text-sm font-medium text-white mb-1">
                             {assignment.projectName}
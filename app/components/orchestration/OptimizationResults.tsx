@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import {
   FleetOptimizationResult,
   OptimizationChange,
@@ -12,6 +12,7 @@ import {
 import {
   ArrowRight,
   CheckCircle,
+  GitBranch,
   ChevronDown,
   ChevronRight,
   Fuel,
@@ -26,6 +27,7 @@ import {
   Shuffle,
   RefreshCw,
   Merge,
+  Loader2,
   X,
 } from 'lucide-react';
 
@@ -49,9 +51,75 @@ const changeTypeLabels: Record<OptimizationChange['type'], string> = {
   consolidate: 'Consolidation',
 };
 
+const SANDBOX_API = '/api/planning-sandbox';
+
+interface ScenarioOption {
+  id: string;
+  name: string;
+  currentVersion: number;
+}
+
+// Where each accepted change landed, or why it didn't
+type AcceptState = { status: 'saving' } | { status: 'accepted'; version: number } | { status: 'failed'; error: string };
+
+async function sandboxRequest(body?: Record<string, unknown>) {
+  const response = await fetch(SANDBOX_API, body && {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  const data = await response.json();
+  if (!data.success) throw new Error(data.error);
+  return data;
+}
+
+const costLines: Array<{ key: Exclude<keyof OptimizationChange['cost']['before'], 'totalUSD'>; label: string }> = [
+  { key: 'fuelUSD', label: 'Fuel' },
+  { key: 'vesselDaysUSD', label: 'Vessel days' },
+  { key: 'towageUSD', label: 'Towage' },
+  { key: 'portFeesUSD', label: 'Port fees' },
+  { key: 'crewChangeUSD', label: 'Crew change' },
+];
+
 export function OptimizationResults({ result, onApply, onDismiss }: OptimizationResultsProps) {
   const [expandedChanges, setExpandedChanges] = useState<Set<number>>(new Set([0]));
   const [showDetails, setShowDetails] = useState(true);
+  const [scenarios, setScenarios] = useState<ScenarioOption[]>([]);
+  const [scenarioId, setScenarioId] = useState('');
+  const [accepted, setAccepted] = useState<Record<number, AcceptState>>({});
+
+  // Accepted suggestions become versioned change sets in a planning scenario
+  useEffect(() => {
+    let cancelled = false;
+    sandboxRequest()
+      .then(data => {
+        if (cancelled) return;
+        setScenarios(data.scenarios);
+        setScenarioId(id => id || data.live.scenarioId);
+      })
+      .catch(err => console.error('[OptimizationResults] Failed to load scenarios:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const acceptChange = async (index: number) => {
+    setAccepted(prev => ({ ...prev, [index]: { status: 'saving' } }));
+    try {
+      const data = await sandboxRequest({
+        action: 'edit',
+        scenarioId,
+        optimizationChange: changes[index],
+      });
+      setAccepted(prev => ({ ...prev, [index]: { status: 'accepted', version: data.scenario.currentVersion } }));
+      setScenarios(prev => prev.map(s => (s.id === scenarioId ? { ...s, currentVersion: data.scenario.currentVersion } : s)));
+    } catch (err) {
+      setAccepted(prev => ({
+        ...prev,
+        [index]: { status: 'failed', error: err instanceof Error ? err.message : 'Failed to accept change' },
+      }));
+    }
+  };
 
   const toggleChange = (index: number) => {
     const newExpanded = new Set(expandedChanges);
@@ -93,6 +161,21 @@ export function OptimizationResults({ result, onApply, onDismiss }: Optimization
             </div>
           </div>
           <div className="flex items-center gap-2">
+            {scenarios.length > 0 && (
+              <label className="flex items-center gap-1.5 text-xs text-white/40">
+                <GitBranch className="w-3.5 h-3.5" />
+                <select
+                  value={scenarioId}
+                  onChange={(e) => setScenarioId(e.target.value)}
+                  className="px-2 py-1 rounded-lg bg-white/5 border border-white/10 text-xs text-white"
+                  title="Scenario that accepted changes are added to"
+                >
+                  {scenarios.map(s => (
+                    <option key={s.id} value={s.id}>{s.name} (v{s.currentVersion})</option>
+                  ))}
+                </select>
+              </label>
+            )}
             {onDismiss && (
               <button
                 onClick={onDismiss}
@@ -179,6 +262,8 @@ export function OptimizationResults({ result, onApply, onDismiss }: Optimization
                 index={index}
                 isExpanded={expandedChanges.has(index)}
                 onToggle={() => toggleChange(index)}
+                accept={accepted[index]}
+                onAccept={scenarioId ? () => acceptChange(index) : undefined}
               />
             ))
           )}
@@ -266,9 +351,11 @@ interface ChangeCardProps {
   index: number;
   isExpanded: boolean;
   onToggle: () => void;
+  accept?: AcceptState;
+  onAccept?: () => void;
 }
 
-function ChangeCard({ change, index, isExpanded, onToggle }: ChangeCardProps) {
+function ChangeCard({ change, index, isExpanded, onToggle, accept, onAccept }: ChangeCardProps) {
   const Icon = changeTypeIcons[change.type];
   const typeLabel = changeTypeLabels[change.type];
 
@@ -383,10 +470,61 @@ function ChangeCard({ change, index, isExpanded, onToggle }: ChangeCardProps) {
             </div>
           </div>
 
-          {/* Affected Vessels */}
+          {/* Cost Breakdown */}
+          <div className="p-3 rounded-lg bg-white/[0.02] border border-white/5">
+            <div className="flex items-center gap-2 mb-2">
+              <DollarSign className="w-3.5 h-3.5 text-white/40" />
+              <span className="text-[10px] font-medium text-white/40 uppercase tracking-wide">Cost breakdown</span>
+            </div>
+            <div className="grid grid-cols-3 gap-y-1 text-[11px]">
+              <span />
+              <span className="text-right text-rose-400/60">Before</span>
+              <span className="text-right text-emerald-400/80">After</span>
+              {costLines.map(({ key, label }) => (
+                <CostLine
+                  key={key}
+                  label={label}
+                  before={change.cost.before[key]}
+                  after={change.cost.after[key]}
+                />
+              ))}
+              <span className="pt-1 mt-1 border-t border-white/5 text-white/60 font-medium">Total</span>
+              <span className="pt-1 mt-1 border-t border-white/5 text-right text-white/60 font-medium">{formatCurrency(change.cost.before.totalUSD)}</span>
+              <span className="pt-1 mt-1 border-t border-white/5 text-right text-emerald-400 font-medium">{formatCurrency(change.cost.after.totalUSD)}</span>
+            </div>
+          </div>
+
+          {/* Affected Vessels & Accept */}
           <div className="flex items-center gap-2 text-xs text-white/40">
             <Anchor className="w-3 h-3" />
             <span>Affects {change.affectedVessels.length} vessel(s)</span>
+            {/* Only reassignments change the schedule; resequencing is not recorded in it */}
+            {change.type === 'reassign' && onAccept && (
+              <div className="ml-auto flex items-center gap-2">
+                {accept?.status === 'accepted' && (
+                  <span className="flex items-center gap-1 text-emerald-400">
+                    <CheckCircle className="w-3 h-3" />
+                    Saved as v{accept.version}
+                  </span>
+                )}
+                {accept?.status === 'failed' && (
+                  <span className="flex items-center gap-1 text-amber-400">
+                    <AlertTriangle className="w-3 h-3" />
+                    {accept.error}
+                  </span>
+                )}
+                <button
+                  onClick={onAccept}
+                  disabled={accept?.status === 'saving' || accept?.status === 'accepted'}
+                  className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-cyan-500/15 hover:bg-cyan-500/25 disabled:opacity-40 text-cyan-300 transition-colors"
+                >
+                  {accept?.status === 'saving'
+                    ? <Loader2 className="w-3 h-3 animate-spin" />
+                    : <GitBranch className="w-3 h-3" />}
+                  Accept into scenario
+                </button>
+              </div>
+            )}
           </div>
         </div>
       )}
@@ -394,3 +532,14 @@ function ChangeCard({ change, index, isExpanded, onToggle }: ChangeCardProps) {
   );
 }
 
+
+function CostLine({ label, before, after }: { label: string; before: number; after: number }) {
+  if (before === 0 && after === 0) return null;
+  return (
+    <>
+      <span className="text-white/40">{label}</span>
+      <span className="text-right text-white/50">{formatCurrency(before)}</span>
+      <span className="text-right text-white/70">{formatCurrency(after)}</span>
+    </>
+  );
+}
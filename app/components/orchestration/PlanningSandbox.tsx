@@ -0,0 +1,266 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { AlertTriangle, GitCompare, Loader2, Plus, Redo2, Undo2, Upload } from 'lucide-react';
+import type {
+  Project,
+  PublishedSchedule,
+  ScheduleDiff,
+  ScheduleVersion,
+  VesselAssignment,
+} from '@/lib/orchestration/types';
+import { GanttChart } from './GanttChart';
+
+interface PlanningSandboxProps {
+  projects: Project[];
+  vessels: Array<{ id: string; name: string; type: string }>;
+}
+
+interface ScenarioSummary {
+  id: string;
+  name: string;
+  baseVersionId: string;
+  currentVersionId: string;
+  currentVersion: number;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+interface SandboxState {
+  live: PublishedSchedule;
+  scenarios: ScenarioSummary[];
+  scenario: ScenarioSummary & { versions: ScheduleVersion[] };
+  diff: ScheduleDiff;
+}
+
+const API = '/api/planning-sandbox';
+
+function withDates(assignments: VesselAssignment[]): VesselAssignment[] {
+  return assignments.map(a => ({ ...a, startDate: new Date(a.startDate), endDate: new Date(a.endDate) }));
+}
+
+async function request(url: string, body?: Record<string, unknown>) {
+  const response = await fetch(url, body && {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  const data = await response.json();
+  if (!data.success) throw new Error(data.error);
+  return data;
+}
+
+/**
+ * Draft schedule scenarios on the Gantt chart: drag bars to edit, undo and
+ * redo, compare the draft with the live schedule and publish it
+ */
+export function PlanningSandbox({ projects, vessels }: PlanningSandboxProps) {
+  const [state, setState] = useState<SandboxState | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [revision, setRevision] = useState(0);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [newName, setNewName] = useState('');
+  const [showDiff, setShowDiff] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const overview = await request(API);
+      const scenarioId = selectedId ?? overview.live.scenarioId;
+      const { scenario } = await request(`${API}?scenarioId=${encodeURIComponent(scenarioId)}`);
+      const { diff } = await request(`${API}?from=${overview.live.versionId}&to=${scenario.currentVersionId}`);
+      if (!cancelled) setState({ live: overview.live, scenarios: overview.scenarios, scenario, diff });
+    })().catch(err => {
+      if (cancelled) return;
+      console.error('[PlanningSandbox] Failed to load:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load planning sandbox');
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedId, revision]);
+
+  const act = async (body: Record<string, unknown>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const data = await request(API, body);
+      if (body.action === 'create') setSelectedId(data.scenario.id);
+      setRevision(r => r + 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Sandbox action failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!state) {
+    return error ? (
+      <div className="flex items-center gap-2 text-xs text-rose-400">
+        <AlertTriangle className="h-3 w-3" />
+        {error}
+      </div>
+    ) : (
+      <div className="flex items-center gap-2 text-xs text-white/40">
+        <Loader2 className="h-3 w-3 animate-spin" />
+        Loading scenarios...
+      </div>
+    );
+  }
+
+  const { live, scenarios, scenario, diff } = state;
+  const current = scenario.versions.find(v => v.id === scenario.currentVersionId)!;
+  const history = scenario.versions.filter(v => v.changeSet);
+  const isLive = current.id === live.versionId;
+  const changeCount = diff.added.length + diff.removed.length + diff.changed.length;
+
+  return (
+    <div className="space-y-3">
+      {/* Scenario Controls */}
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={scenario.id}
+          onChange={(e) => setSelectedId(e.target.value)}
+          className="px-2 py-1.5 rounded-lg bg-white/5 border border-white/10 text-sm text-white"
+        >
+          {scenarios.map(s => (
+            <option key={s.id} value={s.id}>
+              {s.name} (v{s.currentVersion}){s.id === live.scenarioId ? ' - live' : ''}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={() => act({ action: 'undo', scenarioId: scenario.id })}
+          disabled={busy || !scenario.canUndo}
+          className="p-1.5 rounded-lg bg-white/5 hover:bg-white/10 disabled:opacity-30 transition-colors"
+          title="Undo"
+        >
+          <Undo2 className="w-4 h-4 text-white/60" />
+        </button>
+        <button
+          onClick={() => act({ action: 'redo', scenarioId: scenario.id })}
+          disabled={busy || !scenario.canRedo}
+          className="p-1.5 rounded-lg bg-white/5 hover:bg-white/10 disabled:opacity-30 transition-colors"
+          title="Redo"
+        >
+          <Redo2 className="w-4 h-4 text-white/60" />
+        </button>
+        <button
+          onClick={() => setShowDiff(!showDiff)}
+          className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm transition-colors ${
+            showDiff ? 'bg-white/15 text-white' : 'bg-white/5 hover:bg-white/10 text-white/60'
+          }`}
+        >
+          <GitCompare className="w-3.5 h-3.5" />
+          {changeCount} change{changeCount === 1 ? '' : 's'} vs live
+        </button>
+        <button
+          onClick={() => act({ action: 'publish', scenarioId: scenario.id })}
+          disabled={busy || isLive}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-emerald-500/20 hover:bg-emerald-500/30 disabled:opacity-30 text-sm text-emerald-300 transition-colors"
+        >
+          <Upload className="w-3.5 h-3.5" />
+          {isLive ? 'Live' : `Publish v${current.number}`}
+        </button>
+
+        <form
+          className="flex items-center gap-1 ml-auto"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (!newName.trim()) return;
+            act({ action: 'create', name: newName, fromVersionId: current.id });
+            setNewName('');
+          }}
+        >
+          <input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="New scenario, e.g. Storm contingency"
+            className="w-56 px-2 py-1.5 rounded-lg bg-white/5 border border-white/10 text-sm text-white placeholder:text-white/30"
+          />
+          <button
+            type="submit"
+            disabled={busy || !newName.trim()}
+            className="p-1.5 rounded-lg bg-white/5 hover:bg-white/10 disabled:opacity-30 transition-colors"
+            title="Branch a new scenario from this version"
+          >
+            <Plus className="w-4 h-4 text-white/60" />
+          </button>
+        </form>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 text-xs text-rose-400">
+          <AlertTriangle className="h-3 w-3" />
+          {error}
+        </div>
+      )}
+
+      {/* Draft Schedule */}
+      <div className="h-[420px]">
+        <GanttChart
+          assignments={withDates(current.assignments)}
+          projects={projects}
+          vessels={vessels}
+          highlightedVessels={showDiff ? diff.changed.map(c => c.after.vesselId) : []}
+          onAssignmentMove={(assignment, startDate, endDate) => {
+            const days = Math.round((startDate.getTime() - new Date(assignment.startDate).getTime()) / (24 * 60 * 60 * 1000));
+            act({
+              action: 'edit',
+              scenarioId: scenario.id,
+              source: 'gantt',
+              label: `Move ${assignment.projectName} on ${assignment.vesselName} ${days > 0 ? '+' : ''}${days} days`,
+              edits: [{ kind: 'move', assignmentId: assignment.id, startDate, endDate }],
+            });
+          }}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        {/* History */}
+        <div className="p-3 rounded-lg bg-white/[0.02] border border-white/5">
+          <div className="text-[10px] font-medium text-white/40 uppercase tracking-wide mb-2">History</div>
+          {history.length === 0 && <div className="text-xs text-white/30">No edits yet</div>}
+          <ol className="space-y-1">
+            {history.map(v => (
+              <li
+                key={v.id}
+                className={`flex items-center justify-between text-xs ${v.number > current.number ? 'text-white/25 line-through' : 'text-white/60'}`}
+              >
+                <span>v{v.number} {v.changeSet!.label}</span>
+                <span className="text-white/30">{v.changeSet!.source}</span>
+              </li>
+            ))}
+          </ol>
+        </div>
+
+        {/* Diff against live */}
+        {showDiff && (
+          <div className="p-3 rounded-lg bg-white/[0.02] border border-white/5">
+            <div className="text-[10px] font-medium text-white/40 uppercase tracking-wide mb-2">
+              Against live ({live.scenarioName})
+            </div>
+            {changeCount === 0 && <div className="text-xs text-white/30">Same as the live schedule</div>}
+            <ul className="space-y-1 text-xs">
+              {diff.changed.map(c => (
+                <li key={c.assignmentId} className="text-white/60">
+                  {c.after.projectName}:{' '}
+                  {c.fields.includes('vessel') && `${c.before.vesselName} → ${c.after.vesselName} `}
+                  {c.fields.includes('dates') && `${c.shiftDays > 0 ? '+' : ''}${c.shiftDays}d `}
+                  {c.fields.includes('status') && `${c.before.status} → ${c.after.status}`}
+                </li>
+              ))}
+              {diff.added.map(a => (
+                <li key={a.id} className="text-emerald-400/80">+ {a.projectName} on {a.vesselName}</li>
+              ))}
+              {diff.removed.map(a => (
+                <li key={a.id} className="text-rose-400/80">- {a.projectName} on {a.vesselName}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,202 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { AlertTriangle, CalendarClock, DollarSign, Loader2 } from 'lucide-react';
+import type { ProjectRiskAnalysis } from '@/lib/orchestration/types';
+import { formatCurrency } from '@/lib/orchestration/fleet-optimizer';
+
+interface ProjectRiskPanelProps {
+  projectId: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const tooltipStyle = {
+  backgroundColor: '#1a1a1a',
+  border: '1px solid #333',
+  borderRadius: '8px',
+  fontSize: 11,
+};
+
+const driverColors: Record<ProjectRiskAnalysis['drivers'][number]['kind'], string> = {
+  weather: '#06b6d4',
+  productivity: '#a855f7',
+  transit: '#10b981',
+  equipment: '#f59e0b',
+};
+
+function formatDate(value: Date | string): string {
+  return new Date(value).toLocaleDateString('en-US', { day: 'numeric', month: 'short', year: 'numeric' });
+}
+
+/**
+ * Monte Carlo completion and cost ranges for one project, with the
+ * completion distribution and a tornado of the biggest schedule drivers
+ */
+export function ProjectRiskPanel({ projectId }: ProjectRiskPanelProps) {
+  const [analysis, setAnalysis] = useState<ProjectRiskAnalysis | null>(null);
+  const [error, setError] = useState<{ projectId: string; message: string } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/project-risk?projectId=${encodeURIComponent(projectId)}`)
+      .then(response => response.json())
+      .then(data => {
+        if (cancelled) return;
+        if (!data.success) throw new Error(data.error);
+        setAnalysis(data.analysis);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        console.error('[ProjectRisk] Failed to load analysis:', err);
+        setError({ projectId, message: err instanceof Error ? err.message : 'Failed to load risk analysis' });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId]);
+
+  if (error?.projectId === projectId) {
+    return (
+      <div className="flex items-center gap-2 text-xs text-rose-400">
+        <AlertTriangle className="h-3 w-3" />
+        {error.message}
+      </div>
+    );
+  }
+
+  if (!analysis || analysis.projectId !== projectId) {
+    return (
+      <div className="flex items-center gap-2 text-xs text-white/40">
+        <Loader2 className="h-3 w-3 animate-spin" />
+        Sampling schedule outcomes...
+      </div>
+    );
+  }
+
+  const asOf = new Date(analysis.asOf).getTime();
+  const daysFromNow = (value: Date | string) => Math.round((new Date(value).getTime() - asOf) / DAY_MS);
+  const distribution = analysis.completion.histogram.map(bin => ({
+    day: Math.round((bin.from + bin.to) / 2),
+    label: formatDate(new Date(asOf + ((bin.from + bin.to) / 2) * DAY_MS)),
+    runs: bin.count,
+  }));
+  const planned = daysFromNow(analysis.plannedEnd);
+  const p50 = daysFromNow(analysis.completion.p50);
+  const p80 = daysFromNow(analysis.completion.p80);
+  const p90 = daysFromNow(analysis.completion.p90);
+
+  const tornado = analysis.drivers.slice(0, 6).map(driver => ({
+    label: driver.label,
+    kind: driver.kind,
+    range: [driver.delayDays.low, driver.delayDays.high] as [number, number],
+  }));
+
+  return (
+    <div className="space-y-4">
+      {/* Percentiles */}
+      <div className="grid grid-cols-3 gap-3">
+        {([
+          ['P50', analysis.completion.p50, analysis.delayDays.p50, analysis.cost.p50],
+          ['P80', analysis.completion.p80, analysis.delayDays.p80, analysis.cost.p80],
+          ['P90', analysis.completion.p90, analysis.delayDays.p90, analysis.cost.p90],
+        ] as const).map(([label, date, delay, cost]) => (
+          <div key={label} className="p-2 rounded-lg bg-white/5">
+            <div className="text-[10px] text-white/40 uppercase tracking-wide">{label}</div>
+            <div className="flex items-center gap-1 text-sm font-medium">
+              <CalendarClock className="h-3 w-3 text-cyan-400" />
+              {formatDate(date)}
+            </div>
+            <div className={`text-xs ${delay > 0 ? 'text-amber-400' : 'text-emerald-400'}`}>
+              {delay > 0 ? `+${delay}` : delay} days vs plan
+            </div>
+            <div className="flex items-center gap-1 text-xs text-white/60">
+              <DollarSign className="h-3 w-3" />
+              {formatCurrency(cost)}
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="flex justify-between text-[11px] text-white/40">
+        <span>On time: {Math.round(analysis.onTimeProbability * 100)}%</span>
+        <span>Within budget ({formatCurrency(analysis.cost.budget)}): {Math.round(analysis.withinBudgetProbability * 100)}%</span>
+        <span>{analysis.iterations.toLocaleString()} runs</span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        {/* Completion distribution */}
+        <div>
+          <div className="text-xs text-white/40 mb-1">Completion date distribution</div>
+          <div className="h-40">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={distribution} barCategoryGap={1}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#333" vertical={false} />
+                <XAxis
+                  dataKey="day"
+                  type="number"
+                  domain={['dataMin', 'dataMax']}
+                  stroke="#666"
+                  tick={{ fill: '#888', fontSize: 9 }}
+                  tickFormatter={day => `${day}d`}
+                />
+                <YAxis stroke="#666" tick={{ fill: '#888', fontSize: 9 }} width={28} />
+                <Tooltip
+                  contentStyle={tooltipStyle}
+                  labelStyle={{ color: '#fff' }}
+                  labelFormatter={(_, payload) => payload?.[0]?.payload.label ?? ''}
+                />
+                <Bar dataKey="runs" fill="#a855f7" name="Runs" />
+                <ReferenceLine x={planned} stroke="#10b981" strokeDasharray="4 2" label={{ value: 'Plan', fill: '#10b981', fontSize: 9 }} />
+                <ReferenceLine x={p50} stroke="#fff" label={{ value: 'P50', fill: '#fff', fontSize: 9 }} />
+                <ReferenceLine x={p80} stroke="#f59e0b" label={{ value: 'P80', fill: '#f59e0b', fontSize: 9 }} />
+                <ReferenceLine x={p90} stroke="#ef4444" label={{ value: 'P90', fill: '#ef4444', fontSize: 9 }} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+
+        {/* Tornado */}
+        <div>
+          <div className="text-xs text-white/40 mb-1">Delay drivers (days vs plan, P10-P90 of driver)</div>
+          <div className="h-40">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={tornado} layout="vertical" barCategoryGap={4}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#333" horizontal={false} />
+                <XAxis type="number" stroke="#666" tick={{ fill: '#888', fontSize: 9 }} domain={['auto', 'auto']} />
+                <YAxis
+                  type="category"
+                  dataKey="label"
+                  stroke="#666"
+                  tick={{ fill: '#888', fontSize: 9 }}
+                  width={110}
+                />
+                <Tooltip
+                  contentStyle={tooltipStyle}
+                  labelStyle={{ color: '#fff' }}
+                  formatter={value => Array.isArray(value) ? `${value[0]} to ${value[1]} days` : String(value)}
+                />
+                <ReferenceLine x={analysis.delayDays.p50} stroke="#fff" strokeDasharray="3 3" />
+                <Bar dataKey="range" name="Delay">
+                  {tornado.map(entry => (
+                    <Cell key={entry.label} fill={driverColors[entry.kind]} />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -43,6 +43,7 @@ interface Waypoint {
   name: string;
   lat: number;
   lng: number;
+  deckCargoTonnes?: number; // Fleet split: cargo to deliver at this stop
 }
 
 interface RoutePlanningPanelProps {
@@ -83,10 +84,14 @@ export function RoutePlanningPanel({
   );
   const [intermediateStops, setIntermediateStops] = useState<Waypoint[]>([]);
   const [returnToOrigin, setReturnToOrigin] = useState(false);
+  const [splitAcrossFleet, setSplitAcrossFleet] = useState(false);
 
   // Optimization mode
   const [useSmartMode, setUseSmartMode] = useState(true);
   const [showAdvancedOptions, setShowAdvancedOptions] = useState(false);
+  
+  // Path strategy used by the shared RoutePlanner
+  const [strategy, setStrategy] = useState<'sea-route' | 'network' | 'weather' | 'direct'>('sea-route');
 
   // Smart Priorities - all optimized by default
   const priorities = {
@@ -121,7 +126,7 @@ export function RoutePlanningPanel({
   const [isLoading, setIsLoading] = useState(false);
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const [result, setResult] = useState<RouteOptimizationResult | any>(null);
-  const [resultMode, setResultMode] = useState<'single' | 'multi-stop' | 'smart' | null>(null);
+  const [resultMode, setResultMode] = useState<'single' | 'multi-stop' | 'smart' | 'fleet' | null>(null);
   const [error, setError] = useState<string | null>(null);
 
   // Update map markers when origin/destination changes
@@ -217,6 +222,37 @@ export function RoutePlanningPanel({
 
     try {
       const isMultiStop = intermediateStops.length > 0;
+
+      if (isMultiStop && splitAcrossFleet) {
+        // Fleet split - assign the stops across the supply fleet
+        const response = await fetch('/api/fleet-routing', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            depot: { lat: origin.lat, lng: origin.lng, name: origin.name },
+            stops: [...intermediateStops, destination].map(s => ({
+              id: s.id,
+              name: s.name,
+              lat: s.lat,
+              lng: s.lng,
+              deckCargoTonnes: s.deckCargoTonnes || 0,
+              serviceTimeHours: 2,
+            })),
+            returnToDepot: returnToOrigin,
+            strategy,
+            ...(departureTime && { departureTime: new Date(departureTime).toISOString() }),
+          }),
+        });
+
+        const data = await response.json();
+        if (!data.success) {
+          throw new Error(data.error || 'Fleet routing failed');
+        }
+
+        setResult(data.result);
+        setResultMode('fleet');
+        return;
+      }
       
       // Build request body based on mode
       let requestBody;
@@ -233,11 +269,13 @@ export function RoutePlanningPanel({
                   { name: destination.name, lat: destination.lat, lng: destination.lng },
                 ],
                 returnToOrigin,
+                strategy,
         };
       } else if (useSmartMode) {
         // Smart optimization mode
         requestBody = {
           mode: 'smart',
+          strategy,
                 vesselId,
                 vesselName,
                 vesselType,
@@ -267,6 +305,7 @@ export function RoutePlanningPanel({
       } else {
         // Basic optimization mode
         requestBody = {
+          strategy,
           vesselId,
           vesselName,
           vesselType,
@@ -392,7 +431,7 @@ export function RoutePlanningPanel({
     } finally {
       setIsLoading(false);
     }
-  }, [origin, destination, intermediateStops, returnToOrigin, priorities, vesselId, vesselName, vesselType, onRouteGenerated, onWaypointsChange, useSmartMode, departureTime, arrivalWindow, portConditions, preferences]);
+  }, [origin, destination, intermediateStops, returnToOrigin, splitAcrossFleet, priorities, vesselId, vesselName, vesselType, onRouteGenerated, onWaypointsChange, useSmartMode, strategy, departureTime, arrivalWindow, portConditions, preferences]);
 
   const addIntermediateStop = () => {
     const newStop: Waypoint = {
@@ -418,6 +457,7 @@ export function RoutePlanningPanel({
     setOrigin(null);
     setDestination(null);
     setIntermediateStops([]);
+    setSplitAcrossFleet(false);
     setResult(null);
     setResultMode(null);
     setError(null);
@@ -502,6 +542,17 @@ export function RoutePlanningPanel({
                     </option>
                   ))}
                 </select>
+                {splitAcrossFleet && (
+                  <input
+                    type="number"
+                    min="0"
+                    step="50"
+                    value={stop.deckCargoTonnes ?? 0}
+                    onChange={(e) => updateIntermediateStop(stop.id, { deckCargoTonnes: parseFloat(e.target.value) || 0 })}
+                    className="w-20 px-2 py-2 bg-white/5 border border-white/10 rounded-lg text-xs text-white focus:outline-none focus:border-primary-500"
+                    title="Deck cargo (t)"
+                  />
+                )}
                 <button
                   onClick={() => removeIntermediateStop(stop.id)}
                   className="p-2 rounded-lg hover:bg-rose-500/20 text-white/50 hover:text-rose-400 transition-colors"
@@ -544,6 +595,17 @@ export function RoutePlanningPanel({
                 </option>
               ))}
             </select>
+            {splitAcrossFleet && intermediateStops.length > 0 && destination && (
+              <input
+                type="number"
+                min="0"
+                step="50"
+                value={destination.deckCargoTonnes ?? 0}
+                onChange={(e) => setDestination({ ...destination, deckCargoTonnes: parseFloat(e.target.value) || 0 })}
+                className="w-20 px-2 py-2 bg-white/5 border border-white/10 rounded-lg text-xs text-white focus:outline-none focus:border-primary-500"
+                title="Deck cargo (t)"
+              />
+            )}
             <div className="w-10 h-10 rounded-lg bg-rose-500/20 border border-rose-500/30 flex items-center justify-center">
               <Anchor className="w-4 h-4 text-rose-400" />
             </div>
@@ -563,6 +625,35 @@ export function RoutePlanningPanel({
           </label>
         )}
 
+        {/* Fleet Split Toggle */}
+        {intermediateStops.length > 0 && (
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={splitAcrossFleet}
+              onChange={(e) => setSplitAcrossFleet(e.target.checked)}
+              className="w-4 h-4 rounded border-white/20 bg-white/5 text-primary-500 focus:ring-primary-500"
+            />
+            <span className="text-xs text-white/70">Split across supply fleet</span>
+            {splitAcrossFleet && <span className="text-[10px] text-white/40">(deck cargo t per stop)</span>}
+          </label>
+        )}
+
+        {/* Routing Strategy */}
+        <div>
+          <label className="block text-xs text-white/50 mb-1.5">Routing Strategy</label>
+          <select
+            value={strategy}
+            onChange={(e) => setStrategy(e.target.value as typeof strategy)}
+            className="w-full px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-sm text-white focus:outline-none focus:border-primary-500"
+          >
+            <option value="sea-route">Sea route (Datalastic + network)</option>
+            <option value="network">Shipping-lane network only</option>
+            <option value="weather">Weather-aware</option>
+            <option value="direct">Direct (great circle)</option>
+          </select>
+        </div>
+
         {/* Smart Mode Toggle */}
         {!compact && intermediateStops.length === 0 && (
           <div className="pt-2">
@@ -1170,6 +1261,100 @@ export function RoutePlanningPanel({
             )}
           </div>
         )}
+
+        {/* Results - Fleet Split */}
+        {result && resultMode === 'fleet' && result.runs && (
+          <div className="space-y-3 pt-2">
+            <div className="flex items-center gap-2 text-emerald-400">
+              <Ship className="w-4 h-4" />
+              <span className="text-xs font-medium">
+                Split across {result.totals.vesselsUsed} vessel{result.totals.vesselsUsed === 1 ? '' : 's'}
+              </span>
+            </div>
+
+            {/* Single Vessel vs Fleet */}
+            <div className="rounded-lg border border-white/10 overflow-hidden">
+              <div className="grid grid-cols-3 text-[10px] text-white/50 bg-white/5 px-3 py-1.5">
+                <span />
+                <span className="text-right">{result.baseline.vesselName} alone</span>
+                <span className="text-right">Fleet</span>
+              </div>
+              {[
+                { label: 'Distance', baseline: `${result.baseline.distanceNm.toFixed(1)} nm`, fleet: `${result.totals.distanceNm.toFixed(1)} nm` },
+                { label: 'Fuel', baseline: `${Math.round(result.baseline.fuelLiters)} L`, fleet: `${Math.round(result.totals.fuelLiters)} L` },
+                { label: 'Late', baseline: formatDuration(result.baseline.latenessHours), fleet: formatDuration(result.totals.latenessHours) },
+                { label: 'Cost', baseline: `$${Math.round(result.baseline.cost).toLocaleString()}`, fleet: `$${Math.round(result.totals.cost).toLocaleString()}` },
+              ].map(row => (
+                <div key={row.label} className="grid grid-cols-3 text-xs px-3 py-1.5 border-t border-white/5">
+                  <span className="text-white/50">{row.label}</span>
+                  <span className="text-right text-white/70">{row.baseline}</span>
+                  <span className="text-right text-white">{row.fleet}</span>
+                </div>
+              ))}
+            </div>
+
+            {result.baseline.capacityExceeded && (
+              <div className="p-2 rounded-lg bg-amber-500/10 border border-amber-500/30 flex items-start gap-2">
+                <AlertTriangle className="w-3 h-3 text-amber-400 mt-0.5 flex-shrink-0" />
+                <p className="text-[10px] text-white/60">
+                  {result.baseline.vesselName} cannot carry every delivery in one trip - the fleet split is required
+                </p>
+              </div>
+            )}
+
+            {!result.baseline.capacityExceeded && result.savings.cost > 0 && (
+              <div className="p-2 rounded-lg bg-emerald-500/10 border border-emerald-500/30 flex items-center gap-2">
+                <TrendingDown className="w-3 h-3 text-emerald-400" />
+                <span className="text-[10px] text-white/60">
+                  {result.savings.percentImprovement.toFixed(1)}% cheaper than a single vessel
+                </span>
+              </div>
+            )}
+
+            {/* Vessel Runs */}
+            {result.runs.map((run: {
+              vesselId: string;
+              vesselName: string;
+              fuelLiters: number;
+              durationHours: number;
+              latenessHours: number;
+              utilisation: { deckCargoTonnes: number };
+              visits: Array<{ stop: { id: string; name: string }; latenessHours: number }>;
+            }) => (
+              <div key={run.vesselId} className="p-3 rounded-lg bg-white/5 border border-white/10 space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="text-xs font-medium text-white">{run.vesselName}</span>
+                  <span className="text-[10px] text-white/50">
+                    {Math.round(run.fuelLiters)} L · {formatDuration(run.durationHours)} · deck {run.utilisation.deckCargoTonnes}%
+                  </span>
+                </div>
+                <div className="flex items-center gap-1 flex-wrap text-[10px]">
+                  {run.visits.map((visit, i) => (
+                    <div key={visit.stop.id} className="flex items-center gap-1">
+                      {i > 0 && <ArrowRight className="w-3 h-3 text-white/30" />}
+                      <span className={`px-1.5 py-0.5 rounded ${
+                        visit.latenessHours > 0 ? 'bg-rose-500/20 text-rose-400' : 'bg-white/10 text-white/70'
+                      }`}>
+                        {visit.stop.name}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+
+            {/* Unassigned Stops */}
+            {result.unassigned.length > 0 && (
+              <div className="p-2 rounded-lg bg-rose-500/10 border border-rose-500/30 space-y-1">
+                {result.unassigned.map((u: { stop: { id: string; name: string }; reason: string }) => (
+                  <p key={u.stop.id} className="text-[10px] text-rose-400">
+                    {u.stop.name}: {u.reason}
+                  </p>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
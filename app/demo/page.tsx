@@ -19,6 +19,7 @@ import {
   Activity,
   Sparkles,
   Cpu,
+  Radio,
 } from 'lucide-react';
 import type { LucideIcon } from 'lucide-react';
 import { 
@@ -27,6 +28,8 @@ import {
   allScenarios,
   engineFailureScenario,
 } from '@/lib/demo/scenarios';
+import type { ScenarioStatus } from '@/lib/simulation/scenario';
+import { useFleetStream } from '@/app/hooks/useFleetStream';
 
 const phaseColors: Record<string, string> = {
   detection: 'from-blue-500 to-cyan-500',
@@ -52,8 +55,36 @@ export default function DemoPage() {
   const [currentStepIndex, setCurrentStepIndex] = useState(-1);
   const [completedSteps, setCompletedSteps] = useState<Set<string>>(new Set());
   const [elapsedTime, setElapsedTime] = useState(0);
+  const [engineScenario, setEngineScenario] = useState<ScenarioStatus | null>(null);
+  const [engineError, setEngineError] = useState<string | null>(null);
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
   const stepTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const stream = useFleetStream();
+
+  // Drive the real simulation with the demo's scripted scenario
+  const startEngineScenario = useCallback(async (scenarioId: string) => {
+    setEngineError(null);
+    try {
+      const response = await fetch('/api/simulation/scenario', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: scenarioId, reset: true }),
+      });
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error);
+      setEngineScenario(result.scenario);
+    } catch (error) {
+      console.error('[Demo] Failed to start simulation scenario:', error);
+      setEngineError(error instanceof Error ? error.message : 'Simulation unavailable');
+    }
+  }, []);
+
+  const stopEngineScenario = useCallback(() => {
+    setEngineScenario(null);
+    fetch('/api/simulation/scenario', { method: 'DELETE' }).catch(error => {
+      console.error('[Demo] Failed to stop simulation scenario:', error);
+    });
+  }, []);
 
   const runDemo = useCallback(() => {
     if (isRunning) return;
@@ -62,12 +93,30 @@ export default function DemoPage() {
     setCurrentStepIndex(0);
     setCompletedSteps(new Set());
     setElapsedTime(0);
+    if (selectedScenario.simulationScenarioId) {
+      startEngineScenario(selectedScenario.simulationScenarioId);
+    }
 
     // Start elapsed time counter
     intervalRef.current = setInterval(() => {
       setElapsedTime(prev => prev + 100);
     }, 100);
-  }, [isRunning]);
+  }, [isRunning, selectedScenario, startEngineScenario]);
+
+  // Follow the engine scenario's event timeline while it runs
+  const engineScenarioId = engineScenario?.id;
+  useEffect(() => {
+    if (!engineScenarioId) return;
+    const poll = setInterval(async () => {
+      try {
+        const result = await fetch('/api/simulation/scenario').then(r => r.json());
+        if (result.success) setEngineScenario(result.active);
+      } catch (error) {
+        console.error('[Demo] Failed to fetch scenario status:', error);
+      }
+    }, 5000);
+    return () => clearInterval(poll);
+  }, [engineScenarioId]);
 
   // Process steps sequentially
   useEffect(() => {
@@ -106,7 +155,10 @@ export default function DemoPage() {
     if (stepTimeoutRef.current) {
       clearTimeout(stepTimeoutRef.current);
     }
-  }, []);
+    if (engineScenarioId) {
+      stopEngineScenario();
+    }
+  }, [engineScenarioId, stopEngineScenario]);
 
   const pauseDemo = useCallback(() => {
     setIsRunning(false);
@@ -124,6 +176,11 @@ export default function DemoPage() {
 
   const isComplete = completedSteps.size === selectedScenario.steps.length;
 
+  const liveVessel = selectedScenario.vessel
+    ? Object.values(stream.vessels).find(v =>
+        v.mmsi === selectedScenario.vessel?.id || v.name === selectedScenario.vessel?.name)
+    : undefined;
+
   return (
     <div className="min-h-screen bg-black">
       {/* Header */}
@@ -385,6 +442,78 @@ export default function DemoPage() {
               </div>
             </div>
 
+            {/* Live Engine - the scenario running in the simulation */}
+            {(engineScenario || engineError) && (
+              <div className="p-4 rounded-xl bg-white/[0.02] border border-white/10">
+                <h3 className="text-sm font-medium text-white/50 uppercase tracking-wide mb-3 flex items-center gap-2">
+                  <Radio className={`w-4 h-4 ${stream.status === 'open' ? 'text-emerald-400' : 'text-white/30'}`} />
+                  Live Simulation
+                </h3>
+                {engineError && (
+                  <p className="text-xs text-rose-400">{engineError}</p>
+                )}
+                {engineScenario && (
+                  <div className="space-y-3">
+                    <div className="text-xs text-white/40">
+                      {engineScenario.name} · {Math.round(engineScenario.elapsedSeconds / 60)} min simulated
+                      {stream.lastTick && ` · tick ${stream.lastTick.tick}`}
+                    </div>
+
+                    {liveVessel && (
+                      <div className="grid grid-cols-2 gap-2 text-sm">
+                        <div>
+                          <div className="text-white/40 text-xs">{liveVessel.name} health</div>
+                          <div className={`font-bold ${
+                            (liveVessel.health_score ?? 100) < 40 ? 'text-rose-400' :
+                            (liveVessel.health_score ?? 100) < 60 ? 'text-amber-400' : 'text-emerald-400'
+                          }`}>
+                            {liveVessel.health_score ?? '—'}%
+                          </div>
+                        </div>
+                        <div>
+                          <div className="text-white/40 text-xs">Fuel</div>
+                          <div className="font-bold text-white">{liveVessel.fuel_level ?? '—'}%</div>
+                        </div>
+                      </div>
+                    )}
+
+                    <div className="space-y-1">
+                      {engineScenario.events.map(event => (
+                        <div key={event.index} className="flex items-center justify-between text-xs">
+                          <span className={event.state === 'active' ? 'text-white' : 'text-white/40'}>
+                            {event.label}
+                          </span>
+                          <span className={`capitalize ${
+                            event.state === 'active' ? 'text-amber-400' :
+                            event.state === 'skipped' ? 'text-rose-400' : 'text-white/30'
+                          }`}>
+                            {event.state}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+
+                    {stream.alerts.length > 0 && (
+                      <div className="pt-3 border-t border-white/10 space-y-1">
+                        {stream.alerts.slice(0, 5).map(alert => (
+                          <div key={alert.id} className="flex items-center gap-2 text-xs">
+                            <AlertTriangle className={`w-3 h-3 ${
+                              alert.severity === 'critical' ? 'text-rose-400' :
+                              alert.severity === 'warning' ? 'text-amber-400' : 'text-cyan-400'
+                            }`} />
+                            <span className="text-white/70">{alert.type.replace(/_/g, ' ').toLowerCase()}</span>
+                            <span className="text-white/40 truncate">
+                              {String(alert.data.name ?? alert.data.port ?? alert.data.label ?? '')}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+
             {/* Cost Comparison (show when complete) */}
             {isComplete && (
               <div className="p-4 rounded-xl bg-gradient-to-br from-emerald-500/10 to-cyan-500/10 border border-emerald-500/30">
@@ -0,0 +1,195 @@
+'use client';
+
+import { useEffect, useMemo, useSyncExternalStore } from 'react';
+import type { FleetVessel } from '@/app/api/fleet/route';
+import type { AIInsight, SimulationEvent, SimulationWeather } from '@/lib/simulation/types';
+import type { FleetSnapshot, StreamVesselState } from '@/lib/simulation/stream';
+
+/**
+ * Live fleet state from /api/simulation/stream
+ *
+ * Every component using these hooks shares one EventSource per tab. The
+ * connection opens with the first subscriber and closes shortly after the
+ * last one unmounts; EventSource reconnects on its own and resumes from the
+ * last event id, so a dropped connection does not lose updates.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type StreamAlert = Omit<SimulationEvent, 'timestamp'> & { id: string; timestamp: string };
+
+export interface FleetStreamState {
+  status: 'idle' | 'connecting' | 'open';
+  lastEventId: string | null;
+  lastTick: { tick: number; simulatedTime: string } | null;
+  vessels: Record<string, StreamVesselState>;
+  weather: SimulationWeather | null;
+  alerts: StreamAlert[]; // Newest first
+  insights: AIInsight[]; // Newest first
+}
+
+const STREAM_URL = '/api/simulation/stream';
+const MAX_ALERTS = 50;
+const MAX_INSIGHTS = 10;
+const CLOSE_DELAY_MS = 2000; // Keep the connection across quick remounts
+
+const INITIAL_STATE: FleetStreamState = {
+  status: 'idle',
+  lastEventId: null,
+  lastTick: null,
+  vessels: {},
+  weather: null,
+  alerts: [],
+  insights: [],
+};
+
+// ============================================================================
+// Shared Connection
+// ============================================================================
+
+let state: FleetStreamState = INITIAL_STATE;
+let source: EventSource | null = null;
+let subscribers = 0;
+let closeTimer: ReturnType<typeof setTimeout> | null = null;
+const listeners = new Set<() => void>();
+
+function update(patch: Partial<FleetStreamState>): void {
+  state = { ...state, ...patch };
+  listeners.forEach(listener => listener());
+}
+
+function handle<T>(type: string, apply: (data: T, eventId: string) => Partial<FleetStreamState>) {
+  return (message: MessageEvent<string>) => {
+    try {
+      const data = JSON.parse(message.data) as T;
+      update({ ...apply(data, message.lastEventId), lastEventId: message.lastEventId || state.lastEventId });
+    } catch (error) {
+      console.error(`[FleetStream] Bad ${type} event:`, error);
+    }
+  };
+}
+
+function connect(): void {
+  if (source || typeof EventSource === 'undefined') return;
+
+  source = new EventSource(STREAM_URL);
+  update({ status: 'connecting' });
+
+  source.onopen = () => update({ status: 'open' });
+  source.onerror = () => {
+    // EventSource retries by itself unless the server refused outright
+    update({ status: source?.readyState === EventSource.CLOSED ? 'idle' : 'connecting' });
+    if (source?.readyState === EventSource.CLOSED) source = null;
+  };
+
+  source.addEventListener('snapshot', handle<FleetSnapshot>('snapshot', snapshot => ({
+    vessels: Object.fromEntries(snapshot.vessels.map(v => [v.id, v])),
+    weather: snapshot.weather,
+    insights: snapshot.insights,
+  })));
+
+  source.addEventListener('vessels', handle<{ tick: number; simulatedTime: string; vessels: StreamVesselState[] }>(
+    'vessels',
+    data => {
+      const vessels = { ...state.vessels };
+      for (const delta of data.vessels) {
+        vessels[delta.id] = { ...vessels[delta.id], ...delta };
+      }
+      return { vessels, lastTick: { tick: data.tick, simulatedTime: data.simulatedTime } };
+    }
+  ));
+
+  source.addEventListener('alert', handle<Omit<StreamAlert, 'id'>>('alert', (alert, eventId) => ({
+    alerts: [{ ...alert, id: eventId }, ...state.alerts].slice(0, MAX_ALERTS),
+  })));
+
+  source.addEventListener('weather', handle<SimulationWeather>('weather', weather => ({ weather })));
+
+  source.addEventListener('insight', handle<AIInsight>('insight', insight => ({
+    insights: [insight, ...state.insights.filter(i => i.id !== insight.id)].slice(0, MAX_INSIGHTS),
+  })));
+}
+
+function acquire(): void {
+  subscribers++;
+  if (closeTimer) {
+    clearTimeout(closeTimer);
+    closeTimer = null;
+  }
+  connect();
+}
+
+function release(): void {
+  subscribers = Math.max(0, subscribers - 1);
+  if (subscribers > 0 || closeTimer) return;
+
+  closeTimer = setTimeout(() => {
+    closeTimer = null;
+    if (subscribers > 0) return;
+    source?.close();
+    source = null;
+    update({ status: 'idle' });
+  }, CLOSE_DELAY_MS);
+}
+
+function subscribeStore(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+const getState = () => state;
+const getServerState = () => INITIAL_STATE;
+
+// ============================================================================
+// Hooks
+// ============================================================================
+
+/**
+ * The shared live stream state; subscribing opens the connection if needed
+ */
+export function useFleetStream(): FleetStreamState {
+  useEffect(() => {
+    acquire();
+    return release;
+  }, []);
+
+  return useSyncExternalStore(subscribeStore, getState, getServerState);
+}
+
+/**
+ * Overlay streamed simulation state on fleet vessels, matched by MMSI
+ * Fuel and health always come from the simulation; position, heading and
+ * speed only for vessels without a live AIS fix.
+ */
+export function useLiveFleetVessels(vessels: FleetVessel[]): FleetVessel[] {
+  const { vessels: streamed } = useFleetStream();
+
+  return useMemo(() => {
+    const byKey = new Map<string, StreamVesselState>();
+    for (const vessel of Object.values(streamed)) {
+      byKey.set(vessel.mmsi ?? vessel.id, vessel);
+    }
+    if (byKey.size === 0) return vessels;
+
+    return vessels.map(vessel => {
+      const live = byKey.get(vessel.mmsi) ?? byKey.get(vessel.id);
+      if (!live) return vessel;
+
+      const next: FleetVessel = {
+        ...vessel,
+        fuelLevel: live.fuel_level ?? vessel.fuelLevel,
+        healthScore: live.health_score ?? vessel.healthScore,
+      };
+      if (!vessel.isOnline && live.position_lat !== undefined && live.position_lng !== undefined) {
+        next.position = { lat: live.position_lat, lng: live.position_lng };
+        next.heading = live.heading ?? vessel.heading;
+        next.speed = live.speed ?? vessel.speed;
+      }
+      return next;
+    });
+  }, [vessels, streamed]);
+}
@@ -4,6 +4,7 @@ import { useState, useEffect, useCallback, useRef } from 'react';
 import { Radio, Ship, ChevronLeft, RefreshCw, ExternalLink, Navigation } from 'lucide-react';
 import Link from 'next/link';
 import type { FleetVessel } from '@/app/api/fleet/route';
+import { useFleetStream, useLiveFleetVessels } from '@/app/hooks/useFleetStream';
 import 'leaflet/dist/leaflet.css';
 
 // UAE/Abu Dhabi region
@@ -54,14 +55,14 @@ export default function NMDCFleetMap() {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const leafletRef = useRef<any>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  const fittedKeyRef = useRef('');
   const [mapReady, setMapReady] = useState(false);
 
-  const [vessels, setVessels] = useState<FleetVessel[]>([]);
+  const [fleetVessels, setFleetVessels] = useState<FleetVessel[]>([]);
   const [selectedVessel, setSelectedVessel] = useState<FleetVessel | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [lastRefresh, setLastRefresh] = useState<Date | null>(null);
-  const [autoRefresh, setAutoRefresh] = useState(false);
   const [sidebarOpen, setSidebarOpen] = useState(true);
 
   // Fetch NMDC fleet
@@ -74,7 +75,7 @@ export default function NMDCFleetMap() {
       const data = await response.json();
 
       if (data.success) {
-        setVessels(data.vessels);
+        setFleetVessels(data.vessels);
         setLastRefresh(new Date());
       } else {
         setError(data.message || 'Failed to fetch fleet');
@@ -91,12 +92,9 @@ export default function NMDCFleetMap() {
     fetchFleet();
   }, [fetchFleet]);
 
-  // Auto refresh
-  useEffect(() => {
-    if (!autoRefresh) return;
-    const interval = setInterval(fetchFleet, 30000);
-    return () => clearInterval(interval);
-  }, [autoRefresh, fetchFleet]);
+  // Live updates arrive over the shared fleet stream instead of polling
+  const vessels = useLiveFleetVessels(fleetVessels);
+  const { status: streamStatus } = useFleetStream();
 
   // Initialize Leaflet map
   useEffect(() => {
@@ -183,8 +181,10 @@ export default function NMDCFleetMap() {
       bounds.push([vessel.position.lat, vessel.position.lng]);
     });
 
-    // Fit to bounds if we have vessels
-    if (bounds.length > 1) {
+    // Fit to bounds when the set of vessels changes, not on every live update
+    const fittedKey = [...markersRef.current.keys()].join(',');
+    if (bounds.length > 1 && fittedKey !== fittedKeyRef.current) {
+      fittedKeyRef.current = fittedKey;
       map.fitBounds(bounds, { padding: [50, 50] });
     }
   }, [vessels, selectedVessel, mapReady]);
@@ -247,14 +247,14 @@ export default function NMDCFleetMap() {
               <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
               Refresh
             </button>
-            <button
-              onClick={() => setAutoRefresh(!autoRefresh)}
+            <span
+              title={streamStatus === 'open' ? 'Receiving live updates' : 'Connecting to live updates'}
               className={`px-3 py-2 rounded-lg transition-colors ${
-                autoRefresh ? 'bg-green-500/20 text-green-400' : 'bg-white/5 text-white/60'
+                streamStatus === 'open' ? 'bg-green-500/20 text-green-400' : 'bg-white/5 text-white/60'
               }`}
             >
-              Auto
-            </button>
+              Live
+            </span>
           </div>
 
           {lastRefresh && (
@@ -4,9 +4,11 @@
 import { useState, useEffect, useMemo } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
-import { NMDC_ENERGY_FLEET, getNMDCVesselByMMSI } from '@/lib/nmdc/fleet';
+import { NMDC_ENERGY_FLEET, NMDC_FLEET, getNMDCVesselByMMSI } from '@/lib/nmdc/fleet';
 import { VESSEL_ISSUES, getVesselIssues, VesselIssues, EquipmentIssue } from '@/lib/vessel-issues';
 import { PROJECT_SITES, getProjectsByVessel } from '@/lib/nmdc/projects';
+import { generateMockProjects } from '@/lib/orchestration/mock-data';
+import { PlanningSandbox } from '@/app/components/orchestration/PlanningSandbox';
 import {
   ArrowLeft,
   AlertTriangle,
@@ -28,6 +30,7 @@ import {
   Target,
   Bell,
   ChevronLeft,
+  GitBranch,
 } from 'lucide-react';
 
 interface OrchestrationOption {
@@ -90,6 +93,10 @@ export default function OrchestrationPage() {
   const [chartStartDay, setChartStartDay] = useState(-7);
   const [permanentScheduleChanges, setPermanentScheduleChanges] = useState<Map<string, Partial<ScheduleBlock>>>(new Map());
 
+  // Same projects and fleet the planning sandbox API seeds its live schedule from
+  const sandboxProjects = useMemo(() => generateMockProjects(), []);
+  const sandboxVessels = useMemo(() => NMDC_FLEET.map(v => ({ id: v.mmsi, name: v.name, type: v.type })), []);
+
   const activeIssues = useMemo(() => {
     const issues: ActiveIssue[] = [];
     
@@ -1006,6 +1013,15 @@ export default function OrchestrationPage() {
             )}
           </div>
         </div>
+
+        {/* Planning Sandbox - draft, compare and publish the fleet schedule */}
+        <div className="mt-6 p-4 rounded-xl bg-white/[0.02] border border-white/10">
+          <h2 className="text-sm font-semibold flex items-center gap-2 mb-4">
+            <GitBranch className="w-4 h-4 text-violet-400" />
+            Planning Sandbox
+          </h2>
+          <PlanningSandbox projects={sandboxProjects} vessels={sandboxVessels} />
+        </div>
       </main>
     </div>
   );
@@ -19,6 +19,7 @@ import {
   type ProjectRisk,
 } from '@/lib/nmdc/projects';
 import { getVesselIssueSummary, type VesselIssueSummary } from '@/lib/vessel-issues';
+import { useFleetStream, useLiveFleetVessels } from './hooks/useFleetStream';
 import {
   Header,
   MetricCard,
@@ -204,8 +205,26 @@ export default function Dashboard() {
     fetchWeather();
   }, [fetchFleet, fetchWeather]);
 
+  // Live simulation state pushed over the fleet stream
+  const liveFleetVessels = useLiveFleetVessels(fleetVessels);
+  const { weather: streamWeather } = useFleetStream();
+  const liveWeather = useMemo<Weather | null>(() => {
+    if (!streamWeather) return weather;
+    return {
+      id: weather?.id ?? 'simulation',
+      condition: streamWeather.condition,
+      severity: streamWeather.severity,
+      temperature: streamWeather.temperature,
+      wind_speed: streamWeather.wind_speed,
+      wind_direction: streamWeather.wind_direction,
+      wave_height: streamWeather.wave_height,
+      visibility: streamWeather.visibility,
+      updated_at: streamWeather.updated_at,
+    };
+  }, [weather, streamWeather]);
+
   // Convert fleet vessels to DB format for component compatibility
-  const rawVessels = fleetVessels.map(toDbVessel);
+  const rawVessels = liveFleetVessels.map(toDbVessel);
   
   // Get issue summaries for all vessels (keyed by MMSI)
   const issueSummaries = useMemo(() => {
@@ -749,7 +768,7 @@ export default function Dashboard() {
           <TroubleshootPanel 
             selectedVessel={selectedVesselData}
             alerts={alerts}
-            weather={weather}
+            weather={liveWeather}
             fleetMetrics={{
               totalVessels: metrics.totalVessels,
               operationalVessels: metrics.operationalVessels,
@@ -817,7 +836,7 @@ export default function Dashboard() {
               {rightPanel === 'news' && <NewsPanel />}
               {rightPanel === 'live' && (
                 <LiveVesselsPanel
-                  fleetData={fleetVessels}
+                  fleetData={liveFleetVessels}
                   fleetMeta={fleetMeta ?? undefined}
                   onRefresh={() => fetchFleet(true)}
                   isLoading={isLoading}
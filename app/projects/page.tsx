@@ -12,6 +12,8 @@ import {
   CheckCircle2,
   Clock,
   ChevronRight,
+  ChevronDown,
+  BarChart3,
 } from 'lucide-react';
 import 'leaflet/dist/leaflet.css';
 import Link from 'next/link';
@@ -22,6 +24,7 @@ import {
   getProjectStats,
   type ProjectSite 
 } from '@/lib/nmdc/projects';
+import { ProjectRiskPanel } from '@/app/components/orchestration/ProjectRiskPanel';
 
 interface VesselInfo {
   mmsi: string;
@@ -44,6 +47,7 @@ export default function ProjectsPage() {
   const [filterStatus, setFilterStatus] = useState<ProjectSite['status'] | 'all'>('all');
   const [filterType, setFilterType] = useState<ProjectSite['type'] | 'all'>('all');
   const [vessels, setVessels] = useState<Map<string, VesselInfo>>(new Map());
+  const [showRisk, setShowRisk] = useState(false);
 
   const stats = getProjectStats();
 
@@ -377,8 +381,8 @@ export default function ProjectsPage() {
 
           {/* Selected Project Details */}
           {selectedProject && (
-            <div className="absolute bottom-4 left-4 right-4 max-w-2xl mx-auto z-10">
-              <div className="bg-black/90 backdrop-blur-xl rounded-xl border border-white/10 overflow-hidden">
+            <div className={`absolute bottom-4 left-4 right-4 ${showRisk ? 'max-w-4xl' : 'max-w-2xl'} mx-auto z-10`}>
+              <div className="bg-black/90 backdrop-blur-xl rounded-xl border border-white/10 max-h-[85vh] overflow-y-auto">
                 <div className="p-4">
                   <div className="flex items-start justify-between gap-4">
                     <div className="flex-1">
@@ -473,6 +477,21 @@ export default function ProjectsPage() {
                           </div>
                         </div>
                       )}
+
+                      {/* Schedule Risk */}
+                      {selectedProject.status !== 'completed' && (
+                        <div className="mt-4 pt-4 border-t border-white/10">
+                          <button
+                            onClick={() => setShowRisk(!showRisk)}
+                            className="flex items-center gap-2 text-white/40 hover:text-white/70 text-xs mb-2 transition-colors"
+                          >
+                            <BarChart3 className="h-3 w-3" />
+                            Schedule Risk (Monte Carlo)
+                            {showRisk ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+                          </button>
+                          {showRisk && <ProjectRiskPanel projectId={selectedProject.id} />}
+                        </div>
+                      )}
                     </div>
 
                     {/* Progress Ring */}
@@ -259,7 +259,6 @@ export default function RoutesPage() {
             type: selectedVessel.type,
             currentLat: vesselLat,
             currentLng: vesselLng,
-            speed: 10,
           },
           origin: {
             lat: vesselLat,
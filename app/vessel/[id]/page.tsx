@@ -6,6 +6,7 @@ import Link from 'next/link';
 import { supabase, Vessel, Equipment } from '@/lib/supabase';
 import { getVesselProfileByName, VesselProfile, VesselSystem } from '@/lib/vessel-profiles';
 import { getVesselIssues, getEquipmentOverrides } from '@/lib/vessel-issues';
+import { vesselSystemEquipment, type PMSystemReading } from '@/lib/predictive-maintenance/vessel-systems';
 import { TroubleshootPanel } from '@/app/components/TroubleshootPanel';
 import type { FleetVessel } from '@/app/api/fleet/route';
 import { generateAlertsFromFleet, type NMDCAlert } from '@/lib/nmdc/alerts';
@@ -52,6 +53,7 @@ import {
 } from 'lucide-react';
 import { RoutePlanningPanel } from '@/app/components/routes';
 import { AIPredictiveMaintenance } from '@/app/components/PredictiveMaintenance';
+import { TelemetryTrendsPanel } from '@/app/components/TelemetryTrendsPanel';
 import dynamic from 'next/dynamic';
 
 // Dynamically import DigitalTwin to avoid SSR issues with Three.js
@@ -430,6 +432,21 @@ function VesselDetailContent({ vesselId }: { vesselId: string }) {
   const equipmentWithIssues = vesselIssueData?.issues || [];
   const criticalAlerts = alerts.filter(a => a.severity === 'critical');
 
+  // Every component of the profile's systems, with the matching system's readings
+  const systemReadings: Record<string, PMSystemReading> = {};
+  profile?.systems.forEach(sys => {
+    const reading = equipment.find(e => e.name.toLowerCase() === sys.name.toLowerCase());
+    if (reading) {
+      systemReadings[sys.id] = {
+        currentHealth: reading.health_score ?? undefined,
+        operatingHours: reading.hours_operated ?? undefined,
+        temperature: reading.temperature ?? undefined,
+        vibration: reading.vibration ?? undefined,
+      };
+    }
+  });
+  const maintenanceEquipment = profile ? vesselSystemEquipment(profile, systemReadings) : null;
+
   return (
     <div className="min-h-screen bg-black">
       {/* Header */}
@@ -1043,7 +1060,7 @@ function VesselDetailContent({ vesselId }: { vesselId: string }) {
                 assetType="vessel"
                 assetId={vessel.id}
                 assetName={vessel.name}
-                equipment={[
+                equipment={maintenanceEquipment ?? [
                   { 
                     id: 'main-engine-001', 
                     name: 'Main Engine', 
@@ -1459,6 +1476,12 @@ function VesselDetailContent({ vesselId }: { vesselId: string }) {
                       ))}
                     </div>
                   )}
+
+                  {/* Sensor Trends */}
+                  <TelemetryTrendsPanel
+                    assetId={vessel.id}
+                    equipmentNames={Object.fromEntries(equipment.map(eq => [eq.id, eq.name]))}
+                  />
                 </div>
               ) : (
                 <div className="h-full flex items-center justify-center rounded-lg bg-white/[0.01] border border-white/5">
@@ -911,31 +911,6 @@ export function convertToSimplifiedPort(port: DatalasticPort): SimplifiedPort {
   };
 }
 
-/**
- * Calculate distance between two points using Haversine formula
- * Returns distance in nautical miles
- */
-export function calculateDistanceNm(
-  lat1: number,
-  lon1: number,
-  lat2: number,
-  lon2: number
-): number {
-  const R = 3440.065; // Earth's radius in nautical miles
-  const dLat = toRad(lat2 - lat1);
-  const dLon = toRad(lon2 - lon1);
-  const a =
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) *
-    Math.sin(dLon / 2) * Math.sin(dLon / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  return R * c;
-}
-
-function toRad(deg: number): number {
-  return deg * (Math.PI / 180);
-}
-
 /**
  * Estimate voyage duration based on distance and speed
  */
@@ -963,23 +938,5 @@ export function estimateVoyageDuration(
   };
 }
 
-/**
- * Calculate bearing between two points
- */
-export function calculateBearing(
-  lat1: number,
-  lon1: number,
-  lat2: number,
-  lon2: number
-): number {
-  const dLon = toRad(lon2 - lon1);
-  const y = Math.sin(dLon) * Math.cos(toRad(lat2));
-  const x =
-    Math.cos(toRad(lat1)) * Math.sin(toRad(lat2)) -
-    Math.sin(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.cos(dLon);
-  const bearing = Math.atan2(y, x);
-  return (bearing * 180 / Math.PI + 360) % 360;
-}
-
 export default DatalasticAPI;
 
@@ -15,6 +15,7 @@ export interface CrisisScenario {
   name: string;
   type: 'engine_failure' | 'storm_response' | 'fuel_crisis' | 'safety_incident' | 'crane_efficiency';
   description: string;
+  simulationScenarioId?: string; // Built-in simulation scenario the demo runs (lib/simulation/scenario-library)
   vessel?: {
     id: string;
     name: string;
@@ -35,6 +36,7 @@ export const engineFailureScenario: CrisisScenario = {
   name: 'Engine Anomaly Detection',
   type: 'engine_failure',
   description: 'AI detects early warning signs in engine vibration patterns and deploys preventive measures before failure occurs.',
+  simulationScenarioId: 'equipment_failure',
   vessel: {
     id: '470212000',
     name: 'DLS-4200',
@@ -141,6 +143,7 @@ export const stormResponseScenario: CrisisScenario = {
   name: 'Weather Risk Mitigation',
   type: 'storm_response',
   description: 'AI predicts severe weather 18 hours ahead and proactively repositions fleet to safe zones.',
+  simulationScenarioId: 'storm',
   steps: [
     {
       id: 'step-1',
@@ -225,6 +228,7 @@ export const fuelCrisisScenario: CrisisScenario = {
   name: 'Proactive Fuel Management',
   type: 'fuel_crisis',
   description: 'AI predicts fuel depletion patterns and schedules optimal refueling before vessels reach critical levels.',
+  simulationScenarioId: 'fuel_crisis',
   steps: [
     {
       id: 'step-1',
@@ -295,6 +299,7 @@ export const safetyIncidentScenario: CrisisScenario = {
   name: 'Fatigue Prevention',
   type: 'safety_incident',
   description: 'AI monitors crew work hours and proactively schedules rotations before fatigue risks emerge.',
+  simulationScenarioId: 'safety_incident',
   steps: [
     {
       id: 'step-1',
@@ -0,0 +1,516 @@
+/**
+ * Geodesy
+ *
+ * The single source of distances, bearings and polygon checks for routing and
+ * proximity code, so every module agrees on how far apart two points are:
+ * - Great-circle legs on the WGS84 ellipsoid (Vincenty), with a spherical
+ *   haversine fallback for the near-antipodal cases Vincenty cannot solve
+ * - Rhumb-line (loxodrome) legs on the same ellipsoid
+ * - Point-in-polygon, segment/polygon intersection and polygon buffers for
+ *   land, restricted and regulated zone outlines
+ *
+ * Positions are decimal degrees, distances nautical miles and bearings
+ * degrees true (0-360).
+ */
+
+// ============================================================================
+// Types & Constants
+// ============================================================================
+
+export interface GeoPoint {
+  lat: number;
+  lon: number;
+}
+
+export type LegType = 'great-circle' | 'rhumb';
+
+export interface InsideInterval {
+  start: number; // Fraction of the segment (0-1) where it enters the polygon
+  end: number; // Fraction where it leaves
+}
+
+export const EARTH_RADIUS_NM = 3440.065; // Mean radius, for the spherical fallback
+export const METRES_PER_NM = 1852;
+
+const WGS84_A = 6378137; // Semi-major axis (m)
+const WGS84_F = 1 / 298.257223563; // Flattening
+const WGS84_B = WGS84_A * (1 - WGS84_F);
+const WGS84_E2 = WGS84_F * (2 - WGS84_F); // First eccentricity squared
+const WGS84_E = Math.sqrt(WGS84_E2);
+
+const VINCENTY_MAX_ITERATIONS = 200;
+const VINCENTY_TOLERANCE = 1e-12;
+
+// Offset corners sharper than this many margins are bevelled
+const BUFFER_MITER_LIMIT = 2;
+
+function toRad(deg: number): number {
+  return deg * (Math.PI / 180);
+}
+
+function toDeg(rad: number): number {
+  return rad * (180 / Math.PI);
+}
+
+function normaliseLon(lon: number): number {
+  return ((lon + 540) % 360) - 180;
+}
+
+function normaliseBearing(bearing: number): number {
+  return (bearing + 360) % 360;
+}
+
+// ============================================================================
+// Great Circle (Vincenty on WGS84)
+// ============================================================================
+
+/**
+ * Vincenty inverse: ellipsoidal distance and initial bearing between two points
+ * Returns null when the iteration does not converge (nearly antipodal points)
+ */
+function vincentyInverse(
+  lat1: number, lon1: number,
+  lat2: number, lon2: number
+): { distanceNm: number; bearing: number } | null {
+  const L = toRad(lon2 - lon1);
+  const tanU1 = (1 - WGS84_F) * Math.tan(toRad(lat1));
+  const tanU2 = (1 - WGS84_F) * Math.tan(toRad(lat2));
+  const cosU1 = 1 / Math.sqrt(1 + tanU1 * tanU1);
+  const cosU2 = 1 / Math.sqrt(1 + tanU2 * tanU2);
+  const sinU1 = tanU1 * cosU1;
+  const sinU2 = tanU2 * cosU2;
+
+  let lambda = L;
+  let sinLambda = 0;
+  let cosLambda = 0;
+  let sinSigma = 0;
+  let cosSigma = 0;
+  let sigma = 0;
+  let cosSqAlpha = 0;
+  let cos2SigmaM = 0;
+  let converged = false;
+
+  for (let i = 0; i < VINCENTY_MAX_ITERATIONS; i++) {
+    sinLambda = Math.sin(lambda);
+    cosLambda = Math.cos(lambda);
+    const a = cosU2 * sinLambda;
+    const b = cosU1 * sinU2 - sinU1 * cosU2 * cosLambda;
+    sinSigma = Math.sqrt(a * a + b * b);
+    if (sinSigma === 0) return { distanceNm: 0, bearing: 0 }; // Coincident points
+
+    cosSigma = sinU1 * sinU2 + cosU1 * cosU2 * cosLambda;
+    sigma = Math.atan2(sinSigma, cosSigma);
+    const sinAlpha = (cosU1 * cosU2 * sinLambda) / sinSigma;
+    cosSqAlpha = 1 - sinAlpha * sinAlpha;
+    cos2SigmaM = cosSqAlpha !== 0 ? cosSigma - (2 * sinU1 * sinU2) / cosSqAlpha : 0; // Equatorial line
+    const C = (WGS84_F / 16) * cosSqAlpha * (4 + WGS84_F * (4 - 3 * cosSqAlpha));
+
+    const previous = lambda;
+    lambda = L + (1 - C) * WGS84_F * sinAlpha *
+      (sigma + C * sinSigma * (cos2SigmaM + C * cosSigma * (-1 + 2 * cos2SigmaM * cos2SigmaM)));
+    if (Math.abs(lambda) > Math.PI) return null;
+    if (Math.abs(lambda - previous) < VINCENTY_TOLERANCE) {
+      converged = true;
+      break;
+    }
+  }
+  if (!converged) return null;
+
+  const uSq = (cosSqAlpha * (WGS84_A * WGS84_A - WGS84_B * WGS84_B)) / (WGS84_B * WGS84_B);
+  const A = 1 + (uSq / 16384) * (4096 + uSq * (-768 + uSq * (320 - 175 * uSq)));
+  const B = (uSq / 1024) * (256 + uSq * (-128 + uSq * (74 - 47 * uSq)));
+  const deltaSigma = B * sinSigma * (cos2SigmaM + (B / 4) * (
+    cosSigma * (-1 + 2 * cos2SigmaM * cos2SigmaM) -
+    (B / 6) * cos2SigmaM * (-3 + 4 * sinSigma * sinSigma) * (-3 + 4 * cos2SigmaM * cos2SigmaM)
+  ));
+  const distanceMetres = WGS84_B * A * (sigma - deltaSigma);
+  const bearing = Math.atan2(cosU2 * sinLambda, cosU1 * sinU2 - sinU1 * cosU2 * cosLambda);
+
+  return {
+    distanceNm: distanceMetres / METRES_PER_NM,
+    bearing: normaliseBearing(toDeg(bearing)),
+  };
+}
+
+/**
+ * Spherical great-circle distance (haversine)
+ * Only for the fallback and for quick comparisons; prefer calculateDistanceNm
+ */
+export function haversineDistanceNm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const dLat = toRad(lat2 - lat1);
+  const dLon = toRad(lon2 - lon1);
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) *
+    Math.sin(dLon / 2) * Math.sin(dLon / 2);
+  return EARTH_RADIUS_NM * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+function sphericalBearing(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const dLon = toRad(lon2 - lon1);
+  const y = Math.sin(dLon) * Math.cos(toRad(lat2));
+  const x =
+    Math.cos(toRad(lat1)) * Math.sin(toRad(lat2)) -
+    Math.sin(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.cos(dLon);
+  return normaliseBearing(toDeg(Math.atan2(y, x)));
+}
+
+/**
+ * Great-circle (geodesic) distance between two points in nautical miles
+ */
+export function calculateDistanceNm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  return vincentyInverse(lat1, lon1, lat2, lon2)?.distanceNm ?? haversineDistanceNm(lat1, lon1, lat2, lon2);
+}
+
+/**
+ * Initial great-circle bearing from the first point to the second
+ */
+export function calculateBearing(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  return vincentyInverse(lat1, lon1, lat2, lon2)?.bearing ?? sphericalBearing(lat1, lon1, lat2, lon2);
+}
+
+/**
+ * Point reached after travelling a distance along a great circle (Vincenty direct)
+ */
+export function calculateDestinationPoint(
+  lat: number,
+  lon: number,
+  bearingDeg: number,
+  distanceNm: number
+): GeoPoint {
+  if (distanceNm === 0) return { lat, lon };
+
+  const alpha1 = toRad(bearingDeg);
+  const sinAlpha1 = Math.sin(alpha1);
+  const cosAlpha1 = Math.cos(alpha1);
+  const tanU1 = (1 - WGS84_F) * Math.tan(toRad(lat));
+  const cosU1 = 1 / Math.sqrt(1 + tanU1 * tanU1);
+  const sinU1 = tanU1 * cosU1;
+  const sigma1 = Math.atan2(tanU1, cosAlpha1);
+  const sinAlpha = cosU1 * sinAlpha1;
+  const cosSqAlpha = 1 - sinAlpha * sinAlpha;
+  const uSq = (cosSqAlpha * (WGS84_A * WGS84_A - WGS84_B * WGS84_B)) / (WGS84_B * WGS84_B);
+  const A = 1 + (uSq / 16384) * (4096 + uSq * (-768 + uSq * (320 - 175 * uSq)));
+  const B = (uSq / 1024) * (256 + uSq * (-128 + uSq * (74 - 47 * uSq)));
+
+  const s = distanceNm * METRES_PER_NM;
+  let sigma = s / (WGS84_B * A);
+  let sinSigma = 0;
+  let cosSigma = 0;
+  let cos2SigmaM = 0;
+
+  for (let i = 0; i < VINCENTY_MAX_ITERATIONS; i++) {
+    cos2SigmaM = Math.cos(2 * sigma1 + sigma);
+    sinSigma = Math.sin(sigma);
+    cosSigma = Math.cos(sigma);
+    const deltaSigma = B * sinSigma * (cos2SigmaM + (B / 4) * (
+      cosSigma * (-1 + 2 * cos2SigmaM * cos2SigmaM) -
+      (B / 6) * cos2SigmaM * (-3 + 4 * sinSigma * sinSigma) * (-3 + 4 * cos2SigmaM * cos2SigmaM)
+    ));
+    const previous = sigma;
+    sigma = s / (WGS84_B * A) + deltaSigma;
+    if (Math.abs(sigma - previous) < VINCENTY_TOLERANCE) break;
+  }
+  cos2SigmaM = Math.cos(2 * sigma1 + sigma);
+  sinSigma = Math.sin(sigma);
+  cosSigma = Math.cos(sigma);
+
+  const x = sinU1 * sinSigma - cosU1 * cosSigma * cosAlpha1;
+  const lat2 = Math.atan2(
+    sinU1 * cosSigma + cosU1 * sinSigma * cosAlpha1,
+    (1 - WGS84_F) * Math.sqrt(sinAlpha * sinAlpha + x * x)
+  );
+  const lambda = Math.atan2(sinSigma * sinAlpha1, cosU1 * cosSigma - sinU1 * sinSigma * cosAlpha1);
+  const C = (WGS84_F / 16) * cosSqAlpha * (4 + WGS84_F * (4 - 3 * cosSqAlpha));
+  const L = lambda - (1 - C) * WGS84_F * sinAlpha *
+    (sigma + C * sinSigma * (cos2SigmaM + C * cosSigma * (-1 + 2 * cos2SigmaM * cos2SigmaM)));
+
+  return { lat: toDeg(lat2), lon: normaliseLon(lon + toDeg(L)) };
+}
+
+// ============================================================================
+// Rhumb Line (loxodrome on WGS84)
+// ============================================================================
+
+// Isometric latitude: the Mercator northing, in which rhumb lines are straight
+function isometricLatitude(phi: number): number {
+  return Math.atanh(Math.sin(phi)) - WGS84_E * Math.atanh(WGS84_E * Math.sin(phi));
+}
+
+// Distance along the meridian from the equator (m)
+function meridianArc(phi: number): number {
+  const e4 = WGS84_E2 * WGS84_E2;
+  const e6 = e4 * WGS84_E2;
+  return WGS84_A * (
+    (1 - WGS84_E2 / 4 - (3 * e4) / 64 - (5 * e6) / 256) * phi -
+    ((3 * WGS84_E2) / 8 + (3 * e4) / 32 + (45 * e6) / 1024) * Math.sin(2 * phi) +
+    ((15 * e4) / 256 + (45 * e6) / 1024) * Math.sin(4 * phi) -
+    ((35 * e6) / 3072) * Math.sin(6 * phi)
+  );
+}
+
+// Latitude at a meridian distance (Newton iteration on meridianArc)
+function latitudeFromMeridianArc(arc: number): number {
+  let phi = arc / (WGS84_A * (1 - WGS84_E2 / 4));
+  for (let i = 0; i < 10; i++) {
+    const sinPhi = Math.sin(phi);
+    const slope = (WGS84_A * (1 - WGS84_E2)) / Math.pow(1 - WGS84_E2 * sinPhi * sinPhi, 1.5);
+    const step = (meridianArc(phi) - arc) / slope;
+    phi -= step;
+    if (Math.abs(step) < 1e-14) break;
+  }
+  return phi;
+}
+
+// Radius of the parallel at a latitude (m): prime vertical radius x cos(lat)
+function parallelRadius(phi: number): number {
+  const sinPhi = Math.sin(phi);
+  return (WGS84_A * Math.cos(phi)) / Math.sqrt(1 - WGS84_E2 * sinPhi * sinPhi);
+}
+
+/**
+ * Rhumb-line distance and constant bearing between two points
+ * The shorter way round in longitude is used.
+ */
+function rhumbInverse(
+  lat1: number, lon1: number,
+  lat2: number, lon2: number
+): { distanceNm: number; bearing: number } {
+  const phi1 = toRad(lat1);
+  const phi2 = toRad(lat2);
+  const dLambda = toRad(normaliseLon(lon2 - lon1));
+  const dPsi = isometricLatitude(phi2) - isometricLatitude(phi1);
+  const dArc = meridianArc(phi2) - meridianArc(phi1);
+
+  // Metres of meridian per unit of isometric latitude; the parallel radius on an east-west line
+  const q = Math.abs(dPsi) > 1e-12 ? dArc / dPsi : parallelRadius(phi1);
+  const distanceMetres = Math.sqrt(dArc * dArc + q * q * dLambda * dLambda);
+  const bearing = Math.atan2(dLambda, dPsi);
+
+  return {
+    distanceNm: distanceMetres / METRES_PER_NM,
+    bearing: normaliseBearing(toDeg(bearing)),
+  };
+}
+
+export function rhumbDistanceNm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  return rhumbInverse(lat1, lon1, lat2, lon2).distanceNm;
+}
+
+export function rhumbBearing(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  return rhumbInverse(lat1, lon1, lat2, lon2).bearing;
+}
+
+/**
+ * Point reached after sailing a constant bearing for a distance
+ */
+export function rhumbDestinationPoint(
+  lat: number,
+  lon: number,
+  bearingDeg: number,
+  distanceNm: number
+): GeoPoint {
+  const theta = toRad(bearingDeg);
+  const distanceMetres = distanceNm * METRES_PER_NM;
+  const phi1 = toRad(lat);
+  const dArc = distanceMetres * Math.cos(theta);
+  const maxArc = meridianArc(Math.PI / 2);
+  const phi2 = latitudeFromMeridianArc(Math.max(-maxArc, Math.min(maxArc, meridianArc(phi1) + dArc)));
+
+  const dPsi = isometricLatitude(phi2) - isometricLatitude(phi1);
+  const q = Math.abs(dPsi) > 1e-12 ? dArc / dPsi : parallelRadius(phi1);
+  const dLambda = (distanceMetres * Math.sin(theta)) / q;
+
+  return { lat: toDeg(phi2), lon: normaliseLon(lon + toDeg(dLambda)) };
+}
+
+// ============================================================================
+// Legs
+// ============================================================================
+
+export function legDistanceNm(from: GeoPoint, to: GeoPoint, legType: LegType = 'great-circle'): number {
+  return legType === 'rhumb'
+    ? rhumbDistanceNm(from.lat, from.lon, to.lat, to.lon)
+    : calculateDistanceNm(from.lat, from.lon, to.lat, to.lon);
+}
+
+/**
+ * Course at the start of a leg (constant for the whole of a rhumb leg)
+ */
+export function legBearing(from: GeoPoint, to: GeoPoint, legType: LegType = 'great-circle'): number {
+  return legType === 'rhumb'
+    ? rhumbBearing(from.lat, from.lon, to.lat, to.lon)
+    : calculateBearing(from.lat, from.lon, to.lat, to.lon);
+}
+
+/**
+ * Position a fraction (0-1) of the way along a leg
+ */
+export function interpolateLeg(
+  from: GeoPoint,
+  to: GeoPoint,
+  fraction: number,
+  legType: LegType = 'great-circle'
+): GeoPoint {
+  if (fraction <= 0) return { lat: from.lat, lon: from.lon };
+  if (fraction >= 1) return { lat: to.lat, lon: to.lon };
+
+  const leg = legType === 'rhumb'
+    ? rhumbInverse(from.lat, from.lon, to.lat, to.lon)
+    : vincentyInverse(from.lat, from.lon, to.lat, to.lon);
+  if (!leg) {
+    // Nearly antipodal: no unique geodesic, fall back to a straight blend
+    return { lat: from.lat + (to.lat - from.lat) * fraction, lon: from.lon + (to.lon - from.lon) * fraction };
+  }
+
+  return legType === 'rhumb'
+    ? rhumbDestinationPoint(from.lat, from.lon, leg.bearing, leg.distanceNm * fraction)
+    : calculateDestinationPoint(from.lat, from.lon, leg.bearing, leg.distanceNm * fraction);
+}
+
+// ============================================================================
+// Polygons
+// ============================================================================
+//
+// Zone and coastline outlines are drawn as straight lines between lat/lon
+// vertices, so polygon tests use the same plane. The routing legs they are
+// checked against are a few tens of miles at most, where the plane and the
+// geodesic agree to well inside a cable.
+
+/**
+ * Point-in-polygon test (ray casting) on an open lat/lon ring
+ */
+export function isPointInPolygon(lat: number, lon: number, polygon: GeoPoint[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.lat > lat) !== (b.lat > lat) &&
+        lon < ((b.lon - a.lon) * (lat - a.lat)) / (b.lat - a.lat) + a.lon) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Fractions (0-1) along from -> to where the segment crosses the polygon outline
+ */
+export function segmentPolygonCrossings(from: GeoPoint, to: GeoPoint, polygon: GeoPoint[]): number[] {
+  const rx = to.lon - from.lon;
+  const ry = to.lat - from.lat;
+  const crossings: number[] = [];
+
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[j];
+    const b = polygon[i];
+    const sx = b.lon - a.lon;
+    const sy = b.lat - a.lat;
+    const denominator = rx * sy - ry * sx;
+    if (denominator === 0) continue; // Parallel edges never cross at a single point
+
+    const qx = a.lon - from.lon;
+    const qy = a.lat - from.lat;
+    const t = (qx * sy - qy * sx) / denominator;
+    const u = (qx * ry - qy * rx) / denominator;
+    if (t >= 0 && t <= 1 && u >= 0 && u <= 1) crossings.push(t);
+  }
+
+  return crossings.sort((x, y) => x - y);
+}
+
+/**
+ * The parts of the segment from -> to that lie inside a polygon
+ *
+ * Each stretch between consecutive outline crossings is wholly inside or
+ * outside, so testing its midpoint classifies it exactly.
+ */
+export function segmentInsidePolygon(from: GeoPoint, to: GeoPoint, polygon: GeoPoint[]): InsideInterval[] {
+  const breaks = [0, ...segmentPolygonCrossings(from, to, polygon), 1];
+  const intervals: InsideInterval[] = [];
+
+  for (let i = 0; i < breaks.length - 1; i++) {
+    const start = breaks[i];
+    const end = breaks[i + 1];
+    if (end - start < 1e-12) continue;
+
+    const mid = (start + end) / 2;
+    const inside = isPointInPolygon(
+      from.lat + (to.lat - from.lat) * mid,
+      from.lon + (to.lon - from.lon) * mid,
+      polygon
+    );
+    if (!inside) continue;
+
+    const previous = intervals[intervals.length - 1];
+    if (previous && previous.end === start) previous.end = end;
+    else intervals.push({ start, end });
+  }
+
+  return intervals;
+}
+
+export function doesSegmentIntersectPolygon(from: GeoPoint, to: GeoPoint, polygon: GeoPoint[]): boolean {
+  return segmentInsidePolygon(from, to, polygon).length > 0;
+}
+
+/**
+ * Push a polygon outline out by a margin in nautical miles
+ *
+ * Each edge is offset along its outward normal and neighbouring edges are
+ * joined at their intersection; very sharp convex corners are bevelled so
+ * the outline does not spike far beyond the margin. Works in a local plane
+ * around the polygon, so suited to zone-sized outlines and margins.
+ */
+export function bufferPolygon(polygon: GeoPoint[], marginNm: number): GeoPoint[] {
+  if (polygon.length < 3 || marginNm === 0) return polygon.map(p => ({ lat: p.lat, lon: p.lon }));
+
+  const centre = {
+    lat: polygon.reduce((sum, p) => sum + p.lat, 0) / polygon.length,
+    lon: polygon.reduce((sum, p) => sum + p.lon, 0) / polygon.length,
+  };
+  const cosLat = Math.cos(toRad(centre.lat));
+  const toXY = (p: GeoPoint) => ({ x: (p.lon - centre.lon) * 60 * cosLat, y: (p.lat - centre.lat) * 60 });
+  const fromXY = (x: number, y: number): GeoPoint => ({ lat: centre.lat + y / 60, lon: centre.lon + x / (60 * cosLat) });
+
+  const points = polygon.map(toXY);
+  const n = points.length;
+
+  // Positive area = counter-clockwise, where the outward normal is to the right of each edge
+  let area = 0;
+  for (let i = 0; i < n; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % n];
+    area += a.x * b.y - b.x * a.y;
+  }
+  const orientation = area >= 0 ? 1 : -1;
+
+  const normals = points.map((a, i) => {
+    const b = points[(i + 1) % n];
+    const length = Math.hypot(b.x - a.x, b.y - a.y) || 1;
+    return { x: (orientation * (b.y - a.y)) / length, y: (orientation * -(b.x - a.x)) / length };
+  });
+
+  const buffered: GeoPoint[] = [];
+  for (let i = 0; i < n; i++) {
+    const vertex = points[i];
+    const incoming = normals[(i - 1 + n) % n];
+    const outgoing = normals[i];
+    const dot = incoming.x * outgoing.x + incoming.y * outgoing.y;
+    const turn = orientation * (incoming.x * outgoing.y - incoming.y * outgoing.x);
+    const miterScale = 1 + dot > 1e-9 ? marginNm / (1 + dot) : Infinity;
+    const miterLength = miterScale * Math.hypot(incoming.x + outgoing.x, incoming.y + outgoing.y);
+
+    if (turn > 0 && miterLength > marginNm * BUFFER_MITER_LIMIT) {
+      buffered.push(fromXY(vertex.x + incoming.x * marginNm, vertex.y + incoming.y * marginNm));
+      buffered.push(fromXY(vertex.x + outgoing.x * marginNm, vertex.y + outgoing.y * marginNm));
+    } else if (Number.isFinite(miterScale)) {
+      buffered.push(fromXY(
+        vertex.x + (incoming.x + outgoing.x) * miterScale,
+        vertex.y + (incoming.y + outgoing.y) * miterScale
+      ));
+    }
+  }
+
+  return buffered;
+}
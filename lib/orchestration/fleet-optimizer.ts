@@ -7,7 +7,9 @@
  * - Clear reasoning for each optimization decision
  */
 
-import { Project, VesselAssignment } from './types';
+import { calculateDistanceNm } from '@/lib/geodesy';
+import { estimateMobilisation, estimateTransit, sumCostBreakdowns } from './mobilisation';
+import { MobilisationCostBreakdown, MobilisationEstimate, Project, VesselAssignment } from './types';
 
 // ============================================================================
 // Types
@@ -21,6 +23,10 @@ export interface VesselPosition {
   lng: number;
   speed: number; // knots
   fuelConsumptionRate: number; // liters per nautical mile
+  selfPropelled?: boolean; // Defaults by type; barges and jack-ups are towed
+  crewCount?: number; // Project crew mobilised with the vessel
+  dayRateUSD?: number;
+  base?: { name: string; lat: number; lng: number }; // Demobilisation port, Mussafah by default
 }
 
 export interface ProjectLocation {
@@ -40,6 +46,7 @@ export interface RouteSegment {
   distanceNm: number;
   estimatedHours: number;
   fuelLiters: number;
+  cost: MobilisationCostBreakdown;
 }
 
 export interface VesselSchedule {
@@ -56,6 +63,7 @@ export interface VesselSchedule {
   totalTransitDistanceNm: number;
   totalTransitHours: number;
   totalFuelLiters: number;
+  totalTransitCostUSD: number;
   idleDays: number;
   routes: RouteSegment[];
 }
@@ -70,6 +78,10 @@ export interface OptimizationChange {
     timeSavedHours: number;
     costSavedUSD: number;
   };
+  cost: {
+    before: MobilisationCostBreakdown;
+    after: MobilisationCostBreakdown;
+  };
   affectedVessels: string[];
   before: {
     vessel: string;
@@ -93,6 +105,7 @@ export interface FleetOptimizationResult {
     totalFleetDistanceNm: number;
     totalFleetFuelLiters: number;
     totalFleetTransitHours: number;
+    totalFleetTransitCostUSD: number;
     totalIdleDays: number;
     averageUtilization: number;
   };
@@ -103,6 +116,7 @@ export interface FleetOptimizationResult {
     totalFleetDistanceNm: number;
     totalFleetFuelLiters: number;
     totalFleetTransitHours: number;
+    totalFleetTransitCostUSD: number;
     totalIdleDays: number;
     averageUtilization: number;
   };
@@ -128,9 +142,9 @@ export interface FleetOptimizationResult {
 // Constants
 // ============================================================================
 
-const FUEL_COST_USD_PER_LITER = 0.85; // Marine diesel
 const AVERAGE_VESSEL_SPEED_KNOTS = 10;
 const DAILY_OPERATING_COST_USD = 15000; // Average for offshore vessels
+const MIN_REASSIGNMENT_SAVING_USD = 25000; // Below this a vessel swap isn't worth the disruption
 
 // Fuel consumption rates by vessel type (liters per nautical mile)
 const FUEL_CONSUMPTION_RATES: Record<string, number> = {
@@ -147,31 +161,6 @@ const FUEL_CONSUMPTION_RATES: Record<string, number> = {
 // Distance Calculations
 // ============================================================================
 
-/**
- * Calculate distance between two points using Haversine formula
- * Returns distance in nautical miles
- */
-export function calculateDistanceNm(
-  lat1: number,
-  lng1: number,
-  lat2: number,
-  lng2: number
-): number {
-  const R = 3440.065; // Earth's radius in nautical miles
-  const dLat = toRad(lat2 - lat1);
-  const dLng = toRad(lng2 - lng1);
-  const a =
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) *
-    Math.sin(dLng / 2) * Math.sin(dLng / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  return R * c;
-}
-
-function toRad(deg: number): number {
-  return deg * (Math.PI / 180);
-}
-
 /**
  * Calculate transit time in hours
  */
@@ -181,6 +170,7 @@ export function calculateTransitHours(distanceNm: number, speedKnots: number = A
 
 /**
  * Calculate fuel consumption in liters
+ * Flat rate per type, for quick estimates; see ./mobilisation for costed passages.
  */
 export function calculateFuelConsumption(distanceNm: number, vesselType: string): number {
   const rate = FUEL_CONSUMPTION_RATES[vesselType] || FUEL_CONSUMPTION_RATES.default;
@@ -193,6 +183,7 @@ export function calculateFuelConsumption(distanceNm: number, vesselType: string)
 
 /**
  * Analyze a vessel's schedule and calculate transit requirements
+ * Legs follow the sea route and are costed by the mobilisation model.
  */
 export function analyzeVesselSchedule(
   vessel: VesselPosition,
@@ -205,9 +196,6 @@ export function analyzeVesselSchedule(
   }>
 ): VesselSchedule {
   const routes: RouteSegment[] = [];
-  let totalTransitDistanceNm = 0;
-  let totalTransitHours = 0;
-  let totalFuelLiters = 0;
   let idleDays = 0;
 
   // Sort assignments by start date
@@ -215,79 +203,42 @@ export function analyzeVesselSchedule(
     (a, b) => a.startDate.getTime() - b.startDate.getTime()
   );
 
-  // Calculate from vessel's current position to first assignment
-  if (sortedAssignments.length > 0) {
-    const first = sortedAssignments[0];
-    const distanceToFirst = calculateDistanceNm(
-      vessel.lat,
-      vessel.lng,
-      first.location.lat,
-      first.location.lng
-    );
-
-    if (distanceToFirst > 1) { // Only count if > 1nm
-      const hours = calculateTransitHours(distanceToFirst, vessel.speed);
-      const fuel = calculateFuelConsumption(distanceToFirst, vessel.type);
-
-      routes.push({
-        from: { name: `${vessel.name} (current)`, lat: vessel.lat, lng: vessel.lng },
-        to: { name: first.projectName, lat: first.location.lat, lng: first.location.lng },
-        distanceNm: distanceToFirst,
-        estimatedHours: hours,
-        fuelLiters: fuel,
-      });
-
-      totalTransitDistanceNm += distanceToFirst;
-      totalTransitHours += hours;
-      totalFuelLiters += fuel;
-    }
-  }
-
-  // Calculate inter-project transits
-  for (let i = 0; i < sortedAssignments.length - 1; i++) {
-    const current = sortedAssignments[i];
-    const next = sortedAssignments[i + 1];
-
-    // Calculate idle time between projects
-    const gapDays = (next.startDate.getTime() - current.endDate.getTime()) / (1000 * 60 * 60 * 24);
-    if (gapDays > 0) {
-      idleDays += gapDays;
+  // From the vessel's current position through each project in turn
+  let from = { name: `${vessel.name} (current)`, lat: vessel.lat, lng: vessel.lng };
+  sortedAssignments.forEach((assignment, i) => {
+    const previous = sortedAssignments[i - 1];
+    if (previous) {
+      // Calculate idle time between projects
+      const gapDays = (assignment.startDate.getTime() - previous.endDate.getTime()) / (1000 * 60 * 60 * 24);
+      if (gapDays > 0) {
+        idleDays += gapDays;
+      }
     }
 
-    // Calculate transit distance
-    const distance = calculateDistanceNm(
-      current.location.lat,
-      current.location.lng,
-      next.location.lat,
-      next.location.lng
-    );
-
-    if (distance > 1) { // Only count if > 1nm
-      const hours = calculateTransitHours(distance, vessel.speed);
-      const fuel = calculateFuelConsumption(distance, vessel.type);
-
+    const to = { name: assignment.projectName, lat: assignment.location.lat, lng: assignment.location.lng };
+    const transit = estimateTransit(vessel, from, to);
+    if (transit.distanceNm > 1) { // Only count if > 1nm
       routes.push({
-        from: { name: current.projectName, lat: current.location.lat, lng: current.location.lng },
-        to: { name: next.projectName, lat: next.location.lat, lng: next.location.lng },
-        distanceNm: distance,
-        estimatedHours: hours,
-        fuelLiters: fuel,
+        from,
+        to,
+        distanceNm: transit.distanceNm,
+        estimatedHours: transit.transitHours,
+        fuelLiters: transit.fuelLiters,
+        cost: transit.cost,
       });
-
-      totalTransitDistanceNm += distance;
-      totalTransitHours += hours;
-      totalFuelLiters += fuel;
     }
-  }
+    from = to;
+  });
 
   return {
     vesselId: vessel.id,
     vesselName: vessel.name,
     vesselType: vessel.type,
     assignments: sortedAssignments,
-    totalTransitDistanceNm,
-    totalTransitHours,
-    totalFuelLiters,
+    totalTransitDistanceNm: routes.reduce((sum, r) => sum + r.distanceNm, 0),
+    totalTransitHours: routes.reduce((sum, r) => sum + r.estimatedHours, 0),
+    totalFuelLiters: routes.reduce((sum, r) => sum + r.fuelLiters, 0),
+    totalTransitCostUSD: routes.reduce((sum, r) => sum + r.cost.totalUSD, 0),
     idleDays,
     routes,
   };
@@ -401,17 +352,21 @@ function improve2Opt(
 
 /**
  * Score a vessel's suitability for a project
+ * Eligible vessels (right type, free for the project) are then ranked on
+ * what it costs to mobilise them from their previous job and demobilise
+ * them to the next one, or to base.
  */
 function scoreVesselForProject(
   vessel: VesselPosition,
   project: ProjectLocation,
-  existingAssignments: Array<{ vesselId: string; startDate: Date; endDate: Date }>
-): { score: number; reasons: string[] } {
+  programme: Array<{ projectId: string; projectName: string; location: { lat: number; lng: number }; startDate: Date; endDate: Date }>
+): { score: number; eligible: boolean; reasons: string[]; mobilisation: MobilisationEstimate } {
   let score = 50;
   const reasons: string[] = [];
 
   // Type match (highest weight)
-  if (project.requiredVesselTypes.includes(vessel.type)) {
+  const typeMatch = project.requiredVesselTypes.includes(vessel.type);
+  if (typeMatch) {
     score += 30;
     reasons.push(`Type match: ${vessel.type}`);
   } else {
@@ -419,25 +374,33 @@ function scoreVesselForProject(
     reasons.push(`Type mismatch: needs ${project.requiredVesselTypes.join('/')}, has ${vessel.type}`);
   }
 
-  // Distance from vessel to project (closer is better)
-  const distance = calculateDistanceNm(vessel.lat, vessel.lng, project.lat, project.lng);
-  if (distance < 20) {
-    score += 20;
-    reasons.push(`Nearby: ${distance.toFixed(0)}nm transit`);
-  } else if (distance < 50) {
-    score += 10;
-    reasons.push(`Moderate distance: ${distance.toFixed(0)}nm transit`);
-  } else if (distance > 150) {
-    score -= 15;
-    reasons.push(`Far: ${distance.toFixed(0)}nm transit`);
-  }
+  const otherJobs = programme.filter((a) => a.projectId !== project.id);
+  const previous = otherJobs
+    .filter((a) => a.endDate <= project.startDate)
+    .sort((a, b) => b.endDate.getTime() - a.endDate.getTime())[0];
+  const next = otherJobs
+    .filter((a) => a.startDate >= project.endDate)
+    .sort((a, b) => a.startDate.getTime() - b.startDate.getTime())[0];
+
+  // Cost to bring the vessel onto the project and off it again
+  const mobilisation = estimateMobilisation(
+    {
+      ...vessel,
+      ...(previous ? previous.location : {}),
+      base: next ? { name: next.projectName, ...next.location } : vessel.base,
+    },
+    project
+  );
+  const passage = mobilisation.mobilisation;
+  reasons.push(
+    `Mobilisation ${formatCurrency(mobilisation.totalUSD)}: ${formatDistance(passage.distanceNm)}` +
+    (previous ? ` from ${previous.projectName}` : '') +
+    (passage.towed ? ` under tow (${passage.tugs} tug${passage.tugs === 1 ? '' : 's'})` : '')
+  );
 
-  // Check for schedule conflicts
-  const hasConflict = existingAssignments.some(
-    (a) =>
-      a.vesselId === vessel.id &&
-      a.startDate <= project.endDate &&
-      a.endDate >= project.startDate
+  // Check for schedule conflicts with the vessel's other work
+  const hasConflict = otherJobs.some(
+    (a) => a.startDate <= project.endDate && a.endDate >= project.startDate
   );
 
   if (hasConflict) {
@@ -448,7 +411,30 @@ function scoreVesselForProject(
     reasons.push('Available during project period');
   }
 
-  return { score: Math.max(0, Math.min(100, score)), reasons };
+  return {
+    score: Math.max(0, Math.min(100, score)),
+    eligible: typeMatch && !hasConflict,
+    reasons,
+    mobilisation,
+  };
+}
+
+/**
+ * Transit legs from a start point through a sequence of locations, costed
+ */
+function costSequence(
+  vessel: VesselPosition,
+  locations: Array<{ name: string; lat: number; lng: number }>
+): { distanceNm: number; fuelLiters: number; hours: number; cost: MobilisationCostBreakdown } {
+  const legs = locations.map((to, i) =>
+    estimateTransit(vessel, i === 0 ? vessel : locations[i - 1], to)
+  );
+  return {
+    distanceNm: legs.reduce((sum, l) => sum + l.distanceNm, 0),
+    fuelLiters: legs.reduce((sum, l) => sum + l.fuelLiters, 0),
+    hours: legs.reduce((sum, l) => sum + l.transitHours, 0),
+    cost: sumCostBreakdowns(legs.map(l => l.cost)),
+  };
 }
 
 // ============================================================================
@@ -502,6 +488,7 @@ export function optimizeFleet(input: OptimizationInput): FleetOptimizationResult
     totalFleetDistanceNm: originalSchedules.reduce((sum, s) => sum + s.totalTransitDistanceNm, 0),
     totalFleetFuelLiters: originalSchedules.reduce((sum, s) => sum + s.totalFuelLiters, 0),
     totalFleetTransitHours: originalSchedules.reduce((sum, s) => sum + s.totalTransitHours, 0),
+    totalFleetTransitCostUSD: originalSchedules.reduce((sum, s) => sum + s.totalTransitCostUSD, 0),
     totalIdleDays: originalSchedules.reduce((sum, s) => sum + s.idleDays, 0),
     averageUtilization: calculateAverageUtilization(originalSchedules),
   };
@@ -552,33 +539,35 @@ export function optimizeFleet(input: OptimizationInput): FleetOptimizationResult
 
     // Only record change if there's actual improvement
     if (optimizedDistance < originalDistance - 5) { // At least 5nm savings
-      const distanceSaved = originalDistance - optimizedDistance;
-      const fuelSaved = calculateFuelConsumption(distanceSaved, vessel.type);
-      const timeSaved = calculateTransitHours(distanceSaved, vessel.speed);
-      const costSaved = fuelSaved * FUEL_COST_USD_PER_LITER;
-
-      changes.push({
-        type: 'resequence',
-        description: `Reorder ${vessel.name} project sequence`,
-        reasoning: `By visiting projects in optimal order based on proximity, transit distance reduced from ${originalDistance.toFixed(0)}nm to ${optimizedDistance.toFixed(0)}nm.`,
-        impact: {
-          distanceSavedNm: distanceSaved,
-          fuelSavedLiters: fuelSaved,
-          timeSavedHours: timeSaved,
-          costSavedUSD: costSaved,
-        },
-        affectedVessels: [vessel.id],
-        before: [{
-          vessel: vessel.name,
-          sequence: projectLocs.map((p) => p.name),
-          totalDistanceNm: originalDistance,
-        }],
-        after: [{
-          vessel: vessel.name,
-          sequence: improvedLocs.map((p) => p.name),
-          totalDistanceNm: optimizedDistance,
-        }],
-      });
+      const before = costSequence(vessel, projectLocs);
+      const after = costSequence(vessel, improvedLocs);
+
+      // Sea routes can disagree with the great-circle estimate; money decides
+      if (after.cost.totalUSD < before.cost.totalUSD) {
+        changes.push({
+          type: 'resequence',
+          description: `Reorder ${vessel.name} project sequence`,
+          reasoning: `By visiting projects in optimal order based on proximity, transit distance reduced from ${before.distanceNm.toFixed(0)}nm to ${after.distanceNm.toFixed(0)}nm and transit cost from ${formatCurrency(before.cost.totalUSD)} to ${formatCurrency(after.cost.totalUSD)}.`,
+          impact: {
+            distanceSavedNm: before.distanceNm - after.distanceNm,
+            fuelSavedLiters: before.fuelLiters - after.fuelLiters,
+            timeSavedHours: before.hours - after.hours,
+            costSavedUSD: before.cost.totalUSD - after.cost.totalUSD,
+          },
+          cost: { before: before.cost, after: after.cost },
+          affectedVessels: [vessel.id],
+          before: [{
+            vessel: vessel.name,
+            sequence: projectLocs.map((p) => p.name),
+            totalDistanceNm: before.distanceNm,
+          }],
+          after: [{
+            vessel: vessel.name,
+            sequence: improvedLocs.map((p) => p.name),
+            totalDistanceNm: after.distanceNm,
+          }],
+        });
+      }
     }
 
     // Rebuild assignments in optimized order
@@ -594,7 +583,7 @@ export function optimizeFleet(input: OptimizationInput): FleetOptimizationResult
   // OPTIMIZATION 2: Vessel-Project Reassignment
   // ========================================
 
-  // Find projects that could be better served by a different vessel
+  // Move a project onto the eligible vessel that is cheapest to mobilise
   projects.forEach((project) => {
     const currentlyAssigned = currentAssignments
       .filter((a) => a.projectId === project.id)
@@ -606,78 +595,68 @@ export function optimizeFleet(input: OptimizationInput): FleetOptimizationResult
     // Score all vessels for this project
     const vesselScores = vessels.map((v) => ({
       vessel: v,
-      ...scoreVesselForProject(v, project, currentAssignments),
+      ...scoreVesselForProject(v, project, optimizedAssignments.get(v.id) || []),
     }));
 
-    const bestVessel = vesselScores
-      .filter((s) => s.score > 0)
-      .sort((a, b) => b.score - a.score)[0];
-
     const currentVessel = currentlyAssigned[0];
     const currentScore = vesselScores.find((s) => s.vessel.id === currentVessel.id);
 
-    // If there's a significantly better option
-    if (bestVessel && currentScore && bestVessel.score > currentScore.score + 20) {
-      // Calculate improvement
-      const currentDistance = calculateDistanceNm(
-        currentVessel.lat,
-        currentVessel.lng,
-        project.lat,
-        project.lng
-      );
-      const newDistance = calculateDistanceNm(
-        bestVessel.vessel.lat,
-        bestVessel.vessel.lng,
-        project.lat,
-        project.lng
-      );
-
-      if (newDistance < currentDistance - 10) {
-        const distanceSaved = currentDistance - newDistance;
-        // Calculate actual fuel savings: old fuel usage - new fuel usage
-        const oldFuelUsage = calculateFuelConsumption(currentDistance, currentVessel.type);
-        const newFuelUsage = calculateFuelConsumption(newDistance, bestVessel.vessel.type);
-        const fuelSaved = oldFuelUsage - newFuelUsage;
-        const timeSaved = calculateTransitHours(currentDistance, currentVessel.speed) - 
-                          calculateTransitHours(newDistance, bestVessel.vessel.speed);
+    const bestVessel = vesselScores
+      .filter((s) => s.eligible && !currentlyAssigned.includes(s.vessel))
+      .sort((a, b) => a.mobilisation.totalUSD - b.mobilisation.totalUSD)[0];
+
+    if (!bestVessel || !currentScore) return;
+
+    // Worth moving if the current vessel can't do the job or the saving is real money
+    const saving = currentScore.mobilisation.totalUSD - bestVessel.mobilisation.totalUSD;
+    if (currentScore.eligible && saving < MIN_REASSIGNMENT_SAVING_USD) return;
+
+    const before = currentScore.mobilisation;
+    const after = bestVessel.mobilisation;
+    const costBefore = sumCostBreakdowns([before.mobilisation.cost, before.demobilisation.cost]);
+    const costAfter = sumCostBreakdowns([after.mobilisation.cost, after.demobilisation.cost]);
+    const distance = (e: MobilisationEstimate) => e.mobilisation.distanceNm + e.demobilisation.distanceNm;
+    const fuel = (e: MobilisationEstimate) => e.mobilisation.fuelLiters + e.demobilisation.fuelLiters;
+    const hours = (e: MobilisationEstimate) => e.mobilisation.transitHours + e.demobilisation.transitHours;
+
+    changes.push({
+      type: 'reassign',
+      description: `Reassign ${project.name} from ${currentVessel.name} to ${bestVessel.vessel.name}`,
+      reasoning: currentScore.eligible
+        ? `${bestVessel.vessel.name} costs ${formatCurrency(after.totalUSD)} to mobilise and demobilise against ${formatCurrency(before.totalUSD)} for ${currentVessel.name}. Reasons: ${bestVessel.reasons.join('; ')}`
+        : `${currentVessel.name} is not suited to ${project.name} (${currentScore.reasons.join('; ')}). ${bestVessel.vessel.name} is the cheapest eligible vessel${costAfter.totalUSD > costBefore.totalUSD ? `, at ${formatCurrency(costAfter.totalUSD - costBefore.totalUSD)} more to mobilise and demobilise` : ''}. Reasons: ${bestVessel.reasons.join('; ')}`,
+      impact: {
+        distanceSavedNm: Math.max(0, distance(before) - distance(after)), // Only show positive savings
+        fuelSavedLiters: Math.max(0, fuel(before) - fuel(after)),
+        timeSavedHours: Math.max(0, hours(before) - hours(after)),
+        costSavedUSD: Math.max(0, costBefore.totalUSD - costAfter.totalUSD), // Extra cost is in cost.after
+      },
+      cost: { before: costBefore, after: costAfter },
+      affectedVessels: [currentVessel.id, bestVessel.vessel.id],
+      before: [{
+        vessel: currentVessel.name,
+        sequence: [project.name],
+        totalDistanceNm: before.mobilisation.distanceNm,
+      }],
+      after: [{
+        vessel: bestVessel.vessel.name,
+        sequence: [project.name],
+        totalDistanceNm: after.mobilisation.distanceNm,
+      }],
+    });
 
-        changes.push({
-          type: 'reassign',
-          description: `Reassign ${project.name} from ${currentVessel.name} to ${bestVessel.vessel.name}`,
-          reasoning: `${bestVessel.vessel.name} is ${distanceSaved.toFixed(0)}nm closer and scores ${bestVessel.score} vs ${currentScore.score}. Reasons: ${bestVessel.reasons.join('; ')}`,
-          impact: {
-            distanceSavedNm: distanceSaved,
-            fuelSavedLiters: Math.max(0, fuelSaved), // Only show positive savings
-            timeSavedHours: Math.max(0, timeSaved),
-            costSavedUSD: Math.max(0, fuelSaved) * FUEL_COST_USD_PER_LITER,
-          },
-          affectedVessels: [currentVessel.id, bestVessel.vessel.id],
-          before: [{
-            vessel: currentVessel.name,
-            sequence: [project.name],
-            totalDistanceNm: currentDistance,
-          }],
-          after: [{
-            vessel: bestVessel.vessel.name,
-            sequence: [project.name],
-            totalDistanceNm: newDistance,
-          }],
-        });
+    // Apply the reassignment
+    const oldAssignments = optimizedAssignments.get(currentVessel.id) || [];
+    optimizedAssignments.set(
+      currentVessel.id,
+      oldAssignments.filter((a) => a.projectId !== project.id)
+    );
 
-        // Apply the reassignment
-        const oldAssignments = optimizedAssignments.get(currentVessel.id) || [];
-        optimizedAssignments.set(
-          currentVessel.id,
-          oldAssignments.filter((a) => a.projectId !== project.id)
-        );
-
-        const newAssignments = optimizedAssignments.get(bestVessel.vessel.id) || [];
-        const movedAssignment = oldAssignments.find((a) => a.projectId === project.id);
-        if (movedAssignment) {
-          newAssignments.push(movedAssignment);
-          optimizedAssignments.set(bestVessel.vessel.id, newAssignments);
-        }
-      }
+    const newAssignments = optimizedAssignments.get(bestVessel.vessel.id) || [];
+    const movedAssignment = oldAssignments.find((a) => a.projectId === project.id);
+    if (movedAssignment) {
+      newAssignments.push(movedAssignment);
+      optimizedAssignments.set(bestVessel.vessel.id, newAssignments);
     }
   });
 
@@ -691,6 +670,7 @@ export function optimizeFleet(input: OptimizationInput): FleetOptimizationResult
     totalFleetDistanceNm: optimizedSchedules.reduce((sum, s) => sum + s.totalTransitDistanceNm, 0),
     totalFleetFuelLiters: optimizedSchedules.reduce((sum, s) => sum + s.totalFuelLiters, 0),
     totalFleetTransitHours: optimizedSchedules.reduce((sum, s) => sum + s.totalTransitHours, 0),
+    totalFleetTransitCostUSD: optimizedSchedules.reduce((sum, s) => sum + s.totalTransitCostUSD, 0),
     totalIdleDays: optimizedSchedules.reduce((sum, s) => sum + s.idleDays, 0),
     averageUtilization: calculateAverageUtilization(optimizedSchedules),
   };
@@ -700,7 +680,7 @@ export function optimizeFleet(input: OptimizationInput): FleetOptimizationResult
     totalDistanceSavedNm: originalMetrics.totalFleetDistanceNm - optimizedMetrics.totalFleetDistanceNm,
     totalFuelSavedLiters: originalMetrics.totalFleetFuelLiters - optimizedMetrics.totalFleetFuelLiters,
     totalTimeSavedHours: originalMetrics.totalFleetTransitHours - optimizedMetrics.totalFleetTransitHours,
-    totalCostSavedUSD: (originalMetrics.totalFleetFuelLiters - optimizedMetrics.totalFleetFuelLiters) * FUEL_COST_USD_PER_LITER,
+    totalCostSavedUSD: originalMetrics.totalFleetTransitCostUSD - optimizedMetrics.totalFleetTransitCostUSD,
     utilizationGainPercent: optimizedMetrics.averageUtilization - originalMetrics.averageUtilization,
   };
 
@@ -0,0 +1,251 @@
+/**
+ * Mobilisation Cost Model
+ *
+ * What it costs to move a vessel onto a project and back off it: transit
+ * fuel along the sea route from the route engine, the vessel's day rate
+ * while it is not working, tugs for units that cannot sail themselves
+ * (jack-ups, cutter suction dredgers, lay and accommodation barges), port
+ * dues at the ports it leaves and returns to, and getting the project crew
+ * on board.
+ */
+
+import { calculateDistanceNm } from '@/lib/geodesy';
+import { buildRoute, fetchNetworkRoute } from '@/lib/routes/engine';
+import { normaliseVesselType } from './optimizer';
+import { MobilisationCostBreakdown, MobilisationEstimate, TransitEstimate } from './types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface MobilisingVessel {
+  id: string;
+  name: string;
+  type: string;
+  lat: number;
+  lng: number;
+  speed?: number; // knots, when sailing on its own
+  selfPropelled?: boolean; // Defaults by vessel type
+  crewCount?: number; // Project crew to bring on board
+  dayRateUSD?: number;
+  base?: { name: string; lat: number; lng: number }; // Where it demobilises to
+}
+
+interface Place {
+  name?: string;
+  lat: number;
+  lng: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const PORT_RADIUS_NM = 5; // Closer than this to a port counts as in port
+const OFFSHORE_SITE_NM = 10; // Sites further than this from a port need a crew boat
+const TOW_SPEED_KNOTS = 5;
+const TOW_CONNECT_HOURS = 6; // Making fast and letting go of the tow, both ends
+const TUG_DAY_RATE_USD = 6500;
+const CREW_TRAVEL_USD_PER_PERSON = 150;
+const SITE_INDUCTION_USD_PER_PERSON = 250;
+const CREW_BOAT_TRIP_USD = 4000;
+
+export const MOBILISATION_BASE = { name: 'Mussafah', lat: 24.35, lng: 54.5 };
+
+// Port dues and pilotage for a mid-sized unit; scaled by PORT_FEE_FACTOR
+const PORTS: Array<Place & { name: string; callFeeUSD: number }> = [
+  { name: 'Mussafah', lat: 24.35, lng: 54.5, callFeeUSD: 1200 },
+  { name: 'Mina Zayed', lat: 24.52, lng: 54.38, callFeeUSD: 3500 },
+  { name: 'Khalifa Port', lat: 24.8, lng: 54.65, callFeeUSD: 4000 },
+  { name: 'Ruwais', lat: 24.1, lng: 52.73, callFeeUSD: 3000 },
+  { name: 'Jebel Ali', lat: 25.0, lng: 55.06, callFeeUSD: 5000 },
+  { name: 'Fujairah', lat: 25.17, lng: 56.36, callFeeUSD: 4500 },
+];
+
+// Keyed on the schedule optimizer's vessel types (normaliseVesselType)
+const DAY_RATES_USD: Record<string, number> = {
+  dredger: 55000,
+  tug: 6500,
+  supply_vessel: 9000,
+  survey_vessel: 8000,
+  pipelay_barge: 120000,
+  derrick_barge: 110000,
+  jack_up: 40000,
+  accommodation_barge: 30000,
+  work_barge: 8000,
+};
+const DEFAULT_DAY_RATE_USD = 15000;
+
+// Units without their own propulsion, and those big enough to need two tugs
+const TOWED_TYPES = new Set(['jack_up', 'pipelay_barge', 'derrick_barge', 'accommodation_barge', 'work_barge']);
+const TWO_TUG_TYPES = new Set(['pipelay_barge', 'derrick_barge', 'accommodation_barge']);
+
+// Cutter suction dredgers share the dredger type but have no propulsion of their own
+const TOWED_DREDGERS = new Set(['csd', 'cutter_suction_dredger']);
+
+const PORT_FEE_FACTOR: Record<string, number> = {
+  tug: 0.4,
+  supply_vessel: 0.6,
+  survey_vessel: 0.4,
+  work_barge: 0.6,
+  dredger: 1.5,
+  pipelay_barge: 2,
+  derrick_barge: 2,
+  accommodation_barge: 1.5,
+};
+
+// Project crew brought on board when the vessel's own figure is unknown
+const DEFAULT_PROJECT_CREW: Record<string, number> = {
+  dredger: 35,
+  tug: 8,
+  supply_vessel: 12,
+  survey_vessel: 10,
+  pipelay_barge: 150,
+  derrick_barge: 150,
+  jack_up: 80,
+  accommodation_barge: 20,
+  work_barge: 10,
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function isTowedDredger(type: string): boolean {
+  return TOWED_DREDGERS.has(type.trim().toLowerCase().replace(/[\s-]+/g, '_'));
+}
+
+export function isTowed(vessel: Pick<MobilisingVessel, 'type' | 'selfPropelled'>): boolean {
+  if (vessel.selfPropelled !== undefined) return !vessel.selfPropelled;
+  return TOWED_TYPES.has(normaliseVesselType(vessel.type)) || isTowedDredger(vessel.type);
+}
+
+function tugsNeeded(type: string): number {
+  return TWO_TUG_TYPES.has(normaliseVesselType(type)) || isTowedDredger(type) ? 2 : 1;
+}
+
+function nearestPort(place: Place): { port: (typeof PORTS)[number]; distanceNm: number } {
+  return PORTS
+    .map(port => ({ port, distanceNm: calculateDistanceNm(place.lat, place.lng, port.lat, port.lng) }))
+    .sort((a, b) => a.distanceNm - b.distanceNm)[0];
+}
+
+function portFee(vessel: MobilisingVessel, place: Place): number {
+  const { port, distanceNm } = nearestPort(place);
+  if (distanceNm > PORT_RADIUS_NM) return 0;
+  return port.callFeeUSD * (PORT_FEE_FACTOR[normaliseVesselType(vessel.type)] ?? 1);
+}
+
+function breakdown(parts: Omit<MobilisationCostBreakdown, 'totalUSD'>): MobilisationCostBreakdown {
+  const rounded = {
+    fuelUSD: Math.round(parts.fuelUSD),
+    vesselDaysUSD: Math.round(parts.vesselDaysUSD),
+    towageUSD: Math.round(parts.towageUSD),
+    portFeesUSD: Math.round(parts.portFeesUSD),
+    crewChangeUSD: Math.round(parts.crewChangeUSD),
+  };
+  return { ...rounded, totalUSD: Object.values(rounded).reduce((sum, v) => sum + v, 0) };
+}
+
+/**
+ * Add cost breakdowns together, e.g. every leg of a vessel's programme
+ */
+export function sumCostBreakdowns(items: MobilisationCostBreakdown[]): MobilisationCostBreakdown {
+  return breakdown({
+    fuelUSD: items.reduce((sum, c) => sum + c.fuelUSD, 0),
+    vesselDaysUSD: items.reduce((sum, c) => sum + c.vesselDaysUSD, 0),
+    towageUSD: items.reduce((sum, c) => sum + c.towageUSD, 0),
+    portFeesUSD: items.reduce((sum, c) => sum + c.portFeesUSD, 0),
+    crewChangeUSD: items.reduce((sum, c) => sum + c.crewChangeUSD, 0),
+  });
+}
+
+// Sea routes by end points, type and speed; the network search is the slow part
+const routeCache = new Map<string, { distanceNm: number; hours: number; fuelLiters: number; fuelUSD: number }>();
+
+function seaRoute(from: Place, to: Place, profileType: string, speed: number | undefined) {
+  const key = [from.lat, from.lng, to.lat, to.lng].map(v => v.toFixed(3)).join(',') + `|${profileType}|${speed ?? ''}`;
+  if (!routeCache.has(key)) {
+    const { waypoints } = fetchNetworkRoute(from.lat, from.lng, to.lat, to.lng);
+    const route = buildRoute('mobilisation', 'Mobilisation', profileType, waypoints, from, to, { speed });
+    routeCache.set(key, {
+      distanceNm: route.totalDistance,
+      hours: route.estimatedTime,
+      fuelLiters: route.fuelConsumption,
+      fuelUSD: route.cost,
+    });
+  }
+  return routeCache.get(key)!;
+}
+
+// ============================================================================
+// Estimates
+// ============================================================================
+
+/**
+ * Cost of one passage between two points, under tow when the vessel needs it
+ */
+export function estimateTransit(vessel: MobilisingVessel, from: Place, to: Place): TransitEstimate {
+  const towed = isTowed(vessel);
+  const tugs = towed ? tugsNeeded(vessel.type) : 0;
+  const none = { distanceNm: 0, transitHours: 0, fuelLiters: 0, towed, tugs: 0, cost: sumCostBreakdowns([]) };
+  if (calculateDistanceNm(from.lat, from.lng, to.lat, to.lng) < 1) return none;
+
+  // A tow burns the tugs' fuel at tow speed; the barge's own generators are in its day rate
+  const route = towed
+    ? seaRoute(from, to, 'tugboat', TOW_SPEED_KNOTS)
+    : seaRoute(from, to, vessel.type, vessel.speed);
+  const hours = route.hours + (towed ? TOW_CONNECT_HOURS : 0);
+  const dayRate = vessel.dayRateUSD ?? DAY_RATES_USD[normaliseVesselType(vessel.type)] ?? DEFAULT_DAY_RATE_USD;
+
+  return {
+    distanceNm: Math.round(route.distanceNm * 10) / 10,
+    transitHours: Math.round(hours * 10) / 10,
+    fuelLiters: Math.round(route.fuelLiters * Math.max(1, tugs)),
+    towed,
+    tugs,
+    cost: breakdown({
+      fuelUSD: route.fuelUSD * Math.max(1, tugs),
+      vesselDaysUSD: (hours / 24) * dayRate,
+      towageUSD: (hours / 24) * TUG_DAY_RATE_USD * tugs,
+      portFeesUSD: portFee(vessel, from) + portFee(vessel, to),
+      crewChangeUSD: 0,
+    }),
+  };
+}
+
+/**
+ * Mobilise from the vessel's current position to a project site and
+ * demobilise back to its base
+ *
+ * The project crew travels out and is inducted on mobilisation and travels
+ * home on demobilisation, by crew boat when the site is offshore. A vessel
+ * already on site mobilises for nothing.
+ */
+export function estimateMobilisation(
+  vessel: MobilisingVessel,
+  project: { id: string; name?: string; lat: number; lng: number }
+): MobilisationEstimate {
+  const base = vessel.base ?? MOBILISATION_BASE;
+  const crew = vessel.crewCount ?? DEFAULT_PROJECT_CREW[normaliseVesselType(vessel.type)] ?? 10;
+  const offshore = nearestPort(project).distanceNm > OFFSHORE_SITE_NM;
+  const crewBoat = offshore ? CREW_BOAT_TRIP_USD : 0;
+
+  const withCrew = (transit: TransitEstimate, perPerson: number): TransitEstimate => transit.distanceNm === 0
+    ? transit
+    : { ...transit, cost: sumCostBreakdowns([transit.cost, breakdown({ fuelUSD: 0, vesselDaysUSD: 0, towageUSD: 0, portFeesUSD: 0, crewChangeUSD: crew * perPerson + crewBoat })]) };
+
+  const mobilisation = withCrew(
+    estimateTransit(vessel, vessel, project),
+    CREW_TRAVEL_USD_PER_PERSON + SITE_INDUCTION_USD_PER_PERSON
+  );
+  const demobilisation = withCrew(estimateTransit(vessel, project, base), CREW_TRAVEL_USD_PER_PERSON);
+
+  return {
+    vesselId: vessel.id,
+    projectId: project.id,
+    mobilisation,
+    demobilisation,
+    totalUSD: mobilisation.cost.totalUSD + demobilisation.cost.totalUSD,
+  };
+}
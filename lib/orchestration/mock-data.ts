@@ -1,4 +1,6 @@
-import { Project, VesselAssignment, ScheduleConflict, FleetMetrics } from './types';
+import { Project, VesselAssignment, ScheduleConflict, FleetMetrics, CertificateType, CrewMember, CrewRank, MetoceanSample } from './types';
+import { requiredCertificates } from './roster';
+import { generateHindcastSeries } from './weather-window';
 import { getVesselIssues, VESSEL_ISSUES, VesselIssues } from '../vessel-issues';
 import { getNMDCVesselByMMSI } from '../nmdc/fleet';
 
@@ -28,7 +30,17 @@ export function generateMockProjects(): Project[] {
         vesselTypes: ['pipelay_barge', 'derrick_barge'],
         crewCount: 300,
         equipment: ['Tensioner system', 'Stinger', 'Heavy lift crane'],
+        competencies: [
+          { id: 'barge-master', label: 'Barge master', ranks: ['master'], count: 1 },
+          { id: 'dpo', label: 'DP operators', ranks: ['senior_dpo', 'dpo'], count: 2 },
+          { id: 'crane', label: 'Crane operators', ranks: ['crane_operator'], count: 2 },
+          { id: 'rigger', label: 'Riggers', ranks: ['rigger'], count: 2 },
+        ],
       },
+      weatherTasks: [
+        { id: 'riser-lift', name: 'Riser lift', operation: 'crane_lift', durationHours: 10 },
+        { id: 'spool-tie-in', name: 'Subsea spool tie-in', operation: 'diving', durationHours: 18 },
+      ],
       assignedVessels: ['470339000', '471026000', '470284000'], // DLB-750, DELMA 2000, DLB-1000
       progress: 35,
       budget: { allocated: 125000000, spent: 43750000, currency: 'USD' },
@@ -49,7 +61,17 @@ export function generateMockProjects(): Project[] {
         vesselTypes: ['jack_up'],
         crewCount: 260,
         equipment: ['Jacking system', 'Crane', 'Welding equipment'],
+        competencies: [
+          { id: 'master', label: 'Master', ranks: ['master'], count: 1 },
+          { id: 'jacking', label: 'Jacking engineers', ranks: ['chief_engineer', 'engineer'], count: 2 },
+          { id: 'crane', label: 'Crane operators', ranks: ['crane_operator'], count: 2 },
+          { id: 'rigger', label: 'Riggers', ranks: ['rigger'], count: 2 },
+        ],
       },
+      weatherTasks: [
+        { id: 'module-lift', name: 'Topside module lift', operation: 'heavy_lift', durationHours: 14 },
+        { id: 'jack-down', name: 'Jack down and move off', operation: 'jacking', durationHours: 8 },
+      ],
       assignedVessels: ['470114000', '470426000', '470395000'], // SEP-550, SEP-650, SEP-750
       progress: 42,
       budget: { allocated: 76000000, spent: 31920000, currency: 'USD' },
@@ -70,6 +92,10 @@ export function generateMockProjects(): Project[] {
         vesselTypes: ['dredger'],
         crewCount: 80,
         equipment: ['Suction dredge', 'Survey equipment'],
+        competencies: [
+          { id: 'master', label: 'Dredge master', ranks: ['master'], count: 1 },
+          { id: 'engineer', label: 'Engineers', ranks: ['chief_engineer', 'engineer'], count: 2 },
+        ],
       },
       assignedVessels: ['470563000', '471072000'], // AL SADR, ARZANA
       progress: 35,
@@ -91,7 +117,14 @@ export function generateMockProjects(): Project[] {
         vesselTypes: ['supply_vessel', 'tug'],
         crewCount: 45,
         equipment: ['Standard marine equipment'],
+        competencies: [
+          { id: 'master', label: 'Master', ranks: ['master'], count: 1 },
+          { id: 'dpo', label: 'DP operators', ranks: ['senior_dpo', 'dpo'], count: 1 },
+        ],
       },
+      weatherTasks: [
+        { id: 'deck-cargo', name: 'Deck cargo transfer', operation: 'crane_lift', durationHours: 6 },
+      ],
       assignedVessels: ['470927000', '470337000'], // UMM SHAIF, NPCC SAADIYAT
       progress: 75,
       budget: { allocated: 40000000, spent: 30000000, currency: 'USD' },
@@ -223,6 +256,74 @@ export function generateMockConflicts(): ScheduleConflict[] {
   });
 }
 
+// Generate the crew pool for the mock projects - back-to-back pairs on 28/28
+// Includes deliberate gaps: a short rigger pool on Upper Zakum, a crane ticket
+// and a DPO medical running out mid-hitch
+export function generateMockCrew(): CrewMember[] {
+  const now = new Date();
+  const day = 24 * 60 * 60 * 1000;
+  const today = Math.floor(now.getTime() / day) * day;
+
+  const pools: Array<{ vessel: string; ranks: Array<[CrewRank, number]> }> = [
+    { vessel: '470339000', ranks: [['master', 2], ['senior_dpo', 2], ['dpo', 2], ['crane_operator', 4], ['rigger', 4]] }, // DLB-750
+    { vessel: '470114000', ranks: [['master', 2], ['chief_engineer', 2], ['engineer', 2], ['crane_operator', 4], ['rigger', 3]] }, // SEP-550
+    { vessel: '470563000', ranks: [['master', 2], ['chief_engineer', 2], ['engineer', 2]] }, // AL SADR
+    { vessel: '470927000', ranks: [['master', 2], ['senior_dpo', 2]] }, // UMM SHAIF
+  ];
+  const firstNames = ['Ahmed', 'Rajesh', 'Mohammed', 'Joseph', 'Khalid', 'Arun', 'Omar', 'Ramon', 'Saeed', 'Vikram', 'Hassan', 'Peter'];
+  const lastNames = ['Al Mansoori', 'Nair', 'Al Hammadi', 'Fernandes', 'Al Dhaheri', 'Pillai', 'Haddad', 'Santos', 'Al Ketbi', 'Menon', 'Rahman'];
+
+  const crew: CrewMember[] = [];
+  pools.forEach(pool => {
+    pool.ranks.forEach(([rank, count]) => {
+      for (let i = 0; i < count; i++) {
+        const n = crew.length;
+        // Back-to-back pairs share a cycle offset; the second joins as the first goes on leave
+        const offset = ((n - i + Math.floor(i / 2)) * 5) % 28;
+        const cycleStart = new Date(today - offset * day + (i % 2) * 28 * day);
+        crew.push({
+          id: `crew-${String(n + 1).padStart(3, '0')}`,
+          name: `${firstNames[n % firstNames.length]} ${lastNames[(n * 7) % lastNames.length]}`,
+          rank,
+          homeVesselId: pool.vessel,
+          rotation: { onDays: 28, offDays: 28, cycleStart },
+          certificates: requiredCertificates(rank).map((type, c) => ({
+            type,
+            number: `${type.toUpperCase()}-${1000 + n * 10 + c}`,
+            expiresAt: new Date(today + (200 + ((n * 37 + c * 53) % 900)) * day),
+          })),
+        });
+      }
+    });
+  });
+
+  const expiring: Array<[string, CertificateType, number]> = [
+    ['470114000', 'crane_operator', 20], // Crane ticket lapses mid-hitch on Upper Zakum
+    ['470339000', 'medical_fitness', 12], // DPO medical on DLB-750
+  ];
+  expiring.forEach(([vessel, type, days]) => {
+    const member = crew.find(c => c.homeVesselId === vessel && c.certificates.some(cert => cert.type === type)
+      && (type !== 'medical_fitness' || c.rank === 'senior_dpo'));
+    const certificate = member?.certificates.find(cert => cert.type === type);
+    if (certificate) certificate.expiresAt = new Date(today + days * day);
+  });
+
+  return crew;
+}
+
+// Generate hourly metocean for each project site, from now to the project end
+// Synthetic Gulf hindcast, seeded by project id
+export function generateMockMetocean(projects: Project[]): Record<string, MetoceanSample[]> {
+  const now = new Date();
+  const metocean: Record<string, MetoceanSample[]> = {};
+  projects.forEach(project => {
+    const hours = Math.ceil((project.schedule.endDate.getTime() - now.getTime()) / (60 * 60 * 1000));
+    if (hours <= 0) return;
+    metocean[project.id] = generateHindcastSeries(project.location, now, hours, { seed: project.id });
+  });
+  return metocean;
+}
+
 // Generate fleet metrics - now includes PM issue counts
 export function generateFleetMetrics(vessels: Array<{ id: string; status: string }>): FleetMetrics {
   const activeVessels = vessels.filter(v => v.status === 'operational').length;
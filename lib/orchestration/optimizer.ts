@@ -1,43 +1,962 @@
-import { Project, VesselAssignment, OptimizationResult, ScenarioSimulation } from './types';
+import { calculateDistanceNm } from '@/lib/geodesy';
+import { NMDCVessel } from '@/lib/nmdc/fleet';
+import { getVesselIssues } from '@/lib/vessel-issues';
+import { calculateFuelConsumption, calculateTransitHours } from './fleet-optimizer';
+import { validateRoster } from './roster';
+import { createSiteWeather, placeWeatherTasks, projectWeatherDowntime, SiteWeather } from './weather-window';
+import {
+  CrewAssignment,
+  CrewMember,
+  MetoceanSample,
+  Project,
+  VesselAssignment,
+  OptimizationResult,
+  ScenarioSimulation,
+  ScheduleConflict,
+  ScheduleMetrics,
+  ScheduleVessel,
+} from './types';
 
-// Simple schedule optimization (for demo purposes)
+// ============================================================================
+// Schedule Optimization - Constants
+// ============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+const FUEL_COST_USD_PER_LITER = 0.85;
+const VESSEL_DAY_RATE_USD = 15000; // Spread cost of a vessel day spent in transit
+const DEFAULT_SPEED_KNOTS = 10;
+const MAX_LATE_START_FRACTION = 0.25; // Share of a project window a vessel may arrive late
+const REASSIGNMENT_COST_USD = 25000; // Re-planning friction for moving work to another vessel
+const HEALTH_RISK_COST_PER_DAY = 5000; // Scaled by (1 - health) for each assignment day
+const CREW_SHORTFALL_COST_PER_PERSON = 20000;
+const MISSING_EQUIPMENT_COST = 2000000;
+const WEATHER_STANDBY_COST_PER_DAY = 45000; // Spread cost while a weather-sensitive task waits for a window
+const WEATHER_TASK_MISSED_COST = 5000000; // Task with no window before the project ends
+const MAX_IMPROVEMENT_PASSES = 20;
+
+const LATE_START_COST_PER_DAY: Record<Project['priority'], number> = {
+  critical: 250000,
+  high: 100000,
+  medium: 50000,
+  low: 20000,
+};
+
+// Leaving a project slot empty must always cost more than any way of filling it
+const UNFILLED_COST: Record<Project['priority'], number> = {
+  critical: 50000000,
+  high: 20000000,
+  medium: 8000000,
+  low: 3000000,
+};
+
+// Fleet type names (NMDC_FLEET, project requirements) onto one vocabulary
+const VESSEL_TYPE_ALIASES: Record<string, string> = {
+  hopper_dredger: 'dredger',
+  csd: 'dredger',
+  tugboat: 'tug',
+  supply: 'supply_vessel',
+  survey: 'survey_vessel',
+  barge: 'work_barge',
+  jack_up_barge: 'jack_up',
+  crane_barge: 'derrick_barge',
+};
+
+const DEFAULT_EQUIPMENT: Record<string, string[]> = {
+  pipelay_barge: ['Tensioner system', 'Stinger', 'Crane', 'Welding equipment'],
+  derrick_barge: ['Heavy lift crane', 'Welding equipment'],
+  jack_up: ['Jacking system', 'Crane', 'Welding equipment'],
+  dredger: ['Suction dredge', 'Survey equipment'],
+  survey_vessel: ['Survey equipment'],
+  accommodation_barge: ['Crane'],
+  work_barge: ['Crane'],
+};
+const STANDARD_EQUIPMENT = 'Standard marine equipment';
+
+const DEFAULT_CREW_CAPACITY: Record<string, number> = {
+  pipelay_barge: 250,
+  derrick_barge: 300,
+  jack_up: 150,
+  accommodation_barge: 400,
+  dredger: 40,
+  work_barge: 30,
+  supply_vessel: 20,
+  survey_vessel: 15,
+  tug: 10,
+};
+
+// Broken plans: the optimized schedule may never contain these
+const HARD_CONFLICT_TYPES: ScheduleConflict['type'][] = [
+  'vessel_double_booking',
+  'maintenance_overlap',
+  'transit_infeasible',
+  'vessel_type_mismatch',
+];
+
+// ============================================================================
+// Schedule Optimization - Model
+// ============================================================================
+
+interface TimeWindow {
+  start: number;
+  end: number;
+  reason: string;
+}
+
+// Work the optimizer leaves in place (on-hold or unlisted projects)
+interface CarriedWork extends TimeWindow {
+  site: { lat: number; lng: number } | null; // Null when the project is not in the input
+  underWay: boolean; // Started before now: no passage to check
+}
+
+interface VesselState {
+  vessel: ScheduleVessel;
+  type: string;
+  equipment: string[];
+  crewCapacity: number;
+  speedKnots: number;
+  position: { lat: number; lng: number } | null;
+  availableFrom: number;
+  maintenance: TimeWindow[];
+  carried: CarriedWork[];
+}
+
+// One vessel's worth of work on a project
+interface Slot {
+  key: string;
+  project: Project;
+  original?: VesselAssignment;
+  pinnedVesselId?: string; // Already on site: stays with its vessel
+  earliestStart: number; // Project start, or now once the project has started
+  end: number;
+}
+
+interface Placement {
+  slot: Slot;
+  vesselId: string;
+  start: number; // On site
+  transitNm: number;
+  transitHours: number;
+  lateDays: number;
+}
+
+interface PlanEvaluation {
+  cost: number;
+  placements: Placement[];
+}
+
+type Plan = Map<string, string>; // slot key -> vessel id
+
+interface CrewRoster {
+  members: CrewMember[];
+  assignments: CrewAssignment[];
+}
+
+interface SolverContext {
+  now: number;
+  slots: Slot[];
+  vessels: Map<string, VesselState>;
+  weather: Map<string, SiteWeather>; // Project id -> site metocean, for projects with one
+}
+
+export function normaliseVesselType(type: string): string {
+  const key = type.trim().toLowerCase().replace(/[\s-]+/g, '_');
+  return VESSEL_TYPE_ALIASES[key] || key;
+}
+
+function isMaintenance(assignment: VesselAssignment): boolean {
+  return assignment.projectId === 'maintenance';
+}
+
+function buildVesselState(vessel: ScheduleVessel, maintenanceAssignments: VesselAssignment[], now: number): VesselState {
+  const type = normaliseVesselType(vessel.type);
+  const hasPosition = typeof vessel.position_lat === 'number' && typeof vessel.position_lng === 'number';
+  return {
+    vessel,
+    type,
+    equipment: vessel.equipment ?? [...(DEFAULT_EQUIPMENT[type] ?? []), STANDARD_EQUIPMENT],
+    crewCapacity: vessel.crewCapacity ?? DEFAULT_CREW_CAPACITY[type] ?? 20,
+    speedKnots: vessel.speedKnots ?? DEFAULT_SPEED_KNOTS,
+    position: hasPosition ? { lat: vessel.position_lat!, lng: vessel.position_lng! } : null,
+    availableFrom: Math.max(now, vessel.availableFrom?.getTime() ?? now),
+    maintenance: [
+      ...(vessel.maintenanceWindows ?? []).map(w => ({
+        start: w.start.getTime(),
+        end: w.end.getTime(),
+        reason: w.reason || 'Maintenance',
+      })),
+      ...maintenanceAssignments
+        .filter(a => a.vesselId === vessel.id)
+        .map(a => ({ start: a.startDate.getTime(), end: a.endDate.getTime(), reason: a.projectName })),
+    ].sort((a, b) => a.start - b.start),
+    carried: [],
+  };
+}
+
+/**
+ * Vessel time already taken by assignments outside the re-planned slots
+ */
+function carriedWork(vesselId: string, carried: VesselAssignment[], projects: Project[], now: number): CarriedWork[] {
+  return carried
+    .filter(a => a.vesselId === vesselId && !isMaintenance(a) && a.status !== 'cancelled' && a.status !== 'completed')
+    .map(a => {
+      const project = projects.find(p => p.id === a.projectId);
+      return {
+        start: a.startDate.getTime(),
+        end: a.endDate.getTime(),
+        reason: a.projectName,
+        site: project ? { lat: project.location.lat, lng: project.location.lng } : null,
+        underWay: a.startDate.getTime() <= now,
+      };
+    })
+    .sort((a, b) => a.start - b.start);
+}
+
+function isEligible(state: VesselState, project: Project): boolean {
+  return project.requirements.vesselTypes.some(t => normaliseVesselType(t) === state.type);
+}
+
+function missingEquipment(project: Project, states: VesselState[]): string[] {
+  const available = states.flatMap(s => s.equipment.map(e => e.toLowerCase()));
+  return project.requirements.equipment.filter(item => {
+    const needed = item.toLowerCase();
+    return !available.some(e => e.includes(needed));
+  });
+}
+
+/**
+ * Walk one vessel through its slots in start order
+ *
+ * The vessel sails as late as it can to be on site at the project start,
+ * finishes any maintenance and carried work due before the project ends
+ * before sailing, and never interrupts a project. Returns null when the slots
+ * cannot all be worked.
+ */
+function scheduleVessel(state: VesselState, slots: Slot[]): Placement[] | null {
+  const ordered = [...slots].sort((a, b) => a.earliestStart - b.earliestStart);
+  const placements: Placement[] = [];
+  let location = state.position;
+  let freeAt = state.availableFrom;
+  let nextCarried = 0;
+  let afterPlacement = false;
+
+  // Carried work starting before `until` is done first, from wherever the vessel then is.
+  // Only passages from a placed slot are checked: clashes within the carried work are
+  // not the solver's to fix.
+  const workCarried = (until: number): boolean => {
+    while (nextCarried < state.carried.length && state.carried[nextCarried].start < until) {
+      const job = state.carried[nextCarried++];
+      if (placements.length > 0 && job.start < placements[placements.length - 1].slot.end) return false;
+      if (afterPlacement && job.site && location && !job.underWay) {
+        const transitNm = calculateDistanceNm(location.lat, location.lng, job.site.lat, job.site.lng);
+        const transitHours = transitNm > 0 ? calculateTransitHours(transitNm, state.speedKnots) : 0;
+        if (job.start - freeAt < transitHours * HOUR_MS - 1) return false;
+      }
+      if (job.site) location = job.site;
+      freeAt = Math.max(freeAt, job.end);
+      afterPlacement = false;
+    }
+    return true;
+  };
+
+  for (const slot of ordered) {
+    const site = slot.project.location;
+    const overlapsMaintenance = (from: number, to: number) =>
+      state.maintenance.some(w => w.start < to && w.end > from);
+    const overlapsCarried = (from: number, to: number) =>
+      state.carried.some(w => w.start < to && w.end > from);
+
+    if (!workCarried(slot.end)) return null;
+
+    if (slot.pinnedVesselId === state.vessel.id) {
+      // On site since before now
+      const start = slot.original!.startDate.getTime();
+      if (placements.length > 0 && start < placements[placements.length - 1].slot.end) return null;
+      if (overlapsMaintenance(start, slot.end) || overlapsCarried(start, slot.end)) return null;
+      placements.push({ slot, vesselId: state.vessel.id, start, transitNm: 0, transitHours: 0, lateDays: 0 });
+      freeAt = slot.end;
+      location = { lat: site.lat, lng: site.lng };
+      afterPlacement = true;
+      continue;
+    }
+
+    const transitNm = location ? calculateDistanceNm(location.lat, location.lng, site.lat, site.lng) : 0;
+    const transitHours = transitNm > 0 ? calculateTransitHours(transitNm, state.speedKnots) : 0;
+    const transitMs = transitHours * HOUR_MS;
+
+    // Maintenance due before the project ends is done first, then the vessel sails
+    let departure = Math.max(freeAt, slot.earliestStart - transitMs);
+    for (const window of state.maintenance) {
+      if (window.end <= departure || window.start >= slot.end) continue;
+      departure = window.end;
+    }
+
+    const start = Math.max(slot.earliestStart, departure + transitMs);
+    const lateMs = start - slot.earliestStart;
+    if (start >= slot.end || lateMs > MAX_LATE_START_FRACTION * (slot.end - slot.earliestStart)) return null;
+
+    placements.push({
+      slot,
+      vesselId: state.vessel.id,
+      start,
+      transitNm,
+      transitHours,
+      lateDays: lateMs / DAY_MS,
+    });
+    freeAt = slot.end;
+    location = { lat: site.lat, lng: site.lng };
+    afterPlacement = true;
+  }
+
+  // Carried work after the last slot must still be reachable
+  if (!workCarried(Infinity)) return null;
+
+  return placements;
+}
+
+/**
+ * Cost of a plan in USD, or null when any vessel cannot work its slots
+ *
+ * Real costs (transit fuel and days, late starts, health risk, reassignment)
+ * plus penalties for unfilled slots and unmet crew and equipment
+ * requirements, sized so that meeting a requirement always wins.
+ */
+function evaluatePlan(plan: Plan, ctx: SolverContext): PlanEvaluation | null {
+  const slotsByVessel = new Map<string, Slot[]>();
+  for (const slot of ctx.slots) {
+    const vesselId = plan.get(slot.key);
+    if (!vesselId) continue;
+    slotsByVessel.set(vesselId, [...(slotsByVessel.get(vesselId) ?? []), slot]);
+  }
+
+  const placements: Placement[] = [];
+  for (const [vesselId, slots] of slotsByVessel) {
+    const vesselPlacements = scheduleVessel(ctx.vessels.get(vesselId)!, slots);
+    if (!vesselPlacements) return null;
+    placements.push(...vesselPlacements);
+  }
+
+  let cost = 0;
+  for (const placement of placements) {
+    const state = ctx.vessels.get(placement.vesselId)!;
+    const { project, original } = placement.slot;
+    const fuelLiters = calculateFuelConsumption(placement.transitNm, state.type);
+    const workDays = (placement.slot.end - placement.start) / DAY_MS;
+    const health = (state.vessel.health_score ?? 100) / 100;
+
+    cost += fuelLiters * FUEL_COST_USD_PER_LITER;
+    cost += (placement.transitHours / 24) * VESSEL_DAY_RATE_USD;
+    cost += placement.lateDays * LATE_START_COST_PER_DAY[project.priority];
+    cost += workDays * (1 - health) * HEALTH_RISK_COST_PER_DAY;
+    if (original && original.vesselId !== placement.vesselId) cost += REASSIGNMENT_COST_USD;
+  }
+
+  const projects = new Map(ctx.slots.map(slot => [slot.project.id, slot.project]));
+  for (const project of projects.values()) {
+    const projectPlacements = placements.filter(p => p.slot.project.id === project.id);
+    const states = projectPlacements.map(p => ctx.vessels.get(p.vesselId)!);
+    const crew = states.reduce((sum, s) => sum + s.crewCapacity, 0);
+    cost += Math.max(0, project.requirements.crewCount - crew) * CREW_SHORTFALL_COST_PER_PERSON;
+    cost += missingEquipment(project, states).length * MISSING_EQUIPMENT_COST;
+
+    // Weather-sensitive tasks start once every vessel is on site
+    const site = ctx.weather.get(project.id);
+    if (site && project.weatherTasks?.length && projectPlacements.length > 0) {
+      for (const task of placeWeatherTasks(project, site, Math.max(...projectPlacements.map(p => p.start)))) {
+        cost += (task.waitHours / 24) * WEATHER_STANDBY_COST_PER_DAY;
+        if (task.status === 'no_window') cost += WEATHER_TASK_MISSED_COST;
+      }
+    }
+  }
+
+  for (const slot of ctx.slots) {
+    if (!plan.has(slot.key)) cost += UNFILLED_COST[slot.project.priority];
+  }
+
+  return { cost, placements };
+}
+
+function planCost(plan: Plan, ctx: SolverContext): number {
+  return evaluatePlan(plan, ctx)?.cost ?? Infinity;
+}
+
+function vesselOnProject(plan: Plan, ctx: SolverContext, vesselId: string, project: Project, except: Slot): boolean {
+  return ctx.slots.some(s => s !== except && s.project.id === project.id && plan.get(s.key) === vesselId);
+}
+
+/**
+ * Project slots to fill, one per vessel the current plan puts on a project
+ *
+ * Active assignments stay pinned to their vessel while that vessel can still
+ * work them; completed, on-hold and maintenance work is left alone.
+ */
+function buildSlots(assignments: VesselAssignment[], projects: Project[], now: number): Slot[] {
+  const slots: Slot[] = [];
+
+  for (const project of projects) {
+    if (project.status === 'completed' || project.status === 'on-hold') continue;
+    const start = project.schedule.startDate.getTime();
+    const end = project.schedule.endDate.getTime();
+    if (end <= now) continue;
+
+    const current = assignments.filter(a =>
+      a.projectId === project.id && a.status !== 'cancelled' && a.status !== 'completed'
+    );
+    const count = Math.max(1, current.length);
+    for (let i = 0; i < count; i++) {
+      const original = current[i];
+      const onSite = original && original.status === 'active' && original.startDate.getTime() <= now;
+      slots.push({
+        key: `${project.id}#${i}`,
+        project,
+        original,
+        pinnedVesselId: onSite ? original.vesselId : undefined,
+        earliestStart: Math.max(start, now),
+        end,
+      });
+    }
+  }
+
+  return slots;
+}
+
+// ============================================================================
+// Schedule Optimization - Search
+// ============================================================================
+
+const PRIORITY_RANK: Record<Project['priority'], number> = { critical: 0, high: 1, medium: 2, low: 3 };
+
+/**
+ * Keep each pin only while its vessel can still work it (right type, no
+ * maintenance or double booking); released slots are re-planned from now
+ */
+function resolvePins(ctx: SolverContext): Plan {
+  const plan: Plan = new Map();
+  const pinned = ctx.slots
+    .filter(s => s.pinnedVesselId)
+    .sort((a, b) => PRIORITY_RANK[a.project.priority] - PRIORITY_RANK[b.project.priority]);
+
+  for (const slot of pinned) {
+    const state = ctx.vessels.get(slot.pinnedVesselId!);
+    const fits = state && isEligible(state, slot.project) &&
+      !vesselOnProject(plan, ctx, state.vessel.id, slot.project, slot);
+    if (fits) {
+      plan.set(slot.key, state.vessel.id);
+      if (planCost(plan, ctx) !== Infinity) continue;
+      plan.delete(slot.key);
+    }
+    slot.pinnedVesselId = undefined;
+  }
+
+  return plan;
+}
+
+function candidateVessels(plan: Plan, ctx: SolverContext, slot: Slot): string[] {
+  return [...ctx.vessels.values()]
+    .filter(state => isEligible(state, slot.project) && !vesselOnProject(plan, ctx, state.vessel.id, slot.project, slot))
+    .map(state => state.vessel.id);
+}
+
+/**
+ * Greedy construction: most important and earliest slots first, each to the
+ * vessel that raises the plan cost least, keeping the original vessel on ties
+ */
+function constructPlan(plan: Plan, ctx: SolverContext): void {
+  const open = ctx.slots
+    .filter(s => !s.pinnedVesselId)
+    .sort((a, b) =>
+      PRIORITY_RANK[a.project.priority] - PRIORITY_RANK[b.project.priority] ||
+      a.earliestStart - b.earliestStart
+    );
+
+  for (const slot of open) {
+    let best: { vesselId: string; cost: number } | null = null;
+    const candidates = candidateVessels(plan, ctx, slot);
+    if (slot.original) candidates.sort((a, b) => Number(b === slot.original!.vesselId) - Number(a === slot.original!.vesselId));
+
+    for (const vesselId of candidates) {
+      plan.set(slot.key, vesselId);
+      const cost = planCost(plan, ctx);
+      if (cost < (best?.cost ?? Infinity)) best = { vesselId, cost };
+    }
+
+    if (best) plan.set(slot.key, best.vesselId);
+    else plan.delete(slot.key);
+  }
+}
+
+/**
+ * Local search: move single slots to other vessels (or fill empty ones) and
+ * swap vessels between slots while the plan cost keeps falling
+ */
+function improvePlan(plan: Plan, ctx: SolverContext): void {
+  const movable = ctx.slots.filter(s => !s.pinnedVesselId);
+  let current = planCost(plan, ctx);
+
+  for (let pass = 0; pass < MAX_IMPROVEMENT_PASSES; pass++) {
+    let improved = false;
+
+    for (const slot of movable) {
+      const assigned = plan.get(slot.key);
+      for (const vesselId of candidateVessels(plan, ctx, slot)) {
+        if (vesselId === assigned) continue;
+        plan.set(slot.key, vesselId);
+        const cost = planCost(plan, ctx);
+        if (cost < current - 1) {
+          current = cost;
+          improved = true;
+          break;
+        }
+        if (assigned) plan.set(slot.key, assigned);
+        else plan.delete(slot.key);
+      }
+    }
+
+    for (let i = 0; i < movable.length; i++) {
+      for (let j = i + 1; j < movable.length; j++) {
+        const a = movable[i];
+        const b = movable[j];
+        const va = plan.get(a.key);
+        const vb = plan.get(b.key);
+        if (!va || !vb || va === vb) continue;
+        const stateA = ctx.vessels.get(va)!;
+        const stateB = ctx.vessels.get(vb)!;
+        if (!isEligible(stateB, a.project) || !isEligible(stateA, b.project)) continue;
+
+        plan.set(a.key, vb);
+        plan.set(b.key, va);
+        const valid = !vesselOnProject(plan, ctx, vb, a.project, a) && !vesselOnProject(plan, ctx, va, b.project, b);
+        const cost = valid ? planCost(plan, ctx) : Infinity;
+        if (cost < current - 1) {
+          current = cost;
+          improved = true;
+        } else {
+          plan.set(a.key, va);
+          plan.set(b.key, vb);
+        }
+      }
+    }
+
+    if (!improved) break;
+  }
+}
+
+// ============================================================================
+// Schedule Optimization - Verification & Metrics
+// ============================================================================
+
+/**
+ * Check a schedule against vessel availability and project requirements
+ *
+ * Hard conflicts (double booking, transit that cannot be made, maintenance
+ * overlap, wrong vessel type) make a plan unworkable; crew and equipment
+ * shortfalls are reported per project. Given a crew roster, positions it
+ * leaves open or fills with unqualified or overworked crew are added as
+ * crew shortages (see ./roster).
+ */
+export function detectScheduleConflicts(
+  assignments: VesselAssignment[],
+  vessels: ScheduleVessel[],
+  projects: Project[],
+  options: { now?: Date; crew?: CrewRoster } = {}
+): ScheduleConflict[] {
+  const now = (options.now ?? new Date()).getTime();
+  const maintenance = assignments.filter(isMaintenance);
+  const states = new Map(vessels.map(v => [v.id, buildVesselState(v, maintenance, now)]));
+  const projectMap = new Map(projects.map(p => [p.id, p]));
+  const conflicts: ScheduleConflict[] = [];
+  const add = (conflict: Omit<ScheduleConflict, 'id'>) =>
+    conflicts.push({ id: `conflict-${conflict.type}-${conflicts.length + 1}`, ...conflict });
+
+  const work = assignments.filter(a => !isMaintenance(a) && a.status !== 'cancelled' && a.status !== 'completed');
+
+  for (const state of states.values()) {
+    const timeline = work
+      .filter(a => a.vesselId === state.vessel.id)
+      .sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
+    let location = state.position;
+    let freeAt = state.availableFrom;
+
+    timeline.forEach((assignment, index) => {
+      const project = projectMap.get(assignment.projectId);
+      const start = assignment.startDate.getTime();
+      const end = assignment.endDate.getTime();
+      const previous = timeline[index - 1];
+
+      if (previous && previous.endDate.getTime() > start) {
+        add({
+          type: 'vessel_double_booking',
+          severity: 'critical',
+          affectedVessels: [state.vessel.id],
+          affectedProjects: [previous.projectId, assignment.projectId],
+          description: `${state.vessel.name} is booked on ${previous.projectName} and ${assignment.projectName} at the same time`,
+          suggestedResolution: `Move one of the projects to another ${state.type.replace(/_/g, ' ')}`,
+        });
+      }
+
+      const window = state.maintenance.find(w => w.start < end && w.end > start);
+      if (window) {
+        add({
+          type: 'maintenance_overlap',
+          severity: 'critical',
+          affectedVessels: [state.vessel.id],
+          affectedProjects: [assignment.projectId],
+          description: `${state.vessel.name} is due for ${window.reason} during ${assignment.projectName}`,
+          suggestedResolution: 'Reassign the project or move the maintenance window',
+        });
+      }
+
+      if (project && !isEligible(state, project)) {
+        add({
+          type: 'vessel_type_mismatch',
+          severity: 'critical',
+          affectedVessels: [state.vessel.id],
+          affectedProjects: [project.id],
+          description: `${state.vessel.name} (${state.type.replace(/_/g, ' ')}) is not a type ${project.name} can use`,
+          suggestedResolution: `Assign a ${project.requirements.vesselTypes.join(' or ')}`,
+        });
+      }
+
+      // Work already under way needs no passage
+      if (project && start > now) {
+        const site = project.location;
+        const transitNm = location ? calculateDistanceNm(location.lat, location.lng, site.lat, site.lng) : 0;
+        const transitHours = transitNm > 0 ? calculateTransitHours(transitNm, state.speedKnots) : 0;
+        if (start - freeAt < transitHours * HOUR_MS - 1) {
+          add({
+            type: 'transit_infeasible',
+            severity: 'critical',
+            affectedVessels: [state.vessel.id],
+            affectedProjects: [project.id],
+            description: `${state.vessel.name} needs ${transitHours.toFixed(1)}h to reach ${project.location.name} but has ${Math.max(0, (start - freeAt) / HOUR_MS).toFixed(1)}h`,
+            suggestedResolution: 'Start the assignment later or use a vessel already nearby',
+          });
+        }
+      }
+
+      if (project) location = { lat: project.location.lat, lng: project.location.lng };
+      freeAt = Math.max(freeAt, end);
+    });
+  }
+
+  for (const project of projects) {
+    if (project.status === 'completed' || project.status === 'on-hold') continue;
+    const assigned = work
+      .filter(a => a.projectId === project.id && a.endDate.getTime() > now)
+      .map(a => states.get(a.vesselId))
+      .filter((s): s is VesselState => Boolean(s));
+    if (assigned.length === 0) continue;
+
+    const crew = assigned.reduce((sum, s) => sum + s.crewCapacity, 0);
+    if (crew < project.requirements.crewCount) {
+      add({
+        type: 'crew_shortage',
+        severity: 'warning',
+        affectedVessels: assigned.map(s => s.vessel.id),
+        affectedProjects: [project.id],
+        description: `${project.name} needs ${project.requirements.crewCount} crew; assigned vessels carry ${crew}`,
+        suggestedResolution: 'Add an accommodation barge or a larger vessel',
+      });
+    }
+
+    const missing = missingEquipment(project, assigned);
+    if (missing.length > 0) {
+      add({
+        type: 'equipment_unavailable',
+        severity: 'warning',
+        affectedVessels: assigned.map(s => s.vessel.id),
+        affectedProjects: [project.id],
+        description: `${project.name} is missing ${missing.join(', ')}`,
+        suggestedResolution: 'Assign a vessel carrying the missing equipment or hire it in',
+      });
+    }
+  }
+
+  if (options.crew) {
+    const roster = validateRoster(projects, options.crew.members, options.crew.assignments, { now: new Date(now) });
+    for (const conflict of roster.conflicts) {
+      conflicts.push({ ...conflict, id: `conflict-${conflict.type}-${conflicts.length + 1}` });
+    }
+  }
+
+  return conflicts;
+}
+
+/**
+ * Measure a schedule for the before and after comparison
+ *
+ * Slots left open (and vessels of the wrong type, which do no useful work)
+ * count, and cost, as late for the rest of their project. The solver's
+ * penalty for them is reported on its own, never as operating cost.
+ */
+function measureSchedule(
+  assignments: VesselAssignment[],
+  vessels: ScheduleVessel[],
+  projects: Project[],
+  now: number,
+  unfilledSlots: Project[],
+  crew?: CrewRoster
+): ScheduleMetrics {
+  const maintenance = assignments.filter(isMaintenance);
+  const projectMap = new Map(projects.map(p => [p.id, p]));
+  const work = assignments.filter(a =>
+    !isMaintenance(a) && a.status !== 'cancelled' && a.status !== 'completed' && a.endDate.getTime() > now
+  );
+  const horizonEnd = Math.max(now + DAY_MS, ...work.map(a => a.endDate.getTime()));
+
+  let transitDistanceNm = 0;
+  let transitFuelLiters = 0;
+  let transitHours = 0;
+  let lateStartDays = 0;
+  let lateStartCost = 0;
+  let workingDays = 0;
+  let unfilledAssignments = 0;
+  let unfilledPenalty = 0;
+  const leaveOpen = (project: Project) => {
+    unfilledAssignments++;
+    unfilledPenalty += UNFILLED_COST[project.priority];
+    const openDays = Math.max(0, project.schedule.endDate.getTime() - Math.max(project.schedule.startDate.getTime(), now)) / DAY_MS;
+    lateStartDays += openDays;
+    lateStartCost += openDays * LATE_START_COST_PER_DAY[project.priority];
+  };
+  unfilledSlots.forEach(leaveOpen);
+
+  for (const vessel of vessels) {
+    const state = buildVesselState(vessel, maintenance, now);
+    let location = state.position;
+    let freeAt = state.availableFrom;
+
+    for (const assignment of work
+      .filter(a => a.vesselId === vessel.id)
+      .sort((a, b) => a.startDate.getTime() - b.startDate.getTime())) {
+      const project = projectMap.get(assignment.projectId);
+      const start = assignment.startDate.getTime();
+      let onSite = Math.max(start, now);
+
+      if (project && start > now) {
+        const site = project.location;
+        const distance = location ? calculateDistanceNm(location.lat, location.lng, site.lat, site.lng) : 0;
+        const hours = distance > 0 ? calculateTransitHours(distance, state.speedKnots) : 0;
+        transitDistanceNm += distance;
+        transitFuelLiters += calculateFuelConsumption(distance, state.type);
+        transitHours += hours;
+        const maintenanceEnd = Math.max(
+          freeAt,
+          ...state.maintenance.filter(w => w.start < assignment.endDate.getTime() && w.end > freeAt).map(w => w.end)
+        );
+        onSite = Math.max(start, maintenanceEnd + hours * HOUR_MS);
+
+        const late = (onSite - Math.max(project.schedule.startDate.getTime(), now)) / DAY_MS;
+        if (late > 0) {
+          lateStartDays += late;
+          lateStartCost += late * LATE_START_COST_PER_DAY[project.priority];
+        }
+      }
+
+      // A vessel of the wrong type does no useful work and leaves its slot open
+      if (project && !isEligible(state, project)) leaveOpen(project);
+      else workingDays += Math.max(0, (Math.min(assignment.endDate.getTime(), horizonEnd) - onSite) / DAY_MS);
+      if (project) location = { lat: project.location.lat, lng: project.location.lng };
+      freeAt = Math.max(freeAt, assignment.endDate.getTime());
+    }
+  }
+
+  const fleetDays = Math.max(1, vessels.length) * ((horizonEnd - now) / DAY_MS);
+  const transitDays = transitHours / 24;
+
+  return {
+    utilization: Math.round((workingDays / fleetDays) * 1000) / 10,
+    transitDistanceNm: Math.round(transitDistanceNm * 10) / 10,
+    transitFuelLiters: Math.round(transitFuelLiters),
+    transitDays: Math.round(transitDays * 10) / 10,
+    lateStartDays: Math.round(lateStartDays * 10) / 10,
+    operatingCost: Math.round(transitFuelLiters * FUEL_COST_USD_PER_LITER + transitDays * VESSEL_DAY_RATE_USD + lateStartCost),
+    unfilledAssignments,
+    unfilledPenalty,
+    conflictCount: detectScheduleConflicts(assignments, vessels, projects, { now: new Date(now), crew }).length,
+  };
+}
+
+// ============================================================================
+// Schedule Optimization
+// ============================================================================
+
+/**
+ * Schedule vessel availability for an NMDC fleet vessel, with health from its PM issues
+ */
+export function scheduleVesselFromNMDC(vessel: NMDCVessel): ScheduleVessel {
+  const issues = getVesselIssues(vessel.mmsi)?.issues ?? [];
+  return {
+    id: vessel.mmsi,
+    name: vessel.name,
+    type: vessel.type,
+    health_score: issues.length > 0 ? Math.min(...issues.map(i => i.healthScore)) : undefined,
+    crewCapacity: vessel.specs?.accommodation ?? vessel.crewCount,
+  };
+}
+
+/**
+ * Re-plan vessel assignments against vessel availability and project needs
+ *
+ * Each project keeps as many vessels as the current plan gives it. Vessels
+ * must be of a type the project can use, reach the site in time from their
+ * previous job, stay clear of maintenance windows and never be double booked;
+ * within that, the search minimises transit, late starts and health risk while
+ * meeting crew and equipment requirements. The result is verified before it
+ * is returned and improvements compare the measured before and after plans.
+ * Clashes already within the work it leaves in place (on-hold or unlisted
+ * projects) are reported in conflicts rather than failing the run.
+ *
+ * With a metocean series per project (see ./weather-window), weather-sensitive
+ * tasks are placed only inside workable windows, vessels that arrive in time
+ * for a window are preferred, and the expected weather downtime is reported.
+ * With a crew roster, its gaps and breaches (see ./roster) are reported as
+ * crew shortages alongside the vessel conflicts.
+ */
 export function optimizeSchedule(
   assignments: VesselAssignment[],
-  vessels: Array<{ id: string; name: string; type: string; health_score?: number }>,
-  projects: Project[]
+  vessels: ScheduleVessel[],
+  projects: Project[],
+  options: { now?: Date; metocean?: Record<string, MetoceanSample[]>; crew?: CrewRoster } = {}
 ): OptimizationResult {
-  const optimizedAssignments = [...assignments];
-  
-  // Simple optimization: reduce gaps between assignments
-  const vesselTimelines = new Map<string, VesselAssignment[]>();
-  
-  assignments.forEach(assignment => {
-    const existing = vesselTimelines.get(assignment.vesselId) || [];
-    existing.push(assignment);
-    vesselTimelines.set(assignment.vesselId, existing);
+  const now = (options.now ?? new Date()).getTime();
+  const maintenance = assignments.filter(isMaintenance);
+  const slots = buildSlots(assignments, projects, now);
+
+  // Everything outside the re-planned slots is carried over unchanged
+  const replanned = new Set(slots.map(s => s.original?.id).filter(Boolean));
+  const carried = assignments.filter(a => !replanned.has(a.id));
+
+  const ctx: SolverContext = {
+    now,
+    slots,
+    vessels: new Map(vessels.map(v => [v.id, {
+      ...buildVesselState(v, maintenance, now),
+      carried: carriedWork(v.id, carried, projects, now),
+    }])),
+    weather: new Map(Object.entries(options.metocean ?? {})
+      .filter(([, series]) => series.length > 0)
+      .map(([projectId, series]) => [projectId, createSiteWeather(series)])),
+  };
+
+  const plan = resolvePins(ctx);
+  constructPlan(plan, ctx);
+  improvePlan(plan, ctx);
+
+  const evaluation = evaluatePlan(plan, ctx);
+  if (!evaluation) {
+    throw new Error('Schedule optimizer produced an unworkable plan');
+  }
+
+  const planned: VesselAssignment[] = evaluation.placements.map(({ slot, vesselId, start }) => {
+    const vessel = ctx.vessels.get(vesselId)!.vessel;
+    const original = slot.original;
+    if (original && original.vesselId === vesselId && original.startDate.getTime() === start) return original;
+    return {
+      id: original && original.vesselId === vesselId ? original.id : `assign-${slot.project.id}-${vesselId}`,
+      vesselId,
+      vesselName: vessel.name,
+      projectId: slot.project.id,
+      projectName: slot.project.name,
+      startDate: new Date(start),
+      endDate: new Date(slot.end),
+      status: start <= now ? 'active' : 'scheduled',
+      utilization: original?.utilization ?? 0,
+    };
   });
+  const optimizedSchedule = [...carried, ...planned];
+
+  const unfilled = ctx.slots.filter(s => !plan.has(s.key));
+  const conflicts = detectScheduleConflicts(optimizedSchedule, vessels, projects, { now: new Date(now), crew: options.crew });
 
-  // Calculate improvements
-  const utilizationGain = Math.round(5 + Math.random() * 10);
-  const costSavings = Math.round(50000 + Math.random() * 100000);
-  const fuelSavings = Math.round(1000 + Math.random() * 3000);
-  const timeReduction = Math.round(2 + Math.random() * 5);
+  // Clashes already within the carried work are reported, not blamed on the solver
+  const conflictKey = (c: ScheduleConflict) => `${c.type}|${c.affectedVessels.join(',')}|${c.description}`;
+  const carriedConflicts = new Set(
+    detectScheduleConflicts(carried, vessels, projects, { now: new Date(now) }).map(conflictKey)
+  );
+  const broken = conflicts.filter(c => HARD_CONFLICT_TYPES.includes(c.type) && !carriedConflicts.has(conflictKey(c)));
+  if (broken.length > 0) {
+    throw new Error(`Schedule optimizer produced conflicts: ${broken.map(c => c.description).join('; ')}`);
+  }
+
+  for (const slot of unfilled) {
+    conflicts.push({
+      id: `conflict-unfilled-${slot.key}`,
+      type: 'unfilled_assignment',
+      severity: 'critical',
+      affectedVessels: slot.original ? [slot.original.vesselId] : [],
+      affectedProjects: [slot.project.id],
+      description: `No ${slot.project.requirements.vesselTypes.join(' or ')} is free for ${slot.project.name}`,
+      suggestedResolution: 'Charter a vessel or move the project window',
+    });
+  }
+
+  const originalUnfilled = projects.filter(p =>
+    ctx.slots.some(s => s.project.id === p.id) &&
+    !assignments.some(a => a.projectId === p.id && a.status !== 'cancelled' && a.status !== 'completed')
+  );
+  const before = measureSchedule(assignments, vessels, projects, now, originalUnfilled, options.crew);
+  const after = measureSchedule(optimizedSchedule, vessels, projects, now, unfilled.map(s => s.project), options.crew);
+
+  const weather = ctx.weather.size > 0 ? planWeather(evaluation.placements, ctx, projects) : undefined;
+  for (const task of weather?.tasks.filter(t => t.status === 'no_window') ?? []) {
+    const project = projects.find(p => p.id === task.projectId)!;
+    conflicts.push({
+      id: `conflict-weather-${task.projectId}-${task.taskId}`,
+      type: 'weather_risk',
+      severity: project.priority === 'critical' || project.priority === 'high' ? 'critical' : 'warning',
+      affectedVessels: evaluation.placements.filter(p => p.slot.project.id === project.id).map(p => p.vesselId),
+      affectedProjects: [project.id],
+      description: `No ${task.operationId.replace(/_/g, ' ')} window fits ${task.name} before ${project.name} ends`,
+      suggestedResolution: 'Extend the project window, split the task or relax the operating limits',
+    });
+  }
+
+  // Confidence drops with guessed positions (transit unknown) and unmet requirements
+  const unplaced = evaluation.placements.filter(p => !ctx.vessels.get(p.vesselId)!.position).length;
+  const confidence = Math.max(40, Math.min(98, 95 - 3 * unplaced - 10 * conflicts.length));
 
   return {
-    id: `opt-${Date.now()}`,
+    id: `opt-${now}`,
     originalSchedule: assignments,
-    optimizedSchedule: optimizedAssignments,
+    optimizedSchedule,
     improvements: {
-      utilizationGain,
-      costSavings,
-      fuelSavings,
-      timeReduction,
+      utilizationGain: Math.round((after.utilization - before.utilization) * 10) / 10,
+      costSavings: before.operatingCost - after.operatingCost,
+      fuelSavings: before.transitFuelLiters - after.transitFuelLiters,
+      timeReduction: Math.round(
+        (before.transitDays + before.lateStartDays - after.transitDays - after.lateStartDays) * 10
+      ) / 10,
     },
-    conflicts: [],
-    confidence: 85 + Math.random() * 10,
+    before,
+    after,
+    conflicts,
+    confidence,
+    weather,
   };
 }
 
+/**
+ * Weather task placements and downtime for each project with site metocean
+ */
+function planWeather(placements: Placement[], ctx: SolverContext, projects: Project[]): OptimizationResult['weather'] {
+  const tasks: NonNullable<OptimizationResult['weather']>['tasks'] = [];
+  const downtime: NonNullable<OptimizationResult['weather']>['downtime'] = [];
+
+  for (const project of projects) {
+    const site = ctx.weather.get(project.id);
+    const starts = placements.filter(p => p.slot.project.id === project.id).map(p => p.start);
+    if (!site || starts.length === 0) continue;
+    const readyAt = Math.max(...starts);
+    const projectTasks = placeWeatherTasks(project, site, readyAt);
+    tasks.push(...projectTasks);
+    downtime.push(projectWeatherDowntime(project, site, readyAt, projectTasks));
+  }
+
+  return { tasks, downtime };
+}
+
 // Simulate a disruption scenario
 export function simulateScenario(
   scenarioType: 'vessel_breakdown' | 'weather_delay' | 'new_project' | 'resource_change',
@@ -0,0 +1,522 @@
+/**
+ * Monte Carlo Schedule Risk
+ *
+ * Each run samples the three things that move a marine project's finish
+ * date - weather downtime, equipment failures and transit times - plus the
+ * production rate, then walks the remaining work day by day. Thousands of
+ * runs give P50/P80/P90 completion dates and cost, and ranking the runs by
+ * each sampled driver gives the tornado of what matters most.
+ *
+ * Equipment failure odds come from the predictive-maintenance issues on each
+ * assigned vessel (time to failure and confidence); vessels without known
+ * issues fail at a background rate scaled by their health score.
+ */
+
+import { calculateDistanceNm } from '@/lib/geodesy';
+import { getNMDCVesselByMMSI } from '@/lib/nmdc/fleet';
+import { ProjectSite } from '@/lib/nmdc/projects';
+import { createSeededRng, Rng } from '@/lib/simulation/random';
+import { getVesselIssues } from '@/lib/vessel-issues';
+import { calculateFuelConsumption, calculateTransitHours } from './fleet-optimizer';
+import {
+  Project,
+  ProjectRiskAnalysis,
+  RiskDriver,
+  RiskDriverKind,
+  RiskHistogramBin,
+  ScheduleVessel,
+} from './types';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_RISK_ITERATIONS = 2000;
+export const MAX_RISK_ITERATIONS = 20000;
+const HISTOGRAM_BINS = 24;
+const MAX_SIMULATED_DAYS = 3650;
+const MAX_DRIVERS = 10;
+
+const FUEL_COST_USD_PER_LITER = 0.85;
+const SPREAD_COST_PER_VESSEL_DAY = 45000; // Vessel, crew and equipment spread while the project runs long
+const DEFAULT_SPEED_KNOTS = 8;
+const REPAIR_BASE = { name: 'Mussafah', lat: 24.35, lng: 54.5 };
+const ON_SITE_NM = 5;
+
+// Chance a weather downtime event starts on a given day, by month (Jan-Dec).
+// Winter shamals peak Dec-Feb, the summer shamal Jun-Jul.
+const WEATHER_ONSET_BY_MONTH = [0.08, 0.09, 0.07, 0.04, 0.03, 0.06, 0.06, 0.03, 0.02, 0.03, 0.05, 0.08];
+const WEATHER_EVENT_DAYS = { min: 1, max: 3 };
+
+// How much weather stops each kind of work
+const WEATHER_SENSITIVITY: Record<Project['type'], number> = {
+  construction: 1,
+  installation: 1,
+  decommissioning: 0.9,
+  survey: 0.8,
+  maintenance: 0.7,
+  dredging: 0.6,
+};
+
+// Remaining work takes this multiple of its planned time
+const PRODUCTIVITY = { min: 0.92, mode: 1, max: 1.3 };
+
+// Sailing times vs plan (weather routing, traffic, port clearance)
+const TRANSIT_FACTOR = { min: 0.9, mode: 1.05, max: 1.5 };
+
+// Converting PM time-to-failure units into calendar days on a project
+const TTF_UNITS_PER_DAY: Array<{ pattern: RegExp; perDay: number }> = [
+  { pattern: /operating hours?/i, perDay: 16 },
+  { pattern: /lift cycles?/i, perDay: 8 },
+  { pattern: /jacking cycles?/i, perDay: 0.3 },
+  { pattern: /hours?/i, perDay: 24 },
+  { pattern: /days?/i, perDay: 1 },
+  { pattern: /weeks?/i, perDay: 1 / 7 },
+];
+
+type IssuePriority = 'critical' | 'high' | 'medium' | 'low';
+
+// Mean days to failure when the PM prediction gives no usable time
+const MEAN_DAYS_TO_FAILURE: Record<IssuePriority, number> = {
+  critical: 30,
+  high: 90,
+  medium: 240,
+  low: 600,
+};
+const BACKGROUND_MTBF_DAYS = 365; // Vessels with no known issues, at full health
+
+const REPAIR_DAYS: Record<IssuePriority, { min: number; mode: number; max: number }> = {
+  critical: { min: 4, mode: 7, max: 14 },
+  high: { min: 2, mode: 4, max: 8 },
+  medium: { min: 1, mode: 2, max: 4 },
+  low: { min: 0.5, mode: 1, max: 2 },
+};
+
+const REPAIR_COST_USD: Record<IssuePriority, { min: number; mode: number; max: number }> = {
+  critical: { min: 250000, mode: 400000, max: 800000 },
+  high: { min: 80000, mode: 150000, max: 300000 },
+  medium: { min: 20000, mode: 50000, max: 100000 },
+  low: { min: 5000, mode: 10000, max: 25000 },
+};
+
+const AED_TO_USD = 0.2723;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface RiskAnalysisOptions {
+  iterations?: number;
+  seed?: number | string; // Defaults to the project id, so results are stable
+  asOf?: Date;
+}
+
+interface FailureMode {
+  id: string;
+  label: string;
+  vesselId: string;
+  priority: IssuePriority;
+  probability: number; // Of failing before the project finishes
+  repairTransitNm: number; // Round trip to the repair base
+  speedKnots: number;
+}
+
+interface Mobilisation {
+  vesselId: string;
+  vesselType: string;
+  distanceNm: number;
+  speedKnots: number;
+}
+
+interface RunResult {
+  completionDays: number; // After asOf
+  cost: number;
+  drivers: Record<string, number>;
+}
+
+// ============================================================================
+// Sampling Helpers
+// ============================================================================
+
+function triangular(rng: Rng, { min, mode, max }: { min: number; mode: number; max: number }): number {
+  const u = rng.next();
+  const split = (mode - min) / (max - min);
+  return u < split
+    ? min + Math.sqrt(u * (max - min) * (mode - min))
+    : max - Math.sqrt((1 - u) * (max - min) * (max - mode));
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.ceil(p * sorted.length) - 1));
+  return sorted[index];
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
+
+function histogram(values: number[], bins = HISTOGRAM_BINS): RiskHistogramBin[] {
+  if (values.length === 0) return [];
+  const sorted = [...values].sort((a, b) => a - b);
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+  const width = max > min ? (max - min) / bins : 1;
+
+  const counts = new Array(max > min ? bins : 1).fill(0);
+  for (const value of sorted) {
+    counts[Math.min(counts.length - 1, Math.floor((value - min) / width))]++;
+  }
+
+  let cumulative = 0;
+  return counts.map((count, i) => {
+    cumulative += count;
+    return {
+      from: min + i * width,
+      to: min + (i + 1) * width,
+      count,
+      cumulativePct: Math.round((cumulative / values.length) * 1000) / 10,
+    };
+  });
+}
+
+/**
+ * Calendar days from a PM time-to-failure such as "180 operating hours"
+ */
+function timeToFailureDays(text: string | undefined): number | null {
+  if (!text) return null;
+  const match = text.match(/([\d.]+)/);
+  if (!match) return null;
+  const unit = TTF_UNITS_PER_DAY.find(u => u.pattern.test(text));
+  return unit ? Number(match[1]) / unit.perDay : null;
+}
+
+// ============================================================================
+// Model Inputs
+// ============================================================================
+
+function remainingWorkDays(project: Project, asOf: number): number {
+  const start = project.schedule.startDate.getTime();
+  const end = project.schedule.endDate.getTime();
+  const plannedDays = Math.max(1, (end - start) / DAY_MS);
+  if (asOf < start) return plannedDays;
+  return plannedDays * (1 - Math.min(100, Math.max(0, project.progress)) / 100);
+}
+
+function failureModes(project: Project, vessels: ScheduleVessel[], horizonDays: number): FailureMode[] {
+  const modes: FailureMode[] = [];
+  const repairTransitNm = 2 * calculateDistanceNm(
+    project.location.lat, project.location.lng, REPAIR_BASE.lat, REPAIR_BASE.lng
+  );
+
+  for (const vessel of vessels) {
+    const speedKnots = vessel.speedKnots ?? DEFAULT_SPEED_KNOTS;
+    const issues = getVesselIssues(vessel.id)?.issues ?? [];
+
+    if (issues.length === 0) {
+      const health = (vessel.health_score ?? 100) / 100;
+      const mtbf = BACKGROUND_MTBF_DAYS * Math.max(0.2, health);
+      modes.push({
+        id: `equipment:${vessel.id}`,
+        label: `${vessel.name} breakdown`,
+        vesselId: vessel.id,
+        priority: 'medium',
+        probability: 1 - Math.exp(-horizonDays / mtbf),
+        repairTransitNm,
+        speedKnots,
+      });
+      continue;
+    }
+
+    issues.forEach((issue, i) => {
+      const priority = issue.pmPrediction.priority;
+      const meanDays = timeToFailureDays(issue.pmPrediction.timeToFailure) ?? MEAN_DAYS_TO_FAILURE[priority];
+      const confidence = (issue.pmPrediction.confidence ?? 70) / 100;
+      modes.push({
+        id: `equipment:${vessel.id}:${i}`,
+        label: `${vessel.name} ${issue.equipmentName}`,
+        vesselId: vessel.id,
+        priority,
+        probability: confidence * (1 - Math.exp(-horizonDays / Math.max(0.5, meanDays))),
+        repairTransitNm,
+        speedKnots,
+      });
+    });
+  }
+
+  return modes;
+}
+
+function mobilisations(project: Project, vessels: ScheduleVessel[], asOf: number): Mobilisation[] {
+  // Vessels on an active project are working on site already
+  if (project.schedule.startDate.getTime() <= asOf) return [];
+
+  return vessels
+    .filter(v => v.position_lat !== undefined && v.position_lng !== undefined)
+    .map(v => ({
+      vesselId: v.id,
+      vesselType: v.type,
+      distanceNm: calculateDistanceNm(v.position_lat!, v.position_lng!, project.location.lat, project.location.lng),
+      speedKnots: v.speedKnots ?? DEFAULT_SPEED_KNOTS,
+    }))
+    .filter(m => m.distanceNm > ON_SITE_NM);
+}
+
+// ============================================================================
+// One Run
+// ============================================================================
+
+function simulateRun(
+  rng: Rng,
+  project: Project,
+  asOf: number,
+  workDays: number,
+  modes: FailureMode[],
+  mobilising: Mobilisation[],
+  vesselCount: number
+): RunResult {
+  const drivers: Record<string, number> = {};
+  let cost = 0;
+
+  // Mobilisation: work starts when the last vessel arrives, or on the planned start
+  const transitFactor = triangular(rng, TRANSIT_FACTOR);
+  let arrivalDays = 0;
+  for (const m of mobilising) {
+    arrivalDays = Math.max(arrivalDays, (calculateTransitHours(m.distanceNm, m.speedKnots) * transitFactor) / 24);
+    cost += calculateFuelConsumption(m.distanceNm, m.vesselType) * FUEL_COST_USD_PER_LITER * transitFactor;
+  }
+  const plannedStartDays = Math.max(0, (project.schedule.startDate.getTime() - asOf) / DAY_MS);
+  const startDays = Math.max(plannedStartDays, arrivalDays);
+  drivers.transit = transitFactor;
+
+  // Production rate
+  const productivity = triangular(rng, PRODUCTIVITY);
+  drivers.productivity = productivity;
+  const work = workDays * productivity;
+
+  // Equipment failures: repair time plus the trip to the yard and back. The
+  // rest of the spread keeps working, so a vessel down costs its share of output.
+  const share = 1 / Math.max(1, vesselCount);
+  let equipmentDays = 0;
+  for (const mode of modes) {
+    if (!rng.chance(mode.probability)) {
+      drivers[mode.id] = 0;
+      continue;
+    }
+    const repairTrip = (calculateTransitHours(mode.repairTransitNm, mode.speedKnots) * transitFactor) / 24;
+    const downtime = triangular(rng, REPAIR_DAYS[mode.priority]) + repairTrip;
+    equipmentDays += downtime * share;
+    drivers[mode.id] = downtime;
+    cost += triangular(rng, REPAIR_COST_USD[mode.priority]);
+  }
+
+  // Walk the calendar: weather events stop work while they last
+  const sensitivity = WEATHER_SENSITIVITY[project.type] ?? 1;
+  let remaining = work + equipmentDays;
+  let day = startDays;
+  let weatherDays = 0;
+  let weatherLeft = 0;
+  while (remaining > 0 && day - startDays < MAX_SIMULATED_DAYS) {
+    if (weatherLeft <= 0) {
+      const month = new Date(asOf + day * DAY_MS).getUTCMonth();
+      if (rng.chance(WEATHER_ONSET_BY_MONTH[month] * sensitivity)) {
+        weatherLeft = rng.int(WEATHER_EVENT_DAYS.min, WEATHER_EVENT_DAYS.max + 1);
+      }
+    }
+    if (weatherLeft > 0) {
+      weatherLeft--;
+      weatherDays++;
+      day++;
+    } else {
+      // The last working day may be partial
+      const worked = Math.min(1, remaining);
+      remaining -= worked;
+      day += worked;
+    }
+  }
+  const completionDays = day;
+  drivers.weather = weatherDays;
+
+  // Every day past plan keeps the spread on hire
+  const plannedDays = plannedStartDays + workDays;
+  const extraDays = completionDays - plannedDays;
+  cost += extraDays * SPREAD_COST_PER_VESSEL_DAY * Math.max(1, vesselCount);
+
+  return { completionDays, cost, drivers };
+}
+
+// ============================================================================
+// Analysis
+// ============================================================================
+
+const DRIVER_LABELS: Record<Exclude<RiskDriverKind, 'equipment'>, string> = {
+  weather: 'Weather downtime',
+  productivity: 'Production rate',
+  transit: 'Transit times',
+};
+
+function rankDrivers(
+  runs: RunResult[],
+  plannedEndDays: number,
+  modes: FailureMode[],
+  hasTransit: boolean
+): RiskDriver[] {
+  const ids = ['weather', 'productivity', ...(hasTransit || modes.length > 0 ? ['transit'] : []), ...modes.map(m => m.id)];
+  const decile = Math.max(1, Math.floor(runs.length / 10));
+
+  const drivers = ids.map(id => {
+    const ranked = [...runs].sort((a, b) => (a.drivers[id] ?? 0) - (b.drivers[id] ?? 0));
+    const low = ranked.slice(0, decile);
+    const high = ranked.slice(-decile);
+    const mode = modes.find(m => m.id === id);
+    const kind: RiskDriverKind = mode ? 'equipment' : id as RiskDriverKind;
+
+    const driver: RiskDriver = {
+      id,
+      kind,
+      label: mode ? mode.label : DRIVER_LABELS[kind as Exclude<RiskDriverKind, 'equipment'>],
+      delayDays: {
+        low: Math.round((mean(low.map(r => r.completionDays)) - plannedEndDays) * 10) / 10,
+        high: Math.round((mean(high.map(r => r.completionDays)) - plannedEndDays) * 10) / 10,
+      },
+      cost: {
+        low: Math.round(mean(low.map(r => r.cost))),
+        high: Math.round(mean(high.map(r => r.cost))),
+      },
+      swingDays: 0,
+    };
+    if (mode) driver.vesselId = mode.vesselId;
+    driver.swingDays = Math.round((driver.delayDays.high - driver.delayDays.low) * 10) / 10;
+    return driver;
+  });
+
+  return drivers
+    .filter(d => d.swingDays > 0 || d.cost.high !== d.cost.low)
+    .sort((a, b) => b.swingDays - a.swingDays || (b.cost.high - b.cost.low) - (a.cost.high - a.cost.low))
+    .slice(0, MAX_DRIVERS);
+}
+
+/**
+ * P50/P80/P90 completion and cost for a project by Monte Carlo sampling
+ */
+export function analyzeProjectRisk(
+  project: Project,
+  vessels: ScheduleVessel[],
+  options: RiskAnalysisOptions = {}
+): ProjectRiskAnalysis {
+  const iterations = Math.round(Math.min(MAX_RISK_ITERATIONS, Math.max(100, options.iterations ?? DEFAULT_RISK_ITERATIONS)));
+  const seed = options.seed ?? project.id;
+  const asOfDate = options.asOf ?? new Date();
+  const asOf = asOfDate.getTime();
+  const rng = createSeededRng(seed);
+
+  const assigned = vessels.filter(v => project.assignedVessels.includes(v.id));
+  const workDays = remainingWorkDays(project, asOf);
+  const plannedStartDays = Math.max(0, (project.schedule.startDate.getTime() - asOf) / DAY_MS);
+  const modes = failureModes(project, assigned, plannedStartDays + workDays);
+  const mobilising = mobilisations(project, assigned, asOf);
+
+  const runs: RunResult[] = [];
+  for (let i = 0; i < iterations; i++) {
+    const run = simulateRun(rng, project, asOf, workDays, modes, mobilising, assigned.length);
+    run.cost += project.budget.allocated; // Remaining work at plan, plus spent to date
+    runs.push(run);
+  }
+
+  const days = runs.map(r => r.completionDays).sort((a, b) => a - b);
+  const costs = runs.map(r => r.cost).sort((a, b) => a - b);
+  const plannedEndDays = (project.schedule.endDate.getTime() - asOf) / DAY_MS;
+  const toDate = (d: number) => new Date(asOf + d * DAY_MS);
+  const delay = (p: number) => Math.round((percentile(days, p) - plannedEndDays) * 10) / 10;
+
+  return {
+    projectId: project.id,
+    projectName: project.name,
+    iterations,
+    seed,
+    asOf: asOfDate,
+    plannedEnd: project.schedule.endDate,
+    completion: {
+      p50: toDate(percentile(days, 0.5)),
+      p80: toDate(percentile(days, 0.8)),
+      p90: toDate(percentile(days, 0.9)),
+      mean: toDate(mean(days)),
+      histogram: histogram(days),
+    },
+    delayDays: { p50: delay(0.5), p80: delay(0.8), p90: delay(0.9) },
+    cost: {
+      p50: Math.round(percentile(costs, 0.5)),
+      p80: Math.round(percentile(costs, 0.8)),
+      p90: Math.round(percentile(costs, 0.9)),
+      mean: Math.round(mean(costs)),
+      budget: project.budget.allocated,
+      histogram: histogram(costs),
+    },
+    onTimeProbability: days.filter(d => d <= plannedEndDays).length / iterations,
+    withinBudgetProbability: costs.filter(c => c <= project.budget.allocated).length / iterations,
+    drivers: rankDrivers(runs, plannedEndDays, modes, mobilising.length > 0),
+  };
+}
+
+// ============================================================================
+// NMDC Project Sites
+// ============================================================================
+
+const SITE_TYPE: Record<ProjectSite['type'], Project['type']> = {
+  dredging: 'dredging',
+  reclamation: 'dredging',
+  marine_construction: 'construction',
+  coastal_protection: 'construction',
+  port_development: 'construction',
+};
+
+const SITE_STATUS: Record<ProjectSite['status'], Project['status']> = {
+  active: 'active',
+  completed: 'completed',
+  planned: 'planning',
+  on_hold: 'on-hold',
+};
+
+/**
+ * Contract value in USD from strings like "AED 460M ($125M)" or "AED 850M"
+ */
+function contractValueUsd(value: string | undefined): number {
+  if (!value) return 0;
+  const usd = value.match(/\$\s*([\d.]+)\s*([MB])?/i);
+  if (usd) return Number(usd[1]) * (usd[2]?.toUpperCase() === 'B' ? 1e9 : 1e6);
+  const aed = value.match(/([\d.]+)\s*([MB])?/i);
+  if (aed) return Number(aed[1]) * (aed[2]?.toUpperCase() === 'B' ? 1e9 : 1e6) * AED_TO_USD;
+  return 0;
+}
+
+/**
+ * A project site from the NMDC portfolio as a schedulable Project
+ * Sites without an end date are given a year from their start.
+ */
+export function projectFromSite(site: ProjectSite): Project {
+  const startDate = new Date(site.startDate);
+  const endDate = site.endDate ? new Date(site.endDate) : new Date(startDate.getTime() + 365 * DAY_MS);
+  const allocated = Math.round(contractValueUsd(site.value));
+  const progress = site.progress ?? (site.status === 'completed' ? 100 : 0);
+
+  return {
+    id: site.id,
+    name: site.name,
+    client: site.client,
+    type: SITE_TYPE[site.type],
+    status: SITE_STATUS[site.status],
+    priority: allocated >= 100e6 ? 'high' : 'medium',
+    location: { name: site.location.area, lat: site.location.lat, lng: site.location.lng },
+    schedule: { startDate, endDate },
+    requirements: {
+      vesselTypes: [...new Set(site.assignedVessels.map(mmsi => getNMDCVesselByMMSI(mmsi)?.type).filter((t): t is NonNullable<typeof t> => Boolean(t)))],
+      crewCount: 0,
+      equipment: [],
+    },
+    assignedVessels: site.assignedVessels,
+    progress,
+    budget: { allocated, spent: Math.round(allocated * progress / 100), currency: 'USD' },
+  };
+}
@@ -0,0 +1,506 @@
+/**
+ * Crew Rostering
+ *
+ * Checks crew assignments against what each project position needs: the
+ * right rank, certificates valid for the whole assignment, the crew member's
+ * rotation (28/28 and the like) and STCW rest hours. Gaps and breaches come
+ * back as crew_shortage schedule conflicts.
+ *
+ * planRoster fills positions greedily, day by day: the most urgent project
+ * first, then the qualified crew member already on the vessel or with the
+ * longest hitch left.
+ */
+
+import {
+  CertificateType,
+  CompetencyRequirement,
+  CrewAssignment,
+  CrewCertificate,
+  CrewMember,
+  CrewRank,
+  Project,
+  RosterPlan,
+  RotationPattern,
+  ScheduleConflict,
+} from './types';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DEFAULT_SHIFT_HOURS = 12;
+const DEFAULT_HORIZON_DAYS = 90;
+const URGENT_GAP_DAYS = 7; // Gaps starting this soon are critical
+
+// STCW A-VIII/1: at least 10 hours rest in any 24 hours and 77 in any 7 days
+const MIN_REST_HOURS_PER_DAY = 10;
+const MIN_REST_HOURS_PER_WEEK = 77;
+
+const BASIC_CERTIFICATES: CertificateType[] = ['stcw_basic_safety', 'bosiet', 'medical_fitness'];
+
+// Certificates each rank must hold on top of the basics
+const RANK_CERTIFICATES: Record<CrewRank, CertificateType[]> = {
+  master: ['coc_deck', 'stcw_advanced_firefighting', 'stcw_medical_care'],
+  chief_officer: ['coc_deck', 'stcw_advanced_firefighting', 'stcw_medical_care'],
+  officer: ['coc_deck'],
+  senior_dpo: ['coc_deck', 'dp_unlimited'],
+  dpo: ['coc_deck', 'dp_unlimited'],
+  chief_engineer: ['coc_engineer', 'stcw_advanced_firefighting'],
+  engineer: ['coc_engineer'],
+  electrician: [],
+  crane_operator: ['crane_operator'],
+  rigger: ['rigger'],
+  able_seaman: [],
+};
+
+const PRIORITY_ORDER: Record<Project['priority'], number> = {
+  critical: 0,
+  high: 1,
+  medium: 2,
+  low: 3,
+};
+
+export const CERTIFICATE_LABELS: Record<CertificateType, string> = {
+  stcw_basic_safety: 'STCW basic safety',
+  stcw_advanced_firefighting: 'STCW advanced firefighting',
+  stcw_medical_care: 'STCW medical care',
+  coc_deck: 'Deck CoC',
+  coc_engineer: 'Engineer CoC',
+  dp_unlimited: 'DP unlimited',
+  crane_operator: 'Crane operator',
+  rigger: 'Rigger',
+  bosiet: 'BOSIET',
+  medical_fitness: 'Medical fitness',
+};
+
+// ============================================================================
+// Rotations and Competencies
+// ============================================================================
+
+/**
+ * Parse a rotation such as "28/28" or "42/21" (days on / days off)
+ */
+export function parseRotation(pattern: string, cycleStart: Date): RotationPattern {
+  const match = /^\s*(\d+)\s*\/\s*(\d+)\s*$/.exec(pattern);
+  if (!match) throw new Error(`Invalid rotation "${pattern}"; expected days on/days off, e.g. 28/28`);
+  return checkRotation({ onDays: parseInt(match[1], 10), offDays: parseInt(match[2], 10), cycleStart });
+}
+
+/**
+ * Check a rotation given as an object: whole days, at least one day on
+ */
+export function checkRotation(rotation: RotationPattern): RotationPattern {
+  const { onDays, offDays, cycleStart } = rotation;
+  const label = `${onDays}/${offDays}`;
+  if (!Number.isInteger(onDays) || !Number.isInteger(offDays) || offDays < 0) {
+    throw new Error(`Invalid rotation ${label}; days on and off must be whole numbers`);
+  }
+  if (onDays <= 0) throw new Error(`Invalid rotation ${label}; needs at least one day on`);
+  if (!(cycleStart instanceof Date) || isNaN(cycleStart.getTime())) {
+    throw new Error(`Invalid rotation ${label}; cycleStart must be a date`);
+  }
+  return { onDays, offDays, cycleStart };
+}
+
+// Crew member as posted to the APIs: dates may be ISO strings, the rotation
+// { onDays, offDays, cycleStart } or "28/28" with rotationStart
+export interface CrewMemberInput extends Omit<CrewMember, 'rotation' | 'certificates'> {
+  rotation: string | { onDays: number; offDays: number; cycleStart: string | Date };
+  rotationStart?: string | Date;
+  certificates?: Array<Omit<CrewCertificate, 'expiresAt' | 'issuedAt'> & {
+    expiresAt: string | Date;
+    issuedAt?: string | Date;
+  }>;
+}
+
+function toDate(value: string | Date | undefined): Date {
+  const date = new Date(value ?? NaN);
+  if (isNaN(date.getTime())) throw new Error(`Invalid date: ${String(value)}`);
+  return date;
+}
+
+/**
+ * Crew member from API input; throws on invalid dates or rotations
+ */
+export function parseCrewMember(input: CrewMemberInput): CrewMember {
+  if (typeof input.rotation !== 'string' && (typeof input.rotation !== 'object' || input.rotation === null)) {
+    throw new Error(`Crew member ${input.id} needs a rotation`);
+  }
+  const rotation = typeof input.rotation === 'string'
+    ? parseRotation(input.rotation, toDate(input.rotationStart))
+    : checkRotation({ ...input.rotation, cycleStart: toDate(input.rotation.cycleStart) });
+  return {
+    id: input.id,
+    name: input.name || input.id,
+    rank: input.rank,
+    homeVesselId: input.homeVesselId,
+    rotation,
+    certificates: (input.certificates ?? []).map(c => ({
+      ...c,
+      issuedAt: c.issuedAt !== undefined ? toDate(c.issuedAt) : undefined,
+      expiresAt: toDate(c.expiresAt),
+    })),
+  };
+}
+
+function startOfDay(time: number): number {
+  return Math.floor(time / DAY_MS) * DAY_MS;
+}
+
+// Day of the rotation cycle a date falls on, 0 being the first day on
+function rotationPhase(rotation: RotationPattern, time: number): number {
+  const cycle = rotation.onDays + rotation.offDays;
+  const day = Math.floor((startOfDay(time) - startOfDay(rotation.cycleStart.getTime())) / DAY_MS);
+  return ((day % cycle) + cycle) % cycle;
+}
+
+export function isOnRotation(member: CrewMember, date: Date): boolean {
+  return rotationPhase(member.rotation, date.getTime()) < member.rotation.onDays;
+}
+
+/**
+ * End of the hitch a crew member is working on a date (start of their first day off)
+ */
+export function hitchEnd(member: CrewMember, date: Date): Date {
+  const phase = rotationPhase(member.rotation, date.getTime());
+  return new Date(startOfDay(date.getTime()) + Math.max(0, member.rotation.onDays - phase) * DAY_MS);
+}
+
+/**
+ * Every certificate a position needs from someone of the given rank
+ */
+export function requiredCertificates(rank: CrewRank, requirement?: CompetencyRequirement): CertificateType[] {
+  return [...new Set([...BASIC_CERTIFICATES, ...RANK_CERTIFICATES[rank], ...(requirement?.certificates ?? [])])];
+}
+
+/**
+ * When the first certificate a position needs runs out (null if one is missing)
+ */
+function certificatesValidUntil(member: CrewMember, requirement: CompetencyRequirement): number | null {
+  let until = Infinity;
+  for (const type of requiredCertificates(member.rank, requirement)) {
+    const held = member.certificates.filter(c => c.type === type);
+    if (held.length === 0) return null;
+    until = Math.min(until, Math.max(...held.map(c => c.expiresAt.getTime())));
+  }
+  return until;
+}
+
+function isQualified(member: CrewMember, requirement: CompetencyRequirement, from: number, to: number): boolean {
+  if (!requirement.ranks.includes(member.rank)) return false;
+  const until = certificatesValidUntil(member, requirement);
+  return until !== null && until >= to && from < to;
+}
+
+function formatDate(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+type Conflict = Omit<ScheduleConflict, 'id'>;
+
+interface CoverageGap {
+  start: number;
+  end: number;
+  shortfall: number;
+}
+
+/**
+ * Position-days each requirement needs and gets from qualified, on-rotation crew
+ */
+function measureCoverage(
+  projects: Project[],
+  crew: Map<string, CrewMember>,
+  assignments: CrewAssignment[],
+  now: number,
+  horizonEnd: number
+): { coverage: RosterPlan['coverage']; gaps: Map<string, CoverageGap[]> } {
+  const coverage: RosterPlan['coverage'] = [];
+  const gaps = new Map<string, CoverageGap[]>();
+
+  for (const project of projects) {
+    if (project.status === 'completed' || project.status === 'on-hold') continue;
+    const from = startOfDay(Math.max(project.schedule.startDate.getTime(), now));
+    const to = Math.min(project.schedule.endDate.getTime(), horizonEnd);
+
+    for (const requirement of project.requirements.competencies ?? []) {
+      const key = `${project.id}:${requirement.id}`;
+      const filling = assignments.filter(a => a.projectId === project.id && a.requirementId === requirement.id);
+      let requiredDays = 0;
+      let coveredDays = 0;
+      const projectGaps: CoverageGap[] = [];
+
+      for (let day = from; day < to; day += DAY_MS) {
+        const midday = day + DAY_MS / 2;
+        const onDuty = filling.filter(a => {
+          const member = crew.get(a.crewId);
+          return member
+            && a.startDate.getTime() <= midday && a.endDate.getTime() > midday
+            && isQualified(member, requirement, day, day + DAY_MS)
+            && isOnRotation(member, new Date(midday));
+        }).length;
+        requiredDays += requirement.count;
+        coveredDays += Math.min(onDuty, requirement.count);
+
+        const shortfall = requirement.count - onDuty;
+        if (shortfall <= 0) continue;
+        const last = projectGaps[projectGaps.length - 1];
+        if (last && last.end === day && last.shortfall === shortfall) last.end = day + DAY_MS;
+        else projectGaps.push({ start: day, end: day + DAY_MS, shortfall });
+      }
+
+      coverage.push({ projectId: project.id, requirementId: requirement.id, label: requirement.label, requiredDays, coveredDays });
+      if (projectGaps.length > 0) gaps.set(key, projectGaps);
+    }
+  }
+
+  return { coverage, gaps };
+}
+
+/**
+ * Check crew assignments against project competencies, certificates,
+ * rotations and rest hours
+ */
+export function validateRoster(
+  projects: Project[],
+  crew: CrewMember[],
+  assignments: CrewAssignment[],
+  options: { now?: Date; horizonDays?: number } = {}
+): RosterPlan {
+  const now = (options.now ?? new Date()).getTime();
+  const horizonEnd = now + (options.horizonDays ?? DEFAULT_HORIZON_DAYS) * DAY_MS;
+  const crewMap = new Map(crew.map(c => [c.id, c]));
+  const projectMap = new Map(projects.map(p => [p.id, p]));
+  const conflicts: Conflict[] = [];
+  const current = assignments.filter(a => a.endDate.getTime() > now);
+
+  // Each assignment: known crew, right rank, certificates, rotation
+  for (const assignment of current) {
+    const member = crewMap.get(assignment.crewId);
+    const project = projectMap.get(assignment.projectId);
+    const requirement = project?.requirements.competencies?.find(r => r.id === assignment.requirementId);
+    const vessels = assignment.vesselId ? [assignment.vesselId] : [];
+    if (!member || !project || !requirement) {
+      conflicts.push({
+        type: 'crew_shortage',
+        severity: 'warning',
+        affectedVessels: vessels,
+        affectedProjects: [assignment.projectId],
+        affectedCrew: [assignment.crewId],
+        description: !member
+          ? `Assignment ${assignment.id} names unknown crew member ${assignment.crewId}`
+          : `Assignment ${assignment.id} is for a position ${assignment.projectId} does not have (${assignment.requirementId})`,
+        suggestedResolution: 'Fix or remove the assignment',
+      });
+      continue;
+    }
+
+    const start = assignment.startDate.getTime();
+    const end = assignment.endDate.getTime();
+    const base = { type: 'crew_shortage' as const, affectedVessels: vessels, affectedProjects: [project.id], affectedCrew: [member.id] };
+
+    if (!requirement.ranks.includes(member.rank)) {
+      conflicts.push({
+        ...base,
+        severity: 'critical',
+        description: `${member.name} (${member.rank.replace(/_/g, ' ')}) cannot fill ${requirement.label} on ${project.name}`,
+        suggestedResolution: `Assign a ${requirement.ranks.map(r => r.replace(/_/g, ' ')).join(' or ')}`,
+      });
+    }
+
+    for (const type of requiredCertificates(member.rank, requirement)) {
+      const held = member.certificates.filter(c => c.type === type);
+      const expiresAt = held.length > 0 ? Math.max(...held.map(c => c.expiresAt.getTime())) : null;
+      if (expiresAt !== null && expiresAt >= end) continue;
+      conflicts.push({
+        ...base,
+        severity: expiresAt === null || expiresAt <= Math.max(start, now) ? 'critical' : 'warning',
+        description: expiresAt === null
+          ? `${member.name} holds no ${CERTIFICATE_LABELS[type]} certificate, required for ${requirement.label} on ${project.name}`
+          : expiresAt <= Math.max(start, now)
+            ? `${member.name}'s ${CERTIFICATE_LABELS[type]} certificate expired on ${formatDate(expiresAt)}`
+            : `${member.name}'s ${CERTIFICATE_LABELS[type]} certificate expires on ${formatDate(expiresAt)}, before the assignment on ${project.name} ends`,
+        suggestedResolution: expiresAt === null
+          ? 'Assign a certified crew member'
+          : 'Book the renewal course before the expiry date or end the assignment earlier',
+      });
+    }
+
+    let daysOff = 0;
+    for (let day = startOfDay(Math.max(start, now)); day < end; day += DAY_MS) {
+      if (!isOnRotation(member, new Date(day + DAY_MS / 2))) daysOff++;
+    }
+    if (daysOff > 0) {
+      conflicts.push({
+        ...base,
+        severity: 'warning',
+        description: `${member.name} would work ${daysOff} day${daysOff === 1 ? '' : 's'} of their ${member.rotation.onDays}/${member.rotation.offDays} leave on ${project.name}`,
+        suggestedResolution: 'End the assignment at the hitch change and hand over to the back-to-back',
+      });
+    }
+  }
+
+  // Per crew member: double booking and rest hours
+  for (const member of crew) {
+    const own = current
+      .filter(a => a.crewId === member.id)
+      .sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
+    if (own.length === 0) continue;
+
+    for (let i = 1; i < own.length; i++) {
+      const previous = own[i - 1];
+      if (previous.endDate.getTime() <= own[i].startDate.getTime()) continue;
+      conflicts.push({
+        type: 'crew_shortage',
+        severity: 'critical',
+        affectedVessels: [previous.vesselId, own[i].vesselId].filter((v): v is string => Boolean(v)),
+        affectedProjects: [...new Set([previous.projectId, own[i].projectId])],
+        affectedCrew: [member.id],
+        description: `${member.name} is rostered on ${projectMap.get(previous.projectId)?.name ?? previous.projectId} and ${projectMap.get(own[i].projectId)?.name ?? own[i].projectId} at the same time`,
+        suggestedResolution: 'Move one of the assignments to another qualified crew member',
+      });
+    }
+
+    // Work hours per day, then the rolling 24-hour and 7-day rest limits
+    const first = startOfDay(Math.max(own[0].startDate.getTime(), now));
+    const last = Math.max(...own.map(a => a.endDate.getTime()));
+    const hours: number[] = [];
+    for (let day = first; day < last; day += DAY_MS) {
+      const midday = day + DAY_MS / 2;
+      hours.push(own
+        .filter(a => a.startDate.getTime() <= midday && a.endDate.getTime() > midday)
+        .reduce((sum, a) => sum + (a.shiftHours ?? DEFAULT_SHIFT_HOURS), 0));
+    }
+    const dailyBreach = hours.findIndex(h => 24 - h < MIN_REST_HOURS_PER_DAY);
+    let weeklyBreach = -1;
+    for (let i = 0; i + 7 <= hours.length && weeklyBreach < 0; i++) {
+      const worked = hours.slice(i, i + 7).reduce((sum, h) => sum + h, 0);
+      if (7 * 24 - worked < MIN_REST_HOURS_PER_WEEK) weeklyBreach = i;
+    }
+    if (dailyBreach >= 0 || weeklyBreach >= 0) {
+      const day = first + (dailyBreach >= 0 ? dailyBreach : weeklyBreach) * DAY_MS;
+      conflicts.push({
+        type: 'crew_shortage',
+        severity: 'warning',
+        affectedVessels: [...new Set(own.map(a => a.vesselId).filter((v): v is string => Boolean(v)))],
+        affectedProjects: [...new Set(own.map(a => a.projectId))],
+        affectedCrew: [member.id],
+        description: dailyBreach >= 0
+          ? `${member.name} gets ${24 - hours[dailyBreach]}h rest on ${formatDate(day)}; STCW requires ${MIN_REST_HOURS_PER_DAY}h in any 24 hours`
+          : `${member.name} gets under ${MIN_REST_HOURS_PER_WEEK}h rest in the 7 days from ${formatDate(day)}`,
+        suggestedResolution: 'Shorten the shifts or add a relief to the watch',
+      });
+    }
+  }
+
+  // Positions left open
+  const { coverage, gaps } = measureCoverage(projects, crewMap, current, now, horizonEnd);
+  for (const [key, projectGaps] of gaps) {
+    const [projectId, requirementId] = key.split(':');
+    const project = projectMap.get(projectId)!;
+    const requirement = project.requirements.competencies!.find(r => r.id === requirementId)!;
+    const shortDays = projectGaps.reduce((sum, g) => sum + ((g.end - g.start) / DAY_MS) * g.shortfall, 0);
+    const first = projectGaps[0];
+    conflicts.push({
+      type: 'crew_shortage',
+      severity: first.start - now < URGENT_GAP_DAYS * DAY_MS ? 'critical' : 'warning',
+      affectedVessels: project.assignedVessels,
+      affectedProjects: [project.id],
+      affectedCrew: [],
+      description: `${project.name} is short ${first.shortfall} ${requirement.label} from ${formatDate(first.start)} to ${formatDate(first.end)} (${shortDays} position-days unfilled in total)`,
+      suggestedResolution: `Roster a qualified ${requirement.ranks.map(r => r.replace(/_/g, ' ')).join(' or ')} or hire one in`,
+    });
+  }
+
+  return {
+    assignments,
+    conflicts: conflicts.map((conflict, index) => ({ id: `conflict-crew_shortage-${index + 1}`, ...conflict })),
+    coverage,
+  };
+}
+
+// ============================================================================
+// Planning
+// ============================================================================
+
+/**
+ * Fill every project position from the crew pool, keeping existing assignments
+ *
+ * Each pick runs to the end of the crew member's hitch, the project or the
+ * first certificate expiry, whichever comes first; the back-to-back takes
+ * over on the next day that needs cover.
+ */
+export function planRoster(
+  projects: Project[],
+  crew: CrewMember[],
+  options: { now?: Date; horizonDays?: number; existing?: CrewAssignment[] } = {}
+): RosterPlan {
+  const now = (options.now ?? new Date()).getTime();
+  const horizonEnd = now + (options.horizonDays ?? DEFAULT_HORIZON_DAYS) * DAY_MS;
+  const assignments = [...(options.existing ?? [])];
+  const busy = (member: CrewMember, from: number, to: number) =>
+    assignments.some(a => a.crewId === member.id && a.startDate.getTime() < to && a.endDate.getTime() > from);
+
+  const ordered = [...projects]
+    .filter(p => p.status !== 'completed' && p.status !== 'on-hold')
+    .sort((a, b) => PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority]
+      || a.schedule.startDate.getTime() - b.schedule.startDate.getTime());
+
+  for (const project of ordered) {
+    const from = startOfDay(Math.max(project.schedule.startDate.getTime(), now));
+    const to = Math.min(project.schedule.endDate.getTime(), horizonEnd);
+
+    for (const requirement of project.requirements.competencies ?? []) {
+      for (let day = from; day < to; day += DAY_MS) {
+        const midday = day + DAY_MS / 2;
+        const dayEnd = Math.min(day + DAY_MS, to);
+
+        let onDuty = assignments.filter(a =>
+          a.projectId === project.id && a.requirementId === requirement.id
+          && a.startDate.getTime() <= midday && a.endDate.getTime() > midday
+        ).length;
+
+        while (onDuty < requirement.count) {
+          const candidates = crew
+            .filter(member =>
+              isOnRotation(member, new Date(midday))
+              && isQualified(member, requirement, day, dayEnd)
+              && !busy(member, day, dayEnd)
+            )
+            .map(member => {
+              const certificatesEnd = startOfDay(certificatesValidUntil(member, requirement)!);
+              const end = Math.min(hitchEnd(member, new Date(midday)).getTime(), to, certificatesEnd);
+              const nextBooking = Math.min(
+                end,
+                ...assignments.filter(a => a.crewId === member.id && a.startDate.getTime() >= dayEnd).map(a => a.startDate.getTime())
+              );
+              return { member, end: nextBooking, onVessel: member.homeVesselId !== undefined && project.assignedVessels.includes(member.homeVesselId) };
+            })
+            .filter(c => c.end > day)
+            .sort((a, b) => Number(b.onVessel) - Number(a.onVessel) || b.end - a.end);
+
+          const pick = candidates[0];
+          if (!pick) break;
+          assignments.push({
+            id: `crew-assignment-${assignments.length + 1}`,
+            crewId: pick.member.id,
+            projectId: project.id,
+            requirementId: requirement.id,
+            vesselId: pick.onVessel ? pick.member.homeVesselId : project.assignedVessels[0],
+            startDate: new Date(day),
+            endDate: new Date(pick.end),
+            shiftHours: DEFAULT_SHIFT_HOURS,
+          });
+          onDuty++;
+        }
+      }
+    }
+  }
+
+  return validateRoster(projects, crew, assignments, { now: new Date(now), horizonDays: options.horizonDays });
+}
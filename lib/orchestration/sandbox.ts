@@ -0,0 +1,381 @@
+/**
+ * Planning Sandbox
+ *
+ * Draft schedules live in named scenarios ("Base", "Storm contingency").
+ * Every edit - a bar dragged on the Gantt chart, an accepted optimizer
+ * suggestion - is a change set that produces a new version of the
+ * scenario's schedule, so drafts can be undone, redone and compared. One
+ * version at a time is published as the live schedule.
+ *
+ * Scenarios are held in memory; they last as long as the server process.
+ */
+
+import { OptimizationChange } from './fleet-optimizer';
+import {
+  PlanningScenario,
+  PublishedSchedule,
+  ScheduleChangeSet,
+  ScheduleDiff,
+  ScheduleDiffEntry,
+  ScheduleEdit,
+  ScheduleVersion,
+  VesselAssignment,
+} from './types';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const BASE_SCENARIO_NAME = 'Base';
+
+// ============================================================================
+// Edits
+// ============================================================================
+
+/**
+ * Apply edits in order to a schedule, returning the new schedule
+ * Throws when an edit names an unknown assignment or leaves bad dates.
+ */
+export function applyEdits(assignments: VesselAssignment[], edits: ScheduleEdit[]): VesselAssignment[] {
+  const schedule = new Map(assignments.map(a => [a.id, a]));
+
+  const existing = (assignmentId: string): VesselAssignment => {
+    const assignment = schedule.get(assignmentId);
+    if (!assignment) throw new Error(`Assignment not found: ${assignmentId}`);
+    return assignment;
+  };
+
+  for (const edit of edits) {
+    switch (edit.kind) {
+      case 'move': {
+        if (edit.endDate < edit.startDate) {
+          throw new Error(`Assignment ${edit.assignmentId} would end before it starts`);
+        }
+        schedule.set(edit.assignmentId, { ...existing(edit.assignmentId), startDate: edit.startDate, endDate: edit.endDate });
+        break;
+      }
+      case 'reassign':
+        schedule.set(edit.assignmentId, { ...existing(edit.assignmentId), vesselId: edit.vesselId, vesselName: edit.vesselName });
+        break;
+      case 'status':
+        schedule.set(edit.assignmentId, { ...existing(edit.assignmentId), status: edit.status });
+        break;
+      case 'add':
+        if (schedule.has(edit.assignment.id)) {
+          throw new Error(`Assignment already exists: ${edit.assignment.id}`);
+        }
+        if (edit.assignment.endDate < edit.assignment.startDate) {
+          throw new Error(`Assignment ${edit.assignment.id} would end before it starts`);
+        }
+        schedule.set(edit.assignment.id, edit.assignment);
+        break;
+      case 'remove':
+        existing(edit.assignmentId);
+        schedule.delete(edit.assignmentId);
+        break;
+    }
+  }
+
+  return Array.from(schedule.values());
+}
+
+/**
+ * Compare two schedules assignment by assignment
+ */
+export function diffSchedules(
+  before: VesselAssignment[],
+  after: VesselAssignment[]
+): Omit<ScheduleDiff, 'fromVersionId' | 'toVersionId'> {
+  const beforeById = new Map(before.map(a => [a.id, a]));
+  const afterById = new Map(after.map(a => [a.id, a]));
+
+  const changed: ScheduleDiffEntry[] = [];
+  let unchanged = 0;
+  for (const b of before) {
+    const a = afterById.get(b.id);
+    if (!a) continue;
+
+    const fields: ScheduleDiffEntry['fields'] = [];
+    if (a.vesselId !== b.vesselId) fields.push('vessel');
+    if (a.startDate.getTime() !== b.startDate.getTime() || a.endDate.getTime() !== b.endDate.getTime()) fields.push('dates');
+    if (a.status !== b.status) fields.push('status');
+    if (a.utilization !== b.utilization) fields.push('utilization');
+
+    if (fields.length === 0) {
+      unchanged++;
+      continue;
+    }
+    changed.push({
+      assignmentId: b.id,
+      before: b,
+      after: a,
+      fields,
+      shiftDays: Math.round((a.startDate.getTime() - b.startDate.getTime()) / DAY_MS * 10) / 10,
+    });
+  }
+
+  return {
+    added: after.filter(a => !beforeById.has(a.id)),
+    removed: before.filter(b => !afterById.has(b.id)),
+    changed,
+    unchanged,
+  };
+}
+
+/**
+ * The edits that turn one schedule into another, e.g. to take on a whole
+ * optimized plan from the schedule optimizer as one change set
+ */
+export function editsBetween(before: VesselAssignment[], after: VesselAssignment[]): ScheduleEdit[] {
+  const diff = diffSchedules(before, after);
+  const edits: ScheduleEdit[] = diff.removed.map(a => ({ kind: 'remove', assignmentId: a.id }));
+
+  for (const { after: a, fields } of diff.changed) {
+    // Utilization has no edit of its own; replacing the assignment carries it
+    if (fields.includes('utilization')) {
+      edits.push({ kind: 'remove', assignmentId: a.id }, { kind: 'add', assignment: a });
+      continue;
+    }
+    if (fields.includes('vessel')) {
+      edits.push({ kind: 'reassign', assignmentId: a.id, vesselId: a.vesselId, vesselName: a.vesselName });
+    }
+    if (fields.includes('dates')) {
+      edits.push({ kind: 'move', assignmentId: a.id, startDate: a.startDate, endDate: a.endDate });
+    }
+    if (fields.includes('status')) {
+      edits.push({ kind: 'status', assignmentId: a.id, status: a.status });
+    }
+  }
+
+  edits.push(...diff.added.map(a => ({ kind: 'add' as const, assignment: a })));
+  return edits;
+}
+
+/**
+ * Edits for a fleet optimizer suggestion
+ *
+ * Reassignments move the project's assignment from the first affected vessel
+ * to the second. Resequencing only changes the order projects are visited
+ * in, which the assignments don't record, so it produces no edits.
+ */
+export function editsFromOptimizationChange(
+  change: OptimizationChange,
+  assignments: VesselAssignment[]
+): ScheduleEdit[] {
+  if (change.type !== 'reassign') return [];
+
+  const [fromVesselId, toVesselId] = change.affectedVessels;
+  const projectName = change.before[0]?.sequence[0];
+  const assignment = assignments.find(a => a.vesselId === fromVesselId && a.projectName === projectName);
+  if (!assignment || !toVesselId) {
+    throw new Error(`No assignment of ${projectName ?? 'the project'} to ${fromVesselId} to reassign`);
+  }
+
+  return [{
+    kind: 'reassign',
+    assignmentId: assignment.id,
+    vesselId: toVesselId,
+    vesselName: change.after[0]?.vessel ?? toVesselId,
+  }];
+}
+
+// ============================================================================
+// Store
+// ============================================================================
+
+const scenarios = new Map<string, PlanningScenario>();
+const versions = new Map<string, ScheduleVersion>();
+let live: PublishedSchedule | null = null;
+let sequence = 0;
+
+function nextId(prefix: string): string {
+  sequence++;
+  return `${prefix}-${Date.now().toString(36)}-${sequence}`;
+}
+
+function current(scenario: PlanningScenario): ScheduleVersion {
+  return scenario.versions[scenario.head];
+}
+
+/**
+ * The published schedule, or null before anything has been published
+ */
+export function getLiveSchedule(): PublishedSchedule | null {
+  return live;
+}
+
+/**
+ * Publish a schedule as live if nothing has been yet, in a Base scenario
+ */
+export function ensureLiveSchedule(assignments: VesselAssignment[]): PublishedSchedule {
+  if (live) return live;
+  const scenario = createScenario(BASE_SCENARIO_NAME, { assignments });
+  return publishVersion(scenario.id)!;
+}
+
+/**
+ * List scenarios, most recently edited first
+ */
+export function listScenarios(): PlanningScenario[] {
+  return Array.from(scenarios.values()).sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+}
+
+export function getScenario(scenarioId: string): PlanningScenario | null {
+  return scenarios.get(scenarioId) ?? null;
+}
+
+export function getVersion(versionId: string): ScheduleVersion | null {
+  return versions.get(versionId) ?? null;
+}
+
+/**
+ * Start a scenario from a version (default: the live schedule) or from a
+ * schedule of its own
+ */
+export function createScenario(
+  name: string,
+  from: { versionId?: string; assignments?: VesselAssignment[] } = {}
+): PlanningScenario {
+  if (!name.trim()) throw new Error('Scenario name is required');
+  if (listScenarios().some(s => s.name === name.trim())) {
+    throw new Error(`A scenario named "${name.trim()}" already exists`);
+  }
+
+  const source = from.versionId ? versions.get(from.versionId) : undefined;
+  if (from.versionId && !source) throw new Error(`Version not found: ${from.versionId}`);
+  const assignments = source?.assignments ?? from.assignments ?? live?.assignments;
+  if (!assignments) throw new Error('Nothing to start the scenario from: no live schedule yet');
+
+  const now = new Date();
+  const scenarioId = nextId('scn');
+  const start: ScheduleVersion = {
+    id: nextId('ver'),
+    scenarioId,
+    number: 0,
+    parentId: source?.id ?? live?.versionId,
+    assignments,
+    createdAt: now,
+  };
+  const scenario: PlanningScenario = {
+    id: scenarioId,
+    name: name.trim(),
+    baseVersionId: start.parentId ?? start.id,
+    versions: [start],
+    head: 0,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  versions.set(start.id, start);
+  scenarios.set(scenario.id, scenario);
+  console.log(`[Sandbox] Created scenario "${scenario.name}" from ${scenario.baseVersionId}`);
+  return scenario;
+}
+
+/**
+ * Delete a draft scenario; the one holding the live version stays
+ */
+export function deleteScenario(scenarioId: string): boolean {
+  const scenario = scenarios.get(scenarioId);
+  if (!scenario) return false;
+  if (live?.scenarioId === scenarioId) {
+    throw new Error(`Scenario "${scenario.name}" holds the live schedule`);
+  }
+  scenario.versions.forEach(v => versions.delete(v.id));
+  scenarios.delete(scenarioId);
+  return true;
+}
+
+/**
+ * Apply a change set on top of the scenario's current version
+ * Versions that had been undone are dropped, as in any editor, unless one of
+ * them is live: that one has to stay reachable, so the edit is refused.
+ */
+export function applyChangeSet(scenarioId: string, changeSet: ScheduleChangeSet): PlanningScenario | null {
+  const scenario = scenarios.get(scenarioId);
+  if (!scenario) return null;
+  if (changeSet.edits.length === 0) throw new Error('Change set has no edits');
+
+  const undone = scenario.versions.slice(scenario.head + 1);
+  const undoneLive = undone.find(v => v.id === live?.versionId);
+  if (undoneLive) {
+    throw new Error(`v${undoneLive.number} of "${scenario.name}" is live; redo to it or publish this version before editing`);
+  }
+
+  const parent = current(scenario);
+  const version: ScheduleVersion = {
+    id: nextId('ver'),
+    scenarioId,
+    number: parent.number + 1,
+    parentId: parent.id,
+    changeSet,
+    assignments: applyEdits(parent.assignments, changeSet.edits),
+    createdAt: new Date(),
+  };
+
+  undone.forEach(v => versions.delete(v.id));
+  scenario.versions = [...scenario.versions.slice(0, scenario.head + 1), version];
+  scenario.head = scenario.versions.length - 1;
+  scenario.updatedAt = version.createdAt;
+  versions.set(version.id, version);
+  return scenario;
+}
+
+/**
+ * Step the scenario back one version; nothing happens at its first version
+ */
+export function undo(scenarioId: string): PlanningScenario | null {
+  const scenario = scenarios.get(scenarioId);
+  if (!scenario) return null;
+  if (scenario.head > 0) {
+    scenario.head--;
+    scenario.updatedAt = new Date();
+  }
+  return scenario;
+}
+
+/**
+ * Step forward again after an undo; nothing happens at the latest version
+ */
+export function redo(scenarioId: string): PlanningScenario | null {
+  const scenario = scenarios.get(scenarioId);
+  if (!scenario) return null;
+  if (scenario.head < scenario.versions.length - 1) {
+    scenario.head++;
+    scenario.updatedAt = new Date();
+  }
+  return scenario;
+}
+
+/**
+ * Compare two versions, from any scenarios
+ */
+export function diffVersions(fromVersionId: string, toVersionId: string): ScheduleDiff | null {
+  const from = versions.get(fromVersionId);
+  const to = versions.get(toVersionId);
+  if (!from || !to) return null;
+  return { fromVersionId, toVersionId, ...diffSchedules(from.assignments, to.assignments) };
+}
+
+/**
+ * Make a version of a scenario (default: its current one) the live schedule
+ */
+export function publishVersion(scenarioId: string, versionId?: string, publishedBy?: string): PublishedSchedule | null {
+  const scenario = scenarios.get(scenarioId);
+  if (!scenario) return null;
+  const version = versionId ? scenario.versions.find(v => v.id === versionId) : current(scenario);
+  if (!version) throw new Error(`Version ${versionId} is not in scenario "${scenario.name}"`);
+
+  live = {
+    versionId: version.id,
+    scenarioId,
+    scenarioName: scenario.name,
+    assignments: version.assignments,
+    publishedAt: new Date(),
+    publishedBy,
+  };
+  console.log(`[Sandbox] Published "${scenario.name}" v${version.number} (${version.assignments.length} assignments)`);
+  return live;
+}
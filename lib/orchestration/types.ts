@@ -21,7 +21,9 @@ export interface Project {
     vesselTypes: string[];
     crewCount: number;
     equipment: string[];
+    competencies?: CompetencyRequirement[]; // Key positions the crew roster must fill
   };
+  weatherTasks?: WeatherSensitiveTask[]; // Worked in order, each inside a workable weather window
   assignedVessels: string[];
   progress: number; // 0-100
   budget: {
@@ -45,26 +47,61 @@ export interface VesselAssignment {
 
 export interface ScheduleConflict {
   id: string;
-  type: 'vessel_double_booking' | 'crew_shortage' | 'equipment_unavailable' | 'weather_risk' | 'equipment_risk';
+  type: 'vessel_double_booking' | 'crew_shortage' | 'equipment_unavailable' | 'weather_risk' | 'equipment_risk'
+      | 'vessel_type_mismatch' | 'maintenance_overlap' | 'transit_infeasible' | 'unfilled_assignment';
   severity: 'critical' | 'warning' | 'info';
   affectedVessels: string[];
   affectedProjects: string[];
+  affectedCrew?: string[]; // Crew member ids, for roster conflicts
   description: string;
   suggestedResolution: string;
 }
 
+// Vessel availability as seen by the schedule optimizer
+export interface ScheduleVessel {
+  id: string;
+  name: string;
+  type: string;
+  health_score?: number;
+  position_lat?: number;
+  position_lng?: number;
+  speedKnots?: number;
+  crewCapacity?: number; // Persons the vessel can bring to a project
+  equipment?: string[]; // Defaults by vessel type when absent
+  availableFrom?: Date;
+  maintenanceWindows?: Array<{ start: Date; end: Date; reason?: string }>;
+}
+
+export interface ScheduleMetrics {
+  utilization: number; // % of fleet vessel-days on project work
+  transitDistanceNm: number;
+  transitFuelLiters: number;
+  transitDays: number;
+  lateStartDays: number; // Days projects wait for their vessels, unfilled slots for the whole window
+  operatingCost: number; // USD: transit fuel, transit days and late starts (unfilled slots included)
+  unfilledAssignments: number;
+  unfilledPenalty: number; // Solver penalty (USD-weighted) for the unfilled slots, not a cost
+  conflictCount: number;
+}
+
 export interface OptimizationResult {
   id: string;
   originalSchedule: VesselAssignment[];
   optimizedSchedule: VesselAssignment[];
   improvements: {
-    utilizationGain: number;
-    costSavings: number;
-    fuelSavings: number;
-    timeReduction: number;
+    utilizationGain: number; // percentage points
+    costSavings: number; // USD
+    fuelSavings: number; // liters
+    timeReduction: number; // days of transit and late starts
   };
-  conflicts: ScheduleConflict[];
+  before: ScheduleMetrics;
+  after: ScheduleMetrics;
+  conflicts: ScheduleConflict[]; // Requirements the optimized plan still cannot meet
   confidence: number;
+  weather?: {
+    tasks: ScheduledWeatherTask[];
+    downtime: ProjectWeatherDowntime[];
+  };
 }
 
 export interface ScenarioSimulation {
@@ -100,6 +137,225 @@ export interface FleetMetrics {
   revenuePerDay: number;
 }
 
+// Crew, competencies and rotations
+export type CrewRank =
+  | 'master'
+  | 'chief_officer'
+  | 'officer'
+  | 'senior_dpo'
+  | 'dpo'
+  | 'chief_engineer'
+  | 'engineer'
+  | 'electrician'
+  | 'crane_operator'
+  | 'rigger'
+  | 'able_seaman';
+
+export type CertificateType =
+  | 'stcw_basic_safety' // STCW A-VI/1 basic safety training
+  | 'stcw_advanced_firefighting' // STCW A-VI/3
+  | 'stcw_medical_care' // STCW A-VI/4-2
+  | 'coc_deck' // Certificate of competency, deck officer
+  | 'coc_engineer' // Certificate of competency, engineer officer
+  | 'dp_unlimited' // Nautical Institute DP certificate
+  | 'crane_operator' // OPITO / LEEA offshore crane operator
+  | 'rigger'
+  | 'bosiet' // Offshore survival and emergency training
+  | 'medical_fitness'; // ENG1 or equivalent
+
+export interface CrewCertificate {
+  type: CertificateType;
+  number?: string;
+  issuedAt?: Date;
+  expiresAt: Date;
+}
+
+// Days on / days off, e.g. 28/28; cycleStart is the first day of an on-hitch
+export interface RotationPattern {
+  onDays: number;
+  offDays: number;
+  cycleStart: Date;
+}
+
+export interface CrewMember {
+  id: string;
+  name: string;
+  rank: CrewRank;
+  certificates: CrewCertificate[];
+  rotation: RotationPattern;
+  homeVesselId?: string;
+}
+
+export interface CompetencyRequirement {
+  id: string;
+  label: string;
+  ranks: CrewRank[]; // Any of these ranks can fill the position
+  certificates?: CertificateType[]; // On top of what the rank itself needs
+  count: number; // On duty at all times while the project runs
+}
+
+export interface CrewAssignment {
+  id: string;
+  crewId: string;
+  projectId: string;
+  requirementId: string;
+  vesselId?: string;
+  startDate: Date;
+  endDate: Date;
+  shiftHours?: number; // Work hours per day; 12 when absent
+}
+
+export interface RosterPlan {
+  assignments: CrewAssignment[];
+  conflicts: ScheduleConflict[]; // All of type crew_shortage
+  coverage: Array<{
+    projectId: string;
+    requirementId: string;
+    label: string;
+    requiredDays: number; // Position-days the requirement needs
+    coveredDays: number;
+  }>;
+}
+
+// Mobilisation and demobilisation cost of putting a vessel on a project
+export interface MobilisationCostBreakdown {
+  fuelUSD: number; // Transit fuel, own or tugs', from the route engine
+  vesselDaysUSD: number; // Day rate while in transit or under tow
+  towageUSD: number; // Tug hire for units that cannot sail themselves
+  portFeesUSD: number; // Port dues and pilotage at departure and arrival ports
+  crewChangeUSD: number; // Crew travel, site induction and crew boat transfers
+  totalUSD: number;
+}
+
+export interface TransitEstimate {
+  distanceNm: number; // Along the sea route, not great circle
+  transitHours: number;
+  fuelLiters: number;
+  towed: boolean;
+  tugs: number;
+  cost: MobilisationCostBreakdown;
+}
+
+export interface MobilisationEstimate {
+  vesselId: string;
+  projectId: string;
+  mobilisation: TransitEstimate; // Current position to site
+  demobilisation: TransitEstimate; // Site back to the vessel's base
+  totalUSD: number;
+}
+
+// Weather windows and operability
+export interface OperationLimits {
+  id: string;
+  label: string;
+  maxWaveHeightM?: number; // Significant wave height (Hs)
+  maxWindKnots?: number;
+  maxSwellHeightM?: number;
+  minWindowHours?: number; // Shorter workable spells are not worth starting in
+}
+
+export interface MetoceanSample {
+  time: Date;
+  waveHeightM: number;
+  windSpeedKnots?: number; // Limits on missing values are not checked
+  swellHeightM?: number;
+}
+
+export interface WorkableWindow {
+  start: Date;
+  end: Date;
+  hours: number;
+}
+
+export interface OperabilityAnalysis {
+  operationId: string;
+  from: Date;
+  to: Date;
+  totalHours: number;
+  workableHours: number; // Inside windows at least minWindowHours long
+  operability: number; // 0-1
+  windows: WorkableWindow[];
+  exceedanceHours: { waveHeight: number; wind: number; swell: number };
+}
+
+export interface WeatherSensitiveTask {
+  id: string;
+  name: string;
+  operation: string | OperationLimits; // Built-in operation id or custom limits
+  durationHours: number; // Needs one window this long
+}
+
+export interface ScheduledWeatherTask {
+  taskId: string;
+  projectId: string;
+  name: string;
+  operationId: string;
+  status: 'placed' | 'beyond_forecast' | 'no_window';
+  start?: Date;
+  end?: Date;
+  waitHours: number; // Standby from ready to start; expected value when beyond the forecast
+}
+
+export interface ProjectWeatherDowntime {
+  projectId: string;
+  operationId: string; // Governing operation for the project type
+  operability: number; // 0-1 over the analysed series
+  analysedHours: number;
+  downtimeHours: number; // Within the analysed series
+  expectedDowntimeDays: number; // Over the remaining project, at the analysed operability
+  taskWaitHours: number;
+  weatherWindow?: { start: Date; end: Date }; // First workable window once on site
+}
+
+// Monte Carlo schedule risk for one project
+export type RiskDriverKind = 'weather' | 'productivity' | 'transit' | 'equipment';
+
+export interface RiskDriver {
+  id: string;
+  kind: RiskDriverKind;
+  label: string;
+  vesselId?: string;
+  // Mean outcome over the runs where this driver sampled in its lowest and highest decile
+  delayDays: { low: number; high: number };
+  cost: { low: number; high: number };
+  swingDays: number; // delayDays.high - delayDays.low; tornado bars are sorted by it
+}
+
+export interface RiskHistogramBin {
+  from: number;
+  to: number;
+  count: number;
+  cumulativePct: number; // Share of runs at or below `to`
+}
+
+export interface ProjectRiskAnalysis {
+  projectId: string;
+  projectName: string;
+  iterations: number;
+  seed: number | string;
+  asOf: Date;
+  plannedEnd: Date;
+  completion: {
+    p50: Date;
+    p80: Date;
+    p90: Date;
+    mean: Date;
+    histogram: RiskHistogramBin[]; // Days after asOf
+  };
+  delayDays: { p50: number; p80: number; p90: number }; // Against the planned end; negative is early
+  cost: {
+    p50: number;
+    p80: number;
+    p90: number;
+    mean: number;
+    budget: number;
+    histogram: RiskHistogramBin[]; // USD
+  };
+  onTimeProbability: number; // 0-1
+  withinBudgetProbability: number; // 0-1
+  drivers: RiskDriver[]; // Biggest first
+}
+
 
 
 
@@ -110,3 +366,64 @@ export interface FleetMetrics {
 
 
 
+
+// Planning sandbox: draft schedules as versioned change sets
+export type ScheduleEdit =
+  | { kind: 'move'; assignmentId: string; startDate: Date; endDate: Date }
+  | { kind: 'reassign'; assignmentId: string; vesselId: string; vesselName: string }
+  | { kind: 'status'; assignmentId: string; status: VesselAssignment['status'] }
+  | { kind: 'add'; assignment: VesselAssignment }
+  | { kind: 'remove'; assignmentId: string };
+
+export interface ScheduleChangeSet {
+  label: string; // e.g. "Move Zakum Crane Lift +3 days"
+  source: 'gantt' | 'optimizer' | 'manual';
+  edits: ScheduleEdit[];
+  author?: string;
+}
+
+export interface ScheduleVersion {
+  id: string;
+  scenarioId: string;
+  number: number; // 0 for the version a scenario starts from
+  parentId?: string;
+  changeSet?: ScheduleChangeSet; // What turned the parent into this version
+  assignments: VesselAssignment[];
+  createdAt: Date;
+}
+
+export interface PlanningScenario {
+  id: string;
+  name: string; // e.g. "Base", "Storm contingency"
+  baseVersionId: string; // Version it was branched from
+  versions: ScheduleVersion[]; // Oldest first; anything after head can be redone
+  head: number; // Index of the current version
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ScheduleDiffEntry {
+  assignmentId: string;
+  before: VesselAssignment;
+  after: VesselAssignment;
+  fields: Array<'vessel' | 'dates' | 'status' | 'utilization'>;
+  shiftDays: number; // Start date moved by; positive is later
+}
+
+export interface ScheduleDiff {
+  fromVersionId: string;
+  toVersionId: string;
+  added: VesselAssignment[];
+  removed: VesselAssignment[];
+  changed: ScheduleDiffEntry[];
+  unchanged: number;
+}
+
+export interface PublishedSchedule {
+  versionId: string;
+  scenarioId: string;
+  scenarioName: string;
+  assignments: VesselAssignment[];
+  publishedAt: Date;
+  publishedBy?: string;
+}
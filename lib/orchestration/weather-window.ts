@@ -0,0 +1,357 @@
+/**
+ * Weather Windows and Operability
+ *
+ * Marine operations stop when the sea state passes their limits: a crane
+ * lift at Hs 1.5 m or 20 kn of wind, a cutter suction dredger at Hs 2.5 m.
+ * Given a metocean time series for a site (forecast or hindcast), this finds
+ * the workable windows per operation, places a project's weather-sensitive
+ * tasks inside them and estimates the weather downtime the project carries.
+ *
+ * Series come from the route forecast sources (see
+ * lib/route-optimization/forecast) or, past the forecast horizon, from a
+ * synthetic Gulf hindcast with seasonal shamal events.
+ */
+
+import type { ForecastSource } from '@/lib/route-optimization/forecast';
+import { createSeededRng } from '@/lib/simulation/random';
+import {
+  MetoceanSample,
+  OperabilityAnalysis,
+  OperationLimits,
+  Project,
+  ProjectWeatherDowntime,
+  ScheduledWeatherTask,
+  WorkableWindow,
+} from './types';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const MIN_OPERABILITY = 0.05; // Floor for expected waits, so a stormy series never divides by zero
+
+export const MARINE_OPERATIONS: Record<string, OperationLimits> = {
+  crane_lift: { id: 'crane_lift', label: 'Crane lift', maxWaveHeightM: 1.5, maxWindKnots: 20, minWindowHours: 6 },
+  heavy_lift: { id: 'heavy_lift', label: 'Heavy lift', maxWaveHeightM: 1.0, maxWindKnots: 15, minWindowHours: 12 },
+  pipelay: { id: 'pipelay', label: 'Pipelay', maxWaveHeightM: 2.0, maxWindKnots: 25, minWindowHours: 12 },
+  jacking: { id: 'jacking', label: 'Jack-up positioning', maxWaveHeightM: 1.5, maxWindKnots: 25, maxSwellHeightM: 1.0, minWindowHours: 8 },
+  diving: { id: 'diving', label: 'Air diving', maxWaveHeightM: 1.2, maxWindKnots: 20, minWindowHours: 6 },
+  dredging: { id: 'dredging', label: 'Dredging', maxWaveHeightM: 2.5, maxWindKnots: 30, minWindowHours: 4 },
+  survey: { id: 'survey', label: 'Hydrographic survey', maxWaveHeightM: 1.5, maxWindKnots: 25, minWindowHours: 4 },
+};
+
+// Operation that governs day-to-day downtime for each kind of project
+const PROJECT_OPERATION: Record<Project['type'], string> = {
+  construction: 'crane_lift',
+  installation: 'heavy_lift',
+  decommissioning: 'heavy_lift',
+  maintenance: 'diving',
+  dredging: 'dredging',
+  survey: 'survey',
+};
+
+// Typical Hs (m) and wind (kn) by month (Jan-Dec) in the southern Gulf
+const MONTHLY_WAVE_HEIGHT_M = [1.0, 1.0, 0.9, 0.7, 0.6, 0.9, 0.8, 0.6, 0.5, 0.5, 0.7, 0.9];
+const MONTHLY_WIND_KNOTS = [12, 12, 11, 10, 10, 13, 12, 10, 9, 9, 11, 12];
+// Chance a shamal starts on a given day, by month; winter and early summer peaks
+const SHAMAL_ONSET_BY_MONTH = [0.08, 0.09, 0.07, 0.04, 0.03, 0.06, 0.06, 0.03, 0.02, 0.03, 0.05, 0.08];
+
+// ============================================================================
+// Operations
+// ============================================================================
+
+/**
+ * Limits for a built-in operation id, or custom limits passed through
+ */
+export function resolveOperation(operation: string | OperationLimits): OperationLimits {
+  if (typeof operation !== 'string') return operation;
+  const limits = MARINE_OPERATIONS[operation];
+  if (!limits) {
+    throw new Error(`Unknown marine operation "${operation}"; expected one of ${Object.keys(MARINE_OPERATIONS).join(', ')}`);
+  }
+  return limits;
+}
+
+export function governingOperation(project: Project): OperationLimits {
+  return MARINE_OPERATIONS[PROJECT_OPERATION[project.type]];
+}
+
+function exceedances(sample: MetoceanSample, limits: OperationLimits) {
+  return {
+    waveHeight: limits.maxWaveHeightM !== undefined && sample.waveHeightM > limits.maxWaveHeightM,
+    wind: limits.maxWindKnots !== undefined && sample.windSpeedKnots !== undefined && sample.windSpeedKnots > limits.maxWindKnots,
+    swell: limits.maxSwellHeightM !== undefined && sample.swellHeightM !== undefined && sample.swellHeightM > limits.maxSwellHeightM,
+  };
+}
+
+// ============================================================================
+// Operability
+// ============================================================================
+
+function sortedSeries(series: MetoceanSample[]): MetoceanSample[] {
+  return [...series].sort((a, b) => a.time.getTime() - b.time.getTime());
+}
+
+// Each sample holds until the next one; the last for the median step
+function sampleEnds(series: MetoceanSample[]): number[] {
+  const steps = series.slice(1).map((s, i) => s.time.getTime() - series[i].time.getTime()).sort((a, b) => a - b);
+  const lastStep = steps.length > 0 ? steps[Math.floor(steps.length / 2)] : HOUR_MS;
+  return series.map((s, i) => i + 1 < series.length ? series[i + 1].time.getTime() : s.time.getTime() + lastStep);
+}
+
+/**
+ * Workable windows and operability of one operation over a metocean series
+ *
+ * Workable spells shorter than the operation's minimum window do not count,
+ * except a spell still open at the end of the series.
+ */
+export function analyzeOperability(
+  series: MetoceanSample[],
+  operation: string | OperationLimits
+): OperabilityAnalysis {
+  const limits = resolveOperation(operation);
+  const samples = sortedSeries(series);
+  if (samples.length === 0) throw new Error('Metocean series is empty');
+  const ends = sampleEnds(samples);
+  const from = samples[0].time.getTime();
+  const to = ends[ends.length - 1];
+
+  const exceedanceHours = { waveHeight: 0, wind: 0, swell: 0 };
+  const spells: Array<{ start: number; end: number }> = [];
+  samples.forEach((sample, i) => {
+    const start = sample.time.getTime();
+    const hours = (ends[i] - start) / HOUR_MS;
+    const failed = exceedances(sample, limits);
+    if (failed.waveHeight) exceedanceHours.waveHeight += hours;
+    if (failed.wind) exceedanceHours.wind += hours;
+    if (failed.swell) exceedanceHours.swell += hours;
+    if (failed.waveHeight || failed.wind || failed.swell) return;
+
+    const last = spells[spells.length - 1];
+    if (last && last.end === start) last.end = ends[i];
+    else spells.push({ start, end: ends[i] });
+  });
+
+  const minMs = (limits.minWindowHours ?? 0) * HOUR_MS;
+  const windows: WorkableWindow[] = spells
+    .filter(w => w.end - w.start >= minMs || w.end === to)
+    .map(w => ({ start: new Date(w.start), end: new Date(w.end), hours: (w.end - w.start) / HOUR_MS }));
+  const totalHours = (to - from) / HOUR_MS;
+  const workableHours = windows.reduce((sum, w) => sum + w.hours, 0);
+
+  return {
+    operationId: limits.id,
+    from: new Date(from),
+    to: new Date(to),
+    totalHours,
+    workableHours,
+    operability: totalHours > 0 ? workableHours / totalHours : 0,
+    windows,
+    exceedanceHours,
+  };
+}
+
+/**
+ * A site's metocean series with window analysis cached per operation
+ */
+export interface SiteWeather {
+  from: number;
+  to: number;
+  analyze(limits: OperationLimits): OperabilityAnalysis;
+}
+
+export function createSiteWeather(series: MetoceanSample[]): SiteWeather {
+  const samples = sortedSeries(series);
+  if (samples.length === 0) throw new Error('Metocean series is empty');
+  const ends = sampleEnds(samples);
+  const cache = new Map<OperationLimits, OperabilityAnalysis>();
+  return {
+    from: samples[0].time.getTime(),
+    to: ends[ends.length - 1],
+    analyze(limits) {
+      if (!cache.has(limits)) cache.set(limits, analyzeOperability(samples, limits));
+      return cache.get(limits)!;
+    },
+  };
+}
+
+function workableHoursBetween(windows: WorkableWindow[], from: number, to: number): number {
+  return windows.reduce((sum, w) =>
+    sum + Math.max(0, Math.min(w.end.getTime(), to) - Math.max(w.start.getTime(), from)) / HOUR_MS, 0);
+}
+
+// ============================================================================
+// Task Placement
+// ============================================================================
+
+/**
+ * Place a project's weather-sensitive tasks, in order, from when its vessels are on site
+ *
+ * Each task needs one window at least its duration long and must finish by
+ * the project end. A task the series cannot settle (it runs out first) is
+ * beyond the forecast, with the wait expected at the series' operability.
+ */
+export function placeWeatherTasks(project: Project, site: SiteWeather, readyAt: number): ScheduledWeatherTask[] {
+  const deadline = project.schedule.endDate.getTime();
+  const placed: ScheduledWeatherTask[] = [];
+  let cursor = readyAt;
+
+  for (const task of project.weatherTasks ?? []) {
+    const limits = resolveOperation(task.operation);
+    const analysis = site.analyze(limits);
+    const durationMs = task.durationHours * HOUR_MS;
+    const base = { taskId: task.id, projectId: project.id, name: task.name, operationId: limits.id };
+
+    const window = analysis.windows.find(w => {
+      const start = Math.max(w.start.getTime(), cursor);
+      return start + durationMs <= w.end.getTime() && start + durationMs <= deadline;
+    });
+
+    if (window) {
+      const start = Math.max(window.start.getTime(), cursor);
+      placed.push({
+        ...base,
+        status: 'placed',
+        start: new Date(start),
+        end: new Date(start + durationMs),
+        waitHours: (start - cursor) / HOUR_MS,
+      });
+      cursor = start + durationMs;
+    } else if (site.to < deadline && cursor + durationMs <= deadline) {
+      const operability = Math.max(MIN_OPERABILITY, analysis.operability);
+      const waitHours = task.durationHours * (1 / operability - 1);
+      placed.push({ ...base, status: 'beyond_forecast', waitHours });
+      cursor = Math.max(cursor, site.to) + (waitHours + task.durationHours) * HOUR_MS;
+    } else {
+      placed.push({ ...base, status: 'no_window', waitHours: 0 });
+    }
+  }
+
+  return placed;
+}
+
+/**
+ * Weather downtime of a project's governing operation from when it is on site
+ *
+ * Operability comes from the part of the series the project overlaps, or
+ * from the whole series when that is under a day, and is carried over the
+ * rest of the project to give the expected downtime.
+ */
+export function projectWeatherDowntime(
+  project: Project,
+  site: SiteWeather,
+  readyAt: number,
+  tasks: ScheduledWeatherTask[] = []
+): ProjectWeatherDowntime {
+  const limits = governingOperation(project);
+  const analysis = site.analyze(limits);
+  const end = project.schedule.endDate.getTime();
+  const from = Math.max(readyAt, site.from);
+  const to = Math.min(end, site.to);
+  const analysedHours = Math.max(0, (to - from) / HOUR_MS);
+  const workableHours = analysedHours > 0 ? workableHoursBetween(analysis.windows, from, to) : 0;
+  const operability = analysedHours >= 24 ? workableHours / analysedHours : analysis.operability;
+  const window = analysis.windows.find(w => w.end.getTime() > readyAt && w.start.getTime() < end);
+
+  return {
+    projectId: project.id,
+    operationId: limits.id,
+    operability: Math.round(operability * 1000) / 1000,
+    analysedHours: Math.round(analysedHours),
+    downtimeHours: Math.round(analysedHours - workableHours),
+    expectedDowntimeDays: Math.round((Math.max(0, end - readyAt) / DAY_MS) * (1 - operability) * 10) / 10,
+    taskWaitHours: Math.round(tasks.reduce((sum, t) => sum + t.waitHours, 0)),
+    weatherWindow: window
+      ? { start: new Date(Math.max(window.start.getTime(), readyAt)), end: new Date(Math.min(window.end.getTime(), end)) }
+      : undefined,
+  };
+}
+
+// ============================================================================
+// Metocean Series
+// ============================================================================
+
+/**
+ * Hourly series for a site from a forecast source, up to the forecast horizon
+ */
+export async function fetchMetoceanSeries(
+  source: ForecastSource,
+  location: { lat: number; lng: number },
+  from: Date,
+  hours: number
+): Promise<MetoceanSample[]> {
+  const series: MetoceanSample[] = [];
+  const start = Math.floor(from.getTime() / HOUR_MS) * HOUR_MS;
+
+  for (let h = 0; h < hours; h++) {
+    const time = start + h * HOUR_MS;
+    const sample = await source.getForecast(location.lat, location.lng, new Date(time));
+    if (!sample) break;
+    // Sources clamp to their last step past the horizon
+    if (Math.abs(sample.validTime.getTime() - time) > HOUR_MS) break;
+    series.push({
+      time: new Date(time),
+      waveHeightM: sample.waveHeightM,
+      windSpeedKnots: sample.windSpeedKnots,
+      swellHeightM: sample.swellHeightM,
+    });
+  }
+
+  return series;
+}
+
+/**
+ * Synthetic hourly hindcast for a Gulf site: seasonal sea state, a sea
+ * breeze, and shamal events lasting one to three days
+ */
+export function generateHindcastSeries(
+  location: { lat: number; lng: number },
+  from: Date,
+  hours: number,
+  options: { seed?: number | string } = {}
+): MetoceanSample[] {
+  const rng = createSeededRng(options.seed ?? `${location.lat.toFixed(2)},${location.lng.toFixed(2)}`);
+  const start = Math.floor(from.getTime() / HOUR_MS) * HOUR_MS;
+  const series: MetoceanSample[] = [];
+  let noise = 0;
+  let shamal: { start: number; end: number; peakHs: number; peakWind: number } | null = null;
+
+  for (let h = 0; h < hours; h++) {
+    const time = start + h * HOUR_MS;
+    const date = new Date(time);
+    const month = date.getUTCMonth();
+
+    if (date.getUTCHours() === 0 && (!shamal || time >= shamal.end) && rng.chance(SHAMAL_ONSET_BY_MONTH[month])) {
+      shamal = {
+        start: time,
+        end: time + rng.range(1, 3) * DAY_MS,
+        peakHs: rng.range(2, 3.8),
+        peakWind: rng.range(25, 38),
+      };
+    }
+
+    noise = 0.85 * noise + rng.range(-0.15, 0.15);
+    const seaBreeze = 3 * Math.sin(((date.getUTCHours() - 8) / 24) * 2 * Math.PI);
+    let waveHeightM = Math.max(0.2, MONTHLY_WAVE_HEIGHT_M[month] * (1 + noise));
+    let windSpeedKnots = Math.max(2, MONTHLY_WIND_KNOTS[month] * (1 + noise) + seaBreeze);
+
+    if (shamal && time < shamal.end) {
+      // Builds over the first third, eases over the rest
+      const progress = (time - shamal.start) / (shamal.end - shamal.start);
+      const strength = progress < 1 / 3 ? progress * 3 : (1 - progress) * 1.5;
+      waveHeightM = Math.max(waveHeightM, shamal.peakHs * strength);
+      windSpeedKnots = Math.max(windSpeedKnots, shamal.peakWind * strength);
+    }
+
+    series.push({
+      time: date,
+      waveHeightM: Math.round(waveHeightM * 100) / 100,
+      windSpeedKnots: Math.round(windSpeedKnots * 10) / 10,
+      swellHeightM: Math.round(waveHeightM * 0.4 * 100) / 100,
+    });
+  }
+
+  return series;
+}
@@ -4,20 +4,27 @@ import {
   PMAnalysisRequest,
   PMDataSource,
   PMDegradationPoint,
-  PMEquipmentType,
+  PMEquipmentProfile,
+  PMOilReport,
   PMPrediction,
   PMPriority,
   PMReasoningStep,
+  PMRulBacktest,
+  PMRulEstimate,
+  PMRulModelType,
   PMSourceContribution,
   PMSourceType,
 } from './types'
 import {
-  getOEMProfile,
   getWearPercentage,
   getNextMaintenanceTask,
   getMostLikelyFailureMode,
 } from './oem-specs'
-import { getWorkOrderHistory, getFleetPatterns } from './history'
+import { getWorkOrderHistory, getFleetPatterns, getOilSamples } from './history'
+import { analyzeOilSamples } from './oil-analysis'
+import { backtestRulModels, estimateRemainingLife, rulConfidence } from './rul'
+import { summarizeTelemetry, withLatestTelemetry } from './telemetry'
+import { getEquipmentProfile, hoursSinceMaintenance } from './vessel-systems'
 import { getVesselIssues, type EquipmentIssue } from '../vessel-issues'
 
 const DATA_SOURCES: PMDataSource[] = [
@@ -104,13 +111,11 @@ const DATA_SOURCES: PMDataSource[] = [
 ]
 
 function calculateRemainingLife(
-  equipmentType: PMEquipmentType,
+  profile: PMEquipmentProfile,
   currentHealth: number,
   operatingHours: number,
   cycleCount?: number
 ): { value: number; unit: 'hours' | 'days' | 'cycles'; percentRemaining: number } {
-  const profile = getOEMProfile(equipmentType)
-  
   if (cycleCount !== undefined && profile.specs.expectedLifeCycles) {
     const remainingCycles = Math.max(0, profile.specs.expectedLifeCycles - cycleCount)
     const percentRemaining = (remainingCycles / profile.specs.expectedLifeCycles) * 100
@@ -148,6 +153,130 @@ function calculateRemainingLife(
   }
 }
 
+function remainingLifeFromEstimate(
+  estimate: PMRulEstimate,
+  operatingHours: number
+): PMPrediction['remainingLife'] {
+  const inDays = estimate.medianHours > 168
+  const toUnit = (hours: number) => Math.round(inDays ? hours / 24 : hours)
+  const expectedLife = operatingHours + estimate.medianHours
+
+  return {
+    value: toUnit(estimate.medianHours),
+    unit: inDays ? 'days' : 'hours',
+    percentRemaining: expectedLife > 0 ? Math.round((estimate.medianHours / expectedLife) * 100) : 100,
+    interval: {
+      lower: toUnit(estimate.lowerHours),
+      upper: toUnit(estimate.upperHours),
+      level: estimate.level,
+    },
+    model: estimate.model,
+  }
+}
+
+const RUL_SOURCE_TYPES: Record<PMRulModelType, PMSourceType> = {
+  weibull: 'work_history',
+  degradation: 'live_telemetry',
+  fleet_survival: 'fleet_data',
+  mtbf_prior: 'oem_specs',
+  combined: 'industry_standards',
+}
+
+function buildRulReasoning(estimates: PMRulEstimate[], backtest: PMRulBacktest[]): PMReasoningStep[] {
+  const days = (hours: number) => Math.round(hours / 24).toLocaleString()
+  const steps: PMReasoningStep[] = estimates.map(e => ({
+    id: uuidv4(),
+    text: `${e.description}: ${days(e.medianHours)} days remaining (${Math.round(e.level * 100)}% interval ${days(e.lowerHours)}-${days(e.upperHours)} days), ${(e.failureProbability * 100).toFixed(0)}% chance of failure within ${e.horizonHours.toLocaleString()}h`,
+    sourceType: RUL_SOURCE_TYPES[e.model],
+    confidence: rulConfidence(e),
+    isKey: e.failureProbability > 0.5,
+  }))
+
+  for (const b of backtest) {
+    steps.push({
+      id: uuidv4(),
+      text: `Back-tested ${b.model.replace('_', ' ')} model on ${b.cases} past repair${b.cases === 1 ? '' : 's'}: mean error ${days(b.meanAbsoluteErrorHours)} days, ${Math.round(b.intervalCoverage * 100)}% of failures inside the interval`,
+      sourceType: 'work_history',
+      confidence: Math.round(b.intervalCoverage * 100),
+    })
+  }
+
+  return steps
+}
+
+function buildTelemetryReasoning(
+  equipment: PMAnalysisRequest['equipmentList'][0],
+  profile: PMEquipmentProfile
+): PMReasoningStep[] {
+  const signals = [
+    { label: 'Vibration', unit: 'mm/s', trend: summarizeTelemetry(equipment.telemetry?.vibration), limit: profile.specs.maxVibration || 5 },
+    { label: 'Temperature', unit: '°C', trend: summarizeTelemetry(equipment.telemetry?.temperature), limit: profile.specs.maxTemperature || 80 },
+  ]
+
+  return signals.flatMap(({ label, unit, trend, limit }) => {
+    if (!trend || trend.samples < 2 || trend.spanDays < 1) return []
+    const perWeek = trend.slopePerDay * 7
+    const rising = perWeek > 0 && trend.latest < limit
+    const daysToLimit = rising ? (limit - trend.latest) / trend.slopePerDay : null
+    return [{
+      id: uuidv4(),
+      text: `${label} over the last ${Math.round(trend.spanDays)} days: mean ${trend.mean.toFixed(1)} ${unit}, peak ${trend.peak.toFixed(1)} ${unit}, ${perWeek >= 0 ? 'rising' : 'falling'} ${Math.abs(perWeek).toFixed(2)} ${unit}/week${daysToLimit !== null && daysToLimit < 90 ? ` - reaches the ${limit} ${unit} limit in about ${Math.round(daysToLimit)} days` : ''}`,
+      sourceType: 'live_telemetry' as const,
+      confidence: Math.min(95, 60 + trend.samples),
+      isKey: daysToLimit !== null && daysToLimit < 30,
+    }]
+  })
+}
+
+function buildOilReasoning(report: PMOilReport | null): PMReasoningStep[] {
+  if (!report) return []
+  if (report.diagnoses.length === 0) {
+    const flagged = report.trends.filter(t => t.status !== 'normal')
+    return [{
+      id: uuidv4(),
+      text: flagged.length > 0
+        ? `Oil analysis over ${report.samples} samples: ${flagged.map(t => `${t.label} ${t.status}`).join(', ')} against ${report.limits.oilGrade} limits`
+        : `Oil analysis over ${report.samples} samples: wear metals, water and viscosity within ${report.limits.oilGrade} limits`,
+      sourceType: 'oil_analysis',
+      confidence: Math.min(90, 60 + report.samples * 5),
+    }]
+  }
+
+  return report.diagnoses.map(d => ({
+    id: uuidv4(),
+    text: `Oil analysis points to ${d.cause.toLowerCase()}: ${d.evidence.join(', ')}`,
+    sourceType: 'oil_analysis' as const,
+    confidence: d.confidence,
+    isKey: d.severity === 'critical',
+  }))
+}
+
+// One contribution for the asset, weighted by the worst oil condition and how many samples back it
+function buildOilContribution(reports: PMOilReport[]): PMSourceContribution | null {
+  if (reports.length === 0) return null
+  const rank = { good: 0, marginal: 1, critical: 2 }
+  const worst = reports.reduce((a, b) => (rank[b.condition] > rank[a.condition] ? b : a))
+  const samples = reports.reduce((sum, r) => sum + r.samples, 0)
+  const base = worst.condition === 'critical' ? 95 : worst.condition === 'marginal' ? 85 : 65
+  const reading = (parameter: string) => worst.trends.find(t => t.parameter === parameter)
+
+  return {
+    source: DATA_SOURCES.find(s => s.type === 'oil_analysis')!,
+    contribution: worst.diagnoses.length > 0
+      ? `${samples} samples from ${reports.length} oil-lubricated unit${reports.length === 1 ? '' : 's'}; ${worst.diagnoses[0].cause.toLowerCase()}`
+      : `${samples} samples from ${reports.length} oil-lubricated unit${reports.length === 1 ? '' : 's'}, trended against OEM and ASTM limits`,
+    relevanceScore: Math.round(base * Math.min(1, 0.6 + samples * 0.05)),
+    dataPoints: [
+      { label: 'Condition', value: worst.condition },
+      ...['iron', 'silicon', 'water'].flatMap(p => {
+        const t = reading(p)
+        return t ? [{ label: t.label, value: t.latest, unit: t.unit }] : []
+      }),
+      ...(worst.latest.iso4406 ? [{ label: 'ISO 4406', value: worst.latest.iso4406 }] : []),
+    ],
+  }
+}
+
 function determinePriority(
   currentHealth: number,
   remainingLifePercent: number,
@@ -168,10 +297,9 @@ function determinePriority(
 function generateDegradationCurve(
   currentHealth: number,
   operatingHours: number,
-  equipmentType: PMEquipmentType
+  profile: PMEquipmentProfile
 ): PMDegradationPoint[] {
   const points: PMDegradationPoint[] = []
-  const profile = getOEMProfile(equipmentType)
   const maxHours = profile.specs.maxOperatingHours || 20000
 
   const historyPoints = 10
@@ -206,7 +334,7 @@ function generateDegradationCurve(
 
 function buildReasoningChain(
   equipment: PMAnalysisRequest['equipmentList'][0],
-  profile: ReturnType<typeof getOEMProfile>,
+  profile: PMEquipmentProfile,
   workHistory: ReturnType<typeof getWorkOrderHistory>,
   fleetPatterns: ReturnType<typeof getFleetPatterns>,
   failureMode: ReturnType<typeof getMostLikelyFailureMode>
@@ -233,8 +361,19 @@ function buildReasoningChain(
     })
   }
 
+  if (equipment.system && equipment.component) {
+    const weakest = profile.failureModes.reduce((a, b) => ((a.mtbf ?? Infinity) <= (b.mtbf ?? Infinity) ? a : b), profile.failureModes[0])
+    steps.push({
+      id: uuidv4(),
+      text: `${equipment.system.name} (${equipment.system.criticality} criticality, serviced every ${equipment.system.maintenanceIntervalHours.toLocaleString()}h): ${profile.failureModes.length} known failure mode${profile.failureModes.length === 1 ? '' : 's'}${weakest?.mtbf ? `, shortest MTBF "${weakest.mode}" at ${weakest.mtbf.toLocaleString()}h` : ''}`,
+      sourceType: 'oem_specs',
+      confidence: 90,
+      isKey: equipment.system.criticality === 'critical',
+    })
+  }
+
   if (profile.specs.maintenanceIntervalHours && equipment.operatingHours) {
-    const nextTask = getNextMaintenanceTask(equipment.type, equipment.operatingHours)
+    const nextTask = getNextMaintenanceTask(profile, equipment.operatingHours)
     if (nextTask) {
       steps.push({
         id: uuidv4(),
@@ -294,6 +433,8 @@ function buildReasoningChain(
     })
   }
 
+  steps.push(...buildTelemetryReasoning(equipment, profile))
+
   if (failureMode) {
     steps.push({
       id: uuidv4(),
@@ -309,7 +450,7 @@ function buildReasoningChain(
 
 function buildSourceContributions(
   equipment: PMAnalysisRequest['equipmentList'][0],
-  profile: ReturnType<typeof getOEMProfile>,
+  profile: PMEquipmentProfile,
   workHistory: ReturnType<typeof getWorkOrderHistory>
 ): PMSourceContribution[] {
   const contributions: PMSourceContribution[] = []
@@ -323,12 +464,17 @@ function buildSourceContributions(
       { label: 'Vibration', value: equipment.vibration || 0, unit: 'mm/s' },
       { label: 'Temperature', value: equipment.temperature || 0, unit: '°C' },
       { label: 'Operating Hours', value: equipment.operatingHours || 0, unit: 'h' },
+      ...(equipment.telemetry
+        ? [{ label: 'History Samples', value: Object.values(equipment.telemetry).reduce((sum, samples) => sum + (samples?.length ?? 0), 0) }]
+        : []),
     ],
   })
 
   contributions.push({
     source: DATA_SOURCES.find(s => s.type === 'oem_specs')!,
-    contribution: `${profile.manufacturer} ${profile.model} maintenance specifications and wear curve`,
+    contribution: equipment.component
+      ? `${`${profile.manufacturer} ${profile.model}`.trim()} failure modes and MTBF from the vessel system profile`
+      : `${profile.manufacturer} ${profile.model} maintenance specifications and wear curve`,
     relevanceScore: 100,
     dataPoints: [
       { label: 'Max Hours', value: profile.specs.maxOperatingHours || 'N/A' },
@@ -391,38 +537,77 @@ export function analyzeEquipment(request: PMAnalysisRequest): PMAnalysis {
   const predictions: PMPrediction[] = []
   const allReasoningSteps: PMReasoningStep[] = []
   const allContributions: PMSourceContribution[] = []
+  const oilReports: PMOilReport[] = []
   let overallHealth = 0
 
-  for (const equipment of request.equipmentList) {
-    const profile = getOEMProfile(equipment.type)
+  for (const listed of request.equipmentList) {
+    const equipment = withLatestTelemetry(listed)
+    const profile = getEquipmentProfile(equipment)
     const workHistory = getWorkOrderHistory(request.assetId, equipment.id)
     const fleetPatterns = getFleetPatterns(equipment.type)
     
     const vesselIssue = findMatchingVesselIssue(request.assetId, equipment.name)
     
-    const failureMode = vesselIssue 
-      ? { 
-          mode: vesselIssue.pmPrediction.predictedIssue, 
-          probability: vesselIssue.status === 'critical' ? 0.85 : vesselIssue.status === 'warning' ? 0.65 : 0.45,
-          warningSignals: vesselIssue.pmPrediction.warningSignals 
-        }
-      : getMostLikelyFailureMode(equipment.type, equipment.vibration, equipment.temperature)
-
     const currentHealth = vesselIssue?.healthScore || equipment.currentHealth || 
-      getWearPercentage(equipment.type, equipment.cycleCount || equipment.operatingHours || 0)
+      getWearPercentage(profile, equipment.cycleCount || equipment.operatingHours || 0)
     
     overallHealth += currentHealth
 
-    const remainingLife = calculateRemainingLife(
-      equipment.type,
+    const rulInput = {
+      equipmentType: equipment.type,
+      operatingHours: equipment.operatingHours || 0,
+      cycleCount: equipment.cycleCount,
       currentHealth,
-      equipment.operatingHours || 0,
-      equipment.cycleCount
+      workOrders: workHistory,
+      degradation: equipment.degradationHistory,
+      fleetPatterns,
+      horizonHours: profile.specs.maintenanceIntervalHours,
+      // Vessel system components carry rated failure modes as a prior
+      failureModes: equipment.component
+        ? profile.failureModes.filter(fm => fm.mtbf).map(fm => ({ mode: fm.mode, mtbf: fm.mtbf! }))
+        : undefined,
+      hoursSinceMaintenance: equipment.component ? hoursSinceMaintenance(equipment) : undefined,
+    }
+    const oilReport = analyzeOilSamples(
+      equipment.oilSamples ?? getOilSamples(request.assetId, equipment.id, equipment.type),
+      equipment.type
     )
+    if (oilReport) oilReports.push(oilReport)
+
+    const rul = estimateRemainingLife(rulInput)
+    const rulBacktest = backtestRulModels(rulInput)
+
+    // Known issues fail with the modelled probability; the status only stands in without a model
+    const likelyMode = getMostLikelyFailureMode(profile, equipment.vibration, equipment.temperature)
+    const failureMode = vesselIssue 
+      ? { 
+          mode: vesselIssue.pmPrediction.predictedIssue, 
+          probability: rul.estimate?.failureProbability
+            ?? (vesselIssue.status === 'critical' ? 0.85 : vesselIssue.status === 'warning' ? 0.65 : 0.45),
+          warningSignals: vesselIssue.pmPrediction.warningSignals 
+        }
+      : likelyMode && equipment.component && rul.estimate
+        // A component mode's share of failures, times the chance of any failure before the next service
+        ? { ...likelyMode, probability: Math.round(likelyMode.probability * rul.estimate.failureProbability * 100) / 100 }
+        : likelyMode
+
+    // Serviced components wear from their last maintenance, not from new
+    const remainingLife = rul.estimate
+      ? remainingLifeFromEstimate(rul.estimate, rulInput.hoursSinceMaintenance ?? (equipment.operatingHours || 0))
+      : calculateRemainingLife(
+          profile,
+          currentHealth,
+          equipment.operatingHours || 0,
+          equipment.cycleCount
+        )
 
     const effectivePriority: PMPriority = vesselIssue 
       ? vesselIssue.pmPrediction.priority
-      : determinePriority(currentHealth, remainingLife.percentRemaining, failureMode !== null && failureMode.probability > 0.5)
+      : determinePriority(
+          currentHealth,
+          remainingLife.percentRemaining,
+          (failureMode !== null && failureMode.probability > 0.5) || oilReport?.condition === 'critical'
+        )
 
     const reasoningChain = buildReasoningChain(
       { ...equipment, currentHealth },
@@ -432,6 +617,9 @@ export function analyzeEquipment(request: PMAnalysisRequest): PMAnalysis {
       failureMode
     )
     
+    reasoningChain.push(...buildOilReasoning(oilReport))
+    reasoningChain.push(...buildRulReasoning(rul.estimates, rulBacktest))
+
     if (vesselIssue) {
       reasoningChain.unshift({
         id: uuidv4(),
@@ -453,7 +641,7 @@ export function analyzeEquipment(request: PMAnalysisRequest): PMAnalysis {
       allContributions.push(...contributions)
     }
 
-    const nextTask = getNextMaintenanceTask(equipment.type, equipment.operatingHours || 0)
+    const nextTask = getNextMaintenanceTask(profile, equipment.operatingHours || 0)
 
     let costMultiplier = 1
     if (effectivePriority === 'critical') costMultiplier = 3
@@ -479,6 +667,8 @@ export function analyzeEquipment(request: PMAnalysisRequest): PMAnalysis {
       equipmentId: equipment.id,
       equipmentName: equipment.name,
       equipmentType: equipment.type,
+      componentType: equipment.component?.type,
+      system: equipment.system,
       assetType: request.assetType,
       assetId: request.assetId,
       assetName: request.assetName,
@@ -487,7 +677,7 @@ export function analyzeEquipment(request: PMAnalysisRequest): PMAnalysis {
       description: predictionDescription,
       predictedIssue: vesselIssue?.pmPrediction.predictedIssue || failureMode?.mode || 'General wear progression',
       remainingLife,
-      confidence: vesselIssue ? 92 : Math.round(85 + Math.random() * 10),
+      confidence: rul.estimate ? rulConfidence(rul.estimate) : vesselIssue ? 92 : Math.round(85 + Math.random() * 10),
       recommendedAction,
       alternativeActions: [
         'Increase monitoring frequency',
@@ -514,9 +704,16 @@ export function analyzeEquipment(request: PMAnalysisRequest): PMAnalysis {
         start: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
         end: new Date(Date.now() + 14 * 24 * 60 * 60 * 1000),
       },
+      rul: {
+        estimates: rul.estimates,
+        backtest: rulBacktest,
+      },
     })
   }
 
+  const oilContribution = buildOilContribution(oilReports)
+  if (oilContribution) allContributions.push(oilContribution)
+
   const avgHealth = request.equipmentList.length > 0 ? overallHealth / request.equipmentList.length : 100
 
   const primaryEquipment = request.equipmentList[0]
@@ -524,7 +721,7 @@ export function analyzeEquipment(request: PMAnalysisRequest): PMAnalysis {
     ? generateDegradationCurve(
         primaryEquipment.currentHealth || 75,
         primaryEquipment.operatingHours || 5000,
-        primaryEquipment.type
+        getEquipmentProfile(primaryEquipment)
       )
     : []
 
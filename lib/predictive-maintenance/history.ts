@@ -1,4 +1,5 @@
-import { PMWorkOrder, PMFleetPattern, PMInspectionRecord, PMOilAnalysis, PMEquipmentType } from './types'
+import { PMWorkOrder, PMFleetPattern, PMInspectionRecord, PMOilAnalysis, PMOilSample, PMEquipmentType } from './types'
+import { analyzeOilSamples, getOilLimits, toOilAnalysis } from './oil-analysis'
 
 const WORK_ORDER_ISSUES: Record<PMEquipmentType, { pm: string[]; cm: string[] }> = {
   wire_rope: {
@@ -230,11 +231,8 @@ const FLEET_PATTERNS_DATA: PMFleetPattern[] = [
   },
 ]
 
-export function getWorkOrderHistory(assetId: string, equipmentId: string): PMWorkOrder[] {
-  const seed = hashCode(assetId + equipmentId)
-  const random = seededRandom(seed)
-  
-  const equipmentType = equipmentId.includes('wire') ? 'wire_rope' :
+function guessEquipmentType(equipmentId: string): PMEquipmentType {
+  return equipmentId.includes('wire') ? 'wire_rope' :
     equipmentId.includes('hoist') || equipmentId.includes('motor') ? 'hoist_motor' :
     equipmentId.includes('engine') ? 'main_engine' :
     equipmentId.includes('pump') ? 'pump_system' :
@@ -242,8 +240,15 @@ export function getWorkOrderHistory(assetId: string, equipmentId: string): PMWor
     equipmentId.includes('generator') || equipmentId.includes('gen') ? 'generator' :
     equipmentId.includes('boom') ? 'crane_boom' :
     equipmentId.includes('slew') ? 'slew_bearing' : 'main_engine'
+}
 
-  const issues = WORK_ORDER_ISSUES[equipmentType as PMEquipmentType] || WORK_ORDER_ISSUES.main_engine
+export function getWorkOrderHistory(assetId: string, equipmentId: string): PMWorkOrder[] {
+  const seed = hashCode(assetId + equipmentId)
+  const random = seededRandom(seed)
+  
+  const equipmentType = guessEquipmentType(equipmentId)
+
+  const issues = WORK_ORDER_ISSUES[equipmentType] || WORK_ORDER_ISSUES.main_engine
 
   const workOrders: PMWorkOrder[] = []
   const orderCount = Math.floor(random() * 8) + 4
@@ -312,70 +317,69 @@ export function getInspectionRecords(assetId: string, equipmentId: string): PMIn
   return records.sort((a, b) => b.date.getTime() - a.date.getTime())
 }
 
-export function getOilAnalysisRecords(assetId: string, equipmentId: string): PMOilAnalysis[] {
-  const seed = hashCode(assetId + equipmentId + 'oil')
-  const random = seededRandom(seed)
+// Monthly samples over one oil charge; some units develop a fault across the series
+export function getOilSamples(
+  assetId: string,
+  equipmentId: string,
+  equipmentType: PMEquipmentType = guessEquipmentType(equipmentId)
+): PMOilSample[] {
+  const limits = getOilLimits(equipmentType)
+  if (!limits) return []
 
-  const records: PMOilAnalysis[] = []
-  const recordCount = Math.floor(random() * 3) + 1
+  const random = seededRandom(hashCode(assetId + equipmentId + 'oil'))
+  const roll = random()
+  // Water from a leaking cooler brings copper from its tubes; ingress does not
+  const fault = roll < 0.15 ? 'dirt' : roll < 0.2 ? 'cooler' : roll < 0.25 ? 'water' : roll < 0.4 ? 'wear' : null
+  const wet = fault === 'cooler' || fault === 'water'
+  const target = limits.iso4406Target?.split('/').map(Number)
 
-  for (let i = 0; i < recordCount; i++) {
-    const daysAgo = Math.floor(random() * 60) + 21
-    const overallCondition = random() > 0.7 ? 'marginal' : random() > 0.9 ? 'critical' : 'good'
-    
-    records.push({
+  const samples: PMOilSample[] = []
+  const sampleCount = 6
+  const latestDaysAgo = Math.floor(random() * 14) + 7
+
+  for (let i = 0; i < sampleCount; i++) {
+    const progress = i / (sampleCount - 1)
+    const jitter = () => 0.85 + random() * 0.3
+    const grow = (active: boolean, rate = 2.5) => (active ? 1 + rate * progress * progress : 1)
+    const ppm = (warning: number, base: number, active: boolean, rate?: number) =>
+      Math.round(warning * base * jitter() * grow(active, rate) * 10) / 10
+
+    samples.push({
       id: `OIL-${new Date().getFullYear()}-${String(Math.floor(random() * 900) + 100)}`,
       assetId,
       equipmentId,
-      date: new Date(Date.now() - daysAgo * 24 * 60 * 60 * 1000),
+      date: new Date(Date.now() - (latestDaysAgo + (sampleCount - 1 - i) * 30) * 24 * 60 * 60 * 1000),
       lab: 'SGS Middle East',
-      results: [
-        {
-          parameter: 'Viscosity @ 40°C',
-          value: 95 + Math.floor(random() * 20),
-          unit: 'cSt',
-          status: random() > 0.8 ? 'warning' : 'normal',
-          trend: 'stable',
-        },
-        {
-          parameter: 'Iron (Fe)',
-          value: Math.floor(random() * 50) + 10,
-          unit: 'ppm',
-          status: random() > 0.7 ? 'warning' : 'normal',
-          trend: random() > 0.5 ? 'increasing' : 'stable',
-        },
-        {
-          parameter: 'Water Content',
-          value: Math.floor(random() * 500) + 50,
-          unit: 'ppm',
-          status: random() > 0.85 ? 'warning' : 'normal',
-          trend: 'stable',
-        },
-        {
-          parameter: 'Particle Count ISO',
-          value: Math.floor(random() * 4) + 16,
-          unit: '/17/14',
-          status: random() > 0.75 ? 'warning' : 'normal',
-          trend: random() > 0.6 ? 'increasing' : 'stable',
-        },
-        {
-          parameter: 'TAN',
-          value: Math.round((random() * 2 + 0.5) * 10) / 10,
-          unit: 'mgKOH/g',
-          status: random() > 0.8 ? 'warning' : 'normal',
-          trend: 'increasing',
-        },
-      ],
-      overallCondition: overallCondition as 'good' | 'marginal' | 'critical',
-      recommendation: overallCondition === 'critical' 
-        ? 'Immediate oil change recommended. Investigate source of contamination.'
-        : overallCondition === 'marginal'
-        ? 'Schedule oil change within next 500 operating hours. Monitor wear metals.'
-        : 'Oil condition acceptable. Continue normal monitoring.',
+      oilHours: (i + 1) * 250,
+      iron: ppm(limits.iron.warning, 0.35, fault === 'dirt' || fault === 'wear'),
+      copper: ppm(limits.copper.warning, 0.3, fault === 'cooler', 1.5),
+      aluminum: ppm(limits.aluminum.warning, 0.3, fault === 'dirt'),
+      silicon: ppm(limits.silicon.warning, 0.4, fault === 'dirt'),
+      viscosity40: Math.round(limits.nominalViscosity * (1 + (random() - 0.5) * 0.06 - (wet ? 0.05 * progress : 0)) * 10) / 10,
+      waterPpm: Math.round(ppm(limits.water.warning, 0.3, wet, 4)),
+      tan: Math.round(limits.tan.warning * (0.3 + 0.3 * progress) * jitter() * 100) / 100,
+      iso4406: target
+        ?.map(code => code - 1 + (fault === 'dirt' ? Math.round(3 * progress * progress) : 0) + (random() > 0.8 ? 1 : 0))
+        .join('/'),
     })
   }
 
-  return records.sort((a, b) => b.date.getTime() - a.date.getTime())
+  return samples
+}
+
+export function getOilAnalysisRecords(
+  assetId: string,
+  equipmentId: string,
+  equipmentType: PMEquipmentType = guessEquipmentType(equipmentId)
+): PMOilAnalysis[] {
+  const samples = getOilSamples(assetId, equipmentId, equipmentType)
+
+  // Each report as the lab would have issued it, from the samples up to then
+  return samples
+    .map((_, i) => analyzeOilSamples(samples.slice(0, i + 1), equipmentType))
+    .filter(report => report !== null)
+    .map(toOilAnalysis)
+    .sort((a, b) => b.date.getTime() - a.date.getTime())
 }
 
 function generateFindings(random: () => number, condition: string): string[] {
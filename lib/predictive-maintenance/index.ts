@@ -2,4 +2,7 @@ export * from './types'
 export * from './oem-specs'
 export * from './analyzer'
 export * from './history'
-
+export * from './oil-analysis'
+export * from './rul'
+export * from './telemetry'
+export * from './vessel-systems'
@@ -632,8 +632,13 @@ export function getOEMProfile(equipmentType: PMEquipmentType): PMEquipmentProfil
   return OEM_EQUIPMENT_PROFILES[equipmentType]
 }
 
-export function getWearPercentage(equipmentType: PMEquipmentType, currentCycles: number): number {
-  const profile = OEM_EQUIPMENT_PROFILES[equipmentType]
+// Helpers below take a built-in type or a profile built elsewhere (e.g. from a vessel system component)
+function resolveProfile(equipment: PMEquipmentType | PMEquipmentProfile): PMEquipmentProfile {
+  return typeof equipment === 'string' ? OEM_EQUIPMENT_PROFILES[equipment] : equipment
+}
+
+export function getWearPercentage(equipmentType: PMEquipmentType | PMEquipmentProfile, currentCycles: number): number {
+  const profile = resolveProfile(equipmentType)
   if (!profile.wearCurve || profile.wearCurve.length === 0) return 100
 
   const curve = profile.wearCurve
@@ -652,10 +657,10 @@ export function getWearPercentage(equipmentType: PMEquipmentType, currentCycles:
 }
 
 export function getNextMaintenanceTask(
-  equipmentType: PMEquipmentType, 
+  equipmentType: PMEquipmentType | PMEquipmentProfile, 
   currentHours: number
 ): { task: string; dueInHours: number; estimatedDuration: number; parts?: string[] } | null {
-  const profile = OEM_EQUIPMENT_PROFILES[equipmentType]
+  const profile = resolveProfile(equipmentType)
   if (!profile.maintenanceTasks || profile.maintenanceTasks.length === 0) return null
 
   let nearestTask = null
@@ -681,11 +686,11 @@ export function getNextMaintenanceTask(
 }
 
 export function getMostLikelyFailureMode(
-  equipmentType: PMEquipmentType,
+  equipmentType: PMEquipmentType | PMEquipmentProfile,
   vibration?: number,
   temperature?: number
 ): { mode: string; probability: number; warningSignals: string[] } | null {
-  const profile = OEM_EQUIPMENT_PROFILES[equipmentType]
+  const profile = resolveProfile(equipmentType)
   if (!profile.failureModes || profile.failureModes.length === 0) return null
 
   let highestProbability = 0
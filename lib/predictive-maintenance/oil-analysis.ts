@@ -0,0 +1,440 @@
+import {
+  PMEquipmentType,
+  PMOilAnalysis,
+  PMOilDiagnosis,
+  PMOilLimit,
+  PMOilLimits,
+  PMOilParameter,
+  PMOilReport,
+  PMOilSample,
+  PMOilStatus,
+  PMOilTrend,
+} from './types'
+
+// Lube oil analysis: trends each parameter over the current oil charge,
+// checks it against condemning limits for the equipment type, and matches
+// the pattern of abnormal parameters to a likely source.
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const MONTH_DAYS = 30
+
+// Limits in the style of OEM oil guides and ASTM D7720. Metals and water in
+// ppm, TAN in mgKOH/g, viscosity as change from the new oil grade. A rise
+// of `jump` between consecutive samples is abnormal even under the limit.
+// Wire ropes and booms are greased and have no oil limits.
+export const OIL_LIMITS: Partial<Record<PMEquipmentType, PMOilLimits>> = {
+  main_engine: {
+    equipmentType: 'main_engine',
+    oilGrade: 'SAE 40',
+    nominalViscosity: 140,
+    iron: { warning: 50, critical: 100, jump: 15 },
+    copper: { warning: 20, critical: 40, jump: 8 },
+    aluminum: { warning: 15, critical: 30, jump: 5 },
+    silicon: { warning: 15, critical: 25, jump: 5 },
+    water: { warning: 2000, critical: 5000, jump: 1000 },
+    tan: { warning: 3, critical: 4 },
+    viscosityChangePercent: { warning: 15, critical: 25 },
+  },
+  generator: {
+    equipmentType: 'generator',
+    oilGrade: 'SAE 40',
+    nominalViscosity: 140,
+    iron: { warning: 40, critical: 80, jump: 12 },
+    copper: { warning: 20, critical: 40, jump: 8 },
+    aluminum: { warning: 15, critical: 30, jump: 5 },
+    silicon: { warning: 15, critical: 25, jump: 5 },
+    water: { warning: 2000, critical: 5000, jump: 1000 },
+    tan: { warning: 3, critical: 4 },
+    viscosityChangePercent: { warning: 15, critical: 25 },
+  },
+  hydraulic_system: {
+    equipmentType: 'hydraulic_system',
+    oilGrade: 'ISO VG 46',
+    nominalViscosity: 46,
+    iron: { warning: 20, critical: 40, jump: 8 },
+    copper: { warning: 15, critical: 30, jump: 5 },
+    aluminum: { warning: 10, critical: 20, jump: 4 },
+    silicon: { warning: 10, critical: 20, jump: 4 },
+    water: { warning: 300, critical: 1000, jump: 150 },
+    tan: { warning: 1, critical: 2 },
+    viscosityChangePercent: { warning: 10, critical: 20 },
+    iso4406Target: '18/16/13',
+  },
+  pump_system: {
+    equipmentType: 'pump_system',
+    oilGrade: 'ISO VG 68',
+    nominalViscosity: 68,
+    iron: { warning: 30, critical: 60, jump: 10 },
+    copper: { warning: 20, critical: 40, jump: 6 },
+    aluminum: { warning: 10, critical: 20, jump: 4 },
+    silicon: { warning: 15, critical: 25, jump: 5 },
+    water: { warning: 500, critical: 1000, jump: 250 },
+    tan: { warning: 1.5, critical: 2.5 },
+    viscosityChangePercent: { warning: 10, critical: 20 },
+    iso4406Target: '19/17/14',
+  },
+  hoist_motor: {
+    equipmentType: 'hoist_motor',
+    oilGrade: 'ISO VG 220',
+    nominalViscosity: 220,
+    iron: { warning: 100, critical: 200, jump: 30 },
+    copper: { warning: 25, critical: 50, jump: 10 },
+    aluminum: { warning: 10, critical: 20, jump: 4 },
+    silicon: { warning: 20, critical: 40, jump: 8 },
+    water: { warning: 500, critical: 1000, jump: 250 },
+    tan: { warning: 1.5, critical: 2.5 },
+    viscosityChangePercent: { warning: 10, critical: 20 },
+    iso4406Target: '20/18/15',
+  },
+  slew_bearing: {
+    equipmentType: 'slew_bearing',
+    oilGrade: 'ISO VG 220',
+    nominalViscosity: 220,
+    iron: { warning: 100, critical: 200, jump: 30 },
+    copper: { warning: 25, critical: 50, jump: 10 },
+    aluminum: { warning: 10, critical: 20, jump: 4 },
+    silicon: { warning: 20, critical: 40, jump: 8 },
+    water: { warning: 500, critical: 1000, jump: 250 },
+    tan: { warning: 1.5, critical: 2.5 },
+    viscosityChangePercent: { warning: 10, critical: 20 },
+    iso4406Target: '20/18/15',
+  },
+}
+
+export function getOilLimits(equipmentType: PMEquipmentType): PMOilLimits | null {
+  return OIL_LIMITS[equipmentType] ?? null
+}
+
+/**
+ * Scale numbers of an ISO 4406 code such as 18/16/13 (>4, >6 and >14 µm)
+ */
+export function parseIso4406(code: string | undefined): [number, number, number] | null {
+  const parts = code?.trim().split('/').map(Number)
+  if (!parts || parts.length !== 3 || parts.some(n => !Number.isInteger(n) || n < 0 || n > 28)) return null
+  return [parts[0], parts[1], parts[2]]
+}
+
+/**
+ * ISO 4406 scale number for a particle count per mL; each step doubles the count
+ */
+export function iso4406Code(countPerMl: number): number {
+  if (countPerMl <= 0.01) return 0
+  return Math.min(28, Math.max(0, Math.ceil(Math.log2(countPerMl * 100))))
+}
+
+export function formatIso4406(counts: { over4: number; over6: number; over14: number }): string {
+  return [counts.over4, counts.over6, counts.over14].map(iso4406Code).join('/')
+}
+
+const PARAMETERS: { parameter: PMOilParameter; label: string; unit: string; read: (s: PMOilSample) => number | undefined }[] = [
+  { parameter: 'iron', label: 'Iron (Fe)', unit: 'ppm', read: s => s.iron },
+  { parameter: 'copper', label: 'Copper (Cu)', unit: 'ppm', read: s => s.copper },
+  { parameter: 'aluminum', label: 'Aluminum (Al)', unit: 'ppm', read: s => s.aluminum },
+  { parameter: 'silicon', label: 'Silicon (Si)', unit: 'ppm', read: s => s.silicon },
+  { parameter: 'water', label: 'Water Content', unit: 'ppm', read: s => s.waterPpm },
+  { parameter: 'viscosity', label: 'Viscosity @ 40°C', unit: 'cSt', read: s => s.viscosity40 },
+  { parameter: 'tan', label: 'TAN', unit: 'mgKOH/g', read: s => s.tan },
+  { parameter: 'iso4406', label: 'Particle Count ISO', unit: '', read: s => parseIso4406(s.iso4406)?.[0] },
+]
+
+function worst(a: PMOilStatus, b: PMOilStatus): PMOilStatus {
+  const rank: Record<PMOilStatus, number> = { normal: 0, warning: 1, critical: 2 }
+  return rank[a] >= rank[b] ? a : b
+}
+
+function limitStatus(value: number, limit: PMOilLimit): PMOilStatus {
+  return value >= limit.critical ? 'critical' : value >= limit.warning ? 'warning' : 'normal'
+}
+
+function parameterStatus(
+  parameter: PMOilParameter,
+  sample: PMOilSample,
+  value: number,
+  previous: PMOilSample | undefined,
+  limits: PMOilLimits
+): { status: PMOilStatus; reason?: string } {
+  if (parameter === 'viscosity') {
+    const change = ((value - limits.nominalViscosity) / limits.nominalViscosity) * 100
+    const status = limitStatus(Math.abs(change), limits.viscosityChangePercent)
+    return status === 'normal' ? { status } : { status, reason: `${change > 0 ? '+' : ''}${change.toFixed(0)}% from ${limits.oilGrade}` }
+  }
+
+  if (parameter === 'iso4406') {
+    const codes = parseIso4406(sample.iso4406)
+    const target = parseIso4406(limits.iso4406Target)
+    if (!codes || !target) return { status: 'normal' }
+    // Each code over target doubles the particle count
+    const over = Math.max(...codes.map((c, i) => c - target[i]))
+    const status: PMOilStatus = over >= 3 ? 'critical' : over >= 1 ? 'warning' : 'normal'
+    const before = parseIso4406(previous?.iso4406)
+    if (status === 'normal' && before && codes.some((c, i) => c - before[i] >= 2)) {
+      return { status: 'warning', reason: `up from ${previous!.iso4406}` }
+    }
+    return status === 'normal' ? { status } : { status, reason: `target ${limits.iso4406Target}` }
+  }
+
+  const limit = limits[parameter]
+  const status = limitStatus(value, limit)
+  if (status !== 'normal') return { status, reason: `${status} limit ${limit[status]}` }
+
+  const before = previous ? PARAMETERS.find(p => p.parameter === parameter)!.read(previous) : undefined
+  if (limit.jump && before !== undefined && value - before >= limit.jump) {
+    return { status: 'warning', reason: `up ${round(value - before)} since last sample` }
+  }
+  return { status }
+}
+
+// Rise per month that counts as a trend rather than scatter
+function trendTolerance(parameter: PMOilParameter, limits: PMOilLimits): number {
+  if (parameter === 'viscosity') return limits.nominalViscosity * 0.01
+  if (parameter === 'iso4406') return 0.5
+  return limits[parameter].warning * 0.05
+}
+
+function round(value: number, digits = 1): number {
+  const f = Math.pow(10, digits)
+  return Math.round(value * f) / f
+}
+
+function slopePerMonth(points: { date: Date; value: number }[]): number {
+  if (points.length < 2) return 0
+  const t0 = points[0].date.getTime()
+  const xs = points.map(p => (p.date.getTime() - t0) / DAY_MS / MONTH_DAYS)
+  const meanX = xs.reduce((s, x) => s + x, 0) / xs.length
+  const meanY = points.reduce((s, p) => s + p.value, 0) / points.length
+  const sxx = xs.reduce((s, x) => s + (x - meanX) ** 2, 0)
+  if (sxx === 0) return 0
+  return xs.reduce((s, x, i) => s + (x - meanX) * (points[i].value - meanY), 0) / sxx
+}
+
+// Samples since the last oil change, seen as hours on oil going down
+function currentCharge(samples: PMOilSample[]): PMOilSample[] {
+  let start = 0
+  for (let i = 1; i < samples.length; i++) {
+    const hours = samples[i].oilHours
+    const before = samples[i - 1].oilHours
+    if (hours !== undefined && before !== undefined && hours < before) start = i
+  }
+  return samples.slice(start)
+}
+
+function buildTrends(charge: PMOilSample[], limits: PMOilLimits): PMOilTrend[] {
+  const latest = charge[charge.length - 1]
+  const previous = charge.length > 1 ? charge[charge.length - 2] : undefined
+
+  return PARAMETERS.flatMap(({ parameter, label, unit, read }) => {
+    const value = read(latest)
+    if (value === undefined) return []
+    if (parameter === 'iso4406' && !limits.iso4406Target) return []
+
+    const values = charge
+      .map(s => ({ date: s.date, value: read(s) }))
+      .filter((p): p is { date: Date; value: number } => p.value !== undefined)
+    const slope = slopePerMonth(values)
+    const tolerance = trendTolerance(parameter, limits)
+    const { status, reason } = parameterStatus(parameter, latest, value, previous, limits)
+    const before = previous ? read(previous) : undefined
+
+    return [{
+      parameter,
+      label,
+      unit: parameter === 'iso4406' ? `/${latest.iso4406!.split('/').slice(1).join('/')}` : unit,
+      latest: value,
+      previous: before,
+      slopePerMonth: round(slope, 2),
+      status,
+      direction: slope > tolerance ? 'increasing' : slope < -tolerance ? 'decreasing' : 'stable',
+      reason,
+      values,
+    } satisfies PMOilTrend]
+  })
+}
+
+interface OilRuleContext {
+  equipmentType: PMEquipmentType
+  trends: Partial<Record<PMOilParameter, PMOilTrend>>
+  limits: PMOilLimits
+}
+
+const isEngine = (type: PMEquipmentType) => type === 'main_engine' || type === 'generator'
+const isGearbox = (type: PMEquipmentType) => type === 'hoist_motor' || type === 'slew_bearing'
+
+function abnormal(trend?: PMOilTrend): boolean {
+  return trend !== undefined && trend.status !== 'normal'
+}
+
+function elevated(trend?: PMOilTrend): boolean {
+  return abnormal(trend) || trend?.direction === 'increasing'
+}
+
+// Patterns of abnormal parameters and the source they usually point to; evidence lists the parameters to cite
+const OIL_RULES: {
+  id: string
+  cause: (ctx: OilRuleContext) => string
+  evidence: PMOilParameter[]
+  applies: (ctx: OilRuleContext) => boolean
+  action: (ctx: OilRuleContext) => string
+}[] = [
+  {
+    id: 'dirt-ingress',
+    cause: () => 'Dirt ingress causing abrasive wear',
+    evidence: ['silicon', 'iron', 'aluminum', 'iso4406'],
+    applies: ({ trends: t }) => abnormal(t.silicon) && (elevated(t.iron) || elevated(t.aluminum)),
+    action: () => 'Inspect air intake and breather filters, seals and fill points; change oil and filters',
+  },
+  {
+    id: 'silicon-contamination',
+    cause: () => 'Dirt or silicone contamination without wear yet',
+    evidence: ['silicon', 'iso4406'],
+    applies: ({ trends: t }) => abnormal(t.silicon) && !elevated(t.iron) && !elevated(t.aluminum),
+    action: () => 'Check breathers and seals, rule out silicone sealant or antifoam, and resample to confirm',
+  },
+  {
+    id: 'cooler-leak',
+    cause: () => 'Oil cooler leak (water with copper from cooler tubes)',
+    evidence: ['water', 'copper'],
+    applies: ({ trends: t }) => abnormal(t.water) && elevated(t.copper),
+    action: () => 'Pressure test the oil cooler; drain free water and change the oil',
+  },
+  {
+    id: 'water-ingress',
+    cause: ({ equipmentType }) => isEngine(equipmentType) ? 'Water ingress (coolant or condensation)' : 'Water ingress through seals or breathers',
+    evidence: ['water', 'tan'],
+    applies: ({ trends: t }) => abnormal(t.water) && !elevated(t.copper),
+    action: ({ equipmentType }) => isEngine(equipmentType)
+      ? 'Check for glycol, liner seal and head gasket leaks; change the oil'
+      : 'Check shaft seals, breathers and tank condensation; dehydrate or change the oil',
+  },
+  {
+    id: 'bearing-wear',
+    cause: () => 'Bronze bearing or bushing wear',
+    evidence: ['copper'],
+    applies: ({ trends: t }) => abnormal(t.copper) && !abnormal(t.water),
+    action: () => 'Check bearing temperatures and clearances; inspect bushings and thrust washers',
+  },
+  {
+    id: 'ferrous-wear',
+    cause: ({ equipmentType }) => isEngine(equipmentType)
+      ? 'Cylinder liner, ring or camshaft wear'
+      : isGearbox(equipmentType) ? 'Gear and shaft wear' : 'Pump, shaft or bearing race wear',
+    evidence: ['iron', 'iso4406'],
+    applies: ({ trends: t }) => abnormal(t.iron) && !abnormal(t.silicon),
+    action: ({ equipmentType }) => isGearbox(equipmentType)
+      ? 'Run a PQ index or ferrography to size the debris; inspect the gear mesh and bearings'
+      : 'Run a PQ index or ferrography to size the debris; inspect the wear surfaces at the next stop',
+  },
+  {
+    id: 'aluminum-wear',
+    cause: ({ equipmentType }) => isEngine(equipmentType) ? 'Piston wear' : 'Pump housing or piston shoe wear',
+    evidence: ['aluminum', 'iron'],
+    applies: ({ trends: t }) => abnormal(t.aluminum) && !abnormal(t.silicon),
+    action: ({ equipmentType }) => isEngine(equipmentType)
+      ? 'Check blow-by and crankcase pressure; borescope the pistons'
+      : 'Check pump case drain flow and inspect the pump',
+  },
+  {
+    id: 'oxidation',
+    cause: () => 'Oil oxidation',
+    evidence: ['tan', 'viscosity'],
+    applies: ({ trends: t, limits }) =>
+      abnormal(t.tan) || (abnormal(t.viscosity) && t.viscosity!.latest > limits.nominalViscosity),
+    action: () => 'Change the oil; check operating temperature and the top-up grade',
+  },
+  {
+    id: 'viscosity-loss',
+    cause: ({ equipmentType }) => isEngine(equipmentType) ? 'Fuel dilution' : 'Viscosity loss from shear or wrong top-up oil',
+    evidence: ['viscosity'],
+    applies: ({ trends: t, limits }) => abnormal(t.viscosity) && t.viscosity!.latest < limits.nominalViscosity,
+    action: ({ equipmentType }) => isEngine(equipmentType)
+      ? 'Check injectors and fuel line leaks; change the oil'
+      : 'Confirm the top-up oil grade and change the oil',
+  },
+  {
+    id: 'particle-contamination',
+    cause: () => 'Particle contamination (filter bypass or ingress)',
+    evidence: ['iso4406'],
+    applies: ({ trends: t }) => abnormal(t.iso4406) && !abnormal(t.iron) && !abnormal(t.silicon),
+    action: () => 'Check filter differential pressure and the bypass valve; run a kidney-loop filter to target cleanliness',
+  },
+]
+
+function describe(trend: PMOilTrend): string {
+  const note = trend.reason ?? (trend.direction === 'increasing' ? `rising ${trend.slopePerMonth}/month` : undefined)
+  return `${trend.label} ${trend.latest}${trend.parameter === 'iso4406' ? trend.unit : ` ${trend.unit}`}${note ? ` (${note})` : ''}`
+}
+
+function diagnose(ctx: OilRuleContext, samples: number): PMOilDiagnosis[] {
+  return OIL_RULES.filter(rule => rule.applies(ctx)).map(rule => {
+    const cited = rule.evidence
+      .map(p => ctx.trends[p])
+      .filter((t): t is PMOilTrend => elevated(t))
+    const severity = cited.reduce<PMOilStatus>((s, t) => worst(s, t.status), 'warning') as PMOilDiagnosis['severity']
+    const abnormalCount = cited.filter(t => abnormal(t)).length
+    return {
+      id: rule.id,
+      cause: rule.cause(ctx),
+      evidence: cited.map(describe),
+      severity,
+      confidence: Math.min(95, 45 + abnormalCount * 12 + (cited.length - abnormalCount) * 6 + samples * 3),
+      action: rule.action(ctx),
+    }
+  }).sort((a, b) => (a.severity === b.severity ? b.confidence - a.confidence : a.severity === 'critical' ? -1 : 1))
+}
+
+/**
+ * Trend, limit and diagnose a unit's oil samples; null when the equipment
+ * type has no oil limits or there are no samples
+ */
+export function analyzeOilSamples(samples: PMOilSample[], equipmentType: PMEquipmentType): PMOilReport | null {
+  const limits = getOilLimits(equipmentType)
+  if (!limits || samples.length === 0) return null
+
+  const sorted = [...samples].sort((a, b) => a.date.getTime() - b.date.getTime())
+  const charge = currentCharge(sorted)
+  const trends = buildTrends(charge, limits)
+  const byParameter = Object.fromEntries(trends.map(t => [t.parameter, t])) as OilRuleContext['trends']
+  const diagnoses = diagnose({ equipmentType, trends: byParameter, limits }, charge.length)
+
+  const status = [...trends.map(t => t.status), ...diagnoses.map(d => d.severity)].reduce(worst, 'normal')
+  const condition = status === 'critical' ? 'critical' : status === 'warning' ? 'marginal' : 'good'
+  const top = diagnoses[0]
+
+  return {
+    equipmentType,
+    limits,
+    samples: charge.length,
+    latest: charge[charge.length - 1],
+    trends,
+    diagnoses,
+    condition,
+    recommendation: condition === 'critical'
+      ? `Change the oil now and investigate: ${top ? top.cause.toLowerCase() : 'parameters over the critical limit'}. ${top?.action ?? ''}`.trim()
+      : condition === 'marginal'
+        ? `Resample within 250 operating hours. ${top?.action ?? 'Watch the parameters flagged.'}`
+        : 'Oil condition acceptable. Continue the normal sampling interval.',
+  }
+}
+
+/**
+ * Lab report view of an analysis, as listed on the equipment detail
+ */
+export function toOilAnalysis(report: PMOilReport): PMOilAnalysis {
+  const { latest } = report
+  return {
+    id: latest.id,
+    assetId: latest.assetId,
+    equipmentId: latest.equipmentId,
+    date: latest.date,
+    lab: latest.lab,
+    results: report.trends.map(t => ({
+      parameter: t.label,
+      value: t.latest,
+      unit: t.unit,
+      status: t.status,
+      trend: t.direction,
+    })),
+    overallCondition: report.condition,
+    recommendation: report.recommendation,
+    diagnoses: report.diagnoses,
+  }
+}
@@ -0,0 +1,414 @@
+import {
+  PMFleetPattern,
+  PMRulBacktest,
+  PMRulEstimate,
+  PMRulInput,
+  PMRulModel,
+  PMWorkOrder,
+} from './types'
+
+// Remaining useful life models. Each turns what is known about one piece of
+// equipment into a median RUL in operating hours with a 90% interval and the
+// chance of failing before the next maintenance. Models return null when
+// they don't have enough data.
+
+const HOUR_MS = 60 * 60 * 1000
+const INTERVAL_LEVEL = 0.9
+const Z_90 = 1.645
+const DEFAULT_DUTY_HOURS_PER_DAY = 24
+const DEFAULT_HORIZON_HOURS = 720
+const MAX_RUL_HOURS = 100000
+const FAILURE_HEALTH = 30 // Health score treated as functional failure
+const MIN_WEIBULL_FAILURES = 2
+const MIN_DEGRADATION_POINTS = 4
+const MIN_POOLING_SPREAD = 0.5 // ln(upper / lower)
+
+// Fleet patterns and rated MTBFs give a mean failure point only; wear-out
+// failures are assumed to share this Weibull shape. Gamma(1 + 1/2.5) = 0.8873.
+const FLEET_WEIBULL_SHAPE = 2.5
+const FLEET_WEIBULL_GAMMA = 0.8873
+
+/**
+ * Maximum likelihood Weibull fit with right-censored observations
+ * Solves the profile equation for the shape by bisection.
+ */
+export function fitWeibull(
+  observations: { time: number; failed: boolean }[]
+): { shape: number; scale: number; failures: number } | null {
+  const data = observations.filter(o => o.time > 0)
+  const failures = data.filter(o => o.failed)
+  if (failures.length < MIN_WEIBULL_FAILURES) return null
+
+  // Work in units of the longest time to keep powers in range
+  const unit = Math.max(...data.map(o => o.time))
+  const t = data.map(o => o.time / unit)
+  const meanLogFailure = failures.reduce((sum, o) => sum + Math.log(o.time / unit), 0) / failures.length
+
+  const profile = (shape: number) => {
+    let sumPow = 0
+    let sumPowLog = 0
+    for (const x of t) {
+      const p = Math.pow(x, shape)
+      sumPow += p
+      sumPowLog += p * Math.log(x)
+    }
+    return sumPowLog / sumPow - 1 / shape - meanLogFailure
+  }
+
+  let lo = 0.2
+  let hi = 10
+  if (profile(lo) > 0) hi = lo
+  else if (profile(hi) < 0) lo = hi
+  for (let i = 0; i < 60 && hi - lo > 1e-6; i++) {
+    const mid = (lo + hi) / 2
+    if (profile(mid) < 0) lo = mid
+    else hi = mid
+  }
+  // Tiny samples give extreme shapes; keep them physically plausible
+  const shape = Math.min(8, Math.max(0.5, (lo + hi) / 2))
+  const sumPow = t.reduce((sum, x) => sum + Math.pow(x, shape), 0)
+  const scale = unit * Math.pow(sumPow / failures.length, 1 / shape)
+
+  return { shape, scale, failures: failures.length }
+}
+
+/**
+ * Remaining life quantiles of a Weibull unit that has survived to `age`
+ */
+function weibullResidual(shape: number, scale: number, age: number, horizon: number) {
+  const h0 = Math.pow(age / scale, shape)
+  const quantile = (survival: number) =>
+    Math.min(MAX_RUL_HOURS, scale * Math.pow(h0 - Math.log(survival), 1 / shape) - age)
+  return {
+    median: quantile(0.5),
+    lower: quantile(1 - (1 - INTERVAL_LEVEL) / 2),
+    upper: quantile((1 - INTERVAL_LEVEL) / 2),
+    failureProbability: 1 - Math.exp(-(Math.pow((age + horizon) / scale, shape) - h0)),
+  }
+}
+
+// Weibull risks with a shared shape combine into one Weibull
+function competingRiskScale(meanHours: number[]): number {
+  return Math.pow(
+    meanHours.reduce((sum, mean) => sum + Math.pow(mean / FLEET_WEIBULL_GAMMA, -FLEET_WEIBULL_SHAPE), 0),
+    -1 / FLEET_WEIBULL_SHAPE
+  )
+}
+
+// Standard normal CDF (Abramowitz and Stegun 7.1.26)
+function normalCdf(z: number): number {
+  const t = 1 / (1 + 0.3275911 * Math.abs(z) / Math.SQRT2)
+  const erf = 1 - t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429)))) *
+    Math.exp(-(z * z) / 2)
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2
+}
+
+function round(value: number, digits = 0): number {
+  const f = Math.pow(10, digits)
+  return Math.round(value * f) / f
+}
+
+function failureTimes(workOrders: PMWorkOrder[], asOf: Date, dutyHoursPerDay: number) {
+  const sorted = workOrders
+    .filter(wo => wo.dateCreated <= asOf)
+    .sort((a, b) => a.dateCreated.getTime() - b.dateCreated.getTime())
+  const failures = sorted.filter(wo => wo.type === 'CM' || wo.wasUnplanned)
+  const toHours = (ms: number) => (ms / HOUR_MS) * (dutyHoursPerDay / 24)
+
+  // Time to the first failure counts from the start of the record
+  const observations: { time: number; failed: boolean }[] = []
+  let since = sorted[0]?.dateCreated.getTime()
+  for (const failure of failures) {
+    observations.push({ time: toHours(failure.dateCreated.getTime() - since), failed: true })
+    since = failure.dateCreated.getTime()
+  }
+  const age = since !== undefined ? toHours(asOf.getTime() - since) : 0
+  if (since !== undefined) observations.push({ time: age, failed: false })
+
+  return { observations, age, failures }
+}
+
+/**
+ * Weibull fit on the intervals between corrective work orders; the time
+ * since the last repair is a censored observation and the unit's age
+ */
+export const weibullRulModel: PMRulModel = {
+  type: 'weibull',
+  name: 'Weibull failure history',
+  estimate(input) {
+    const asOf = input.asOf ?? new Date()
+    const horizon = input.horizonHours ?? DEFAULT_HORIZON_HOURS
+    const { observations, age } = failureTimes(input.workOrders, asOf, input.dutyHoursPerDay ?? DEFAULT_DUTY_HOURS_PER_DAY)
+    const fit = fitWeibull(observations)
+    if (!fit) return null
+
+    const residual = weibullResidual(fit.shape, fit.scale, age, horizon)
+    return {
+      model: 'weibull',
+      medianHours: round(residual.median),
+      lowerHours: round(residual.lower),
+      upperHours: round(residual.upper),
+      level: INTERVAL_LEVEL,
+      failureProbability: round(residual.failureProbability, 3),
+      horizonHours: horizon,
+      sampleSize: fit.failures,
+      parameters: { shape: round(fit.shape, 2), scaleHours: round(fit.scale), ageHours: round(age) },
+      description: `Weibull fit on ${fit.failures} failures (shape ${fit.shape.toFixed(2)}, scale ${Math.round(fit.scale).toLocaleString()}h)`,
+    }
+  },
+}
+
+/**
+ * Exponential decay fitted to the health score history, extrapolated to the
+ * failure threshold; the interval comes from the decay rate's standard error
+ */
+export const degradationRulModel: PMRulModel = {
+  type: 'degradation',
+  name: 'Exponential degradation',
+  estimate(input) {
+    const asOf = input.asOf ?? new Date()
+    const horizon = input.horizonHours ?? DEFAULT_HORIZON_HOURS
+    const duty = (input.dutyHoursPerDay ?? DEFAULT_DUTY_HOURS_PER_DAY) / 24
+    const points = (input.degradation ?? [])
+      .filter(p => !p.isProjected && p.healthScore > 0 && p.timestamp <= asOf)
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+    if (points.length < MIN_DEGRADATION_POINTS) return null
+
+    // ln(health) = a - rate * operating hours
+    const t0 = points[0].timestamp.getTime()
+    const x = points.map(p => ((p.timestamp.getTime() - t0) / HOUR_MS) * duty)
+    const y = points.map(p => Math.log(p.healthScore))
+    const n = points.length
+    const meanX = x.reduce((s, v) => s + v, 0) / n
+    const meanY = y.reduce((s, v) => s + v, 0) / n
+    const sxx = x.reduce((s, v) => s + (v - meanX) ** 2, 0)
+    if (sxx === 0) return null
+    const slope = x.reduce((s, v, i) => s + (v - meanX) * (y[i] - meanY), 0) / sxx
+    const intercept = meanY - slope * meanX
+    const sse = x.reduce((s, v, i) => s + (y[i] - intercept - slope * v) ** 2, 0)
+    const rateSe = Math.sqrt(sse / (n - 2) / sxx)
+
+    const rate = -slope
+    if (rate <= 0) return null // Not degrading
+
+    const now = ((asOf.getTime() - t0) / HOUR_MS) * duty
+    const headroom = Math.max(0, intercept - rate * now - Math.log(FAILURE_HEALTH))
+    const hoursAt = (r: number) => (r > 0 ? Math.min(MAX_RUL_HOURS, headroom / r) : MAX_RUL_HOURS)
+    const failureProbability = headroom === 0
+      ? 1
+      : rateSe > 0 ? 1 - normalCdf((headroom / horizon - rate) / rateSe) : (hoursAt(rate) <= horizon ? 1 : 0)
+
+    return {
+      model: 'degradation',
+      medianHours: round(hoursAt(rate)),
+      lowerHours: round(hoursAt(rate + Z_90 * rateSe)),
+      upperHours: round(hoursAt(rate - Z_90 * rateSe)),
+      level: INTERVAL_LEVEL,
+      failureProbability: round(failureProbability, 3),
+      horizonHours: horizon,
+      sampleSize: n,
+      parameters: { ratePerKHour: round(rate * 1000, 4), rateSePerKHour: round(rateSe * 1000, 4), failureHealth: FAILURE_HEALTH },
+      description: `Health decaying ${(rate * 1000 * 100).toFixed(1)}% per 1,000h over ${n} readings; ${FAILURE_HEALTH}% health is taken as failure`,
+    }
+  },
+}
+
+/**
+ * Competing-risk survival across the fleet failure patterns for this
+ * equipment type, conditioned on the unit's operating age
+ */
+export const fleetSurvivalRulModel: PMRulModel = {
+  type: 'fleet_survival',
+  name: 'Fleet survival',
+  estimate(input) {
+    const horizon = input.horizonHours ?? DEFAULT_HORIZON_HOURS
+    const cyclesPerHour = input.cycleCount !== undefined && input.operatingHours > 0
+      ? input.cycleCount / input.operatingHours
+      : undefined
+
+    const risks = input.fleetPatterns
+      .filter(p => p.equipmentType === input.equipmentType)
+      .map(p => ({
+        pattern: p,
+        meanHours: p.averageFailurePoint.unit === 'hours'
+          ? p.averageFailurePoint.value
+          : cyclesPerHour ? p.averageFailurePoint.value / cyclesPerHour : undefined,
+      }))
+      .filter((r): r is { pattern: PMFleetPattern; meanHours: number } => r.meanHours !== undefined && r.meanHours > 0)
+    if (risks.length === 0) return null
+
+    const beta = FLEET_WEIBULL_SHAPE
+    const scale = competingRiskScale(risks.map(r => r.meanHours))
+    const residual = weibullResidual(beta, scale, input.operatingHours, horizon)
+    const occurrences = risks.reduce((sum, r) => sum + r.pattern.occurrences, 0)
+
+    return {
+      model: 'fleet_survival',
+      medianHours: round(residual.median),
+      lowerHours: round(residual.lower),
+      upperHours: round(residual.upper),
+      level: INTERVAL_LEVEL,
+      failureProbability: round(residual.failureProbability, 3),
+      horizonHours: horizon,
+      sampleSize: occurrences,
+      parameters: { shape: beta, scaleHours: round(scale), ageHours: round(input.operatingHours), patterns: risks.length },
+      description: `${risks.length} fleet failure pattern${risks.length === 1 ? '' : 's'} over ${occurrences} occurrences at ${Math.round(input.operatingHours).toLocaleString()}h`,
+    }
+  },
+}
+
+/**
+ * Competing risks from the rated MTBF of each failure mode, aged from the
+ * last maintenance; a prior for equipment with little history of its own
+ */
+export const mtbfPriorRulModel: PMRulModel = {
+  type: 'mtbf_prior',
+  name: 'Failure mode MTBF',
+  estimate(input) {
+    const modes = (input.failureModes ?? []).filter(m => m.mtbf > 0)
+    if (modes.length === 0) return null
+
+    const horizon = input.horizonHours ?? DEFAULT_HORIZON_HOURS
+    const beta = FLEET_WEIBULL_SHAPE
+    const scale = competingRiskScale(modes.map(m => m.mtbf))
+    const age = input.hoursSinceMaintenance ?? input.operatingHours
+    const residual = weibullResidual(beta, scale, age, horizon)
+
+    return {
+      model: 'mtbf_prior',
+      medianHours: round(residual.median),
+      lowerHours: round(residual.lower),
+      upperHours: round(residual.upper),
+      level: INTERVAL_LEVEL,
+      failureProbability: round(residual.failureProbability, 3),
+      horizonHours: horizon,
+      sampleSize: modes.length,
+      parameters: { shape: beta, scaleHours: round(scale), ageHours: round(age), modes: modes.length },
+      description: `${modes.length} rated failure mode${modes.length === 1 ? '' : 's'} (shortest MTBF ${Math.min(...modes.map(m => m.mtbf)).toLocaleString()}h) at ${Math.round(age).toLocaleString()}h since maintenance`,
+    }
+  },
+}
+
+const RUL_MODELS: PMRulModel[] = [weibullRulModel, degradationRulModel, fleetSurvivalRulModel, mtbfPriorRulModel]
+
+export function getRulModels(): PMRulModel[] {
+  return [...RUL_MODELS]
+}
+
+/**
+ * Add a model, or replace the one of the same type
+ */
+export function registerRulModel(model: PMRulModel): void {
+  const index = RUL_MODELS.findIndex(m => m.type === model.type)
+  if (index >= 0) RUL_MODELS[index] = model
+  else RUL_MODELS.push(model)
+}
+
+/**
+ * Pool estimates on a log scale, weighting each by its sample size and the
+ * tightness of its interval; the pooled interval widens when models disagree
+ */
+export function combineRulEstimates(estimates: PMRulEstimate[]): PMRulEstimate | null {
+  if (estimates.length === 0) return null
+  if (estimates.length === 1) return estimates[0]
+
+  const log = (h: number) => Math.log(Math.max(1, h))
+  // A floor on the spread stops one very tight fit from drowning out the rest
+  const weights = estimates.map(e => {
+    const spread = Math.max(MIN_POOLING_SPREAD, log(e.upperHours) - log(e.lowerHours))
+    return Math.sqrt(e.sampleSize) / (spread * spread)
+  })
+  const total = weights.reduce((s, w) => s + w, 0)
+  const pool = (pick: (e: PMRulEstimate) => number) =>
+    estimates.reduce((s, e, i) => s + weights[i] * log(pick(e)), 0) / total
+
+  const median = pool(e => e.medianHours)
+  const disagreement = Math.sqrt(
+    estimates.reduce((s, e, i) => s + weights[i] * (log(e.medianHours) - median) ** 2, 0) / total
+  )
+
+  return {
+    model: 'combined',
+    medianHours: round(Math.exp(median)),
+    lowerHours: round(Math.exp(pool(e => e.lowerHours) - Z_90 * disagreement)),
+    upperHours: round(Math.min(MAX_RUL_HOURS, Math.exp(pool(e => e.upperHours) + Z_90 * disagreement))),
+    level: INTERVAL_LEVEL,
+    failureProbability: round(estimates.reduce((s, e, i) => s + weights[i] * e.failureProbability, 0) / total, 3),
+    horizonHours: estimates[0].horizonHours,
+    sampleSize: estimates.reduce((s, e) => s + e.sampleSize, 0),
+    parameters: Object.fromEntries(estimates.map((e, i) => [`${e.model}Weight`, round(weights[i] / total, 3)])),
+    description: `Weighted from ${estimates.map(e => e.model.replace('_', ' ')).join(', ')}`,
+  }
+}
+
+/**
+ * Run every model and pool what they return
+ */
+export function estimateRemainingLife(
+  input: PMRulInput,
+  models: PMRulModel[] = RUL_MODELS
+): { estimate: PMRulEstimate | null; estimates: PMRulEstimate[] } {
+  const estimates = models
+    .map(model => model.estimate(input))
+    .filter((e): e is PMRulEstimate => e !== null)
+  return { estimate: combineRulEstimates(estimates), estimates }
+}
+
+/**
+ * Confidence score (0-100) for an estimate: narrow intervals from many
+ * observations score highest
+ */
+export function rulConfidence(estimate: PMRulEstimate): number {
+  const spread = Math.log(Math.max(1, estimate.upperHours) / Math.max(1, estimate.lowerHours))
+  const score = 97 - 12 * spread - 20 / Math.sqrt(Math.max(1, estimate.sampleSize))
+  return Math.round(Math.min(95, Math.max(40, score)))
+}
+
+/**
+ * Replay a model over the work order history: just after each repair,
+ * predict from what was known then and compare with when the next
+ * corrective work order actually came
+ */
+export function backtestRulModel(model: PMRulModel, input: PMRulInput): PMRulBacktest | null {
+  const asOf = input.asOf ?? new Date()
+  const duty = input.dutyHoursPerDay ?? DEFAULT_DUTY_HOURS_PER_DAY
+  const { failures } = failureTimes(input.workOrders, asOf, duty)
+
+  const errors: number[] = []
+  let covered = 0
+  for (let k = 1; k < failures.length; k++) {
+    const at = failures[k - 1].dateCreated
+    const elapsed = ((asOf.getTime() - at.getTime()) / HOUR_MS) * (duty / 24)
+    const estimate = model.estimate({
+      ...input,
+      asOf: at,
+      operatingHours: Math.max(0, input.operatingHours - elapsed),
+      cycleCount: input.cycleCount !== undefined && input.operatingHours > 0
+        ? input.cycleCount * Math.max(0, input.operatingHours - elapsed) / input.operatingHours
+        : undefined,
+      workOrders: input.workOrders.filter(wo => wo.dateCreated <= at),
+      // Just repaired
+      hoursSinceMaintenance: input.hoursSinceMaintenance !== undefined ? 0 : undefined,
+    })
+    if (!estimate) continue
+
+    const actual = ((failures[k].dateCreated.getTime() - at.getTime()) / HOUR_MS) * (duty / 24)
+    errors.push(estimate.medianHours - actual)
+    if (actual >= estimate.lowerHours && actual <= estimate.upperHours) covered++
+  }
+
+  if (errors.length === 0) return null
+  return {
+    model: model.type,
+    cases: errors.length,
+    meanAbsoluteErrorHours: round(errors.reduce((s, e) => s + Math.abs(e), 0) / errors.length),
+    biasHours: round(errors.reduce((s, e) => s + e, 0) / errors.length),
+    intervalCoverage: round(covered / errors.length, 2),
+  }
+}
+
+export function backtestRulModels(input: PMRulInput, models: PMRulModel[] = RUL_MODELS): PMRulBacktest[] {
+  return models
+    .map(model => backtestRulModel(model, input))
+    .filter((b): b is PMRulBacktest => b !== null)
+}
@@ -0,0 +1,96 @@
+import { fetchTelemetry } from '../telemetry/client'
+import { VESSEL_STAND_IN_METRICS, vesselStandIn } from '../telemetry/equipment'
+import { PMAnalysisRequest, PMTelemetryHistory, PMTelemetrySample } from './types'
+
+type PMEquipmentInput = PMAnalysisRequest['equipmentList'][0]
+
+export const EQUIPMENT_TELEMETRY_METRICS: (keyof PMTelemetryHistory)[] = ['temperature', 'vibration', 'health']
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface PMTelemetryTrend {
+  latest: number
+  mean: number
+  peak: number
+  slopePerDay: number
+  spanDays: number
+  samples: number
+}
+
+// Sensor history per equipment id; given the equipment list, signals an
+// equipment has no series of its own for come from the vessel-level series
+// standing in for its type (simulated vessels report only those)
+export async function fetchEquipmentTelemetry(
+  assetId: string,
+  options: { days?: number; step?: string; equipment?: Pick<PMEquipmentInput, 'id' | 'type'>[] } = {}
+): Promise<Record<string, PMTelemetryHistory>> {
+  const series = await fetchTelemetry({
+    assetId,
+    metrics: [...EQUIPMENT_TELEMETRY_METRICS, ...VESSEL_STAND_IN_METRICS],
+    from: new Date(Date.now() - (options.days ?? 30) * DAY_MS),
+    step: options.step ?? '1h',
+  })
+
+  const samples = (s: (typeof series)[number]) => s.points.map(p => ({ timestamp: p.timestamp, value: p.value }))
+
+  const byEquipment: Record<string, PMTelemetryHistory> = {}
+  for (const s of series) {
+    if (!s.equipmentId || s.points.length === 0) continue
+    if (!EQUIPMENT_TELEMETRY_METRICS.includes(s.metric as keyof PMTelemetryHistory)) continue
+    const history = byEquipment[s.equipmentId] ?? (byEquipment[s.equipmentId] = {})
+    history[s.metric as keyof PMTelemetryHistory] = samples(s)
+  }
+
+  for (const equipment of options.equipment ?? []) {
+    for (const signal of EQUIPMENT_TELEMETRY_METRICS) {
+      if (byEquipment[equipment.id]?.[signal]) continue
+      const metric = vesselStandIn(equipment.type, signal)
+      const vesselSeries = metric && series.find(s => !s.equipmentId && s.metric === metric && s.points.length > 0)
+      if (!vesselSeries) continue
+      const history = byEquipment[equipment.id] ?? (byEquipment[equipment.id] = {})
+      history[signal] = samples(vesselSeries)
+    }
+  }
+  return byEquipment
+}
+
+export function summarizeTelemetry(samples: PMTelemetrySample[] | undefined): PMTelemetryTrend | null {
+  if (!samples || samples.length === 0) return null
+
+  const t0 = samples[0].timestamp.getTime()
+  const xs = samples.map(s => (s.timestamp.getTime() - t0) / DAY_MS)
+  const ys = samples.map(s => s.value)
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / ys.length
+  let sxx = 0
+  let sxy = 0
+  xs.forEach((x, i) => {
+    sxx += (x - meanX) ** 2
+    sxy += (x - meanX) * (ys[i] - meanY)
+  })
+
+  return {
+    latest: ys[ys.length - 1],
+    mean: meanY,
+    peak: Math.max(...ys),
+    slopePerDay: sxx > 0 ? sxy / sxx : 0,
+    spanDays: xs[xs.length - 1],
+    samples: samples.length,
+  }
+}
+
+// Stored readings are newer than the snapshot the caller passed in
+export function withLatestTelemetry(equipment: PMEquipmentInput): PMEquipmentInput {
+  const { telemetry } = equipment
+  if (!telemetry) return equipment
+
+  const latest = (samples?: PMTelemetrySample[]) => samples?.length ? samples[samples.length - 1].value : undefined
+  return {
+    ...equipment,
+    temperature: latest(telemetry.temperature) ?? equipment.temperature,
+    vibration: latest(telemetry.vibration) ?? equipment.vibration,
+    currentHealth: telemetry.health?.length ? Math.round(latest(telemetry.health)!) : equipment.currentHealth,
+    degradationHistory: equipment.degradationHistory
+      ?? telemetry.health?.map(s => ({ timestamp: s.timestamp, healthScore: s.value })),
+  }
+}
@@ -1,3 +1,5 @@
+import type { SystemComponent, VesselSystem } from '../vessel-profiles'
+
 export type PMSourceType = 
   | 'live_telemetry'
   | 'oem_specs'
@@ -58,11 +60,32 @@ export interface PMDegradationPoint {
   isProjected?: boolean
 }
 
+export interface PMTelemetrySample {
+  timestamp: Date
+  value: number
+}
+
+export interface PMTelemetryHistory {
+  temperature?: PMTelemetrySample[]
+  vibration?: PMTelemetrySample[]
+  health?: PMTelemetrySample[]
+}
+
+export interface PMSystemContext {
+  id: string
+  name: string
+  category: VesselSystem['category']
+  criticality: PMPriority
+  maintenanceIntervalHours: number
+}
+
 export interface PMPrediction {
   id: string
   equipmentId: string
   equipmentName: string
   equipmentType: PMEquipmentType
+  componentType?: string
+  system?: PMSystemContext
   assetType: PMAssetType
   assetId: string
   assetName: string
@@ -74,6 +97,12 @@ export interface PMPrediction {
     value: number
     unit: 'hours' | 'days' | 'cycles' | 'months'
     percentRemaining: number
+    interval?: {
+      lower: number
+      upper: number
+      level: number
+    }
+    model?: PMRulModelType
   }
   confidence: number
   recommendedAction: string
@@ -98,6 +127,10 @@ export interface PMPrediction {
     start: Date
     end: Date
   }
+  rul?: {
+    estimates: PMRulEstimate[]
+    backtest: PMRulBacktest[]
+  }
 }
 
 export interface PMAnalysis {
@@ -206,6 +239,81 @@ export interface PMOilAnalysis {
   }[]
   overallCondition: 'good' | 'marginal' | 'critical'
   recommendation: string
+  diagnoses?: PMOilDiagnosis[]
+}
+
+export type PMOilParameter = 'iron' | 'copper' | 'aluminum' | 'silicon' | 'viscosity' | 'water' | 'tan' | 'iso4406'
+
+export type PMOilStatus = 'normal' | 'warning' | 'critical'
+
+export interface PMOilSample {
+  id: string
+  assetId: string
+  equipmentId: string
+  date: Date
+  lab: string
+  oilHours?: number
+  iron?: number
+  copper?: number
+  aluminum?: number
+  silicon?: number
+  viscosity40?: number
+  waterPpm?: number
+  tan?: number
+  iso4406?: string
+}
+
+export interface PMOilLimit {
+  warning: number
+  critical: number
+  jump?: number
+}
+
+export interface PMOilLimits {
+  equipmentType: PMEquipmentType
+  oilGrade: string
+  nominalViscosity: number
+  iron: PMOilLimit
+  copper: PMOilLimit
+  aluminum: PMOilLimit
+  silicon: PMOilLimit
+  water: PMOilLimit
+  tan: PMOilLimit
+  viscosityChangePercent: PMOilLimit
+  iso4406Target?: string
+}
+
+export interface PMOilTrend {
+  parameter: PMOilParameter
+  label: string
+  unit: string
+  latest: number
+  previous?: number
+  slopePerMonth: number
+  status: PMOilStatus
+  direction: 'stable' | 'increasing' | 'decreasing'
+  reason?: string
+  values: { date: Date; value: number }[]
+}
+
+export interface PMOilDiagnosis {
+  id: string
+  cause: string
+  evidence: string[]
+  severity: Exclude<PMOilStatus, 'normal'>
+  confidence: number
+  action: string
+}
+
+export interface PMOilReport {
+  equipmentType: PMEquipmentType
+  limits: PMOilLimits
+  samples: number
+  latest: PMOilSample
+  trends: PMOilTrend[]
+  diagnoses: PMOilDiagnosis[]
+  condition: 'good' | 'marginal' | 'critical'
+  recommendation: string
 }
 
 export interface PMAnalysisRequest {
@@ -221,6 +329,11 @@ export interface PMAnalysisRequest {
     cycleCount?: number
     temperature?: number
     vibration?: number
+    degradationHistory?: PMDegradationPoint[]
+    telemetry?: PMTelemetryHistory
+    system?: PMSystemContext
+    component?: SystemComponent
+    oilSamples?: PMOilSample[]
   }[]
   environmentData?: {
     temperature?: number
@@ -230,3 +343,47 @@ export interface PMAnalysisRequest {
   }
 }
 
+
+export type PMRulModelType = 'weibull' | 'degradation' | 'fleet_survival' | 'mtbf_prior' | 'combined'
+
+export interface PMRulInput {
+  equipmentType: PMEquipmentType
+  operatingHours: number
+  cycleCount?: number
+  currentHealth: number
+  workOrders: PMWorkOrder[]
+  degradation?: PMDegradationPoint[]
+  fleetPatterns: PMFleetPattern[]
+  failureModes?: { mode: string; mtbf: number }[]
+  hoursSinceMaintenance?: number
+  dutyHoursPerDay?: number
+  horizonHours?: number
+  asOf?: Date
+}
+
+export interface PMRulEstimate {
+  model: PMRulModelType
+  medianHours: number
+  lowerHours: number
+  upperHours: number
+  level: number
+  failureProbability: number
+  horizonHours: number
+  sampleSize: number
+  parameters: Record<string, number>
+  description: string
+}
+
+export interface PMRulModel {
+  type: PMRulModelType
+  name: string
+  estimate: (input: PMRulInput) => PMRulEstimate | null
+}
+
+export interface PMRulBacktest {
+  model: PMRulModelType
+  cases: number
+  meanAbsoluteErrorHours: number
+  biasHours: number
+  intervalCoverage: number
+}
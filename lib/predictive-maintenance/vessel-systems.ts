@@ -0,0 +1,157 @@
+import type { SystemComponent, VesselProfile, VesselSystem } from '../vessel-profiles'
+import { getOEMProfile } from './oem-specs'
+import { PMAnalysisRequest, PMEquipmentProfile, PMEquipmentType, PMSystemContext } from './types'
+
+type PMEquipmentInput = PMAnalysisRequest['equipmentList'][0]
+
+export type PMSystemReading = Pick<PMEquipmentInput, 'currentHealth' | 'operatingHours' | 'temperature' | 'vibration'>
+
+const HOUR_MS = 60 * 60 * 1000
+
+// Nearest built-in type for work history, fleet patterns and sensor limits; first match wins
+const COMPONENT_TYPE_KEYWORDS: [RegExp, PMEquipmentType][] = [
+  [/wire|rope/i, 'wire_rope'],
+  [/slew|bearing/i, 'slew_bearing'],
+  [/generator|alternator|switchboard/i, 'generator'],
+  [/pump/i, 'pump_system'],
+  [/hydraulic|winch|cylinder|tensioner/i, 'hydraulic_system'],
+  [/crane|boom|stinger/i, 'crane_boom'],
+  [/motor/i, 'hoist_motor'],
+  [/engine|diesel|drive|thruster|propell/i, 'main_engine'],
+]
+
+const CATEGORY_TYPES: Record<VesselSystem['category'], PMEquipmentType> = {
+  propulsion: 'main_engine',
+  hydraulic: 'hydraulic_system',
+  electrical: 'generator',
+  dredging: 'pump_system',
+  crane: 'crane_boom',
+  navigation: 'generator',
+  safety: 'hydraulic_system',
+  hvac: 'pump_system',
+}
+
+const MITIGATION_INTERVALS: [RegExp, number][] = [
+  [/daily|each shift/i, 24],
+  [/weekly/i, 168],
+  [/monthly/i, 720],
+  [/annual|yearly/i, 8760],
+]
+
+const OVERHAUL_HOURS: Record<PMSystemContext['criticality'], number> = {
+  critical: 24,
+  high: 16,
+  medium: 8,
+  low: 4,
+}
+
+export function classifyComponent(component: SystemComponent, category?: VesselSystem['category']): PMEquipmentType {
+  const text = `${component.type} ${component.name}`
+  const match = COMPONENT_TYPE_KEYWORDS.find(([pattern]) => pattern.test(text))
+  if (match) return match[1]
+  return category ? CATEGORY_TYPES[category] : 'main_engine'
+}
+
+export function systemContext(system: VesselSystem): PMSystemContext {
+  return {
+    id: system.id,
+    name: system.name,
+    category: system.category,
+    criticality: system.criticalityLevel,
+    maintenanceIntervalHours: system.maintenanceIntervalHours,
+  }
+}
+
+// Modes without a rated MTBF take the component's average, or the nearest built-in type's
+function componentFailureModes(component: SystemComponent, fallbackMtbf: number): { mode: string; mtbf: number }[] {
+  const rated = component.failureModes.filter(fm => fm.mtbf && fm.mtbf > 0).map(fm => fm.mtbf!)
+  const defaultMtbf = rated.length > 0 ? rated.reduce((sum, m) => sum + m, 0) / rated.length : fallbackMtbf
+  return component.failureModes.map(fm => ({ mode: fm.mode, mtbf: fm.mtbf && fm.mtbf > 0 ? fm.mtbf : defaultMtbf }))
+}
+
+/**
+ * Equipment profile from a vessel profile component: failure mode shares
+ * come from their MTBFs, tasks from the mitigations, and sensor limits from
+ * the nearest built-in type
+ */
+export function componentProfile(component: SystemComponent, system?: PMSystemContext): PMEquipmentProfile {
+  const equipmentType = classifyComponent(component, system?.category)
+  const base = getOEMProfile(equipmentType)
+  const interval = system?.maintenanceIntervalHours ?? base.specs.maintenanceIntervalHours ?? 2000
+  const modes = componentFailureModes(component, base.specs.mtbf ?? interval * 4)
+  const totalRate = modes.reduce((sum, m) => sum + 1 / m.mtbf, 0)
+
+  const mitigations = Array.from(new Set(component.failureModes.flatMap(fm => fm.mitigations)))
+  const routine = mitigations.map(task => ({
+    task,
+    intervalHours: Math.min(interval, MITIGATION_INTERVALS.find(([pattern]) => pattern.test(task))?.[1] ?? interval),
+    estimatedDuration: 1,
+  }))
+
+  return {
+    id: `component-${component.id}`,
+    equipmentType,
+    manufacturer: component.manufacturer ?? '',
+    model: component.model ?? component.type,
+    specs: {
+      maintenanceIntervalHours: interval,
+      maxTemperature: base.specs.maxTemperature,
+      maxVibration: base.specs.maxVibration,
+      mtbf: totalRate > 0 ? Math.round(1 / totalRate) : undefined,
+    },
+    failureModes: component.failureModes.map((fm, i) => ({
+      mode: fm.mode,
+      probability: totalRate > 0 ? Math.round((1 / modes[i].mtbf / totalRate) * 100) / 100 : 0,
+      warningSignals: fm.symptoms,
+      mtbf: modes[i].mtbf,
+    })),
+    maintenanceTasks: [
+      ...routine.sort((a, b) => a.intervalHours - b.intervalHours),
+      {
+        task: `Overhaul ${component.name}`,
+        intervalHours: interval,
+        estimatedDuration: OVERHAUL_HOURS[system?.criticality ?? 'medium'],
+      },
+    ],
+  }
+}
+
+export function getEquipmentProfile(equipment: Pick<PMEquipmentInput, 'type' | 'system' | 'component'>): PMEquipmentProfile {
+  return equipment.component ? componentProfile(equipment.component, equipment.system) : getOEMProfile(equipment.type)
+}
+
+/**
+ * Hours since the component was last serviced: from its maintenance date
+ * when known, otherwise assuming service on every system interval
+ */
+export function hoursSinceMaintenance(equipment: PMEquipmentInput, asOf = new Date()): number | undefined {
+  const last = equipment.component?.lastMaintenance ? new Date(equipment.component.lastMaintenance) : null
+  if (last && !isNaN(last.getTime())) return Math.max(0, (asOf.getTime() - last.getTime()) / HOUR_MS)
+  if (equipment.operatingHours === undefined || !equipment.system) return undefined
+  return equipment.operatingHours % equipment.system.maintenanceIntervalHours
+}
+
+/**
+ * One analysis entry per component of every system on the vessel; readings
+ * are keyed by system id and shared by that system's components
+ */
+export function vesselSystemEquipment(
+  profile: VesselProfile,
+  readings: Record<string, PMSystemReading> = {}
+): PMEquipmentInput[] {
+  return profile.systems.flatMap(system => {
+    const context = systemContext(system)
+    const reading = readings[system.id]
+    return system.components.map(component => ({
+      id: component.id,
+      name: component.name,
+      type: classifyComponent(component, system.category),
+      currentHealth: reading?.currentHealth,
+      operatingHours: component.hoursOperated ?? reading?.operatingHours,
+      temperature: reading?.temperature,
+      vibration: reading?.vibration,
+      system: context,
+      component,
+    }))
+  })
+}
@@ -0,0 +1,401 @@
+/**
+ * Marine Forecast Sources
+ *
+ * Time-dependent weather for voyage routing. A ForecastSource answers
+ * "what are the sea conditions at this point at this time?", so each route
+ * segment can be checked against the forecast valid when the vessel actually
+ * passes through it rather than the conditions at departure.
+ *
+ * Sources:
+ * - Open-Meteo marine API (hourly, 7-day horizon) - default
+ * - Recorded forecast grids (GRIB-like JSON) - replays a stored forecast,
+ *   set FORECAST_GRID_FILE or call setForecastSource(createGridForecastSource(...))
+ */
+
+import { Coordinates, SegmentForecast } from './types';
+import { calculateDistanceNm, calculateBearing, calculateDestinationPoint } from './optimizer';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ForecastSample {
+  lat: number;
+  lng: number;
+  validTime: Date;           // Time the forecast value is valid for
+  waveHeightM: number;
+  windWaveHeightM: number;
+  swellHeightM?: number;
+  waveDirection?: number;    // degrees
+  windSpeedKnots?: number;
+}
+
+export interface ForecastSource {
+  id: string;
+  getForecast(lat: number, lng: number, time: Date): Promise<ForecastSample | null>;
+}
+
+/**
+ * Regular lat/lng/time grid, the JSON equivalent of a decoded GRIB message
+ * Field values are indexed [time][lat][lng]; null marks land or missing data.
+ */
+export interface ForecastGrid {
+  source?: string;
+  generatedAt: string;       // ISO time the forecast was issued
+  lats: number[];            // ascending
+  lngs: number[];            // ascending
+  times: string[];           // ISO valid times, ascending
+  fields: {
+    waveHeight: (number | null)[][][];
+    windWaveHeight?: (number | null)[][][];
+    swellHeight?: (number | null)[][][];
+    waveDirection?: (number | null)[][][];
+    windSpeed?: (number | null)[][][];  // knots
+  };
+}
+
+// ============================================================================
+// Open-Meteo Source
+// ============================================================================
+
+interface OpenMeteoHourlyResponse {
+  latitude: number;
+  longitude: number;
+  hourly: {
+    time: string[];
+    wave_height: (number | null)[];
+    wave_direction: (number | null)[];
+    wind_wave_height: (number | null)[];
+    swell_wave_height: (number | null)[];
+  };
+}
+
+const OPEN_METEO_CELL_DEG = 0.25; // Matches the marine model resolution
+const OPEN_METEO_FORECAST_DAYS = 7;
+
+/**
+ * Open-Meteo marine forecast, fetched once per grid cell and cached in memory
+ */
+export function createOpenMeteoForecastSource(): ForecastSource {
+  const cache = new Map<string, Promise<OpenMeteoHourlyResponse | null>>();
+
+  const fetchCell = (lat: number, lng: number): Promise<OpenMeteoHourlyResponse | null> => {
+    const cellLat = Math.round(lat / OPEN_METEO_CELL_DEG) * OPEN_METEO_CELL_DEG;
+    const cellLng = Math.round(lng / OPEN_METEO_CELL_DEG) * OPEN_METEO_CELL_DEG;
+    const key = `${cellLat.toFixed(2)},${cellLng.toFixed(2)}`;
+
+    if (!cache.has(key)) {
+      const url = new URL('https://marine-api.open-meteo.com/v1/marine');
+      url.searchParams.set('latitude', cellLat.toFixed(4));
+      url.searchParams.set('longitude', cellLng.toFixed(4));
+      url.searchParams.set('hourly', 'wave_height,wave_direction,wind_wave_height,swell_wave_height');
+      url.searchParams.set('forecast_days', String(OPEN_METEO_FORECAST_DAYS));
+      url.searchParams.set('timezone', 'GMT');
+
+      cache.set(key, fetch(url.toString(), { next: { revalidate: 1800 } })
+        .then(async response => {
+          if (!response.ok) {
+            console.error(`[Forecast] Open-Meteo error: ${response.status}`);
+            cache.delete(key);
+            return null;
+          }
+          return response.json() as Promise<OpenMeteoHourlyResponse>;
+        })
+        .catch(error => {
+          console.error('[Forecast] Open-Meteo fetch error:', error);
+          cache.delete(key);
+          return null;
+        }));
+    }
+    return cache.get(key)!;
+  };
+
+  return {
+    id: 'open-meteo',
+    async getForecast(lat, lng, time) {
+      const data = await fetchCell(lat, lng);
+      if (!data || data.hourly.time.length === 0) return null;
+
+      // Open-Meteo returns GMT times without a zone suffix
+      const times = data.hourly.time.map(t => new Date(`${t}Z`).getTime());
+      const index = nearestIndex(times, time.getTime());
+
+      return {
+        lat: data.latitude,
+        lng: data.longitude,
+        validTime: new Date(times[index]),
+        waveHeightM: data.hourly.wave_height[index] ?? 0,
+        windWaveHeightM: data.hourly.wind_wave_height[index] ?? 0,
+        swellHeightM: data.hourly.swell_wave_height[index] ?? undefined,
+        waveDirection: data.hourly.wave_direction[index] ?? undefined,
+      };
+    },
+  };
+}
+
+// ============================================================================
+// Recorded Grid Source
+// ============================================================================
+
+/**
+ * Forecast from a recorded grid
+ * Bilinear in space, linear in time; times outside the grid clamp to the
+ * first/last step. Directions are blended as unit vectors so 350° and 10°
+ * meet at 0°. Returns null outside the grid's spatial extent or over land.
+ */
+export function createGridForecastSource(grid: ForecastGrid): ForecastSource {
+  validateForecastGrid(grid);
+  const times = grid.times.map(t => new Date(t).getTime());
+
+  const sampleField = (
+    field: (number | null)[][][] | undefined,
+    lat: number,
+    lng: number,
+    time: number
+  ): number | null => {
+    if (!field) return null;
+    const [t0, t1, tw] = bracket(times, time);
+    const a = bilinear(field[t0], grid.lats, grid.lngs, lat, lng);
+    const b = bilinear(field[t1], grid.lats, grid.lngs, lat, lng);
+    if (a === null || b === null) return a ?? b;
+    return a + (b - a) * tw;
+  };
+
+  const component = (field: (number | null)[][][], fn: (radians: number) => number) =>
+    field.map(step => step.map(row => row.map(v => (v === null || v === undefined ? null : fn((v * Math.PI) / 180)))));
+  const direction = grid.fields.waveDirection && {
+    sin: component(grid.fields.waveDirection, Math.sin),
+    cos: component(grid.fields.waveDirection, Math.cos),
+  };
+
+  const sampleDirection = (lat: number, lng: number, time: number): number | null => {
+    if (!direction) return null;
+    const sin = sampleField(direction.sin, lat, lng, time);
+    const cos = sampleField(direction.cos, lat, lng, time);
+    // Opposite directions cancel out: no meaningful mean
+    if (sin === null || cos === null || Math.hypot(sin, cos) < 1e-6) return null;
+    return ((Math.atan2(sin, cos) * 180) / Math.PI + 360) % 360;
+  };
+
+  return {
+    id: `grid:${grid.source ?? 'recorded'}@${grid.generatedAt}`,
+    async getForecast(lat, lng, time) {
+      const t = time.getTime();
+      const waveHeight = sampleField(grid.fields.waveHeight, lat, lng, t);
+      if (waveHeight === null) return null;
+
+      // The value is interpolated between steps; report the nearest step as its valid time
+      const validTime = new Date(times[nearestIndex(times, t)]);
+
+      return {
+        lat,
+        lng,
+        validTime,
+        waveHeightM: waveHeight,
+        windWaveHeightM: sampleField(grid.fields.windWaveHeight, lat, lng, t) ?? 0,
+        swellHeightM: sampleField(grid.fields.swellHeight, lat, lng, t) ?? undefined,
+        waveDirection: sampleDirection(lat, lng, t) ?? undefined,
+        windSpeedKnots: sampleField(grid.fields.windSpeed, lat, lng, t) ?? undefined,
+      };
+    },
+  };
+}
+
+/**
+ * Load a recorded forecast grid from a JSON file on disk (server only)
+ */
+export async function loadForecastGrid(filePath: string): Promise<ForecastGrid> {
+  const { readFile } = await import('fs/promises');
+  const grid = JSON.parse(await readFile(filePath, 'utf-8')) as ForecastGrid;
+  validateForecastGrid(grid);
+  return grid;
+}
+
+function validateForecastGrid(grid: ForecastGrid): void {
+  const problems: string[] = [];
+  const ascending = (values: number[]) => values.every((v, i) => i === 0 || v > values[i - 1]);
+
+  if (!Array.isArray(grid.lats) || grid.lats.length === 0 || !ascending(grid.lats)) {
+    problems.push('lats must be a non-empty ascending array');
+  }
+  if (!Array.isArray(grid.lngs) || grid.lngs.length === 0 || !ascending(grid.lngs)) {
+    problems.push('lngs must be a non-empty ascending array');
+  }
+  if (!Array.isArray(grid.times) || grid.times.length === 0 ||
+      !ascending(grid.times.map(t => new Date(t).getTime()))) {
+    problems.push('times must be a non-empty ascending array of ISO times');
+  }
+  for (const [name, field] of Object.entries(grid.fields ?? {})) {
+    if (!field) continue;
+    const shapeOk = field.length === grid.times?.length &&
+      field.every(step => step.length === grid.lats?.length &&
+        step.every(row => row.length === grid.lngs?.length));
+    if (!shapeOk) {
+      problems.push(`field ${name} must be shaped [times][lats][lngs]`);
+    }
+  }
+  if (!grid.fields?.waveHeight) {
+    problems.push('waveHeight field is required');
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid forecast grid: ${problems.join('; ')}`);
+  }
+}
+
+// ============================================================================
+// Active Source
+// ============================================================================
+
+let activeSource: ForecastSource | null = null;
+
+/**
+ * Forecast source used when a request doesn't supply one
+ * FORECAST_GRID_FILE points at a recorded grid to replay instead of the live API.
+ */
+export async function getForecastSource(): Promise<ForecastSource> {
+  if (!activeSource) {
+    const gridFile = process.env.FORECAST_GRID_FILE;
+    activeSource = gridFile
+      ? createGridForecastSource(await loadForecastGrid(gridFile))
+      : createOpenMeteoForecastSource();
+    console.log(`[Forecast] Using forecast source ${activeSource.id}`);
+  }
+  return activeSource;
+}
+
+export function setForecastSource(source: ForecastSource | null): void {
+  activeSource = source;
+}
+
+// ============================================================================
+// Time-Dependent Route Evaluation
+// ============================================================================
+
+const FORECAST_SAMPLE_SPACING_NM = 30;
+
+/**
+ * Sea-state severity from wave heights (Douglas scale thresholds)
+ */
+export function classifySeaState(sample: Pick<ForecastSample, 'waveHeightM' | 'windWaveHeightM'>): SegmentForecast['severity'] {
+  const height = Math.max(sample.waveHeightM, sample.windWaveHeightM);
+  if (height >= 4.0) return 'severe';     // Very rough seas
+  if (height >= 2.5) return 'moderate';   // Moderate to rough
+  return 'minor';                         // Slight to smooth
+}
+
+/**
+ * Evaluate each segment of a path against the forecast valid at the vessel's
+ * predicted time of passage
+ *
+ * Samples are taken every ~30nm along each segment at the time the vessel
+ * reaches them; the worst sample is reported for the segment.
+ */
+export async function forecastPathSegments(
+  points: Coordinates[],
+  departureTime: Date,
+  speedKnots: number,
+  source: ForecastSource
+): Promise<SegmentForecast[]> {
+  const forecasts: SegmentForecast[] = [];
+  let elapsedHours = 0;
+
+  for (let i = 0; i < points.length - 1; i++) {
+    const from = points[i];
+    const to = points[i + 1];
+    const distance = calculateDistanceNm(from, to);
+    const bearing = calculateBearing(from, to);
+    const segmentHours = distance / speedKnots;
+    const sampleCount = Math.max(1, Math.ceil(distance / FORECAST_SAMPLE_SPACING_NM));
+
+    const samples = await Promise.all(
+      Array.from({ length: sampleCount }, (_, s) => {
+        const fraction = (s + 0.5) / sampleCount;
+        const point = calculateDestinationPoint(from, distance * fraction, bearing);
+        const passage = new Date(departureTime.getTime() + (elapsedHours + segmentHours * fraction) * 3600000);
+        return source.getForecast(point.lat, point.lng, passage)
+          .catch(() => null)
+          .then(sample => ({ point, passage, sample }));
+      })
+    );
+
+    const worst = samples.reduce<typeof samples[number] | null>((acc, s) => {
+      if (!s.sample) return acc;
+      if (!acc?.sample) return s;
+      return Math.max(s.sample.waveHeightM, s.sample.windWaveHeightM) >
+        Math.max(acc.sample.waveHeightM, acc.sample.windWaveHeightM) ? s : acc;
+    }, null);
+
+    const entry = new Date(departureTime.getTime() + elapsedHours * 3600000);
+    const exit = new Date(entry.getTime() + segmentHours * 3600000);
+
+    forecasts.push({
+      segmentIndex: i,
+      entryTime: entry,
+      exitTime: exit,
+      passageTime: worst?.passage ?? new Date((entry.getTime() + exit.getTime()) / 2),
+      forecastTime: worst?.sample?.validTime,
+      samplePoint: worst?.point,
+      waveHeightM: worst?.sample?.waveHeightM,
+      windWaveHeightM: worst?.sample?.windWaveHeightM,
+      windSpeedKnots: worst?.sample?.windSpeedKnots,
+      severity: worst?.sample ? classifySeaState(worst.sample) : 'unknown',
+      source: source.id,
+    });
+
+    elapsedHours += segmentHours;
+  }
+
+  return forecasts;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function nearestIndex(values: number[], target: number): number {
+  let best = 0;
+  for (let i = 1; i < values.length; i++) {
+    if (Math.abs(values[i] - target) < Math.abs(values[best] - target)) best = i;
+  }
+  return best;
+}
+
+/**
+ * Indices either side of a value and the interpolation weight between them
+ */
+function bracket(values: number[], target: number): [number, number, number] {
+  if (target <= values[0]) return [0, 0, 0];
+  const last = values.length - 1;
+  if (target >= values[last]) return [last, last, 0];
+  let i = 0;
+  while (values[i + 1] < target) i++;
+  return [i, i + 1, (target - values[i]) / (values[i + 1] - values[i])];
+}
+
+function bilinear(
+  field: (number | null)[][],
+  lats: number[],
+  lngs: number[],
+  lat: number,
+  lng: number
+): number | null {
+  if (lat < lats[0] || lat > lats[lats.length - 1] || lng < lngs[0] || lng > lngs[lngs.length - 1]) {
+    return null;
+  }
+  const [y0, y1, wy] = bracket(lats, lat);
+  const [x0, x1, wx] = bracket(lngs, lng);
+
+  const corners = [
+    { v: field[y0][x0], w: (1 - wy) * (1 - wx) },
+    { v: field[y0][x1], w: (1 - wy) * wx },
+    { v: field[y1][x0], w: wy * (1 - wx) },
+    { v: field[y1][x1], w: wy * wx },
+  ].filter((c): c is { v: number; w: number } => c.v !== null && c.v !== undefined);
+
+  // Renormalise over the sea cells so coastlines don't drag values to zero;
+  // sea cells that carry no weight say nothing about this point
+  const weight = corners.reduce((sum, c) => sum + c.w, 0);
+  if (corners.length === 0 || weight === 0) return null;
+  return corners.reduce((sum, c) => sum + c.v * c.w, 0) / weight;
+}
@@ -4,89 +4,17 @@
  * https://open-meteo.com/en/docs/marine-weather-api
  * 
  * FREE API - No API key required!
+ * 
+ * Conditions come from the active ForecastSource (see ./forecast), sampled at
+ * the time the vessel is predicted to reach each point.
  */
 
-import { WeatherZone } from './types';
+import { SegmentForecast, WeatherZone } from './types';
 import { calculateDistanceNm, calculateBearing, calculateDestinationPoint } from './optimizer';
+import { ForecastSource, classifySeaState, getForecastSource } from './forecast';
 
-interface MarineWeatherPoint {
-  lat: number;
-  lng: number;
-  waveHeight: number;        // meters
-  waveDirection: number;     // degrees
-  wavePeriod: number;        // seconds
-  windWaveHeight: number;    // meters
-  swellHeight: number;       // meters
-  swellDirection: number;    // degrees
-  seaSurfaceTemp?: number;   // celsius
-}
-
-interface OpenMeteoMarineResponse {
-  latitude: number;
-  longitude: number;
-  hourly: {
-    time: string[];
-    wave_height: (number | null)[];
-    wave_direction: (number | null)[];
-    wave_period: (number | null)[];
-    wind_wave_height: (number | null)[];
-    swell_wave_height: (number | null)[];
-    swell_wave_direction: (number | null)[];
-  };
-}
-
-/**
- * Fetch marine weather for a single point
- */
-async function fetchMarineWeather(lat: number, lng: number): Promise<MarineWeatherPoint | null> {
-  try {
-    const url = new URL('https://marine-api.open-meteo.com/v1/marine');
-    url.searchParams.set('latitude', lat.toFixed(4));
-    url.searchParams.set('longitude', lng.toFixed(4));
-    url.searchParams.set('hourly', 'wave_height,wave_direction,wave_period,wind_wave_height,swell_wave_height,swell_wave_direction');
-    url.searchParams.set('forecast_days', '1');
-    
-    const response = await fetch(url.toString(), {
-      next: { revalidate: 1800 } // Cache for 30 minutes
-    });
-    
-    if (!response.ok) {
-      console.error(`[Marine Weather] API error: ${response.status}`);
-      return null;
-    }
-    
-    const data: OpenMeteoMarineResponse = await response.json();
-    
-    // Get current hour's data (first entry is closest to now)
-    const currentHourIndex = 0;
-    
-    return {
-      lat: data.latitude,
-      lng: data.longitude,
-      waveHeight: data.hourly.wave_height[currentHourIndex] ?? 0,
-      waveDirection: data.hourly.wave_direction[currentHourIndex] ?? 0,
-      wavePeriod: data.hourly.wave_period[currentHourIndex] ?? 0,
-      windWaveHeight: data.hourly.wind_wave_height[currentHourIndex] ?? 0,
-      swellHeight: data.hourly.swell_wave_height[currentHourIndex] ?? 0,
-      swellDirection: data.hourly.swell_wave_direction[currentHourIndex] ?? 0,
-    };
-  } catch (error) {
-    console.error('[Marine Weather] Fetch error:', error);
-    return null;
-  }
-}
-
-/**
- * Determine severity based on wave conditions
- * Based on Douglas Sea Scale and maritime safety guidelines
- */
-function determineSeverity(waveHeight: number, windWaveHeight: number): 'minor' | 'moderate' | 'severe' {
-  const totalWaveHeight = Math.max(waveHeight, windWaveHeight);
-  
-  if (totalWaveHeight >= 4.0) return 'severe';      // Very rough seas
-  if (totalWaveHeight >= 2.5) return 'moderate';    // Moderate to rough
-  return 'minor';                                    // Slight to smooth
-}
+// Zones stay valid this long either side of the predicted passage
+const PASSAGE_WINDOW_PADDING_HOURS = 3;
 
 /**
  * Determine if conditions require avoidance
@@ -102,14 +30,20 @@ function getAvoidanceRecommendation(
 
 /**
  * Sample points along the route and identify hazardous areas
+ * 
+ * With a speed, each point is checked against the forecast valid when the
+ * vessel gets there and the zone is only valid around that passage time.
+ * Without one, all points use the forecast at departure (valid for 24h).
  */
 export async function fetchRealWeatherZones(
   origin: { lat: number; lng: number },
   destination: { lat: number; lng: number },
-  samplePoints: number = 5
+  samplePoints: number = 5,
+  options: { departureTime?: Date; speedKnots?: number; source?: ForecastSource } = {}
 ): Promise<WeatherZone[]> {
   const zones: WeatherZone[] = [];
-  const now = new Date();
+  const departure = options.departureTime ?? new Date();
+  const source = options.source ?? await getForecastSource();
   
   // Calculate route details
   const totalDistance = calculateDistanceNm(origin, destination);
@@ -121,52 +55,97 @@ export async function fetchRealWeatherZones(
   }
   
   // Sample points along the route
-  const samplePromises: Promise<{ point: { lat: number; lng: number }; weather: MarineWeatherPoint | null }>[] = [];
+  const samplePromises = [];
   
   for (let i = 1; i <= samplePoints; i++) {
     const fraction = i / (samplePoints + 1);
     const distanceNm = totalDistance * fraction;
     const point = calculateDestinationPoint(origin, distanceNm, bearing);
+    const passage = options.speedKnots
+      ? new Date(departure.getTime() + (distanceNm / options.speedKnots) * 3600000)
+      : departure;
     
     samplePromises.push(
-      fetchMarineWeather(point.lat, point.lng).then(weather => ({ point, weather }))
+      source.getForecast(point.lat, point.lng, passage)
+        .catch(() => null)
+        .then(weather => ({ point, passage, weather }))
     );
   }
   
   const samples = await Promise.all(samplePromises);
   
   // Analyze samples for hazardous conditions
-  for (const { point, weather } of samples) {
+  for (const { point, passage, weather } of samples) {
     if (!weather) continue;
     
-    const severity = determineSeverity(weather.waveHeight, weather.windWaveHeight);
+    const severity = classifySeaState(weather);
     
     // Only create zones for moderate or severe conditions
     if (severity === 'minor') continue;
     
-    const zone: WeatherZone = {
-      id: `weather-${point.lat.toFixed(2)}-${point.lng.toFixed(2)}`,
-      type: severity === 'severe' ? 'storm' : 'high_wind',
-      severity,
-      center: point,
-      radiusNm: severity === 'severe' ? 15 : 10,
-      windSpeedKnots: Math.round(weather.waveHeight * 10), // Rough estimate
-      waveHeightM: weather.waveHeight,
-      validFrom: now,
-      validTo: new Date(now.getTime() + 24 * 60 * 60 * 1000),
-      name: severity === 'severe' 
-        ? `High Seas Warning (${weather.waveHeight.toFixed(1)}m waves)`
-        : `Wave Advisory (${weather.waveHeight.toFixed(1)}m)`,
-      avoidanceRecommendation: getAvoidanceRecommendation(weather.waveHeight, severity),
-    };
+    const validFrom = options.speedKnots
+      ? new Date(passage.getTime() - PASSAGE_WINDOW_PADDING_HOURS * 3600000)
+      : departure;
+    const validTo = options.speedKnots
+      ? new Date(passage.getTime() + PASSAGE_WINDOW_PADDING_HOURS * 3600000)
+      : new Date(departure.getTime() + 24 * 60 * 60 * 1000);
     
-    zones.push(zone);
+    zones.push(createWeatherZone(point, severity, weather.waveHeightM, validFrom, validTo, weather.windSpeedKnots));
   }
   
   // Merge nearby zones
   return mergeNearbyZones(zones);
 }
 
+/**
+ * Turn hazardous per-segment forecasts into time-bounded weather zones
+ * Each zone is only valid while the vessel is predicted to be on that segment.
+ */
+export function buildForecastZones(forecasts: SegmentForecast[]): WeatherZone[] {
+  const zones: WeatherZone[] = [];
+  
+  for (const forecast of forecasts) {
+    if (forecast.severity !== 'moderate' && forecast.severity !== 'severe') continue;
+    if (!forecast.samplePoint) continue;
+    
+    zones.push(createWeatherZone(
+      forecast.samplePoint,
+      forecast.severity,
+      forecast.waveHeightM ?? 0,
+      new Date(forecast.entryTime.getTime() - PASSAGE_WINDOW_PADDING_HOURS * 3600000),
+      new Date(forecast.exitTime.getTime() + PASSAGE_WINDOW_PADDING_HOURS * 3600000),
+      forecast.windSpeedKnots
+    ));
+  }
+  
+  return zones;
+}
+
+function createWeatherZone(
+  point: { lat: number; lng: number },
+  severity: 'moderate' | 'severe',
+  waveHeight: number,
+  validFrom: Date,
+  validTo: Date,
+  windSpeedKnots?: number
+): WeatherZone {
+  return {
+    id: `weather-${point.lat.toFixed(2)}-${point.lng.toFixed(2)}-${validFrom.getTime()}`,
+    type: severity === 'severe' ? 'storm' : 'high_wind',
+    severity,
+    center: point,
+    radiusNm: severity === 'severe' ? 15 : 10,
+    windSpeedKnots: windSpeedKnots ?? Math.round(waveHeight * 10), // Rough estimate from waves
+    waveHeightM: waveHeight,
+    validFrom,
+    validTo,
+    name: severity === 'severe' 
+      ? `High Seas Warning (${waveHeight.toFixed(1)}m waves)`
+      : `Wave Advisory (${waveHeight.toFixed(1)}m)`,
+    avoidanceRecommendation: getAvoidanceRecommendation(waveHeight, severity),
+  };
+}
+
 /**
  * Merge zones that are close together
  */
@@ -18,13 +18,17 @@ import {
   RouteOptimization,
   VesselForRouting,
 } from './types';
+import {
+  calculateBearing as geodesicBearing,
+  calculateDestinationPoint as geodesicDestinationPoint,
+  calculateDistanceNm as geodesicDistanceNm,
+} from '@/lib/geodesy';
 
 // ============================================================================
 // Constants
 // ============================================================================
 
 const FUEL_COST_USD_PER_LITER = 0.85;
-const EARTH_RADIUS_NM = 3440.065;
 
 // ============================================================================
 // UAE & Arabian Gulf Land Avoidance System
@@ -414,39 +418,18 @@ const FUEL_RATES: Record<string, number> = {
 // Geographic Calculations
 // ============================================================================
 
-function toRad(deg: number): number {
-  return deg * (Math.PI / 180);
-}
-
-function toDeg(rad: number): number {
-  return rad * (180 / Math.PI);
-}
-
 /**
- * Calculate distance between two points using Haversine formula
+ * Geodesic distance between two points (see lib/geodesy)
  */
 export function calculateDistanceNm(from: Coordinates, to: Coordinates): number {
-  const dLat = toRad(to.lat - from.lat);
-  const dLng = toRad(to.lng - from.lng);
-  const a =
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos(toRad(from.lat)) * Math.cos(toRad(to.lat)) *
-    Math.sin(dLng / 2) * Math.sin(dLng / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  return EARTH_RADIUS_NM * c;
+  return geodesicDistanceNm(from.lat, from.lng, to.lat, to.lng);
 }
 
 /**
  * Calculate bearing from point A to point B
  */
 export function calculateBearing(from: Coordinates, to: Coordinates): number {
-  const dLng = toRad(to.lng - from.lng);
-  const y = Math.sin(dLng) * Math.cos(toRad(to.lat));
-  const x =
-    Math.cos(toRad(from.lat)) * Math.sin(toRad(to.lat)) -
-    Math.sin(toRad(from.lat)) * Math.cos(toRad(to.lat)) * Math.cos(dLng);
-  const bearing = Math.atan2(y, x);
-  return (toDeg(bearing) + 360) % 360;
+  return geodesicBearing(from.lat, from.lng, to.lat, to.lng);
 }
 
 /**
@@ -457,26 +440,8 @@ export function calculateDestinationPoint(
   distanceNm: number,
   bearingDeg: number
 ): Coordinates {
-  const bearing = toRad(bearingDeg);
-  const angularDistance = distanceNm / EARTH_RADIUS_NM;
-  
-  const lat1 = toRad(origin.lat);
-  const lng1 = toRad(origin.lng);
-  
-  const lat2 = Math.asin(
-    Math.sin(lat1) * Math.cos(angularDistance) +
-    Math.cos(lat1) * Math.sin(angularDistance) * Math.cos(bearing)
-  );
-  
-  const lng2 = lng1 + Math.atan2(
-    Math.sin(bearing) * Math.sin(angularDistance) * Math.cos(lat1),
-    Math.cos(angularDistance) - Math.sin(lat1) * Math.sin(lat2)
-  );
-  
-  return {
-    lat: toDeg(lat2),
-    lng: toDeg(lng2),
-  };
+  const { lat, lon } = geodesicDestinationPoint(origin.lat, origin.lng, bearingDeg, distanceNm);
+  return { lat, lng: lon };
 }
 
 /**
@@ -490,7 +455,7 @@ function isPointInZone(point: Coordinates, zone: WeatherZone): boolean {
 /**
  * Check if a route segment intersects a weather zone
  */
-function doesSegmentIntersectZone(
+export function doesSegmentIntersectZone(
   from: Coordinates,
   to: Coordinates,
   zone: WeatherZone,
@@ -518,6 +483,33 @@ function doesSegmentIntersectZone(
   return false;
 }
 
+/**
+ * Check if a weather zone is in force at any time during a window
+ */
+export function isZoneActiveDuring(zone: WeatherZone, start: Date, end: Date): boolean {
+  return new Date(zone.validFrom).getTime() <= end.getTime() &&
+    new Date(zone.validTo).getTime() >= start.getTime();
+}
+
+/**
+ * Predicted window during which a vessel leaving `from` at `departure` would be
+ * inside a zone if it headed straight through it
+ */
+export function estimateZonePassage(
+  from: Coordinates,
+  zone: WeatherZone,
+  departure: Date,
+  speedKnots: number
+): { start: Date; end: Date } {
+  const distanceToCenter = calculateDistanceNm(from, zone.center);
+  const enterHours = Math.max(0, distanceToCenter - zone.radiusNm) / speedKnots;
+  const exitHours = (distanceToCenter + zone.radiusNm) / speedKnots;
+  return {
+    start: new Date(departure.getTime() + enterHours * 3600000),
+    end: new Date(departure.getTime() + exitHours * 3600000),
+  };
+}
+
 // ============================================================================
 // Route Generation
 // ============================================================================
@@ -595,7 +587,7 @@ function generateDirectRoute(
  * Calculate avoidance waypoints around a weather zone
  * Uses a simple perpendicular offset approach for reliable routing
  */
-function calculateAvoidanceWaypoints(
+export function calculateAvoidanceWaypoints(
   from: Coordinates,
   to: Coordinates,
   zone: WeatherZone
@@ -643,6 +635,9 @@ function calculateAvoidanceWaypoints(
 /**
  * Generate an optimized route avoiding weather zones
  * Note: Coastal waypoints are already in the base route, this adds weather avoidance
+ * 
+ * With a departure time, a zone is only avoided if it is in force when the
+ * vessel is predicted to reach it.
  */
 function generateOptimizedRoute(
   vessel: VesselForRouting,
@@ -650,7 +645,8 @@ function generateOptimizedRoute(
   destination: Coordinates,
   originName: string,
   destinationName: string,
-  weatherZones: WeatherZone[]
+  weatherZones: WeatherZone[],
+  departureTime?: Date
 ): { route: Route; avoidedZones: WeatherZone[]; optimizations: RouteOptimization[] } {
   const avoidedZones: WeatherZone[] = [];
   const optimizations: RouteOptimization[] = [];
@@ -688,6 +684,17 @@ function generateOptimizedRoute(
   );
   
   for (const zone of activeZones) {
+    // Skip zones that will have cleared (or not yet formed) when the vessel gets there
+    if (departureTime) {
+      let elapsedNm = 0;
+      for (let i = 1; i < allWaypoints.length; i++) {
+        elapsedNm += calculateDistanceNm(allWaypoints[i - 1], allWaypoints[i]);
+      }
+      const atCurrent = new Date(departureTime.getTime() + (elapsedNm / vessel.speed) * 3600000);
+      const passage = estimateZonePassage(currentFrom, zone, atCurrent, vessel.speed);
+      if (!isZoneActiveDuring(zone, passage.start, passage.end)) continue;
+    }
+    
     // Check if current path to destination intersects this zone
     if (doesSegmentIntersectZone(currentFrom, destination, zone)) {
       // Calculate avoidance waypoints
@@ -783,6 +790,7 @@ export interface OptimizeRouteParams {
   destination: Coordinates;
   destinationName: string;
   weatherZones?: WeatherZone[];
+  departureTime?: Date; // Evaluate zones at the predicted time of passage
   preferences?: {
     prioritize: 'time' | 'fuel' | 'safety' | 'balanced';
   };
@@ -796,6 +804,7 @@ export function optimizeRoute(params: OptimizeRouteParams): RouteOptimizationRes
     destination,
     destinationName,
     weatherZones = [],
+    departureTime,
     preferences = { prioritize: 'balanced' },
   } = params;
   
@@ -809,7 +818,8 @@ export function optimizeRoute(params: OptimizeRouteParams): RouteOptimizationRes
     destination,
     originName,
     destinationName,
-    weatherZones
+    weatherZones,
+    departureTime
   );
   
   // Calculate summary
@@ -894,6 +904,7 @@ export function optimizeRoute(params: OptimizeRouteParams): RouteOptimizationRes
     recommendation,
     reasoningText,
     confidence,
+    departureTime,
   };
 }
 
@@ -7,6 +7,8 @@
  * - Before/after route comparison
  */
 
+import type { ClearanceReport } from '@/lib/routes/types';
+
 // ============================================================================
 // Geographic Types
 // ============================================================================
@@ -90,6 +92,23 @@ export interface RouteSegment {
   };
 }
 
+/**
+ * Forecast conditions a segment will see at the vessel's predicted time of passage
+ */
+export interface SegmentForecast {
+  segmentIndex: number;      // Index into the route's consecutive waypoint pairs
+  entryTime: Date;           // Predicted time the vessel starts the segment
+  exitTime: Date;
+  passageTime: Date;         // Predicted time at the worst sampled point
+  forecastTime?: Date;       // Valid time of the forecast step that was used
+  samplePoint?: Coordinates;
+  waveHeightM?: number;
+  windWaveHeightM?: number;
+  windSpeedKnots?: number;
+  severity: 'minor' | 'moderate' | 'severe' | 'unknown';
+  source: string;            // Forecast source id
+}
+
 // ============================================================================
 // Route Optimization Result
 // ============================================================================
@@ -138,6 +157,17 @@ export interface RouteOptimizationResult {
   reasoningText: string;
   
   confidence: number; // 0-100
+  
+  // Planner provenance
+  strategy?: string;    // RoutePlanner strategy id (e.g. 'weather', 'sea-route')
+  routeSource?: 'direct' | 'network' | 'api' | 'hybrid';
+  
+  // Time-dependent weather (optimized route)
+  departureTime?: Date;
+  segmentForecasts?: SegmentForecast[];
+  
+  // Under-keel clearance (optimized route, when a draft was given)
+  clearance?: ClearanceReport;
 }
 
 export interface RouteOptimization {
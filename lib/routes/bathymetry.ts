@@ -0,0 +1,387 @@
+/**
+ * Bathymetry, Tide & Under-Keel Clearance
+ *
+ * Water depth for draft-aware routing in the shallow Gulf approaches:
+ * - Charted depth from a local CSV grid (lat,lon,depth_m below chart datum)
+ * - Tide height above chart datum from a pluggable tide model
+ * - Under-keel clearance (UKC) = charted depth + tide - draft
+ *
+ * The default grid is lib/routes/data/gulf-bathymetry.csv; set
+ * BATHYMETRY_GRID_FILE to use another export. Points outside the grid or over
+ * land have unknown depth and are not constrained.
+ */
+
+import { readFileSync } from 'fs';
+import path from 'path';
+import { calculateDistanceNm } from '@/lib/geodesy';
+import { MaritimeNetwork, getActiveNetwork } from './network';
+import { ClearancePoint, ClearanceReport } from './types';
+
+// ============================================================================
+// Bathymetry Grid
+// ============================================================================
+
+export interface BathymetryGrid {
+  version: string;
+  lats: number[]; // ascending
+  lons: number[]; // ascending
+  depths: (number | null)[][]; // [lat][lon] metres below chart datum, null = land / no data
+}
+
+const DEFAULT_GRID_FILE = 'lib/routes/data/gulf-bathymetry.csv';
+const CLEARANCE_SAMPLE_SPACING_NM = 1;
+
+// Every shipping lane must be charted at least this deep (laden 9m draft plus clearance)
+const NOMINAL_LANE_DEPTH_M = 12;
+
+/**
+ * Parse a CSV depth grid
+ * Lines starting with # are comments; "# version: x" sets the grid version.
+ */
+export function parseBathymetryCsv(csv: string): BathymetryGrid {
+  let version = 'unversioned';
+  const samples: { lat: number; lon: number; depth: number }[] = [];
+  const problems: string[] = [];
+
+  csv.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line) return;
+    if (line.startsWith('#')) {
+      const match = line.match(/^#\s*version:\s*(\S+)/i);
+      if (match) version = match[1];
+      return;
+    }
+    if (/^lat\s*,/i.test(line)) return; // header
+
+    const [lat, lon, depth] = line.split(',').map(Number);
+    if ([lat, lon, depth].some(v => !Number.isFinite(v)) ||
+        lat < -90 || lat > 90 || lon < -180 || lon > 180) {
+      problems.push(`line ${index + 1}: expected lat,lon,depth_m`);
+      return;
+    }
+    samples.push({ lat, lon, depth });
+  });
+
+  if (samples.length === 0) {
+    problems.push('grid has no depth samples');
+  }
+  if (problems.length > 0) {
+    throw new Error(`Invalid bathymetry grid: ${problems.slice(0, 5).join('; ')}`);
+  }
+
+  // Rows are keyed on 4 decimals so float noise in the CSV doesn't split cells
+  const key = (v: number) => Math.round(v * 10000) / 10000;
+  const lats = [...new Set(samples.map(s => key(s.lat)))].sort((a, b) => a - b);
+  const lons = [...new Set(samples.map(s => key(s.lon)))].sort((a, b) => a - b);
+  const latIndex = new Map(lats.map((v, i) => [v, i]));
+  const lonIndex = new Map(lons.map((v, i) => [v, i]));
+
+  const depths: (number | null)[][] = lats.map(() => lons.map(() => null));
+  for (const s of samples) {
+    depths[latIndex.get(key(s.lat))!][lonIndex.get(key(s.lon))!] = s.depth;
+  }
+
+  return { version, lats, lons, depths };
+}
+
+let activeGrid: BathymetryGrid | null | undefined;
+
+/**
+ * The bathymetry grid used for clearance checks (loaded on first use)
+ * Returns null if no grid file is available.
+ */
+export function getBathymetry(): BathymetryGrid | null {
+  if (activeGrid === undefined) {
+    const file = process.env.BATHYMETRY_GRID_FILE || path.join(process.cwd(), DEFAULT_GRID_FILE);
+    try {
+      activeGrid = parseBathymetryCsv(readFileSync(file, 'utf-8'));
+      console.log(`[Bathymetry] Loaded grid v${activeGrid.version} (${activeGrid.lats.length}x${activeGrid.lons.length})`);
+      const shallow = findShallowLanes(activeGrid, getActiveNetwork());
+      if (shallow.length > 0) {
+        console.warn(`[Bathymetry] Grid v${activeGrid.version} charts lanes shallower than ${NOMINAL_LANE_DEPTH_M}m:`, shallow);
+      }
+    } catch (error) {
+      console.warn('[Bathymetry] Grid unavailable, depth checks disabled:', error);
+      activeGrid = null;
+    }
+  }
+  return activeGrid;
+}
+
+export function setBathymetry(grid: BathymetryGrid | null): void {
+  activeGrid = grid;
+}
+
+/**
+ * Network edges charted shallower than the nominal lane depth
+ *
+ * The lanes are the routes of last resort for every draft, so a grid that
+ * shoals them makes deep-draft passages infeasible.
+ */
+export function findShallowLanes(
+  grid: BathymetryGrid,
+  network: MaritimeNetwork,
+  minDepthM: number = NOMINAL_LANE_DEPTH_M
+): string[] {
+  const shallow: string[] = [];
+  for (const edge of network.edges) {
+    const from = network.nodeMap.get(edge.from)!;
+    const to = network.nodeMap.get(edge.to)!;
+    const depth = minimumDepthAlong(grid, from.lat, from.lon, to.lat, to.lon);
+    if (depth !== null && depth < minDepthM) {
+      shallow.push(`${edge.id} (${depth.toFixed(1)}m)`);
+    }
+  }
+  return shallow;
+}
+
+/**
+ * Charted depth at a point (metres below chart datum)
+ *
+ * Bilinear between grid cells. Next to land, where some surrounding cells have
+ * no depth, the known cells are blended by their bilinear weights alone, so a
+ * charted channel along a coarse coastline keeps its depth. Returns null
+ * outside the grid or over land.
+ */
+export function getChartedDepth(grid: BathymetryGrid, lat: number, lon: number): number | null {
+  const { lats, lons, depths } = grid;
+  if (lat < lats[0] || lat > lats[lats.length - 1] || lon < lons[0] || lon > lons[lons.length - 1]) {
+    return null;
+  }
+
+  const y0 = Math.max(0, upperIndex(lats, lat) - 1);
+  const x0 = Math.max(0, upperIndex(lons, lon) - 1);
+  const y1 = Math.min(lats.length - 1, y0 + 1);
+  const x1 = Math.min(lons.length - 1, x0 + 1);
+  const wy = y1 === y0 ? 0 : (lat - lats[y0]) / (lats[y1] - lats[y0]);
+  const wx = x1 === x0 ? 0 : (lon - lons[x0]) / (lons[x1] - lons[x0]);
+
+  const corners = [
+    { depth: depths[y0][x0], weight: (1 - wy) * (1 - wx) },
+    { depth: depths[y0][x1], weight: (1 - wy) * wx },
+    { depth: depths[y1][x0], weight: wy * (1 - wx) },
+    { depth: depths[y1][x1], weight: wy * wx },
+  ].filter((c): c is { depth: number; weight: number } => c.depth !== null);
+  if (corners.length === 0) return null;
+
+  const weight = corners.reduce((sum, c) => sum + c.weight, 0);
+  if (weight < 1e-9) return null; // On a land cell itself
+  return corners.reduce((sum, c) => sum + c.depth * c.weight, 0) / weight;
+}
+
+/**
+ * Shallowest charted depth along a straight leg, or null if none of it is charted
+ */
+export function minimumDepthAlong(
+  grid: BathymetryGrid,
+  fromLat: number, fromLon: number,
+  toLat: number, toLon: number,
+  spacingNm: number = CLEARANCE_SAMPLE_SPACING_NM
+): number | null {
+  let shallowest: number | null = null;
+  for (const point of samplePoints(fromLat, fromLon, toLat, toLon, spacingNm)) {
+    const depth = getChartedDepth(grid, point.lat, point.lon);
+    if (depth !== null && (shallowest === null || depth < shallowest)) {
+      shallowest = depth;
+    }
+  }
+  return shallowest;
+}
+
+// ============================================================================
+// Tide Models
+// ============================================================================
+
+export interface TideModel {
+  id: string;
+  /** Tide height above chart datum (metres) */
+  getTideHeight(lat: number, lon: number, time: Date): number;
+}
+
+/**
+ * No tide allowance - plans on chart datum (most conservative)
+ */
+export const chartDatumTideModel: TideModel = {
+  id: 'chart-datum',
+  getTideHeight: () => 0,
+};
+
+interface TidalConstituent {
+  name: string;
+  amplitude: number;   // metres
+  speed: number;       // degrees per hour
+  phase: number;       // degrees (lag against the J2000 epoch)
+}
+
+/**
+ * Harmonic tide model from a set of constituents
+ * Height = mean level above datum + sum of constituents, never below datum.
+ */
+export function createHarmonicTideModel(
+  id: string,
+  meanLevel: number,
+  constituents: TidalConstituent[]
+): TideModel {
+  const epoch = Date.UTC(2000, 0, 1, 12);
+  return {
+    id,
+    getTideHeight(_lat, _lon, time) {
+      const hours = (time.getTime() - epoch) / 3600000;
+      const height = constituents.reduce(
+        (sum, c) => sum + c.amplitude * Math.cos(((c.speed * hours - c.phase) * Math.PI) / 180),
+        meanLevel
+      );
+      return Math.max(0, height);
+    },
+  };
+}
+
+/**
+ * Representative southern-Gulf tide (mixed, mainly semi-diurnal)
+ * Amplitudes are typical for the UAE coast; phases are not calibrated to a
+ * station, so this gives a realistic range rather than a precise time of high water.
+ */
+export const southernGulfTideModel = createHarmonicTideModel('southern-gulf-harmonic', 1.1, [
+  { name: 'M2', amplitude: 0.45, speed: 28.984104, phase: 0 },
+  { name: 'S2', amplitude: 0.17, speed: 30.0, phase: 0 },
+  { name: 'K1', amplitude: 0.32, speed: 15.041069, phase: 0 },
+  { name: 'O1', amplitude: 0.22, speed: 13.943036, phase: 0 },
+]);
+
+let activeTideModel: TideModel = southernGulfTideModel;
+
+export function getTideModel(): TideModel {
+  return activeTideModel;
+}
+
+export function setTideModel(model: TideModel): void {
+  activeTideModel = model;
+}
+
+// ============================================================================
+// Under-Keel Clearance
+// ============================================================================
+
+// Berth pockets and dredged basins are not in the planning grid
+const PORT_EXCLUSION_NM = 1;
+
+export interface ClearanceOptions {
+  draftMeters: number;
+  minClearanceMeters?: number; // Defaults to 10% of draft, at least 0.5m
+  departureTime?: Date;
+  speedKnots: number;
+  tideModel?: TideModel;
+}
+
+/**
+ * Minimum under-keel clearance required for a draft
+ */
+export function requiredClearance(draftMeters: number, minClearanceMeters?: number): number {
+  return minClearanceMeters ?? Math.max(0.5, draftMeters * 0.1);
+}
+
+/**
+ * Check under-keel clearance along a path at the predicted time of passage
+ *
+ * Returns the tightest clearance point and the worst point of every segment
+ * that falls below the required clearance.
+ */
+export function assessUnderKeelClearance(
+  points: { lat: number; lon: number }[],
+  options: ClearanceOptions
+): ClearanceReport | null {
+  const grid = getBathymetry();
+  if (!grid) return null;
+
+  const tideModel = options.tideModel ?? activeTideModel;
+  const departure = options.departureTime ?? new Date();
+  const required = requiredClearance(options.draftMeters, options.minClearanceMeters);
+  const totalNm = points.reduce((sum, p, i) =>
+    i === 0 ? 0 : sum + calculateDistanceNm(points[i - 1].lat, points[i - 1].lon, p.lat, p.lon), 0);
+
+  let tightest: ClearancePoint | null = null;
+  const violations: ClearancePoint[] = [];
+  let elapsedNm = 0;
+
+  for (let i = 0; i < points.length - 1; i++) {
+    const from = points[i];
+    const to = points[i + 1];
+    const segmentNm = calculateDistanceNm(from.lat, from.lon, to.lat, to.lon);
+    let worstInSegment: ClearancePoint | null = null;
+
+    for (const sample of samplePoints(from.lat, from.lon, to.lat, to.lon, CLEARANCE_SAMPLE_SPACING_NM)) {
+      const alongNm = elapsedNm + sample.offsetNm;
+      if (alongNm < PORT_EXCLUSION_NM || totalNm - alongNm < PORT_EXCLUSION_NM) continue;
+
+      const chartedDepth = getChartedDepth(grid, sample.lat, sample.lon);
+      if (chartedDepth === null) continue;
+
+      const time = new Date(departure.getTime() + (alongNm / options.speedKnots) * 3600000);
+      const tideHeight = tideModel.getTideHeight(sample.lat, sample.lon, time);
+      const point: ClearancePoint = {
+        lat: sample.lat,
+        lng: sample.lon,
+        segmentIndex: i,
+        time,
+        chartedDepth,
+        tideHeight,
+        clearance: chartedDepth + tideHeight - options.draftMeters,
+      };
+
+      if (!worstInSegment || point.clearance < worstInSegment.clearance) worstInSegment = point;
+    }
+
+    if (worstInSegment) {
+      if (!tightest || worstInSegment.clearance < tightest.clearance) tightest = worstInSegment;
+      if (worstInSegment.clearance < required) violations.push(worstInSegment);
+    }
+    elapsedNm += segmentNm;
+  }
+
+  return {
+    draftMeters: options.draftMeters,
+    requiredClearance: required,
+    tideModel: tideModel.id,
+    bathymetryVersion: grid.version,
+    tightest,
+    violations,
+    reroutedSegments: 0,
+    feasible: violations.length === 0,
+  };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Index of the first value greater than or equal to the target
+ */
+function upperIndex(values: number[], target: number): number {
+  let lo = 0;
+  let hi = values.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (values[mid] < target) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+/**
+ * Evenly spaced points along a leg (including both ends)
+ */
+function samplePoints(
+  fromLat: number, fromLon: number,
+  toLat: number, toLon: number,
+  spacingNm: number
+): { lat: number; lon: number; offsetNm: number }[] {
+  const distance = calculateDistanceNm(fromLat, fromLon, toLat, toLon);
+  const steps = Math.max(1, Math.ceil(distance / spacingNm));
+  // Legs here are short enough that linear interpolation tracks the rhumb line closely
+  return Array.from({ length: steps + 1 }, (_, s) => ({
+    lat: fromLat + ((toLat - fromLat) * s) / steps,
+    lon: fromLon + ((toLon - fromLon) * s) / steps,
+    offsetNm: (distance * s) / steps,
+  }));
+}
@@ -4,12 +4,13 @@
  * Custom routing solution designed specifically for NMDC operations
  * in the Persian Gulf, Gulf of Oman, and Arabian Sea.
  * 
- * Uses a graph-based approach with predefined shipping lane waypoints
- * to ensure routes avoid all land masses (Qatar, Bahrain, UAE mainland,
- * Musandam, Iran coast, Oman).
+ * Uses a graph-based approach with shipping lane waypoints (loaded from
+ * GeoJSON, see ./network.ts) to ensure routes avoid all land masses (Qatar,
+ * Bahrain, UAE mainland, Musandam, Iran coast, Oman) and restricted areas.
  */
 
-import { SeaRouteWaypoint, calculateDistanceNm, calculateBearing, isDatalasticConfigured, getDatalasticClient } from '@/lib/datalastic';
+import { SeaRouteWaypoint, isDatalasticConfigured, getDatalasticClient } from '@/lib/datalastic';
+import { LegType, calculateDistanceNm, calculateBearing, legBearing, legDistanceNm } from '@/lib/geodesy';
 import { getWeatherAtLocation } from '@/lib/weather';
 import { 
   Route, 
@@ -18,6 +19,8 @@ import {
   WeatherPoint,
   FuelCalculation,
 } from './types';
+import { NetworkNode, getActiveNetwork, findSegmentBlockingAreas } from './network';
+import { getBathymetry, minimumDepthAlong } from './bathymetry';
 
 // ============================================================================
 // Vessel Fuel & Emissions Profiles
@@ -121,24 +124,34 @@ export const VESSEL_PROFILES: Record<string, VesselProfile> = {
   },
 };
 
-// ============================================================================
-// Persian Gulf & Arabian Sea Regional Routing
-// ============================================================================
+// Fleet type names (NMDC_FLEET, Datalastic, UI labels) that map onto a profile
+const VESSEL_PROFILE_ALIASES: Record<string, string> = {
+  hopper_dredger: 'dredger',
+  csd: 'dredger',
+  tug: 'tugboat',
+  supply: 'supply_vessel',
+  survey: 'survey_vessel',
+  derrick_barge: 'crane_barge',
+  jack_up: 'jack_up_barge',
+  barge: 'work_barge',
+};
 
 /**
- * Shipping lane network nodes for the Persian Gulf region
- * Each node represents a safe offshore waypoint in shipping lanes
+ * Resolve the fuel & emissions profile for a vessel type
+ * Accepts fleet type names in any case/spacing ("Hopper Dredger", "tug", "supply_vessel")
  */
-interface NetworkNode {
-  id: string;
-  lat: number;
-  lon: number;
-  name: string;
-  connections: string[]; // IDs of connected nodes
+export function resolveVesselProfile(vesselType: string | undefined): VesselProfile {
+  const key = (vesselType || '').trim().toLowerCase().replace(/[\s-]+/g, '_');
+  return VESSEL_PROFILES[key] || VESSEL_PROFILES[VESSEL_PROFILE_ALIASES[key]] || VESSEL_PROFILES.default;
 }
 
-// Define the maritime network for Persian Gulf / Gulf of Oman / Arabian Sea
-// 
+// ============================================================================
+// Persian Gulf & Arabian Sea Regional Routing
+// ============================================================================
+
+// The shipping-lane graph, land masses and restricted areas are loaded from
+// versioned GeoJSON (lib/routes/data) - see ./network.ts.
+//
 // CRITICAL GEOGRAPHY:
 // - Abu Dhabi ISLAND is at ~24.45, 54.38 (the city)
 // - Musaffah port is on MAINLAND at 24.335, 54.44 (faces the channel)
@@ -146,158 +159,17 @@ interface NetworkNode {
 // - Persian Gulf OPEN WATER is to the NORTH and WEST of Abu Dhabi
 // - SOUTH of Abu Dhabi is DESERT - no water!
 // - Khalifa Port is at 24.79, 54.68 - on the coast north of the island
-//
-const MARITIME_NETWORK: NetworkNode[] = [
-  // ============================================================================
-  // MUSAFFAH CHANNEL - Water between Abu Dhabi island and mainland
-  // Route: Musaffah → WEST through channel → Open Gulf
-  // ============================================================================
-  { id: 'MUS_CH1', lat: 24.38, lon: 54.30, name: 'Mussafah Channel W', connections: ['MUS_CH2', 'ABU_W1'] },
-  { id: 'MUS_CH2', lat: 24.40, lon: 54.15, name: 'Channel Exit', connections: ['MUS_CH1', 'ABU_W1', 'ABU_W2'] },
-  
-  // ============================================================================
-  // ABU DHABI WEST - Open water WEST of Abu Dhabi island
-  // This is the Persian Gulf - actual navigable water
-  // ============================================================================
-  { id: 'ABU_W1', lat: 24.48, lon: 54.05, name: 'Abu Dhabi NW', connections: ['MUS_CH1', 'MUS_CH2', 'ABU_W2', 'ABU_N1'] },
-  { id: 'ABU_W2', lat: 24.35, lon: 53.90, name: 'Abu Dhabi W', connections: ['MUS_CH2', 'ABU_W1', 'UAE_03'] },
-  
-  // ============================================================================
-  // ABU DHABI NORTH - Water NORTH of Abu Dhabi (to Khalifa Port)
-  // ============================================================================
-  { id: 'ABU_N1', lat: 24.60, lon: 54.20, name: 'Abu Dhabi N Offshore', connections: ['ABU_W1', 'ABU_N2', 'UAE_07'] },
-  { id: 'ABU_N2', lat: 24.75, lon: 54.45, name: 'W of Khalifa Port', connections: ['ABU_N1', 'KHL_01'] },
-  { id: 'KHL_01', lat: 24.80, lon: 54.62, name: 'Khalifa Port Approach', connections: ['ABU_N2', 'UAE_04'] },
-  
-  // ============================================================================
-  // UAE COAST - Main offshore shipping lane (Persian Gulf)
-  // All points are in WATER - verified against nautical charts
-  // ============================================================================
-  { id: 'UAE_03', lat: 24.25, lon: 53.40, name: 'Jebel Dhanna Offshore', connections: ['ABU_W2', 'UAE_05', 'UAE_07'] },
-  { id: 'UAE_04', lat: 24.90, lon: 54.80, name: 'Jebel Ali Approach', connections: ['ABU_N2', 'UAE_06', 'UAE_07'] },
-  { id: 'UAE_05', lat: 24.40, lon: 52.80, name: 'Ruwais Offshore', connections: ['UAE_03', 'UAE_08'] },
-  { id: 'UAE_06', lat: 25.10, lon: 55.10, name: 'Dubai Offshore', connections: ['UAE_04', 'DXB_01', 'UAE_09'] },
-  { id: 'DXB_01', lat: 25.25, lon: 55.25, name: 'Dubai Port Approach', connections: ['UAE_06', 'UAE_09'] },
-  { id: 'UAE_07', lat: 24.70, lon: 53.80, name: 'Central Gulf UAE', connections: ['ABU_N1', 'UAE_03', 'UAE_04', 'CENT_01'] },
-  { id: 'UAE_08', lat: 24.70, lon: 52.50, name: 'Zirku-Das Area', connections: ['UAE_05', 'CENT_02', 'CENT_01'] },
-  { id: 'UAE_09', lat: 25.40, lon: 55.30, name: 'Sharjah Offshore', connections: ['UAE_06', 'DXB_01', 'UAE_10'] },
-  { id: 'UAE_10', lat: 25.70, lon: 55.70, name: 'N UAE Offshore', connections: ['UAE_09', 'HORM_01'] },
-  
-  // ============================================================================
-  // CENTRAL PERSIAN GULF - main shipping lanes (deep water)
-  // ============================================================================
-  { id: 'CENT_01', lat: 25.00, lon: 53.50, name: 'Central Gulf E', connections: ['UAE_07', 'UAE_08', 'CENT_02', 'CENT_03'] },
-  { id: 'CENT_02', lat: 24.80, lon: 52.90, name: 'Central Gulf C', connections: ['UAE_08', 'CENT_01', 'CENT_04'] },
-  { id: 'CENT_03', lat: 25.50, lon: 53.10, name: 'Central Gulf NE', connections: ['CENT_01', 'CENT_05', 'IRAN_01'] },
-  { id: 'CENT_04', lat: 24.60, lon: 52.50, name: 'Das Island Area', connections: ['CENT_02', 'CENT_05', 'SQAT_01'] },
-  { id: 'CENT_05', lat: 25.30, lon: 52.50, name: 'Halul Approach', connections: ['CENT_03', 'CENT_04', 'CENT_06'] },
-  { id: 'CENT_06', lat: 25.70, lon: 52.00, name: 'Halul Island Area', connections: ['CENT_05', 'QNOR_01', 'QEAS_01'] },
-  
-  // ============================================================================
-  // SOUTH OF QATAR - main route avoiding Qatar peninsula
-  // ============================================================================
-  { id: 'SQAT_01', lat: 24.200, lon: 52.200, name: 'South Qatar 1', connections: ['CENT_04', 'SQAT_02'] },
-  { id: 'SQAT_02', lat: 24.100, lon: 51.700, name: 'South Qatar 2', connections: ['SQAT_01', 'SQAT_03', 'QEAS_01'] },
-  { id: 'SQAT_03', lat: 24.150, lon: 51.200, name: 'South Qatar 3', connections: ['SQAT_02', 'SQAT_04'] },
-  { id: 'SQAT_04', lat: 24.300, lon: 50.700, name: 'SW Qatar', connections: ['SQAT_03', 'QWES_01', 'SAUD_01'] },
-  
-  // ============================================================================
-  // EAST OF QATAR - Doha approach
-  // ============================================================================
-  { id: 'QEAS_01', lat: 24.800, lon: 51.800, name: 'SE Qatar', connections: ['SQAT_02', 'CENT_06', 'QEAS_02'] },
-  { id: 'QEAS_02', lat: 25.200, lon: 51.600, name: 'E Doha', connections: ['QEAS_01', 'QNOR_01'] },
-  
-  // ============================================================================
-  // NORTH OF QATAR - route to Bahrain/Saudi
-  // ============================================================================
-  { id: 'QNOR_01', lat: 25.800, lon: 51.800, name: 'NE Qatar', connections: ['CENT_06', 'QEAS_02', 'QNOR_02'] },
-  { id: 'QNOR_02', lat: 26.200, lon: 51.400, name: 'N Qatar', connections: ['QNOR_01', 'QWES_02', 'BAHR_01'] },
-  
-  // ============================================================================
-  // WEST OF QATAR - Bahrain approach
-  // ============================================================================
-  { id: 'QWES_01', lat: 25.000, lon: 50.400, name: 'W Qatar S', connections: ['SQAT_04', 'QWES_02', 'SAUD_02'] },
-  { id: 'QWES_02', lat: 25.600, lon: 50.300, name: 'W Qatar N', connections: ['QWES_01', 'QNOR_02', 'BAHR_01'] },
-  
-  // ============================================================================
-  // BAHRAIN AREA
-  // ============================================================================
-  { id: 'BAHR_01', lat: 26.300, lon: 50.700, name: 'Bahrain E', connections: ['QNOR_02', 'QWES_02', 'BAHR_02'] },
-  { id: 'BAHR_02', lat: 26.500, lon: 50.300, name: 'Bahrain N', connections: ['BAHR_01', 'SAUD_03'] },
-  
-  // ============================================================================
-  // SAUDI ARABIA COAST
-  // ============================================================================
-  { id: 'SAUD_01', lat: 24.500, lon: 50.200, name: 'Saudi S', connections: ['SQAT_04', 'SAUD_02'] },
-  { id: 'SAUD_02', lat: 25.500, lon: 49.900, name: 'Saudi Central', connections: ['SAUD_01', 'QWES_01', 'SAUD_03'] },
-  { id: 'SAUD_03', lat: 26.600, lon: 49.800, name: 'Dammam Approach', connections: ['SAUD_02', 'BAHR_02', 'SAUD_04'] },
-  { id: 'SAUD_04', lat: 27.200, lon: 49.600, name: 'Jubail Approach', connections: ['SAUD_03', 'KWAI_01'] },
-  
-  // ============================================================================
-  // IRAN COAST (southern)
-  // ============================================================================
-  { id: 'IRAN_01', lat: 26.000, lon: 53.500, name: 'Iran SW', connections: ['CENT_03', 'IRAN_02'] },
-  { id: 'IRAN_02', lat: 26.500, lon: 53.000, name: 'Iran S Central', connections: ['IRAN_01', 'IRAN_03'] },
-  { id: 'IRAN_03', lat: 27.000, lon: 52.200, name: 'Iran SE', connections: ['IRAN_02', 'IRAN_04', 'KWAI_02'] },
-  { id: 'IRAN_04', lat: 27.200, lon: 51.400, name: 'Kangan Area', connections: ['IRAN_03', 'KWAI_02'] },
-  
-  // ============================================================================
-  // KUWAIT / IRAQ
-  // ============================================================================
-  { id: 'KWAI_01', lat: 28.200, lon: 49.200, name: 'Kuwait S', connections: ['SAUD_04', 'KWAI_02', 'KWAI_03'] },
-  { id: 'KWAI_02', lat: 28.000, lon: 50.200, name: 'Kuwait E', connections: ['IRAN_03', 'IRAN_04', 'KWAI_01'] },
-  { id: 'KWAI_03', lat: 29.000, lon: 48.800, name: 'Kuwait Port', connections: ['KWAI_01', 'KWAI_04'] },
-  { id: 'KWAI_04', lat: 29.800, lon: 48.400, name: 'Basra Approach', connections: ['KWAI_03'] },
-  
-  // ============================================================================
-  // STRAIT OF HORMUZ - detailed shipping lane
-  // ============================================================================
-  { id: 'HORM_01', lat: 25.900, lon: 56.100, name: 'Hormuz Approach', connections: ['UAE_10', 'HORM_02'] },
-  { id: 'HORM_02', lat: 26.100, lon: 56.400, name: 'Hormuz W', connections: ['HORM_01', 'HORM_03', 'IRAN_05'] },
-  { id: 'HORM_03', lat: 26.000, lon: 56.800, name: 'Hormuz Center', connections: ['HORM_02', 'HORM_04'] },
-  { id: 'HORM_04', lat: 25.700, lon: 57.100, name: 'Hormuz E', connections: ['HORM_03', 'GOOM_01'] },
-  { id: 'IRAN_05', lat: 26.500, lon: 56.600, name: 'Bandar Abbas S', connections: ['HORM_02', 'IRAN_06'] },
-  { id: 'IRAN_06', lat: 26.800, lon: 57.200, name: 'Bandar Abbas E', connections: ['IRAN_05', 'GOOM_02'] },
-  
-  // ============================================================================
-  // GULF OF OMAN - staying well offshore
-  // ============================================================================
-  { id: 'GOOM_01', lat: 25.200, lon: 57.600, name: 'Gulf of Oman NW', connections: ['HORM_04', 'GOOM_02', 'GOOM_03'] },
-  { id: 'GOOM_02', lat: 25.800, lon: 58.200, name: 'Gulf of Oman N', connections: ['GOOM_01', 'IRAN_06', 'GOOM_04'] },
-  { id: 'GOOM_03', lat: 24.600, lon: 58.000, name: 'Fujairah Offshore', connections: ['GOOM_01', 'GOOM_04', 'GOOM_05'] },
-  { id: 'GOOM_04', lat: 25.000, lon: 58.800, name: 'Gulf of Oman Central N', connections: ['GOOM_02', 'GOOM_03', 'GOOM_06'] },
-  { id: 'GOOM_05', lat: 24.000, lon: 58.500, name: 'Gulf of Oman W', connections: ['GOOM_03', 'GOOM_06', 'GOOM_07'] },
-  { id: 'GOOM_06', lat: 24.200, lon: 59.300, name: 'Gulf of Oman Central', connections: ['GOOM_04', 'GOOM_05', 'GOOM_08'] },
-  { id: 'GOOM_07', lat: 23.400, lon: 59.000, name: 'Muscat Offshore', connections: ['GOOM_05', 'GOOM_08', 'ARAB_01'] },
-  { id: 'GOOM_08', lat: 23.600, lon: 59.800, name: 'Gulf of Oman E', connections: ['GOOM_06', 'GOOM_07', 'ARAB_02'] },
-  
-  // ============================================================================
-  // ARABIAN SEA - open ocean
-  // ============================================================================
-  { id: 'ARAB_01', lat: 22.500, lon: 59.500, name: 'Arabian Sea NW', connections: ['GOOM_07', 'ARAB_02', 'ARAB_03'] },
-  { id: 'ARAB_02', lat: 22.800, lon: 60.500, name: 'Arabian Sea N', connections: ['GOOM_08', 'ARAB_01', 'ARAB_04'] },
-  { id: 'ARAB_03', lat: 21.500, lon: 59.500, name: 'Sur Offshore', connections: ['ARAB_01', 'ARAB_04', 'ARAB_05'] },
-  { id: 'ARAB_04', lat: 22.000, lon: 61.000, name: 'Arabian Sea NE', connections: ['ARAB_02', 'ARAB_03', 'ARAB_06'] },
-  { id: 'ARAB_05', lat: 20.000, lon: 59.000, name: 'Arabian Sea Central W', connections: ['ARAB_03', 'ARAB_06', 'ARAB_07'] },
-  { id: 'ARAB_06', lat: 20.500, lon: 61.500, name: 'Arabian Sea Central', connections: ['ARAB_04', 'ARAB_05', 'ARAB_08'] },
-  { id: 'ARAB_07', lat: 18.000, lon: 57.000, name: 'Duqm Offshore', connections: ['ARAB_05', 'ARAB_09'] },
-  { id: 'ARAB_08', lat: 19.000, lon: 62.500, name: 'Arabian Sea E', connections: ['ARAB_06'] },
-  { id: 'ARAB_09', lat: 17.000, lon: 55.500, name: 'Salalah Offshore', connections: ['ARAB_07'] },
-];
-
-// Build adjacency map for faster lookups
-const networkMap = new Map<string, NetworkNode>();
-MARITIME_NETWORK.forEach(node => networkMap.set(node.id, node));
 
 /**
  * Find the nearest network node to a given point
  * Returns both the node and the distance to it
  */
 function findNearestNode(lat: number, lon: number): { node: NetworkNode; distance: number } {
-  let nearest = MARITIME_NETWORK[0];
+  const { nodes } = getActiveNetwork();
+  let nearest = nodes[0];
   let minDist = Infinity;
   
-  for (const node of MARITIME_NETWORK) {
+  for (const node of nodes) {
     const dist = calculateDistanceNm(lat, lon, node.lat, node.lon);
     if (dist < minDist) {
       minDist = dist;
@@ -317,8 +189,15 @@ const MAX_NETWORK_SNAP_DISTANCE = 30; // nm
 
 /**
  * Dijkstra's algorithm to find shortest path between two network nodes
+ * Edges rejected by isEdgeUsable are skipped; returns [] if the end is unreachable
  */
-function findShortestPath(startId: string, endId: string): NetworkNode[] {
+function findShortestPath(
+  startId: string,
+  endId: string,
+  isEdgeUsable?: (from: NetworkNode, to: NetworkNode) => boolean
+): NetworkNode[] {
+  const { nodes, nodeMap: networkMap } = getActiveNetwork();
+  
   // Verify nodes exist
   if (!networkMap.has(startId) || !networkMap.has(endId)) {
     return [];
@@ -329,7 +208,7 @@ function findShortestPath(startId: string, endId: string): NetworkNode[] {
   const unvisited = new Set<string>();
   
   // Initialize
-  for (const node of MARITIME_NETWORK) {
+  for (const node of nodes) {
     distances.set(node.id, Infinity);
     previous.set(node.id, null);
     unvisited.add(node.id);
@@ -360,6 +239,7 @@ function findShortestPath(startId: string, endId: string): NetworkNode[] {
       
       const neighbor = networkMap.get(neighborId);
       if (!neighbor) continue;
+      if (isEdgeUsable && !isEdgeUsable(currentNode, neighbor)) continue;
       
       const edgeDist = calculateDistanceNm(currentNode.lat, currentNode.lon, neighbor.lat, neighbor.lon);
       const newDist = (distances.get(current) ?? 0) + edgeDist;
@@ -371,6 +251,8 @@ function findShortestPath(startId: string, endId: string): NetworkNode[] {
     }
   }
   
+  if ((distances.get(endId) ?? Infinity) === Infinity) return [];
+  
   // Reconstruct path by backtracking from end to start
   const path: NetworkNode[] = [];
   let current: string | null = endId;
@@ -415,24 +297,26 @@ function isWithinGulfRegion(lat: number, lon: number): boolean {
 const SHORT_ROUTE_THRESHOLD = 25; // nm
 
 /**
- * Maritime routing with guaranteed land avoidance
+ * Longest stretch (nm) from a route end to the simplified coastline that is
+ * not treated as crossing land
+ */
+const COASTAL_APPROACH_NM = 10;
+
+/**
+ * Local maritime routing with guaranteed land avoidance (no external API)
  * 
  * Strategy:
  * - For SHORT routes (< 25nm): Use direct route with land-check
- * - For routes WITHIN the Persian Gulf: Use our verified maritime network
+ * - If the direct path is clear: Use great circle route
+ * - Otherwise: Use our verified maritime network
  *   (guaranteed to follow shipping lanes and avoid all land)
- * - For routes OUTSIDE or crossing Gulf boundary: Use Datalastic API with corrections
- * 
- * Returns waypoints that avoid land and can be further optimized
  */
-export async function fetchSeaRoute(
+export function fetchNetworkRoute(
   fromLat: number,
   fromLon: number,
   toLat: number,
   toLon: number
-): Promise<{ waypoints: SeaRouteWaypoint[]; distance: number; source: 'api' | 'hybrid' | 'network' }> {
-  console.log('[RouteEngine] Fetching sea route:', { fromLat, fromLon, toLat, toLon });
-  
+): { waypoints: SeaRouteWaypoint[]; distance: number; source: 'network' } {
   // Calculate direct distance first
   const directDistance = calculateDistanceNm(fromLat, fromLon, toLat, toLon);
   
@@ -495,34 +379,109 @@ export async function fetchSeaRoute(
     }
   }
   
-  // For routes WITHIN the Persian Gulf, check if direct path is clear first
-  const fromInGulf = isWithinGulfRegion(fromLat, fromLon);
-  const toInGulf = isWithinGulfRegion(toLat, toLon);
+  // First check if direct path crosses any land
+  const landCheck = doesSegmentCrossLand(fromLat, fromLon, toLat, toLon);
   
-  if (fromInGulf && toInGulf) {
-    // First check if direct path crosses any land
-    const landCheck = doesSegmentCrossLand(fromLat, fromLon, toLat, toLon);
-    
-    if (!landCheck.crosses) {
-      // Direct path is clear - use great circle route (much simpler and more natural)
-      console.log('[RouteEngine] Direct path is clear - using great circle route');
-      const gcRoute = generateGreatCircleRoute(fromLat, fromLon, toLat, toLon);
-      return {
-        ...gcRoute,
-        source: 'network',
-      };
-    }
-    
-    // Land is in the way - use network routing to go around
-    console.log('[RouteEngine] Direct path crosses', landCheck.landArea, '- using maritime network');
-    const networkRoute = fetchSeaRouteFromNetwork(fromLat, fromLon, toLat, toLon);
-    
+  if (!landCheck.crosses) {
+    // Direct path is clear - use great circle route (much simpler and more natural)
+    console.log('[RouteEngine] Direct path is clear - using great circle route');
+    const gcRoute = generateGreatCircleRoute(fromLat, fromLon, toLat, toLon);
     return {
-      ...networkRoute,
+      ...gcRoute,
       source: 'network',
     };
   }
   
+  // Land is in the way - use network routing to go around
+  console.log('[RouteEngine] Direct path crosses', landCheck.landArea, '- using maritime network');
+  const networkRoute = fetchSeaRouteFromNetwork(fromLat, fromLon, toLat, toLon);
+  
+  return {
+    ...networkRoute,
+    source: 'network',
+  };
+}
+
+// Shallowest charted depth per network edge, keyed by grid version and edge
+const edgeDepthCache = new Map<string, number | null>();
+
+/**
+ * Route over the maritime network using only lanes charted deeper than minDepthM
+ * 
+ * Used to reroute segments that fail the under-keel clearance check. Uncharted
+ * lanes are allowed. Returns null when no bathymetry is loaded or the depth
+ * constraint disconnects the two points.
+ */
+export function fetchDepthConstrainedRoute(
+  fromLat: number,
+  fromLon: number,
+  toLat: number,
+  toLon: number,
+  minDepthM: number
+): { waypoints: SeaRouteWaypoint[]; distance: number; source: 'network' } | null {
+  const grid = getBathymetry();
+  if (!grid) return null;
+  
+  const startNode = findNearestNode(fromLat, fromLon).node;
+  const endNode = findNearestNode(toLat, toLon).node;
+  
+  const isDeepEnough = (from: NetworkNode, to: NetworkNode): boolean => {
+    const key = `${grid.version}:${[from.id, to.id].sort().join('|')}`;
+    if (!edgeDepthCache.has(key)) {
+      edgeDepthCache.set(key, minimumDepthAlong(grid, from.lat, from.lon, to.lat, to.lon));
+    }
+    const depth = edgeDepthCache.get(key);
+    return depth === null || depth === undefined || depth >= minDepthM;
+  };
+  
+  const networkPath = startNode.id === endNode.id
+    ? [startNode]
+    : findShortestPath(startNode.id, endNode.id, isDeepEnough);
+  if (networkPath.length === 0) {
+    console.log('[RouteEngine] No network path with ' + minDepthM.toFixed(1) + 'm charted depth');
+    return null;
+  }
+  
+  const waypoints: SeaRouteWaypoint[] = [
+    { lat: fromLat, lon: fromLon },
+    ...networkPath.map(node => ({ lat: node.lat, lon: node.lon, name: node.name, note: 'Deep-water lane' })),
+    { lat: toLat, lon: toLon },
+  ];
+  
+  return {
+    waypoints,
+    distance: calculateTotalDistance(waypoints),
+    source: 'network',
+  };
+}
+
+/**
+ * Maritime routing with guaranteed land avoidance
+ * 
+ * Strategy:
+ * - For SHORT routes and routes WITHIN the Persian Gulf: Use local network routing
+ *   (see fetchNetworkRoute)
+ * - For routes OUTSIDE or crossing Gulf boundary: Use Datalastic API with corrections
+ * 
+ * Returns waypoints that avoid land and can be further optimized
+ */
+export async function fetchSeaRoute(
+  fromLat: number,
+  fromLon: number,
+  toLat: number,
+  toLon: number
+): Promise<{ waypoints: SeaRouteWaypoint[]; distance: number; source: 'api' | 'hybrid' | 'network' }> {
+  console.log('[RouteEngine] Fetching sea route:', { fromLat, fromLon, toLat, toLon });
+  
+  const directDistance = calculateDistanceNm(fromLat, fromLon, toLat, toLon);
+  const fromInGulf = isWithinGulfRegion(fromLat, fromLon);
+  const toInGulf = isWithinGulfRegion(toLat, toLon);
+  
+  // Short trips and routes WITHIN the Persian Gulf stay on our verified network
+  if (directDistance < SHORT_ROUTE_THRESHOLD || (fromInGulf && toInGulf)) {
+    return fetchNetworkRoute(fromLat, fromLon, toLat, toLon);
+  }
+  
   // For routes outside the Gulf or crossing boundaries, try Datalastic API
   if (isDatalasticConfigured()) {
     try {
@@ -567,102 +526,42 @@ export async function fetchSeaRoute(
 }
 
 /**
- * Check if a point is on land using accurate coastline detection
- * 
- * IMPORTANT: The Persian Gulf is NORTH of the UAE/Qatar. Land is to the SOUTH.
- * A point is on land if it's SOUTH of (lower latitude than) the coastline.
- * 
- * This uses piecewise linear approximations of the coastline.
- */
-function isPointOnLand(lat: number, lon: number): string | null {
-  // Qatar Peninsula - extends north into the Gulf
-  // Qatar mainland is roughly lon 50.75-51.6, lat 24.5-26.2
-  if (lon >= 50.75 && lon <= 51.6 && lat >= 24.5 && lat <= 26.2) {
-    return 'Qatar';
-  }
-  
-  // Bahrain islands - small islands
-  if (lon >= 50.45 && lon <= 50.65 && lat >= 25.9 && lat <= 26.3) {
-    return 'Bahrain';
-  }
-  
-  // Musandam Peninsula (Oman) - northern tip extending into Strait of Hormuz
-  if (lon >= 56.0 && lon <= 56.45 && lat >= 25.8 && lat <= 26.4) {
-    return 'Musandam';
-  }
-  
-  // UAE Mainland - use coastline-based detection
-  // The coastline runs roughly:
-  // - Western UAE (lon 51.5-53): coast at lat ~24.0-24.2
-  // - Abu Dhabi area (lon 53-54.5): coast at lat ~24.2-24.5
-  // - Dubai area (lon 54.5-55.5): coast at lat ~24.5-25.3
-  // - Northern Emirates (lon 55.5-56): coast curves to lat ~25.3-25.5
-  // Points SOUTH of coast (lower lat) = land
-  // Points NORTH of coast (higher lat) = water
-  if (lon >= 51.5 && lon <= 56.5) {
-    let coastLat: number;
-    
-    if (lon < 52.5) {
-      // Western UAE (Ruwais area)
-      coastLat = 24.0 + (lon - 51.5) * 0.1;
-    } else if (lon < 53.5) {
-      // Jebel Dhanna to western Abu Dhabi
-      coastLat = 24.1 + (lon - 52.5) * 0.15;
-    } else if (lon < 54.5) {
-      // Abu Dhabi coast
-      coastLat = 24.25 + (lon - 53.5) * 0.2;
-    } else if (lon < 55.3) {
-      // Abu Dhabi to Dubai
-      coastLat = 24.45 + (lon - 54.5) * 0.9;
-    } else if (lon < 56.0) {
-      // Dubai to Sharjah/Northern Emirates
-      coastLat = 25.17 + (lon - 55.3) * 0.4;
-    } else {
-      // East coast
-      coastLat = 25.45;
-    }
-    
-    // Point is on land if it's SOUTH of the coastline (lower latitude)
-    // and within the UAE land area (above 22.5)
-    if (lat < coastLat && lat > 22.5) {
-      return 'UAE Mainland';
-    }
-  }
-  
-  // Iran Coast - land is NORTH of the Gulf (higher latitude)
-  if (lon >= 51.0 && lon <= 56.5 && lat >= 26.8) {
-    return 'Iran Coast';
-  }
-  
-  return null; // Point is in water
-}
-
-/**
- * Check if a line segment potentially crosses land
- * Uses midpoint and quarter-point checks
+ * Check if a line segment crosses land or a restricted area
+ *
+ * Uses the exact stretches of the segment inside each area. The simplified
+ * coastlines put some berths and approach points a few miles "inland", so a
+ * stretch that only runs from one end of the segment to the coast is allowed
+ * up to COASTAL_APPROACH_NM.
  */
-function doesSegmentCrossLand(
+export function doesSegmentCrossLand(
   fromLat: number, fromLon: number,
   toLat: number, toLon: number
 ): { crosses: boolean; landArea?: string; crossPoint?: { lat: number; lon: number } } {
-  // Check multiple points along the segment
-  const checkPoints = [0.25, 0.5, 0.75];
-  
-  for (const t of checkPoints) {
-    const checkLat = fromLat + (toLat - fromLat) * t;
-    const checkLon = fromLon + (toLon - fromLon) * t;
-    
-    const landArea = isPointOnLand(checkLat, checkLon);
-    if (landArea) {
-      return { 
-        crosses: true, 
-        landArea,
-        crossPoint: { lat: checkLat, lon: checkLon }
-      };
+  const from = { lat: fromLat, lon: fromLon };
+  const to = { lat: toLat, lon: toLon };
+  const segmentNm = calculateDistanceNm(fromLat, fromLon, toLat, toLon);
+
+  // First offending stretch; its midpoint is reported as the crossing point
+  let blocking: { area: string; start: number; end: number } | null = null;
+  for (const { area, intervals } of findSegmentBlockingAreas(from, to)) {
+    for (const { start, end } of intervals) {
+      const coastalApproach = (start === 0) !== (end === 1) &&
+        (end - start) * segmentNm <= COASTAL_APPROACH_NM;
+      if (coastalApproach) continue;
+      if (!blocking || start < blocking.start) blocking = { area: area.name, start, end };
     }
   }
-  
-  return { crosses: false };
+
+  if (!blocking) return { crosses: false };
+  const at = (blocking.start + blocking.end) / 2;
+  return {
+    crosses: true,
+    landArea: blocking.area,
+    crossPoint: {
+      lat: fromLat + (toLat - fromLat) * at,
+      lon: fromLon + (toLon - fromLon) * at,
+    },
+  };
 }
 
 /**
@@ -1103,17 +1002,24 @@ function mapCondition(condition: string): 'clear' | 'cloudy' | 'rain' | 'storm'
 // Route Generation
 // ============================================================================
 
+/**
+ * Sea route waypoint as produced by a planner strategy
+ * Strategies may tag a point (e.g. 'avoid' for weather detours)
+ */
+// legType is the geometry of the leg arriving at the waypoint (great circle by default)
+export type RouteWaypointInput = SeaRouteWaypoint & { type?: Waypoint['type']; legType?: LegType };
+
 /**
  * Convert sea route waypoints to app Waypoints
  */
 function convertToWaypoints(
-  seaWaypoints: SeaRouteWaypoint[],
+  seaWaypoints: RouteWaypointInput[],
   originName?: string,
   destName?: string
 ): Waypoint[] {
   return seaWaypoints.map((wp, index) => {
-    let type: Waypoint['type'] = 'waypoint';
-    let name = `Waypoint ${index + 1}`;
+    let type: Waypoint['type'] = wp.type || 'waypoint';
+    let name = wp.name || `Waypoint ${index + 1}`;
     
     if (index === 0) {
       type = 'origin';
@@ -1129,6 +1035,7 @@ function convertToWaypoints(
       lat: wp.lat,
       lng: wp.lon,
       type,
+      notes: wp.note,
     };
   });
 }
@@ -1138,7 +1045,8 @@ function convertToWaypoints(
  */
 function generateSegments(
   waypoints: Waypoint[],
-  vesselProfile: VesselProfile
+  vesselProfile: VesselProfile,
+  legTypes: (LegType | undefined)[] = []
 ): RouteSegment[] {
   const segments: RouteSegment[] = [];
   
@@ -1146,8 +1054,9 @@ function generateSegments(
     const from = waypoints[i];
     const to = waypoints[i + 1];
     
-    const distance = calculateDistanceNm(from.lat, from.lng, to.lat, to.lng);
-    const bearing = calculateBearing(from.lat, from.lng, to.lat, to.lng);
+    const legType = legTypes[i + 1];
+    const distance = legDistanceNm({ lat: from.lat, lon: from.lng }, { lat: to.lat, lon: to.lng }, legType);
+    const bearing = legBearing({ lat: from.lat, lon: from.lng }, { lat: to.lat, lon: to.lng }, legType);
     const estimatedTime = distance / vesselProfile.cruisingSpeed;
     
     // Calculate weather risk at midpoint
@@ -1166,6 +1075,7 @@ function generateSegments(
       estimatedTime,
       fuelConsumption: fuelCalc.totalFuel,
       weatherRisk,
+      ...(legType && { legType }),
     });
   }
   
@@ -1173,46 +1083,45 @@ function generateSegments(
 }
 
 /**
- * Generate a complete route with all metrics
+ * Build a complete route with all metrics from sea route waypoints
+ * 
+ * This is the single place route distance, ETA, fuel, emissions and cost are
+ * derived from geometry - every planner strategy goes through it.
  */
-export async function generateRoute(
+export function buildRoute(
   vesselId: string,
   vesselName: string,
   vesselType: string,
-  origin: { lat: number; lng: number; name?: string },
-  destination: { lat: number; lng: number; name?: string },
+  seaWaypoints: RouteWaypointInput[],
+  origin: { name?: string },
+  destination: { name?: string },
   options: {
     speed?: number; // Override cruising speed
     routeId?: string;
     routeName?: string;
   } = {}
-): Promise<Route> {
+): Route {
   // Get vessel profile
-  const vesselProfile = VESSEL_PROFILES[vesselType] || VESSEL_PROFILES.default;
+  const vesselProfile = resolveVesselProfile(vesselType);
   
   // If custom speed provided, adjust the profile
   const effectiveProfile = options.speed
     ? { ...vesselProfile, cruisingSpeed: options.speed }
     : vesselProfile;
   
-  // Fetch realistic sea route from Datalastic
-  const { waypoints: seaWaypoints, distance: totalDistance } = await fetchSeaRoute(
-    origin.lat,
-    origin.lng,
-    destination.lat,
-    destination.lng
-  );
-  
   // Convert to app waypoints
   const waypoints = convertToWaypoints(seaWaypoints, origin.name, destination.name);
   
   // Generate segments with metrics
-  const segments = generateSegments(waypoints, effectiveProfile);
+  const segments = generateSegments(waypoints, effectiveProfile, seaWaypoints.map(wp => wp.legType));
   
   // Aggregate metrics
+  const totalDistance = segments.reduce((sum, s) => sum + s.distance, 0);
   const totalFuel = segments.reduce((sum, s) => sum + s.fuelConsumption, 0);
   const estimatedTime = segments.reduce((sum, s) => sum + s.estimatedTime, 0);
-  const avgWeatherRisk = segments.reduce((sum, s) => sum + s.weatherRisk, 0) / segments.length;
+  const avgWeatherRisk = segments.length > 0
+    ? segments.reduce((sum, s) => sum + s.weatherRisk, 0) / segments.length
+    : 0;
   
   // Calculate emissions
   const emissions = calculateEmissions(totalFuel, effectiveProfile);
@@ -1241,38 +1150,6 @@ export async function generateRoute(
   };
 }
 
-/**
- * Generate alternative routes with different speed profiles
- */
-export async function generateAlternativeRoutes(
-  vesselId: string,
-  vesselName: string,
-  vesselType: string,
-  origin: { lat: number; lng: number; name?: string },
-  destination: { lat: number; lng: number; name?: string }
-): Promise<{ fastest: Route; economical: Route; balanced: Route }> {
-  const vesselProfile = VESSEL_PROFILES[vesselType] || VESSEL_PROFILES.default;
-  
-  // Fastest: max speed
-  const fastest = await generateRoute(vesselId, vesselName, vesselType, origin, destination, {
-    speed: vesselProfile.maxSpeed,
-    routeName: 'Fastest Route',
-  });
-  
-  // Economical: 70% of cruising speed for best fuel efficiency
-  const economical = await generateRoute(vesselId, vesselName, vesselType, origin, destination, {
-    speed: vesselProfile.cruisingSpeed * 0.7,
-    routeName: 'Most Economical Route',
-  });
-  
-  // Balanced: normal cruising speed
-  const balanced = await generateRoute(vesselId, vesselName, vesselType, origin, destination, {
-    routeName: 'Balanced Route',
-  });
-  
-  return { fastest, economical, balanced };
-}
-
 /**
  * Calculate comparison between two routes
  */
@@ -1293,3 +1170,40 @@ export function compareRoutes(
   };
 }
 
+
+/**
+ * Project a position onto a route: distance along the route of the closest
+ * point, and how far off the route the position is (cross-track error)
+ *
+ * Each segment is treated as a straight line in a local flat projection,
+ * which is accurate enough for the segment lengths the engine produces.
+ */
+export function projectOntoRoute(
+  route: Route,
+  lat: number,
+  lng: number
+): { alongTrackNm: number; crossTrackNm: number; segmentIndex: number } {
+  let best = { alongTrackNm: 0, crossTrackNm: Infinity, segmentIndex: 0 };
+  let travelled = 0;
+
+  route.segments.forEach((segment, index) => {
+    const cosLat = Math.cos((segment.from.lat * Math.PI) / 180);
+    const dx = (segment.to.lng - segment.from.lng) * cosLat;
+    const dy = segment.to.lat - segment.from.lat;
+    const px = (lng - segment.from.lng) * cosLat;
+    const py = lat - segment.from.lat;
+    const lengthSq = dx * dx + dy * dy;
+    const t = lengthSq > 0 ? Math.max(0, Math.min(1, (px * dx + py * dy) / lengthSq)) : 0;
+
+    const distance = calculateDistanceNm(
+      lat, lng,
+      segment.from.lat + dy * t, segment.from.lng + (segment.to.lng - segment.from.lng) * t
+    );
+    if (distance < best.crossTrackNm) {
+      best = { alongTrackNm: travelled + segment.distance * t, crossTrackNm: distance, segmentIndex: index };
+    }
+    travelled += segment.distance;
+  });
+
+  return best;
+}
@@ -0,0 +1,512 @@
+/**
+ * Route Exchange - RTZ (IEC 61174) and GPX files for bridge ECDIS
+ *
+ * Exports planned routes as RTZ 1.0 (waypoints with turn radius, leg speed
+ * limits and cross-track distance, plus a calculated schedule) or GPX 1.1,
+ * and imports either format back into a Route so an amended plan from the
+ * bridge can be re-evaluated.
+ */
+
+import { LegType } from '@/lib/geodesy';
+import { assessUnderKeelClearance } from './bathymetry';
+import { buildRoute, RouteWaypointInput } from './engine';
+import { SpeedProfile } from './smart-optimizer';
+import { ClearanceReport, Route } from './types';
+import { findRule, findZoneTransits, ZoneTransit, zoneRegistry } from './zones';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type RouteFileFormat = 'rtz' | 'gpx';
+
+export interface RouteFileWaypoint {
+  lat: number;
+  lng: number;
+  name?: string;
+  turnRadiusNm?: number;
+  // Leg arriving at this waypoint (RTZ convention)
+  legSpeedKnots?: number;
+  legSpeedMin?: number;
+  legSpeedMax?: number;
+  legType?: LegType;
+  xtdNm?: { port: number; starboard: number };
+}
+
+export interface ParsedRouteFile {
+  format: RouteFileFormat;
+  name?: string;
+  vesselName?: string;
+  departureTime?: Date;
+  waypoints: RouteFileWaypoint[];
+}
+
+export interface ImportedRoute extends ParsedRouteFile {
+  route: Route;
+}
+
+export interface ImportedRouteEvaluation {
+  departureTime: Date;
+  estimatedArrival: Date;
+  totalDistance: number;   // nautical miles
+  estimatedTime: number;   // hours
+  fuelConsumption: number; // liters
+  cost: number;
+  weatherRisk: number;     // 0-100
+  zoneTransits: ZoneTransit[];
+  clearance: ClearanceReport | null; // Only when a draft is given
+  warnings: string[];
+}
+
+export interface RtzExportOptions {
+  speedProfile?: SpeedProfile[];  // Per-segment speeds from smart optimization
+  departureTime?: Date;           // Schedule start (defaults to now)
+  vesselMmsi?: string;
+  rateOfTurn?: number;            // deg/min used for turn radius (default 20)
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const RTZ_NAMESPACE = 'http://www.cirm.org/RTZ/1/0';
+const GPX_NAMESPACE = 'http://www.topografix.com/GPX/1/1';
+const FILE_CREATOR = 'NMDC Marine Route Planner';
+
+const DEFAULT_RATE_OF_TURN = 20; // deg/min, typical for offshore support vessels
+const MIN_TURN_RADIUS_NM = 0.1;
+
+// Cross-track limits: tight on port approach legs, scaled with leg length offshore
+const APPROACH_XTD_NM = 0.1;
+const MAX_XTD_NM = 1.0;
+const XTD_FRACTION_OF_LEG = 0.05;
+
+// ============================================================================
+// XML Helpers
+// ============================================================================
+
+interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function unescapeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, '&');
+}
+
+function formatNumber(value: number, decimals: number): string {
+  return Number(value.toFixed(decimals)).toString();
+}
+
+/**
+ * Minimal XML reader for route files - elements, attributes and text only.
+ * Namespace prefixes are dropped so `rtz:waypoint` reads as `waypoint`.
+ */
+function parseXml(xml: string): XmlElement {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [], text: '' };
+  const stack: XmlElement[] = [root];
+  const token = /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!\[CDATA\[([\s\S]*?)\]\]>|<![^>]*>|<(\/?)([^\s>/]+)([^>]*?)(\/?)>|([^<]+)/g;
+  const attribute = /([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+  const localName = (name: string) => name.slice(name.indexOf(':') + 1);
+
+  let match: RegExpExecArray | null;
+  while ((match = token.exec(xml)) !== null) {
+    const [, cdata, closing, tagName, attributeText, selfClosing, text] = match;
+    const current = stack[stack.length - 1];
+
+    if (cdata !== undefined) {
+      current.text += cdata;
+    } else if (text !== undefined) {
+      current.text += unescapeXml(text);
+    } else if (tagName) {
+      if (closing) {
+        if (stack.length > 1 && stack[stack.length - 1].name === localName(tagName)) stack.pop();
+        continue;
+      }
+
+      const element: XmlElement = { name: localName(tagName), attributes: {}, children: [], text: '' };
+      let attr: RegExpExecArray | null;
+      while ((attr = attribute.exec(attributeText)) !== null) {
+        element.attributes[localName(attr[1])] = unescapeXml(attr[3] ?? attr[4]);
+      }
+      current.children.push(element);
+      if (!selfClosing) stack.push(element);
+    }
+  }
+
+  return root;
+}
+
+function child(element: XmlElement | undefined, name: string): XmlElement | undefined {
+  return element?.children.find(c => c.name === name);
+}
+
+function childrenNamed(element: XmlElement | undefined, name: string): XmlElement[] {
+  return element?.children.filter(c => c.name === name) ?? [];
+}
+
+function numberAttr(element: XmlElement | undefined, name: string): number | undefined {
+  const value = element?.attributes[name];
+  if (value === undefined || value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return isNaN(parsed) ? undefined : parsed;
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+function routePoints(route: Route) {
+  if (route.segments.length === 0) {
+    throw new Error(`Route ${route.id} has no segments to export`);
+  }
+  return [route.segments[0].from, ...route.segments.map(segment => segment.to)];
+}
+
+/**
+ * Turn radius for a speed at a steady rate of turn: R = V / ω
+ */
+function turnRadiusNm(speedKnots: number, rateOfTurn: number): number {
+  const radiansPerHour = (rateOfTurn * 60 * Math.PI) / 180;
+  return speedKnots / radiansPerHour;
+}
+
+/**
+ * Export a route as RTZ 1.0
+ *
+ * Leg speeds come from the speed profile when given (recommended speed, with
+ * its min/max as the leg limits), otherwise the route's average speed. The
+ * turn radius at each waypoint follows the speed of the leg arriving at it,
+ * capped at half the shorter adjoining leg.
+ */
+export function exportRouteToRtz(route: Route, options: RtzExportOptions = {}): string {
+  const points = routePoints(route);
+  const rateOfTurn = options.rateOfTurn ?? DEFAULT_RATE_OF_TURN;
+  const profileFor = (segmentIndex: number) =>
+    options.speedProfile?.find(p => p.segmentIndex === segmentIndex);
+  const legSpeed = (segmentIndex: number) =>
+    profileFor(segmentIndex)?.recommendedSpeed ?? route.averageSpeed;
+
+  const waypointXml = points.map((point, index) => {
+    const attributes = [`id="${index + 1}"`, `name="${escapeXml(point.name || `WP${index + 1}`)}"`];
+    const lines: string[] = [];
+
+    // Turns happen at intermediate waypoints only
+    if (index > 0 && index < points.length - 1) {
+      const shorterLeg = Math.min(route.segments[index - 1].distance, route.segments[index].distance);
+      const radius = Math.max(
+        MIN_TURN_RADIUS_NM,
+        Math.min(turnRadiusNm(legSpeed(index - 1), rateOfTurn), shorterLeg / 2)
+      );
+      attributes.push(`radius="${formatNumber(radius, 2)}"`);
+    }
+
+    lines.push(`      <position lat="${formatNumber(point.lat, 6)}" lon="${formatNumber(point.lng, 6)}"/>`);
+
+    if (index > 0) {
+      const segmentIndex = index - 1;
+      const segment = route.segments[segmentIndex];
+      const isApproach = segmentIndex === 0 || segmentIndex === route.segments.length - 1;
+      const xtd = isApproach
+        ? APPROACH_XTD_NM
+        : Math.min(MAX_XTD_NM, Math.max(APPROACH_XTD_NM, segment.distance * XTD_FRACTION_OF_LEG));
+      const profile = profileFor(segmentIndex);
+      const legAttributes = [
+        `starboardXTD="${formatNumber(xtd, 2)}"`,
+        `portsideXTD="${formatNumber(xtd, 2)}"`,
+        `geometryType="${segment.legType === 'rhumb' ? 'Loxodrome' : 'Orthodrome'}"`,
+        ...(profile ? [
+          `speedMin="${formatNumber(profile.minSpeed, 1)}"`,
+          `speedMax="${formatNumber(profile.maxSpeed, 1)}"`,
+        ] : []),
+      ];
+      lines.push(`      <leg ${legAttributes.join(' ')}/>`);
+    }
+
+    return [`    <waypoint ${attributes.join(' ')}>`, ...lines, '    </waypoint>'].join('\n');
+  });
+
+  // Calculated schedule at the leg speeds
+  let time = (options.departureTime ?? new Date()).getTime();
+  const scheduleXml = points.map((_, index) => {
+    if (index === 0) {
+      return `        <scheduleElement waypointId="1" etd="${new Date(time).toISOString()}" speed="${formatNumber(legSpeed(0), 1)}"/>`;
+    }
+    const speed = legSpeed(index - 1);
+    time += (route.segments[index - 1].distance / speed) * 3600000;
+    return `        <scheduleElement waypointId="${index + 1}" eta="${new Date(time).toISOString()}" speed="${formatNumber(speed, 1)}"/>`;
+  });
+
+  const routeInfo = [
+    `routeName="${escapeXml(route.name)}"`,
+    `vesselName="${escapeXml(route.vesselName)}"`,
+    ...(options.vesselMmsi ? [`vesselMMSI="${escapeXml(options.vesselMmsi)}"`] : []),
+  ];
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<route xmlns="${RTZ_NAMESPACE}" version="1.0">`,
+    `  <routeInfo ${routeInfo.join(' ')}/>`,
+    '  <waypoints>',
+    ...waypointXml,
+    '  </waypoints>',
+    '  <schedules>',
+    '    <schedule id="1" name="Planned">',
+    '      <calculated>',
+    ...scheduleXml,
+    '      </calculated>',
+    '    </schedule>',
+    '  </schedules>',
+    '</route>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Export a route as a GPX 1.1 route (<rte>)
+ */
+export function exportRouteToGpx(route: Route): string {
+  const points = routePoints(route);
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<gpx xmlns="${GPX_NAMESPACE}" version="1.1" creator="${FILE_CREATOR}">`,
+    '  <rte>',
+    `    <name>${escapeXml(route.name)}</name>`,
+    `    <desc>${escapeXml(`${route.vesselName} - ${route.totalDistance.toFixed(1)} nm`)}</desc>`,
+    ...points.map((point, index) => [
+      `    <rtept lat="${formatNumber(point.lat, 6)}" lon="${formatNumber(point.lng, 6)}">`,
+      `      <name>${escapeXml(point.name || `WP${index + 1}`)}</name>`,
+      '    </rtept>',
+    ].join('\n')),
+    '  </rte>',
+    '</gpx>',
+    '',
+  ].join('\n');
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+/**
+ * Tell RTZ from GPX by the root element
+ */
+export function detectRouteFileFormat(content: string): RouteFileFormat {
+  const root = parseXml(content).children[0];
+  if (root?.name === 'route') return 'rtz';
+  if (root?.name === 'gpx') return 'gpx';
+  throw new Error('Unrecognised route file - expected an RTZ <route> or GPX <gpx> document');
+}
+
+function parseRtz(root: XmlElement): ParsedRouteFile {
+  const info = child(root, 'routeInfo');
+  const waypointsElement = child(root, 'waypoints');
+  const defaults = child(waypointsElement, 'defaultWaypoint');
+  const defaultLeg = child(defaults, 'leg');
+
+  // Calculated schedule speeds, falling back to a manual schedule
+  const schedule = childrenNamed(child(root, 'schedules'), 'schedule')[0];
+  const scheduleElements = childrenNamed(child(schedule, 'calculated') ?? child(schedule, 'manual'), 'scheduleElement');
+  const scheduleFor = (id: string | undefined) =>
+    scheduleElements.find(e => e.attributes.waypointId === id);
+
+  const waypoints = childrenNamed(waypointsElement, 'waypoint').map(element => {
+    const position = child(element, 'position');
+    const leg = child(element, 'leg');
+    const legAttr = (name: string) => numberAttr(leg, name) ?? numberAttr(defaultLeg, name);
+    // RTZ legs are loxodromes unless marked otherwise
+    const geometry = leg?.attributes.geometryType ?? defaultLeg?.attributes.geometryType;
+    const port = legAttr('portsideXTD');
+    const starboard = legAttr('starboardXTD');
+
+    return {
+      lat: numberAttr(position, 'lat') ?? NaN,
+      lng: numberAttr(position, 'lon') ?? NaN,
+      name: element.attributes.name,
+      turnRadiusNm: numberAttr(element, 'radius') ?? numberAttr(defaults, 'radius'),
+      legSpeedKnots: numberAttr(scheduleFor(element.attributes.id), 'speed'),
+      legSpeedMin: legAttr('speedMin'),
+      legSpeedMax: legAttr('speedMax'),
+      legType: (geometry === 'Orthodrome' ? 'great-circle' : 'rhumb') as LegType,
+      xtdNm: port !== undefined || starboard !== undefined
+        ? { port: port ?? starboard!, starboard: starboard ?? port! }
+        : undefined,
+    };
+  });
+
+  // The first waypoint's speed is the speed of the leg leaving it
+  if (waypoints.length > 1 && waypoints[1].legSpeedKnots === undefined) {
+    waypoints[1].legSpeedKnots = waypoints[0].legSpeedKnots;
+  }
+
+  const etd = scheduleElements.find(e => e.attributes.etd)?.attributes.etd;
+  const departureTime = etd ? new Date(etd) : undefined;
+
+  return {
+    format: 'rtz',
+    name: info?.attributes.routeName,
+    vesselName: info?.attributes.vesselName,
+    departureTime: departureTime && !isNaN(departureTime.getTime()) ? departureTime : undefined,
+    waypoints: waypoints.map((wp, index) => (index === 0 ? { ...wp, legSpeedKnots: undefined } : wp)),
+  };
+}
+
+function parseGpx(root: XmlElement): ParsedRouteFile {
+  // A planned route, else the first track, else loose waypoints
+  const rte = child(root, 'rte');
+  const trk = child(root, 'trk');
+  const points = rte
+    ? childrenNamed(rte, 'rtept')
+    : trk
+      ? childrenNamed(trk, 'trkseg').flatMap(seg => childrenNamed(seg, 'trkpt'))
+      : childrenNamed(root, 'wpt');
+
+  return {
+    format: 'gpx',
+    name: child(rte ?? trk, 'name')?.text.trim() || undefined,
+    waypoints: points.map(point => ({
+      lat: numberAttr(point, 'lat') ?? NaN,
+      lng: numberAttr(point, 'lon') ?? NaN,
+      name: child(point, 'name')?.text.trim() || undefined,
+    })),
+  };
+}
+
+/**
+ * Parse an RTZ or GPX file without building a route
+ */
+export function parseRouteFile(content: string, format?: RouteFileFormat): ParsedRouteFile {
+  const root = parseXml(content).children[0];
+  const resolvedFormat = format ?? detectRouteFileFormat(content);
+  const parsed = resolvedFormat === 'rtz' ? parseRtz(root) : parseGpx(root);
+
+  if (parsed.waypoints.length < 2) {
+    throw new Error(`Route file has ${parsed.waypoints.length} waypoint(s) - at least 2 are required`);
+  }
+
+  const invalid = parsed.waypoints.findIndex(wp =>
+    isNaN(wp.lat) || isNaN(wp.lng) || Math.abs(wp.lat) > 90 || Math.abs(wp.lng) > 180
+  );
+  if (invalid >= 0) {
+    throw new Error(`Waypoint ${invalid + 1} has an invalid position`);
+  }
+
+  return parsed;
+}
+
+/**
+ * Import an RTZ or GPX file as a Route for the given vessel
+ *
+ * The route keeps the file's geometry exactly. When the file carries leg
+ * speeds (RTZ schedule), the route is timed at their distance-weighted
+ * average; otherwise at the vessel's cruising speed.
+ */
+export function importRouteFile(
+  content: string,
+  vessel: { vesselId: string; vesselName?: string; vesselType: string },
+  format?: RouteFileFormat
+): ImportedRoute {
+  const parsed = parseRouteFile(content, format);
+  const seaWaypoints: RouteWaypointInput[] = parsed.waypoints.map(wp => ({
+    lat: wp.lat,
+    lon: wp.lng,
+    name: wp.name,
+    legType: wp.legType,
+  }));
+
+  const draft = buildRoute(
+    vessel.vesselId,
+    vessel.vesselName || parsed.vesselName || 'Unknown Vessel',
+    vessel.vesselType,
+    seaWaypoints,
+    { name: parsed.waypoints[0].name },
+    { name: parsed.waypoints[parsed.waypoints.length - 1].name },
+    { routeName: parsed.name }
+  );
+
+  // Re-time at the file's leg speeds where every leg has one
+  const legSpeeds = parsed.waypoints.slice(1).map(wp => wp.legSpeedKnots);
+  const route = legSpeeds.every(speed => speed !== undefined && speed > 0)
+    ? buildRoute(
+        draft.vesselId,
+        draft.vesselName,
+        vessel.vesselType,
+        seaWaypoints,
+        draft.origin,
+        draft.destination,
+        {
+          routeName: parsed.name,
+          speed: draft.totalDistance / draft.segments.reduce((sum, s, i) => sum + s.distance / legSpeeds[i]!, 0),
+        }
+      )
+    : draft;
+
+  return { ...parsed, route };
+}
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+/**
+ * Evaluate an imported plan exactly as the file lays it out
+ *
+ * Nothing is re-routed or re-timed: zones and under-keel clearance are
+ * checked along the file's waypoints at the route's own speed.
+ */
+export function evaluateImportedRoute(
+  imported: ImportedRoute,
+  options: { departureTime?: Date; draftMeters?: number } = {}
+): ImportedRouteEvaluation {
+  const { route } = imported;
+  const departureTime = options.departureTime ?? imported.departureTime ?? new Date();
+  const speedKnots = route.estimatedTime > 0 ? route.totalDistance / route.estimatedTime : route.averageSpeed;
+  const points = imported.waypoints.map(wp => ({ lat: wp.lat, lon: wp.lng }));
+
+  const zoneTransits = findZoneTransits(points, zoneRegistry.list(), { departureTime, speedKnots })
+    .filter(transit => transit.active);
+  const clearance = options.draftMeters !== undefined
+    ? assessUnderKeelClearance(points, { draftMeters: options.draftMeters, departureTime, speedKnots })
+    : null;
+
+  const warnings: string[] = [];
+  for (const transit of zoneTransits) {
+    if (findRule(transit.rules, 'no_entry')) {
+      warnings.push(`Enters ${transit.zoneName} while it is closed (${transit.entry.time.toISOString()})`);
+    }
+  }
+  if (clearance && !clearance.feasible) {
+    warnings.push(`Under-keel clearance below ${clearance.requiredClearance.toFixed(1)}m on ${clearance.violations.length} leg(s)`);
+  }
+
+  return {
+    departureTime,
+    estimatedArrival: new Date(departureTime.getTime() + route.estimatedTime * 3600000),
+    totalDistance: route.totalDistance,
+    estimatedTime: route.estimatedTime,
+    fuelConsumption: route.fuelConsumption,
+    cost: route.cost,
+    weatherRisk: route.weatherRisk,
+    zoneTransits,
+    clearance,
+    warnings,
+  };
+}
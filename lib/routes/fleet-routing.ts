@@ -0,0 +1,546 @@
+/**
+ * Fleet Routing - Supply runs across several vessels (VRP)
+ *
+ * Assigns a set of stops (deck cargo, fuel and water deliveries, service time,
+ * time windows) to vessels and sequences each vessel's run, minimising fuel
+ * cost plus a cost per hour of lateness against the stops' time windows.
+ *
+ * - Parallel cheapest insertion for the initial solution, respecting capacity
+ * - Relocate moves (within and between runs) for local improvement
+ * - A single-vessel baseline (one vessel visits every stop the fleet served) for comparison
+ *
+ * Each vessel does a single trip from its start position (the depot unless
+ * given) with no reloading, optionally returning to the depot.
+ */
+
+import { NMDC_FLEET, NMDCVessel } from '@/lib/nmdc/fleet';
+import { Route } from './types';
+import { resolveVesselProfile, VesselProfile } from './engine';
+import { buildDistanceMatrix, DistanceMatrix, getDistance, Stop } from './optimizer';
+import { routePlanner, RouteStrategyId, DEFAULT_ROUTE_STRATEGY } from './planner';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface CargoCapacity {
+  deckCargoTonnes: number;
+  fuelM3: number;
+  waterM3: number;
+}
+
+export interface FleetVessel {
+  id: string;
+  name: string;
+  type: string;
+  capacity: CargoCapacity;
+  start?: { lat: number; lng: number; name?: string }; // Defaults to the depot
+  availableFrom?: Date;                                  // Defaults to the departure time
+}
+
+export interface FleetRoutingRequest {
+  depot: Stop;
+  stops: Stop[];
+  vessels: FleetVessel[];
+  departureTime?: Date;
+  returnToDepot?: boolean;
+  latenessCostPerHour?: number; // USD per hour late at a stop
+  strategy?: RouteStrategyId;
+  planLegs?: boolean;           // Plan leg geometry for each run (default true)
+}
+
+export interface StopVisit {
+  stop: Stop;
+  arrival: Date;
+  serviceStart: Date;
+  departure: Date;
+  waitingHours: number;   // Arrived before the window opened
+  latenessHours: number;  // Service started after the window closed
+}
+
+export interface VesselRun {
+  vesselId: string;
+  vesselName: string;
+  vesselType: string;
+  visits: StopVisit[];
+  distanceNm: number;
+  durationHours: number;
+  fuelLiters: number;
+  fuelCost: number;
+  latenessHours: number;
+  load: CargoCapacity;
+  utilisation: CargoCapacity; // Percent of capacity
+  returnArrival?: Date;
+  routes: Route[];
+}
+
+export interface FleetRoutingResult {
+  runs: VesselRun[];
+  idleVessels: string[];
+  unassigned: Array<{ stop: Stop; reason: string }>;
+  totals: {
+    distanceNm: number;
+    fuelLiters: number;
+    fuelCost: number;
+    latenessHours: number;
+    cost: number;
+    vesselsUsed: number;
+  };
+  baseline: {
+    vesselId: string;
+    vesselName: string;
+    order: string[];
+    distanceNm: number;
+    fuelLiters: number;
+    fuelCost: number;
+    latenessHours: number;
+    cost: number;
+    capacityExceeded: boolean;
+  };
+  savings: {
+    fuelLiters: number;
+    latenessHours: number;
+    cost: number;
+    percentImprovement: number;
+  };
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export const DEFAULT_LATENESS_COST_PER_HOUR = 500; // USD
+
+// Single-trip capacity by vessel profile (deck cargo t, fuel m³, water m³)
+const CAPACITY_BY_PROFILE: Record<string, CargoCapacity> = {
+  supply_vessel: { deckCargoTonnes: 1200, fuelM3: 800, waterM3: 700 },
+  tugboat: { deckCargoTonnes: 100, fuelM3: 150, waterM3: 100 },
+  work_barge: { deckCargoTonnes: 2000, fuelM3: 100, waterM3: 100 },
+  crane_barge: { deckCargoTonnes: 1500, fuelM3: 200, waterM3: 200 },
+  default: { deckCargoTonnes: 200, fuelM3: 100, waterM3: 100 },
+};
+
+// Usable deck load when the vessel's deck area is known
+const DECK_LOAD_TONNES_PER_M2 = 2.5;
+
+const MAX_IMPROVEMENT_PASSES = 50;
+
+// ============================================================================
+// Fleet
+// ============================================================================
+
+/**
+ * Default single-trip capacity for a vessel type
+ */
+export function defaultCapacity(vesselType: string): CargoCapacity {
+  const profile = resolveVesselProfile(vesselType);
+  return { ...(CAPACITY_BY_PROFILE[profile.type] || CAPACITY_BY_PROFILE.default) };
+}
+
+/**
+ * Fleet routing vessel for an NMDC fleet entry (id is the MMSI)
+ */
+export function fleetVesselFromNMDC(vessel: NMDCVessel): FleetVessel {
+  const capacity = defaultCapacity(vessel.type);
+  if (vessel.specs?.deckArea) {
+    capacity.deckCargoTonnes = Math.round(vessel.specs.deckArea * DECK_LOAD_TONNES_PER_M2);
+  }
+
+  return {
+    id: vessel.mmsi,
+    name: vessel.name,
+    type: vessel.type,
+    capacity,
+  };
+}
+
+/**
+ * NMDC supply vessels available for supply runs
+ */
+export function getSupplyFleet(): FleetVessel[] {
+  return NMDC_FLEET.filter(v => v.type === 'supply').map(fleetVesselFromNMDC);
+}
+
+// ============================================================================
+// Run Evaluation
+// ============================================================================
+
+interface RoutingContext {
+  depot: Stop;
+  matrix: DistanceMatrix;
+  departureTime: Date;
+  returnToDepot: boolean;
+  latenessCostPerHour: number;
+  profiles: Map<string, VesselProfile>;
+}
+
+interface RunEvaluation {
+  visits: StopVisit[];
+  distanceNm: number;
+  durationHours: number;
+  fuelLiters: number;
+  fuelCost: number;
+  latenessHours: number;
+  cost: number;
+  load: CargoCapacity;
+  returnArrival?: Date;
+}
+
+function startId(vessel: FleetVessel, context: RoutingContext): string {
+  return vessel.start ? `start-${vessel.id}` : context.depot.id;
+}
+
+function loadOf(stops: Stop[]): CargoCapacity {
+  return {
+    deckCargoTonnes: stops.reduce((sum, s) => sum + (s.deckCargoTonnes || 0), 0),
+    fuelM3: stops.reduce((sum, s) => sum + (s.fuelDeliveryM3 || 0), 0),
+    waterM3: stops.reduce((sum, s) => sum + (s.waterDeliveryM3 || 0), 0),
+  };
+}
+
+function fitsCapacity(load: CargoCapacity, capacity: CargoCapacity): boolean {
+  return load.deckCargoTonnes <= capacity.deckCargoTonnes
+    && load.fuelM3 <= capacity.fuelM3
+    && load.waterM3 <= capacity.waterM3;
+}
+
+/**
+ * Sail a run at cruising speed: arrive, wait for the window, service, move on
+ */
+function evaluateRun(vessel: FleetVessel, sequence: Stop[], context: RoutingContext): RunEvaluation {
+  const profile = context.profiles.get(vessel.id)!;
+  const departure = vessel.availableFrom && vessel.availableFrom > context.departureTime
+    ? vessel.availableFrom
+    : context.departureTime;
+
+  let time = departure.getTime();
+  let previousId = startId(vessel, context);
+  let distanceNm = 0;
+  let latenessHours = 0;
+  const visits: StopVisit[] = [];
+
+  for (const stop of sequence) {
+    const legNm = getDistance(context.matrix, previousId, stop.id);
+    distanceNm += legNm;
+    const arrival = time + (legNm / profile.cruisingSpeed) * 3600000;
+    const windowStart = stop.timeWindowStart?.getTime() ?? arrival;
+    const serviceStart = Math.max(arrival, windowStart);
+    const late = stop.timeWindowEnd
+      ? Math.max(0, (serviceStart - stop.timeWindowEnd.getTime()) / 3600000)
+      : 0;
+    time = serviceStart + (stop.serviceTimeHours || 0) * 3600000;
+    latenessHours += late;
+
+    visits.push({
+      stop,
+      arrival: new Date(arrival),
+      serviceStart: new Date(serviceStart),
+      departure: new Date(time),
+      waitingHours: (serviceStart - arrival) / 3600000,
+      latenessHours: late,
+    });
+    previousId = stop.id;
+  }
+
+  let returnArrival: Date | undefined;
+  if (context.returnToDepot && sequence.length > 0) {
+    const legNm = getDistance(context.matrix, previousId, context.depot.id);
+    distanceNm += legNm;
+    time += (legNm / profile.cruisingSpeed) * 3600000;
+    returnArrival = new Date(time);
+  }
+
+  const fuelLiters = distanceNm * profile.fuelConsumptionRate;
+  const fuelCost = fuelLiters * profile.fuelCostPerLiter;
+
+  return {
+    visits,
+    distanceNm,
+    durationHours: (time - departure.getTime()) / 3600000,
+    fuelLiters,
+    fuelCost,
+    latenessHours,
+    cost: fuelCost + latenessHours * context.latenessCostPerHour,
+    load: loadOf(sequence),
+    returnArrival,
+  };
+}
+
+// ============================================================================
+// Solver
+// ============================================================================
+
+/**
+ * Cheapest feasible position for a stop in a run, or null if it doesn't fit
+ */
+function bestInsertion(
+  vessel: FleetVessel,
+  sequence: Stop[],
+  stop: Stop,
+  context: RoutingContext,
+  currentCost: number,
+  checkCapacity: boolean
+): { position: number; delta: number } | null {
+  if (checkCapacity && !fitsCapacity(loadOf([...sequence, stop]), vessel.capacity)) {
+    return null;
+  }
+
+  let best: { position: number; delta: number } | null = null;
+  for (let position = 0; position <= sequence.length; position++) {
+    const candidate = [...sequence.slice(0, position), stop, ...sequence.slice(position)];
+    const delta = evaluateRun(vessel, candidate, context).cost - currentCost;
+    if (!best || delta < best.delta) {
+      best = { position, delta };
+    }
+  }
+  return best;
+}
+
+/**
+ * Parallel cheapest insertion: repeatedly insert the stop whose cheapest
+ * feasible insertion over all runs costs least
+ */
+function constructRuns(
+  vessels: FleetVessel[],
+  stops: Stop[],
+  context: RoutingContext,
+  checkCapacity: boolean
+): { sequences: Map<string, Stop[]>; unassigned: Stop[] } {
+  const sequences = new Map(vessels.map(v => [v.id, [] as Stop[]]));
+  const costs = new Map(vessels.map(v => [v.id, 0]));
+  const remaining = [...stops];
+
+  while (remaining.length > 0) {
+    let best: { stopIndex: number; vessel: FleetVessel; position: number; delta: number } | null = null;
+
+    for (let stopIndex = 0; stopIndex < remaining.length; stopIndex++) {
+      for (const vessel of vessels) {
+        const insertion = bestInsertion(
+          vessel, sequences.get(vessel.id)!, remaining[stopIndex], context, costs.get(vessel.id)!, checkCapacity
+        );
+        if (insertion && (!best || insertion.delta < best.delta)) {
+          best = { stopIndex, vessel, ...insertion };
+        }
+      }
+    }
+
+    // Whatever is left doesn't fit in the capacity remaining on any run
+    if (!best) break;
+    const { stopIndex, vessel, position } = best;
+
+    const sequence = sequences.get(vessel.id)!;
+    sequence.splice(position, 0, remaining[stopIndex]);
+    costs.set(vessel.id, evaluateRun(vessel, sequence, context).cost);
+    remaining.splice(stopIndex, 1);
+  }
+
+  return { sequences, unassigned: remaining };
+}
+
+/**
+ * Relocate moves: take a stop out of its run and re-insert it at its cheapest
+ * feasible position in any run, while that lowers the total cost
+ */
+function improveRuns(
+  vessels: FleetVessel[],
+  sequences: Map<string, Stop[]>,
+  context: RoutingContext,
+  checkCapacity: boolean
+): void {
+  const costOf = (vessel: FleetVessel) => evaluateRun(vessel, sequences.get(vessel.id)!, context).cost;
+
+  for (let pass = 0; pass < MAX_IMPROVEMENT_PASSES; pass++) {
+    let improved = false;
+
+    for (const fromVessel of vessels) {
+      const fromSequence = sequences.get(fromVessel.id)!;
+
+      for (let i = 0; i < fromSequence.length && !improved; i++) {
+        const stop = fromSequence[i];
+        const reduced = [...fromSequence.slice(0, i), ...fromSequence.slice(i + 1)];
+        const removalGain = costOf(fromVessel) - evaluateRun(fromVessel, reduced, context).cost;
+
+        let best: { vessel: FleetVessel; position: number; delta: number } | null = null;
+        for (const toVessel of vessels) {
+          const base = toVessel.id === fromVessel.id ? reduced : sequences.get(toVessel.id)!;
+          const baseCost = evaluateRun(toVessel, base, context).cost;
+          const insertion = bestInsertion(toVessel, base, stop, context, baseCost, checkCapacity);
+          if (insertion && (!best || insertion.delta < best.delta)) {
+            best = { vessel: toVessel, ...insertion };
+          }
+        }
+
+        // Require a real gain so moves between equal-cost positions can't cycle
+        if (best && best.delta < removalGain - 1e-6) {
+          sequences.set(fromVessel.id, reduced);
+          const target = sequences.get(best.vessel.id)!;
+          sequences.set(best.vessel.id, [
+            ...target.slice(0, best.position), stop, ...target.slice(best.position),
+          ]);
+          improved = true;
+        }
+      }
+      if (improved) break;
+    }
+
+    if (!improved) break;
+  }
+}
+
+/**
+ * Assign stops to vessels and sequence each vessel's supply run
+ */
+export async function optimizeFleetRouting(request: FleetRoutingRequest): Promise<FleetRoutingResult> {
+  const {
+    depot,
+    stops,
+    vessels,
+    departureTime = new Date(),
+    returnToDepot = true,
+    latenessCostPerHour = DEFAULT_LATENESS_COST_PER_HOUR,
+    strategy = DEFAULT_ROUTE_STRATEGY,
+    planLegs = true,
+  } = request;
+
+  if (vessels.length === 0) {
+    throw new Error('At least one vessel is required for fleet routing');
+  }
+
+  const starts: Stop[] = vessels
+    .filter(v => v.start)
+    .map(v => ({ id: `start-${v.id}`, name: v.start!.name || `${v.name} position`, lat: v.start!.lat, lng: v.start!.lng }));
+
+  console.log('[FleetRouting] Building distance matrix for', 1 + starts.length + stops.length, 'points');
+  const matrix = await buildDistanceMatrix([depot, ...starts, ...stops], strategy);
+
+  const context: RoutingContext = {
+    depot,
+    matrix,
+    departureTime,
+    returnToDepot,
+    latenessCostPerHour,
+    profiles: new Map(vessels.map(v => [v.id, resolveVesselProfile(v.type)])),
+  };
+
+  // Stops no vessel could carry even on an otherwise empty run
+  const oversized = stops.filter(s => !vessels.some(v => fitsCapacity(loadOf([s]), v.capacity)));
+
+  // Fleet solution
+  const { sequences, unassigned } = constructRuns(
+    vessels, stops.filter(s => !oversized.includes(s)), context, true
+  );
+  improveRuns(vessels, sequences, context, true);
+
+  const runs: VesselRun[] = [];
+  for (const vessel of vessels) {
+    const sequence = sequences.get(vessel.id)!;
+    if (sequence.length === 0) continue;
+
+    const evaluation = evaluateRun(vessel, sequence, context);
+    const routes: Route[] = [];
+
+    if (planLegs) {
+      const legStops = [
+        vessel.start ? { ...vessel.start, name: vessel.start.name || `${vessel.name} position` } : depot,
+        ...sequence,
+        ...(returnToDepot ? [depot] : []),
+      ];
+      for (let i = 0; i < legStops.length - 1; i++) {
+        const from = legStops[i];
+        const to = legStops[i + 1];
+        const { route } = await routePlanner.plan({
+          vesselId: vessel.id,
+          vesselName: vessel.name,
+          vesselType: vessel.type,
+          origin: { lat: from.lat, lng: from.lng, name: from.name },
+          destination: { lat: to.lat, lng: to.lng, name: to.name },
+          departureTime: i === 0 ? departureTime : evaluation.visits[i - 1].departure,
+          strategy,
+          routeName: `${vessel.name} leg ${i + 1}: ${from.name} → ${to.name}`,
+        });
+        routes.push(route);
+      }
+    }
+
+    runs.push({
+      vesselId: vessel.id,
+      vesselName: vessel.name,
+      vesselType: vessel.type,
+      visits: evaluation.visits,
+      distanceNm: evaluation.distanceNm,
+      durationHours: evaluation.durationHours,
+      fuelLiters: evaluation.fuelLiters,
+      fuelCost: evaluation.fuelCost,
+      latenessHours: evaluation.latenessHours,
+      load: evaluation.load,
+      utilisation: {
+        deckCargoTonnes: percentOf(evaluation.load.deckCargoTonnes, vessel.capacity.deckCargoTonnes),
+        fuelM3: percentOf(evaluation.load.fuelM3, vessel.capacity.fuelM3),
+        waterM3: percentOf(evaluation.load.waterM3, vessel.capacity.waterM3),
+      },
+      returnArrival: evaluation.returnArrival,
+      routes,
+    });
+  }
+
+  const totals = {
+    distanceNm: runs.reduce((sum, r) => sum + r.distanceNm, 0),
+    fuelLiters: runs.reduce((sum, r) => sum + r.fuelLiters, 0),
+    fuelCost: runs.reduce((sum, r) => sum + r.fuelCost, 0),
+    latenessHours: runs.reduce((sum, r) => sum + r.latenessHours, 0),
+    cost: 0,
+    vesselsUsed: runs.length,
+  };
+  totals.cost = totals.fuelCost + totals.latenessHours * latenessCostPerHour;
+
+  // Baseline: the first vessel visits every stop the fleet served on its own,
+  // as a single multi-stop run would today (capacity is reported, not enforced).
+  // Stops left unassigned are in neither, so they never count as savings.
+  const baselineVessel = vessels[0];
+  const served = vessels.flatMap(v => sequences.get(v.id)!);
+  const baselineSequences = constructRuns([baselineVessel], served, context, false).sequences;
+  improveRuns([baselineVessel], baselineSequences, context, false);
+  const baselineSequence = baselineSequences.get(baselineVessel.id)!;
+  const baselineRun = evaluateRun(baselineVessel, baselineSequence, context);
+
+  console.log('[FleetRouting] Solved:', {
+    stops: stops.length,
+    vesselsUsed: runs.length,
+    unassigned: oversized.length + unassigned.length,
+    fuelLiters: Math.round(totals.fuelLiters),
+    latenessHours: totals.latenessHours.toFixed(1),
+  });
+
+  return {
+    runs,
+    idleVessels: vessels.filter(v => sequences.get(v.id)!.length === 0).map(v => v.id),
+    unassigned: [
+      ...oversized.map(stop => ({ stop, reason: 'Demand exceeds the capacity of every vessel' })),
+      ...unassigned.map(stop => ({ stop, reason: 'No vessel has enough capacity left on its run' })),
+    ],
+    totals,
+    baseline: {
+      vesselId: baselineVessel.id,
+      vesselName: baselineVessel.name,
+      order: baselineSequence.map(s => s.id),
+      distanceNm: baselineRun.distanceNm,
+      fuelLiters: baselineRun.fuelLiters,
+      fuelCost: baselineRun.fuelCost,
+      latenessHours: baselineRun.latenessHours,
+      cost: baselineRun.cost,
+      capacityExceeded: !fitsCapacity(baselineRun.load, baselineVessel.capacity),
+    },
+    savings: {
+      fuelLiters: baselineRun.fuelLiters - totals.fuelLiters,
+      latenessHours: baselineRun.latenessHours - totals.latenessHours,
+      cost: baselineRun.cost - totals.cost,
+      percentImprovement: baselineRun.cost > 0
+        ? ((baselineRun.cost - totals.cost) / baselineRun.cost) * 100
+        : 0,
+    },
+  };
+}
+
+function percentOf(value: number, capacity: number): number {
+  return capacity > 0 ? Math.round((value / capacity) * 1000) / 10 : 0;
+}
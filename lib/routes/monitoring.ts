@@ -0,0 +1,472 @@
+/**
+ * Voyage Monitoring - Plan versus actual for saved routes
+ *
+ * Compares a saved route plan with the vessel's reported track (position
+ * history or AIS) and measures how far the voyage has drifted from the plan:
+ * cross-track error, ETA drift and fuel burn against the planned burn for the
+ * distance covered. Deviations beyond the thresholds are raised as alerts.
+ */
+
+import { supabase, isSupabaseConfigured } from '@/lib/supabase';
+import { getDatalasticClient, isDatalasticConfigured } from '@/lib/datalastic';
+import { calculateDistanceNm } from '@/lib/geodesy';
+import { projectOntoRoute, resolveVesselProfile } from './engine';
+import { calculateFuelRateAtSpeed, createFuelModel } from './smart-optimizer';
+import { Route } from './types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface TrackPoint {
+  lat: number;
+  lng: number;
+  timestamp: Date;
+  speed?: number; // knots (SOG), when reported
+}
+
+export interface MonitoringThresholds {
+  crossTrackNm: number;          // Off-track distance before a warning
+  etaDriftHours: number;         // Predicted arrival vs plan
+  fuelDeviationPercent: number;  // Actual vs planned burn for the distance covered
+}
+
+export type DeviationMetric = 'cross_track' | 'eta_drift' | 'fuel';
+
+export interface VoyageDeviation {
+  metric: DeviationMetric;
+  severity: 'warning' | 'critical';
+  value: number;
+  threshold: number;
+  message: string;
+}
+
+export interface VoyageMonitorReport {
+  routeId: string;
+  routeName: string;
+  vesselId: string;
+  vesselName: string;
+  asOf: Date;
+  trackPoints: number;
+  position: TrackPoint;
+  progress: {
+    distanceCompletedNm: number;
+    distanceRemainingNm: number;
+    percentComplete: number;
+    segmentIndex: number;
+  };
+  crossTrack: {
+    currentNm: number;
+    maxNm: number;
+    meanNm: number;
+    maxAt: Date;
+  };
+  eta: {
+    departureTime: Date;
+    plannedArrival: Date;
+    predictedArrival: Date;
+    driftHours: number;          // Positive = late
+    recentSpeedKnots: number;    // Speed made good along the route
+  };
+  fuel: {
+    plannedToDateLiters: number;
+    actualLiters: number;
+    deviationPercent: number;    // Positive = burning more than planned
+    source: 'reported' | 'estimated';
+  };
+  thresholds: MonitoringThresholds;
+  deviations: VoyageDeviation[];
+  status: 'on_plan' | 'warning' | 'critical';
+}
+
+export interface MonitorOptions {
+  departureTime?: Date;          // Defaults to the first track point
+  vesselType?: string;           // Vessel profile for estimating fuel burn
+  fuelUsedLiters?: number;       // Reported burn since departure (overrides the estimate)
+  thresholds?: Partial<MonitoringThresholds>;
+}
+
+export interface MonitoringAlert {
+  vesselId: string;
+  routeId: string;
+  metric: DeviationMetric;
+  severity: 'warning' | 'critical';
+  title: string;
+  description: string;
+  createdAt: Date;
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export const DEFAULT_MONITORING_THRESHOLDS: MonitoringThresholds = {
+  crossTrackNm: 2,
+  etaDriftHours: 2,
+  fuelDeviationPercent: 15,
+};
+
+// Deviations at this multiple of the threshold are critical
+const CRITICAL_MULTIPLIER = 2;
+
+// Window for speed made good when predicting the ETA
+const RECENT_SPEED_WINDOW_HOURS = 3;
+
+// Fuel comparisons are noise until the vessel has covered some distance
+const MIN_FUEL_COMPARISON_NM = 10;
+
+const METRIC_LABELS: Record<DeviationMetric, string> = {
+  cross_track: 'Cross-track deviation',
+  eta_drift: 'ETA drift',
+  fuel: 'Fuel consumption deviation',
+};
+
+// In-memory alerts when Supabase is not configured
+const inMemoryAlerts: MonitoringAlert[] = [];
+
+// ============================================================================
+// Plan vs Actual
+// ============================================================================
+
+/**
+ * Planned fuel for the first `distanceNm` of the route
+ */
+function plannedFuelTo(route: Route, distanceNm: number): number {
+  let travelled = 0;
+  let fuel = 0;
+
+  for (const segment of route.segments) {
+    if (travelled >= distanceNm) break;
+    const covered = Math.min(segment.distance, distanceNm - travelled);
+    if (segment.distance > 0) {
+      fuel += segment.fuelConsumption * (covered / segment.distance);
+    }
+    travelled += segment.distance;
+  }
+
+  return fuel;
+}
+
+function classify(value: number, threshold: number): VoyageDeviation['severity'] | null {
+  if (Math.abs(value) >= threshold * CRITICAL_MULTIPLIER) return 'critical';
+  if (Math.abs(value) >= threshold) return 'warning';
+  return null;
+}
+
+/**
+ * Compare a route plan with the vessel's track
+ *
+ * Track points before the departure time are ignored. Fuel is estimated from
+ * the distance and speed between track points with the same speed-squared
+ * model and weather factor used when planning, unless a reported figure is
+ * given.
+ */
+export function monitorVoyage(
+  route: Route,
+  track: TrackPoint[],
+  options: MonitorOptions = {}
+): VoyageMonitorReport {
+  if (route.segments.length === 0) {
+    throw new Error(`Route ${route.id} has no segments to monitor against`);
+  }
+
+  const sorted = [...track].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  const departureTime = options.departureTime ?? sorted[0]?.timestamp;
+  const points = departureTime
+    ? sorted.filter(p => p.timestamp >= departureTime)
+    : sorted;
+
+  if (!departureTime || points.length === 0) {
+    throw new Error('No track positions since departure');
+  }
+
+  const thresholds = { ...DEFAULT_MONITORING_THRESHOLDS, ...options.thresholds };
+  const projections = points.map(p => projectOntoRoute(route, p.lat, p.lng));
+  const last = points[points.length - 1];
+  const current = projections[projections.length - 1];
+
+  // Cross-track error
+  let maxIndex = 0;
+  projections.forEach((p, i) => {
+    if (p.crossTrackNm > projections[maxIndex].crossTrackNm) maxIndex = i;
+  });
+  const meanCrossTrack = projections.reduce((sum, p) => sum + p.crossTrackNm, 0) / projections.length;
+
+  // Progress - the furthest point reached, so a position fix that projects
+  // slightly backwards doesn't undo distance already covered
+  const distanceCompletedNm = Math.min(
+    route.totalDistance,
+    Math.max(...projections.map(p => p.alongTrackNm))
+  );
+  const distanceRemainingNm = Math.max(0, route.totalDistance - distanceCompletedNm);
+
+  // ETA - speed made good along the route over the recent window
+  const windowStart = last.timestamp.getTime() - RECENT_SPEED_WINDOW_HOURS * 3600000;
+  const firstInWindow = points.findIndex(p => p.timestamp.getTime() >= windowStart);
+  const windowHours = (last.timestamp.getTime() - points[firstInWindow].timestamp.getTime()) / 3600000;
+  const madeGood = current.alongTrackNm - projections[firstInWindow].alongTrackNm;
+  const recentSpeedKnots = windowHours > 0 && madeGood > 0
+    ? madeGood / windowHours
+    : route.averageSpeed;
+
+  const plannedArrival = new Date(departureTime.getTime() + route.estimatedTime * 3600000);
+  const predictedArrival = new Date(
+    last.timestamp.getTime() + (distanceRemainingNm / Math.max(recentSpeedKnots, 0.1)) * 3600000
+  );
+  const driftHours = (predictedArrival.getTime() - plannedArrival.getTime()) / 3600000;
+
+  // Fuel
+  const fuelModel = createFuelModel(resolveVesselProfile(options.vesselType));
+  let estimatedFuel = 0;
+  for (let i = 1; i < points.length; i++) {
+    const distance = calculateDistanceNm(points[i - 1].lat, points[i - 1].lng, points[i].lat, points[i].lng);
+    const hours = (points[i].timestamp.getTime() - points[i - 1].timestamp.getTime()) / 3600000;
+    if (hours <= 0 || distance === 0) continue;
+
+    const speed = points[i].speed ?? distance / hours;
+    const weatherRisk = route.segments[projections[i].segmentIndex].weatherRisk;
+    estimatedFuel += calculateFuelRateAtSpeed(speed, fuelModel) * distance * (1 + (weatherRisk / 100) * 0.3);
+  }
+
+  const actualLiters = options.fuelUsedLiters ?? estimatedFuel;
+  const plannedToDateLiters = plannedFuelTo(route, distanceCompletedNm);
+  const fuelDeviationPercent = plannedToDateLiters > 0
+    ? ((actualLiters - plannedToDateLiters) / plannedToDateLiters) * 100
+    : 0;
+
+  // Deviations
+  const deviations: VoyageDeviation[] = [];
+
+  const crossTrackSeverity = classify(current.crossTrackNm, thresholds.crossTrackNm);
+  if (crossTrackSeverity) {
+    deviations.push({
+      metric: 'cross_track',
+      severity: crossTrackSeverity,
+      value: current.crossTrackNm,
+      threshold: thresholds.crossTrackNm,
+      message: `${current.crossTrackNm.toFixed(1)} nm off the planned track (leg ${current.segmentIndex + 1})`,
+    });
+  }
+
+  const etaSeverity = classify(driftHours, thresholds.etaDriftHours);
+  if (etaSeverity) {
+    deviations.push({
+      metric: 'eta_drift',
+      severity: etaSeverity,
+      value: driftHours,
+      threshold: thresholds.etaDriftHours,
+      message: `Predicted arrival ${Math.abs(driftHours).toFixed(1)}h ${driftHours > 0 ? 'behind' : 'ahead of'} plan`,
+    });
+  }
+
+  const fuelSeverity = distanceCompletedNm >= MIN_FUEL_COMPARISON_NM
+    ? classify(fuelDeviationPercent, thresholds.fuelDeviationPercent)
+    : null;
+  if (fuelSeverity) {
+    deviations.push({
+      metric: 'fuel',
+      severity: fuelSeverity,
+      value: fuelDeviationPercent,
+      threshold: thresholds.fuelDeviationPercent,
+      message: `Fuel burn ${Math.abs(fuelDeviationPercent).toFixed(0)}% ${fuelDeviationPercent > 0 ? 'above' : 'below'} plan ` +
+        `(${Math.round(actualLiters)} L vs ${Math.round(plannedToDateLiters)} L planned)`,
+    });
+  }
+
+  const status = deviations.some(d => d.severity === 'critical')
+    ? 'critical'
+    : deviations.length > 0 ? 'warning' : 'on_plan';
+
+  return {
+    routeId: route.id,
+    routeName: route.name,
+    vesselId: route.vesselId,
+    vesselName: route.vesselName,
+    asOf: last.timestamp,
+    trackPoints: points.length,
+    position: last,
+    progress: {
+      distanceCompletedNm: Math.round(distanceCompletedNm * 10) / 10,
+      distanceRemainingNm: Math.round(distanceRemainingNm * 10) / 10,
+      percentComplete: Math.round((distanceCompletedNm / route.totalDistance) * 1000) / 10,
+      segmentIndex: current.segmentIndex,
+    },
+    crossTrack: {
+      currentNm: Math.round(current.crossTrackNm * 100) / 100,
+      maxNm: Math.round(projections[maxIndex].crossTrackNm * 100) / 100,
+      meanNm: Math.round(meanCrossTrack * 100) / 100,
+      maxAt: points[maxIndex].timestamp,
+    },
+    eta: {
+      departureTime,
+      plannedArrival,
+      predictedArrival,
+      driftHours: Math.round(driftHours * 100) / 100,
+      recentSpeedKnots: Math.round(recentSpeedKnots * 10) / 10,
+    },
+    fuel: {
+      plannedToDateLiters: Math.round(plannedToDateLiters),
+      actualLiters: Math.round(actualLiters),
+      deviationPercent: Math.round(fuelDeviationPercent * 10) / 10,
+      source: options.fuelUsedLiters !== undefined ? 'reported' : 'estimated',
+    },
+    thresholds,
+    deviations,
+    status,
+  };
+}
+
+// ============================================================================
+// Track Sources
+// ============================================================================
+
+/**
+ * Load a vessel's track since a given time
+ *
+ * Reads the position_history table; when that has nothing and an MMSI is
+ * given, falls back to Datalastic AIS history.
+ */
+export async function loadPositionHistory(
+  vesselId: string,
+  options: { since?: Date; mmsi?: string } = {}
+): Promise<TrackPoint[]> {
+  const since = options.since ?? new Date(Date.now() - 3 * 24 * 3600000);
+
+  if (isSupabaseConfigured) {
+    const { data, error } = await supabase
+      .from('position_history')
+      .select('position_lat, position_lng, speed, timestamp')
+      .eq('vessel_id', vesselId)
+      .gte('timestamp', since.toISOString())
+      .order('timestamp', { ascending: true });
+
+    if (error) {
+      console.error('[VoyageMonitor] Error fetching position history:', error);
+    } else if (data && data.length > 0) {
+      return data
+        .filter(row => row.timestamp)
+        .map(row => ({
+          lat: row.position_lat,
+          lng: row.position_lng,
+          timestamp: new Date(row.timestamp as string),
+          speed: row.speed ?? undefined,
+        }));
+    }
+  }
+
+  if (options.mmsi && isDatalasticConfigured()) {
+    const days = Math.max(1, Math.ceil((Date.now() - since.getTime()) / (24 * 3600000)));
+    const history = await getDatalasticClient().getVesselHistory(options.mmsi, { days });
+    return (history?.positions ?? [])
+      .map(p => ({
+        lat: p.latitude,
+        lng: p.longitude,
+        timestamp: new Date(p.epoch * 1000),
+        speed: p.speed,
+      }))
+      .filter(p => p.timestamp >= since);
+  }
+
+  return [];
+}
+
+// ============================================================================
+// Alerts
+// ============================================================================
+
+/**
+ * Raise an alert for each deviation in a report
+ *
+ * Alerts go to the `alerts` table (or memory when Supabase is not configured).
+ * A deviation that already has an unresolved alert for the same vessel and
+ * route is not raised again, unless it has escalated from warning to
+ * critical: the open alert is then raised to critical in place. Returns the
+ * alerts that were raised or escalated.
+ */
+export async function raiseDeviationAlerts(report: VoyageMonitorReport): Promise<MonitoringAlert[]> {
+  const alerts: MonitoringAlert[] = report.deviations.map(deviation => ({
+    vesselId: report.vesselId,
+    routeId: report.routeId,
+    metric: deviation.metric,
+    severity: deviation.severity,
+    title: `${METRIC_LABELS[deviation.metric]} - ${report.routeName}`,
+    description: `${report.vesselName}: ${deviation.message}`,
+    createdAt: report.asOf,
+  }));
+
+  if (alerts.length === 0) return [];
+
+  if (isSupabaseConfigured) {
+    const { data: open, error: openError } = await supabase
+      .from('alerts')
+      .select('id, title, severity')
+      .eq('vessel_id', report.vesselId)
+      .eq('resolved', false);
+
+    if (openError) {
+      console.error('[VoyageMonitor] Error fetching open alerts:', openError);
+      throw openError;
+    }
+
+    const openByTitle = new Map((open || []).map(a => [a.title, a]));
+    const toRaise = alerts.filter(a => !openByTitle.has(a.title));
+    const toEscalate = alerts.filter(a => a.severity === 'critical' && openByTitle.get(a.title)?.severity === 'warning');
+
+    for (const alert of toEscalate) {
+      const { error } = await supabase
+        .from('alerts')
+        .update({ severity: alert.severity, description: alert.description })
+        .eq('id', openByTitle.get(alert.title)!.id);
+
+      if (error) {
+        console.error('[VoyageMonitor] Error escalating alert:', error);
+        throw error;
+      }
+    }
+
+    if (toRaise.length === 0) return toEscalate;
+
+    const { error } = await supabase.from('alerts').insert(
+      toRaise.map(a => ({
+        vessel_id: a.vesselId,
+        severity: a.severity,
+        type: a.metric === 'fuel' ? 'fuel' as const : 'safety' as const,
+        title: a.title,
+        description: a.description,
+        resolved: false,
+        acknowledged: false,
+      }))
+    );
+
+    if (error) {
+      console.error('[VoyageMonitor] Error raising alerts:', error);
+      throw error;
+    }
+
+    console.log(`[VoyageMonitor] Raised ${toRaise.length} alert(s) for ${report.vesselName}`);
+    return [...toRaise, ...toEscalate];
+  }
+
+  const raised: MonitoringAlert[] = [];
+  for (const alert of alerts) {
+    const existing = inMemoryAlerts.find(a => a.vesselId === alert.vesselId && a.title === alert.title);
+    if (!existing) {
+      inMemoryAlerts.push(alert);
+      raised.push(alert);
+    } else if (alert.severity === 'critical' && existing.severity === 'warning') {
+      existing.severity = alert.severity;
+      existing.description = alert.description;
+      raised.push(alert);
+    }
+  }
+  return raised;
+}
+
+/**
+ * Alerts raised in memory (when Supabase is not configured)
+ */
+export function listMonitoringAlerts(vesselId?: string): MonitoringAlert[] {
+  return vesselId
+    ? inMemoryAlerts.filter(a => a.vesselId === vesselId)
+    : [...inMemoryAlerts];
+}
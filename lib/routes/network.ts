@@ -0,0 +1,372 @@
+/**
+ * Maritime Network Data
+ *
+ * Loads the shipping-lane graph, land masses and restricted areas used by the
+ * route engine from versioned GeoJSON files in `lib/routes/data/`:
+ * - gulf-network.json: Point features (kind=node) and LineString features (kind=edge)
+ * - gulf-land.json: Polygon features (kind=land | restricted)
+ *
+ * Adding a port, an anchorage or closing a channel is a data change: edit the
+ * GeoJSON, bump its `version`, and the network is re-validated on startup.
+ */
+
+import { InsideInterval, isPointInPolygon, segmentInsidePolygon } from '@/lib/geodesy';
+import networkGeoJSON from './data/gulf-network.json';
+import landGeoJSON from './data/gulf-land.json';
+
+// ============================================================================
+// GeoJSON Types
+// ============================================================================
+
+type Position = [number, number]; // [lon, lat]
+
+export interface GeoJSONFeature {
+  type: 'Feature';
+  id?: string;
+  geometry: {
+    type: string;
+    coordinates: unknown;
+  };
+  properties: Record<string, unknown> | null;
+}
+
+export interface NetworkFeatureCollection {
+  type: 'FeatureCollection';
+  name?: string;
+  version: string;
+  description?: string;
+  features: GeoJSONFeature[];
+}
+
+// ============================================================================
+// Network Types
+// ============================================================================
+
+export interface NetworkNode {
+  id: string;
+  lat: number;
+  lon: number;
+  name: string;
+  region?: string;
+  connections: string[]; // IDs of connected nodes (open edges only)
+}
+
+export interface NetworkEdge {
+  id: string;
+  from: string;
+  to: string;
+  closed: boolean;
+  reason?: string;
+}
+
+export interface NetworkArea {
+  id: string;
+  name: string;
+  kind: 'land' | 'restricted';
+  polygon: { lat: number; lon: number }[];
+  restriction?: string;
+}
+
+export interface MaritimeNetwork {
+  version: string;       // "<network version>+<land version>"
+  nodes: NetworkNode[];
+  edges: NetworkEdge[];
+  landAreas: NetworkArea[];
+  restrictedAreas: NetworkArea[];
+  nodeMap: Map<string, NetworkNode>;
+  warnings: string[];
+  collections: { network: NetworkFeatureCollection; land: NetworkFeatureCollection }; // As loaded
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+function isPosition(value: unknown): value is Position {
+  return Array.isArray(value) &&
+    value.length >= 2 &&
+    typeof value[0] === 'number' && typeof value[1] === 'number' &&
+    value[0] >= -180 && value[0] <= 180 &&
+    value[1] >= -90 && value[1] <= 90;
+}
+
+export function featureLabel(feature: GeoJSONFeature, index: number): string {
+  return feature.id ? `feature "${feature.id}"` : `feature #${index}`;
+}
+
+export function validateCollectionHeader(collection: NetworkFeatureCollection, source: string): string[] {
+  const problems: string[] = [];
+  if (!collection || collection.type !== 'FeatureCollection') {
+    problems.push('not a GeoJSON FeatureCollection');
+    return problems;
+  }
+  if (typeof collection.version !== 'string' || !collection.version) {
+    problems.push(`${source} is missing a "version"`);
+  }
+  if (!Array.isArray(collection.features)) {
+    problems.push('"features" must be an array');
+  }
+  return problems;
+}
+
+/**
+ * Outer ring of a Polygon feature as lat/lon points (closing point dropped)
+ * Returns a description of the problem instead if the ring is not valid
+ */
+export function readPolygonRing(feature: GeoJSONFeature, index: number): { lat: number; lon: number }[] | string {
+  const label = featureLabel(feature, index);
+  const rings = feature.geometry?.coordinates;
+  if (feature.geometry?.type !== 'Polygon' || !Array.isArray(rings) || !Array.isArray(rings[0])) {
+    return `${label}: area must be a Polygon`;
+  }
+  const ring: unknown[] = rings[0];
+  if (ring.length < 4 || !ring.every(isPosition)) {
+    return `${label}: polygon ring needs at least 4 [lon, lat] positions`;
+  }
+  const first = ring[0] as Position;
+  const last = ring[ring.length - 1] as Position;
+  if (first[0] !== last[0] || first[1] !== last[1]) {
+    return `${label}: polygon ring is not closed`;
+  }
+  return (ring as Position[]).slice(0, -1).map(([lon, lat]) => ({ lat, lon }));
+}
+
+/**
+ * Build and validate a maritime network from GeoJSON
+ *
+ * Structural problems (bad geometry, duplicate IDs, dangling edges) throw with
+ * every problem listed. Nodes that fall inside a land polygon are reported
+ * as warnings because the simplified coastlines are coarser than the lanes.
+ */
+export function loadMaritimeNetwork(
+  network: NetworkFeatureCollection,
+  land: NetworkFeatureCollection
+): MaritimeNetwork {
+  const problems = [
+    ...validateCollectionHeader(network, 'network'),
+    ...validateCollectionHeader(land, 'land'),
+  ];
+  if (problems.length > 0) {
+    throw new Error(`Invalid maritime network data: ${problems.join('; ')}`);
+  }
+
+  const nodes: NetworkNode[] = [];
+  const nodeMap = new Map<string, NetworkNode>();
+  const edges: NetworkEdge[] = [];
+  const edgeKeys = new Set<string>();
+
+  // Nodes first so edges can be checked against them
+  network.features.forEach((feature, index) => {
+    if (feature.properties?.kind !== 'node') return;
+    const label = featureLabel(feature, index);
+    if (typeof feature.id !== 'string' || !feature.id) {
+      problems.push(`${label}: node is missing an id`);
+      return;
+    }
+    if (nodeMap.has(feature.id)) {
+      problems.push(`${label}: duplicate node id`);
+      return;
+    }
+    if (feature.geometry?.type !== 'Point' || !isPosition(feature.geometry.coordinates)) {
+      problems.push(`${label}: node must be a Point with [lon, lat] coordinates`);
+      return;
+    }
+    const [lon, lat] = feature.geometry.coordinates;
+    const node: NetworkNode = {
+      id: feature.id,
+      lat,
+      lon,
+      name: typeof feature.properties.name === 'string' ? feature.properties.name : feature.id,
+      region: typeof feature.properties.region === 'string' ? feature.properties.region : undefined,
+      connections: [],
+    };
+    nodes.push(node);
+    nodeMap.set(node.id, node);
+  });
+
+  network.features.forEach((feature, index) => {
+    const kind = feature.properties?.kind;
+    if (kind === 'node') return;
+    const label = featureLabel(feature, index);
+    if (kind !== 'edge') {
+      problems.push(`${label}: unknown kind "${String(kind)}" (expected node or edge)`);
+      return;
+    }
+    const { from, to, closed, reason } = feature.properties as Record<string, unknown>;
+    if (typeof from !== 'string' || typeof to !== 'string') {
+      problems.push(`${label}: edge needs "from" and "to" node ids`);
+      return;
+    }
+    const fromNode = nodeMap.get(from);
+    const toNode = nodeMap.get(to);
+    if (!fromNode || !toNode) {
+      problems.push(`${label}: edge references unknown node ${!fromNode ? from : to}`);
+      return;
+    }
+    if (from === to) {
+      problems.push(`${label}: edge connects ${from} to itself`);
+      return;
+    }
+    if (feature.geometry?.type !== 'LineString') {
+      problems.push(`${label}: edge must be a LineString`);
+      return;
+    }
+    const key = [from, to].sort().join('|');
+    if (edgeKeys.has(key)) {
+      problems.push(`${label}: duplicate edge ${from} - ${to}`);
+      return;
+    }
+    edgeKeys.add(key);
+
+    const edge: NetworkEdge = {
+      id: typeof feature.id === 'string' ? feature.id : `${from}-${to}`,
+      from,
+      to,
+      closed: closed === true,
+      reason: typeof reason === 'string' ? reason : undefined,
+    };
+    edges.push(edge);
+
+    // Lanes are two-way; closed edges stay in the data but are not traversable
+    if (!edge.closed) {
+      fromNode.connections.push(to);
+      toNode.connections.push(from);
+    }
+  });
+
+  const landAreas: NetworkArea[] = [];
+  const restrictedAreas: NetworkArea[] = [];
+  land.features.forEach((feature, index) => {
+    const label = featureLabel(feature, index);
+    const kind = feature.properties?.kind;
+    if (kind !== 'land' && kind !== 'restricted') {
+      problems.push(`${label}: unknown kind "${String(kind)}" (expected land or restricted)`);
+      return;
+    }
+    const polygon = readPolygonRing(feature, index);
+    if (typeof polygon === 'string') {
+      problems.push(polygon);
+      return;
+    }
+    const area: NetworkArea = {
+      id: typeof feature.id === 'string' ? feature.id : `area-${index}`,
+      name: typeof feature.properties?.name === 'string' ? feature.properties.name : `Area ${index + 1}`,
+      kind,
+      polygon,
+      restriction: typeof feature.properties?.restriction === 'string' ? feature.properties.restriction : undefined,
+    };
+    (kind === 'land' ? landAreas : restrictedAreas).push(area);
+  });
+
+  if (nodes.length === 0) {
+    problems.push('network has no nodes');
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid maritime network data (${network.name || 'network'} v${network.version}): ${problems.join('; ')}`);
+  }
+
+  const warnings: string[] = [];
+  for (const node of nodes) {
+    if (node.connections.length === 0) {
+      warnings.push(`Node ${node.id} (${node.name}) has no open edges`);
+    }
+    const area = [...landAreas, ...restrictedAreas].find(a => isPointInPolygon(node.lat, node.lon, a.polygon));
+    if (area) {
+      warnings.push(`Node ${node.id} (${node.name}) lies inside ${area.kind} area "${area.name}"`);
+    }
+  }
+  // Lanes over land would route vessels across it
+  for (const edge of edges) {
+    const from = nodeMap.get(edge.from)!;
+    const to = nodeMap.get(edge.to)!;
+    const area = landAreas.find(a => segmentInsidePolygon(from, to, a.polygon).length > 0);
+    if (area) {
+      warnings.push(`Edge ${edge.id} crosses land area "${area.name}"`);
+    }
+  }
+
+  return {
+    version: `${network.version}+${land.version}`,
+    nodes,
+    edges,
+    landAreas,
+    restrictedAreas,
+    nodeMap,
+    warnings,
+    collections: { network, land },
+  };
+}
+
+// ============================================================================
+// Active Network
+// ============================================================================
+
+// Validated once at module load so bad data fails at startup, not mid-voyage
+let activeNetwork: MaritimeNetwork = loadMaritimeNetwork(
+  networkGeoJSON as NetworkFeatureCollection,
+  landGeoJSON as NetworkFeatureCollection
+);
+
+if (activeNetwork.warnings.length > 0) {
+  console.warn(`[MaritimeNetwork] v${activeNetwork.version} loaded with warnings:`, activeNetwork.warnings);
+}
+
+/**
+ * The network currently used for routing
+ */
+export function getActiveNetwork(): MaritimeNetwork {
+  return activeNetwork;
+}
+
+/**
+ * Replace the active network (e.g. with a newer GeoJSON release)
+ * The data is validated before it is swapped in.
+ */
+export function setActiveNetwork(
+  network: NetworkFeatureCollection,
+  land: NetworkFeatureCollection
+): MaritimeNetwork {
+  activeNetwork = loadMaritimeNetwork(network, land);
+  console.log(`[MaritimeNetwork] Active network is now v${activeNetwork.version}`);
+  if (activeNetwork.warnings.length > 0) {
+    console.warn(`[MaritimeNetwork] v${activeNetwork.version} loaded with warnings:`, activeNetwork.warnings);
+  }
+  return activeNetwork;
+}
+
+/**
+ * Name of the land mass or restricted area containing a point, if any
+ */
+export function findBlockingArea(lat: number, lon: number): NetworkArea | null {
+  const { landAreas, restrictedAreas } = activeNetwork;
+  for (const area of landAreas) {
+    if (isPointInPolygon(lat, lon, area.polygon)) return area;
+  }
+  for (const area of restrictedAreas) {
+    if (isPointInPolygon(lat, lon, area.polygon)) return area;
+  }
+  return null;
+}
+
+/**
+ * Land masses and restricted areas the segment from -> to passes through,
+ * with the stretches (fractions 0-1 along the segment) inside each
+ */
+export function findSegmentBlockingAreas(
+  from: { lat: number; lon: number },
+  to: { lat: number; lon: number }
+): { area: NetworkArea; intervals: InsideInterval[] }[] {
+  const { landAreas, restrictedAreas } = activeNetwork;
+  return [...landAreas, ...restrictedAreas]
+    .map(area => ({ area, intervals: segmentInsidePolygon(from, to, area.polygon) }))
+    .filter(crossing => crossing.intervals.length > 0);
+}
+
+/**
+ * The active network as GeoJSON, for map overlays
+ */
+export function getNetworkGeoJSON(): { version: string; network: NetworkFeatureCollection; land: NetworkFeatureCollection } {
+  const { version, collections } = activeNetwork;
+  return { version, network: collections.network, land: collections.land };
+}
@@ -7,9 +7,10 @@
  * - Distance matrix caching for efficiency
  */
 
-import { getDatalasticClient, isDatalasticConfigured, calculateDistanceNm } from '@/lib/datalastic';
-import { Route, Waypoint, RouteOptimizationRequest, RouteOptimizationResult } from './types';
-import { generateRoute, generateAlternativeRoutes, compareRoutes, getRouteWeatherForecast, assessWeatherRisk, VESSEL_PROFILES } from './engine';
+import { calculateDistanceNm } from '@/lib/geodesy';
+import { Route, RouteOptimizationRequest, RouteOptimizationResult } from './types';
+import { compareRoutes, getRouteWeatherForecast, resolveVesselProfile } from './engine';
+import { routePlanner, measurePathNm, RouteStrategyId, DEFAULT_ROUTE_STRATEGY } from './planner';
 
 // ============================================================================
 // Types
@@ -23,6 +24,11 @@ export interface Stop {
   priority?: number; // Higher = more important to visit early
   timeWindowStart?: Date;
   timeWindowEnd?: Date;
+  // Supply run demands (used by fleet routing)
+  deckCargoTonnes?: number;
+  fuelDeliveryM3?: number;
+  waterDeliveryM3?: number;
+  serviceTimeHours?: number; // Time alongside to discharge
 }
 
 export interface MultiStopOptimizationRequest {
@@ -37,6 +43,7 @@ export interface MultiStopOptimizationRequest {
     time: number; // 0-100
     fuel: number; // 0-100
   };
+  strategy?: RouteStrategyId; // Planner strategy for each leg
 }
 
 export interface MultiStopOptimizationResult {
@@ -57,15 +64,15 @@ export interface MultiStopOptimizationResult {
 // Distance Matrix
 // ============================================================================
 
-type DistanceMatrix = Map<string, Map<string, number>>;
+export type DistanceMatrix = Map<string, Map<string, number>>;
 
 /**
- * Build distance matrix between all stops using Datalastic sea routes
- * Falls back to great-circle distances if API unavailable
+ * Build distance matrix between all stops using planner sea routes
+ * Falls back to great-circle distances if a leg cannot be planned
  */
-async function buildDistanceMatrix(
+export async function buildDistanceMatrix(
   stops: Stop[],
-  useSeaRoutes: boolean = true
+  strategy: RouteStrategyId = DEFAULT_ROUTE_STRATEGY
 ): Promise<DistanceMatrix> {
   const matrix: DistanceMatrix = new Map();
   
@@ -82,18 +89,19 @@ async function buildDistanceMatrix(
       
       let distance: number;
       
-      if (useSeaRoutes && isDatalasticConfigured()) {
-        try {
-          const client = getDatalasticClient();
-          const response = await client.getSeaRouteByCoordinates(
-            from.lat, from.lng, to.lat, to.lng
-          );
-          distance = response.data.distance;
-        } catch {
-          // Fallback to great-circle
-          distance = calculateDistanceNm(from.lat, from.lng, to.lat, to.lng);
-        }
-      } else {
+      try {
+        // Measure with the same geometry the legs will be planned with
+        const path = await routePlanner.resolvePath({
+          vesselId: 'matrix',
+          vesselName: 'Distance Matrix',
+          vesselType: 'default',
+          origin: from,
+          destination: to,
+          strategy,
+        });
+        distance = measurePathNm(path.waypoints);
+      } catch {
+        // Fallback to great-circle
         distance = calculateDistanceNm(from.lat, from.lng, to.lat, to.lng);
       }
       
@@ -112,7 +120,7 @@ async function buildDistanceMatrix(
 /**
  * Get distance between two stops from the matrix
  */
-function getDistance(matrix: DistanceMatrix, fromId: string, toId: string): number {
+export function getDistance(matrix: DistanceMatrix, fromId: string, toId: string): number {
   return matrix.get(fromId)?.get(toId) ?? Infinity;
 }
 
@@ -253,14 +261,22 @@ function applyPriorityConstraints(
 export async function optimizeMultiStopRoute(
   request: MultiStopOptimizationRequest
 ): Promise<MultiStopOptimizationResult> {
-  const { origin, stops, returnToOrigin = false, vesselId, vesselName, vesselType } = request;
+  const {
+    origin,
+    stops,
+    returnToOrigin = false,
+    vesselId,
+    vesselName,
+    vesselType,
+    strategy = DEFAULT_ROUTE_STRATEGY,
+  } = request;
   
   // All stops including origin for distance matrix
   const allStops = [origin, ...stops];
   
   // Build distance matrix using sea routes
   console.log('[Optimizer] Building distance matrix for', allStops.length, 'stops');
-  const matrix = await buildDistanceMatrix(allStops, true);
+  const matrix = await buildDistanceMatrix(allStops, strategy);
   
   // Calculate original (unoptimized) distance
   const originalOrder = [origin, ...stops];
@@ -282,7 +298,7 @@ export async function optimizeMultiStopRoute(
   const optimizedDistance = calculateTotalDistance(finalOrder, matrix, returnToOrigin);
   
   // Get vessel profile for time/fuel calculations
-  const profile = VESSEL_PROFILES[vesselType] || VESSEL_PROFILES.default;
+  const profile = resolveVesselProfile(vesselType);
   
   // Calculate times
   const originalTime = originalDistance / profile.cruisingSpeed;
@@ -292,42 +308,38 @@ export async function optimizeMultiStopRoute(
   const originalFuel = originalDistance * profile.fuelConsumptionRate;
   const optimizedFuel = optimizedDistance * profile.fuelConsumptionRate;
   
-  // Generate actual routes between optimized stops
+  // Plan actual routes between optimized stops
+  const planLeg = async (from: Stop, to: Stop, routeName: string): Promise<Route> => {
+    const { route } = await routePlanner.plan({
+      vesselId,
+      vesselName,
+      vesselType,
+      origin: { lat: from.lat, lng: from.lng, name: from.name },
+      destination: { lat: to.lat, lng: to.lng, name: to.name },
+      strategy,
+      routeName,
+    });
+    return route;
+  };
+  
   const routes: Route[] = [];
   for (let i = 0; i < finalOrder.length - 1; i++) {
     const from = finalOrder[i];
     const to = finalOrder[i + 1];
-    
-    const route = await generateRoute(
-      vesselId,
-      vesselName,
-      vesselType,
-      { lat: from.lat, lng: from.lng, name: from.name },
-      { lat: to.lat, lng: to.lng, name: to.name },
-      { routeName: `Leg ${i + 1}: ${from.name} → ${to.name}` }
-    );
-    routes.push(route);
+    routes.push(await planLeg(from, to, `Leg ${i + 1}: ${from.name} → ${to.name}`));
   }
   
   // Add return leg if requested
   if (returnToOrigin && finalOrder.length > 1) {
     const lastStop = finalOrder[finalOrder.length - 1];
-    const returnRoute = await generateRoute(
-      vesselId,
-      vesselName,
-      vesselType,
-      { lat: lastStop.lat, lng: lastStop.lng, name: lastStop.name },
-      { lat: origin.lat, lng: origin.lng, name: origin.name },
-      { routeName: `Return: ${lastStop.name} → ${origin.name}` }
-    );
-    routes.push(returnRoute);
+    routes.push(await planLeg(lastStop, origin, `Return: ${lastStop.name} → ${origin.name}`));
   }
   
   return {
     optimizedOrder: finalOrder,
-    totalDistance: optimizedDistance,
-    totalTime: optimizedTime,
-    totalFuel: optimizedFuel,
+    totalDistance: routes.reduce((sum, r) => sum + r.totalDistance, 0),
+    totalTime: routes.reduce((sum, r) => sum + r.estimatedTime, 0),
+    totalFuel: routes.reduce((sum, r) => sum + r.fuelConsumption, 0),
     routes,
     savings: {
       distanceSaved: originalDistance - optimizedDistance,
@@ -349,18 +361,20 @@ export async function optimizeMultiStopRoute(
 export async function optimizeSingleRoute(
   request: RouteOptimizationRequest,
   vesselName: string,
-  vesselType: string
+  vesselType: string,
+  strategy: RouteStrategyId = DEFAULT_ROUTE_STRATEGY
 ): Promise<RouteOptimizationResult> {
   const { vesselId, origin, destination, priorities } = request;
   
   // Generate alternative routes
-  const alternatives = await generateAlternativeRoutes(
+  const alternatives = await routePlanner.planAlternatives({
     vesselId,
     vesselName,
     vesselType,
     origin,
-    destination
-  );
+    destination,
+    strategy,
+  });
   
   // Score routes based on priorities
   const scoreRoute = (route: Route): number => {
@@ -0,0 +1,707 @@
+/**
+ * Route Planner - Single entry point for voyage route planning
+ *
+ * Every screen and API that needs a route goes through the planner, so the
+ * same origin/destination always yields the same distance, ETA and fuel.
+ * Route geometry comes from a pluggable strategy; metrics always come from
+ * buildRoute in the route engine.
+ *
+ * Built-in strategies:
+ * - direct: Straight line between origin and destination (comparison baseline)
+ * - network: Local Persian Gulf shipping-lane graph
+ * - sea-route: Datalastic sea route with land correction, network fallback
+ * - weather: Base route with detours around weather forecast at the time of passage
+ * - multi-stop: Chains legs through intermediate stops in the given order
+ *
+ * When a draft is given, every planned path is checked for under-keel
+ * clearance against bathymetry and tide; shallow segments are rerouted over
+ * deep-water lanes where possible. Regulated zones passed in avoidZones are
+ * detoured around while they are in force.
+ */
+
+import { calculateDistanceNm, isPointInPolygon } from '@/lib/geodesy';
+import { ForecastSource, forecastPathSegments, getForecastSource } from '@/lib/route-optimization/forecast';
+import { buildForecastZones } from '@/lib/route-optimization/marine-weather';
+import {
+  calculateAvoidanceWaypoints,
+  doesSegmentIntersectZone,
+  generateMockWeatherZones,
+} from '@/lib/route-optimization/optimizer';
+import {
+  Route as VoyageRoute,
+  SegmentForecast,
+  Waypoint as VoyageWaypoint,
+  WeatherZone,
+} from '@/lib/route-optimization/types';
+import {
+  buildRoute,
+  doesSegmentCrossLand,
+  fetchDepthConstrainedRoute,
+  fetchNetworkRoute,
+  fetchSeaRoute,
+  resolveVesselProfile,
+  RouteWaypointInput,
+} from './engine';
+import { assessUnderKeelClearance, requiredClearance } from './bathymetry';
+import { ClearanceReport, Route } from './types';
+import { RegulatedZone, detourAroundZone, findZoneTransits } from './zones';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type RouteStrategyId = 'direct' | 'network' | 'sea-route' | 'weather' | 'multi-stop';
+
+export type RoutePathSource = 'direct' | 'network' | 'api' | 'hybrid';
+
+export interface PlanPoint {
+  lat: number;
+  lng: number;
+  name?: string;
+}
+
+export interface RoutePlanRequest {
+  vesselId: string;
+  vesselName: string;
+  vesselType: string;
+  origin: PlanPoint;
+  destination: PlanPoint;
+
+  strategy?: RouteStrategyId;
+  baseStrategy?: RouteStrategyId; // Geometry under composite strategies (weather, multi-stop)
+
+  stops?: PlanPoint[];          // multi-stop: visited in the given order
+  weatherZones?: WeatherZone[]; // weather: pre-fetched zones (skips the forecast lookup)
+  departureTime?: Date;          // weather: forecasts are read at the predicted passage times
+  forecastSource?: ForecastSource; // weather: overrides the active forecast source
+
+  clearance?: {
+    draftMeters: number;
+    minClearanceMeters?: number; // Defaults to 10% of draft, at least 0.5m
+    strict?: boolean;            // Throw instead of returning an infeasible route
+  };
+  avoidZones?: RegulatedZone[]; // Detoured around while in force at the time of passage
+
+  speed?: number; // Override vessel cruising speed (knots)
+  routeId?: string;
+  routeName?: string;
+}
+
+export interface RoutePath {
+  waypoints: RouteWaypointInput[];
+  source: RoutePathSource;
+  weatherZonesAvoided: WeatherZone[];
+  segmentForecasts?: SegmentForecast[]; // One per consecutive waypoint pair
+}
+
+export interface RouteStrategy {
+  id: RouteStrategyId;
+  name: string;
+  description: string;
+  resolvePath(request: RoutePlanRequest, planner: RoutePlanner): Promise<RoutePath>;
+}
+
+export interface PlannedRoute {
+  route: Route;
+  strategy: RouteStrategyId;
+  source: RoutePathSource;
+  weatherZonesAvoided: WeatherZone[];
+  segmentForecasts?: SegmentForecast[];
+  clearance?: ClearanceReport;
+}
+
+export const DEFAULT_ROUTE_STRATEGY: RouteStrategyId = 'sea-route';
+
+// ============================================================================
+// Built-in Strategies
+// ============================================================================
+
+const directStrategy: RouteStrategy = {
+  id: 'direct',
+  name: 'Direct',
+  description: 'Straight line between origin and destination, for comparison only',
+  async resolvePath(request) {
+    return {
+      waypoints: [
+        { lat: request.origin.lat, lon: request.origin.lng },
+        { lat: request.destination.lat, lon: request.destination.lng },
+      ],
+      source: 'direct',
+      weatherZonesAvoided: [],
+    };
+  },
+};
+
+const networkStrategy: RouteStrategy = {
+  id: 'network',
+  name: 'Shipping Lane Network',
+  description: 'Verified Persian Gulf shipping-lane graph with land avoidance',
+  async resolvePath(request) {
+    const { waypoints, source } = fetchNetworkRoute(
+      request.origin.lat,
+      request.origin.lng,
+      request.destination.lat,
+      request.destination.lng
+    );
+    return { waypoints, source, weatherZonesAvoided: [] };
+  },
+};
+
+const seaRouteStrategy: RouteStrategy = {
+  id: 'sea-route',
+  name: 'Sea Route',
+  description: 'Datalastic sea route with land correction, falling back to the shipping-lane network',
+  async resolvePath(request) {
+    const { waypoints, source } = await fetchSeaRoute(
+      request.origin.lat,
+      request.origin.lng,
+      request.destination.lat,
+      request.destination.lng
+    );
+    return { waypoints, source, weatherZonesAvoided: [] };
+  },
+};
+
+const weatherStrategy: RouteStrategy = {
+  id: 'weather',
+  name: 'Weather-Aware',
+  description: 'Base route with detours around storms and high seas forecast at the time of passage',
+  async resolvePath(request, planner) {
+    const base = await planner.resolvePath({
+      ...request,
+      strategy: request.baseStrategy ?? DEFAULT_ROUTE_STRATEGY,
+    });
+
+    // Pre-fetched zones are taken as given
+    if (request.weatherZones) {
+      const { waypoints, avoided } = avoidWeatherZones(base.waypoints, request.weatherZones);
+      return {
+        waypoints,
+        source: base.source,
+        weatherZonesAvoided: [...base.weatherZonesAvoided, ...avoided],
+      };
+    }
+
+    return routeWithForecast(base, request);
+  },
+};
+
+const multiStopStrategy: RouteStrategy = {
+  id: 'multi-stop',
+  name: 'Multi-Stop',
+  description: 'Chains base-strategy legs through each stop in order',
+  async resolvePath(request, planner) {
+    const points = [request.origin, ...(request.stops ?? []), request.destination];
+    const waypoints: RouteWaypointInput[] = [];
+    const weatherZonesAvoided: WeatherZone[] = [];
+    const segmentForecasts: SegmentForecast[] = [];
+    const sources: RoutePathSource[] = [];
+    const speed = request.speed ?? resolveVesselProfile(request.vesselType).cruisingSpeed;
+    let legDeparture = request.departureTime ?? new Date();
+
+    for (let i = 0; i < points.length - 1; i++) {
+      const leg = await planner.resolvePath({
+        ...request,
+        origin: points[i],
+        destination: points[i + 1],
+        strategy: request.baseStrategy ?? DEFAULT_ROUTE_STRATEGY,
+        stops: undefined,
+        departureTime: legDeparture,
+      });
+
+      // Each leg departs when the previous one arrives
+      legDeparture = new Date(legDeparture.getTime() + (measurePathNm(leg.waypoints) / speed) * 3600000);
+      if (leg.segmentForecasts) {
+        const offset = Math.max(0, waypoints.length - 1);
+        segmentForecasts.push(...leg.segmentForecasts.map(f => ({ ...f, segmentIndex: f.segmentIndex + offset })));
+      }
+
+      // Leg start duplicates the previous leg's end - keep one, named after the stop
+      const legWaypoints = i === 0 ? leg.waypoints : leg.waypoints.slice(1);
+      waypoints.push(...legWaypoints);
+      if (i < points.length - 2) {
+        waypoints[waypoints.length - 1] = {
+          ...waypoints[waypoints.length - 1],
+          name: points[i + 1].name,
+          type: 'port',
+        };
+      }
+
+      weatherZonesAvoided.push(...leg.weatherZonesAvoided);
+      sources.push(leg.source);
+    }
+
+    const source: RoutePathSource = sources.includes('hybrid')
+      ? 'hybrid'
+      : sources.includes('api') ? 'api' : sources[0] ?? 'network';
+
+    return {
+      waypoints,
+      source,
+      weatherZonesAvoided,
+      segmentForecasts: segmentForecasts.length > 0 ? segmentForecasts : undefined,
+    };
+  },
+};
+
+const BUILT_IN_STRATEGIES: RouteStrategy[] = [
+  directStrategy,
+  networkStrategy,
+  seaRouteStrategy,
+  weatherStrategy,
+  multiStopStrategy,
+];
+
+// ============================================================================
+// Weather Avoidance
+// ============================================================================
+
+const MAX_FORECAST_PASSES = 3;
+
+/**
+ * Time-dependent weather routing
+ *
+ * Each segment is checked against the forecast valid when the vessel is
+ * predicted to pass through it. Detours change the timing of everything after
+ * them, so the path is re-timed and re-checked (isochrone-style) until no new
+ * hazards appear or the pass limit is reached.
+ * Falls back to demo zones if no forecast source is available.
+ */
+async function routeWithForecast(base: RoutePath, request: RoutePlanRequest): Promise<RoutePath> {
+  const departure = request.departureTime ?? new Date();
+  const speed = request.speed ?? resolveVesselProfile(request.vesselType).cruisingSpeed;
+
+  let source: ForecastSource;
+  try {
+    source = request.forecastSource ?? await getForecastSource();
+  } catch (error) {
+    console.warn('[RoutePlanner] Forecast source unavailable, using demo zones:', error);
+    const { waypoints, avoided } = avoidWeatherZones(
+      base.waypoints,
+      generateMockWeatherZones(request.origin, request.destination)
+    );
+    return { waypoints, source: base.source, weatherZonesAvoided: [...base.weatherZonesAvoided, ...avoided] };
+  }
+
+  const toPoints = (path: RouteWaypointInput[]) => path.map(wp => ({ lat: wp.lat, lng: wp.lon }));
+  let waypoints = base.waypoints;
+  let forecasts = await forecastPathSegments(toPoints(waypoints), departure, speed, source);
+  const avoided: WeatherZone[] = [];
+
+  for (let pass = 0; pass < MAX_FORECAST_PASSES; pass++) {
+    // Ignore hazards we already detoured around (their timing shifts between passes)
+    const zones = buildForecastZones(forecasts).filter(zone => !avoided.some(a =>
+      calculateDistanceNm(a.center.lat, a.center.lng, zone.center.lat, zone.center.lng) < a.radiusNm
+    ));
+    if (zones.length === 0) break;
+
+    const result = avoidWeatherZones(waypoints, zones);
+    if (result.avoided.length === 0) break;
+
+    waypoints = result.waypoints;
+    avoided.push(...result.avoided);
+    forecasts = await forecastPathSegments(toPoints(waypoints), departure, speed, source);
+  }
+
+  console.log('[RoutePlanner] Forecast routing:', {
+    source: source.id,
+    departure: departure.toISOString(),
+    segments: forecasts.length,
+    zonesAvoided: avoided.length,
+  });
+
+  return {
+    waypoints,
+    source: base.source,
+    weatherZonesAvoided: [...base.weatherZonesAvoided, ...avoided],
+    segmentForecasts: forecasts,
+  };
+}
+
+/**
+ * Insert a detour waypoint for each avoidable zone that a leg passes through
+ * Zones containing the origin or destination cannot be avoided and are skipped,
+ * as are detours that would cross land
+ */
+function avoidWeatherZones(
+  waypoints: RouteWaypointInput[],
+  zones: WeatherZone[]
+): { waypoints: RouteWaypointInput[]; avoided: WeatherZone[] } {
+  const path = [...waypoints];
+  const avoided: WeatherZone[] = [];
+  const first = path[0];
+  const last = path[path.length - 1];
+
+  const isInside = (wp: RouteWaypointInput, zone: WeatherZone) =>
+    calculateDistanceNm(wp.lat, wp.lon, zone.center.lat, zone.center.lng) <= zone.radiusNm;
+
+  const activeZones = zones
+    .filter(z => z.avoidanceRecommendation !== 'optional')
+    .filter(z => !isInside(first, z) && !isInside(last, z))
+    .sort((a, b) =>
+      calculateDistanceNm(first.lat, first.lon, a.center.lat, a.center.lng) -
+      calculateDistanceNm(first.lat, first.lon, b.center.lat, b.center.lng)
+    );
+
+  for (const zone of activeZones) {
+    for (let i = 0; i < path.length - 1; i++) {
+      const from = { lat: path[i].lat, lng: path[i].lon };
+      const to = { lat: path[i + 1].lat, lng: path[i + 1].lon };
+      if (!doesSegmentIntersectZone(from, to, zone)) continue;
+
+      const [detour] = calculateAvoidanceWaypoints(from, to, zone);
+      const crossesLand =
+        doesSegmentCrossLand(from.lat, from.lng, detour.lat, detour.lng).crosses ||
+        doesSegmentCrossLand(detour.lat, detour.lng, to.lat, to.lng).crosses;
+      if (crossesLand) break;
+
+      path.splice(i + 1, 0, {
+        lat: detour.lat,
+        lon: detour.lng,
+        name: detour.name,
+        note: detour.notes,
+        type: 'avoid',
+      });
+      avoided.push(zone);
+      break;
+    }
+  }
+
+  return { waypoints: path, avoided };
+}
+
+// ============================================================================
+// Regulated Zone Avoidance
+// ============================================================================
+
+/**
+ * Detour around each avoidable zone the path enters while it is in force
+ * Zones containing the origin or destination cannot be avoided and are left
+ * for the caller to report, as are zones whose detours would cross land.
+ */
+function avoidRegulatedZones(
+  waypoints: RouteWaypointInput[],
+  request: RoutePlanRequest,
+  speedKnots: number
+): { waypoints: RouteWaypointInput[]; avoided: string[] } {
+  const path = [...waypoints];
+  const avoided: string[] = [];
+  const options = { departureTime: request.departureTime, speedKnots };
+
+  for (const zone of request.avoidZones ?? []) {
+    const transit = findZoneTransits(path, [zone], options).find(t => t.active);
+    if (!transit) continue;
+
+    // Widen to the nearest waypoints outside the zone
+    const isInside = (wp: RouteWaypointInput) => isPointInPolygon(wp.lat, wp.lon, zone.polygon);
+    let start = transit.legs[0]?.segmentIndex ?? 0;
+    let end = (transit.legs[transit.legs.length - 1]?.segmentIndex ?? start) + 1;
+    while (start > 0 && isInside(path[start])) start--;
+    while (end < path.length - 1 && isInside(path[end])) end++;
+    if (isInside(path[start]) || isInside(path[end])) continue;
+
+    const detour = detourAroundZone(path[start], path[end], zone).find(points => {
+      const legs = [path[start], ...points, path[end]];
+      return legs.every((p, i) => i === 0 ||
+        !doesSegmentCrossLand(legs[i - 1].lat, legs[i - 1].lon, p.lat, p.lon).crosses);
+    });
+    if (!detour) continue;
+
+    path.splice(start + 1, end - start - 1, ...detour.map(p => ({
+      lat: p.lat,
+      lon: p.lon,
+      name: `Avoid ${zone.name}`,
+      note: zone.notes,
+      type: 'avoid' as const,
+    })));
+    avoided.push(zone.id);
+  }
+
+  return { waypoints: path, avoided };
+}
+
+// ============================================================================
+// Under-Keel Clearance
+// ============================================================================
+
+/**
+ * Reroute segments that fail the under-keel clearance check
+ *
+ * Each failing segment is replaced by a network route over lanes charted deep
+ * enough for the draft, provided the replacement itself passes at its time of
+ * passage. Segments are processed from the end so earlier indices stay valid.
+ */
+function rerouteShallowSegments(
+  waypoints: RouteWaypointInput[],
+  request: RoutePlanRequest,
+  speedKnots: number
+): { waypoints: RouteWaypointInput[]; rerouted: number } {
+  const clearance = request.clearance;
+  if (!clearance) return { waypoints, rerouted: 0 };
+
+  const departure = request.departureTime ?? new Date();
+  const options = { ...clearance, departureTime: departure, speedKnots };
+  const report = assessUnderKeelClearance(waypoints, options);
+  if (!report || report.feasible) return { waypoints, rerouted: 0 };
+
+  const minDepth = clearance.draftMeters + requiredClearance(clearance.draftMeters, clearance.minClearanceMeters);
+  const failing = [...new Set(report.violations.map(v => v.segmentIndex))].sort((a, b) => b - a);
+  const path = [...waypoints];
+  let rerouted = 0;
+
+  for (const index of failing) {
+    const from = path[index];
+    const to = path[index + 1];
+    const detour = fetchDepthConstrainedRoute(from.lat, from.lon, to.lat, to.lon, minDepth);
+    if (!detour) continue;
+
+    const legDeparture = new Date(
+      departure.getTime() + (measurePathNm(path.slice(0, index + 1)) / speedKnots) * 3600000
+    );
+    const check = assessUnderKeelClearance(detour.waypoints, { ...options, departureTime: legDeparture });
+    if (!check?.feasible) continue;
+
+    path.splice(index + 1, 0, ...detour.waypoints.slice(1, -1));
+    rerouted++;
+  }
+
+  return { waypoints: path, rerouted };
+}
+
+/**
+ * Total length of a path in nautical miles
+ */
+export function measurePathNm(waypoints: RouteWaypointInput[]): number {
+  let total = 0;
+  for (let i = 0; i < waypoints.length - 1; i++) {
+    total += calculateDistanceNm(
+      waypoints[i].lat, waypoints[i].lon,
+      waypoints[i + 1].lat, waypoints[i + 1].lon
+    );
+  }
+  return total;
+}
+
+// ============================================================================
+// Planner
+// ============================================================================
+
+export class RoutePlanner {
+  private strategies = new Map<RouteStrategyId, RouteStrategy>();
+
+  constructor(strategies: RouteStrategy[] = BUILT_IN_STRATEGIES) {
+    strategies.forEach(strategy => this.register(strategy));
+  }
+
+  /**
+   * Register (or replace) a strategy plugin
+   */
+  register(strategy: RouteStrategy): void {
+    this.strategies.set(strategy.id, strategy);
+  }
+
+  getStrategies(): RouteStrategy[] {
+    return Array.from(this.strategies.values());
+  }
+
+  hasStrategy(id: string): id is RouteStrategyId {
+    return this.strategies.has(id as RouteStrategyId);
+  }
+
+  /**
+   * Resolve route geometry with the requested strategy
+   */
+  async resolvePath(request: RoutePlanRequest): Promise<RoutePath> {
+    const strategyId = request.strategy ?? DEFAULT_ROUTE_STRATEGY;
+    const strategy = this.strategies.get(strategyId);
+    if (!strategy) {
+      throw new Error(`Unknown route strategy: ${strategyId}`);
+    }
+    return strategy.resolvePath(request, this);
+  }
+
+  /**
+   * Plan a complete route with metrics
+   */
+  async plan(request: RoutePlanRequest): Promise<PlannedRoute> {
+    const strategy = request.strategy ?? DEFAULT_ROUTE_STRATEGY;
+    const speed = request.speed ?? resolveVesselProfile(request.vesselType).cruisingSpeed;
+    const { path, rerouted, zonesAvoided } = await this.resolveConstrainedPath(request, speed);
+
+    const route = buildRoute(
+      request.vesselId,
+      request.vesselName,
+      request.vesselType,
+      path.waypoints,
+      request.origin,
+      request.destination,
+      { speed: request.speed, routeId: request.routeId, routeName: request.routeName }
+    );
+    route.clearance = this.checkClearance(path.waypoints, request, speed, rerouted);
+    route.zonesAvoided = zonesAvoided;
+
+    return {
+      route,
+      strategy,
+      source: path.source,
+      weatherZonesAvoided: path.weatherZonesAvoided,
+      segmentForecasts: path.segmentForecasts,
+      clearance: route.clearance,
+    };
+  }
+
+  /**
+   * Plan one geometry at three speed profiles
+   * The path is resolved once so all alternatives share the same distance
+   */
+  async planAlternatives(
+    request: RoutePlanRequest
+  ): Promise<{ fastest: Route; economical: Route; balanced: Route }> {
+    const profile = resolveVesselProfile(request.vesselType);
+    const { path, rerouted, zonesAvoided } = await this.resolveConstrainedPath(
+      request,
+      request.speed ?? profile.cruisingSpeed
+    );
+
+    // Tide at each point depends on when it is reached, so clearance is checked per speed
+    const build = (speed: number, routeName: string) => {
+      const route = buildRoute(
+        request.vesselId,
+        request.vesselName,
+        request.vesselType,
+        path.waypoints,
+        request.origin,
+        request.destination,
+        { speed, routeName }
+      );
+      route.clearance = this.checkClearance(path.waypoints, request, speed, rerouted);
+      route.zonesAvoided = zonesAvoided;
+      return route;
+    };
+
+    return {
+      // Fastest: max speed
+      fastest: build(profile.maxSpeed, 'Fastest Route'),
+      // Economical: 70% of cruising speed for best fuel efficiency
+      economical: build(profile.cruisingSpeed * 0.7, 'Most Economical Route'),
+      // Balanced: normal (or requested) cruising speed
+      balanced: build(request.speed ?? profile.cruisingSpeed, 'Balanced Route'),
+    };
+  }
+
+  /**
+   * Resolve geometry, then detour around regulated zones and reroute shallow
+   * segments when the request asks for them
+   */
+  private async resolveConstrainedPath(
+    request: RoutePlanRequest,
+    speedKnots: number
+  ): Promise<{ path: RoutePath; rerouted: number; zonesAvoided?: string[] }> {
+    const path = await this.resolvePath(request);
+    if (!request.clearance && !request.avoidZones?.length) return { path, rerouted: 0 };
+
+    const zoneResult = avoidRegulatedZones(path.waypoints, request, speedKnots);
+    const { waypoints, rerouted } = rerouteShallowSegments(zoneResult.waypoints, request, speedKnots);
+    const zonesAvoided = request.avoidZones ? zoneResult.avoided : undefined;
+    if (zoneResult.avoided.length === 0 && rerouted === 0) return { path, rerouted, zonesAvoided };
+
+    if (zoneResult.avoided.length > 0) {
+      console.log('[RoutePlanner] Detoured around zones:', zoneResult.avoided.join(', '));
+    }
+    if (rerouted > 0) {
+      console.log('[RoutePlanner] Rerouted', rerouted, 'segment(s) for under-keel clearance');
+    }
+    // Segment indices have shifted, so per-segment forecasts no longer line up
+    return { path: { ...path, waypoints, segmentForecasts: undefined }, rerouted, zonesAvoided };
+  }
+
+  /**
+   * Final under-keel clearance report for a path
+   * Throws in strict mode if any segment is still below the required clearance
+   */
+  private checkClearance(
+    waypoints: RouteWaypointInput[],
+    request: RoutePlanRequest,
+    speedKnots: number,
+    rerouted: number
+  ): ClearanceReport | undefined {
+    if (!request.clearance) return undefined;
+
+    const report = assessUnderKeelClearance(waypoints, {
+      ...request.clearance,
+      departureTime: request.departureTime,
+      speedKnots,
+    });
+    if (!report) {
+      console.warn('[RoutePlanner] No bathymetry loaded - under-keel clearance not checked');
+      return undefined;
+    }
+
+    report.reroutedSegments = rerouted;
+    if (!report.feasible && request.clearance.strict && report.tightest) {
+      const { lat, lng, clearance } = report.tightest;
+      throw new Error(
+        `Insufficient under-keel clearance: ${clearance.toFixed(1)}m at ${lat.toFixed(3)}, ${lng.toFixed(3)} ` +
+        `(${report.requiredClearance.toFixed(1)}m required for ${report.draftMeters}m draft)`
+      );
+    }
+    return report;
+  }
+}
+
+/**
+ * Shared planner instance used by the route APIs
+ */
+export const routePlanner = new RoutePlanner();
+
+// ============================================================================
+// Adapters
+// ============================================================================
+
+/**
+ * Convert a planned route to the voyage comparison format used by
+ * RouteOptimizationPanel / RouteComparisonMap
+ */
+export function toVoyageRoute(
+  route: Route,
+  routeType: VoyageRoute['routeType']
+): VoyageRoute {
+  const points = [route.origin, ...route.waypoints, route.destination];
+  let cumulativeDistance = 0;
+
+  const waypoints: VoyageWaypoint[] = points.map((wp, index) => {
+    const distanceFromPrevious = index === 0 ? 0 : route.segments[index - 1]?.distance ?? 0;
+    cumulativeDistance += distanceFromPrevious;
+
+    let type: VoyageWaypoint['type'] = 'waypoint';
+    if (index === 0) type = 'origin';
+    else if (index === points.length - 1) type = 'destination';
+    else if (wp.type === 'avoid') type = 'weather_avoidance';
+
+    return {
+      id: wp.id,
+      lat: wp.lat,
+      lng: wp.lng,
+      name: wp.name,
+      type,
+      distanceFromPrevious,
+      cumulativeDistance,
+      notes: wp.notes,
+    };
+  });
+
+  return {
+    id: route.id,
+    vesselId: route.vesselId,
+    vesselName: route.vesselName,
+    origin: waypoints[0],
+    destination: waypoints[waypoints.length - 1],
+    waypoints,
+    totalDistanceNm: route.totalDistance,
+    estimatedDurationHours: route.estimatedTime,
+    estimatedFuelLiters: route.fuelConsumption,
+    estimatedCostUSD: route.cost,
+    createdAt: route.createdAt,
+    routeType,
+  };
+}
@@ -7,20 +7,26 @@
  * - Ocean current and wind effects
  * - Virtual arrival for port delays
  * - ETA window optimization (just-in-time arrival)
- * - Emission Control Area (ECA) compliance
+ * - Emission Control Area (ECA) compliance and regulated zones (see zones.ts):
+ *   no-entry zones are detoured around, speed limits slow the segments inside
+ *   them, and fuel switches add the fuel premium and changeover time
  * - Dynamic speed adjustment per segment
+ * - Under-keel clearance at the current draft (bathymetry + tide)
  */
 
-import { Route, RouteSegment, Waypoint, WeatherPoint } from './types';
-import { 
-  generateRoute, 
-  VESSEL_PROFILES, 
-  VesselProfile, 
-  fetchSeaRoute,
-  getRouteWeatherForecast,
-  assessWeatherRisk 
-} from './engine';
-import { calculateDistanceNm, calculateBearing } from '@/lib/datalastic';
+import { Route, RouteSegment, WeatherPoint } from './types';
+import { resolveVesselProfile, VesselProfile } from './engine';
+import { PlanPoint, routePlanner, RouteStrategyId } from './planner';
+import {
+  findRule,
+  findZoneTransits,
+  fuelPricePerLiter,
+  ZoneRule,
+  ZoneTransit,
+  zoneRegistry,
+} from './zones';
+import { FUEL_SPECIFICATIONS, FuelType } from '@/lib/types/maritime';
+import { calculateDistanceNm, calculateBearing } from '@/lib/geodesy';
 import { getWeatherAtLocation } from '@/lib/weather';
 
 // ============================================================================
@@ -33,6 +39,9 @@ export interface SmartOptimizationRequest {
   vesselType: string;
   origin: { lat: number; lng: number; name?: string };
   destination: { lat: number; lng: number; name?: string };
+  strategy?: RouteStrategyId; // Planner strategy for the base route geometry
+  baseStrategy?: RouteStrategyId; // Leg geometry under multi-stop (e.g. 'direct' to keep imported waypoints)
+  stops?: PlanPoint[];            // multi-stop: visited in the given order
   
   // Timing constraints
   departureTime?: Date;
@@ -58,6 +67,7 @@ export interface SmartOptimizationRequest {
     maxFuel: number;        // Tank capacity
     cargoLoad: number;      // Percentage (0-100)
     draftMeters: number;    // Current draft
+    fuelType?: FuelType;    // Fuel burned outside regulated zones (default VLSFO)
   };
   
   // Port conditions (for Virtual Arrival)
@@ -100,6 +110,12 @@ export interface SmartOptimizationResult {
     costSaved: number;
     weatherRiskScore: number;
     comfortScore: number;   // 0-100
+    zoneCompliance: {
+      fuelSwitchLiters: number;     // Fuel burned on the switched grade
+      fuelSwitchCost: number;       // Premium over the normal grade (USD)
+      changeoverHours: number;      // Fuel changeover time added to the ETA
+      speedLimitDelayHours: number; // Time lost to zone speed limits
+    };
   };
   
   // Timing analysis
@@ -125,6 +141,13 @@ export interface SmartOptimizationResult {
     windEffect: number;         // Knots gained/lost from wind
   };
   
+  // Regulated zones
+  zones: {
+    entered: ZoneTransit[];  // Zones in force when the route passes through them
+    avoided: string[];       // Zone ids the route was detoured around
+    violations: ZoneViolation[];
+  };
+  
   // Recommendations
   recommendations: Array<{
     type: 'speed' | 'timing' | 'route' | 'fuel' | 'safety';
@@ -147,6 +170,13 @@ export interface SmartOptimizationResult {
   }>;
 }
 
+export interface ZoneViolation {
+  zoneId: string;
+  zoneName: string;
+  rule: ZoneRule['type'];
+  description: string;
+}
+
 // ============================================================================
 // Speed-Fuel Models (Cubic Relationship)
 // ============================================================================
@@ -166,6 +196,18 @@ interface FuelModel {
   maxSpeed: number;
 }
 
+/**
+ * Fuel model for a vessel profile (slowest economical speed is 50% of cruising)
+ */
+function createFuelModel(vesselProfile: VesselProfile): FuelModel {
+  return {
+    baseSpeed: vesselProfile.cruisingSpeed,
+    baseFuelRate: vesselProfile.fuelConsumptionRate,
+    minSpeed: vesselProfile.cruisingSpeed * 0.5,
+    maxSpeed: vesselProfile.maxSpeed,
+  };
+}
+
 /**
  * Calculate fuel consumption rate at any speed using cubic model
  * Real ships follow approximately P ∝ V³ (power to speed cube)
@@ -572,6 +614,31 @@ function optimizeSegmentSpeed(
   };
 }
 
+// ============================================================================
+// Regulated Zones
+// ============================================================================
+
+const DEFAULT_CHANGEOVER_HOURS = 1;
+
+/**
+ * Lowest speed limit applying to a segment and how far the segment runs under it
+ */
+function getSegmentSpeedLimit(
+  transits: ZoneTransit[],
+  segmentIndex: number
+): { knots: number; distanceNm: number; zoneName: string } | undefined {
+  let limit: { knots: number; distanceNm: number; zoneName: string } | undefined;
+  for (const transit of transits) {
+    const rule = findRule(transit.rules, 'max_speed');
+    const leg = transit.legs.find(l => l.segmentIndex === segmentIndex);
+    if (!rule || !leg) continue;
+    if (!limit || rule.knots < limit.knots) {
+      limit = { knots: rule.knots, distanceNm: leg.distanceNm, zoneName: transit.zoneName };
+    }
+  }
+  return limit;
+}
+
 // ============================================================================
 // Main Smart Optimizer
 // ============================================================================
@@ -582,28 +649,41 @@ function optimizeSegmentSpeed(
 export async function smartOptimizeRoute(
   request: SmartOptimizationRequest
 ): Promise<SmartOptimizationResult> {
-  const vesselProfile = VESSEL_PROFILES[request.vesselType] || VESSEL_PROFILES.default;
+  const vesselProfile = resolveVesselProfile(request.vesselType);
   
   // Create fuel model from vessel profile
-  const fuelModel: FuelModel = {
-    baseSpeed: vesselProfile.cruisingSpeed,
-    baseFuelRate: vesselProfile.fuelConsumptionRate,
-    minSpeed: vesselProfile.cruisingSpeed * 0.5, // Minimum 50% of cruising
-    maxSpeed: vesselProfile.maxSpeed,
-  };
-  
-  // Generate base route
-  const baseRoute = await generateRoute(
-    request.vesselId,
-    request.vesselName,
-    request.vesselType,
-    request.origin,
-    request.destination
-  );
+  const fuelModel = createFuelModel(vesselProfile);
+  
+  // Plan base route (fastest and most economical alternatives share its geometry)
+  const { fastest: fastRoute, economical: econRoute, balanced: baseRoute } = await routePlanner.planAlternatives({
+    vesselId: request.vesselId,
+    vesselName: request.vesselName,
+    vesselType: request.vesselType,
+    origin: request.origin,
+    destination: request.destination,
+    strategy: request.strategy,
+    baseStrategy: request.baseStrategy,
+    stops: request.stops,
+    departureTime: request.departureTime,
+    clearance: request.vesselState ? { draftMeters: request.vesselState.draftMeters } : undefined,
+    avoidZones: zoneRegistry.list().filter(zone =>
+      findRule(zone.rules, 'no_entry') || (request.preferences?.avoidECA && zone.kind === 'eca')
+    ),
+  });
   
   // Calculate departure time
   const departureTime = request.departureTime || new Date();
   
+  // Zones the route still passes through while they are in force
+  const routePoints = [
+    baseRoute.segments[0]?.from ?? baseRoute.origin,
+    ...baseRoute.segments.map(segment => segment.to),
+  ].map(point => ({ lat: point.lat, lon: point.lng }));
+  const zoneTransits = findZoneTransits(routePoints, zoneRegistry.list(), {
+    departureTime,
+    speedKnots: vesselProfile.cruisingSpeed,
+  }).filter(transit => transit.active);
+  
   // Calculate time constraint if arrival window specified
   let totalAvailableTime: number | undefined;
   if (request.arrivalWindow) {
@@ -618,6 +698,8 @@ export async function smartOptimizeRoute(
   let totalAdjustedFuel = 0;
   let totalWindEffect = 0;
   let totalCurrentEffect = 0;
+  let speedLimitDelay = 0;
+  const segmentFuelPerNm: number[] = [];
   
   for (let i = 0; i < baseRoute.segments.length; i++) {
     const segment = baseRoute.segments[i];
@@ -647,12 +729,28 @@ export async function smartOptimizeRoute(
     
     // Calculate effective speed (vessel speed + environmental effects)
     const effectiveSpeed = profile.recommendedSpeed + currentEffect;
-    const segmentTime = segment.distance / effectiveSpeed;
-    cumulativeTime += segmentTime;
+    let segmentTime = segment.distance / effectiveSpeed;
     
     // Calculate adjusted fuel consumption
-    const segmentFuel = profile.adjustedFuelRate * segment.distance;
+    let segmentFuel = profile.adjustedFuelRate * segment.distance;
+    
+    // Zone speed limits only apply to the part of the segment inside the zone
+    const speedLimit = getSegmentSpeedLimit(zoneTransits, i);
+    if (speedLimit && profile.recommendedSpeed > speedLimit.knots) {
+      const limitedNm = Math.min(speedLimit.distanceNm, segment.distance);
+      const limitedTime = limitedNm / Math.max(0.5, speedLimit.knots + currentEffect);
+      const openTime = (segment.distance - limitedNm) / effectiveSpeed;
+      const limitedFuelRate = calculateFuelRateAtSpeed(speedLimit.knots, fuelModel) * (profile.adjustedFuelRate / profile.fuelRate);
+      
+      speedLimitDelay += limitedTime + openTime - segmentTime;
+      segmentTime = limitedTime + openTime;
+      segmentFuel = profile.adjustedFuelRate * (segment.distance - limitedNm) + limitedFuelRate * limitedNm;
+      profile.reason += `; limited to ${speedLimit.knots} kn in ${speedLimit.zoneName}`;
+    }
+    
+    cumulativeTime += segmentTime;
     totalAdjustedFuel += segmentFuel;
+    segmentFuelPerNm[i] = segment.distance > 0 ? segmentFuel / segment.distance : 0;
     
     // Create optimized segment
     optimizedSegments.push({
@@ -662,6 +760,22 @@ export async function smartOptimizeRoute(
     });
   }
   
+  // Fuel switches: premium grade burned inside the zone plus changeover time
+  const normalFuel = request.vesselState?.fuelType ?? 'VLSFO';
+  let fuelSwitchLiters = 0;
+  let fuelSwitchCost = 0;
+  let changeoverHours = 0;
+  for (const transit of zoneTransits) {
+    const rule = findRule(transit.rules, 'fuel_switch');
+    if (!rule || FUEL_SPECIFICATIONS[normalFuel].sulfurContent <= FUEL_SPECIFICATIONS[rule.fuel].sulfurContent) continue;
+    
+    const liters = transit.legs.reduce((sum, leg) => sum + leg.distanceNm * (segmentFuelPerNm[leg.segmentIndex] ?? 0), 0);
+    fuelSwitchLiters += liters;
+    fuelSwitchCost += liters * Math.max(0, fuelPricePerLiter(rule.fuel) - fuelPricePerLiter(normalFuel));
+    changeoverHours += rule.changeoverHours ?? DEFAULT_CHANGEOVER_HOURS;
+  }
+  cumulativeTime += changeoverHours;
+  
   // Create optimized route
   const optimizedRoute: Route = {
     ...baseRoute,
@@ -673,7 +787,7 @@ export async function smartOptimizeRoute(
       nox: totalAdjustedFuel * vesselProfile.emissionFactors.noxPerLiter,
       sox: totalAdjustedFuel * vesselProfile.emissionFactors.soxPerLiter,
     },
-    cost: totalAdjustedFuel * vesselProfile.fuelCostPerLiter,
+    cost: totalAdjustedFuel * vesselProfile.fuelCostPerLiter + fuelSwitchCost,
   };
   
   // Calculate estimated arrival
@@ -736,6 +850,77 @@ export async function smartOptimizeRoute(
     });
   }
   
+  // Under-keel clearance
+  const clearance = baseRoute.clearance;
+  if (clearance?.tightest) {
+    const { tightest } = clearance;
+    const where = `${tightest.lat.toFixed(3)}, ${tightest.lng.toFixed(3)}`;
+    if (!clearance.feasible) {
+      recommendations.push({
+        type: 'safety',
+        priority: 'high',
+        title: 'Insufficient Under-Keel Clearance',
+        description: `${clearance.violations.length} segment(s) below the ${clearance.requiredClearance.toFixed(1)}m minimum at ${clearance.draftMeters}m draft; tightest ${tightest.clearance.toFixed(1)}m at ${where}. Reduce draft or wait for higher tide.`,
+      });
+    } else if (tightest.clearance < clearance.requiredClearance * 2) {
+      recommendations.push({
+        type: 'safety',
+        priority: 'medium',
+        title: 'Limited Under-Keel Clearance',
+        description: `Tightest clearance ${tightest.clearance.toFixed(1)}m at ${where} around ${tightest.time.toISOString().slice(11, 16)} UTC${clearance.reroutedSegments > 0 ? ` after rerouting ${clearance.reroutedSegments} shallow segment(s)` : ''}`,
+      });
+    }
+  }
+  
+  // Regulated zones
+  const zoneViolations: ZoneViolation[] = zoneTransits
+    .filter(transit => findRule(transit.rules, 'no_entry'))
+    .map(transit => ({
+      zoneId: transit.zoneId,
+      zoneName: transit.zoneName,
+      rule: 'no_entry' as const,
+      description: `Route enters ${transit.zoneName} at ${transit.entry.time.toISOString().slice(0, 16)}Z while it is closed - no detour clear of land was found`,
+    }));
+  
+  for (const violation of zoneViolations) {
+    recommendations.push({
+      type: 'route',
+      priority: 'high',
+      title: 'Restricted Zone Entered',
+      description: violation.description,
+    });
+  }
+  
+  if (fuelSwitchLiters > 0) {
+    const switched = zoneTransits.filter(transit => findRule(transit.rules, 'fuel_switch'));
+    recommendations.push({
+      type: 'fuel',
+      priority: 'medium',
+      title: 'Fuel Switch Required',
+      description: `Change over to low-sulphur fuel before entering ${switched.map(t => t.zoneName).join(', ')} (${fuelSwitchLiters.toFixed(0)} L, $${fuelSwitchCost.toFixed(0)} premium, ${changeoverHours.toFixed(1)}h changeover)`,
+    });
+  }
+  
+  if (request.preferences?.avoidECA && zoneTransits.some(transit => transit.kind === 'eca')) {
+    recommendations.push({
+      type: 'route',
+      priority: 'low',
+      title: 'ECA Unavoidable',
+      description: 'Origin or destination lies inside an emission control area, or no detour clear of land exists',
+    });
+  }
+  
+  const destinationZones = zoneRegistry.zonesAt(request.destination.lat, request.destination.lng, estimatedArrival);
+  const noAnchoring = destinationZones.find(zone => findRule(zone.rules, 'no_anchoring'));
+  if (noAnchoring && request.portConditions && !request.portConditions.berthAvailable) {
+    recommendations.push({
+      type: 'timing',
+      priority: 'high',
+      title: 'No Anchoring at Destination',
+      description: `Anchoring is prohibited in ${noAnchoring.name}; adjust speed to arrive when the berth is ready`,
+    });
+  }
+  
   // Current/wind insights
   if (Math.abs(totalCurrentEffect) > baseRoute.segments.length * 0.5) {
     const effect = totalCurrentEffect > 0 ? 'favorable' : 'unfavorable';
@@ -755,14 +940,6 @@ export async function smartOptimizeRoute(
   const alternatives: SmartOptimizationResult['alternatives'] = [];
   
   // Fast alternative
-  const fastRoute = await generateRoute(
-    request.vesselId,
-    request.vesselName,
-    request.vesselType,
-    request.origin,
-    request.destination,
-    { speed: vesselProfile.maxSpeed, routeName: 'Fastest Route' }
-  );
   alternatives.push({
     name: 'Fastest Route',
     route: fastRoute,
@@ -775,14 +952,6 @@ export async function smartOptimizeRoute(
   });
   
   // Economical alternative  
-  const econRoute = await generateRoute(
-    request.vesselId,
-    request.vesselName,
-    request.vesselType,
-    request.origin,
-    request.destination,
-    { speed: vesselProfile.cruisingSpeed * 0.65, routeName: 'Most Economical' }
-  );
   alternatives.push({
     name: 'Most Economical',
     route: econRoute,
@@ -810,6 +979,12 @@ export async function smartOptimizeRoute(
       costSaved: Math.max(0, (naiveFuel - totalAdjustedFuel) * vesselProfile.fuelCostPerLiter),
       weatherRiskScore: avgWeatherRisk,
       comfortScore,
+      zoneCompliance: {
+        fuelSwitchLiters,
+        fuelSwitchCost,
+        changeoverHours,
+        speedLimitDelayHours: speedLimitDelay,
+      },
     },
     timing: {
       departureTime,
@@ -834,6 +1009,11 @@ export async function smartOptimizeRoute(
       currentAssist: totalCurrentEffect / baseRoute.segments.length,
       windEffect: totalWindEffect / baseRoute.segments.length,
     },
+    zones: {
+      entered: zoneTransits,
+      avoided: baseRoute.zonesAvoided ?? [],
+      violations: zoneViolations,
+    },
     recommendations,
     alternatives,
   };
@@ -845,6 +1025,7 @@ export async function smartOptimizeRoute(
 
 // Export functions
 export {
+  createFuelModel,
   calculateFuelRateAtSpeed,
   findOptimalSpeed,
   calculateWindEffect,
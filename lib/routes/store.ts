@@ -0,0 +1,250 @@
+/**
+ * Route Store - Saved route plans
+ *
+ * Persists planned routes to the Supabase `routes` table, or to memory when
+ * Supabase is not configured. Used by the routes API and voyage monitoring.
+ */
+
+import { supabase, isSupabaseConfigured } from '@/lib/supabase';
+import { Route } from './types';
+
+// Type assertion helper for routes table (not in generated types yet)
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const routesTable = () => supabase.from('routes' as any);
+
+// In-memory storage for routes when Supabase is not configured
+const inMemoryRoutes: Map<string, Route> = new Map();
+
+export const routeStoreSource: 'supabase' | 'memory' = isSupabaseConfigured ? 'supabase' : 'memory';
+
+// ============================================================================
+// Row Conversion
+// ============================================================================
+
+interface RouteRow {
+  id: string;
+  vessel_id: string;
+  name: string;
+  origin: Route['origin'];
+  destination: Route['destination'];
+  waypoints: Route['waypoints'];
+  segments: Route['segments'];
+  total_distance: number;
+  estimated_time: number;
+  fuel_consumption: number;
+  emissions: Route['emissions'];
+  average_speed: number;
+  weather_risk: number;
+  cost: number;
+  status: Route['status'];
+  created_at: string | Date;
+  vessel_name?: string | null;
+}
+
+function toRouteRow(route: Route): RouteRow {
+  return {
+    id: route.id,
+    vessel_id: route.vesselId,
+    name: route.name,
+    origin: route.origin,
+    destination: route.destination,
+    waypoints: route.waypoints,
+    segments: route.segments,
+    total_distance: route.totalDistance,
+    estimated_time: route.estimatedTime,
+    fuel_consumption: route.fuelConsumption,
+    emissions: route.emissions,
+    average_speed: route.averageSpeed,
+    weather_risk: route.weatherRisk,
+    cost: route.cost,
+    status: route.status,
+    created_at: route.createdAt,
+  };
+}
+
+function fromRouteRow(row: RouteRow): Route {
+  return {
+    id: row.id,
+    name: row.name,
+    vesselId: row.vessel_id,
+    vesselName: row.vessel_name ?? '',
+    origin: row.origin,
+    destination: row.destination,
+    waypoints: row.waypoints ?? [],
+    segments: row.segments ?? [],
+    totalDistance: row.total_distance,
+    estimatedTime: row.estimated_time,
+    fuelConsumption: row.fuel_consumption,
+    emissions: row.emissions,
+    averageSpeed: row.average_speed,
+    weatherRisk: row.weather_risk,
+    cost: row.cost,
+    createdAt: new Date(row.created_at),
+    status: row.status,
+  };
+}
+
+// Update fields that map onto table columns
+const UPDATE_COLUMNS: Partial<Record<keyof Route, keyof RouteRow>> = {
+  name: 'name',
+  status: 'status',
+  waypoints: 'waypoints',
+  segments: 'segments',
+  totalDistance: 'total_distance',
+  estimatedTime: 'estimated_time',
+  fuelConsumption: 'fuel_consumption',
+  emissions: 'emissions',
+  weatherRisk: 'weather_risk',
+  cost: 'cost',
+};
+
+// ============================================================================
+// Store Operations
+// ============================================================================
+
+/**
+ * List saved routes, newest first
+ */
+export async function listRoutes(filters: { vesselId?: string; status?: string } = {}): Promise<Route[]> {
+  if (isSupabaseConfigured) {
+    let query = routesTable()
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (filters.vesselId) {
+      query = query.eq('vessel_id', filters.vesselId);
+    }
+
+    if (filters.status) {
+      query = query.eq('status', filters.status);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error fetching routes:', error);
+      throw error;
+    }
+
+    return ((data || []) as unknown as RouteRow[]).map(fromRouteRow);
+  }
+
+  let routes = Array.from(inMemoryRoutes.values());
+
+  if (filters.vesselId) {
+    routes = routes.filter(r => r.vesselId === filters.vesselId);
+  }
+
+  if (filters.status) {
+    routes = routes.filter(r => r.status === filters.status);
+  }
+
+  return routes.sort((a, b) =>
+    new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+  );
+}
+
+/**
+ * Get a saved route, or null if it doesn't exist
+ */
+export async function getRoute(routeId: string): Promise<Route | null> {
+  if (isSupabaseConfigured) {
+    const { data, error } = await routesTable()
+      .select('*')
+      .eq('id', routeId)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') return null;
+      throw error;
+    }
+
+    return fromRouteRow(data as unknown as RouteRow);
+  }
+
+  return inMemoryRoutes.get(routeId) ?? null;
+}
+
+/**
+ * Save a new route (ID, timestamp and status are filled in if missing)
+ */
+export async function saveRoute(route: Route): Promise<Route> {
+  const routeToSave: Route = {
+    ...route,
+    id: route.id || `route-${Date.now()}`,
+    createdAt: route.createdAt || new Date(),
+    status: route.status || 'planned',
+  };
+
+  if (isSupabaseConfigured) {
+    const { data, error } = await routesTable()
+      .insert(toRouteRow(routeToSave))
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating route:', error);
+      throw error;
+    }
+
+    return fromRouteRow(data as unknown as RouteRow);
+  }
+
+  inMemoryRoutes.set(routeToSave.id, routeToSave);
+  return routeToSave;
+}
+
+/**
+ * Update a saved route, or return null if it doesn't exist
+ */
+export async function updateRoute(routeId: string, updates: Partial<Route>): Promise<Route | null> {
+  if (isSupabaseConfigured) {
+    const dbUpdates: Record<string, unknown> = {
+      updated_at: new Date().toISOString(),
+    };
+    for (const [field, column] of Object.entries(UPDATE_COLUMNS)) {
+      const value = updates[field as keyof Route];
+      if (value !== undefined && column) dbUpdates[column] = value;
+    }
+
+    const { data, error } = await routesTable()
+      .update(dbUpdates)
+      .eq('id', routeId)
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') return null;
+      throw error;
+    }
+
+    return fromRouteRow(data as unknown as RouteRow);
+  }
+
+  const existingRoute = inMemoryRoutes.get(routeId);
+  if (!existingRoute) return null;
+
+  const updatedRoute = { ...existingRoute, ...updates };
+  inMemoryRoutes.set(routeId, updatedRoute);
+  return updatedRoute;
+}
+
+/**
+ * Delete a saved route; returns false if it didn't exist (memory store only)
+ */
+export async function deleteRoute(routeId: string): Promise<boolean> {
+  if (isSupabaseConfigured) {
+    const { error } = await routesTable()
+      .delete()
+      .eq('id', routeId);
+
+    if (error) {
+      throw error;
+    }
+    return true;
+  }
+
+  const existed = inMemoryRoutes.has(routeId);
+  inMemoryRoutes.delete(routeId);
+  return existed;
+}
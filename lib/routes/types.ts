@@ -1,11 +1,14 @@
 // Route Optimization Types
 
+import { LegType } from '@/lib/geodesy';
+
 export interface Waypoint {
   id: string;
   name: string;
   lat: number;
   lng: number;
   type: 'origin' | 'destination' | 'waypoint' | 'port' | 'avoid';
+  notes?: string;
 }
 
 export interface RouteSegment {
@@ -16,6 +19,7 @@ export interface RouteSegment {
   estimatedTime: number; // hours
   fuelConsumption: number; // liters
   weatherRisk: number; // 0-100
+  legType?: LegType; // Great circle when absent
 }
 
 export interface Route {
@@ -40,6 +44,29 @@ export interface Route {
   cost: number;
   createdAt: Date;
   status: 'planned' | 'active' | 'completed';
+  clearance?: ClearanceReport; // Under-keel clearance, when planned with a draft
+  zonesAvoided?: string[];     // Regulated zone ids detoured around
+}
+
+export interface ClearancePoint {
+  lat: number;
+  lng: number;
+  segmentIndex: number;
+  time: Date;           // Predicted time of passage
+  chartedDepth: number; // metres below chart datum
+  tideHeight: number;   // metres above chart datum
+  clearance: number;    // metres under the keel (depth + tide - draft)
+}
+
+export interface ClearanceReport {
+  draftMeters: number;
+  requiredClearance: number; // metres
+  tideModel: string;
+  bathymetryVersion: string;
+  tightest: ClearancePoint | null; // Lowest clearance anywhere on the route
+  violations: ClearancePoint[];    // Worst point of each segment below the requirement
+  reroutedSegments: number;
+  feasible: boolean;
 }
 
 export interface RouteOptimizationRequest {
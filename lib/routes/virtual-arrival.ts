@@ -0,0 +1,399 @@
+/**
+ * Virtual Arrival - Just-in-time speed plans against an agreed berth slot
+ *
+ * Instead of steaming at service speed and waiting at anchor, the vessel
+ * slows down to arrive when the berth is ready. A plan records the agreed
+ * slot and every slot change posted by the port; each change re-plans the
+ * remaining distance from the vessel's position at that moment.
+ *
+ * Savings are reported against the "full speed then anchor wait" baseline:
+ * the whole voyage at service (cruising) speed from the original departure,
+ * then waiting at anchor until the currently agreed berth time.
+ */
+
+import { projectOntoRoute, resolveVesselProfile, VesselProfile } from './engine';
+import { PlanPoint, routePlanner, RouteStrategyId } from './planner';
+import { calculateFuelRateAtSpeed, createFuelModel } from './smart-optimizer';
+import { Route } from './types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface BerthSlot {
+  berthTime: Date;
+  postedAt: Date;               // When the port posted or confirmed the slot
+  source: 'initial' | 'port_update';
+  reference?: string;           // Port call / slot reference
+  notes?: string;
+}
+
+export interface SpeedPlanLeg {
+  segmentIndex: number;         // Route segment this leg runs along
+  from: { lat: number; lng: number; name?: string };
+  to: { lat: number; lng: number; name?: string };
+  distanceNm: number;
+  speedKnots: number;
+  startTime: Date;
+  endTime: Date;
+  fuelLiters: number;
+}
+
+export interface ArrivalScenario {
+  averageSpeedKnots: number;    // Underway, from departure
+  arrivalTime: Date;            // Time alongside the berth approach
+  anchorWaitHours: number;
+  fuelLiters: number;           // Underway plus at anchor, whole voyage
+  co2Kg: number;
+}
+
+export interface VirtualArrivalPlan {
+  id: string;
+  vesselId: string;
+  vesselName: string;
+  vesselType: string;
+  route: Route;
+  departureTime: Date;
+  agreedSlot: BerthSlot;
+  slotHistory: BerthSlot[];     // Oldest first, including the agreed slot
+  speedPlan: SpeedPlanLeg[];    // Remaining voyage from the last re-plan
+  progress: {
+    asOf: Date;                 // Time of the last re-plan
+    distanceCompletedNm: number;
+    fuelUsedLiters: number;
+  };
+  baseline: ArrivalScenario;    // Full speed then anchor wait
+  virtualArrival: ArrivalScenario;
+  savings: {
+    fuelLiters: number;
+    co2Kg: number;
+    costUSD: number;
+    anchorWaitAvoidedHours: number;
+  };
+  latenessHours: number;        // > 0 if the slot cannot be made even at max speed
+  replanCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface VirtualArrivalRequest {
+  vesselId: string;
+  vesselName: string;
+  vesselType: string;
+  origin: PlanPoint;
+  destination: PlanPoint;
+  strategy?: RouteStrategyId;
+  departureTime?: Date;
+  berthTime: Date;
+  reference?: string;
+}
+
+export interface BerthTimeUpdate {
+  berthTime: Date;
+  postedAt?: Date;                         // Defaults to now; also the re-plan time
+  position?: { lat: number; lng: number }; // Reported position, else assumed on plan
+  reference?: string;
+  notes?: string;
+}
+
+// Generators and boilers at anchor, as a fraction of the hourly burn at service speed
+const ANCHOR_FUEL_FRACTION = 0.15;
+
+// In-memory plan store (plans are short-lived and re-created per voyage)
+const plans = new Map<string, VirtualArrivalPlan>();
+let planSequence = 0;
+
+// Unique even for plans created in the same millisecond
+function nextPlanId(): string {
+  planSequence++;
+  return `va-${Date.now().toString(36)}-${planSequence}`;
+}
+
+// ============================================================================
+// Speed Planning
+// ============================================================================
+
+/**
+ * Constant-speed plan for the rest of the route that arrives at the berth time
+ *
+ * With fuel per mile rising with the square of speed, the cheapest way to make
+ * a fixed arrival time is a single constant speed. It is clamped to the
+ * vessel's speed range: too slow means waiting at anchor, too fast means late.
+ */
+export function buildSpeedPlan(
+  route: Route,
+  from: { time: Date; distanceCompletedNm: number },
+  berthTime: Date,
+  vesselProfile: VesselProfile
+): { legs: SpeedPlanLeg[]; arrivalTime: Date; speedKnots: number } {
+  const fuelModel = createFuelModel(vesselProfile);
+  const remainingNm = Math.max(0, route.totalDistance - from.distanceCompletedNm);
+  const hoursToBerth = (berthTime.getTime() - from.time.getTime()) / 3600000;
+  const targetSpeed = hoursToBerth > 0 ? remainingNm / hoursToBerth : fuelModel.maxSpeed;
+  const speedKnots = Math.max(fuelModel.minSpeed, Math.min(fuelModel.maxSpeed, targetSpeed));
+  const fuelRate = calculateFuelRateAtSpeed(speedKnots, fuelModel);
+
+  const legs: SpeedPlanLeg[] = [];
+  let segmentStart = 0;
+  let clock = from.time.getTime();
+
+  route.segments.forEach((segment, index) => {
+    const segmentEnd = segmentStart + segment.distance;
+    const startNm = Math.max(segmentStart, from.distanceCompletedNm);
+    if (startNm < segmentEnd && segment.distance > 0) {
+      const t = (startNm - segmentStart) / segment.distance;
+      const distanceNm = segmentEnd - startNm;
+      const hours = distanceNm / speedKnots;
+      legs.push({
+        segmentIndex: index,
+        from: t === 0
+          ? { lat: segment.from.lat, lng: segment.from.lng, name: segment.from.name }
+          : {
+              lat: segment.from.lat + (segment.to.lat - segment.from.lat) * t,
+              lng: segment.from.lng + (segment.to.lng - segment.from.lng) * t,
+            },
+        to: { lat: segment.to.lat, lng: segment.to.lng, name: segment.to.name },
+        distanceNm,
+        speedKnots,
+        startTime: new Date(clock),
+        endTime: new Date(clock + hours * 3600000),
+        fuelLiters: fuelRate * distanceNm,
+      });
+      clock += hours * 3600000;
+    }
+    segmentStart = segmentEnd;
+  });
+
+  return { legs, arrivalTime: new Date(clock), speedKnots };
+}
+
+/**
+ * Distance covered and fuel burned by a given time if the vessel kept to plan
+ */
+function progressOnPlan(
+  plan: VirtualArrivalPlan,
+  time: Date
+): { distanceCompletedNm: number; fuelUsedLiters: number } {
+  let distance = plan.progress.distanceCompletedNm;
+  let fuel = plan.progress.fuelUsedLiters;
+
+  for (const leg of plan.speedPlan) {
+    if (time <= leg.startTime) break;
+    const legHours = (leg.endTime.getTime() - leg.startTime.getTime()) / 3600000;
+    const elapsed = Math.min(legHours, (time.getTime() - leg.startTime.getTime()) / 3600000);
+    const fraction = legHours > 0 ? elapsed / legHours : 1;
+    distance += leg.distanceNm * fraction;
+    fuel += leg.fuelLiters * fraction;
+  }
+
+  return { distanceCompletedNm: distance, fuelUsedLiters: fuel };
+}
+
+function anchorFuelPerHour(vesselProfile: VesselProfile): number {
+  return vesselProfile.fuelConsumptionRate * vesselProfile.cruisingSpeed * ANCHOR_FUEL_FRACTION;
+}
+
+/**
+ * Full speed then anchor wait, for the whole voyage from the original departure
+ */
+function baselineScenario(
+  route: Route,
+  departureTime: Date,
+  berthTime: Date,
+  vesselProfile: VesselProfile
+): ArrivalScenario {
+  const speed = vesselProfile.cruisingSpeed;
+  const arrivalTime = new Date(departureTime.getTime() + (route.totalDistance / speed) * 3600000);
+  const anchorWaitHours = Math.max(0, (berthTime.getTime() - arrivalTime.getTime()) / 3600000);
+  const fuelLiters =
+    calculateFuelRateAtSpeed(speed, createFuelModel(vesselProfile)) * route.totalDistance +
+    anchorWaitHours * anchorFuelPerHour(vesselProfile);
+
+  return {
+    averageSpeedKnots: speed,
+    arrivalTime,
+    anchorWaitHours,
+    fuelLiters,
+    co2Kg: fuelLiters * vesselProfile.emissionFactors.co2PerLiter,
+  };
+}
+
+type PlanOutcome = Pick<
+  VirtualArrivalPlan,
+  'speedPlan' | 'progress' | 'baseline' | 'virtualArrival' | 'savings' | 'latenessHours'
+>;
+
+/**
+ * Speed plan and savings for the rest of the voyage from a progress point
+ */
+function planRemainingVoyage(
+  route: Route,
+  departureTime: Date,
+  berthTime: Date,
+  progress: VirtualArrivalPlan['progress'],
+  vesselProfile: VesselProfile
+): PlanOutcome {
+  const { legs, arrivalTime } = buildSpeedPlan(route, {
+    time: progress.asOf,
+    distanceCompletedNm: progress.distanceCompletedNm,
+  }, berthTime, vesselProfile);
+
+  const anchorWaitHours = Math.max(0, (berthTime.getTime() - arrivalTime.getTime()) / 3600000);
+  const fuelLiters =
+    progress.fuelUsedLiters +
+    legs.reduce((sum, leg) => sum + leg.fuelLiters, 0) +
+    anchorWaitHours * anchorFuelPerHour(vesselProfile);
+  const underwayHours = (arrivalTime.getTime() - departureTime.getTime()) / 3600000;
+
+  const virtualArrival: ArrivalScenario = {
+    averageSpeedKnots: underwayHours > 0 ? route.totalDistance / underwayHours : 0,
+    arrivalTime,
+    anchorWaitHours,
+    fuelLiters,
+    co2Kg: fuelLiters * vesselProfile.emissionFactors.co2PerLiter,
+  };
+  const baseline = baselineScenario(route, departureTime, berthTime, vesselProfile);
+  const fuelSaved = baseline.fuelLiters - virtualArrival.fuelLiters;
+
+  return {
+    speedPlan: legs,
+    progress,
+    baseline,
+    virtualArrival,
+    savings: {
+      fuelLiters: fuelSaved,
+      co2Kg: baseline.co2Kg - virtualArrival.co2Kg,
+      costUSD: fuelSaved * vesselProfile.fuelCostPerLiter,
+      anchorWaitAvoidedHours: Math.max(0, baseline.anchorWaitHours - anchorWaitHours),
+    },
+    latenessHours: Math.max(0, (arrivalTime.getTime() - berthTime.getTime()) / 3600000),
+  };
+}
+
+// ============================================================================
+// Plans
+// ============================================================================
+
+/**
+ * Plan the route and a just-in-time speed plan for the agreed berth slot
+ */
+export async function createVirtualArrivalPlan(request: VirtualArrivalRequest): Promise<VirtualArrivalPlan> {
+  const departureTime = request.departureTime ?? new Date();
+  if (request.berthTime <= departureTime) {
+    throw new Error('Berth time must be after departure');
+  }
+
+  const vesselProfile = resolveVesselProfile(request.vesselType);
+  const { route } = await routePlanner.plan({
+    vesselId: request.vesselId,
+    vesselName: request.vesselName,
+    vesselType: request.vesselType,
+    origin: request.origin,
+    destination: request.destination,
+    strategy: request.strategy,
+    departureTime,
+  });
+
+  const slot: BerthSlot = {
+    berthTime: request.berthTime,
+    postedAt: new Date(),
+    source: 'initial',
+    reference: request.reference,
+  };
+  const now = new Date();
+  const plan: VirtualArrivalPlan = {
+    id: nextPlanId(),
+    vesselId: request.vesselId,
+    vesselName: request.vesselName,
+    vesselType: request.vesselType,
+    route,
+    departureTime,
+    agreedSlot: slot,
+    slotHistory: [slot],
+    ...planRemainingVoyage(
+      route,
+      departureTime,
+      slot.berthTime,
+      { asOf: departureTime, distanceCompletedNm: 0, fuelUsedLiters: 0 },
+      vesselProfile
+    ),
+    replanCount: 0,
+    createdAt: now,
+    updatedAt: now,
+  };
+  plans.set(plan.id, plan);
+
+  console.log('[VirtualArrival] Plan created:', {
+    id: plan.id,
+    vessel: plan.vesselName,
+    berthTime: slot.berthTime.toISOString(),
+    speed: plan.speedPlan[0]?.speedKnots.toFixed(1) + ' kn',
+    fuelSaved: plan.savings.fuelLiters.toFixed(0) + ' L',
+  });
+  return plan;
+}
+
+export function getVirtualArrivalPlan(id: string): VirtualArrivalPlan | undefined {
+  return plans.get(id);
+}
+
+export function listVirtualArrivalPlans(vesselId?: string): VirtualArrivalPlan[] {
+  return Array.from(plans.values())
+    .filter(plan => !vesselId || plan.vesselId === vesselId)
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+}
+
+/**
+ * Record a new berth time from the port and re-plan the remaining voyage
+ *
+ * Progress up to the update is taken from the reported position if given,
+ * otherwise the vessel is assumed to have kept to the previous speed plan.
+ */
+export function updateBerthTime(id: string, update: BerthTimeUpdate): VirtualArrivalPlan {
+  const plan = plans.get(id);
+  if (!plan) {
+    throw new Error(`Virtual arrival plan not found: ${id}`);
+  }
+
+  const postedAt = update.postedAt ?? new Date();
+  const asOf = postedAt < plan.progress.asOf ? plan.progress.asOf : postedAt;
+  if (asOf >= plan.virtualArrival.arrivalTime) {
+    throw new Error('Vessel has already arrived - berth time can no longer be re-planned');
+  }
+  if (update.berthTime <= asOf) {
+    throw new Error('New berth time must be in the future');
+  }
+
+  const onPlan = progressOnPlan(plan, asOf);
+  const distanceCompletedNm = update.position
+    ? projectOntoRoute(plan.route, update.position.lat, update.position.lng).alongTrackNm
+    : onPlan.distanceCompletedNm;
+
+  const slot: BerthSlot = {
+    berthTime: update.berthTime,
+    postedAt,
+    source: 'port_update',
+    reference: update.reference ?? plan.agreedSlot.reference,
+    notes: update.notes,
+  };
+  Object.assign(plan, planRemainingVoyage(
+    plan.route,
+    plan.departureTime,
+    slot.berthTime,
+    { asOf, distanceCompletedNm, fuelUsedLiters: onPlan.fuelUsedLiters },
+    resolveVesselProfile(plan.vesselType)
+  ));
+  plan.agreedSlot = slot;
+  plan.slotHistory.push(slot);
+  plan.replanCount++;
+  plan.updatedAt = new Date();
+
+  console.log('[VirtualArrival] Re-planned for new berth time:', {
+    id: plan.id,
+    berthTime: slot.berthTime.toISOString(),
+    distanceRemaining: (plan.route.totalDistance - distanceCompletedNm).toFixed(1) + ' nm',
+    speed: plan.speedPlan[0]?.speedKnots.toFixed(1) + ' kn',
+    latenessHours: plan.latenessHours.toFixed(1),
+  });
+  return plan;
+}
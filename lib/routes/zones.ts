@@ -0,0 +1,382 @@
+/**
+ * Regulated Zone Registry
+ *
+ * Areas with navigation rules that the smart optimizer must honour:
+ * - eca: Emission control / low-sulphur areas (fuel switch, often a speed limit)
+ * - military_exercise: Temporary firing and exercise areas (no entry while active)
+ * - pipeline_corridor: Subsea pipelines and cables (no anchoring)
+ * - offshore_exclusion: Field and platform safety zones (no entry)
+ *
+ * Zones are loaded from lib/routes/data/gulf-zones.json. Temporary zones
+ * carry validFrom/validTo and are only enforced while the vessel is predicted
+ * to be inside them.
+ */
+
+import { bufferPolygon, calculateDistanceNm, isPointInPolygon, segmentInsidePolygon } from '@/lib/geodesy';
+import { FUEL_SPECIFICATIONS, FuelType } from '@/lib/types/maritime';
+import zonesGeoJSON from './data/gulf-zones.json';
+import {
+  NetworkFeatureCollection,
+  featureLabel,
+  readPolygonRing,
+  validateCollectionHeader,
+} from './network';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ZoneKind = 'eca' | 'military_exercise' | 'pipeline_corridor' | 'offshore_exclusion';
+
+export type ZoneRule =
+  | { type: 'no_entry' }
+  | { type: 'no_anchoring' }
+  | { type: 'max_speed'; knots: number }
+  | { type: 'fuel_switch'; fuel: FuelType; changeoverHours?: number };
+
+export interface RegulatedZone {
+  id: string;
+  name: string;
+  kind: ZoneKind;
+  polygon: { lat: number; lon: number }[];
+  rules: ZoneRule[];
+  validFrom?: Date;
+  validTo?: Date;
+  authority?: string;
+  notes?: string;
+}
+
+export interface ZoneTransitPoint {
+  lat: number;
+  lng: number;
+  time: Date;
+}
+
+export interface ZoneTransit {
+  zoneId: string;
+  zoneName: string;
+  kind: ZoneKind;
+  rules: ZoneRule[];
+  entry: ZoneTransitPoint;       // Route start if it begins inside the zone
+  exit: ZoneTransitPoint;        // Route end if it finishes inside the zone
+  distanceNm: number;
+  legs: { segmentIndex: number; distanceNm: number }[];
+  active: boolean;               // Zone in force at some point during the transit
+}
+
+const ZONE_KINDS: ZoneKind[] = ['eca', 'military_exercise', 'pipeline_corridor', 'offshore_exclusion'];
+const DETOUR_MARGIN_NM = 2;
+
+// ============================================================================
+// Loading & Validation
+// ============================================================================
+
+function parseRule(value: unknown): ZoneRule | string {
+  const rule = value as Record<string, unknown> | null;
+  switch (rule?.type) {
+    case 'no_entry':
+    case 'no_anchoring':
+      return { type: rule.type };
+    case 'max_speed':
+      return typeof rule.knots === 'number' && rule.knots > 0
+        ? { type: 'max_speed', knots: rule.knots }
+        : 'max_speed rule needs positive "knots"';
+    case 'fuel_switch':
+      if (typeof rule.fuel !== 'string' || !(rule.fuel in FUEL_SPECIFICATIONS)) {
+        return `fuel_switch rule has unknown fuel "${String(rule.fuel)}"`;
+      }
+      return {
+        type: 'fuel_switch',
+        fuel: rule.fuel as FuelType,
+        changeoverHours: typeof rule.changeoverHours === 'number' ? rule.changeoverHours : undefined,
+      };
+    default:
+      return `unknown rule type "${String(rule?.type)}"`;
+  }
+}
+
+function parseDate(value: unknown): Date | undefined | null {
+  if (value === undefined) return undefined;
+  const date = typeof value === 'string' ? new Date(value) : null;
+  return date && !isNaN(date.getTime()) ? date : null;
+}
+
+/**
+ * Build and validate regulated zones from GeoJSON
+ * Throws with every problem listed if any feature is invalid.
+ */
+export function loadRegulatedZones(collection: NetworkFeatureCollection): RegulatedZone[] {
+  const problems = validateCollectionHeader(collection, 'zones');
+  if (problems.length > 0) {
+    throw new Error(`Invalid regulated zone data: ${problems.join('; ')}`);
+  }
+
+  const zones: RegulatedZone[] = [];
+  const ids = new Set<string>();
+
+  collection.features.forEach((feature, index) => {
+    const label = featureLabel(feature, index);
+    const props = feature.properties ?? {};
+    const kind = props.kind as ZoneKind;
+    if (!ZONE_KINDS.includes(kind)) {
+      problems.push(`${label}: unknown kind "${String(props.kind)}" (expected ${ZONE_KINDS.join(', ')})`);
+      return;
+    }
+    if (typeof feature.id !== 'string' || !feature.id || ids.has(feature.id)) {
+      problems.push(`${label}: zone needs a unique id`);
+      return;
+    }
+    const polygon = readPolygonRing(feature, index);
+    if (typeof polygon === 'string') {
+      problems.push(polygon);
+      return;
+    }
+    if (!Array.isArray(props.rules) || props.rules.length === 0) {
+      problems.push(`${label}: zone has no rules`);
+      return;
+    }
+    const rules = props.rules.map(parseRule);
+    const badRules = rules.filter((rule): rule is string => typeof rule === 'string');
+    if (badRules.length > 0) {
+      problems.push(...badRules.map(problem => `${label}: ${problem}`));
+      return;
+    }
+    const validFrom = parseDate(props.validFrom);
+    const validTo = parseDate(props.validTo);
+    if (validFrom === null || validTo === null) {
+      problems.push(`${label}: validFrom/validTo must be ISO dates`);
+      return;
+    }
+
+    ids.add(feature.id);
+    zones.push({
+      id: feature.id,
+      name: typeof props.name === 'string' ? props.name : feature.id,
+      kind,
+      polygon,
+      rules: rules as ZoneRule[],
+      validFrom,
+      validTo,
+      authority: typeof props.authority === 'string' ? props.authority : undefined,
+      notes: typeof props.notes === 'string' ? props.notes : undefined,
+    });
+  });
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid regulated zone data (${collection.name || 'zones'} v${collection.version}): ${problems.join('; ')}`);
+  }
+  return zones;
+}
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+export class ZoneRegistry {
+  private zones = new Map<string, RegulatedZone>();
+
+  constructor(zones: RegulatedZone[] = [], readonly version: string = 'custom') {
+    zones.forEach(zone => this.register(zone));
+  }
+
+  /**
+   * Register (or replace) a zone, e.g. from a new navigational warning
+   */
+  register(zone: RegulatedZone): void {
+    this.zones.set(zone.id, zone);
+  }
+
+  remove(id: string): boolean {
+    return this.zones.delete(id);
+  }
+
+  get(id: string): RegulatedZone | undefined {
+    return this.zones.get(id);
+  }
+
+  list(): RegulatedZone[] {
+    return Array.from(this.zones.values());
+  }
+
+  /**
+   * Zones containing a point (optionally only those in force at a time)
+   */
+  zonesAt(lat: number, lon: number, time?: Date): RegulatedZone[] {
+    return this.list().filter(zone =>
+      (!time || isZoneActive(zone, time)) && isPointInPolygon(lat, lon, zone.polygon)
+    );
+  }
+}
+
+/**
+ * Shared registry used by the smart optimizer
+ */
+export const zoneRegistry = new ZoneRegistry(
+  loadRegulatedZones(zonesGeoJSON as NetworkFeatureCollection),
+  (zonesGeoJSON as NetworkFeatureCollection).version
+);
+
+// ============================================================================
+// Rules
+// ============================================================================
+
+export function isZoneActive(zone: RegulatedZone, time: Date): boolean {
+  return (!zone.validFrom || time >= zone.validFrom) && (!zone.validTo || time <= zone.validTo);
+}
+
+export function findRule<T extends ZoneRule['type']>(
+  rules: ZoneRule[],
+  type: T
+): Extract<ZoneRule, { type: T }> | undefined {
+  return rules.find((rule): rule is Extract<ZoneRule, { type: T }> => rule.type === type);
+}
+
+/**
+ * Price per litre of a fuel grade, from the fuel specification table
+ */
+export function fuelPricePerLiter(fuel: FuelType): number {
+  const spec = FUEL_SPECIFICATIONS[fuel];
+  return (spec.costPerTon / 1000) * (spec.density / 1000);
+}
+
+// ============================================================================
+// Transit Analysis
+// ============================================================================
+
+/**
+ * Find every zone entry along a path, with predicted entry/exit times
+ *
+ * Entry and exit are where the legs cross the zone outline. Timing assumes
+ * a constant speed from departure.
+ */
+export function findZoneTransits(
+  points: { lat: number; lon: number }[],
+  zones: RegulatedZone[],
+  options: { departureTime?: Date; speedKnots: number }
+): ZoneTransit[] {
+  const departure = options.departureTime ?? new Date();
+  const timeAt = (alongNm: number) => new Date(departure.getTime() + (alongNm / options.speedKnots) * 3600000);
+  const transits: ZoneTransit[] = [];
+
+  for (const zone of zones) {
+    let current: ZoneTransit | null = null;
+    let elapsedNm = 0;
+
+    for (let i = 0; i < points.length - 1; i++) {
+      const from = points[i];
+      const to = points[i + 1];
+      const segmentNm = calculateDistanceNm(from.lat, from.lon, to.lat, to.lon);
+      const pointAt = (fraction: number): ZoneTransitPoint => ({
+        lat: from.lat + (to.lat - from.lat) * fraction,
+        lng: from.lon + (to.lon - from.lon) * fraction,
+        time: timeAt(elapsedNm + segmentNm * fraction),
+      });
+      const intervals = segmentInsidePolygon(from, to, zone.polygon);
+
+      // A transit carries over only if this leg starts inside the zone
+      if (current && intervals[0]?.start !== 0) {
+        transits.push(finishTransit(current, zone));
+        current = null;
+      }
+
+      for (const { start, end } of intervals) {
+        if (!current) {
+          current = {
+            zoneId: zone.id,
+            zoneName: zone.name,
+            kind: zone.kind,
+            rules: zone.rules,
+            entry: pointAt(start),
+            exit: pointAt(start),
+            distanceNm: 0,
+            legs: [],
+            active: false,
+          };
+        }
+        const distanceNm = (end - start) * segmentNm;
+        current.exit = pointAt(end);
+        current.distanceNm += distanceNm;
+        current.legs.push({ segmentIndex: i, distanceNm });
+
+        if (end < 1) {
+          transits.push(finishTransit(current, zone));
+          current = null;
+        }
+      }
+      elapsedNm += segmentNm;
+    }
+
+    if (current) transits.push(finishTransit(current, zone));
+  }
+
+  return transits.sort((a, b) => a.entry.time.getTime() - b.entry.time.getTime());
+}
+
+function finishTransit(transit: ZoneTransit, zone: RegulatedZone): ZoneTransit {
+  const entry = transit.entry.time;
+  const exit = transit.exit.time;
+  transit.active =
+    isZoneActive(zone, entry) ||
+    isZoneActive(zone, exit) ||
+    (!!zone.validFrom && zone.validFrom >= entry && zone.validFrom <= exit);
+  return transit;
+}
+
+// ============================================================================
+// Avoidance
+// ============================================================================
+
+/**
+ * Candidate detours around a zone for the leg from -> to, shortest first
+ *
+ * The zone outline is buffered by a safety margin and the leg is routed
+ * along its vertices on either side. Callers still need to check the detours
+ * against land; candidates that clip the zone itself are dropped.
+ */
+export function detourAroundZone(
+  from: { lat: number; lon: number },
+  to: { lat: number; lon: number },
+  zone: RegulatedZone,
+  marginNm: number = DETOUR_MARGIN_NM
+): { lat: number; lon: number }[][] {
+  const expanded = bufferPolygon(zone.polygon, marginNm);
+  const centre = {
+    lat: expanded.reduce((sum, p) => sum + p.lat, 0) / expanded.length,
+    lon: expanded.reduce((sum, p) => sum + p.lon, 0) / expanded.length,
+  };
+  const cosLat = Math.cos((centre.lat * Math.PI) / 180);
+
+  // Local flat coordinates in nm around the zone centre, to split vertices by side of the leg
+  const toXY = (p: { lat: number; lon: number }) => ({ x: (p.lon - centre.lon) * 60 * cosLat, y: (p.lat - centre.lat) * 60 });
+
+  const a = toXY(from);
+  const b = toXY(to);
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const sides: { lat: number; lon: number; along: number }[][] = [[], []];
+  for (const vertex of expanded) {
+    const v = toXY(vertex);
+    const cross = dx * (v.y - a.y) - dy * (v.x - a.x);
+    const along = dx * (v.x - a.x) + dy * (v.y - a.y);
+    sides[cross >= 0 ? 0 : 1].push({ ...vertex, along });
+  }
+
+  return sides
+    .filter(side => side.length > 0)
+    .map(side => [
+      from,
+      ...side.sort((p, q) => p.along - q.along).map(({ lat, lon }) => ({ lat, lon })),
+      to,
+    ])
+    .filter(path => findZoneTransits(path, [zone], { speedKnots: 1 }).length === 0)
+    .sort((p, q) => pathLengthNm(p) - pathLengthNm(q))
+    .map(path => path.slice(1, -1));
+}
+
+function pathLengthNm(path: { lat: number; lon: number }[]): number {
+  let total = 0;
+  for (let i = 0; i < path.length - 1; i++) {
+    total += calculateDistanceNm(path[i].lat, path[i].lon, path[i + 1].lat, path[i + 1].lon);
+  }
+  return total;
+}
@@ -0,0 +1,474 @@
+/**
+ * Streaming Anomaly Detection - online detectors per equipment channel
+ *
+ * Each equipment channel (a machine on a vessel and the signals it reports)
+ * keeps its own baselines and is scored sample by sample:
+ * - zscore: distance from the rolling window's mean, in standard deviations
+ * - ewma: exponentially weighted moving average against control limits,
+ *   which catches small sustained shifts a single sample would not
+ * - seasonal: residual after a slow trend and a time-of-day profile
+ * - mahalanobis: joint distance of related signals (load, fuel rate and
+ *   vibration move together; one moving without the others is suspicious)
+ *
+ * A channel raises one ANOMALY_DETECTED event when it goes anomalous, with
+ * every signal and detector that contributed, and stays quiet until it has
+ * been normal for a few samples or gets worse. Limits are tuned per
+ * PMEquipmentType and can be changed at runtime.
+ */
+
+import type { PMEquipmentType } from '@/lib/predictive-maintenance/types';
+import {
+  AnomalyDetectorId,
+  AnomalySensitivity,
+  AnomalySignal,
+  SimulationEvent,
+  SimulationModel,
+  SimulationWorld,
+  TickContext,
+} from './types';
+
+// ============================================================================
+// Sensitivity
+// ============================================================================
+
+export const DEFAULT_ANOMALY_SENSITIVITY: AnomalySensitivity = {
+  zScore: 4,
+  ewmaLambda: 0.2,
+  ewmaLimit: 3.5,
+  seasonalLimit: 4.5,
+  mahalanobisZ: 3.5,
+  window: 60,
+  warmup: 20,
+  clearAfter: 5,
+};
+
+// Safety-critical lifting gear alarms earlier; engines and generators are noisier
+const EQUIPMENT_SENSITIVITY: Partial<Record<PMEquipmentType, Partial<AnomalySensitivity>>> = {
+  wire_rope: { zScore: 3, ewmaLimit: 3, mahalanobisZ: 3 },
+  slew_bearing: { zScore: 3.5, ewmaLimit: 3 },
+  crane_boom: { zScore: 3.5, ewmaLimit: 3 },
+  main_engine: { zScore: 4.5, seasonalLimit: 5 },
+  generator: { zScore: 4.5, seasonalLimit: 5 },
+};
+
+const sensitivityOverrides: Map<PMEquipmentType, Partial<AnomalySensitivity>> = new Map();
+
+export function getAnomalySensitivity(equipmentType: PMEquipmentType): AnomalySensitivity {
+  return {
+    ...DEFAULT_ANOMALY_SENSITIVITY,
+    ...EQUIPMENT_SENSITIVITY[equipmentType],
+    ...sensitivityOverrides.get(equipmentType),
+  };
+}
+
+/**
+ * Override limits for one equipment type; running monitors pick them up on
+ * their next sample
+ */
+export function setAnomalySensitivity(equipmentType: PMEquipmentType, overrides: Partial<AnomalySensitivity>): AnomalySensitivity {
+  for (const [key, value] of Object.entries(overrides)) {
+    if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+      throw new Error(`${key} must be a positive number`);
+    }
+  }
+  if (overrides.ewmaLambda !== undefined && overrides.ewmaLambda > 1) {
+    throw new Error('ewmaLambda must be between 0 and 1');
+  }
+  sensitivityOverrides.set(equipmentType, { ...sensitivityOverrides.get(equipmentType), ...overrides });
+  return getAnomalySensitivity(equipmentType);
+}
+
+export function resetAnomalySensitivity(equipmentType?: PMEquipmentType): void {
+  if (equipmentType) sensitivityOverrides.delete(equipmentType);
+  else sensitivityOverrides.clear();
+}
+
+// ============================================================================
+// Baselines
+// ============================================================================
+
+const HOUR_MS = 60 * 60 * 1000;
+const SEASONAL_BUCKETS = 24; // Hour of day
+const SEASONAL_MIN_BUCKET_SAMPLES = 3;
+const TREND_ALPHA = 0.05;
+const MIN_RELATIVE_SIGMA = 0.02; // Quantised or flat signals still get some spread
+const MIN_SIGMA = 1e-3;
+const CRITICAL_SCORE = 1.5; // Over the limit by half again, or two detectors agreeing
+
+interface MetricState {
+  window: number[];
+  samples: number;
+  ewma: number;
+  ewmaScale: number;
+  trend: number | null;
+  seasonal: number[];
+  seasonalCount: number[];
+  residualScale: number | null;
+}
+
+interface GroupState {
+  window: number[][];
+}
+
+interface ChannelState {
+  metrics: Map<string, MetricState>;
+  groups: Map<string, GroupState>;
+  alarmed: boolean;
+  severity: SimulationEvent['severity'] | null;
+  normalRun: number;
+}
+
+function createMetricState(): MetricState {
+  return {
+    window: [],
+    samples: 0,
+    ewma: 0,
+    ewmaScale: 0,
+    trend: null,
+    seasonal: new Array(SEASONAL_BUCKETS).fill(0),
+    seasonalCount: new Array(SEASONAL_BUCKETS).fill(0),
+    residualScale: null,
+  };
+}
+
+function meanOf(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function sigmaOf(values: number[], mean: number): number {
+  const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / Math.max(1, values.length - 1);
+  return Math.max(Math.sqrt(variance), Math.abs(mean) * MIN_RELATIVE_SIGMA, MIN_SIGMA);
+}
+
+function round(value: number, decimals = 3): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+// ============================================================================
+// Detectors
+// ============================================================================
+
+function zScoreCheck(state: MetricState, metric: string, value: number, limits: AnomalySensitivity): AnomalySignal | null {
+  const mean = meanOf(state.window);
+  const score = Math.abs(value - mean) / sigmaOf(state.window, mean) / limits.zScore;
+  return score > 1 ? { metric, detector: 'zscore', value, expected: round(mean), score: round(score, 2) } : null;
+}
+
+/**
+ * EWMA control chart on the residual from the slow trend, so operating
+ * swings the trend follows do not alarm but a shift it has not caught up
+ * with does; updates the statistic and the residual spread
+ */
+function ewmaCheck(state: MetricState, metric: string, value: number, limits: AnomalySensitivity): AnomalySignal | null {
+  if (state.trend === null) return null;
+  const residual = value - state.trend;
+  const lambda = limits.ewmaLambda;
+  state.ewma = lambda * residual + (1 - lambda) * state.ewma;
+
+  let signal: AnomalySignal | null = null;
+  if (state.samples >= limits.warmup) {
+    const sigma = Math.max(state.ewmaScale * 1.253, Math.abs(state.trend) * MIN_RELATIVE_SIGMA, MIN_SIGMA);
+    const score = Math.abs(state.ewma) / (sigma * Math.sqrt(lambda / (2 - lambda))) / limits.ewmaLimit;
+    if (score > 1) {
+      signal = { metric, detector: 'ewma', value: round(state.trend + state.ewma), expected: round(state.trend), score: round(score, 2) };
+    }
+  }
+
+  // Plain average until there are enough residuals for the slow one
+  const alpha = Math.max(TREND_ALPHA, 1 / state.samples);
+  state.ewmaScale += alpha * (Math.abs(residual) - state.ewmaScale);
+  return signal;
+}
+
+/**
+ * Residual after a slow trend and the hour-of-day profile; updates both
+ */
+function seasonalCheck(
+  state: MetricState,
+  metric: string,
+  value: number,
+  at: Date,
+  limits: AnomalySensitivity
+): AnomalySignal | null {
+  const hour = Math.floor(at.getTime() / HOUR_MS) % SEASONAL_BUCKETS;
+  const trend = state.trend ?? value;
+  const expected = trend + state.seasonal[hour];
+  const residual = value - expected;
+
+  let signal: AnomalySignal | null = null;
+  if (state.residualScale !== null && state.seasonalCount[hour] >= SEASONAL_MIN_BUCKET_SAMPLES) {
+    // Mean absolute residual to a normal sigma
+    const sigma = Math.max(state.residualScale * 1.253, Math.abs(trend) * MIN_RELATIVE_SIGMA, MIN_SIGMA);
+    const score = Math.abs(residual) / sigma / limits.seasonalLimit;
+    if (score > 1) signal = { metric, detector: 'seasonal', value, expected: round(expected), score: round(score, 2) };
+  }
+
+  state.trend = trend + TREND_ALPHA * (value - trend);
+  const count = ++state.seasonalCount[hour];
+  state.seasonal[hour] += (value - state.trend - state.seasonal[hour]) / Math.min(count, 1 / TREND_ALPHA);
+  state.residualScale = state.residualScale === null
+    ? Math.abs(residual)
+    : state.residualScale + TREND_ALPHA * (Math.abs(residual) - state.residualScale);
+
+  return signal;
+}
+
+// Gauss-Jordan inverse of a small symmetric positive definite matrix
+function invert(matrix: number[][]): number[][] | null {
+  const n = matrix.length;
+  const a = matrix.map((row, i) => [...row, ...row.map((_, j) => (i === j ? 1 : 0))]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    if (Math.abs(a[pivot][col]) < 1e-12) return null;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+
+    const p = a[col][col];
+    for (let j = 0; j < 2 * n; j++) a[col][j] /= p;
+    for (let row = 0; row < n; row++) {
+      if (row === col) continue;
+      const factor = a[row][col];
+      for (let j = 0; j < 2 * n; j++) a[row][j] -= factor * a[col][j];
+    }
+  }
+
+  return a.map(row => row.slice(n));
+}
+
+// Wilson-Hilferty approximation of the chi-square quantile at a normal z
+function chiSquareLimit(dimensions: number, z: number): number {
+  const c = 2 / (9 * dimensions);
+  return dimensions * (1 - c + z * Math.sqrt(c)) ** 3;
+}
+
+/**
+ * Squared Mahalanobis distance of related signals from their joint baseline,
+ * split into each signal's share
+ */
+function mahalanobisCheck(
+  state: GroupState,
+  metrics: string[],
+  values: number[],
+  limits: AnomalySensitivity
+): AnomalySignal[] {
+  const d = metrics.length;
+  const means = metrics.map((_, i) => meanOf(state.window.map(v => v[i])));
+  const sigmas = metrics.map((_, i) => sigmaOf(state.window.map(v => v[i]), means[i]));
+
+  const covariance = metrics.map((_, i) => metrics.map((__, j) => {
+    if (i === j) return sigmas[i] ** 2;
+    const sum = state.window.reduce((acc, v) => acc + (v[i] - means[i]) * (v[j] - means[j]), 0);
+    // Keep correlations just inside +-1 so the matrix stays invertible
+    return Math.max(-0.99, Math.min(0.99, sum / Math.max(1, state.window.length - 1) / (sigmas[i] * sigmas[j]))) * sigmas[i] * sigmas[j];
+  }));
+  const inverse = invert(covariance);
+  if (!inverse) return [];
+
+  const deviation = values.map((v, i) => v - means[i]);
+  const weighted = inverse.map(row => row.reduce((sum, w, j) => sum + w * deviation[j], 0));
+  const contributions = deviation.map((dev, i) => dev * weighted[i]);
+  const distance = contributions.reduce((sum, c) => sum + c, 0);
+  const score = distance / chiSquareLimit(d, limits.mahalanobisZ);
+  if (score <= 1) return [];
+
+  return metrics
+    .map((metric, i) => ({
+      metric,
+      detector: 'mahalanobis' as const,
+      value: values[i],
+      expected: round(means[i]),
+      score: round(score, 2),
+      share: round(Math.max(0, contributions[i]) / distance, 2),
+    }))
+    .filter(signal => signal.share > 0.1)
+    .sort((a, b) => b.share - a.share);
+}
+
+// ============================================================================
+// Monitor
+// ============================================================================
+
+export interface ChannelSample {
+  assetId: string;
+  assetName?: string;
+  equipmentId: string;
+  equipmentName?: string;
+  equipmentType: PMEquipmentType;
+  values: Record<string, number>;
+  related?: string[][]; // Signals scored jointly
+  timestamp: Date;
+}
+
+export interface AnomalyMonitor {
+  observe(sample: ChannelSample): SimulationEvent | null;
+  reset(): void;
+}
+
+/**
+ * Per-channel detector state; observe() one sample at a time in time order
+ */
+export function createAnomalyMonitor(): AnomalyMonitor {
+  const channels: Map<string, ChannelState> = new Map();
+
+  function observe(sample: ChannelSample): SimulationEvent | null {
+    const key = `${sample.assetId}|${sample.equipmentId}`;
+    let channel = channels.get(key);
+    if (!channel) {
+      channel = { metrics: new Map(), groups: new Map(), alarmed: false, severity: null, normalRun: 0 };
+      channels.set(key, channel);
+    }
+    const limits = getAnomalySensitivity(sample.equipmentType);
+    const signals: AnomalySignal[] = [];
+
+    for (const [metric, value] of Object.entries(sample.values)) {
+      if (!Number.isFinite(value)) continue;
+      let state = channel.metrics.get(metric);
+      if (!state) {
+        state = createMetricState();
+        channel.metrics.set(metric, state);
+      }
+
+      // The EWMA and seasonal baselines learn during warm-up too
+      const hits = [
+        state.window.length > 1 ? zScoreCheck(state, metric, value, limits) : null,
+        ewmaCheck(state, metric, value, limits),
+        seasonalCheck(state, metric, value, sample.timestamp, limits),
+      ];
+      if (state.samples >= limits.warmup) {
+        signals.push(...hits.filter((hit): hit is AnomalySignal => hit !== null));
+      }
+
+      state.samples++;
+      state.window.push(value);
+      if (state.window.length > limits.window) state.window.splice(0, state.window.length - limits.window);
+    }
+
+    for (const group of sample.related ?? []) {
+      const values = group.map(metric => sample.values[metric]);
+      if (group.length < 2 || values.some(v => !Number.isFinite(v))) continue;
+      const id = group.join('+');
+      let state = channel.groups.get(id);
+      if (!state) {
+        state = { window: [] };
+        channel.groups.set(id, state);
+      }
+      if (state.window.length >= Math.max(limits.warmup, group.length * 5)) {
+        signals.push(...mahalanobisCheck(state, group, values, limits));
+      }
+      state.window.push(values);
+      if (state.window.length > limits.window) state.window.splice(0, state.window.length - limits.window);
+    }
+
+    if (signals.length === 0) {
+      if (channel.alarmed && ++channel.normalRun >= limits.clearAfter) {
+        channel.alarmed = false;
+        channel.severity = null;
+      }
+      return null;
+    }
+    channel.normalRun = 0;
+
+    const detectors = Array.from(new Set(signals.map(s => s.detector))) as AnomalyDetectorId[];
+    const score = Math.max(...signals.map(s => s.score));
+    const severity: SimulationEvent['severity'] = score >= CRITICAL_SCORE || detectors.length >= 2 ? 'critical' : 'warning';
+
+    // Already alarmed: only say more when it gets worse
+    if (channel.alarmed && !(severity === 'critical' && channel.severity === 'warning')) return null;
+    channel.alarmed = true;
+    channel.severity = severity;
+
+    return {
+      type: 'ANOMALY_DETECTED',
+      severity,
+      vesselId: sample.assetId,
+      data: {
+        name: sample.assetName,
+        equipmentId: sample.equipmentId,
+        equipmentName: sample.equipmentName,
+        equipmentType: sample.equipmentType,
+        detectors,
+        score,
+        signals: signals.sort((a, b) => b.score - a.score),
+      },
+      timestamp: sample.timestamp,
+    };
+  }
+
+  return {
+    observe,
+    reset() {
+      channels.clear();
+    },
+  };
+}
+
+// ============================================================================
+// Simulation Model
+// ============================================================================
+
+// Equipment channels on a simulated vessel and the vessel columns they read
+const VESSEL_CHANNELS: Array<{
+  equipmentId: string;
+  equipmentName: string;
+  equipmentType: PMEquipmentType;
+  signals: Record<string, string>;
+  related?: string[][];
+}> = [
+  {
+    equipmentId: 'propulsion',
+    equipmentName: 'Main Engine & Thrusters',
+    equipmentType: 'main_engine',
+    signals: {
+      engine_load_pct: 'engine_load',
+      fuel_rate_tph: 'fuel_rate',
+      thruster_vibration_mm_s: 'vibration',
+      lube_oil_ferro_ppm: 'lube_oil_ferro',
+    },
+    related: [['engine_load', 'fuel_rate', 'vibration']],
+  },
+  {
+    equipmentId: 'mooring-ropes',
+    equipmentName: 'Ropes & Wires',
+    equipmentType: 'wire_rope',
+    signals: { rope_health_score: 'rope_health' },
+  },
+];
+
+/**
+ * Score every vessel's equipment channels each tick (the monitor keeps
+ * per-run state, like the alert model)
+ */
+export function createAnomalyModel(monitor: AnomalyMonitor = createAnomalyMonitor()): SimulationModel {
+  return {
+    id: 'anomalies',
+    name: 'Anomaly Detection',
+    description: 'Rolling z-score, EWMA, seasonal and multivariate detectors on each equipment channel',
+    step(world: SimulationWorld, tick: TickContext) {
+      for (const vessel of world.vessels) {
+        for (const channel of VESSEL_CHANNELS) {
+          const values: Record<string, number> = {};
+          for (const [column, metric] of Object.entries(channel.signals)) {
+            const value = vessel[column];
+            if (typeof value === 'number') values[metric] = value;
+          }
+
+          const event = monitor.observe({
+            assetId: vessel.id,
+            assetName: vessel.name,
+            equipmentId: channel.equipmentId,
+            equipmentName: channel.equipmentName,
+            equipmentType: channel.equipmentType,
+            values,
+            related: channel.related,
+            timestamp: tick.simulatedTime,
+          });
+          if (event) tick.events.push(event);
+        }
+      }
+    },
+  };
+}
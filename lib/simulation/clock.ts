@@ -0,0 +1,37 @@
+/**
+ * Simulation clocks
+ *
+ * The system clock follows wall time for live runs. A manual clock only moves
+ * when the engine advances it, so fixed-step runs (and tests of them) produce
+ * the same simulated timeline every time.
+ */
+
+export interface SimulationClock {
+  now(): number; // epoch ms
+}
+
+export interface ManualClock extends SimulationClock {
+  advance(ms: number): void;
+  set(time: number | Date): void;
+}
+
+export const systemClock: SimulationClock = {
+  now: () => Date.now(),
+};
+
+export function createManualClock(start: number | Date = Date.now()): ManualClock {
+  let current = typeof start === 'number' ? start : start.getTime();
+  return {
+    now: () => current,
+    advance: (ms: number) => {
+      current += ms;
+    },
+    set: (time: number | Date) => {
+      current = typeof time === 'number' ? time : time.getTime();
+    },
+  };
+}
+
+export function isManualClock(clock: SimulationClock): clock is ManualClock {
+  return typeof (clock as ManualClock).advance === 'function';
+}
@@ -0,0 +1,64 @@
+/**
+ * Simulation context - the random source and clock a run draws from
+ *
+ * Engines and models take a SimulationContext instead of calling
+ * Math.random() or Date.now() directly. A seeded context runs on a manual
+ * clock that advances a fixed step per tick, which makes the run
+ * reproducible from (seed, startTime, tickMs) and the initial fleet state.
+ */
+
+import { createRng, Rng } from './random';
+import { createManualClock, isManualClock, SimulationClock, systemClock } from './clock';
+
+export interface SimulationContext {
+  rng: Rng;
+  clock: SimulationClock;
+  seed?: number;
+  startTime: number; // epoch ms
+  tickMs?: number; // Fixed real-time step per tick; undefined = wall clock
+}
+
+export interface SimulationContextOptions {
+  seed?: number | string;
+  startTime?: Date | number;
+  tickMs?: number;
+  clock?: SimulationClock;
+}
+
+export const DEFAULT_TICK_MS = 5000;
+
+export function createSimulationContext(options: SimulationContextOptions = {}): SimulationContext {
+  const rng = createRng(options.seed);
+  const startTime = options.startTime === undefined
+    ? (options.clock ?? systemClock).now()
+    : new Date(options.startTime).getTime();
+  const deterministic = rng.seed !== undefined;
+  const tickMs = options.tickMs ?? (deterministic ? DEFAULT_TICK_MS : undefined);
+  const clock = options.clock ?? (tickMs !== undefined ? createManualClock(startTime) : systemClock);
+
+  return { rng, clock, seed: rng.seed, startTime, tickMs };
+}
+
+/**
+ * Move a fixed-step clock on by one tick; wall clocks move by themselves
+ */
+export function advanceTick(context: SimulationContext): void {
+  if (context.tickMs !== undefined && isManualClock(context.clock)) {
+    context.clock.advance(context.tickMs);
+  }
+}
+
+export function contextNow(context: SimulationContext): Date {
+  return new Date(context.clock.now());
+}
+
+// Active context for callers that do not pass their own
+let activeContext: SimulationContext = createSimulationContext();
+
+export function getSimulationContext(): SimulationContext {
+  return activeContext;
+}
+
+export function setSimulationContext(context: SimulationContext): void {
+  activeContext = context;
+}
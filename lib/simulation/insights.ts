@@ -0,0 +1,132 @@
+/**
+ * Fleet insights from the simulated state
+ *
+ * Threshold checks find fuel, health and fouling issues; Claude turns them
+ * into actionable insights, with rule-based insights as the fallback. Seeded
+ * runs always use the rules so they stay reproducible.
+ */
+
+import { createAnthropic } from '@ai-sdk/anthropic';
+import { generateText } from 'ai';
+import type { SimulationContext } from './context';
+import { AIInsight, SimulationVessel } from './types';
+
+const anthropic = createAnthropic({
+  apiKey: process.env.ANTHROPIC_API_KEY,
+});
+
+export async function runAIAnalysis(vessels: SimulationVessel[], context: SimulationContext): Promise<AIInsight[]> {
+  const now = context.clock.now();
+
+  // Detect issues programmatically first
+  const issues: { type: string; severity: string; vessels: string[]; data: unknown }[] = [];
+
+  // Fuel issues
+  const lowFuel = vessels.filter(v => v.fuel_level < 30);
+  if (lowFuel.length > 0) {
+    issues.push({
+      type: 'LOW_FUEL',
+      severity: lowFuel.some(v => v.fuel_level < 15) ? 'critical' : 'warning',
+      vessels: lowFuel.map(v => v.name),
+      data: lowFuel.map(v => ({ name: v.name, fuel: Math.round(v.fuel_level) })),
+    });
+  }
+
+  // Health issues
+  const lowHealth = vessels.filter(v => v.health_score < 70);
+  if (lowHealth.length > 0) {
+    issues.push({
+      type: 'EQUIPMENT_DEGRADATION',
+      severity: lowHealth.some(v => v.health_score < 60) ? 'critical' : 'warning',
+      vessels: lowHealth.map(v => v.name),
+      data: lowHealth.map(v => ({
+        name: v.name,
+        health: v.health_score,
+        fouling: v.hull_fouling_idx?.toFixed(1),
+        lubeOil: v.lube_oil_ferro_ppm?.toFixed(0),
+      })),
+    });
+  }
+
+  // High fouling
+  const highFouling = vessels.filter(v => v.hull_fouling_idx > 5);
+  if (highFouling.length > 0) {
+    issues.push({
+      type: 'HULL_FOULING',
+      severity: 'warning',
+      vessels: highFouling.map(v => v.name),
+      data: highFouling.map(v => ({
+        name: v.name,
+        fouling: v.hull_fouling_idx?.toFixed(1),
+        fuelPenalty: `+${Math.round(v.hull_fouling_idx * 3)}%`,
+      })),
+    });
+  }
+
+  if (issues.length === 0) {
+    return [];
+  }
+
+  // Fallback: generate basic insights from issues
+  const ruleInsights = () => issues.slice(0, 3).map((issue, i) => ({
+    id: `insight-${now}-${i}`,
+    type: 'alert' as const,
+    severity: issue.severity as 'warning' | 'critical',
+    title: issue.type.replace(/_/g, ' ').toLowerCase(),
+    description: `Detected ${issue.type.toLowerCase().replace(/_/g, ' ')} affecting ${issue.vessels.length} vessel(s). Immediate attention recommended.`,
+    affectedAssets: issue.vessels,
+    suggestedActions: ['Review affected vessels', 'Schedule maintenance', 'Monitor closely'],
+    confidence: 0.85,
+    createdAt: new Date(now).toISOString(),
+  }));
+
+  // Model output cannot be reproduced, so seeded runs stay rule-based
+  if (context.seed !== undefined) {
+    return ruleInsights();
+  }
+
+  // Use AI to generate insights
+  try {
+    const prompt = `You are an AI fleet monitoring system. Generate actionable insights from these detected issues:
+
+${JSON.stringify(issues, null, 2)}
+
+Return a JSON array of 2-4 insights. Each insight must have:
+- id: "insight-{timestamp}-{index}"
+- type: "forecast" | "alert" | "recommendation" | "anomaly"  
+- severity: "info" | "warning" | "critical"
+- title: actionable title (max 50 chars)
+- description: 2 sentences explaining the issue and impact
+- affectedAssets: array of vessel names
+- suggestedActions: 2-3 specific mitigation steps
+- confidence: 0.75-0.95
+- timeframe: when action needed (e.g., "next 2 hours")
+
+Focus on:
+1. Safety-critical issues first
+2. Fuel consumption forecasts
+3. Maintenance recommendations
+4. Operational efficiency
+
+Return ONLY valid JSON array.`;
+
+    const result = await generateText({
+      model: anthropic('claude-sonnet-4-20250514'),
+      prompt,
+    });
+
+    const jsonMatch = result.text.match(/\[[\s\S]*\]/);
+    if (jsonMatch) {
+      const insights = JSON.parse(jsonMatch[0]) as AIInsight[];
+      return insights.map((insight, i) => ({
+        ...insight,
+        id: `insight-${now}-${i}`,
+        createdAt: new Date(now).toISOString(),
+      }));
+    }
+  } catch (error) {
+    console.error('AI analysis error:', error);
+  }
+
+  return ruleInsights();
+}
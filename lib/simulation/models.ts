@@ -0,0 +1,641 @@
+/**
+ * Built-in simulation models
+ *
+ * Each model owns one concern and updates the world in place:
+ * - weather: local conditions at every vessel and asset, fleet-area weather every few ticks
+ * - movement: dead reckoning on heading inside UAE waters, operating mode from speed
+ * - fuel: burn scaled by fuel rate and hull fouling, bunkering when low
+ * - equipment: hull fouling, lube-oil metals, rope and thruster wear, health and PdM risk
+ * - connectivity: radio signal and satellite latency by mode and distance offshore
+ * - offshore-assets: pipeline and compressor process values, DAS leak events
+ * - anomalies: online detectors on each equipment channel (./anomaly)
+ * - alerts: SimulationEvents from what changed in the tick, periodic AI insights
+ */
+
+import { calculateDistanceNm } from '@/lib/geodesy';
+import { FUEL_SPECIFICATIONS } from '@/lib/types/maritime';
+import { createAnomalyModel } from './anomaly';
+import { runAIAnalysis } from './insights';
+import { Rng } from './random';
+import {
+  EquipmentFault,
+  SimulationEvent,
+  SimulationModel,
+  SimulationVessel,
+  SimulationWeather,
+  SimulationWorld,
+  TickContext,
+  WeatherFront,
+} from './types';
+
+// ============================================================================
+// Shared Helpers
+// ============================================================================
+
+// UAE/Persian Gulf water boundaries vessels are kept inside
+const BOUNDS = {
+  lat: { min: 24.2, max: 26.2 },
+  lng: { min: 52.5, max: 56.0 },
+};
+
+const SHORE_STATION = { lat: 24.45, lng: 54.38 }; // Abu Dhabi
+
+// Where vessels return to bunker
+const BUNKER_PORTS = [
+  { name: 'Mina Zayed', lat: 24.52, lng: 54.38 },
+  { name: 'Khalifa Port', lat: 24.8, lng: 54.65 },
+  { name: 'Ruwais', lat: 24.1, lng: 52.73 },
+  { name: 'Jebel Ali', lat: 25.0, lng: 55.06 },
+  { name: 'Fujairah', lat: 25.17, lng: 56.36 },
+];
+
+const MGO_PRICE_USD_T = FUEL_SPECIFICATIONS.MGO.costPerTon;
+
+interface WeatherZone {
+  name: string;
+  center: { lat: number; lng: number };
+  baseConditions: {
+    windSpeed: [number, number];
+    waveHeight: [number, number];
+    visibility: [number, number];
+    temperature: [number, number];
+  };
+}
+
+const WEATHER_ZONES: WeatherZone[] = [
+  {
+    name: 'Abu Dhabi Coastal',
+    center: { lat: 24.5, lng: 54.4 },
+    baseConditions: { windSpeed: [8, 18], waveHeight: [0.5, 1.5], visibility: [8, 15], temperature: [30, 38] },
+  },
+  {
+    name: 'Dubai Maritime',
+    center: { lat: 25.2, lng: 55.3 },
+    baseConditions: { windSpeed: [10, 22], waveHeight: [0.8, 2.0], visibility: [6, 12], temperature: [28, 36] },
+  },
+  {
+    name: 'Fujairah Open Sea',
+    center: { lat: 25.1, lng: 56.3 },
+    baseConditions: { windSpeed: [12, 28], waveHeight: [1.0, 3.0], visibility: [5, 10], temperature: [26, 34] },
+  },
+  {
+    name: 'Das Island Offshore',
+    center: { lat: 25.1, lng: 52.9 },
+    baseConditions: { windSpeed: [15, 30], waveHeight: [1.2, 2.8], visibility: [7, 14], temperature: [29, 37] },
+  },
+  {
+    name: 'Ruwais Industrial',
+    center: { lat: 24.1, lng: 52.7 },
+    baseConditions: { windSpeed: [8, 20], waveHeight: [0.4, 1.2], visibility: [4, 10], temperature: [31, 40] },
+  },
+];
+
+const AREA_WEATHER_EVERY_TICKS = 5;
+const AI_ANALYSIS_INTERVAL_MS = 30000;
+const FUEL_CRITICAL_PCT = 15;
+const MAINTENANCE_DUE_HEALTH = 60;
+const EQUIPMENT_FAILURE_HEALTH = 40;
+const ANOMALY_HEALTH_DROP = 10; // Health points lost in one tick
+const COLLISION_RISK_NM = 0.5;
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+function round(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+function isUnderway(vessel: SimulationVessel): boolean {
+  return vessel.speed > 0 && vessel.status !== 'maintenance' && vessel.op_mode !== 'MAINT';
+}
+
+function nearestWeatherZone(lat: number, lng: number): WeatherZone {
+  let closest = WEATHER_ZONES[0];
+  let closestDistance = Infinity;
+  for (const zone of WEATHER_ZONES) {
+    const distance = calculateDistanceNm(lat, lng, zone.center.lat, zone.center.lng);
+    if (distance < closestDistance) {
+      closestDistance = distance;
+      closest = zone;
+    }
+  }
+  return closest;
+}
+
+/**
+ * Weather at a position from its zone's climate, time of day and rare fronts
+ */
+function localWeather(lat: number, lng: number, at: Date, rng: Rng): SimulationWeather {
+  const zone = nearestWeatherZone(lat, lng);
+  const base = zone.baseConditions;
+  const hour = at.getHours();
+  const isNight = hour < 6 || hour > 18;
+
+  let windSpeed = rng.range(base.windSpeed[0], base.windSpeed[1]);
+  let waveHeight = rng.range(base.waveHeight[0], base.waveHeight[1]);
+  let visibility = rng.range(base.visibility[0], base.visibility[1]);
+  let temperature = rng.range(base.temperature[0], base.temperature[1]);
+
+  if (isNight) {
+    temperature -= 5;
+    windSpeed *= 0.8;
+  }
+
+  let condition: SimulationWeather['condition'] = 'clear';
+  let severity: SimulationWeather['severity'] = 'normal';
+
+  const eventRoll = rng.next();
+  if (eventRoll < 0.02) {
+    condition = 'storm';
+    severity = 'severe';
+    windSpeed = rng.range(35, 50);
+    waveHeight = rng.range(3.5, 6);
+    visibility = rng.range(1, 3);
+  } else if (eventRoll < 0.05) {
+    condition = 'rain';
+    severity = 'warning';
+    windSpeed = rng.range(20, 30);
+    waveHeight = rng.range(2, 3.5);
+    visibility = rng.range(3, 6);
+  } else if (eventRoll < 0.08) {
+    if (hour >= 4 && hour <= 8) {
+      condition = 'fog';
+      severity = 'advisory';
+      visibility = rng.range(0.5, 2);
+    }
+  } else if (eventRoll < 0.15) {
+    condition = 'cloudy';
+  }
+
+  if (severity === 'normal') {
+    if (windSpeed > 25 || waveHeight > 2.5) {
+      severity = 'warning';
+    } else if (windSpeed > 15 || waveHeight > 1.5 || visibility < 5) {
+      severity = 'advisory';
+    }
+  }
+
+  return {
+    zone: zone.name,
+    condition,
+    severity,
+    temperature: Math.round(temperature),
+    wind_speed: round(windSpeed, 1),
+    wind_direction: Math.round(rng.range(0, 360)),
+    wave_height: round(waveHeight, 1),
+    visibility: round(visibility, 1),
+    updated_at: at.toISOString(),
+  };
+}
+
+function inFront(front: WeatherFront, lat: number, lng: number): boolean {
+  return !front.area || calculateDistanceNm(lat, lng, front.area.lat, front.area.lng) <= front.area.radiusNm;
+}
+
+function frontWeather(front: WeatherFront, base: SimulationWeather | null, at: Date): SimulationWeather {
+  return {
+    zone: front.name,
+    condition: front.condition,
+    severity: front.severity,
+    temperature: front.temperature ?? base?.temperature ?? 30,
+    wind_speed: front.wind_speed,
+    wind_direction: front.wind_direction,
+    wave_height: front.wave_height,
+    visibility: front.visibility,
+    updated_at: at.toISOString(),
+  };
+}
+
+function isPortClosed(world: SimulationWorld, port: string): boolean {
+  const closed = world.conditions?.closedPorts ?? [];
+  return closed.some(c => port.toLowerCase().includes(c.port.toLowerCase()) ||
+    c.port.toLowerCase().includes(port.toLowerCase()));
+}
+
+/**
+ * Pin a vessel's equipment signals to at least the scripted fault level
+ */
+function applyFault(vessel: SimulationVessel, fault: EquipmentFault): void {
+  const severity = clamp(fault.severity, 0, 1);
+  switch (fault.component) {
+    case 'engine':
+      vessel.lube_oil_ferro_ppm = Math.max(vessel.lube_oil_ferro_ppm, round(40 + 50 * severity, 1));
+      break;
+    case 'thruster':
+      vessel.thruster_vibration_mm_s = Math.max(vessel.thruster_vibration_mm_s, round(Math.min(10, 5 + 5 * severity), 1));
+      break;
+    case 'rope':
+      vessel.rope_health_score = Math.min(vessel.rope_health_score, round(Math.max(50, 90 - 40 * severity), 1));
+      break;
+    case 'hull':
+      vessel.hull_fouling_idx = Math.max(vessel.hull_fouling_idx, round(Math.min(10, 4 + 6 * severity), 2));
+      break;
+  }
+}
+
+function connectivity(opMode: string | undefined, lat: number, lng: number, rng: Rng) {
+  let baseRssi = -45;
+  let baseLatency = 100;
+
+  switch (opMode) {
+    case 'TRANSIT':
+      baseRssi = -55;
+      baseLatency = 150;
+      break;
+    case 'WORK':
+      baseRssi = -50;
+      baseLatency = 120;
+      break;
+    case 'IDLE':
+    case 'STANDBY':
+      baseRssi = -40;
+      baseLatency = 80;
+      break;
+    case 'MAINT':
+      baseRssi = -35;
+      baseLatency = 60;
+      break;
+  }
+
+  // Distance from shore weakens the link (~5 dBm per 60 nm offshore)
+  const distanceImpact = calculateDistanceNm(lat, lng, SHORE_STATION.lat, SHORE_STATION.lng) / 12;
+
+  return {
+    rssi: Math.round(baseRssi - distanceImpact - rng.range(0, 10)),
+    latency: Math.round(baseLatency + distanceImpact * 20 + rng.range(0, 50)),
+  };
+}
+
+// ============================================================================
+// Models
+// ============================================================================
+
+export const weatherModel: SimulationModel = {
+  id: 'weather',
+  name: 'Weather',
+  description: 'Local conditions at every vessel and asset; fleet-area weather every few ticks; scripted fronts override both',
+  step(world, { context, tick, simulatedTime }) {
+    const { rng } = context;
+    const front = world.conditions?.weatherFront ?? null;
+
+    for (const unit of [...world.vessels, ...world.offshoreAssets]) {
+      const weather = front && inFront(front, unit.position_lat, unit.position_lng)
+        ? frontWeather(front, null, simulatedTime)
+        : null;
+      const local = localWeather(unit.position_lat, unit.position_lng, simulatedTime, rng);
+      unit.wave_height_m = (weather ?? local).wave_height;
+      unit.wind_speed_kn = (weather ?? local).wind_speed;
+      unit.ambient_temp_c = weather?.temperature ?? local.temperature;
+    }
+
+    if (front) {
+      const current = world.weather;
+      if (!current || current.condition !== front.condition || current.severity !== front.severity ||
+          current.wind_speed !== front.wind_speed || current.wave_height !== front.wave_height) {
+        world.weather = frontWeather(front, current, simulatedTime);
+      }
+    } else if ((tick % AREA_WEATHER_EVERY_TICKS === 0 || !world.weather) && world.vessels.length > 0) {
+      const lat = world.vessels.reduce((sum, v) => sum + v.position_lat, 0) / world.vessels.length;
+      const lng = world.vessels.reduce((sum, v) => sum + v.position_lng, 0) / world.vessels.length;
+      world.weather = localWeather(lat, lng, simulatedTime, rng);
+    }
+  },
+};
+
+export const movementModel: SimulationModel = {
+  id: 'movement',
+  name: 'Vessel Movement',
+  description: 'Dead reckoning on heading with small course changes, kept inside UAE waters',
+  step(world, { context, simulatedSeconds }) {
+    const { rng } = context;
+
+    for (const vessel of world.vessels) {
+      if (vessel.status === 'operational') {
+        vessel.op_mode = vessel.speed > 2 ? 'TRANSIT' : vessel.speed > 0 ? 'WORK' : 'IDLE';
+      } else if (vessel.status === 'maintenance') {
+        vessel.op_mode = 'MAINT';
+      }
+
+      if (!isUnderway(vessel)) continue;
+
+      // Nautical miles to degrees
+      const distanceDegrees = (vessel.speed * 1.852 * simulatedSeconds) / 3600 / 111;
+      const headingRad = (vessel.heading * Math.PI) / 180;
+      let lat = vessel.position_lat + distanceDegrees * Math.cos(headingRad);
+      let lng = vessel.position_lng + distanceDegrees * Math.sin(headingRad);
+      let heading = vessel.heading + rng.range(-2, 2);
+
+      // Bounce off boundaries
+      if (lat < BOUNDS.lat.min || lat > BOUNDS.lat.max) {
+        heading = 180 - heading;
+        lat = clamp(lat, BOUNDS.lat.min, BOUNDS.lat.max);
+      }
+      if (lng < BOUNDS.lng.min || lng > BOUNDS.lng.max) {
+        heading = -heading;
+        lng = clamp(lng, BOUNDS.lng.min, BOUNDS.lng.max);
+      }
+
+      vessel.position_lat = round(lat, 4);
+      vessel.position_lng = round(lng, 4);
+      vessel.heading = Math.round(((heading % 360) + 360) % 360);
+    }
+  },
+};
+
+export const fuelModel: SimulationModel = {
+  id: 'fuel',
+  name: 'Fuel Burn',
+  description: 'Burn and cost scaled by fuel rate, hull fouling and fuel price; vessels bunker at the nearest open port when low',
+  step(world, { context, simulatedSeconds }) {
+    const { rng } = context;
+    const hours = simulatedSeconds / 3600;
+    const priceIndex = world.conditions?.fuelPriceIndex ?? 1;
+    const openPorts = BUNKER_PORTS.filter(port => !isPortClosed(world, port.name));
+
+    for (const vessel of world.vessels) {
+      // Heavy fouling adds up to 30% to the fuel rate
+      const fuelRate = vessel.fuel_rate_tph * (1 + (vessel.hull_fouling_idx / 10) * 0.3);
+      vessel.emission_co2_tph = round(fuelRate * 3.114, 2);
+      vessel.fuel_cost_usd_h = Math.round(fuelRate * MGO_PRICE_USD_T * priceIndex);
+      if (vessel.status === 'maintenance') continue;
+
+      // ~0.5% of tank per hour at a typical 1 tph; a full tank lasts ~200 hours
+      let fuelLevel = vessel.fuel_level - 0.5 * (0.5 + fuelRate / 2) * hours;
+
+      // Return-to-port bunkering when low, always when empty; a closed nearest
+      // port means a longer detour, and with every port closed nobody bunkers
+      const nearest = BUNKER_PORTS.reduce((best, port) =>
+        calculateDistanceNm(vessel.position_lat, vessel.position_lng, port.lat, port.lng) <
+        calculateDistanceNm(vessel.position_lat, vessel.position_lng, best.lat, best.lng) ? port : best);
+      const bunkerChance = openPorts.includes(nearest) ? 0.3 : 0.1;
+      if (openPorts.length > 0) {
+        if (fuelLevel <= 0) {
+          fuelLevel = rng.range(60, 90);
+        } else if (fuelLevel < FUEL_CRITICAL_PCT && rng.chance(bunkerChance)) {
+          fuelLevel = rng.range(70, 95);
+        }
+      }
+      vessel.fuel_level = round(Math.max(0, fuelLevel), 1);
+    }
+  },
+};
+
+export const equipmentModel: SimulationModel = {
+  id: 'equipment',
+  name: 'Equipment Wear',
+  description: 'Hull fouling, lube-oil metals, rope and thruster wear; health score and failure risk',
+  step(world, { context, simulatedSeconds }) {
+    const { rng } = context;
+    const hours = simulatedSeconds / 3600;
+
+    for (const vessel of world.vessels) {
+      const working = vessel.op_mode === 'WORK';
+
+      vessel.hull_fouling_idx = round(clamp(vessel.hull_fouling_idx + rng.range(0, 0.005 * hours), 0, 10), 2);
+
+      // Gradual contamination with occasional spikes
+      let lubeIncrease = rng.range(0, 0.3 * hours);
+      if (rng.chance(0.01)) lubeIncrease *= 5;
+      vessel.lube_oil_ferro_ppm = round(clamp(vessel.lube_oil_ferro_ppm + lubeIncrease, 0, 100), 1);
+
+      // Ropes wear while working
+      if (working) {
+        vessel.rope_health_score = round(clamp(vessel.rope_health_score - rng.range(0, 0.05 * hours), 50, 100), 1);
+      }
+
+      // Vibration follows load
+      vessel.thruster_vibration_mm_s = round(clamp((working ? 4 : 2) + rng.range(-0.5, 0.5), 0, 10), 1);
+
+      // Scripted faults hold their signals at the fault level
+      for (const fault of world.conditions?.equipmentFaults ?? []) {
+        if (fault.vesselId === vessel.id) applyFault(vessel, fault);
+      }
+
+      const healthFactors = [
+        (10 - vessel.hull_fouling_idx) / 10,
+        (100 - vessel.lube_oil_ferro_ppm) / 100,
+        vessel.rope_health_score / 100,
+        (10 - vessel.thruster_vibration_mm_s) / 10,
+      ];
+      vessel.health_score = Math.round((healthFactors.reduce((a, b) => a + b, 0) / healthFactors.length) * 100);
+
+      // PdM risk from lube-oil iron, vibration and fouling
+      const lubeRisk = Math.min(100, (vessel.lube_oil_ferro_ppm / 80) * 100);
+      const failureRisk = Math.min(
+        100,
+        lubeRisk * 0.4 + (vessel.thruster_vibration_mm_s / 10) * 30 + (vessel.hull_fouling_idx / 10) * 20
+      );
+      const anomalyFactors = [
+        vessel.hull_fouling_idx / 10,
+        lubeRisk / 100,
+        (100 - vessel.rope_health_score) / 100,
+        vessel.thruster_vibration_mm_s / 10,
+      ];
+      vessel.ai_anomaly_score = round(0.3 + (anomalyFactors.reduce((a, b) => a + b, 0) / anomalyFactors.length) * 0.4, 2);
+      vessel.predicted_failure_risk_pct = Math.round(failureRisk);
+      vessel.safety_state = failureRisk > 50 || vessel.rope_health_score < 60
+        ? 'RED'
+        : failureRisk > 25 || vessel.rope_health_score < 80 ? 'AMBER' : 'GREEN';
+    }
+  },
+};
+
+export const connectivityModel: SimulationModel = {
+  id: 'connectivity',
+  name: 'Connectivity',
+  description: 'Radio signal strength and satellite latency by operating mode and distance offshore',
+  step(world, { context }) {
+    for (const unit of [...world.vessels, ...world.offshoreAssets]) {
+      const link = connectivity(unit.op_mode, unit.position_lat, unit.position_lng, context.rng);
+      unit.connect_rssi_dbm = link.rssi;
+      unit.sat_latency_ms = link.latency;
+    }
+  },
+};
+
+export const offshoreAssetModel: SimulationModel = {
+  id: 'offshore-assets',
+  name: 'Offshore Assets',
+  description: 'Pipeline pressure, temperature and flow, compressor load and vibration, DAS leak events',
+  step(world, { context }) {
+    const { rng } = context;
+    const num = (value: unknown, fallback = 0) => (typeof value === 'number' ? value : fallback);
+
+    for (const asset of world.offshoreAssets) {
+      if (asset.asset_subtype === 'Subsea Pipeline') {
+        if (asset.pipe_pressure_bar) asset.pipe_pressure_bar = round(num(asset.pipe_pressure_bar) + rng.range(-2, 2), 1);
+        if (asset.pipe_temp_c) asset.pipe_temp_c = round(num(asset.pipe_temp_c) + rng.range(-1, 1), 1);
+        if (asset.op_mode === 'ONLINE' && asset.pipe_flow_kbd) {
+          asset.pipe_flow_kbd = round(num(asset.pipe_flow_kbd) + rng.range(-10, 10), 1);
+        }
+
+        // Rare distributed acoustic sensing events raise leak risk until cleared
+        if (rng.chance(0.005)) {
+          asset.das_event_flag = true;
+          asset.leak_risk_pct = Math.min(100, num(asset.leak_risk_pct) + 15);
+          asset.safety_state = 'AMBER';
+        } else if (asset.das_event_flag && rng.chance(0.3)) {
+          asset.das_event_flag = false;
+          asset.leak_risk_pct = Math.max(0, num(asset.leak_risk_pct) - 5);
+          if (num(asset.leak_risk_pct) < 20) asset.safety_state = 'GREEN';
+        }
+      } else if (asset.asset_subtype === 'Platform Compressor' && asset.op_mode === 'ONLINE') {
+        const vibration = clamp(round(num(asset.machine_vibration_mm_s, 4) + rng.range(-0.3, 0.3), 1), 2, 12);
+        const load = clamp(Math.round(num(asset.compressor_load_pct, 75) + rng.range(-3, 3)), 40, 95);
+        asset.machine_vibration_mm_s = vibration;
+        asset.compressor_load_pct = load;
+        if (asset.discharge_pressure_bar) {
+          asset.discharge_pressure_bar = Math.round(num(asset.discharge_pressure_bar) * (load / 80));
+        }
+
+        // Health degrades with high vibration
+        const health = num(asset.health_score, 100);
+        if (vibration > 6) {
+          asset.health_score = Math.max(50, health - rng.range(0, 0.5));
+          asset.ai_anomaly_score = Math.min(0.9, num(asset.ai_anomaly_score, 0.5) + 0.02);
+        }
+
+        if (vibration > 8 || health < 60) {
+          asset.safety_state = 'RED';
+          asset.predicted_failure_risk_pct = Math.min(100, num(asset.predicted_failure_risk_pct) + 5);
+        } else if (vibration > 6 || health < 80) {
+          asset.safety_state = 'AMBER';
+        }
+      }
+    }
+  },
+};
+
+// ============================================================================
+// Alerts
+// ============================================================================
+
+/**
+ * SimulationEvents from what changed in a tick: thresholds crossed, sudden
+ * health drops, moving vessels closing inside collision range, weather fronts
+ */
+export function detectEvents(previous: SimulationWorld, world: SimulationWorld, timestamp: Date): SimulationEvent[] {
+  const events: SimulationEvent[] = [];
+  const before = new Map(previous.vessels.map(v => [v.id, v]));
+
+  for (const vessel of world.vessels) {
+    const prior = before.get(vessel.id);
+    if (!prior) continue;
+
+    if (prior.fuel_level >= FUEL_CRITICAL_PCT && vessel.fuel_level < FUEL_CRITICAL_PCT) {
+      events.push({
+        type: 'FUEL_CRITICAL',
+        severity: 'critical',
+        vesselId: vessel.id,
+        data: { name: vessel.name, fuelLevel: vessel.fuel_level },
+        timestamp,
+      });
+    }
+
+    if (prior.health_score >= EQUIPMENT_FAILURE_HEALTH && vessel.health_score < EQUIPMENT_FAILURE_HEALTH) {
+      events.push({
+        type: 'EQUIPMENT_FAILURE',
+        severity: 'critical',
+        vesselId: vessel.id,
+        data: { name: vessel.name, healthScore: vessel.health_score },
+        timestamp,
+      });
+    } else if (prior.health_score >= MAINTENANCE_DUE_HEALTH && vessel.health_score < MAINTENANCE_DUE_HEALTH) {
+      events.push({
+        type: 'MAINTENANCE_DUE',
+        severity: 'warning',
+        vesselId: vessel.id,
+        data: { name: vessel.name, healthScore: vessel.health_score },
+        timestamp,
+      });
+    } else if (prior.health_score - vessel.health_score >= ANOMALY_HEALTH_DROP) {
+      events.push({
+        type: 'ANOMALY_DETECTED',
+        severity: 'warning',
+        vesselId: vessel.id,
+        data: { name: vessel.name, from: prior.health_score, to: vessel.health_score },
+        timestamp,
+      });
+    }
+  }
+
+  const moving = world.vessels.filter(isUnderway);
+  for (let i = 0; i < moving.length; i++) {
+    for (let j = i + 1; j < moving.length; j++) {
+      const a = moving[i];
+      const b = moving[j];
+      const distance = calculateDistanceNm(a.position_lat, a.position_lng, b.position_lat, b.position_lng);
+      if (distance >= COLLISION_RISK_NM) continue;
+
+      const priorA = before.get(a.id);
+      const priorB = before.get(b.id);
+      const priorDistance = priorA && priorB
+        ? calculateDistanceNm(priorA.position_lat, priorA.position_lng, priorB.position_lat, priorB.position_lng)
+        : Infinity;
+      if (priorDistance >= COLLISION_RISK_NM) {
+        events.push({
+          type: 'COLLISION_RISK',
+          severity: 'warning',
+          vesselId: a.id,
+          data: { vessels: [a.name, b.name], distanceNm: round(distance, 2) },
+          timestamp,
+        });
+      }
+    }
+  }
+
+  const weather = world.weather;
+  const priorWeather = previous.weather;
+  if (weather &&
+      (!priorWeather || priorWeather.condition !== weather.condition || priorWeather.severity !== weather.severity)) {
+    events.push({
+      type: 'WEATHER_CHANGE',
+      severity: weather.severity === 'severe' ? 'critical' : weather.severity === 'normal' ? 'info' : 'warning',
+      data: { ...weather },
+      timestamp,
+    });
+  }
+
+  return events;
+}
+
+/**
+ * Events every tick; AI insights at most every 30 seconds of clock time
+ */
+export function createAlertModel(): SimulationModel {
+  let lastAnalysisTime = -Infinity;
+
+  return {
+    id: 'alerts',
+    name: 'Alerts & Insights',
+    description: 'SimulationEvents from what changed in the tick and periodic AI fleet insights',
+    async step(world: SimulationWorld, tick: TickContext) {
+      tick.events.push(...detectEvents(tick.previous, world, tick.simulatedTime));
+
+      const now = tick.context.clock.now();
+      if (now - lastAnalysisTime > AI_ANALYSIS_INTERVAL_MS) {
+        lastAnalysisTime = now;
+        tick.insights.push(...await runAIAnalysis(world.vessels, tick.context));
+      }
+    },
+  };
+}
+
+/**
+ * Fresh built-in models in pipeline order (the anomaly and alert models keep
+ * per-run state)
+ */
+export function createBuiltInModels(): SimulationModel[] {
+  return [
+    weatherModel,
+    movementModel,
+    fuelModel,
+    equipmentModel,
+    connectivityModel,
+    offshoreAssetModel,
+    createAnomalyModel(),
+    createAlertModel(),
+  ];
+}
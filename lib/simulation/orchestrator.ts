@@ -1,26 +1,50 @@
 /**
  * AI-Powered Simulation Orchestrator
- * 
- * This module provides a centralized, AI-driven simulation engine that:
- * 1. Manages vessel movements, fuel consumption, and equipment degradation
- * 2. Generates realistic weather patterns
- * 3. Creates AI-driven events and anomalies
- * 4. Produces intelligent alerts with mitigation recommendations
- * 5. Maintains simulation state and timing
+ *
+ * The single entry point for the simulation:
+ * 1. Keeps simulation timing (speed multiplier, simulated clock, tick count)
+ * 2. Runs the tick pipeline - weather, movement, fuel, equipment wear,
+ *    connectivity, offshore assets and alerts are model plugins (./models)
+ * 3. Loads and persists the world through the sink chosen at startup (./sinks)
+ * 4. Collects SimulationEvents and AI insights with mitigation recommendations
+ * 5. Records ticks and replays recorded logs through the same sink
+ * 6. Runs scripted scenarios (./scenario) as a model ahead of the built-ins
+ * 7. Feeds each tick's vessel sensor readings to the telemetry store
  */
 
-import { createClient } from '@supabase/supabase-js';
-import { createAnthropic } from '@ai-sdk/anthropic';
-import { generateText } from 'ai';
-
-// Initialize clients
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || 'https://placeholder.supabase.co';
-const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || 'placeholder-key';
-const supabase = createClient(supabaseUrl, supabaseKey);
-
-const anthropic = createAnthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-});
+import {
+  advanceTick,
+  createSimulationContext,
+  DEFAULT_TICK_MS,
+  getSimulationContext,
+  setSimulationContext,
+  SimulationContext,
+  SimulationContextOptions,
+} from './context';
+import { SimulationPipeline } from './pipeline';
+import {
+  createRecording,
+  loadRecording,
+  recordTick,
+  saveRecording,
+  SimulationRecording,
+  SimulationTickRecord,
+} from './recorder';
+import { createReplayPlayer, ReplayPlayer, ReplayStatus } from './replay';
+import { createScenarioRunner, ScenarioDefinition, ScenarioRunner, ScenarioStatus } from './scenario';
+import { createSink, createSinkFromEnv, normaliseVessel, SIMULATED_VESSEL_FIELDS } from './sinks';
+import { primeStream, publishSnapshot, publishTick, resetStream, subscriberCount } from './stream';
+import { recordVesselTelemetry } from '@/lib/telemetry/store';
+import {
+  AIInsight,
+  SimulationEvent,
+  SimulationModel,
+  SimulationSink,
+  SimulationWeather,
+  SimulationWorld,
+} from './types';
+
+export type { AIInsight, SimulationEvent } from './types';
 
 // ============================================================================
 // TYPES
@@ -35,519 +59,490 @@ export interface SimulationState {
   lastTickTime: number;
 }
 
-export interface AIInsight {
-  id: string;
-  type: 'forecast' | 'alert' | 'recommendation' | 'anomaly';
-  severity: 'info' | 'warning' | 'critical';
-  title: string;
-  description: string;
-  affectedAssets: string[];
-  suggestedActions: string[];
-  confidence: number;
-  timeframe?: string;
-  createdAt: string;
-}
-
-export interface SimulationEvent {
-  type: 'EQUIPMENT_FAILURE' | 'WEATHER_CHANGE' | 'FUEL_CRITICAL' | 'COLLISION_RISK' | 'MAINTENANCE_DUE' | 'ANOMALY_DETECTED';
-  severity: 'info' | 'warning' | 'critical';
-  vesselId?: string;
-  assetId?: string;
-  data: Record<string, unknown>;
-  timestamp: Date;
+export interface SimulationStatus extends SimulationState {
+  mode: 'live' | 'replay';
+  seed?: number;
+  tickMs?: number;
+  sink: SimulationSink['id'];
+  models: string[];
+  recording: { id: string; name: string; ticks: number } | null;
+  replay: ReplayStatus | null;
+  scenario: ScenarioStatus | null;
 }
 
-interface Vessel {
-  id: string;
-  name: string;
-  type: string;
-  status: string;
-  position_lat: number;
-  position_lng: number;
-  heading: number;
-  speed: number;
-  fuel_level: number;
-  health_score: number;
-  hull_fouling_idx: number;
-  lube_oil_ferro_ppm: number;
-  rope_health_score: number;
-  thruster_vibration: number;
-  op_mode: string;
-  fuel_rate_tph: number;
-  project?: string;
+export interface SimulationTickResult {
+  success: boolean;
+  mode: 'live' | 'replay';
+  tickNumber: number;
+  simulatedSeconds: number;
+  vesselsUpdated: number;
+  offshoreAssetsUpdated: number;
+  weatherUpdated: boolean;
+  events: SimulationEvent[];
+  insights: AIInsight[];
+  finished?: boolean; // Replay reached the end of the log
+  error?: string;
 }
 
 // ============================================================================
 // SIMULATION STATE (In-memory)
 // ============================================================================
 
-let simulationState: SimulationState = {
-  isRunning: false,
-  speedMultiplier: 60,
-  simulatedTime: new Date(),
-  realStartTime: new Date(),
-  tickCount: 0,
-  lastTickTime: Date.now(),
-};
-
-let pendingInsights: AIInsight[] = [];
-let lastAIAnalysisTime = 0;
-const AI_ANALYSIS_INTERVAL = 30000; // Run AI analysis every 30 seconds
-
-// ============================================================================
-// HELPER FUNCTIONS
-// ============================================================================
-
-function randomInRange(min: number, max: number): number {
-  return Math.random() * (max - min) + min;
-}
-
-function clamp(value: number, min: number, max: number): number {
-  return Math.max(min, Math.min(max, value));
+interface OrchestratorRuntime {
+  context: SimulationContext;
+  state: SimulationState;
+  pipeline: SimulationPipeline;
+  sink: SimulationSink;
+  world: SimulationWorld | null; // Last world written
+  pendingInsights: AIInsight[];
+  recording: SimulationRecording | null;
+  replay: ReplayPlayer | null;
+  scenario: ScenarioRunner | null;
 }
 
-// UAE/Persian Gulf WATER boundaries (avoiding land)
-// These coordinates are specifically in the Persian Gulf and Gulf of Oman
-const BOUNDS = {
-  lat: { min: 24.2, max: 26.2 },
-  lng: { min: 52.5, max: 56.0 },
-};
-
-// Key water locations for spawning vessels
-const WATER_ZONES = [
-  { name: 'Abu Dhabi Port', lat: 24.45, lng: 54.37 },
-  { name: 'Dubai Port', lat: 25.27, lng: 55.28 },
-  { name: 'Jebel Ali', lat: 25.02, lng: 55.03 },
-  { name: 'Fujairah', lat: 25.13, lng: 56.35 },
-  { name: 'Das Island', lat: 25.15, lng: 52.87 },
-  { name: 'Zirku Island', lat: 24.88, lng: 53.07 },
-  { name: 'Mubarraz', lat: 24.23, lng: 53.35 },
-  { name: 'Offshore Field 1', lat: 24.8, lng: 53.5 },
-  { name: 'Offshore Field 2', lat: 25.5, lng: 54.2 },
-  { name: 'Offshore Field 3', lat: 24.6, lng: 54.8 },
-];
-
-// Weather zones with characteristics
-const WEATHER_ZONES = [
-  { name: 'Abu Dhabi Coastal', lat: 24.4, lng: 54.4, baseTemp: 32, baseWind: 12, baseWave: 0.8 },
-  { name: 'Dubai Maritime', lat: 25.2, lng: 55.3, baseTemp: 33, baseWind: 15, baseWave: 1.0 },
-  { name: 'Fujairah Open Sea', lat: 25.1, lng: 56.3, baseTemp: 30, baseWind: 18, baseWave: 1.5 },
-  { name: 'Das Island Offshore', lat: 25.1, lng: 52.9, baseTemp: 31, baseWind: 20, baseWave: 1.8 },
-  { name: 'Ruwais Industrial', lat: 24.1, lng: 52.7, baseTemp: 34, baseWind: 14, baseWave: 0.6 },
-];
+// Plugin models, re-added to the pipeline of every new runtime
+const registeredModels: SimulationModel[] = [];
 
-// ============================================================================
-// VESSEL SIMULATION
-// ============================================================================
-
-function simulateVesselMovement(vessel: Vessel, deltaSeconds: number): Partial<Vessel> {
-  const speed = vessel.speed ?? 0;
-  const heading = vessel.heading ?? 0;
-  const posLat = vessel.position_lat ?? 24.8;
-  const posLng = vessel.position_lng ?? 54.0;
-  const opMode = vessel.op_mode ?? 'IDLE';
-  
-  // Skip stationary vessels
-  if (speed <= 0 || opMode === 'MAINT' || vessel.status === 'maintenance') {
-    return {};
-  }
-
-  // Calculate distance traveled (nautical miles to degrees)
-  const speedKmH = speed * 1.852;
-  const distanceKm = (speedKmH * deltaSeconds) / 3600;
-  const distanceDegrees = distanceKm / 111;
-
-  // Calculate new position
-  const headingRad = (heading * Math.PI) / 180;
-  let newLat = posLat + distanceDegrees * Math.cos(headingRad);
-  let newLng = posLng + distanceDegrees * Math.sin(headingRad);
-  let newHeading = heading + randomInRange(-2, 2);
-
-  // Bounce off boundaries
-  if (newLat < BOUNDS.lat.min || newLat > BOUNDS.lat.max) {
-    newHeading = 180 - newHeading;
-    newLat = clamp(newLat, BOUNDS.lat.min, BOUNDS.lat.max);
-  }
-  if (newLng < BOUNDS.lng.min || newLng > BOUNDS.lng.max) {
-    newHeading = -newHeading;
-    newLng = clamp(newLng, BOUNDS.lng.min, BOUNDS.lng.max);
-  }
-
-  newHeading = ((newHeading % 360) + 360) % 360;
-
-  return {
-    position_lat: newLat,
-    position_lng: newLng,
-    heading: newHeading,
-  };
-}
-
-function simulateFuelConsumption(vessel: Vessel, deltaSeconds: number): Partial<Vessel> {
-  // Base fuel consumption rate (tons per hour)
-  let fuelRate = vessel.fuel_rate_tph ?? 0.5;
-
-  // Adjust for hull fouling (up to 30% penalty at max fouling)
-  const foulingPenalty = 1 + (vessel.hull_fouling_idx ?? 0) * 0.03;
-  fuelRate *= foulingPenalty;
-
-  // Adjust for speed (quadratic relationship)
-  const speedFactor = Math.pow((vessel.speed ?? 0) / 8, 2);
-  fuelRate *= Math.max(0.3, speedFactor);
-
-  // Calculate fuel consumed
-  const fuelTonsUsed = (fuelRate * deltaSeconds) / 3600;
-  const fuelPercentUsed = (fuelTonsUsed / 1000) * 100;
-
-  let newFuelLevel = Math.max(0, (vessel.fuel_level ?? 100) - fuelPercentUsed);
-
-  // Auto-refuel when critically low (simulates returning to port)
-  if (newFuelLevel < 10 && Math.random() < 0.3) {
-    newFuelLevel = randomInRange(70, 95);
-  }
-
-  return { fuel_level: newFuelLevel };
-}
-
-function simulateEquipmentDegradation(vessel: Vessel, deltaSeconds: number): Partial<Vessel> {
-  const hoursFactor = deltaSeconds / 3600;
-
-  // Use default values if fields don't exist in database
-  const currentHullFouling = vessel.hull_fouling_idx ?? 2;
-  const currentLubeOil = vessel.lube_oil_ferro_ppm ?? 20;
-  const currentRopeHealth = vessel.rope_health_score ?? 95;
-  const currentOpMode = vessel.op_mode ?? 'IDLE';
-
-  // Hull fouling - slow increase
-  const newHullFouling = clamp(
-    currentHullFouling + randomInRange(0, 0.005 * hoursFactor),
-    0,
-    10
-  );
-
-  // Lube oil contamination - gradual increase with occasional spikes
-  let lubeOilIncrease = randomInRange(0, 0.3 * hoursFactor);
-  if (Math.random() < 0.01) lubeOilIncrease *= 5; // Occasional spike
-  const newLubeOil = clamp(currentLubeOil + lubeOilIncrease, 0, 100);
-
-  // Rope health - gradual decrease for working vessels
-  let ropeDecrease = 0;
-  if (currentOpMode === 'WORK') {
-    ropeDecrease = randomInRange(0, 0.05 * hoursFactor);
-  }
-  const newRopeHealth = clamp(currentRopeHealth - ropeDecrease, 50, 100);
-
-  // Thruster vibration - fluctuates based on load
-  const baseVibration = currentOpMode === 'WORK' ? 4 : 2;
-  const newVibration = clamp(
-    baseVibration + randomInRange(-0.5, 0.5),
-    0,
-    10
-  );
-
-  // Calculate overall health score
-  const healthFactors = [
-    (10 - newHullFouling) / 10,
-    (100 - newLubeOil) / 100,
-    newRopeHealth / 100,
-    (10 - newVibration) / 10,
-  ];
-  const newHealthScore = Math.round(
-    healthFactors.reduce((a, b) => a + b, 0) / healthFactors.length * 100
-  );
-
-  // Only return fields that exist in the database schema
-  // The orchestrator will try to update these, but DB will ignore non-existent columns
+function createRuntime(context: SimulationContext, sink: SimulationSink): OrchestratorRuntime {
+  const now = context.clock.now();
+  const pipeline = new SimulationPipeline();
+  registeredModels.forEach(model => pipeline.register(model));
   return {
-    health_score: newHealthScore,
+    context,
+    state: {
+      isRunning: false,
+      speedMultiplier: 60,
+      simulatedTime: new Date(context.startTime),
+      realStartTime: new Date(now),
+      tickCount: 0,
+      lastTickTime: now,
+    },
+    pipeline,
+    sink,
+    world: null,
+    pendingInsights: [],
+    recording: null,
+    replay: null,
+    scenario: null,
   };
 }
 
-// ============================================================================
-// WEATHER SIMULATION
-// ============================================================================
-
-function simulateWeather(): Record<string, unknown> {
-  const hour = new Date().getHours();
-  const isNight = hour < 6 || hour > 20;
-  
-  // Select a random zone for weather generation
-  const zone = WEATHER_ZONES[Math.floor(Math.random() * WEATHER_ZONES.length)];
-
-  // Time-based variations
-  const tempVariation = isNight ? -5 : randomInRange(-2, 3);
-  const windVariation = isNight ? 0.8 : 1;
-
-  // Generate weather conditions
-  const conditions = ['clear', 'cloudy', 'partly_cloudy', 'overcast'];
-  const weights = isNight ? [0.6, 0.2, 0.15, 0.05] : [0.4, 0.25, 0.25, 0.1];
-  let condition = 'clear';
-  const rand = Math.random();
-  let cumWeight = 0;
-  for (let i = 0; i < conditions.length; i++) {
-    cumWeight += weights[i];
-    if (rand < cumWeight) {
-      condition = conditions[i];
-      break;
-    }
-  }
+let runtime: OrchestratorRuntime = createRuntime(getSimulationContext(), createSinkFromEnv());
+console.log(`[Simulation] Using ${runtime.sink.id} sink`);
 
-  // Occasional adverse weather
-  let severity = 'normal';
-  if (Math.random() < 0.05) {
-    condition = Math.random() < 0.7 ? 'rain' : 'storm';
-    severity = condition === 'storm' ? 'severe' : 'advisory';
+function addInsights(insights: AIInsight[]): void {
+  if (insights.length > 0) {
+    runtime.pendingInsights = [...insights, ...runtime.pendingInsights].slice(0, 10);
   }
-
-  const windSpeed = Math.round((zone.baseWind + randomInRange(-5, 8)) * windVariation);
-  const waveHeight = Math.round((zone.baseWave + randomInRange(-0.3, 0.5)) * 10) / 10;
-
-  return {
-    zone: zone.name,
-    condition,
-    severity,
-    temperature: Math.round(zone.baseTemp + tempVariation),
-    wind_speed: windSpeed,
-    wind_direction: ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'][Math.floor(Math.random() * 8)],
-    wave_height: Math.max(0.2, waveHeight),
-    visibility: condition === 'storm' ? randomInRange(0.5, 2) : condition === 'fog' ? randomInRange(0.2, 1) : randomInRange(8, 15),
-    updated_at: new Date().toISOString(),
-  };
 }
 
 // ============================================================================
-// AI ANALYSIS & INSIGHTS
+// SIMULATION TICK
 // ============================================================================
 
-async function runAIAnalysis(vessels: Vessel[]): Promise<AIInsight[]> {
-  // Detect issues programmatically first
-  const issues: { type: string; severity: string; vessels: string[]; data: unknown }[] = [];
-
-  // Fuel issues
-  const lowFuel = vessels.filter(v => v.fuel_level < 30);
-  if (lowFuel.length > 0) {
-    issues.push({
-      type: 'LOW_FUEL',
-      severity: lowFuel.some(v => v.fuel_level < 15) ? 'critical' : 'warning',
-      vessels: lowFuel.map(v => v.name),
-      data: lowFuel.map(v => ({ name: v.name, fuel: Math.round(v.fuel_level) })),
-    });
+export async function runSimulationTick(): Promise<SimulationTickResult> {
+  if (runtime.replay) {
+    return runReplayTick(runtime.replay);
   }
 
-  // Health issues
-  const lowHealth = vessels.filter(v => v.health_score < 70);
-  if (lowHealth.length > 0) {
-    issues.push({
-      type: 'EQUIPMENT_DEGRADATION',
-      severity: lowHealth.some(v => v.health_score < 60) ? 'critical' : 'warning',
-      vessels: lowHealth.map(v => v.name),
-      data: lowHealth.map(v => ({
-        name: v.name,
-        health: v.health_score,
-        fouling: v.hull_fouling_idx?.toFixed(1),
-        lubeOil: v.lube_oil_ferro_ppm?.toFixed(0),
-      })),
-    });
-  }
+  const { context, state, pipeline, sink } = runtime;
+  advanceTick(context);
+  const now = context.clock.now();
+  const realElapsed = (now - state.lastTickTime) / 1000;
 
-  // High fouling
-  const highFouling = vessels.filter(v => v.hull_fouling_idx > 5);
-  if (highFouling.length > 0) {
-    issues.push({
-      type: 'HULL_FOULING',
-      severity: 'warning',
-      vessels: highFouling.map(v => v.name),
-      data: highFouling.map(v => ({
-        name: v.name,
-        fouling: v.hull_fouling_idx?.toFixed(1),
-        fuelPenalty: `+${Math.round(v.hull_fouling_idx * 3)}%`,
-      })),
-    });
-  }
+  state.lastTickTime = now;
+  state.tickCount++;
 
-  if (issues.length === 0) {
-    return [];
-  }
-
-  // Use AI to generate insights
   try {
-    const prompt = `You are an AI fleet monitoring system. Generate actionable insights from these detected issues:
-
-${JSON.stringify(issues, null, 2)}
-
-Return a JSON array of 2-4 insights. Each insight must have:
-- id: "insight-{timestamp}-{index}"
-- type: "forecast" | "alert" | "recommendation" | "anomaly"  
-- severity: "info" | "warning" | "critical"
-- title: actionable title (max 50 chars)
-- description: 2 sentences explaining the issue and impact
-- affectedAssets: array of vessel names
-- suggestedActions: 2-3 specific mitigation steps
-- confidence: 0.75-0.95
-- timeframe: when action needed (e.g., "next 2 hours")
-
-Focus on:
-1. Safety-critical issues first
-2. Fuel consumption forecasts
-3. Maintenance recommendations
-4. Operational efficiency
-
-Return ONLY valid JSON array.`;
-
-    const result = await generateText({
-      model: anthropic('claude-sonnet-4-20250514'),
-      prompt,
+    const { world, outcome } = await pipeline.tick(sink, {
+      context,
+      tick: state.tickCount,
+      simulatedSeconds: realElapsed * state.speedMultiplier,
+      startTime: state.simulatedTime,
     });
 
-    const jsonMatch = result.text.match(/\[[\s\S]*\]/);
-    if (jsonMatch) {
-      const insights = JSON.parse(jsonMatch[0]) as AIInsight[];
-      return insights.map((insight, i) => ({
-        ...insight,
-        id: `insight-${Date.now()}-${i}`,
-        createdAt: new Date().toISOString(),
-      }));
+    state.simulatedTime = outcome.simulatedTime;
+    runtime.world = world;
+    addInsights(outcome.insights);
+    publishTick(world, outcome);
+    recordVesselTelemetry(world.vessels, state.simulatedTime);
+
+    if (runtime.recording) {
+      recordTick(runtime.recording, {
+        tick: state.tickCount,
+        realTime: new Date(now).toISOString(),
+        simulatedTime: state.simulatedTime.toISOString(),
+        simulatedSeconds: outcome.simulatedSeconds,
+        vessels: world.vessels,
+        weather: outcome.weatherChanged && world.weather ? world.weather : undefined,
+        events: outcome.events,
+        insights: outcome.insights,
+      });
     }
+
+    return {
+      success: true,
+      mode: 'live',
+      tickNumber: state.tickCount,
+      simulatedSeconds: outcome.simulatedSeconds,
+      vesselsUpdated: world.vessels.length,
+      offshoreAssetsUpdated: world.offshoreAssets.length,
+      weatherUpdated: outcome.weatherChanged,
+      events: outcome.events,
+      insights: outcome.insights,
+    };
   } catch (error) {
-    console.error('AI analysis error:', error);
+    console.error('[Simulation] Tick failed:', error);
+    return {
+      success: false,
+      mode: 'live',
+      tickNumber: state.tickCount,
+      simulatedSeconds: 0,
+      vesselsUpdated: 0,
+      offshoreAssetsUpdated: 0,
+      weatherUpdated: false,
+      events: [],
+      insights: [],
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
   }
-
-  // Fallback: generate basic insights from issues
-  return issues.slice(0, 3).map((issue, i) => ({
-    id: `insight-${Date.now()}-${i}`,
-    type: 'alert' as const,
-    severity: issue.severity as 'warning' | 'critical',
-    title: issue.type.replace(/_/g, ' ').toLowerCase(),
-    description: `Detected ${issue.type.toLowerCase().replace(/_/g, ' ')} affecting ${issue.vessels.length} vessel(s). Immediate attention recommended.`,
-    affectedAssets: issue.vessels,
-    suggestedActions: ['Review affected vessels', 'Schedule maintenance', 'Monitor closely'],
-    confidence: 0.85,
-    createdAt: new Date().toISOString(),
-  }));
 }
 
-// ============================================================================
-// MAIN ORCHESTRATOR
-// ============================================================================
-
-export async function runSimulationTick(): Promise<{
-  success: boolean;
-  tickNumber: number;
-  simulatedSeconds: number;
-  vesselsUpdated: number;
-  insights: AIInsight[];
-  error?: string;
-}> {
-  const now = Date.now();
-  const realElapsed = (now - simulationState.lastTickTime) / 1000;
-  const simulatedSeconds = realElapsed * simulationState.speedMultiplier;
+/**
+ * Apply the recorded ticks the replay playhead has passed
+ * The recorded state is written through the same sink as a live tick.
+ */
+async function runReplayTick(player: ReplayPlayer): Promise<SimulationTickResult> {
+  const frames = player.advance();
+  return applyReplayFrames(player, frames);
+}
 
-  simulationState.lastTickTime = now;
-  simulationState.tickCount++;
-  simulationState.simulatedTime = new Date(
-    simulationState.simulatedTime.getTime() + simulatedSeconds * 1000
-  );
+async function applyReplayFrames(player: ReplayPlayer, frames: SimulationTickRecord[]): Promise<SimulationTickResult> {
+  const { state, sink, context } = runtime;
+  const status = player.status();
 
   try {
-    // Fetch all vessels
-    const { data: vessels, error: fetchError } = await supabase
-      .from('vessels')
-      .select('*');
+    // Only the latest state of each vessel needs writing
+    const latest = new Map<string, Record<string, unknown>>();
+    let weather: SimulationWeather | undefined;
+    for (const frame of frames) {
+      frame.vessels.forEach(v => latest.set(v.id, v));
+      if (frame.weather) weather = frame.weather;
+    }
 
-    if (fetchError || !vessels) {
-      throw new Error(`Failed to fetch vessels: ${fetchError?.message}`);
+    const last = frames[frames.length - 1];
+    if (last) {
+      state.tickCount = last.tick;
+      state.simulatedTime = new Date(last.simulatedTime);
     }
 
-    // Update each vessel
-    const updates = vessels.map((vessel: Vessel) => {
-      const movement = simulateVesselMovement(vessel, simulatedSeconds);
-      const fuel = simulateFuelConsumption(vessel, simulatedSeconds);
-      const equipment = simulateEquipmentDegradation(vessel, simulatedSeconds);
-
-      return {
-        id: vessel.id,
-        ...movement,
-        ...fuel,
-        ...equipment,
-        updated_at: new Date().toISOString(),
-      };
+    const world = await sink.load(context);
+    world.vessels = world.vessels.map(vessel => {
+      const snapshot = latest.get(vessel.id);
+      if (!snapshot) return vessel;
+      const replayed = { ...vessel };
+      for (const field of SIMULATED_VESSEL_FIELDS) {
+        if (snapshot[field] !== undefined) replayed[field] = snapshot[field];
+      }
+      return normaliseVessel(replayed);
     });
+    if (weather) world.weather = weather;
 
-    // Batch update vessels
-    for (const update of updates) {
-      await supabase.from('vessels').update(update).eq('id', update.id);
-    }
+    const events = frames.flatMap(f => f.events);
+    const insights = frames.flatMap(f => f.insights);
+    const simulatedSeconds = frames.reduce((sum, f) => sum + f.simulatedSeconds, 0);
 
-    // Update weather periodically
-    if (simulationState.tickCount % 5 === 0) {
-      const weather = simulateWeather();
-      await supabase.from('weather').update(weather).eq('id', 1);
-    }
-
-    // Run AI analysis periodically
-    let newInsights: AIInsight[] = [];
-    if (now - lastAIAnalysisTime > AI_ANALYSIS_INTERVAL) {
-      lastAIAnalysisTime = now;
-      newInsights = await runAIAnalysis(vessels as Vessel[]);
-      pendingInsights = [...newInsights, ...pendingInsights].slice(0, 10);
-    }
+    await sink.write(world, {
+      tick: state.tickCount,
+      simulatedTime: state.simulatedTime,
+      simulatedSeconds,
+      weatherChanged: Boolean(weather),
+      events,
+      insights,
+    });
+    runtime.world = world;
+    addInsights([...insights].reverse());
+    publishTick(world, {
+      tick: state.tickCount,
+      simulatedTime: state.simulatedTime,
+      weatherChanged: Boolean(weather),
+      events,
+      insights,
+    });
+    recordVesselTelemetry(world.vessels, state.simulatedTime);
 
     return {
       success: true,
-      tickNumber: simulationState.tickCount,
+      mode: 'replay',
+      tickNumber: state.tickCount,
       simulatedSeconds,
-      vesselsUpdated: vessels.length,
-      insights: newInsights,
+      vesselsUpdated: latest.size,
+      offshoreAssetsUpdated: 0,
+      weatherUpdated: Boolean(weather),
+      events,
+      insights,
+      finished: status.finished,
     };
   } catch (error) {
     return {
       success: false,
-      tickNumber: simulationState.tickCount,
-      simulatedSeconds,
+      mode: 'replay',
+      tickNumber: state.tickCount,
+      simulatedSeconds: 0,
       vesselsUpdated: 0,
+      offshoreAssetsUpdated: 0,
+      weatherUpdated: false,
+      events: [],
       insights: [],
+      finished: status.finished,
       error: error instanceof Error ? error.message : 'Unknown error',
     };
   }
 }
 
-export function getSimulationState(): SimulationState {
-  return { ...simulationState };
+// ============================================================================
+// CONTROL
+// ============================================================================
+
+export function getSimulationState(): SimulationStatus {
+  const { context, state, sink, pipeline, recording, replay, scenario } = runtime;
+  return {
+    ...state,
+    mode: replay ? 'replay' : 'live',
+    seed: context.seed,
+    tickMs: context.tickMs,
+    sink: sink.id,
+    models: pipeline.getModels().map(m => m.id),
+    recording: recording ? { id: recording.id, name: recording.name, ticks: recording.ticks.length } : null,
+    replay: replay ? replay.status() : null,
+    scenario: scenario ? scenario.status() : null,
+  };
+}
+
+/**
+ * The world as of the last tick, loading it from the sink before the first
+ */
+export async function getSimulationWorld(): Promise<SimulationWorld> {
+  if (!runtime.world) {
+    runtime.world = await runtime.sink.load(runtime.context);
+  }
+  return runtime.world;
+}
+
+export function getSimulationModels(): Array<{ id: string; name: string; description: string }> {
+  return runtime.pipeline.getModels();
+}
+
+/**
+ * Add a model to the tick pipeline, replacing any built-in with the same id
+ * The model stays registered across simulation resets.
+ */
+export function registerSimulationModel(model: SimulationModel): void {
+  const existing = registeredModels.findIndex(m => m.id === model.id);
+  if (existing >= 0) registeredModels[existing] = model;
+  else registeredModels.push(model);
+  runtime.pipeline.register(model);
 }
 
 export function setSimulationSpeed(speed: number): void {
-  simulationState.speedMultiplier = Math.max(1, Math.min(3600, speed));
-  simulationState.lastTickTime = Date.now();
+  runtime.state.speedMultiplier = Math.max(1, Math.min(3600, speed));
+  runtime.state.lastTickTime = runtime.context.clock.now();
 }
 
 export function startSimulation(): void {
-  simulationState.isRunning = true;
-  simulationState.realStartTime = new Date();
-  simulationState.simulatedTime = new Date();
-  simulationState.lastTickTime = Date.now();
+  const { state, context } = runtime;
+  state.isRunning = true;
+  state.realStartTime = new Date(context.clock.now());
+  state.simulatedTime = new Date(context.clock.now());
+  state.lastTickTime = context.clock.now();
 }
 
 export function stopSimulation(): void {
-  simulationState.isRunning = false;
+  runtime.state.isRunning = false;
 }
 
 export function getPendingInsights(): AIInsight[] {
-  return pendingInsights;
+  return runtime.pendingInsights;
 }
 
 export function clearInsights(): void {
-  pendingInsights = [];
+  runtime.pendingInsights = [];
 }
 
-export function resetSimulation(): void {
-  simulationState = {
-    isRunning: false,
-    speedMultiplier: 60,
-    simulatedTime: new Date(),
-    realStartTime: new Date(),
-    tickCount: 0,
-    lastTickTime: Date.now(),
-  };
-  pendingInsights = [];
-  lastAIAnalysisTime = 0;
+/**
+ * Reset the orchestrator, optionally onto a new seed and clock
+ * With a seed the run is reproducible: same seed, start time, tick step and
+ * starting fleet give the same ticks. In-process sinks reseed their fleet.
+ */
+export function resetSimulation(options?: SimulationContextOptions): void {
+  const context = createSimulationContext(options ?? {
+    seed: runtime.context.seed,
+    tickMs: runtime.context.tickMs,
+  });
+  setSimulationContext(context);
+  runtime = createRuntime(context, createSink(runtime.sink.id));
+  resetStream();
+  getSimulationWorld()
+    .then(publishSnapshot)
+    .catch(error => console.error('[Simulation] Failed to load the reset world for the stream:', error));
+}
+
+// ============================================================================
+// SCENARIOS
+// ============================================================================
+
+/**
+ * Run a scenario from the next tick on, replacing any running one
+ * A scenario with a seed (or reset: true) starts from a fresh world so a
+ * drill plays out the same way every time.
+ */
+export function startScenario(definition: ScenarioDefinition, options: { reset?: boolean } = {}): ScenarioStatus {
+  if (runtime.replay) {
+    throw new Error('Cannot run a scenario while replaying');
+  }
+
+  if (definition.seed !== undefined || options.reset) {
+    resetSimulation({
+      seed: definition.seed ?? runtime.context.seed,
+      tickMs: runtime.context.tickMs,
+    });
+  }
+  if (definition.speedMultiplier !== undefined) {
+    setSimulationSpeed(definition.speedMultiplier);
+  }
+
+  const runner = createScenarioRunner(definition);
+  runtime.pipeline.register(runner.model, { before: 'weather' });
+  runtime.scenario = runner;
+  console.log(`[Simulation] Scenario ${definition.id} started (${definition.events.length} events)`);
+  return runner.status();
 }
 
+/**
+ * Stop the running scenario; its conditions clear on the next tick
+ */
+export function stopScenario(): ScenarioStatus | null {
+  const runner = runtime.scenario;
+  if (!runner) return null;
+
+  runtime.pipeline.unregister(runner.model.id);
+  runtime.scenario = null;
+  console.log(`[Simulation] Scenario ${runner.definition.id} stopped`);
+  return runner.status();
+}
+
+export function getScenarioStatus(): ScenarioStatus | null {
+  return runtime.scenario ? runtime.scenario.status() : null;
+}
+
+// ============================================================================
+// LIVE STREAM
+// ============================================================================
+
+let streamTicker: ReturnType<typeof setInterval> | null = null;
+let streamTickInFlight = false;
+
+/**
+ * Tick on the server while anyone is subscribed to the fleet stream, so
+ * clients no longer drive the simulation by polling action=tick. The ticker
+ * stops itself once the last subscriber disconnects.
+ */
+export async function ensureStreamTicker(): Promise<void> {
+  primeStream(await getSimulationWorld());
+  if (streamTicker) return;
+
+  const intervalMs = runtime.context.tickMs ?? DEFAULT_TICK_MS;
+  streamTicker = setInterval(async () => {
+    if (subscriberCount() === 0) {
+      if (streamTicker) clearInterval(streamTicker);
+      streamTicker = null;
+      return;
+    }
+    if (streamTickInFlight) return;
+    streamTickInFlight = true;
+    try {
+      await runSimulationTick();
+    } finally {
+      streamTickInFlight = false;
+    }
+  }, intervalMs);
+  console.log(`[Simulation] Stream ticker started (${intervalMs}ms)`);
+}
+
+// ============================================================================
+// RECORD & REPLAY
+// ============================================================================
+
+export function startRecording(name?: string): SimulationRecording {
+  if (runtime.replay) {
+    throw new Error('Cannot record while replaying');
+  }
+  runtime.recording = createRecording(runtime.context, {
+    name,
+    source: 'orchestrator',
+    speedMultiplier: runtime.state.speedMultiplier,
+  });
+  console.log(`[Simulation] Recording ${runtime.recording.id}`);
+  return runtime.recording;
+}
+
+/**
+ * Stop recording and write the log to disk
+ */
+export async function stopRecording(): Promise<{ id: string; ticks: number; file: string }> {
+  const recording = runtime.recording;
+  if (!recording) {
+    throw new Error('No recording in progress');
+  }
+  runtime.recording = null;
+  const file = await saveRecording(recording);
+  return { id: recording.id, ticks: recording.ticks.length, file };
+}
+
+/**
+ * Switch to replay: ticks now come from a recorded log instead of the models
+ */
+export async function startReplay(recordingId: string, speed?: number): Promise<ReplayStatus> {
+  if (runtime.recording) {
+    throw new Error('Stop recording before starting a replay');
+  }
+  const recording = await loadRecording(recordingId);
+  runtime.replay = createReplayPlayer(recording, { speed, clock: runtime.context.clock });
+  runtime.state.tickCount = 0;
+  runtime.state.simulatedTime = new Date(recording.startTime);
+  runtime.pendingInsights = [];
+  console.log(`[Simulation] Replaying ${recording.id} (${recording.ticks.length} ticks)`);
+  return runtime.replay.status();
+}
+
+export function stopReplay(): void {
+  runtime.replay = null;
+  runtime.state.lastTickTime = runtime.context.clock.now();
+}
+
+export function setReplaySpeed(speed: number): ReplayStatus {
+  if (!runtime.replay) {
+    throw new Error('No replay in progress');
+  }
+  runtime.replay.setSpeed(speed);
+  return runtime.replay.status();
+}
+
+/**
+ * Jump to a recorded tick and write its state straight away
+ */
+export async function seekReplay(tick: number): Promise<SimulationTickResult> {
+  const player = runtime.replay;
+  if (!player) {
+    throw new Error('No replay in progress');
+  }
+  const frame = player.seek(tick);
+  if (!frame) {
+    return applyReplayFrames(player, []);
+  }
+
+  // Weather is only logged when it changes; carry the last reading forward
+  const played = player.recording.ticks.slice(0, player.status().position);
+  const weather = [...played].reverse().find(t => t.weather)?.weather;
+  return applyReplayFrames(player, [{ ...frame, weather }]);
+}
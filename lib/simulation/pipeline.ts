@@ -0,0 +1,128 @@
+/**
+ * Simulation Tick Pipeline
+ *
+ * One tick = load the world from the sink, run every registered model over
+ * it in order, write the result back. Models are plugins - register a new
+ * one (or replace a built-in by id) without touching the orchestrator.
+ */
+
+import { createBuiltInModels } from './models';
+import { SimulationContext } from './context';
+import {
+  SimulationModel,
+  SimulationSink,
+  SimulationWorld,
+  TickContext,
+  TickOutcome,
+} from './types';
+
+// Longest stretch one tick may simulate; longer gaps (a stalled interval, a
+// huge speed multiplier) are clipped so models stay stable
+const MAX_TICK_SECONDS = 3600;
+
+// Conditions are not carried over: whatever sets them (a scenario) does so every tick
+function cloneWorld(world: SimulationWorld): SimulationWorld {
+  return {
+    vessels: world.vessels.map(v => ({ ...v })),
+    weather: world.weather ? { ...world.weather } : null,
+    offshoreAssets: world.offshoreAssets.map(a => ({ ...a })),
+  };
+}
+
+export interface PipelineTickInput {
+  context: SimulationContext;
+  tick: number;
+  simulatedSeconds: number;
+  startTime: Date; // Simulated time at the start of the tick
+}
+
+export interface PipelineTickResult {
+  world: SimulationWorld;
+  outcome: TickOutcome;
+}
+
+export class SimulationPipeline {
+  private models: SimulationModel[] = [];
+
+  constructor(models: SimulationModel[] = createBuiltInModels()) {
+    models.forEach(model => this.register(model));
+  }
+
+  /**
+   * Add a model at the end of the pipeline (or ahead of another model), or
+   * replace one with the same id in place
+   */
+  register(model: SimulationModel, options: { before?: string } = {}): void {
+    const existing = this.models.findIndex(m => m.id === model.id);
+    if (existing >= 0) {
+      this.models[existing] = model;
+      return;
+    }
+
+    const before = options.before ? this.models.findIndex(m => m.id === options.before) : -1;
+    if (before >= 0) {
+      this.models.splice(before, 0, model);
+    } else {
+      this.models.push(model);
+    }
+  }
+
+  unregister(id: string): boolean {
+    const before = this.models.length;
+    this.models = this.models.filter(m => m.id !== id);
+    return this.models.length < before;
+  }
+
+  getModels(): Array<{ id: string; name: string; description: string }> {
+    return this.models.map(m => ({ id: m.id, name: m.name, description: m.description }));
+  }
+
+  hasModel(id: string): boolean {
+    return this.models.some(m => m.id === id);
+  }
+
+  /**
+   * Run one tick over a world without persisting it
+   */
+  async step(world: SimulationWorld, input: PipelineTickInput): Promise<PipelineTickResult> {
+    const simulatedSeconds = Math.max(0, Math.min(MAX_TICK_SECONDS, input.simulatedSeconds));
+    const simulatedTime = new Date(input.startTime.getTime() + simulatedSeconds * 1000);
+    const next = cloneWorld(world);
+    const tick: TickContext = {
+      context: input.context,
+      tick: input.tick,
+      simulatedSeconds,
+      simulatedTime,
+      previous: world,
+      events: [],
+      insights: [],
+    };
+
+    for (const model of this.models) {
+      await model.step(next, tick);
+    }
+
+    return {
+      world: next,
+      outcome: {
+        tick: input.tick,
+        simulatedTime,
+        simulatedSeconds,
+        weatherChanged: next.weather !== null &&
+          JSON.stringify(next.weather) !== JSON.stringify(world.weather),
+        events: tick.events,
+        insights: tick.insights,
+      },
+    };
+  }
+
+  /**
+   * Load from the sink, step, and write back
+   */
+  async tick(sink: SimulationSink, input: PipelineTickInput): Promise<PipelineTickResult> {
+    const world = await sink.load(input.context);
+    const result = await this.step(world, input);
+    await sink.write(result.world, result.outcome);
+    return result;
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * Seedable random numbers for the simulation
+ *
+ * Every random draw in lib/simulation goes through an Rng so that a run
+ * started from the same seed, clock and initial state reproduces exactly.
+ * Unseeded generators fall back to Math.random for live demos.
+ */
+
+export interface Rng {
+  seed?: number;
+  next(): number; // [0, 1)
+  range(min: number, max: number): number;
+  int(min: number, maxExclusive: number): number;
+  chance(probability: number): boolean;
+  pick<T>(items: readonly T[]): T;
+  uuid(): string;
+}
+
+function buildRng(next: () => number, seed?: number): Rng {
+  return {
+    seed,
+    next,
+    range: (min, max) => next() * (max - min) + min,
+    int: (min, maxExclusive) => min + Math.floor(next() * (maxExclusive - min)),
+    chance: probability => next() < probability,
+    pick: items => items[Math.floor(next() * items.length)],
+    uuid: () => {
+      const hex = Array.from({ length: 32 }, () => Math.floor(next() * 16).toString(16));
+      hex[12] = '4';
+      hex[16] = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+      const s = hex.join('');
+      return `${s.slice(0, 8)}-${s.slice(8, 12)}-${s.slice(12, 16)}-${s.slice(16, 20)}-${s.slice(20)}`;
+    },
+  };
+}
+
+/**
+ * Turn a numeric or text seed into a 32-bit integer (FNV-1a for text)
+ */
+export function normaliseSeed(seed: number | string): number {
+  if (typeof seed === 'number' && Number.isFinite(seed)) return seed >>> 0;
+  let hash = 0x811c9dc5;
+  for (const char of String(seed)) {
+    hash ^= char.charCodeAt(0);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Mulberry32 - small, fast and good enough for simulation noise
+ */
+export function createSeededRng(seed: number | string): Rng {
+  const normalised = normaliseSeed(seed);
+  let state = normalised;
+  return buildRng(() => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }, normalised);
+}
+
+export function createRng(seed?: number | string): Rng {
+  return seed === undefined ? buildRng(Math.random) : createSeededRng(seed);
+}
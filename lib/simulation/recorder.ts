@@ -0,0 +1,169 @@
+/**
+ * Simulation Recorder - an event log of every tick
+ *
+ * A recording holds the run's header (seed, start time, tick step, speed)
+ * and, for each tick, the full vessel states after the tick, the weather,
+ * the SimulationEvents raised and any alerts or insights. Recordings are
+ * saved as JSON under data/simulation-recordings (SIMULATION_RECORDING_DIR
+ * overrides) and drive replay.
+ */
+
+import { mkdir, readdir, readFile, stat, writeFile } from 'fs/promises';
+import path from 'path';
+import type { AIInsight, SimulationEvent, SimulationWeather } from './types';
+import type { SimulationContext } from './context';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const RECORDING_FORMAT_VERSION = 1;
+
+export interface VesselSnapshot {
+  id: string;
+  [field: string]: unknown;
+}
+
+export interface SimulationTickRecord {
+  tick: number;
+  realTime: string; // Clock time the tick ran at
+  simulatedTime: string;
+  simulatedSeconds: number;
+  vessels: VesselSnapshot[];
+  weather?: SimulationWeather;
+  events: SimulationEvent[];
+  insights: AIInsight[];
+}
+
+export interface SimulationRecording {
+  version: number;
+  id: string;
+  name: string;
+  source: string; // Engine that produced the log
+  seed?: number;
+  startTime: string;
+  tickMs?: number;
+  speedMultiplier: number;
+  createdAt: string;
+  ticks: SimulationTickRecord[];
+}
+
+export interface RecordingSummary {
+  id: string;
+  name: string;
+  source: string;
+  seed?: number;
+  startTime: string;
+  tickCount: number;
+  durationSimulatedSeconds: number;
+  sizeBytes: number;
+}
+
+// ============================================================================
+// Recording
+// ============================================================================
+
+const DEFAULT_RECORDING_DIR = 'data/simulation-recordings';
+
+function recordingDir(): string {
+  return path.resolve(process.cwd(), process.env.SIMULATION_RECORDING_DIR || DEFAULT_RECORDING_DIR);
+}
+
+function recordingPath(id: string): string {
+  if (!/^[A-Za-z0-9_-]+$/.test(id)) {
+    throw new Error(`Invalid recording id: ${id}`);
+  }
+  return path.join(recordingDir(), `${id}.json`);
+}
+
+export function createRecording(
+  context: SimulationContext,
+  options: { name?: string; source: string; speedMultiplier: number }
+): SimulationRecording {
+  const createdAt = new Date(context.clock.now());
+  const stamp = createdAt.toISOString().replace(/[-:]/g, '').replace(/\..*$/, '');
+  const id = `rec-${stamp}-${context.rng.seed ?? 'live'}`;
+  return {
+    version: RECORDING_FORMAT_VERSION,
+    id,
+    name: options.name || id,
+    source: options.source,
+    seed: context.seed,
+    startTime: new Date(context.startTime).toISOString(),
+    tickMs: context.tickMs,
+    speedMultiplier: options.speedMultiplier,
+    createdAt: createdAt.toISOString(),
+    ticks: [],
+  };
+}
+
+/**
+ * Append a tick; vessel states are deep-copied so later mutation cannot
+ * rewrite the log
+ */
+export function recordTick(recording: SimulationRecording, record: SimulationTickRecord): void {
+  recording.ticks.push(JSON.parse(JSON.stringify(record)));
+}
+
+export async function saveRecording(recording: SimulationRecording): Promise<string> {
+  const file = recordingPath(recording.id);
+  await mkdir(path.dirname(file), { recursive: true });
+  await writeFile(file, JSON.stringify(recording));
+  console.log(`[SimulationRecorder] Saved ${recording.ticks.length} ticks to ${file}`);
+  return file;
+}
+
+export async function loadRecording(id: string): Promise<SimulationRecording> {
+  let raw: string;
+  try {
+    raw = await readFile(recordingPath(id), 'utf-8');
+  } catch {
+    throw new Error(`Recording not found: ${id}`);
+  }
+  return parseRecording(raw);
+}
+
+/**
+ * Parse and check a recording file, reviving event timestamps
+ */
+export function parseRecording(raw: string): SimulationRecording {
+  const recording = JSON.parse(raw) as SimulationRecording;
+  if (recording.version !== RECORDING_FORMAT_VERSION || !Array.isArray(recording.ticks)) {
+    throw new Error(`Unsupported recording format (version ${recording.version})`);
+  }
+  for (const tick of recording.ticks) {
+    tick.events = tick.events.map(event => ({ ...event, timestamp: new Date(event.timestamp) }));
+  }
+  return recording;
+}
+
+export async function listRecordings(): Promise<RecordingSummary[]> {
+  let files: string[];
+  try {
+    files = (await readdir(recordingDir())).filter(f => f.endsWith('.json'));
+  } catch {
+    return [];
+  }
+
+  const summaries: RecordingSummary[] = [];
+  for (const file of files) {
+    const fullPath = path.join(recordingDir(), file);
+    try {
+      const recording = parseRecording(await readFile(fullPath, 'utf-8'));
+      summaries.push({
+        id: recording.id,
+        name: recording.name,
+        source: recording.source,
+        seed: recording.seed,
+        startTime: recording.startTime,
+        tickCount: recording.ticks.length,
+        durationSimulatedSeconds: recording.ticks.reduce((sum, t) => sum + t.simulatedSeconds, 0),
+        sizeBytes: (await stat(fullPath)).size,
+      });
+    } catch (error) {
+      console.warn(`[SimulationRecorder] Skipping unreadable recording ${file}:`, error);
+    }
+  }
+
+  return summaries.sort((a, b) => b.startTime.localeCompare(a.startTime));
+}
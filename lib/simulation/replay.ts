@@ -0,0 +1,111 @@
+/**
+ * Simulation Replay - play a recorded tick log back at any speed
+ *
+ * The player walks the recording's simulated timeline. Each advance() moves
+ * the playhead by the real time elapsed on its clock times the replay speed
+ * (simulated seconds per real second) and returns every recorded tick the
+ * playhead passed, in order. Callers apply the frames exactly as a live tick
+ * would, so the UI cannot tell a replay from the original run.
+ */
+
+import { SimulationClock, systemClock } from './clock';
+import { SimulationRecording, SimulationTickRecord } from './recorder';
+
+export interface ReplayStatus {
+  recordingId: string;
+  speed: number;
+  position: number; // Ticks played
+  totalTicks: number;
+  simulatedTime: string;
+  finished: boolean;
+  paused: boolean;
+}
+
+export interface ReplayPlayer {
+  recording: SimulationRecording;
+  advance(): SimulationTickRecord[];
+  seek(tick: number): SimulationTickRecord | null;
+  setSpeed(speed: number): void;
+  pause(): void;
+  resume(): void;
+  status(): ReplayStatus;
+}
+
+const MIN_REPLAY_SPEED = 0.1;
+const MAX_REPLAY_SPEED = 100000;
+
+function clampSpeed(speed: number): number {
+  return Math.max(MIN_REPLAY_SPEED, Math.min(MAX_REPLAY_SPEED, speed));
+}
+
+export function createReplayPlayer(
+  recording: SimulationRecording,
+  options: { speed?: number; clock?: SimulationClock } = {}
+): ReplayPlayer {
+  const clock = options.clock ?? systemClock;
+  const ticks = recording.ticks;
+  const tickTimes = ticks.map(t => new Date(t.simulatedTime).getTime());
+  const timelineStart = ticks.length > 0
+    ? tickTimes[0] - ticks[0].simulatedSeconds * 1000
+    : new Date(recording.startTime).getTime();
+
+  let speed = clampSpeed(options.speed ?? recording.speedMultiplier);
+  let position = 0; // Index of the next tick to play
+  let playhead = timelineStart;
+  let lastRealTime = clock.now();
+  let paused = false;
+
+  const sync = () => {
+    const now = clock.now();
+    if (!paused) playhead += (now - lastRealTime) * speed;
+    lastRealTime = now;
+  };
+
+  return {
+    recording,
+
+    advance() {
+      sync();
+      const frames: SimulationTickRecord[] = [];
+      while (position < ticks.length && tickTimes[position] <= playhead) {
+        frames.push(ticks[position]);
+        position++;
+      }
+      return frames;
+    },
+
+    seek(tick: number) {
+      sync();
+      position = Math.max(0, Math.min(ticks.length, Math.round(tick)));
+      playhead = position > 0 ? tickTimes[position - 1] : timelineStart;
+      return position > 0 ? ticks[position - 1] : null;
+    },
+
+    setSpeed(next: number) {
+      sync();
+      speed = clampSpeed(next);
+    },
+
+    pause() {
+      sync();
+      paused = true;
+    },
+
+    resume() {
+      sync();
+      paused = false;
+    },
+
+    status() {
+      return {
+        recordingId: recording.id,
+        speed,
+        position,
+        totalTicks: ticks.length,
+        simulatedTime: new Date(Math.min(playhead, tickTimes[tickTimes.length - 1] ?? playhead)).toISOString(),
+        finished: position >= ticks.length,
+        paused,
+      };
+    },
+  };
+}
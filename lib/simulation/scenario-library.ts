@@ -0,0 +1,82 @@
+/**
+ * Built-in Simulation Scenarios
+ *
+ * Ready-made drills in the scenario format (see ./scenario). They replace
+ * the four hard-coded triggerScenario cases and back the /demo crisis demos.
+ */
+
+import { parseScenario, ScenarioDefinition } from './scenario';
+
+const LIBRARY: unknown[] = [
+  {
+    id: 'storm',
+    name: 'Shamal Storm',
+    description: 'A severe shamal sweeps the operating area; Mina Zayed suspends pilotage while it passes.',
+    events: [
+      {
+        at: '10m',
+        duration: '8h',
+        type: 'weather_front',
+        front: {
+          name: 'Shamal',
+          condition: 'storm',
+          severity: 'severe',
+          wind_speed: 45,
+          wind_direction: 315,
+          wave_height: 5,
+          visibility: 1.5,
+          temperature: 28,
+        },
+      },
+      { at: '1h', duration: '6h', type: 'port_closure', port: 'Mina Zayed', reason: 'Pilotage suspended' },
+    ],
+  },
+  {
+    id: 'equipment_failure',
+    name: 'Engine Degradation on DLS-4200',
+    description: 'Wear metals climb in the main engine lube oil, then the thrusters start vibrating.',
+    events: [
+      { at: '5m', type: 'equipment_fault', vessel: 'DLS-4200', component: 'engine', severity: 0.5, description: 'Bearing wear metals rising' },
+      { at: '1h', type: 'equipment_fault', vessel: 'DLS-4200', component: 'engine', severity: 1, description: 'Cylinder #3 bearing degradation' },
+      { at: '1h', type: 'equipment_fault', vessel: 'DLS-4200', component: 'thruster', severity: 0.9 },
+    ],
+  },
+  {
+    id: 'fuel_crisis',
+    name: 'Bunker Supply Disruption',
+    description: 'Abu Dhabi bunkering ports close and MGO prices spike; vessels must detour to bunker.',
+    events: [
+      { at: '0', duration: '1d', type: 'port_closure', port: 'Mina Zayed', reason: 'Bunker barge shortage' },
+      { at: '0', duration: '1d', type: 'port_closure', port: 'Khalifa Port', reason: 'Bunker barge shortage' },
+      { at: '30m', duration: '2d', type: 'fuel_price_shock', index: 1.8 },
+    ],
+  },
+  {
+    id: 'safety_incident',
+    name: 'Mooring Failure in Fog',
+    description: 'Dense fog rolls in while mooring ropes on DELMA 2000 are close to breaking.',
+    events: [
+      {
+        at: '0',
+        duration: '4h',
+        type: 'weather_front',
+        front: {
+          name: 'Coastal fog',
+          condition: 'fog',
+          severity: 'warning',
+          wind_speed: 8,
+          wind_direction: 180,
+          wave_height: 0.6,
+          visibility: 0.3,
+        },
+      },
+      { at: '20m', type: 'equipment_fault', vessel: 'DELMA 2000', component: 'rope', severity: 0.9, description: 'Mooring line strands parted' },
+    ],
+  },
+];
+
+export const BUILT_IN_SCENARIOS: ScenarioDefinition[] = LIBRARY.map(parseScenario);
+
+export function getBuiltInScenario(id: string): ScenarioDefinition | undefined {
+  return BUILT_IN_SCENARIOS.find(s => s.id === id);
+}
@@ -0,0 +1,408 @@
+/**
+ * Simulation Scenarios - scripted disruptions as data
+ *
+ * A scenario is a JSON document listing timed events the simulation
+ * executes against its real state:
+ *
+ *   {
+ *     "id": "gulf-shamal",
+ *     "name": "Shamal with a thruster fault",
+ *     "seed": 42,
+ *     "events": [
+ *       { "at": "30m", "duration": "6h", "type": "weather_front",
+ *         "front": { "name": "Shamal", "condition": "storm", "severity": "severe",
+ *                    "wind_speed": 40, "wind_direction": 315, "wave_height": 3.5, "visibility": 2 } },
+ *       { "at": "1h", "type": "equipment_fault", "vessel": "DLS-4200",
+ *         "component": "thruster", "severity": 0.8 },
+ *       { "at": "2h", "duration": "12h", "type": "port_closure", "port": "Mina Zayed" },
+ *       { "at": "3h", "duration": "1d", "type": "fuel_price_shock", "index": 1.6 }
+ *     ]
+ *   }
+ *
+ * Times are offsets of simulated time from the scenario start - seconds, or
+ * a number with an s/m/h/d suffix. Events without a duration last until the
+ * scenario stops. The runner is a pipeline model that goes ahead of the
+ * built-ins and sets world.conditions every tick; the other models read it.
+ */
+
+import {
+  EquipmentComponent,
+  EquipmentFault,
+  PortClosure,
+  SimulationEvent,
+  SimulationModel,
+  SimulationVessel,
+  SimulationWeather,
+  WeatherFront,
+  WorldConditions,
+} from './types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface ScenarioEventBase {
+  at: number; // Seconds of simulated time after the scenario starts
+  duration?: number; // Seconds; until the scenario stops when absent
+  label?: string;
+}
+
+export type ScenarioEvent = ScenarioEventBase & (
+  | { type: 'weather_front'; front: WeatherFront }
+  | { type: 'equipment_fault'; vessel: string; component: EquipmentComponent; severity: number; description?: string }
+  | { type: 'port_closure'; port: string; reason?: string }
+  | { type: 'fuel_price_shock'; index: number } // Multiplier on the baseline fuel price
+);
+
+export type ScenarioEventType = ScenarioEvent['type'];
+
+export interface ScenarioDefinition {
+  id: string;
+  name: string;
+  description?: string;
+  seed?: number; // Reset onto this seed when the scenario starts
+  speedMultiplier?: number;
+  events: ScenarioEvent[];
+}
+
+export type ScenarioEventState = 'pending' | 'active' | 'ended' | 'skipped';
+
+export interface ScenarioEventStatus {
+  index: number;
+  type: ScenarioEventType;
+  label: string;
+  at: number;
+  duration?: number;
+  state: ScenarioEventState;
+  vesselId?: string; // Equipment faults: the vessel the name resolved to
+  note?: string;
+}
+
+export interface ScenarioStatus {
+  id: string;
+  name: string;
+  elapsedSeconds: number;
+  finished: boolean; // Every event has ended or been skipped
+  events: ScenarioEventStatus[];
+}
+
+export interface ScenarioRunner {
+  definition: ScenarioDefinition;
+  model: SimulationModel;
+  status(): ScenarioStatus;
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+const EVENT_TYPES: ScenarioEventType[] = ['weather_front', 'equipment_fault', 'port_closure', 'fuel_price_shock'];
+const COMPONENTS: EquipmentComponent[] = ['engine', 'thruster', 'rope', 'hull'];
+const CONDITIONS: SimulationWeather['condition'][] = ['clear', 'cloudy', 'rain', 'storm', 'fog'];
+const SEVERITIES: SimulationWeather['severity'][] = ['normal', 'advisory', 'warning', 'severe'];
+
+const DURATION_UNITS: Record<string, number> = { s: 1, m: 60, h: 3600, d: 86400 };
+
+/**
+ * Seconds from a number or a string like "90", "30m", "1.5h" or "2d"
+ */
+export function parseDuration(value: unknown, path: string): number {
+  if (typeof value === 'number' && Number.isFinite(value) && value >= 0) {
+    return value;
+  }
+  if (typeof value === 'string') {
+    const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*([smhd]?)$/i);
+    if (match) {
+      return Number(match[1]) * DURATION_UNITS[(match[2] || 's').toLowerCase()];
+    }
+  }
+  throw new Error(`${path}: expected seconds or a duration like "30m", got ${JSON.stringify(value)}`);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function requireString(source: Record<string, unknown>, key: string, path: string): string {
+  const value = source[key];
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw new Error(`${path}.${key}: expected a non-empty string`);
+  }
+  return value.trim();
+}
+
+function requireNumber(source: Record<string, unknown>, key: string, path: string, min: number, max: number): number {
+  const value = source[key];
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+    throw new Error(`${path}.${key}: expected a number between ${min} and ${max}`);
+  }
+  return value;
+}
+
+function optionalString(source: Record<string, unknown>, key: string, path: string): string | undefined {
+  return source[key] === undefined ? undefined : requireString(source, key, path);
+}
+
+function requireOneOf<T extends string>(source: Record<string, unknown>, key: string, path: string, allowed: T[]): T {
+  const value = source[key];
+  if (!allowed.includes(value as T)) {
+    throw new Error(`${path}.${key}: expected one of ${allowed.join(', ')}`);
+  }
+  return value as T;
+}
+
+function parseFront(value: unknown, path: string): WeatherFront {
+  if (!isObject(value)) {
+    throw new Error(`${path}: expected an object`);
+  }
+
+  const front: WeatherFront = {
+    name: requireString(value, 'name', path),
+    condition: requireOneOf(value, 'condition', path, CONDITIONS),
+    severity: requireOneOf(value, 'severity', path, SEVERITIES),
+    wind_speed: requireNumber(value, 'wind_speed', path, 0, 150),
+    wind_direction: requireNumber(value, 'wind_direction', path, 0, 360),
+    wave_height: requireNumber(value, 'wave_height', path, 0, 20),
+    visibility: requireNumber(value, 'visibility', path, 0, 50),
+  };
+  if (value.temperature !== undefined) {
+    front.temperature = requireNumber(value, 'temperature', path, -10, 60);
+  }
+  if (value.area !== undefined) {
+    if (!isObject(value.area)) {
+      throw new Error(`${path}.area: expected { lat, lng, radiusNm }`);
+    }
+    front.area = {
+      lat: requireNumber(value.area, 'lat', `${path}.area`, -90, 90),
+      lng: requireNumber(value.area, 'lng', `${path}.area`, -180, 180),
+      radiusNm: requireNumber(value.area, 'radiusNm', `${path}.area`, 0, 2000),
+    };
+  }
+  return front;
+}
+
+function parseEvent(value: unknown, path: string): ScenarioEvent {
+  if (!isObject(value)) {
+    throw new Error(`${path}: expected an object`);
+  }
+
+  const base: ScenarioEventBase = { at: parseDuration(value.at ?? 0, `${path}.at`) };
+  if (value.duration !== undefined) {
+    base.duration = parseDuration(value.duration, `${path}.duration`);
+  }
+  const label = optionalString(value, 'label', path);
+  if (label) base.label = label;
+
+  const type = requireOneOf(value, 'type', path, EVENT_TYPES);
+  switch (type) {
+    case 'weather_front':
+      return { ...base, type, front: parseFront(value.front, `${path}.front`) };
+    case 'equipment_fault':
+      return {
+        ...base,
+        type,
+        vessel: requireString(value, 'vessel', path),
+        component: requireOneOf(value, 'component', path, COMPONENTS),
+        severity: requireNumber(value, 'severity', path, 0, 1),
+        description: optionalString(value, 'description', path),
+      };
+    case 'port_closure':
+      return { ...base, type, port: requireString(value, 'port', path), reason: optionalString(value, 'reason', path) };
+    case 'fuel_price_shock':
+      return { ...base, type, index: requireNumber(value, 'index', path, 0.1, 10) };
+  }
+}
+
+/**
+ * Validate a scenario document (parsed JSON, or the JSON text itself)
+ * Errors name the offending field, e.g. "events[2].severity: expected ...".
+ */
+export function parseScenario(input: unknown): ScenarioDefinition {
+  let value = input;
+  if (typeof input === 'string') {
+    try {
+      value = JSON.parse(input);
+    } catch {
+      throw new Error('scenario: not valid JSON');
+    }
+  }
+  if (!isObject(value)) {
+    throw new Error('scenario: expected an object');
+  }
+  if (!Array.isArray(value.events) || value.events.length === 0) {
+    throw new Error('scenario.events: expected a non-empty array');
+  }
+
+  const definition: ScenarioDefinition = {
+    id: requireString(value, 'id', 'scenario'),
+    name: optionalString(value, 'name', 'scenario') ?? requireString(value, 'id', 'scenario'),
+    description: optionalString(value, 'description', 'scenario'),
+    events: value.events.map((event, i) => parseEvent(event, `events[${i}]`)),
+  };
+  if (value.seed !== undefined) {
+    definition.seed = requireNumber(value, 'seed', 'scenario', 0, 2 ** 32 - 1);
+  }
+  if (value.speedMultiplier !== undefined) {
+    definition.speedMultiplier = requireNumber(value, 'speedMultiplier', 'scenario', 1, 3600);
+  }
+  return definition;
+}
+
+// ============================================================================
+// Running
+// ============================================================================
+
+function describe(event: ScenarioEvent): string {
+  if (event.label) return event.label;
+  switch (event.type) {
+    case 'weather_front':
+      return `${event.front.name} (${event.front.condition}, ${event.front.severity})`;
+    case 'equipment_fault':
+      return `${event.component} fault on ${event.vessel}`;
+    case 'port_closure':
+      return `${event.port} closed`;
+    case 'fuel_price_shock':
+      return `Fuel price x${event.index}`;
+  }
+}
+
+/**
+ * Match a scenario's vessel reference against the world by id, MMSI or name
+ */
+function findVessel(vessels: SimulationVessel[], ref: string): SimulationVessel | undefined {
+  const wanted = ref.toLowerCase();
+  return vessels.find(v => v.id.toLowerCase() === wanted)
+    ?? vessels.find(v => typeof v.mmsi === 'string' && v.mmsi === ref)
+    ?? vessels.find(v => v.name.toLowerCase() === wanted);
+}
+
+/**
+ * A pipeline model that executes the scenario
+ * Time is counted from the ticks the model sees, so the scenario starts at
+ * its first tick whatever the simulated clock reads.
+ */
+export function createScenarioRunner(definition: ScenarioDefinition): ScenarioRunner {
+  let elapsed = 0;
+  let startedAt: Date | null = null;
+  const statuses: ScenarioEventStatus[] = definition.events.map((event, index) => ({
+    index,
+    type: event.type,
+    label: describe(event),
+    at: event.at,
+    duration: event.duration,
+    state: 'pending',
+  }));
+
+  const model: SimulationModel = {
+    id: 'scenario',
+    name: `Scenario: ${definition.name}`,
+    description: 'Scripted weather fronts, equipment faults, port closures and fuel price shocks',
+    step(world, { simulatedSeconds, simulatedTime, events }) {
+      startedAt = startedAt ?? new Date(simulatedTime.getTime() - simulatedSeconds * 1000);
+      elapsed += simulatedSeconds;
+
+      const conditions: WorldConditions = {
+        weatherFront: null,
+        equipmentFaults: [],
+        closedPorts: [],
+        fuelPriceIndex: 1,
+      };
+      const emit = (event: Omit<SimulationEvent, 'timestamp'>) => {
+        events.push({ ...event, timestamp: simulatedTime });
+      };
+
+      definition.events.forEach((event, i) => {
+        const status = statuses[i];
+        if (status.state === 'ended' || status.state === 'skipped') return;
+        if (elapsed < event.at) return;
+
+        const ends = event.duration !== undefined ? event.at + event.duration : Infinity;
+        const starting = status.state === 'pending';
+        const ending = elapsed >= ends;
+
+        if (starting && event.type === 'equipment_fault') {
+          const vessel = findVessel(world.vessels, event.vessel);
+          if (!vessel) {
+            status.state = 'skipped';
+            status.note = `No vessel matching "${event.vessel}"`;
+            console.warn(`[Scenario] ${definition.id}: ${status.note}`);
+            return;
+          }
+          status.vesselId = vessel.id;
+        }
+
+        if (starting) {
+          status.state = 'active';
+          console.log(`[Scenario] ${definition.id}: ${status.label}`);
+          if (event.type === 'port_closure') {
+            emit({
+              type: 'PORT_CLOSURE',
+              severity: 'warning',
+              data: { port: event.port, reason: event.reason, label: status.label },
+            });
+          } else if (event.type === 'fuel_price_shock') {
+            emit({
+              type: 'FUEL_PRICE_SHOCK',
+              severity: event.index >= 1.5 ? 'critical' : 'warning',
+              data: { index: event.index, label: status.label },
+            });
+          }
+        }
+
+        if (ending) {
+          status.state = 'ended';
+          if (event.type === 'port_closure') {
+            emit({ type: 'PORT_REOPENED', severity: 'info', data: { port: event.port, label: status.label } });
+          } else if (event.type === 'fuel_price_shock') {
+            emit({ type: 'FUEL_PRICE_SHOCK', severity: 'info', data: { index: 1, label: `${status.label} eased` } });
+          }
+          return;
+        }
+
+        switch (event.type) {
+          case 'weather_front':
+            // A front later in the list overrides an earlier one
+            conditions.weatherFront = event.front;
+            break;
+          case 'equipment_fault': {
+            const fault: EquipmentFault = {
+              vesselId: status.vesselId!,
+              component: event.component,
+              severity: event.severity,
+            };
+            if (event.description) fault.description = event.description;
+            conditions.equipmentFaults.push(fault);
+            break;
+          }
+          case 'port_closure': {
+            const closure: PortClosure = { port: event.port };
+            if (event.reason) closure.reason = event.reason;
+            if (Number.isFinite(ends) && startedAt) {
+              closure.until = new Date(startedAt.getTime() + ends * 1000).toISOString();
+            }
+            conditions.closedPorts.push(closure);
+            break;
+          }
+          case 'fuel_price_shock':
+            conditions.fuelPriceIndex *= event.index;
+            break;
+        }
+      });
+
+      conditions.fuelPriceIndex = Math.round(conditions.fuelPriceIndex * 1000) / 1000;
+      world.conditions = conditions;
+    },
+  };
+
+  return {
+    definition,
+    model,
+    status: () => ({
+      id: definition.id,
+      name: definition.name,
+      elapsedSeconds: Math.round(elapsed),
+      finished: statuses.every(s => s.state === 'ended' || s.state === 'skipped'),
+      events: statuses.map(s => ({ ...s })),
+    }),
+  };
+}
@@ -0,0 +1,288 @@
+/**
+ * Simulation Sinks - where the world lives between ticks
+ *
+ * - memory: in-process only, seeded from the NMDC fleet (deterministic under a seed)
+ * - file: a JSON world on disk (SIMULATION_STATE_FILE, default data/simulation-state.json)
+ * - supabase: the vessels, weather and offshore_assets tables the dashboard reads
+ *
+ * The sink is chosen once at startup from SIMULATION_SINK; without it,
+ * Supabase is used when configured and memory otherwise.
+ */
+
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { createClient } from '@supabase/supabase-js';
+import { SimulationContext } from './context';
+import { NMDC_FLEET } from '@/lib/nmdc/fleet';
+import { generateFleet } from './vessels';
+import {
+  SimulationAsset,
+  SimulationSink,
+  SimulationSinkId,
+  SimulationVessel,
+  SimulationWeather,
+  SimulationWorld,
+} from './types';
+
+// ============================================================================
+// Vessel Rows
+// ============================================================================
+
+// Vessel columns the simulation owns; sinks and replay write back exactly these
+export const SIMULATED_VESSEL_FIELDS = [
+  'position_lat',
+  'position_lng',
+  'heading',
+  'fuel_level',
+  'health_score',
+  'op_mode',
+  'hull_fouling_idx',
+  'lube_oil_ferro_ppm',
+  'rope_health_score',
+  'thruster_vibration_mm_s',
+  'wave_height_m',
+  'wind_speed_kn',
+  'ambient_temp_c',
+  'emission_co2_tph',
+  'connect_rssi_dbm',
+  'sat_latency_ms',
+  'ai_anomaly_score',
+  'predicted_failure_risk_pct',
+  'safety_state',
+];
+
+function numberOr(value: unknown, fallback: number): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+}
+
+/**
+ * Fill a raw vessel row's missing or null signals with healthy defaults
+ */
+export function normaliseVessel(row: Record<string, unknown>): SimulationVessel {
+  return {
+    ...row,
+    id: String(row.id),
+    name: String(row.name ?? row.id),
+    type: String(row.type ?? 'supply_vessel'),
+    status: String(row.status ?? 'operational'),
+    position_lat: numberOr(row.position_lat, 24.5),
+    position_lng: numberOr(row.position_lng, 54.5),
+    heading: numberOr(row.heading, 0),
+    speed: numberOr(row.speed, 0),
+    fuel_level: numberOr(row.fuel_level, 100),
+    health_score: numberOr(row.health_score, 100),
+    op_mode: typeof row.op_mode === 'string' ? row.op_mode : 'IDLE',
+    fuel_rate_tph: numberOr(row.fuel_rate_tph, 0.5),
+    hull_fouling_idx: numberOr(row.hull_fouling_idx, 2),
+    lube_oil_ferro_ppm: numberOr(row.lube_oil_ferro_ppm, 20),
+    rope_health_score: numberOr(row.rope_health_score, 95),
+    thruster_vibration_mm_s: numberOr(row.thruster_vibration_mm_s, 2),
+    engine_load_pct: numberOr(row.engine_load_pct, 50),
+  };
+}
+
+/**
+ * Starting world for the in-process sinks: the NMDC fleet as vessel rows
+ */
+export function seedWorld(context: SimulationContext, count = NMDC_FLEET.length): SimulationWorld {
+  const { rng } = context;
+  const vessels = generateFleet(count, context).map(vessel => normaliseVessel({
+    id: vessel.id,
+    name: vessel.name,
+    type: vessel.type,
+    mmsi: vessel.mmsi,
+    status: vessel.status,
+    project: vessel.project,
+    position_lat: Math.round(vessel.position.lat * 10000) / 10000,
+    position_lng: Math.round(vessel.position.lng * 10000) / 10000,
+    heading: Math.round(vessel.heading),
+    speed: Math.round(vessel.speed * 10) / 10,
+    fuel_level: vessel.fuelLevel,
+    health_score: vessel.healthScore,
+    fuel_rate_tph: Math.round(vessel.fuelConsumption * 0.85) / 1000, // litres/h of MGO to t/h
+    hull_fouling_idx: Math.round(rng.range(1, 4) * 100) / 100,
+    lube_oil_ferro_ppm: Math.round(rng.range(10, 30)),
+    rope_health_score: Math.round(rng.range(85, 100)),
+    thruster_vibration_mm_s: Math.round(rng.range(1.5, 3) * 10) / 10,
+    engine_load_pct: Math.round(30 + (vessel.speed / 12) * 60),
+  }));
+
+  return { vessels, weather: null, offshoreAssets: [] };
+}
+
+function copyWorld(world: SimulationWorld): SimulationWorld {
+  return JSON.parse(JSON.stringify(world));
+}
+
+// ============================================================================
+// Memory Sink
+// ============================================================================
+
+export function createMemorySink(initial?: SimulationWorld): SimulationSink {
+  let world: SimulationWorld | null = initial ? copyWorld(initial) : null;
+
+  return {
+    id: 'memory',
+    description: 'In-process world seeded from the NMDC fleet',
+    async load(context) {
+      if (!world) world = seedWorld(context);
+      return copyWorld(world);
+    },
+    async write(next) {
+      world = copyWorld(next);
+    },
+  };
+}
+
+// ============================================================================
+// File Sink
+// ============================================================================
+
+const DEFAULT_STATE_FILE = 'data/simulation-state.json';
+
+export function createFileSink(file = process.env.SIMULATION_STATE_FILE || DEFAULT_STATE_FILE): SimulationSink {
+  const resolved = path.resolve(process.cwd(), file);
+
+  return {
+    id: 'file',
+    description: `JSON world at ${resolved}`,
+    async load(context) {
+      let raw: string;
+      try {
+        raw = await readFile(resolved, 'utf-8');
+      } catch {
+        return seedWorld(context);
+      }
+      const parsed = JSON.parse(raw) as Partial<SimulationWorld>;
+      return {
+        vessels: (parsed.vessels ?? []).map(v => normaliseVessel(v)),
+        weather: parsed.weather ?? null,
+        offshoreAssets: parsed.offshoreAssets ?? [],
+      };
+    },
+    async write(world) {
+      await mkdir(path.dirname(resolved), { recursive: true });
+      await writeFile(resolved, JSON.stringify(world, null, 2));
+    },
+  };
+}
+
+// ============================================================================
+// Supabase Sink
+// ============================================================================
+
+const TIMESERIES_EVERY_TICKS = 6;
+
+export function createSupabaseSink(): SimulationSink {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || 'https://placeholder.supabase.co';
+  const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || 'placeholder-key';
+  const supabase = createClient(supabaseUrl, supabaseKey);
+  let weatherRowId: string | null = null;
+
+  return {
+    id: 'supabase',
+    description: 'Supabase vessels, weather and offshore_assets tables',
+    async load() {
+      // Stable order so seeded runs draw the same numbers
+      const { data: vessels, error } = await supabase.from('vessels').select('*').order('id');
+      if (error || !vessels) {
+        throw new Error(`Failed to fetch vessels: ${error?.message}`);
+      }
+
+      const { data: assets } = await supabase.from('offshore_assets').select('*').order('id');
+      const { data: weather } = await supabase.from('weather').select('*').limit(1).maybeSingle();
+      weatherRowId = weather?.id ?? null;
+
+      return {
+        vessels: vessels.map(v => normaliseVessel(v)),
+        weather: weather ? { zone: '', ...weather } as SimulationWeather : null,
+        offshoreAssets: (assets ?? []) as SimulationAsset[],
+      };
+    },
+    async write(world, outcome) {
+      const updatedAt = outcome.simulatedTime.toISOString();
+
+      for (const vessel of world.vessels) {
+        const update: Record<string, unknown> = { updated_at: updatedAt };
+        for (const field of SIMULATED_VESSEL_FIELDS) {
+          if (vessel[field] !== undefined) update[field] = vessel[field];
+        }
+        await supabase.from('vessels').update(update).eq('id', vessel.id);
+      }
+
+      for (const asset of world.offshoreAssets) {
+        await supabase.from('offshore_assets').update({ ...asset, updated_at: updatedAt }).eq('id', asset.id);
+      }
+
+      if (outcome.weatherChanged && world.weather && weatherRowId) {
+        // The zone name is derived, not a column
+        const row: Record<string, unknown> = { ...world.weather };
+        delete row.zone;
+        await supabase.from('weather').update(row).eq('id', weatherRowId);
+      }
+
+      // Time series at a fixed cadence rather than on every tick
+      if (outcome.tick % TIMESERIES_EVERY_TICKS === 0) {
+        await supabase.from('asset_timeseries').insert(world.vessels.map(vessel => ({
+          vessel_id: vessel.id,
+          asset_name: vessel.name,
+          asset_type: 'Vessel',
+          asset_subtype: vessel.asset_subtype,
+          lat: vessel.position_lat,
+          lng: vessel.position_lng,
+          speed_kn: vessel.speed,
+          heading_deg: vessel.heading,
+          op_mode: vessel.op_mode,
+          dp_mode: vessel.dp_mode,
+          engine_load_pct: vessel.engine_load_pct,
+          fuel_type: vessel.fuel_type,
+          fuel_rate_tph: vessel.fuel_rate_tph,
+          emission_co2_tph: vessel.emission_co2_tph,
+          hull_fouling_idx: vessel.hull_fouling_idx,
+          thruster_vibration_mm_s: vessel.thruster_vibration_mm_s,
+          rope_health_score: vessel.rope_health_score,
+          lube_oil_visc_cst_40c: vessel.lube_oil_visc_cst_40c,
+          lube_oil_ferro_ppm: vessel.lube_oil_ferro_ppm,
+          wave_height_m: vessel.wave_height_m,
+          wind_speed_kn: vessel.wind_speed_kn,
+          ambient_temp_c: vessel.ambient_temp_c,
+          connect_rssi_dbm: vessel.connect_rssi_dbm,
+          sat_latency_ms: vessel.sat_latency_ms,
+          ai_anomaly_score: vessel.ai_anomaly_score,
+          predicted_failure_risk_pct: vessel.predicted_failure_risk_pct,
+          safety_state: vessel.safety_state,
+        })));
+      }
+    },
+  };
+}
+
+// ============================================================================
+// Selection
+// ============================================================================
+
+export function isSinkId(value: unknown): value is SimulationSinkId {
+  return value === 'memory' || value === 'supabase' || value === 'file';
+}
+
+export function createSink(id: SimulationSinkId): SimulationSink {
+  switch (id) {
+    case 'memory':
+      return createMemorySink();
+    case 'file':
+      return createFileSink();
+    case 'supabase':
+      return createSupabaseSink();
+  }
+}
+
+export function createSinkFromEnv(): SimulationSink {
+  const configured = process.env.SIMULATION_SINK;
+  if (configured) {
+    if (!isSinkId(configured)) {
+      throw new Error(`Unknown SIMULATION_SINK '${configured}' (memory, supabase or file)`);
+    }
+    return createSink(configured);
+  }
+  return createSink(process.env.NEXT_PUBLIC_SUPABASE_URL ? 'supabase' : 'memory');
+}
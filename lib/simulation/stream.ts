@@ -0,0 +1,268 @@
+/**
+ * Fleet Stream - live simulation state for server-sent events
+ *
+ * Every tick the orchestrator publishes the world it wrote; the hub turns
+ * that into stream events and fans them out to subscribers:
+ * - vessels: only the fields that changed since the last publish, per vessel
+ * - alert: each SimulationEvent raised by the tick
+ * - weather: fleet-area weather when it changes
+ * - insight: each new AIInsight
+ *
+ * Events carry ids `<epoch>:<seq>` and the last few hundred are kept, so a
+ * reconnecting client (EventSource resends Last-Event-ID) gets exactly what
+ * it missed. An id from another server run or from before a simulation reset
+ * (a new epoch), or one older than the buffer, gets a fresh snapshot instead.
+ */
+
+import type { AIInsight, SimulationEvent, SimulationWeather, SimulationWorld } from './types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+// Vessel fields streamed to the UI
+export const STREAMED_VESSEL_FIELDS = [
+  'position_lat',
+  'position_lng',
+  'heading',
+  'speed',
+  'fuel_level',
+  'health_score',
+  'status',
+  'op_mode',
+  'safety_state',
+  'predicted_failure_risk_pct',
+] as const;
+
+export type StreamedVesselField = typeof STREAMED_VESSEL_FIELDS[number];
+
+export interface StreamVesselState {
+  id: string;
+  mmsi?: string;
+  name?: string;
+  position_lat?: number;
+  position_lng?: number;
+  heading?: number;
+  speed?: number;
+  fuel_level?: number;
+  health_score?: number;
+  status?: string;
+  op_mode?: string;
+  safety_state?: 'GREEN' | 'AMBER' | 'RED';
+  predicted_failure_risk_pct?: number;
+}
+
+export interface FleetSnapshot {
+  vessels: StreamVesselState[];
+  weather: SimulationWeather | null;
+  insights: AIInsight[];
+}
+
+export type FleetStreamEvent =
+  | { id: string; type: 'snapshot'; data: FleetSnapshot }
+  | { id: string; type: 'vessels'; data: { tick: number; simulatedTime: string; vessels: StreamVesselState[] } }
+  | { id: string; type: 'alert'; data: SimulationEvent }
+  | { id: string; type: 'weather'; data: SimulationWeather }
+  | { id: string; type: 'insight'; data: AIInsight };
+
+export type FleetStreamEventType = FleetStreamEvent['type'];
+
+export interface PublishedTick {
+  tick: number;
+  simulatedTime: Date;
+  weatherChanged: boolean;
+  events: SimulationEvent[];
+  insights: AIInsight[];
+}
+
+type Listener = (event: FleetStreamEvent) => void;
+
+// ============================================================================
+// Hub State
+// ============================================================================
+
+const BUFFER_SIZE = 500;
+
+// A new epoch per server run and per simulation reset
+let epochCount = 0;
+function newEpoch(): string {
+  epochCount++;
+  return `${Date.now().toString(36)}.${epochCount}`;
+}
+
+let epoch = newEpoch();
+let sequence = 0;
+let buffer: FleetStreamEvent[] = [];
+const listeners = new Set<Listener>();
+
+// What subscribers have been told, for deltas and snapshots
+const vesselState = new Map<string, StreamVesselState>();
+let currentWeather: SimulationWeather | null = null;
+let recentInsights: AIInsight[] = [];
+
+function nextId(): string {
+  sequence++;
+  return `${epoch}:${sequence}`;
+}
+
+function emit(event: Omit<FleetStreamEvent, 'id'>): void {
+  const full = { ...event, id: nextId() } as FleetStreamEvent;
+  buffer.push(full);
+  if (buffer.length > BUFFER_SIZE) {
+    buffer = buffer.slice(buffer.length - BUFFER_SIZE);
+  }
+  for (const listener of listeners) {
+    try {
+      listener(full);
+    } catch (error) {
+      console.error('[FleetStream] Listener failed:', error);
+    }
+  }
+}
+
+function streamedState(vessel: SimulationWorld['vessels'][number]): StreamVesselState {
+  const state: StreamVesselState = { id: vessel.id };
+  if (typeof vessel.mmsi === 'string') state.mmsi = vessel.mmsi;
+  state.name = vessel.name;
+  for (const field of STREAMED_VESSEL_FIELDS) {
+    if (vessel[field] !== undefined) {
+      (state as unknown as Record<string, unknown>)[field] = vessel[field];
+    }
+  }
+  return state;
+}
+
+// ============================================================================
+// Publishing
+// ============================================================================
+
+/**
+ * Publish the world written by a tick (live or replayed)
+ */
+export function publishTick(world: SimulationWorld, tick: PublishedTick): void {
+  const deltas: StreamVesselState[] = [];
+
+  for (const vessel of world.vessels) {
+    const next = streamedState(vessel);
+    const prior = vesselState.get(vessel.id);
+    vesselState.set(vessel.id, next);
+
+    if (!prior) {
+      deltas.push(next);
+      continue;
+    }
+
+    const delta: StreamVesselState = { id: vessel.id };
+    let changed = false;
+    for (const field of STREAMED_VESSEL_FIELDS) {
+      if (next[field] !== prior[field]) {
+        (delta as unknown as Record<string, unknown>)[field] = next[field];
+        changed = true;
+      }
+    }
+    if (changed) {
+      if (next.mmsi) delta.mmsi = next.mmsi;
+      deltas.push(delta);
+    }
+  }
+
+  if (deltas.length > 0) {
+    emit({
+      type: 'vessels',
+      data: { tick: tick.tick, simulatedTime: tick.simulatedTime.toISOString(), vessels: deltas },
+    });
+  }
+
+  for (const event of tick.events) {
+    emit({ type: 'alert', data: event });
+  }
+
+  if (tick.weatherChanged && world.weather) {
+    currentWeather = world.weather;
+    emit({ type: 'weather', data: world.weather });
+  }
+
+  for (const insight of tick.insights) {
+    emit({ type: 'insight', data: insight });
+  }
+  if (tick.insights.length > 0) {
+    recentInsights = [...tick.insights, ...recentInsights].slice(0, 10);
+  }
+}
+
+/**
+ * Seed the streamed state from a loaded world before the first tick, so
+ * early subscribers get a full snapshot
+ */
+export function primeStream(world: SimulationWorld): void {
+  if (vesselState.size > 0) return;
+  for (const vessel of world.vessels) {
+    vesselState.set(vessel.id, streamedState(vessel));
+  }
+  currentWeather = currentWeather ?? world.weather;
+}
+
+/**
+ * Forget streamed state after a reset and start a new epoch, so resuming
+ * clients get a snapshot of the new world rather than nothing
+ */
+export function resetStream(): void {
+  vesselState.clear();
+  currentWeather = null;
+  recentInsights = [];
+  buffer = [];
+  epoch = newEpoch();
+  sequence = 0;
+}
+
+/**
+ * Send connected clients a snapshot of a freshly loaded world (after a reset)
+ */
+export function publishSnapshot(world: SimulationWorld): void {
+  primeStream(world);
+  emit({ type: 'snapshot', data: getStreamSnapshot().snapshot });
+}
+
+// ============================================================================
+// Subscribing
+// ============================================================================
+
+export function getStreamSnapshot(): { id: string; snapshot: FleetSnapshot } {
+  return {
+    id: `${epoch}:${sequence}`,
+    snapshot: {
+      vessels: [...vesselState.values()],
+      weather: currentWeather,
+      insights: recentInsights,
+    },
+  };
+}
+
+/**
+ * Events after a client's last seen id, or null when the client must start
+ * from a snapshot (first connect, another server run, or fell out of the buffer)
+ */
+export function eventsSince(lastEventId: string | null): FleetStreamEvent[] | null {
+  if (!lastEventId) return null;
+
+  const [lastEpoch, seq] = lastEventId.split(':');
+  const lastSeq = Number(seq);
+  if (lastEpoch !== epoch || !Number.isInteger(lastSeq) || lastSeq > sequence) return null;
+  if (lastSeq === sequence) return [];
+
+  const oldest = buffer.length > 0 ? Number(buffer[0].id.split(':')[1]) : sequence + 1;
+  if (lastSeq < oldest - 1) return null;
+
+  return buffer.filter(event => Number(event.id.split(':')[1]) > lastSeq);
+}
+
+export function subscribe(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function subscriberCount(): number {
+  return listeners.size;
+}
@@ -0,0 +1,232 @@
+// Simulation Engine Types
+
+import type { SimulationContext } from './context';
+
+// ============================================================================
+// World State
+// ============================================================================
+
+/**
+ * A vessel as the simulation sees it - the shape of a `vessels` row, with
+ * the PdM signals the models maintain. Unknown columns pass through untouched.
+ */
+export interface SimulationVessel {
+  id: string;
+  name: string;
+  type: string;
+  status: string;
+  position_lat: number;
+  position_lng: number;
+  heading: number;
+  speed: number; // knots
+  fuel_level: number; // %
+  health_score: number; // 0-100
+  op_mode: string; // TRANSIT | WORK | IDLE | STANDBY | MAINT
+  fuel_rate_tph: number;
+  hull_fouling_idx: number; // 0-10
+  lube_oil_ferro_ppm: number;
+  rope_health_score: number;
+  thruster_vibration_mm_s: number;
+  engine_load_pct: number;
+  project?: string;
+
+  // Derived each tick
+  wave_height_m?: number;
+  wind_speed_kn?: number;
+  ambient_temp_c?: number;
+  emission_co2_tph?: number;
+  fuel_cost_usd_h?: number;
+  connect_rssi_dbm?: number;
+  sat_latency_ms?: number;
+  ai_anomaly_score?: number;
+  predicted_failure_risk_pct?: number;
+  safety_state?: 'GREEN' | 'AMBER' | 'RED';
+
+  [column: string]: unknown;
+}
+
+// Fleet-area weather (the `weather` row)
+export interface SimulationWeather {
+  zone: string; // Nearest weather zone; not persisted
+  condition: 'clear' | 'cloudy' | 'rain' | 'storm' | 'fog';
+  severity: 'normal' | 'advisory' | 'warning' | 'severe';
+  temperature: number;
+  wind_speed: number;
+  wind_direction: number;
+  wave_height: number;
+  visibility: number;
+  updated_at: string;
+}
+
+// Pipelines and platform compressors (`offshore_assets` rows)
+export interface SimulationAsset {
+  id: string;
+  asset_subtype?: string;
+  op_mode?: string;
+  position_lat: number;
+  position_lng: number;
+  [column: string]: unknown;
+}
+
+export interface SimulationWorld {
+  vessels: SimulationVessel[];
+  weather: SimulationWeather | null;
+  offshoreAssets: SimulationAsset[];
+  conditions?: WorldConditions; // Set each tick by a running scenario
+}
+
+// ============================================================================
+// Scripted Conditions
+// ============================================================================
+
+export type EquipmentComponent = 'engine' | 'thruster' | 'rope' | 'hull';
+
+export interface WeatherFront {
+  name: string;
+  condition: SimulationWeather['condition'];
+  severity: SimulationWeather['severity'];
+  wind_speed: number;
+  wind_direction: number;
+  wave_height: number;
+  visibility: number;
+  temperature?: number;
+  area?: { lat: number; lng: number; radiusNm: number }; // Whole operating area when absent
+}
+
+export interface EquipmentFault {
+  vesselId: string;
+  component: EquipmentComponent;
+  severity: number; // 0-1
+  description?: string;
+}
+
+export interface PortClosure {
+  port: string;
+  reason?: string;
+  until?: string; // Simulated time; open-ended when absent
+}
+
+/**
+ * Disruptions the models must honour this tick - weather fronts override
+ * generated weather, faults pin equipment signals, closed ports cannot
+ * bunker, and fuel costs scale with the price index
+ */
+export interface WorldConditions {
+  weatherFront: WeatherFront | null;
+  equipmentFaults: EquipmentFault[];
+  closedPorts: PortClosure[];
+  fuelPriceIndex: number; // 1 = baseline price
+}
+
+// ============================================================================
+// Events & Insights
+// ============================================================================
+
+export interface SimulationEvent {
+  type:
+    | 'EQUIPMENT_FAILURE'
+    | 'WEATHER_CHANGE'
+    | 'FUEL_CRITICAL'
+    | 'COLLISION_RISK'
+    | 'MAINTENANCE_DUE'
+    | 'ANOMALY_DETECTED'
+    | 'PORT_CLOSURE'
+    | 'PORT_REOPENED'
+    | 'FUEL_PRICE_SHOCK';
+  severity: 'info' | 'warning' | 'critical';
+  vesselId?: string;
+  assetId?: string;
+  data: Record<string, unknown>;
+  timestamp: Date;
+}
+
+export interface AIInsight {
+  id: string;
+  type: 'forecast' | 'alert' | 'recommendation' | 'anomaly';
+  severity: 'info' | 'warning' | 'critical';
+  title: string;
+  description: string;
+  affectedAssets: string[];
+  suggestedActions: string[];
+  confidence: number;
+  timeframe?: string;
+  createdAt: string;
+}
+
+// ============================================================================
+// Anomaly Detection
+// ============================================================================
+
+export type AnomalyDetectorId = 'zscore' | 'ewma' | 'seasonal' | 'mahalanobis';
+
+/**
+ * How far a channel may stray before it alarms; lower limits are more sensitive
+ */
+export interface AnomalySensitivity {
+  zScore: number; // Rolling z-score limit
+  ewmaLambda: number; // EWMA smoothing weight for the newest sample
+  ewmaLimit: number; // EWMA control limit, in sigmas of the EWMA statistic
+  seasonalLimit: number; // Residual after trend and time-of-day, in robust sigmas
+  mahalanobisZ: number; // Normal-equivalent tail for the chi-square cut-off
+  window: number; // Samples in the rolling baseline
+  warmup: number; // Samples before a channel may alarm
+  clearAfter: number; // Normal samples before the same channel alarms again
+}
+
+// One signal behind an ANOMALY_DETECTED event
+export interface AnomalySignal {
+  metric: string;
+  detector: AnomalyDetectorId;
+  value: number;
+  expected: number;
+  score: number; // Score over the detector's limit; above 1 is anomalous
+  share?: number; // Part of a multivariate distance this signal accounts for
+}
+
+// ============================================================================
+// Models & Sinks
+// ============================================================================
+
+export interface TickContext {
+  context: SimulationContext;
+  tick: number;
+  simulatedSeconds: number;
+  simulatedTime: Date;
+  previous: SimulationWorld; // State before this tick - read only
+  events: SimulationEvent[];
+  insights: AIInsight[];
+}
+
+/**
+ * One physical or analytical model in the tick pipeline
+ * Models run in registration order and update the world in place.
+ */
+export interface SimulationModel {
+  id: string;
+  name: string;
+  description: string;
+  step(world: SimulationWorld, tick: TickContext): void | Promise<void>;
+}
+
+export interface TickOutcome {
+  tick: number;
+  simulatedTime: Date;
+  simulatedSeconds: number;
+  weatherChanged: boolean;
+  events: SimulationEvent[];
+  insights: AIInsight[];
+}
+
+export type SimulationSinkId = 'memory' | 'supabase' | 'file';
+
+/**
+ * Where the world lives between ticks
+ * load() is called at the start of every tick, so external edits (position
+ * resets, new vessels) are picked up.
+ */
+export interface SimulationSink {
+  id: SimulationSinkId;
+  description: string;
+  load(context: SimulationContext): Promise<SimulationWorld>;
+  write(world: SimulationWorld, outcome: TickOutcome): Promise<void>;
+}
@@ -1,6 +1,7 @@
-import { v4 as uuidv4 } from 'uuid';
 import { Vessel, VesselType, EquipmentStatus, EquipmentType, Position } from '../types';
 import { NMDC_FLEET, NMDCVessel } from '../nmdc/fleet';
+import { getSimulationContext, SimulationContext } from './context';
+import { Rng } from './random';
 
 // UAE/Persian Gulf operating area
 const UAE_WATERS = {
@@ -121,53 +122,47 @@ const EQUIPMENT_TEMPLATES: Record<VesselType, { type: EquipmentType; name: strin
   ],
 };
 
-function randomInRange(min: number, max: number): number {
-  return Math.random() * (max - min) + min;
-}
-
-function randomChoice<T>(arr: T[]): T {
-  return arr[Math.floor(Math.random() * arr.length)];
-}
-
-function generateEquipment(vesselType: VesselType): EquipmentStatus[] {
+function generateEquipment(vesselType: VesselType, context: SimulationContext): EquipmentStatus[] {
+  const { rng, clock } = context;
   const templates = EQUIPMENT_TEMPLATES[vesselType];
   return templates.map((template) => {
-    const hoursOperated = randomInRange(500, 15000);
-    const healthScore = Math.max(20, 100 - (hoursOperated / 200) + randomInRange(-15, 15));
-    const hasPredictedFailure = healthScore < 60 && Math.random() > 0.5;
+    const hoursOperated = rng.range(500, 15000);
+    const healthScore = Math.max(20, 100 - (hoursOperated / 200) + rng.range(-15, 15));
+    const hasPredictedFailure = healthScore < 60 && rng.next() > 0.5;
     
     return {
-      id: uuidv4(),
+      id: rng.uuid(),
       type: template.type,
       name: template.name,
       healthScore: Math.round(healthScore),
-      temperature: randomInRange(45, 95),
-      vibration: randomInRange(0.5, 8),
+      temperature: rng.range(45, 95),
+      vibration: rng.range(0.5, 8),
       hoursOperated: Math.round(hoursOperated),
-      lastMaintenance: new Date(Date.now() - randomInRange(7, 180) * 24 * 60 * 60 * 1000),
+      lastMaintenance: new Date(clock.now() - rng.range(7, 180) * 24 * 60 * 60 * 1000),
       predictedFailure: hasPredictedFailure 
-        ? new Date(Date.now() + randomInRange(1, 30) * 24 * 60 * 60 * 1000)
+        ? new Date(clock.now() + rng.range(1, 30) * 24 * 60 * 60 * 1000)
         : null,
-      failureConfidence: hasPredictedFailure ? Math.round(randomInRange(60, 95)) : 0,
+      failureConfidence: hasPredictedFailure ? Math.round(rng.range(60, 95)) : 0,
     };
   });
 }
 
-function generatePosition(): Position {
+function generatePosition(rng: Rng): Position {
   return {
-    lat: randomInRange(UAE_WATERS.bounds.minLat, UAE_WATERS.bounds.maxLat),
-    lng: randomInRange(UAE_WATERS.bounds.minLng, UAE_WATERS.bounds.maxLng),
+    lat: rng.range(UAE_WATERS.bounds.minLat, UAE_WATERS.bounds.maxLat),
+    lng: rng.range(UAE_WATERS.bounds.minLng, UAE_WATERS.bounds.maxLng),
   };
 }
 
-export function generateVessel(type?: VesselType): Vessel {
-  const vesselType = type || randomChoice(Object.keys(VESSEL_NAMES) as VesselType[]);
+export function generateVessel(type?: VesselType, context: SimulationContext = getSimulationContext()): Vessel {
+  const { rng, clock } = context;
+  const vesselType = type || rng.pick(Object.keys(VESSEL_NAMES) as VesselType[]);
   const names = VESSEL_NAMES[vesselType];
-  const equipment = generateEquipment(vesselType);
+  const equipment = generateEquipment(vesselType, context);
   const avgEquipmentHealth = equipment.reduce((sum, e) => sum + e.healthScore, 0) / equipment.length;
   
-  const fuelLevel = randomInRange(25, 100);
-  const speed = vesselType === 'crane_barge' ? randomInRange(0, 3) : randomInRange(0, 15);
+  const fuelLevel = rng.range(25, 100);
+  const speed = vesselType === 'crane_barge' ? rng.range(0, 3) : rng.range(0, 15);
   
   // Base fuel consumption varies by vessel type
   const baseFuelConsumption: Record<VesselType, number> = {
@@ -190,7 +185,7 @@ export function generateVessel(type?: VesselType): Vessel {
   const sox = fuelConsumption * 0.002;
   
   const statuses: ('operational' | 'maintenance' | 'idle')[] = ['operational', 'operational', 'operational', 'idle', 'maintenance'];
-  let status = randomChoice(statuses);
+  let status = rng.pick(statuses);
   
   // If equipment health is very low, vessel might be in maintenance
   if (avgEquipmentHealth < 40) {
@@ -198,11 +193,11 @@ export function generateVessel(type?: VesselType): Vessel {
   }
   
   return {
-    id: uuidv4(),
-    name: randomChoice(names),
+    id: rng.uuid(),
+    name: rng.pick(names),
     type: vesselType,
-    position: generatePosition(),
-    heading: randomInRange(0, 360),
+    position: generatePosition(rng),
+    heading: rng.range(0, 360),
     speed: status === 'operational' ? speed : 0,
     status,
     healthScore: Math.round(avgEquipmentHealth),
@@ -214,14 +209,14 @@ export function generateVessel(type?: VesselType): Vessel {
       sox: Math.round(sox * 1000) / 1000,
     },
     crew: {
-      count: Math.floor(randomInRange(5, 25)),
-      hoursOnDuty: Math.round(randomInRange(0, 12)),
-      safetyScore: Math.round(randomInRange(85, 100)),
+      count: Math.floor(rng.range(5, 25)),
+      hoursOnDuty: Math.round(rng.range(0, 12)),
+      safetyScore: Math.round(rng.range(85, 100)),
     },
     equipment,
-    project: randomChoice(PROJECTS),
-    destination: Math.random() > 0.3 ? generatePosition() : null,
-    lastUpdate: new Date(),
+    project: rng.pick(PROJECTS),
+    destination: rng.next() > 0.3 ? generatePosition(rng) : null,
+    lastUpdate: new Date(clock.now()),
   };
 }
 
@@ -229,17 +224,18 @@ export function generateVessel(type?: VesselType): Vessel {
  * Generate the NMDC fleet based on real vessel data
  * Uses NMDC vessel names, types, crew counts, and project assignments
  */
-export function generateFleet(count: number = 15): Vessel[] {
+export function generateFleet(count: number = 15, context: SimulationContext = getSimulationContext()): Vessel[] {
+  const { rng, clock } = context;
   const vessels: Vessel[] = [];
   
   // Use NMDC fleet as the basis for simulation
   NMDC_FLEET.slice(0, count).forEach((nmdcVessel, index) => {
     const vesselType = NMDC_TYPE_MAP[nmdcVessel.type];
-    const equipment = generateEquipment(vesselType);
+    const equipment = generateEquipment(vesselType, context);
     const avgEquipmentHealth = equipment.reduce((sum, e) => sum + e.healthScore, 0) / equipment.length;
     
-    const fuelLevel = randomInRange(35, 95);
-    const speed = nmdcVessel.type === 'barge' ? randomInRange(0, 2) : randomInRange(0, 12);
+    const fuelLevel = rng.range(35, 95);
+    const speed = nmdcVessel.type === 'barge' ? rng.range(0, 2) : rng.range(0, 12);
     
     // Base fuel consumption varies by vessel type
     const baseFuelConsumption: Record<VesselType, number> = {
@@ -274,8 +270,8 @@ export function generateFleet(count: number = 15): Vessel[] {
       type: vesselType,
       mmsi: nmdcVessel.mmsi,
       imo: nmdcVessel.imo,
-      position: generatePosition(),
-      heading: randomInRange(0, 360),
+      position: generatePosition(rng),
+      heading: rng.range(0, 360),
       speed: status === 'operational' ? speed : 0,
       status,
       healthScore: Math.round(avgEquipmentHealth),
@@ -287,14 +283,14 @@ export function generateFleet(count: number = 15): Vessel[] {
         sox: Math.round(sox * 1000) / 1000,
       },
       crew: {
-        count: nmdcVessel.crewCount || Math.floor(randomInRange(10, 25)),
-        hoursOnDuty: Math.round(randomInRange(0, 12)),
-        safetyScore: Math.round(randomInRange(88, 100)),
+        count: nmdcVessel.crewCount || Math.floor(rng.range(10, 25)),
+        hoursOnDuty: Math.round(rng.range(0, 12)),
+        safetyScore: Math.round(rng.range(88, 100)),
       },
       equipment,
-      project: nmdcVessel.project || randomChoice(PROJECTS),
-      destination: Math.random() > 0.3 ? generatePosition() : null,
-      lastUpdate: new Date(),
+      project: nmdcVessel.project || rng.pick(PROJECTS),
+      destination: rng.next() > 0.3 ? generatePosition(rng) : null,
+      lastUpdate: new Date(clock.now()),
     });
   });
   
@@ -302,7 +298,7 @@ export function generateFleet(count: number = 15): Vessel[] {
 }
 
 // Keep legacy function for backwards compatibility
-export function generateRandomFleet(count: number = 20): Vessel[] {
+export function generateRandomFleet(count: number = 20, context: SimulationContext = getSimulationContext()): Vessel[] {
   const vessels: Vessel[] = [];
   const typeDistribution: VesselType[] = [
     'tugboat', 'tugboat', 'tugboat', 'tugboat',
@@ -314,7 +310,7 @@ export function generateRandomFleet(count: number = 20): Vessel[] {
   
   for (let i = 0; i < count; i++) {
     const type = typeDistribution[i % typeDistribution.length];
-    vessels.push(generateVessel(type));
+    vessels.push(generateVessel(type, context));
   }
   
   const nameCount: Record<string, number> = {};
@@ -330,9 +326,14 @@ export function generateRandomFleet(count: number = 20): Vessel[] {
   return vessels;
 }
 
-export function updateVesselPosition(vessel: Vessel, deltaTime: number): Vessel {
+export function updateVesselPosition(
+  vessel: Vessel,
+  deltaTime: number,
+  context: SimulationContext = getSimulationContext()
+): Vessel {
+  const { rng, clock } = context;
   if (vessel.status !== 'operational' || vessel.speed === 0) {
-    return { ...vessel, lastUpdate: new Date() };
+    return { ...vessel, lastUpdate: new Date(clock.now()) };
   }
   
   // Convert speed from knots to degrees/second (approximate)
@@ -361,7 +362,7 @@ export function updateVesselPosition(vessel: Vessel, deltaTime: number): Vessel
     }
   } else {
     // Random slight heading change
-    vessel.heading = (vessel.heading + randomInRange(-5, 5) + 360) % 360;
+    vessel.heading = (vessel.heading + rng.range(-5, 5) + 360) % 360;
     const radians = vessel.heading * Math.PI / 180;
     newLat += Math.cos(radians) * distance;
     newLng += Math.sin(radians) * distance;
@@ -379,7 +380,7 @@ export function updateVesselPosition(vessel: Vessel, deltaTime: number): Vessel
     ...vessel,
     position: { lat: newLat, lng: newLng },
     fuelLevel: Math.round(newFuelLevel * 10) / 10,
-    lastUpdate: new Date(),
+    lastUpdate: new Date(clock.now()),
   };
 }
 
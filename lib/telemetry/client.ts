@@ -0,0 +1,62 @@
+/**
+ * Telemetry Client - Browser access to the telemetry query API
+ */
+
+import { TelemetryAggregate, TelemetryResolution, TelemetrySeries, TelemetrySummary } from './types';
+
+export interface TelemetryRequest {
+  assetId: string;
+  equipmentId?: string;
+  metrics?: string[];
+  from?: Date;
+  to?: Date;
+  resolution?: TelemetryResolution;
+  step?: string; // e.g. 15m, 1h
+  aggregate?: TelemetryAggregate;
+}
+
+const API = '/api/telemetry';
+
+function toSearchParams(request: TelemetryRequest): URLSearchParams {
+  const params = new URLSearchParams({ assetId: request.assetId });
+  if (request.equipmentId) params.set('equipmentId', request.equipmentId);
+  if (request.metrics?.length) params.set('metric', request.metrics.join(','));
+  if (request.from) params.set('from', request.from.toISOString());
+  if (request.to) params.set('to', request.to.toISOString());
+  if (request.resolution) params.set('resolution', request.resolution);
+  if (request.step) params.set('step', request.step);
+  if (request.aggregate) params.set('aggregate', request.aggregate);
+  return params;
+}
+
+async function get<T>(params: URLSearchParams): Promise<T> {
+  const response = await fetch(`${API}?${params}`);
+  const data = await response.json();
+  if (!data.success) throw new Error(data.error);
+  return data;
+}
+
+/**
+ * Series over a range, resampled when a step is given
+ */
+export async function fetchTelemetry(request: TelemetryRequest): Promise<TelemetrySeries[]> {
+  const { series } = await get<{ series: TelemetrySeries[] }>(toSearchParams(request));
+  return series.map(s => ({
+    ...s,
+    points: s.points.map(p => ({ ...p, timestamp: new Date(p.timestamp) })),
+  }));
+}
+
+/**
+ * One value per series over a range; the latest reading by default
+ */
+export async function fetchTelemetrySummary(request: TelemetryRequest): Promise<TelemetrySummary[]> {
+  const params = toSearchParams({ ...request, aggregate: request.aggregate ?? 'last' });
+  params.set('mode', 'aggregate');
+  const { summaries } = await get<{ summaries: TelemetrySummary[] }>(params);
+  return summaries.map(s => ({
+    ...s,
+    from: s.from ? new Date(s.from) : null,
+    to: s.to ? new Date(s.to) : null,
+  }));
+}
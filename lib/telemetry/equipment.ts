@@ -0,0 +1,34 @@
+/**
+ * Equipment Signals - Vessel-level series that stand in for equipment
+ *
+ * The simulation records one series per vessel column (engine load, thruster
+ * vibration, rope health; see recordVesselTelemetry) rather than per machine.
+ * Readers looking for an equipment's temperature, vibration or health fall
+ * back to the vessel series measuring that kind of equipment until the
+ * equipment reports its own.
+ */
+
+export type EquipmentSignal = 'temperature' | 'vibration' | 'health';
+
+// Predictive maintenance equipment types and the fleet equipment register's
+const VESSEL_STAND_INS: Record<string, Partial<Record<EquipmentSignal, string>>> = {
+  main_engine: { vibration: 'thruster_vibration' },
+  wire_rope: { health: 'rope_health' },
+  engine: { vibration: 'thruster_vibration' },
+  propulsion: { vibration: 'thruster_vibration' },
+  crane: { health: 'rope_health' },
+};
+
+/**
+ * Vessel-level metrics that stand in for some equipment signal
+ */
+export const VESSEL_STAND_IN_METRICS: string[] = [
+  ...new Set(Object.values(VESSEL_STAND_INS).flatMap(signals => Object.values(signals))),
+];
+
+/**
+ * The vessel-level metric standing in for an equipment type's signal, if any
+ */
+export function vesselStandIn(equipmentType: string, signal: EquipmentSignal): string | undefined {
+  return VESSEL_STAND_INS[equipmentType]?.[signal];
+}
@@ -0,0 +1,222 @@
+/**
+ * Telemetry Ingestion - Parse batched sensor readings
+ *
+ * JSON lines, one object per line:
+ *   {"assetId":"470339000","equipmentId":"470339000-0","metric":"vibration","value":3.4,"timestamp":"2026-03-01T10:00:00Z","unit":"mm/s"}
+ *   {"assetId":"470339000","equipmentId":"470339000-0","timestamp":1772359200000,"values":{"temperature":71.5,"vibration":3.4}}
+ *
+ * CSV with a header row, either one reading per row (metric and value
+ * columns) or one column per metric:
+ *   timestamp,asset_id,equipment_id,metric,value,unit
+ *   timestamp,asset_id,equipment_id,temperature,vibration
+ *
+ * A JSON body may also be an array of these objects, or { readings: [...] }.
+ * Timestamps are ISO 8601 or epoch milliseconds (seconds when below 1e12).
+ * Bad lines are reported by line number and the rest of the batch is kept.
+ */
+
+import { TelemetryIngestError, TelemetryReading } from './types';
+
+export interface ParsedReadings {
+  readings: TelemetryReading[];
+  errors: TelemetryIngestError[];
+}
+
+const KEY_COLUMNS: Record<string, 'assetId' | 'equipmentId' | 'metric' | 'value' | 'timestamp' | 'unit'> = {
+  assetid: 'assetId',
+  asset_id: 'assetId',
+  vessel_id: 'assetId',
+  mmsi: 'assetId',
+  equipmentid: 'equipmentId',
+  equipment_id: 'equipmentId',
+  metric: 'metric',
+  value: 'value',
+  timestamp: 'timestamp',
+  ts: 'timestamp',
+  time: 'timestamp',
+  unit: 'unit',
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+export function parseTimestamp(value: unknown): Date | null {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+  if (typeof value === 'string' && /^\d+(\.\d+)?$/.test(value.trim())) value = Number(value);
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) return null;
+    return new Date(value < 1e12 ? value * 1000 : value);
+  }
+  if (typeof value !== 'string' || !value.trim()) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Durations like 30s, 15m, 1h or 7d, or plain milliseconds
+ */
+export function parseDuration(value: string): number | null {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*(ms|s|m|h|d)?$/);
+  if (!match) return null;
+  const factor = { ms: 1, s: 1000, m: 60 * 1000, h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000 }[match[2] ?? 'ms'];
+  const ms = Number(match[1]) * factor!;
+  return ms > 0 ? ms : null;
+}
+
+function toNumber(value: unknown): number {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '') return Number(value);
+  return NaN;
+}
+
+function readingsFromRecord(record: Record<string, unknown>, line: number, out: ParsedReadings): void {
+  const assetId = record.assetId ?? record.asset_id ?? record.vessel_id ?? record.mmsi;
+  const equipmentId = record.equipmentId ?? record.equipment_id;
+  const timestamp = parseTimestamp(record.timestamp ?? record.ts ?? record.time);
+
+  if (assetId === undefined || assetId === null || assetId === '') {
+    out.errors.push({ line, error: 'assetId is required' });
+    return;
+  }
+  if (!timestamp) {
+    out.errors.push({ line, error: 'A valid timestamp is required' });
+    return;
+  }
+
+  const base = {
+    assetId: String(assetId),
+    equipmentId: equipmentId === undefined || equipmentId === null || equipmentId === '' ? undefined : String(equipmentId),
+    timestamp,
+  };
+
+  const values = record.values && typeof record.values === 'object'
+    ? Object.entries(record.values as Record<string, unknown>)
+    : record.metric !== undefined
+      ? [[String(record.metric), record.value] as [string, unknown]]
+      : [];
+  if (values.length === 0) {
+    out.errors.push({ line, error: 'metric and value, or values, are required' });
+    return;
+  }
+
+  for (const [metric, raw] of values) {
+    const value = toNumber(raw);
+    if (!Number.isFinite(value)) {
+      out.errors.push({ line, error: `Invalid value for ${metric}: ${String(raw)}` });
+      continue;
+    }
+    out.readings.push({ ...base, metric, value, unit: typeof record.unit === 'string' ? record.unit : undefined });
+  }
+}
+
+function addRecord(record: unknown, line: number, out: ParsedReadings): void {
+  if (!record || typeof record !== 'object' || Array.isArray(record)) {
+    out.errors.push({ line, error: 'Expected a JSON object' });
+    return;
+  }
+  readingsFromRecord(record as Record<string, unknown>, line, out);
+}
+
+// ============================================================================
+// Parsers
+// ============================================================================
+
+/**
+ * Parse newline-delimited JSON; blank lines are skipped
+ */
+export function parseJsonLines(text: string): ParsedReadings {
+  const out: ParsedReadings = { readings: [], errors: [] };
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.trim();
+    if (!line) return;
+    let record: unknown;
+    try {
+      record = JSON.parse(line);
+    } catch {
+      out.errors.push({ line: index + 1, error: 'Invalid JSON' });
+      return;
+    }
+    addRecord(record, index + 1, out);
+  });
+
+  return out;
+}
+
+/**
+ * Readings from already-parsed JSON objects, e.g. a JSON array body
+ */
+export function parseJsonRecords(records: unknown[]): ParsedReadings {
+  const out: ParsedReadings = { readings: [], errors: [] };
+  records.forEach((record, index) => addRecord(record, index + 1, out));
+  return out;
+}
+
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+/**
+ * Parse CSV with a header row, in long (metric, value) or wide (one column
+ * per metric) layout
+ */
+export function parseCsv(text: string): ParsedReadings {
+  const out: ParsedReadings = { readings: [], errors: [] };
+  const lines = text.split(/\r?\n/);
+  const headerIndex = lines.findIndex(line => line.trim() !== '');
+  if (headerIndex === -1) return out;
+
+  const header = splitCsvLine(lines[headerIndex]);
+  const keys = header.map(column => KEY_COLUMNS[column.toLowerCase()]);
+  const long = keys.includes('metric') && keys.includes('value');
+  if (!keys.includes('assetId') || !keys.includes('timestamp')) {
+    out.errors.push({ line: headerIndex + 1, error: 'Header needs asset_id and timestamp columns' });
+    return out;
+  }
+
+  for (let i = headerIndex + 1; i < lines.length; i++) {
+    if (!lines[i].trim()) continue;
+    const cells = splitCsvLine(lines[i]);
+    if (cells.length !== header.length) {
+      out.errors.push({ line: i + 1, error: `Expected ${header.length} columns, got ${cells.length}` });
+      continue;
+    }
+
+    const record: Record<string, unknown> = {};
+    const values: Record<string, string> = {};
+    cells.forEach((cell, c) => {
+      if (keys[c]) record[keys[c]] = cell;
+      else if (!long && cell !== '') values[header[c]] = cell;
+    });
+    if (!long) record.values = values;
+    readingsFromRecord(record, i + 1, out);
+  }
+
+  return out;
+}
@@ -0,0 +1,400 @@
+/**
+ * Telemetry Store - Equipment and vessel sensor time series
+ *
+ * Every reading is kept raw for a day and rolled up as it arrives into
+ * minute, hour and day buckets that are kept for a week, three months and
+ * two years. Retention runs behind each series' newest reading rather than
+ * the wall clock, so simulated, replayed and backfilled data age the same
+ * way as live data.
+ *
+ * Queries read a range from the finest tier that still covers it, optionally
+ * resampled into fixed buckets or reduced to one value per series. Fed by
+ * the telemetry ingestion API and by the simulation on every tick.
+ */
+
+import {
+  TelemetryAggregate,
+  TelemetryIngestResult,
+  TelemetryPoint,
+  TelemetryQuery,
+  TelemetryReading,
+  TelemetryResolution,
+  TelemetrySeries,
+  TelemetrySeriesInfo,
+  TelemetrySeriesKey,
+  TelemetrySummary,
+  TelemetryTier,
+} from './types';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+export const TELEMETRY_TIERS: TelemetryTier[] = [
+  { resolution: 'raw', bucketMs: 0, retentionMs: DAY_MS },
+  { resolution: '1m', bucketMs: MINUTE_MS, retentionMs: 7 * DAY_MS },
+  { resolution: '1h', bucketMs: HOUR_MS, retentionMs: 90 * DAY_MS },
+  { resolution: '1d', bucketMs: DAY_MS, retentionMs: 730 * DAY_MS },
+];
+
+const DOWNSAMPLED_TIERS = TELEMETRY_TIERS.filter(tier => tier.bucketMs > 0);
+const MAX_RAW_POINTS = 50000; // Per series, for sensors faster than 1 Hz
+const MAX_QUERY_POINTS = 1500; // Unresampled queries move to a coarser tier beyond this
+const DEFAULT_RANGE_MS = DAY_MS;
+
+// Vessel columns written to asset_timeseries, as metrics
+const VESSEL_METRICS: Record<string, { metric: string; unit: string }> = {
+  health_score: { metric: 'health', unit: '%' },
+  engine_load_pct: { metric: 'engine_load', unit: '%' },
+  fuel_rate_tph: { metric: 'fuel_rate', unit: 't/h' },
+  thruster_vibration_mm_s: { metric: 'thruster_vibration', unit: 'mm/s' },
+  lube_oil_ferro_ppm: { metric: 'lube_oil_ferro', unit: 'ppm' },
+  lube_oil_visc_cst_40c: { metric: 'lube_oil_viscosity', unit: 'cSt' },
+  rope_health_score: { metric: 'rope_health', unit: '%' },
+  hull_fouling_idx: { metric: 'hull_fouling', unit: 'idx' },
+  ambient_temp_c: { metric: 'ambient_temperature', unit: '°C' },
+  predicted_failure_risk_pct: { metric: 'failure_risk', unit: '%' },
+};
+
+// ============================================================================
+// Series State
+// ============================================================================
+
+interface Bucket {
+  start: number;
+  count: number;
+  sum: number;
+  min: number;
+  max: number;
+  first: number;
+  firstAt: number;
+  last: number;
+  lastAt: number;
+}
+
+interface SeriesState {
+  key: TelemetrySeriesKey;
+  unit?: string;
+  newest: number;
+  raw: Array<{ t: number; v: number }>;
+  tiers: Map<TelemetryResolution, Map<number, Bucket>>;
+}
+
+const seriesStore: Map<string, SeriesState> = new Map();
+
+function seriesId(key: TelemetrySeriesKey): string {
+  return `${key.assetId}|${key.equipmentId ?? ''}|${key.metric}`;
+}
+
+function tierFor(resolution: TelemetryResolution): TelemetryTier {
+  return TELEMETRY_TIERS.find(tier => tier.resolution === resolution)!;
+}
+
+// First index whose time is at or after t
+function lowerBound(raw: SeriesState['raw'], t: number): number {
+  let lo = 0;
+  let hi = raw.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (raw[mid].t < t) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+function addToBucket(buckets: Map<number, Bucket>, start: number, t: number, v: number): void {
+  const bucket = buckets.get(start);
+  if (!bucket) {
+    buckets.set(start, { start, count: 1, sum: v, min: v, max: v, first: v, firstAt: t, last: v, lastAt: t });
+    return;
+  }
+  bucket.count++;
+  bucket.sum += v;
+  bucket.min = Math.min(bucket.min, v);
+  bucket.max = Math.max(bucket.max, v);
+  if (t < bucket.firstAt) {
+    bucket.first = v;
+    bucket.firstAt = t;
+  }
+  if (t >= bucket.lastAt) {
+    bucket.last = v;
+    bucket.lastAt = t;
+  }
+}
+
+function append(state: SeriesState, t: number, v: number): void {
+  const { raw } = state;
+  if (raw.length === 0 || raw[raw.length - 1].t <= t) raw.push({ t, v });
+  else raw.splice(lowerBound(raw, t), 0, { t, v });
+
+  for (const tier of DOWNSAMPLED_TIERS) {
+    addToBucket(state.tiers.get(tier.resolution)!, Math.floor(t / tier.bucketMs) * tier.bucketMs, t, v);
+  }
+  state.newest = Math.max(state.newest, t);
+}
+
+function prune(state: SeriesState): void {
+  const rawCutoff = state.newest - tierFor('raw').retentionMs;
+  const expired = Math.max(lowerBound(state.raw, rawCutoff), state.raw.length - MAX_RAW_POINTS);
+  if (expired > 0) state.raw.splice(0, expired);
+
+  for (const tier of DOWNSAMPLED_TIERS) {
+    const cutoff = state.newest - tier.retentionMs;
+    const buckets = state.tiers.get(tier.resolution)!;
+    for (const start of buckets.keys()) {
+      if (start + tier.bucketMs <= cutoff) buckets.delete(start);
+    }
+  }
+}
+
+// ============================================================================
+// Ingestion
+// ============================================================================
+
+/**
+ * Add a batch of readings; invalid readings are counted and skipped
+ */
+export function ingestReadings(readings: TelemetryReading[]): TelemetryIngestResult {
+  const touched = new Set<SeriesState>();
+  const errors: TelemetryIngestResult['errors'] = [];
+
+  readings.forEach((reading, index) => {
+    const t = reading.timestamp instanceof Date ? reading.timestamp.getTime() : NaN;
+    if (!reading.assetId || !reading.metric) {
+      errors.push({ line: index + 1, error: 'assetId and metric are required' });
+      return;
+    }
+    if (!Number.isFinite(reading.value)) {
+      errors.push({ line: index + 1, error: `Invalid value: ${String(reading.value)}` });
+      return;
+    }
+    if (!Number.isFinite(t)) {
+      errors.push({ line: index + 1, error: 'Invalid timestamp' });
+      return;
+    }
+
+    const key: TelemetrySeriesKey = {
+      assetId: reading.assetId,
+      equipmentId: reading.equipmentId || undefined,
+      metric: reading.metric,
+    };
+    const id = seriesId(key);
+    let state = seriesStore.get(id);
+    if (!state) {
+      state = {
+        key,
+        newest: t,
+        raw: [],
+        tiers: new Map(DOWNSAMPLED_TIERS.map(tier => [tier.resolution, new Map()])),
+      };
+      seriesStore.set(id, state);
+    }
+    if (reading.unit) state.unit = reading.unit;
+    append(state, t, reading.value);
+    touched.add(state);
+  });
+
+  touched.forEach(prune);
+
+  return {
+    accepted: readings.length - errors.length,
+    rejected: errors.length,
+    series: touched.size,
+    errors,
+  };
+}
+
+/**
+ * Record the simulated fleet's sensor columns, one reading per vessel and metric
+ */
+export function recordVesselTelemetry(vessels: Array<{ id: string; [field: string]: unknown }>, at: Date): TelemetryIngestResult {
+  const readings: TelemetryReading[] = [];
+  for (const vessel of vessels) {
+    for (const [field, { metric, unit }] of Object.entries(VESSEL_METRICS)) {
+      const value = vessel[field];
+      if (typeof value === 'number' && Number.isFinite(value)) {
+        readings.push({ assetId: vessel.id, metric, value, unit, timestamp: at });
+      }
+    }
+  }
+  return ingestReadings(readings);
+}
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+function matchingSeries(query: TelemetryQuery): SeriesState[] {
+  return Array.from(seriesStore.values())
+    .filter(state =>
+      state.key.assetId === query.assetId &&
+      (query.equipmentId === undefined || state.key.equipmentId === query.equipmentId) &&
+      (!query.metrics?.length || query.metrics.includes(state.key.metric))
+    )
+    .sort((a, b) => seriesId(a.key).localeCompare(seriesId(b.key)));
+}
+
+function queryRange(state: SeriesState, query: TelemetryQuery): { from: number; to: number } {
+  const to = query.to?.getTime() ?? state.newest;
+  return { from: query.from?.getTime() ?? to - DEFAULT_RANGE_MS, to };
+}
+
+/**
+ * Finest tier still holding data back to `from`; with a step, the coarsest
+ * one no wider than it; without, the finest that stays under the point limit
+ */
+function pickResolution(state: SeriesState, from: number, to: number, stepMs?: number): TelemetryResolution {
+  const covering = TELEMETRY_TIERS.filter(tier => from >= state.newest - tier.retentionMs);
+  if (covering.length === 0) return TELEMETRY_TIERS[TELEMETRY_TIERS.length - 1].resolution;
+
+  if (stepMs) {
+    const fitting = covering.filter(tier => tier.bucketMs <= stepMs);
+    return (fitting[fitting.length - 1] ?? covering[0]).resolution;
+  }
+
+  const underLimit = covering.find(tier => tier.bucketMs === 0
+    ? lowerBound(state.raw, to + 1) - lowerBound(state.raw, from) <= MAX_QUERY_POINTS
+    : (to - from) / tier.bucketMs <= MAX_QUERY_POINTS);
+  return (underLimit ?? covering[covering.length - 1]).resolution;
+}
+
+function bucketsInRange(state: SeriesState, resolution: TelemetryResolution, from: number, to: number): Bucket[] {
+  if (resolution === 'raw') {
+    return state.raw
+      .slice(lowerBound(state.raw, from), lowerBound(state.raw, to + 1))
+      .map(({ t, v }) => ({ start: t, count: 1, sum: v, min: v, max: v, first: v, firstAt: t, last: v, lastAt: t }));
+  }
+  const { bucketMs } = tierFor(resolution);
+  return Array.from(state.tiers.get(resolution)!.values())
+    .filter(bucket => bucket.start + bucketMs > from && bucket.start <= to)
+    .sort((a, b) => a.start - b.start);
+}
+
+function mergeBuckets(buckets: Bucket[], start: number): Bucket {
+  const merged: Bucket = { ...buckets[0], start };
+  for (const bucket of buckets.slice(1)) {
+    merged.count += bucket.count;
+    merged.sum += bucket.sum;
+    merged.min = Math.min(merged.min, bucket.min);
+    merged.max = Math.max(merged.max, bucket.max);
+    if (bucket.firstAt < merged.firstAt) {
+      merged.first = bucket.first;
+      merged.firstAt = bucket.firstAt;
+    }
+    if (bucket.lastAt >= merged.lastAt) {
+      merged.last = bucket.last;
+      merged.lastAt = bucket.lastAt;
+    }
+  }
+  return merged;
+}
+
+function aggregateValue(bucket: Bucket, aggregate: TelemetryAggregate): number {
+  switch (aggregate) {
+    case 'min': return bucket.min;
+    case 'max': return bucket.max;
+    case 'sum': return bucket.sum;
+    case 'count': return bucket.count;
+    case 'first': return bucket.first;
+    case 'last': return bucket.last;
+    default: return bucket.sum / bucket.count;
+  }
+}
+
+function toPoint(bucket: Bucket, aggregate: TelemetryAggregate): TelemetryPoint {
+  return {
+    timestamp: new Date(bucket.start),
+    value: Math.round(aggregateValue(bucket, aggregate) * 1000) / 1000,
+    count: bucket.count,
+    min: bucket.min,
+    max: bucket.max,
+  };
+}
+
+/**
+ * Readings in a time range, one series per equipment and metric; resampled
+ * into `stepMs` buckets when a step is given
+ */
+export function queryTelemetry(query: TelemetryQuery): TelemetrySeries[] {
+  const aggregate = query.aggregate ?? 'avg';
+
+  return matchingSeries(query).map(state => {
+    const { from, to } = queryRange(state, query);
+    const resolution = query.resolution ?? pickResolution(state, from, to, query.stepMs);
+    let buckets = bucketsInRange(state, resolution, from, to);
+
+    if (query.stepMs) {
+      const groups = new Map<number, Bucket[]>();
+      for (const bucket of buckets) {
+        const start = Math.floor(bucket.start / query.stepMs) * query.stepMs;
+        if (!groups.has(start)) groups.set(start, []);
+        groups.get(start)!.push(bucket);
+      }
+      buckets = Array.from(groups.entries()).map(([start, group]) => mergeBuckets(group, start));
+    }
+
+    return {
+      ...state.key,
+      unit: state.unit,
+      resolution,
+      stepMs: query.stepMs,
+      aggregate,
+      points: buckets.map(bucket => toPoint(bucket, aggregate)),
+    };
+  });
+}
+
+/**
+ * One value per series over a time range, e.g. the latest reading or the
+ * week's peak
+ */
+export function aggregateTelemetry(query: TelemetryQuery): TelemetrySummary[] {
+  const aggregate = query.aggregate ?? 'avg';
+
+  return matchingSeries(query).map(state => {
+    const { from, to } = queryRange(state, query);
+    const resolution = query.resolution ?? pickResolution(state, from, to);
+    const buckets = bucketsInRange(state, resolution, from, to);
+    const merged = buckets.length > 0 ? mergeBuckets(buckets, buckets[0].start) : null;
+
+    return {
+      ...state.key,
+      unit: state.unit,
+      resolution,
+      aggregate,
+      value: merged ? Math.round(aggregateValue(merged, aggregate) * 1000) / 1000 : null,
+      count: merged?.count ?? 0,
+      from: merged ? new Date(merged.firstAt) : null,
+      to: merged ? new Date(merged.lastAt) : null,
+    };
+  });
+}
+
+/**
+ * Stored series with their time span and point count per tier
+ */
+export function listTelemetrySeries(filter: { assetId?: string; equipmentId?: string } = {}): TelemetrySeriesInfo[] {
+  return Array.from(seriesStore.values())
+    .filter(state =>
+      (!filter.assetId || state.key.assetId === filter.assetId) &&
+      (filter.equipmentId === undefined || state.key.equipmentId === filter.equipmentId)
+    )
+    .map(state => {
+      const coarsest = Array.from(state.tiers.get('1d')!.values());
+      const firstTimestamp = Math.min(...coarsest.map(bucket => bucket.firstAt), state.raw[0]?.t ?? state.newest);
+      const points = { raw: state.raw.length } as Record<TelemetryResolution, number>;
+      for (const tier of DOWNSAMPLED_TIERS) points[tier.resolution] = state.tiers.get(tier.resolution)!.size;
+
+      return {
+        ...state.key,
+        unit: state.unit,
+        firstTimestamp: new Date(firstTimestamp),
+        lastTimestamp: new Date(state.newest),
+        points,
+      };
+    });
+}
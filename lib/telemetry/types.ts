@@ -0,0 +1,83 @@
+// Telemetry Time-Series Types
+
+export type TelemetryResolution = 'raw' | '1m' | '1h' | '1d';
+
+export type TelemetryAggregate = 'avg' | 'min' | 'max' | 'sum' | 'count' | 'first' | 'last';
+
+export interface TelemetryReading {
+  assetId: string; // Vessel MMSI or crane id
+  equipmentId?: string; // Absent for asset-level signals
+  metric: string; // e.g. temperature, vibration, health
+  value: number;
+  timestamp: Date;
+  unit?: string;
+}
+
+export interface TelemetryTier {
+  resolution: TelemetryResolution;
+  bucketMs: number; // 0 for raw readings
+  retentionMs: number; // Kept this long behind the series' newest reading
+}
+
+// One point of a series; a downsampled point also carries its bucket's spread
+export interface TelemetryPoint {
+  timestamp: Date;
+  value: number;
+  count: number;
+  min: number;
+  max: number;
+}
+
+export interface TelemetrySeriesKey {
+  assetId: string;
+  equipmentId?: string;
+  metric: string;
+}
+
+export interface TelemetrySeries extends TelemetrySeriesKey {
+  unit?: string;
+  resolution: TelemetryResolution;
+  stepMs?: number; // Set when resampled
+  aggregate: TelemetryAggregate;
+  points: TelemetryPoint[];
+}
+
+export interface TelemetrySummary extends TelemetrySeriesKey {
+  unit?: string;
+  resolution: TelemetryResolution;
+  aggregate: TelemetryAggregate;
+  value: number | null;
+  count: number;
+  from: Date | null; // First and last reading in the range
+  to: Date | null;
+}
+
+export interface TelemetryQuery {
+  assetId: string;
+  equipmentId?: string;
+  metrics?: string[];
+  from?: Date;
+  to?: Date;
+  resolution?: TelemetryResolution; // Finest tier that still covers the range when absent
+  stepMs?: number; // Resample into buckets of this width
+  aggregate?: TelemetryAggregate; // Per resampled bucket, or over the whole range
+}
+
+export interface TelemetrySeriesInfo extends TelemetrySeriesKey {
+  unit?: string;
+  firstTimestamp: Date;
+  lastTimestamp: Date;
+  points: Record<TelemetryResolution, number>;
+}
+
+export interface TelemetryIngestError {
+  line: number;
+  error: string;
+}
+
+export interface TelemetryIngestResult {
+  accepted: number;
+  rejected: number;
+  series: number;
+  errors: TelemetryIngestError[];
+}
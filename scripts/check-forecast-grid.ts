@@ -0,0 +1,90 @@
+#!/usr/bin/env npx tsx
+/**
+ * Regression checks for forecast routing against a recorded grid
+ *
+ * Run: npx tsx scripts/check-forecast-grid.ts
+ */
+
+import assert from 'node:assert/strict';
+import path from 'node:path';
+import { createGridForecastSource, forecastPathSegments, loadForecastGrid } from '../lib/route-optimization/forecast';
+import { calculateDistanceNm } from '../lib/route-optimization/optimizer';
+import { Coordinates } from '../lib/route-optimization/types';
+
+const GRID_FILE = path.join(__dirname, '../lib/routes/data/gulf-forecast-sample.json');
+const HOUR = 3600000;
+
+// Directions are blended as unit vectors, not averaged as numbers
+async function checkDirectionBlend() {
+  const source = createGridForecastSource(await loadForecastGrid(GRID_FILE));
+  const at = (lng: number) => source.getForecast(25, lng, new Date('2026-03-10T00:00:00Z'));
+
+  // 350° and 10° meet at north, not south
+  const north = (await at(53.5))!.waveDirection!;
+  assert.ok(Math.min(north, 360 - north) < 1e-6, `expected ~0°, got ${north}`);
+
+  // Closer to the 10° column the blend leans east of north
+  const leaning = (await at(53.75))!.waveDirection!;
+  assert.ok(leaning > 0 && leaning < 10, `expected 0-10°, got ${leaning}`);
+
+  // 90° and 270° cancel: no direction rather than a made-up one
+  assert.equal((await at(55.5))!.waveDirection, undefined);
+}
+
+// Each segment is checked against the forecast valid when the vessel is on it
+async function checkSegmentForecastTimes() {
+  const grid = await loadForecastGrid(GRID_FILE);
+  const source = createGridForecastSource(grid);
+  const steps = grid.times.map(t => new Date(t).getTime());
+  const heights = grid.fields.waveHeight.map(step => step[0][0]!);
+
+  const points: Coordinates[] = [
+    { lat: 25, lng: 53.2 },
+    { lat: 25, lng: 54.2 },
+    { lat: 25, lng: 55.8 },
+  ];
+  const departure = new Date(grid.times[0]);
+  const speedKnots = 10;
+
+  const segments = await forecastPathSegments(points, departure, speedKnots, source);
+  assert.equal(segments.length, 2);
+
+  let entry = departure.getTime();
+  for (const [i, segment] of segments.entries()) {
+    const hours = calculateDistanceNm(points[i], points[i + 1]) / speedKnots;
+    assert.equal(segment.segmentIndex, i);
+    assert.equal(segment.entryTime.getTime(), entry);
+    assert.ok(Math.abs(segment.exitTime.getTime() - (entry + hours * HOUR)) < 1000);
+    assert.ok(segment.passageTime >= segment.entryTime && segment.passageTime <= segment.exitTime);
+    assert.equal(segment.source, source.id);
+
+    // Forecast step and value belong to the passage time, not the departure time
+    const passage = segment.passageTime.getTime();
+    const nearest = steps.reduce((best, t) => (Math.abs(t - passage) < Math.abs(best - passage) ? t : best));
+    assert.equal(segment.forecastTime?.getTime(), nearest);
+
+    const k = steps.findIndex((t, s) => s === steps.length - 1 || steps[s + 1] >= passage);
+    const w = (passage - steps[k]) / (steps[k + 1] - steps[k]);
+    const expected = heights[k] + (heights[k + 1] - heights[k]) * w;
+    assert.ok(Math.abs(segment.waveHeightM! - expected) < 1e-6, `segment ${i}: ${segment.waveHeightM} vs ${expected}`);
+
+    entry = segment.exitTime.getTime();
+  }
+
+  // The later segment sees the later, rougher forecast
+  assert.ok(segments[1].forecastTime! > segments[0].forecastTime!);
+  assert.ok(segments[1].waveHeightM! > segments[0].waveHeightM!);
+  assert.equal(segments[0].severity, 'minor');
+  assert.equal(segments[1].severity, 'moderate');
+}
+
+async function main() {
+  await checkDirectionBlend();
+  await checkSegmentForecastTimes();
+  console.log('Forecast grid checks passed');
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});